@@ -1,4 +1,4 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { MeteredGoogleGenerativeAI } from '@/services/modelGateway/meter';
 import { withGeminiRetry } from '@/utils/geminiRetry';
 import { AgentSwarm, FabricatedAgent, AgentRole } from '@/types/autonomy';
 
@@ -68,7 +68,7 @@ Context: "{CONTEXT}"
 export class AgentSwarmFactory {
   async fabricateSwarm(mission: string, context: string = ''): Promise<AgentSwarm> {
     const apiKey = getApiKey();
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const genAI = new MeteredGoogleGenerativeAI(apiKey);
     const model = genAI.getGenerativeModel({ 
       model: GEMINI_MODEL,
       generationConfig: { responseMimeType: 'application/json' }
@@ -13,8 +13,9 @@
 
 import { AgentSwarmFactory } from './AgentSwarmFactory';
 import { DynamicWorkflowEngine } from '@/services/DynamicWorkflowEngine';
-import type { AutonomyGoal, AgentTaskResult } from '@/types/autonomy';
+import type { AutonomyGoal, AgentTaskResult, FileEdit } from '@/types/autonomy';
 import { getSkillLibraryService } from '@/services/SkillLibraryService';
+import { fullContentEdits } from '@/utils/fileEdits';
 
 const MAX_RETRIES = 3;
 
@@ -34,8 +35,11 @@ export class AutonomyCore {
    *   - On failure, the error is fed back as a constraint
    *   - A new swarm is fabricated with awareness of previous failures
    *   - This continues until success or MAX_RETRIES is reached
+   *
+   * Aborting `signal` stops before the next swarm call and rejects with the
+   * abort reason.
    */
-  async solveUnknown(goal: AutonomyGoal): Promise<AgentTaskResult> {
+  async solveUnknown(goal: AutonomyGoal, signal?: AbortSignal): Promise<AgentTaskResult> {
     console.log('[AutonomyCore] Solving Unknown:', goal.description);
 
     // Fresh engine per request to prevent state bleed between concurrent calls
@@ -43,6 +47,7 @@ export class AutonomyCore {
     let lastResult: AgentTaskResult | null = null;
 
     for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+      signal?.throwIfAborted();
       const isRetry = attempt > 0;
 
       if (isRetry && lastResult) {
@@ -72,7 +77,9 @@ export class AutonomyCore {
       );
 
       // 2. Execute the Swarm
+      signal?.throwIfAborted();
       const result = await engine.runSwarm(swarm, goal.description);
+      signal?.throwIfAborted();
 
       // 3. Check result
       
@@ -85,7 +92,9 @@ export class AutonomyCore {
 
       if (result.success) {
         // Server-side syntax validation via esbuild before returning
-        const syntaxErrors = await this.quickSyntaxCheck(result.output);
+        const syntaxErrors = result.edits
+          ? await this.checkEditSyntax(result.edits)
+          : await this.quickSyntaxCheck(result.output);
         if (syntaxErrors) {
           console.warn(
             `[AutonomyCore] Code generated but has syntax errors: ${syntaxErrors}`
@@ -97,6 +106,7 @@ export class AutonomyCore {
             error: `Syntax validation failed: ${syntaxErrors}`,
             retry_suggestion: 'Fix the syntax errors in the generated code.',
             reasoning_summary: result.reasoning_summary,
+            edits: result.edits,
           };
           continue;
         }
@@ -156,6 +166,19 @@ export class AutonomyCore {
     }
   }
 
+  /**
+   * Syntax-check the script files an edit set writes in full. Patch hunks
+   * are checked by the caller once applied to the loaded files.
+   */
+  private async checkEditSyntax(edits: FileEdit[]): Promise<string | null> {
+    for (const file of fullContentEdits(edits)) {
+      if (!/\.(tsx?|jsx?)$/.test(file.path)) continue;
+      const error = await this.quickSyntaxCheck(file.content);
+      if (error) return `${file.path}: ${error}`;
+    }
+    return null;
+  }
+
   /**
    * Save a successfully solved + validated solution to the skill library.
    * Runs asynchronously so it doesn't block the response to the user.
@@ -173,7 +196,9 @@ export class AutonomyCore {
       reasoningSummary: result.reasoning_summary || `Solved via autonomy swarm. Context: ${goal.context.slice(0, 500)}`,
       tags,
       solutionCode: result.output,
-      solutionFiles: [{ path: '/src/App.tsx', content: result.output }],
+      solutionFiles: result.edits
+        ? fullContentEdits(result.edits)
+        : [{ path: '/src/App.tsx', content: result.output }],
     });
 
     console.log(`[AutonomyCore] Skill saved to library for: "${goal.description.slice(0, 80)}"`);
@@ -9,7 +9,7 @@
  * them at the cheapest possible stage — before any code is written.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { MeteredGoogleGenerativeAI } from '@/services/modelGateway/meter';
 import { withGeminiRetry } from '@/utils/geminiRetry';
 
 const MODEL_NAME = 'gemini-3-pro-preview';
@@ -97,7 +97,7 @@ class ClarificationAgent {
    */
   async analyzeRequest(request: string): Promise<ClarificationAnalysis> {
     const apiKey = getApiKey();
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const genAI = new MeteredGoogleGenerativeAI(apiKey);
     const model = genAI.getGenerativeModel({
       model: MODEL_NAME,
       generationConfig: { responseMimeType: 'application/json' },
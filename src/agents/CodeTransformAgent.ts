@@ -9,7 +9,6 @@
  * - Updating environment variable references
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import type {
   ICodeTransformAgent,
   AppFile,
@@ -18,6 +17,7 @@ import type {
   CodeTransformResult,
   TransformChange,
 } from './types';
+import { getModelGateway } from '@/services/modelGateway';
 
 // ============================================================================
 // CONSTANTS
@@ -72,13 +72,11 @@ datasource db {
 // ============================================================================
 
 export class CodeTransformAgent implements ICodeTransformAgent {
-  private client: Anthropic;
-  private model: string = 'claude-sonnet-4-20250514';
+  /** Provider key override; the gateway falls back to the environment */
+  private apiKey?: string;
 
   constructor(apiKey?: string) {
-    this.client = new Anthropic({
-      apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
-    });
+    this.apiKey = apiKey;
   }
 
   /**
@@ -143,9 +141,9 @@ export class CodeTransformAgent implements ICodeTransformAgent {
     }
 
     // Use AI to intelligently transform the schema while preserving models
-    const message = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 4000,
+    const { text: responseText } = await getModelGateway().generate({
+      step: 'codeTransform',
+      apiKey: this.apiKey,
       system: TRANSFORM_SYSTEM_PROMPT,
       messages: [
         {
@@ -178,7 +176,6 @@ Respond with ONLY the transformed Prisma schema, no explanation.`,
       ],
     });
 
-    const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
 
     // Extract schema from response (might be wrapped in code blocks)
     const schemaMatch = responseText.match(/```(?:prisma)?\s*([\s\S]*?)```/);
@@ -6,7 +6,6 @@
  * and orchestrates the deployment process with error recovery.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import type {
   IDeploymentAgent,
   ProjectContext,
@@ -19,6 +18,7 @@ import type {
   AppFile,
   WebDeploymentConfig,
 } from './types';
+import { getModelGateway } from '@/services/modelGateway';
 
 // ============================================================================
 // CONSTANTS
@@ -55,13 +55,11 @@ Always respond with JSON containing the next action to take or the result.`;
 // ============================================================================
 
 export class DeploymentAgent implements IDeploymentAgent {
-  private client: Anthropic;
-  private model: string = 'claude-sonnet-4-20250514';
+  /** Provider key override; the gateway falls back to the environment */
+  private apiKey?: string;
 
   constructor(apiKey?: string) {
-    this.client = new Anthropic({
-      apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
-    });
+    this.apiKey = apiKey;
   }
 
   /**
@@ -70,9 +68,9 @@ export class DeploymentAgent implements IDeploymentAgent {
   async analyzeProject(context: ProjectContext): Promise<ProjectAnalysis> {
     const filesDescription = this.describeFiles(context.files);
 
-    const message = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 2000,
+    const { text: responseText } = await getModelGateway().generate({
+      step: 'deploymentAnalysis',
+      apiKey: this.apiKey,
       system: ANALYSIS_SYSTEM_PROMPT,
       messages: [
         {
@@ -103,7 +101,6 @@ Provide your analysis as JSON with this structure:
     });
 
     // Extract JSON from response
-    const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
     const analysis = this.parseJsonResponse<ProjectAnalysis>(responseText, {
       recommendedDatabase: 'turso',
       databaseReason: 'Default recommendation for cost-effective deployment',
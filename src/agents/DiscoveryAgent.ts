@@ -6,23 +6,27 @@
  *
  * Logic:
  *   1. Scan for "important" files: *Service.ts, *Manager.ts, *Provider.ts,
- *      *Hook.ts, *Agent.ts, *Engine.ts — these usually represent major features
+ *      *Hook.ts, *Agent.ts, *Engine.ts — these usually represent major features —
+ *      plus any file CodeAnalysisService classifies as a hook or context provider
  *   2. Build connectivity map using DependencyGraphService to check which files
  *      are reachable from entry points (App.tsx, page.tsx, layout.tsx, etc.)
  *   3. Classify status:
  *      - ACTIVE: Transitively reachable from an entry point
  *      - PARTIALLY_CONNECTED: Imported somewhere but not from an entry point
  *      - DISCONNECTED: Never imported by anything
- *   4. Infer purpose via Gemini (reads exports, comments, class/function names)
+ *   4. Infer purpose via Gemini (reads the file's doc comment, imports, export
+ *      signatures, components and hooks from its syntax-tree analysis)
  *   5. Auto-populate goals for DISCONNECTED / PARTIALLY_CONNECTED features
  *
  * Used by MaintenanceCampaign at the start of each dream cycle.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { MeteredGoogleGenerativeAI } from '@/services/modelGateway/meter';
 import { withGeminiRetry } from '@/utils/geminiRetry';
 import { getDependencyGraphService } from '@/services/DependencyGraphService';
+import { getCodeAnalysisService } from '@/services/codeAnalysis';
 import type { AppFile } from '@/types/railway';
+import type { FileType } from '@/types/codeContext';
 import type {
   DiscoveredFeature,
   DiscoveryReport,
@@ -54,6 +58,9 @@ const FEATURE_PATTERNS = [
   /Hook\.tsx?$/,
 ];
 
+/** Analyzed file types that are features whatever their file name */
+const FEATURE_FILE_TYPES: FileType[] = ['hook', 'context-provider'];
+
 /**
  * Paths to exclude from discovery scanning.
  * These are infrastructure files, not features.
@@ -67,6 +74,9 @@ const EXCLUDED_PATHS = [
   /index\.ts$/,
 ];
 
+/** Max characters of signatures sent per file for purpose inference */
+const MAX_SIGNATURE_CHARS = 2000;
+
 /** Max files to infer purpose for (cost control) */
 const MAX_INFERENCES = 30;
 
@@ -219,14 +229,14 @@ class DiscoveryAgentInstance {
    */
   async inferPurpose(file: AppFile): Promise<string> {
     const apiKey = getApiKey();
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const genAI = new MeteredGoogleGenerativeAI(apiKey);
     const model = genAI.getGenerativeModel({
       model: INFERENCE_MODEL,
       generationConfig: { temperature: 0.1, maxOutputTokens: 256 },
     });
 
     // Truncate large files — we only need exports, comments, and signatures
-    const truncatedContent = this.extractSignatures(file.content);
+    const truncatedContent = this.extractSignatures(file);
 
     const prompt = `Analyze this TypeScript/JavaScript file and infer its purpose in ONE sentence (max 20 words).
 Focus on: exports, class/function names, JSDoc comments, and import patterns.
@@ -247,12 +257,16 @@ Respond with ONLY the one-sentence purpose. No markdown, no quotes.`;
   // ==========================================================================
 
   /**
-   * Find files matching feature naming conventions.
+   * Find files matching feature naming conventions, or analyzed as hooks
+   * or context providers.
    */
   private findFeatureFiles(files: AppFile[]): AppFile[] {
+    const analysis = getCodeAnalysisService();
     return files.filter((file) => {
-      // Must match a feature pattern
-      const isFeature = FEATURE_PATTERNS.some((p) => p.test(file.path));
+      // Must match a feature pattern or be a hook / provider
+      const isFeature =
+        FEATURE_PATTERNS.some((p) => p.test(file.path)) ||
+        FEATURE_FILE_TYPES.includes(analysis.analyzeFile(file).type);
       if (!isFeature) return false;
 
       // Must not be excluded
@@ -314,14 +328,14 @@ Respond with ONLY the one-sentence purpose. No markdown, no quotes.`;
 
     // For larger batches, use a single prompt
     const apiKey = getApiKey();
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const genAI = new MeteredGoogleGenerativeAI(apiKey);
     const model = genAI.getGenerativeModel({
       model: INFERENCE_MODEL,
       generationConfig: { temperature: 0.1, maxOutputTokens: 2048 },
     });
 
     const fileSummaries = files.map((f, i) => {
-      const sigs = this.extractSignatures(f.content);
+      const sigs = this.extractSignatures(f);
       return `### File ${i + 1}: ${f.path}\n\`\`\`\n${sigs}\n\`\`\``;
     }).join('\n\n');
 
@@ -350,41 +364,42 @@ Line 1 = File 1's purpose, Line 2 = File 2's purpose, etc.`;
   }
 
   /**
-   * Extract key signatures from file content for purpose inference.
-   * Returns exports, class declarations, function signatures, and top comments.
+   * Extract key signatures from a file for purpose inference: its top doc
+   * comment, imports, export signatures, components and custom hooks.
    * Truncates to ~2000 chars to stay within token limits.
    */
-  private extractSignatures(content: string): string {
-    const lines = content.split('\n');
+  private extractSignatures(file: AppFile): string {
+    const analysis = getCodeAnalysisService().analyzeFile(file);
     const significant: string[] = [];
-    let charCount = 0;
-    const maxChars = 2000;
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      // Keep: exports, class/function declarations, interfaces, JSDoc, imports
-      if (
-        trimmed.startsWith('export ') ||
-        trimmed.startsWith('class ') ||
-        trimmed.startsWith('interface ') ||
-        trimmed.startsWith('type ') ||
-        trimmed.startsWith('function ') ||
-        trimmed.startsWith('async function') ||
-        trimmed.startsWith('const ') ||
-        trimmed.startsWith('/**') ||
-        trimmed.startsWith(' *') ||
-        trimmed.startsWith('import ') ||
-        trimmed.startsWith('// ==') ||
-        trimmed.startsWith('// --')
-      ) {
-        significant.push(trimmed);
-        charCount += trimmed.length;
-        if (charCount > maxChars) break;
-      }
+
+    const header = /^\s*(\/\*\*[\s\S]*?\*\/)/.exec(file.content);
+    if (header) significant.push(header[1]);
+
+    for (const info of analysis.imports) {
+      const names = info.imports.map((s) => s.alias ?? s.name).join(', ');
+      const keyword = info.isDynamic ? 'import()' : info.isTypeOnly ? 'import type' : 'import';
+      significant.push(`${keyword} ${names ? `${names} ` : ''}from '${info.source}'`);
+    }
+
+    for (const exported of analysis.exports) {
+      const name = exported.name === 'default' ? '' : exported.name;
+      const detail = exported.typeSignature ?? `${name}${exported.signature ?? ''}`;
+      const async = exported.isAsync ? 'async ' : '';
+      significant.push(`export ${exported.isDefault ? 'default ' : ''}${async}${exported.kind === 'default' ? '' : `${exported.kind} `}${detail}`);
+    }
+
+    for (const component of analysis.components) {
+      const props = component.props.map((p) => `${p.name}${p.required ? '' : '?'}: ${p.type}`).join(', ');
+      const hooks = component.hooks.length > 0 ? ` uses ${component.hooks.join(', ')}` : '';
+      significant.push(`component ${component.name}({ ${props} })${hooks}`);
+    }
+
+    for (const hook of analysis.hooks.filter((h) => h.isCustom)) {
+      significant.push(`hook ${hook.name}(${hook.parameters.join(', ')})${hook.returnType ? `: ${hook.returnType}` : ''}`);
     }
 
-    return significant.join('\n');
+    const signatures = significant.join('\n');
+    return signatures.length > MAX_SIGNATURE_CHARS ? signatures.slice(0, MAX_SIGNATURE_CHARS) : signatures;
   }
 
   /**
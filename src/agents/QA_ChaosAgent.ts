@@ -17,11 +17,29 @@
  * Strategy B — Iframe Injection (Secondary):
  *   Injects vanilla JS test scripts into the LayoutCanvas iframe via postMessage.
  *   Tests run against the real rendered DOM for CSS/interaction bugs.
+ *
+ * Parallel gremlins: with a SandboxPool (ChaosProfile.concurrentGremlins > 1)
+ * a Strategy A suite is sharded across the pool's sandboxes and the shard
+ * reports are merged.
+ *
+ * Fuzzing: generateFuzzSuite emits seeded, model-free tests (utils/chaosFuzz)
+ * that run alongside the AI-written suite. A failing fuzz case comes back
+ * shrunk, with its seed and minimal steps as the crash's reproduction.
+ *
+ * Crashes are grouped by fingerprint (utils/crashFingerprint) with their
+ * occurrences counted; rerunFailingTests tells deterministic crashes from
+ * flaky ones.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { MeteredGoogleGenerativeAI } from '@/services/modelGateway/meter';
 import { withGeminiRetry } from '@/utils/geminiRetry';
+import { shardTestSuite } from '@/utils/chaosSharding';
+import { buildFuzzSuite, describeFuzzAction, generateFuzzCases, parseFuzzFailure } from '@/utils/chaosFuzz';
+import { groupCrashes, mergeCrashReports } from '@/utils/crashFingerprint';
+import { getCodeAnalysisService } from '@/services/codeAnalysis';
+import type { SandboxPool } from '@/services/sandboxPool';
 import type { AppFile } from '@/types/railway';
+import type { JSXElementInfo } from '@/types/codeContext';
 import type {
   ChaosProfile,
   CrashReport,
@@ -36,6 +54,15 @@ import type {
 
 const TEST_GEN_MODEL = 'gemini-3-flash-preview';
 
+/** Dev dependencies the generated vitest suites need */
+const TEST_DEPENDENCIES = ['vitest', 'happy-dom', '@testing-library/react', '@testing-library/jest-dom'];
+
+/** Max time for installing TEST_DEPENDENCIES (ms) */
+const TEST_INSTALL_TIMEOUT = 60000;
+
+/** Where runTests writes the chaos suite */
+const CHAOS_TEST_FILE = '/__tests__/chaos.test.tsx';
+
 /** Vitest config template written into the WebContainer */
 const VITEST_CONFIG = `
 import { defineConfig } from 'vitest/config';
@@ -59,29 +86,45 @@ function getApiKey(): string {
 // UI ANALYSIS (Static — no AI needed)
 // ============================================================================
 
-/** Regex patterns for finding interactive React elements */
-const ELEMENT_PATTERNS: { type: InteractableType; pattern: RegExp }[] = [
-  { type: 'button', pattern: /<button\b[^>]*>|<Button\b[^>]*/g },
-  { type: 'input', pattern: /<input\b[^>]*/g },
-  { type: 'textarea', pattern: /<textarea\b[^>]*/g },
-  { type: 'select', pattern: /<select\b[^>]*/g },
-  { type: 'form', pattern: /<form\b[^>]*/g },
-  { type: 'link', pattern: /<a\b[^>]*href/g },
-  { type: 'checkbox', pattern: /type=["']checkbox["']/g },
-  { type: 'radio', pattern: /type=["']radio["']/g },
-];
-
-/** Regex for extracting handler names */
-const HANDLER_PATTERN = /on(Click|Submit|Change|Focus|Blur|KeyDown|KeyUp|MouseEnter|MouseLeave)=\{/g;
-
-/** Regex for extracting identifiers (id, data-testid, aria-label) */
-const ID_PATTERNS = [
-  /id=["']([^"']+)["']/,
-  /data-testid=["']([^"']+)["']/,
-  /aria-label=["']([^"']+)["']/,
-  /name=["']([^"']+)["']/,
-  /placeholder=["']([^"']+)["']/,
-];
+/** Intrinsic elements that are always interactive */
+const INTRINSIC_TYPES: Record<string, InteractableType> = {
+  button: 'button',
+  input: 'input',
+  textarea: 'textarea',
+  select: 'select',
+  form: 'form',
+};
+
+/** Design-system components, by imported name, that render interactive elements */
+const COMPONENT_TYPES: Record<string, InteractableType> = {
+  Button: 'button',
+  IconButton: 'button',
+  Input: 'input',
+  TextField: 'input',
+  Textarea: 'textarea',
+  Select: 'select',
+  Form: 'form',
+  Link: 'link',
+  NavLink: 'link',
+  Checkbox: 'checkbox',
+  Switch: 'checkbox',
+  Radio: 'radio',
+  RadioGroupItem: 'radio',
+};
+
+/** Attributes that identify an element, in order of preference */
+const ID_ATTRIBUTES = ['id', 'data-testid', 'aria-label', 'name', 'placeholder'];
+
+/** Interactable type of a JSX element, or null if it is not interactive */
+function interactableType(element: JSXElementInfo): InteractableType | null {
+  if (element.component) return COMPONENT_TYPES[element.component] ?? null;
+
+  const type = element.attributes.type;
+  if (element.tag === 'input' && (type === 'checkbox' || type === 'radio')) return type;
+  if (element.tag === 'a') return 'href' in element.attributes ? 'link' : null;
+  if (element.attributes.role === 'button') return 'button';
+  return INTRINSIC_TYPES[element.tag] ?? COMPONENT_TYPES[element.tag] ?? null;
+}
 
 // ============================================================================
 // SERVICE
@@ -90,62 +133,35 @@ const ID_PATTERNS = [
 class QA_ChaosAgentInstance {
   /**
    * Analyze React code to find all interactive UI elements.
-   * Uses static regex analysis — no AI calls needed.
+   * Walks the JSX of each file's syntax tree (CodeAnalysisService), so
+   * multiline elements, spread props and aliased or namespaced component
+   * imports are all seen. No AI calls needed.
    */
   analyzeUI(files: AppFile[]): InteractableElement[] {
+    const analysis = getCodeAnalysisService();
     const elements: InteractableElement[] = [];
 
     for (const file of files) {
       if (!file.path.endsWith('.tsx') && !file.path.endsWith('.jsx')) continue;
 
-      const lines = file.content.split('\n');
-
-      for (let lineIdx = 0; lineIdx < lines.length; lineIdx++) {
-        const line = lines[lineIdx];
-
-        for (const { type, pattern } of ELEMENT_PATTERNS) {
-          pattern.lastIndex = 0;
-          if (pattern.test(line)) {
-            // Extract a broader context (current line + next 2 lines for multi-line elements)
-            const context = lines.slice(lineIdx, lineIdx + 3).join(' ');
-
-            // Find selector/label
-            let selector = '';
-            let label = '';
-            for (const idPattern of ID_PATTERNS) {
-              const match = context.match(idPattern);
-              if (match) {
-                selector = match[1];
-                label = match[1];
-                break;
-              }
-            }
-
-            // Extract button text content
-            if (type === 'button' && !label) {
-              const textMatch = context.match(/>([^<]+)</);
-              if (textMatch) label = textMatch[1].trim();
-            }
-
-            // Find handlers
-            const handlers: string[] = [];
-            HANDLER_PATTERN.lastIndex = 0;
-            let handlerMatch;
-            while ((handlerMatch = HANDLER_PATTERN.exec(context)) !== null) {
-              handlers.push(`on${handlerMatch[1]}`);
-            }
-
-            if (selector || handlers.length > 0 || label) {
-              elements.push({
-                type,
-                selector: selector || `${type}[${lineIdx}]`,
-                label: label || `${type} at line ${lineIdx + 1}`,
-                file: file.path,
-                line: lineIdx + 1,
-                handlers,
-              });
-            }
-          }
+      for (const element of analysis.analyzeFile(file).jsxElements) {
+        const type = interactableType(element);
+        if (!type) continue;
+
+        // Find selector/label
+        const id = ID_ATTRIBUTES.map((name) => element.attributes[name]).find((value) => !!value) ?? '';
+        const label = id || (type === 'button' || type === 'link' ? element.text ?? '' : '');
+
+        // Spread props may carry handlers we cannot see
+        if (id || label || element.handlers.length > 0 || element.hasSpread) {
+          elements.push({
+            type,
+            selector: id || `${type}[${element.line - 1}]`,
+            label: label || `${type} at line ${element.line}`,
+            file: file.path,
+            line: element.line,
+            handlers: element.handlers,
+          });
         }
       }
     }
@@ -165,7 +181,7 @@ class QA_ChaosAgentInstance {
     profile: ChaosProfile
   ): Promise<string> {
     const apiKey = getApiKey();
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const genAI = new MeteredGoogleGenerativeAI(apiKey);
     const model = genAI.getGenerativeModel({
       model: TEST_GEN_MODEL,
       generationConfig: { temperature: 0.3, maxOutputTokens: 8192 },
@@ -223,6 +239,25 @@ The file should start with import statements and contain describe/test blocks.`;
     return testCode;
   }
 
+  /**
+   * Generate seeded fuzz tests for the given interactive elements: random
+   * clicks, typed strings and select changes replayed against the app's root
+   * component. Deterministic, no AI calls. Returns '' when there is nothing
+   * to fuzz or no App component to render.
+   */
+  generateFuzzSuite(
+    elements: InteractableElement[],
+    files: AppFile[],
+    options: { seed: number; runs: number }
+  ): string {
+    const appFile = files.find((f) => /\/App\.(tsx|jsx)$/.test(f.path));
+    if (!appFile || options.runs <= 0) return '';
+
+    // Relative to CHAOS_TEST_FILE, one directory below the project root
+    const appImport = `..${appFile.path.replace(/\.(tsx|jsx)$/, '')}`;
+    return buildFuzzSuite(generateFuzzCases(elements, options), { appImport });
+  }
+
   /**
    * Generate a test specifically for a newly built feature.
    * Used after a DreamGoal is completed to verify it works.
@@ -232,7 +267,7 @@ The file should start with import statements and contain describe/test blocks.`;
     files: AppFile[]
   ): Promise<string> {
     const apiKey = getApiKey();
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const genAI = new MeteredGoogleGenerativeAI(apiKey);
     const model = genAI.getGenerativeModel({
       model: TEST_GEN_MODEL,
       generationConfig: { temperature: 0.2, maxOutputTokens: 4096 },
@@ -279,7 +314,7 @@ Output ONLY the test file code. No markdown, no explanations.`;
     profile: ChaosProfile
   ): Promise<string> {
     const apiKey = getApiKey();
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const genAI = new MeteredGoogleGenerativeAI(apiKey);
     const model = genAI.getGenerativeModel({
       model: TEST_GEN_MODEL,
       generationConfig: { temperature: 0.3, maxOutputTokens: 4096 },
@@ -324,22 +359,28 @@ Output ONLY the JavaScript code. No markdown, no explanations.`;
   async runTests(
     executeShell: (cmd: string, args: string[], timeout?: number) => Promise<{ output: string; exitCode: number }>,
     testCode: string,
-    options: { delay: number; writeFile?: (path: string, content: string) => Promise<void> }
+    options: {
+      delay: number;
+      writeFile?: (path: string, content: string) => Promise<void>;
+      /** The test dependencies are already installed (sandbox pool shards) */
+      skipInstall?: boolean;
+      /** Only run tests whose full name matches (vitest -t) */
+      testNamePattern?: string;
+    }
   ): Promise<CrashReport> {
     const startTime = Date.now();
     const reportId = `chaos_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
     try {
       // 1. Install test dependencies (if not already installed)
-      await executeShell('npm', [
-        'install', '-D',
-        'vitest', 'happy-dom', '@testing-library/react', '@testing-library/jest-dom',
-      ], 60000);
+      if (!options.skipInstall) {
+        await executeShell('npm', ['install', '-D', ...TEST_DEPENDENCIES], TEST_INSTALL_TIMEOUT);
+      }
 
       if (options.writeFile) {
         // Use filesystem API (safe — no heredoc injection risk)
         await options.writeFile('/vitest.config.ts', VITEST_CONFIG.trim());
-        await options.writeFile('/__tests__/chaos.test.tsx', testCode);
+        await options.writeFile(CHAOS_TEST_FILE, testCode);
       } else {
         // Fallback: use shell with base64 encoding to avoid heredoc issues
         const configB64 = btoa(VITEST_CONFIG.trim());
@@ -350,9 +391,11 @@ Output ONLY the JavaScript code. No markdown, no explanations.`;
       }
 
       // 4. Run vitest with JSON reporter
+      const args = ['vitest', 'run', '--reporter=json'];
+      if (options.testNamePattern) args.push('-t', options.testNamePattern);
       const { output, exitCode } = await executeShell(
         'npx',
-        ['vitest', 'run', '--reporter=json'],
+        args,
         options.delay * 100 + 60000 // Generous timeout
       );
 
@@ -376,6 +419,83 @@ Output ONLY the JavaScript code. No markdown, no explanations.`;
     }
   }
 
+  /**
+   * Run a vitest suite sharded across a prepared sandbox pool and merge the
+   * shard reports. Strategy A execution with parallel gremlins.
+   */
+  async runTestsInPool(
+    pool: SandboxPool,
+    testCode: string,
+    options: { delay: number }
+  ): Promise<CrashReport> {
+    const shards = shardTestSuite(testCode, pool.size);
+    await pool.installDevDependencies(TEST_DEPENDENCIES, TEST_INSTALL_TIMEOUT);
+
+    const reports = await pool.map(shards, (shard, sandbox) =>
+      this.runTests(sandbox.executeShell.bind(sandbox), shard, {
+        delay: options.delay,
+        writeFile: sandbox.writeFile.bind(sandbox),
+        skipInstall: true,
+      })
+    );
+    return mergeCrashReports(reports);
+  }
+
+  /**
+   * Re-run the tests behind a report's crashes to tell deterministic crashes
+   * from flaky ones. With `reruns` 0 the crashes are returned unclassified.
+   */
+  async rerunFailingTests(
+    executeShell: (cmd: string, args: string[], timeout?: number) => Promise<{ output: string; exitCode: number }>,
+    testCode: string,
+    crashes: CrashEntry[],
+    options: {
+      delay: number;
+      reruns: number;
+      writeFile?: (path: string, content: string) => Promise<void>;
+    }
+  ): Promise<CrashEntry[]> {
+    const grouped = groupCrashes(crashes);
+    if (options.reruns <= 0 || grouped.length === 0) return grouped;
+
+    const reports: CrashReport[] = [];
+    for (let i = 0; i < options.reruns; i++) {
+      reports.push(
+        await this.runTests(executeShell, testCode, {
+          delay: options.delay,
+          writeFile: options.writeFile,
+          skipInstall: true,
+          testNamePattern: rerunPattern(grouped),
+        })
+      );
+    }
+    return classifyCrashes(grouped, reports);
+  }
+
+  /**
+   * rerunFailingTests with the re-runs spread across a prepared sandbox pool.
+   * The test dependencies must already be installed (runTestsInPool).
+   */
+  async rerunFailingTestsInPool(
+    pool: SandboxPool,
+    testCode: string,
+    crashes: CrashEntry[],
+    options: { delay: number; reruns: number }
+  ): Promise<CrashEntry[]> {
+    const grouped = groupCrashes(crashes);
+    if (options.reruns <= 0 || grouped.length === 0) return grouped;
+
+    const reports = await pool.map(Array.from({ length: options.reruns }), (_, sandbox) =>
+      this.runTests(sandbox.executeShell.bind(sandbox), testCode, {
+        delay: options.delay,
+        writeFile: sandbox.writeFile.bind(sandbox),
+        skipInstall: true,
+        testNamePattern: rerunPattern(grouped),
+      })
+    );
+    return classifyCrashes(grouped, reports);
+  }
+
   /**
    * Run tests by injecting a script into an iframe.
    * Strategy B execution.
@@ -535,12 +655,16 @@ Output ONLY the JavaScript code. No markdown, no explanations.`;
                   if (test.status === 'passed') {
                     testsPassed++;
                   } else if (test.status === 'failed') {
+                    const { text, fuzzCase } = parseFuzzFailure(test.failureMessages?.join('\n') ?? '');
                     crashes.push({
-                      error: test.failureMessages?.join('\n') || 'Test failed',
-                      stackTrace: test.failureMessages?.join('\n'),
-                      stepsToReproduce: [`Test: ${test.fullName || test.title}`],
+                      error: text || 'Test failed',
+                      stackTrace: text || undefined,
+                      stepsToReproduce: fuzzCase
+                        ? [`Fuzz seed ${fuzzCase.seed}`, ...fuzzCase.steps.map(describeFuzzAction)]
+                        : [`Test: ${test.fullName || test.title}`],
                       severity: 'medium',
                       testName: test.fullName || test.title,
+                      ...(fuzzCase ? { fuzz: fuzzCase } : {}),
                     });
                   }
                 }
@@ -569,7 +693,7 @@ Output ONLY the JavaScript code. No markdown, no explanations.`;
 
     return {
       id: reportId,
-      crashes,
+      crashes: groupCrashes(crashes),
       timestamp: startTime,
       duration: Date.now() - startTime,
       strategy: 'vitest',
@@ -579,6 +703,44 @@ Output ONLY the JavaScript code. No markdown, no explanations.`;
   }
 }
 
+/**
+ * vitest -t pattern matching the tests behind `crashes`. Crashes without a
+ * test name (setup failures) re-run the whole suite.
+ */
+function rerunPattern(crashes: CrashEntry[]): string | undefined {
+  const names = crashes.map((c) => c.testName);
+  if (!names.every((name): name is string => !!name)) return undefined;
+  return names.map((name) => `^${escapeRegExp(name)}$`).join('|');
+}
+
+/**
+ * A crash is deterministic only if its fingerprint comes back on every re-run.
+ */
+function classifyCrashes(crashes: CrashEntry[], reruns: CrashReport[]): CrashEntry[] {
+  const failures = new Map<string, number>();
+  for (const report of reruns) {
+    for (const fingerprint of new Set(report.crashes.map((c) => c.fingerprint))) {
+      if (fingerprint) failures.set(fingerprint, (failures.get(fingerprint) ?? 0) + 1);
+    }
+  }
+
+  return crashes.map((crash) => {
+    const failed = (crash.fingerprint && failures.get(crash.fingerprint)) || 0;
+    return {
+      ...crash,
+      stability: {
+        verdict: failed === reruns.length ? 'deterministic' : 'flaky',
+        reruns: reruns.length,
+        failures: failed,
+      },
+    };
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 // ============================================================================
 // SINGLETON
 // ============================================================================
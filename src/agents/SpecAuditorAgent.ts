@@ -11,7 +11,7 @@
  * 4. Output a list of DreamGoals to build the missing features.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { MeteredGoogleGenerativeAI } from '@/services/modelGateway/meter';
 import { withGeminiRetry } from '@/utils/geminiRetry';
 import type { AppFile } from '@/types/railway';
 import type { DreamGoal } from '@/types/dream';
@@ -79,7 +79,7 @@ If all features appear to exist, return { "missing_features": [] }.`;
 
     try {
       const apiKey = getApiKey();
-      const genAI = new GoogleGenerativeAI(apiKey);
+      const genAI = new MeteredGoogleGenerativeAI(apiKey);
       const model = genAI.getGenerativeModel({
         model: AUDITOR_MODEL,
         generationConfig: { responseMimeType: 'application/json' },
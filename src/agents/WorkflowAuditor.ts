@@ -16,7 +16,7 @@
  *   4. Return WorkflowResult with per-step pass/fail
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { MeteredGoogleGenerativeAI } from '@/services/modelGateway/meter';
 import { withGeminiRetry } from '@/utils/geminiRetry';
 import { getTimeTravelService } from '@/services/TimeTravelService';
 import { getWebContainerService } from '@/services/WebContainerService';
@@ -122,7 +122,7 @@ Rules:
 
     try {
       const apiKey = getApiKey();
-      const genAI = new GoogleGenerativeAI(apiKey);
+      const genAI = new MeteredGoogleGenerativeAI(apiKey);
       const model = genAI.getGenerativeModel({
         model: AUDITOR_MODEL,
         generationConfig: { responseMimeType: 'application/json' },
@@ -7,6 +7,7 @@
  *   - Stats dashboard (goals, bugs found/fixed, discoveries, elapsed time, cost)
  *   - Directive Queue panel with drag-to-reorder
  *   - Discovery Report panel
+ *   - Morning reports (Markdown/HTML) for past cycles
  *   - Pause/Stop controls
  *   - Wake Lock to prevent sleep
  */
@@ -19,7 +20,9 @@ import { useSettings } from '@/hooks/useSettings';
 import { useDreamMode } from '@/hooks/useDreamMode';
 import { useWakeLock } from '@/hooks/useWakeLock';
 import { DirectiveQueue } from '@/components/dream/DirectiveQueue';
-import { CHAOS_PROFILE_META } from '@/config/chaosProfile';
+import { DreamReportList } from '@/components/dream/DreamReportList';
+import { useAppStore } from '@/store/useAppStore';
+import { CHAOS_PROFILE_META, getChaosProfile } from '@/config/chaosProfile';
 import type { CampaignPhase } from '@/types/dream';
 
 // ============================================================================
@@ -48,6 +51,7 @@ export default function DreamPage() {
   const { settings } = useSettings();
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const dream = useDreamMode({ iframeRef });
+  const dreamLogs = useAppStore((s) => s.dreamLogs);
   const wakeLock = useWakeLock(dream.isDreaming);
   const terminalRef = useRef<HTMLDivElement>(null);
 
@@ -83,6 +87,8 @@ export default function DreamPage() {
   const minutes = Math.floor(elapsed / 60000);
   const seconds = Math.floor((elapsed % 60000) / 1000);
   const profileMeta = CHAOS_PROFILE_META[settings.dream.chaosProfile];
+  const cost = dream.stats?.cost;
+  const costCap = settings.dream.costLimit || getChaosProfile(settings.dream.chaosProfile).maxCostPerCycle;
 
   return (
     <div className="flex h-screen flex-col bg-zinc-950 text-zinc-100">
@@ -152,7 +158,11 @@ export default function DreamPage() {
             <StatCard label="Bugs Fixed" value={String(dream.stats?.bugsFixed ?? 0)} />
             <StatCard label="Discoveries" value={String(dream.stats?.discoveries ?? 0)} />
             <StatCard label="Budget Left" value={String(dream.stats?.budgetRemaining ?? '-')} />
-            <StatCard label="Est. Cost" value={profileMeta.costEstimate} subtle />
+            {cost ? (
+              <StatCard label="Spend" value={`$${cost.spentUsd.toFixed(2)} / $${cost.limitUsd}`} />
+            ) : (
+              <StatCard label="Cost Cap" value={`$${costCap}`} subtle />
+            )}
           </div>
 
           {/* Terminal */}
@@ -233,6 +243,12 @@ export default function DreamPage() {
               </p>
             )}
           </div>
+
+          {/* Morning Reports */}
+          <div className="h-48 overflow-y-auto border-t border-zinc-800 p-4">
+            <h2 className="mb-3 text-sm font-semibold text-zinc-300">Morning Reports</h2>
+            <DreamReportList logs={dreamLogs} />
+          </div>
         </div>
       </div>
 
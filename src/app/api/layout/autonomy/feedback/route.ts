@@ -12,7 +12,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { DynamicWorkflowEngine } from '@/services/DynamicWorkflowEngine';
-import { parseAutonomyOutput } from '@/services/TitanPipelineService';
+import {
+  applyAutonomyEdits,
+  autonomyBase,
+  parseAutonomyOutput,
+} from '@/services/TitanPipelineService';
 import type { AgentSwarm, SuspendedExecution, AgentFeedback } from '@/types/autonomy';
 import { AutonomyFeedbackRequestSchema } from '@/types/api-schemas';
 
@@ -49,10 +53,19 @@ export async function POST(req: NextRequest) {
       return NextResponse.json(result);
     }
 
-    // Final success: parse raw code output into AppFile[] for the client
+    // Final success: apply the edit set to the project the run started from
+    // (or parse raw code output) into AppFile[] for the client
     if (result.success && result.output) {
-      const files = parseAutonomyOutput(result.output);
-      return NextResponse.json({ files, success: true });
+      if (!result.edits) {
+        return NextResponse.json({ files: parseAutonomyOutput(result.output), success: true });
+      }
+      try {
+        const files = applyAutonomyEdits(autonomyBase(suspendedState), result.edits);
+        return NextResponse.json({ files, success: true });
+      } catch (editError) {
+        // A rejected edit set is a generation failure, not a server error
+        return NextResponse.json({ error: editError instanceof Error ? editError.message : String(editError) });
+      }
     }
 
     // Failure: return error for the client to display
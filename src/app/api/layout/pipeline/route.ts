@@ -8,12 +8,120 @@
  * Actions:
  *   - 'pipeline' (default): Run the full Titan pipeline
  *   - 'live-edit': Lightweight code edit for FloatingEditBubble
+ *   - 'cancel': Abort the in-flight run identified by `runId`
+ *
+ * Pipeline runs are registered under `runId` (client-supplied or generated)
+ * and are also cancelled when the client disconnects.
+ *
+ * With `stream: true` the pipeline responds with Server-Sent Events
+ * (see types/streaming.ts) as each step starts and finishes, ending
+ * with a 'complete' event carrying the PipelineResult (its files in
+ * `data.files`) or an 'error' event.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getTitanPipelineService } from '@/services/TitanPipelineService';
-import type { PipelineInput } from '@/types/titanPipeline';
+import {
+  getTitanPipelineService,
+  registerPipelineRun,
+  cancelPipelineRun,
+  releasePipelineRun,
+} from '@/services/TitanPipelineService';
+import type { PipelineInput, PipelineResult, PipelineStreamEvent } from '@/types/titanPipeline';
 import { PipelineRequestSchema } from '@/types/api-schemas';
+import { formatSSE } from '@/types/streaming';
+
+/** Strip screenshotDataUri from critique (too large for API response) */
+function sanitizeResult(result: PipelineResult): PipelineResult {
+  const { critique, ...rest } = result;
+  return critique ? { ...rest, critique: { ...critique, screenshotDataUri: undefined } } : rest;
+}
+
+/**
+ * Run the pipeline and stream its progress as SSE.
+ * The stream always ends with exactly one 'complete' or 'error' event.
+ */
+function streamPipeline(
+  service: ReturnType<typeof getTitanPipelineService>,
+  pipelineInput: PipelineInput,
+  runId: string,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: PipelineStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(formatSSE(event)));
+        } catch {
+          // Client disconnected — stop writing; the request's abort listener cancels the run
+          closed = true;
+        }
+      };
+      const startTime = Date.now();
+
+      try {
+        const { files, ...result } = sanitizeResult(
+          await service.runPipeline(pipelineInput, { onEvent: send, signal })
+        );
+        send({
+          type: 'complete',
+          timestamp: Date.now(),
+          success: !result.qualityGateFailure,
+          data: {
+            name: pipelineInput.appContext?.name || 'Titan Layout',
+            description: pipelineInput.instructions,
+            appType: 'layout',
+            changeType: result.strategy.mode,
+            changeSummary: result.warnings.join('\n'),
+            files: files.map((f) => ({ path: f.path, content: f.content, description: '' })),
+            dependencies: {},
+            setupInstructions: '',
+          },
+          stats: {
+            totalTime: Date.now() - startTime,
+            filesGenerated: files.length,
+            inputTokens: 0,
+            outputTokens: 0,
+            cachedTokens: 0,
+          },
+          result,
+        });
+      } catch (error) {
+        if (signal.aborted) {
+          send({
+            type: 'error',
+            timestamp: Date.now(),
+            message: 'Pipeline run cancelled',
+            code: 'CANCELLED',
+            recoverable: true,
+          });
+        } else {
+          console.error('[Titan Pipeline API] Stream error:', error);
+          send({
+            type: 'error',
+            timestamp: Date.now(),
+            message: error instanceof Error ? error.message : 'Internal server error',
+            recoverable: false,
+          });
+        }
+      } finally {
+        releasePipelineRun(runId, signal);
+        if (!closed) controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
 
 export async function POST(req: NextRequest) {
   try {
@@ -32,6 +140,14 @@ export async function POST(req: NextRequest) {
 
     const service = getTitanPipelineService();
 
+    // --- Cancel a running pipeline ---
+    if (action === 'cancel') {
+      if (!body.runId) {
+        return NextResponse.json({ error: 'runId is required for cancel' }, { status: 400 });
+      }
+      return NextResponse.json({ cancelled: cancelPipelineRun(body.runId) });
+    }
+
     // --- Live Edit (lightweight, no full pipeline) ---
     if (action === 'live-edit') {
       const { currentCode, selectedDataId, instruction } = body;
@@ -49,7 +165,7 @@ export async function POST(req: NextRequest) {
     }
 
     // --- Full Pipeline ---
-    const { files, currentCode, instructions, appContext } = body;
+    const { files, currentCode, instructions, appContext, stream, reviewStrictness, multiPage } = body;
 
     if (!instructions && (!files || files.length === 0) && !currentCode) {
       return NextResponse.json(
@@ -65,20 +181,30 @@ export async function POST(req: NextRequest) {
       currentCode: currentCode || null,
       instructions: instructions || '',
       appContext: appContext || undefined,
+      reviewStrictness,
+      multiPage,
     };
 
-    const result = await service.runPipeline(pipelineInput);
+    const { runId, signal } = registerPipelineRun(body.runId);
+    // A disconnected client will never read the result — stop spending on it
+    req.signal?.addEventListener('abort', () => cancelPipelineRun(runId, signal), { once: true });
 
-    // Strip screenshotDataUri from critique (too large for API response)
-    const { critique, ...rest } = result;
-    const sanitizedCritique = critique
-      ? { ...critique, screenshotDataUri: undefined }
-      : undefined;
+    if (stream) {
+      return streamPipeline(service, pipelineInput, runId, signal);
+    }
 
-    return NextResponse.json({
-      ...rest,
-      ...(sanitizedCritique && { critique: sanitizedCritique }),
-    });
+    try {
+      const result = await service.runPipeline(pipelineInput, { signal });
+      return NextResponse.json(sanitizeResult(result));
+    } catch (error) {
+      if (signal.aborted) {
+        // 499: client closed request (nginx convention)
+        return NextResponse.json({ error: 'Pipeline run cancelled', cancelled: true }, { status: 499 });
+      }
+      throw error;
+    } finally {
+      releasePipelineRun(runId, signal);
+    }
   } catch (error) {
     console.error('[Titan Pipeline API] Error:', error);
     const message = error instanceof Error ? error.message : 'Internal server error';
@@ -0,0 +1,35 @@
+/**
+ * Code Review API Route
+ *
+ * Statically reviews generated code files, applies the safe auto-fixes
+ * and returns the issues, the applied fixes and a quality report.
+ *
+ * Deterministic - no AI calls, so reviewing the same files twice gives
+ * the same result.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCodeReviewService } from '@/services/codeReview';
+import { ReviewRequestSchema } from '@/types/api-schemas';
+
+export async function POST(req: NextRequest) {
+  try {
+    const raw = await req.json();
+    const parsed = ReviewRequestSchema.safeParse(raw);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsed.error.message },
+        { status: 400 }
+      );
+    }
+
+    const result = getCodeReviewService().review(parsed.data);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[Review API] Error:', error);
+    const message = error instanceof Error ? error.message : 'Review failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -11,6 +11,9 @@
  *     action: 'autonomy'  → run pipeline (Router detects RESEARCH_AND_BUILD)
  *     action: 'live-edit' → run refineComponent
  *   Media → pipeline directly (image/video analysis)
+ *
+ * Output that changes existing code is reviewed hunk by hunk in
+ * ChangeReviewPanel (over the preview) before it is applied.
  */
 
 'use client';
@@ -19,6 +22,7 @@ import React, { useState, useCallback, useMemo } from 'react';
 import ErrorBoundary from './ErrorBoundary';
 import { OmniChat, type UploadedMedia } from './interface/OmniChat';
 import { LayoutCanvas } from './layout-builder/LayoutCanvas';
+import { ChangeReviewPanel } from './layout-builder/ChangeReviewPanel';
 import { useLayoutBuilder } from '@/hooks/useLayoutBuilder';
 import { useAppStore } from '@/store/useAppStore';
 import { useChatStore } from '@/store/useChatStore';
@@ -31,6 +35,7 @@ import type { AppContext, OmniChatAction } from '@/types/titanPipeline';
 export const LayoutBuilderView: React.FC = () => {
   // --- App context for personalized generation ---
   const appConcept = useAppStore((state) => state.appConcept);
+  const qualityReport = useAppStore((state) => state.qualityReport);
 
   const appContext: AppContext | undefined = useMemo(() => {
     if (!appConcept) return undefined;
@@ -58,11 +63,13 @@ export const LayoutBuilderView: React.FC = () => {
     errors,
     warnings,
     runPipeline,
+    cancelPipeline,
     refineComponent,
     sendChatMessage,
     undo,
     redo,
     exportCode,
+    exportProject,
     clearErrors,
     canUndo,
     canRedo,
@@ -73,6 +80,10 @@ export const LayoutBuilderView: React.FC = () => {
     critiqueScore,
     isCritiquing,
     critiqueIssues,
+    multiPage,
+    setMultiPage,
+    multiPageDesign,
+    review,
   } = useLayoutBuilder();
 
   // --- Handle media uploads (always pipeline) ---
@@ -88,7 +99,7 @@ export const LayoutBuilderView: React.FC = () => {
 
         const hint =
           media.length > 1
-            ? `Analyzed ${media.length} files and created a merged layout.`
+            ? `Analyzed ${media.length} files and built a page for each.`
             : `Analyzed the ${media[0].type} and created a layout.`;
 
         addMessage({
@@ -118,7 +129,7 @@ export const LayoutBuilderView: React.FC = () => {
             await runPipeline([], instructions, appContext, cachedSkillId);
             addMessage({
               role: 'system',
-              content: 'Layout updated. Check the preview.',
+              content: 'Layout updated. Check the preview, and review any changes to existing code.',
               metadata: { context: 'Pipeline Complete' },
             });
             break;
@@ -134,7 +145,7 @@ export const LayoutBuilderView: React.FC = () => {
             await runPipeline([], instructions, appContext, cachedSkillId);
             addMessage({
               role: 'system',
-              content: 'Autonomy complete. Check the preview.',
+              content: 'Autonomy complete. Check the preview, and review any changes to existing code.',
               metadata: { context: 'Autonomy Complete' },
             });
             break;
@@ -154,7 +165,7 @@ export const LayoutBuilderView: React.FC = () => {
             );
             addMessage({
               role: 'system',
-              content: 'Edit applied. Check the preview.',
+              content: 'Edit ready. Review it over the preview, then apply the approved changes.',
               metadata: { context: 'Live Edit' },
             });
             break;
@@ -284,13 +295,14 @@ export const LayoutBuilderView: React.FC = () => {
             isChatting={isChatting}
             pipelineProgress={pipelineProgress}
             activeAction={activeAction}
+            onStop={cancelPipeline}
           />
         </div>
         </ErrorBoundary>
 
         {/* Right Panel: Preview Canvas */}
         <ErrorBoundary>
-        <div className="flex-1 h-full overflow-hidden">
+        <div className="flex-1 h-full overflow-hidden relative">
           <LayoutCanvas
             generatedFiles={generatedFiles}
             isProcessing={isProcessing}
@@ -302,6 +314,7 @@ export const LayoutBuilderView: React.FC = () => {
             onUndo={undo}
             onRedo={redo}
             onExportCode={exportCode}
+            onExportProject={exportProject}
             onClearErrors={clearErrors}
             canUndo={canUndo}
             canRedo={canRedo}
@@ -312,7 +325,12 @@ export const LayoutBuilderView: React.FC = () => {
             critiqueScore={critiqueScore}
             isCritiquing={isCritiquing}
             critiqueIssues={critiqueIssues}
+            qualityReport={qualityReport}
+            multiPage={multiPage}
+            onMultiPageChange={setMultiPage}
+            multiPageDesign={multiPageDesign}
           />
+          {review.state.changes.length > 0 && <ChangeReviewPanel review={review} />}
         </div>
         </ErrorBoundary>
       </div>
@@ -353,6 +353,17 @@ export function SettingsPage({ isOpen, onClose, initialSection = 'general' }: Se
               label="Minify Output"
               description="Compress and minify generated code"
             />
+            <Select
+              value={settings.build.reviewStrictness}
+              onChange={(value) => updateBuildSettings({ reviewStrictness: value })}
+              options={[
+                { value: 'relaxed', label: 'Relaxed' },
+                { value: 'standard', label: 'Standard (recommended)' },
+                { value: 'strict', label: 'Strict' },
+              ]}
+              label="Code Review Strictness"
+              description="Generated code below this review score is not applied"
+            />
           </div>
         );
 
@@ -0,0 +1,62 @@
+/**
+ * DreamReportList — Morning reports for past dream cycles
+ *
+ * Lists the stored DreamLogs newest first, each with Markdown and HTML
+ * downloads of its report (utils/dreamReport).
+ */
+
+'use client';
+
+import React from 'react';
+import { downloadBlob } from '@/utils/exportApp';
+import {
+  dreamReportFilename,
+  renderDreamReportHtml,
+  renderDreamReportMarkdown,
+} from '@/utils/dreamReport';
+import type { DreamLog } from '@/types/dream';
+
+interface DreamReportListProps {
+  logs: DreamLog[];
+}
+
+function download(log: DreamLog, format: 'md' | 'html') {
+  const content = format === 'md' ? renderDreamReportMarkdown(log) : renderDreamReportHtml(log);
+  const type = format === 'md' ? 'text/markdown' : 'text/html';
+  downloadBlob(new Blob([content], { type: `${type};charset=utf-8` }), dreamReportFilename(log, format));
+}
+
+export function DreamReportList({ logs }: DreamReportListProps) {
+  if (logs.length === 0) {
+    return <p className="text-xs text-zinc-600">Reports appear here after a dream cycle ends.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {[...logs].reverse().map((log) => (
+        <li key={log.id} className="flex items-center justify-between rounded border border-zinc-800 p-2 text-xs">
+          <div>
+            <div className="font-medium text-zinc-300">{new Date(log.startedAt).toLocaleString()}</div>
+            <div className="text-zinc-500">
+              {log.patches.filter((p) => p.verified && !p.revertedAt).length} patches · {log.stopReason.replace(/_/g, ' ')}
+            </div>
+          </div>
+          <div className="flex gap-1">
+            <button
+              onClick={() => download(log, 'md')}
+              className="rounded bg-zinc-800 px-2 py-1 text-zinc-300 hover:bg-zinc-700"
+            >
+              MD
+            </button>
+            <button
+              onClick={() => download(log, 'html')}
+              className="rounded bg-zinc-800 px-2 py-1 text-zinc-300 hover:bg-zinc-700"
+            >
+              HTML
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
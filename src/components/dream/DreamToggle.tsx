@@ -2,7 +2,7 @@
  * DreamToggle — Settings toggle component for Dream Mode
  *
  * Renders the Dream Mode configuration section in the Settings page.
- * Includes: repo URL, GitHub token, chaos profile selector, auto-commit toggle.
+ * Includes: repo URL, GitHub token, chaos profile selector, cost cap, auto-commit toggle.
  * Links to /app/dream when enabled.
  */
 
@@ -13,15 +13,17 @@ import { useSettings } from '@/hooks/useSettings';
 import {
   ToggleSwitch,
   Select,
+  Slider,
   TextInput,
   SectionHeader,
 } from '@/components/ui/form';
-import { CHAOS_PROFILE_META, CHAOS_PROFILE_NAMES } from '@/config/chaosProfile';
+import { CHAOS_PROFILE_META, CHAOS_PROFILE_NAMES, getChaosProfile } from '@/config/chaosProfile';
 import type { ChaosProfileName } from '@/types/dream';
 
 export function DreamToggle() {
   const { settings, updateDreamSettings } = useSettings();
   const { dream } = settings;
+  const profileCap = getChaosProfile(dream.chaosProfile).maxCostPerCycle;
 
   return (
     <div className="space-y-6">
@@ -43,7 +45,7 @@ export function DreamToggle() {
           {/* Repository URL */}
           <TextInput
             label="Repository"
-            description="GitHub repository in owner/repo format (e.g. facebook/react)"
+            description="GitHub owner/repo (e.g. facebook/react), or a GitHub, GitLab or self-hosted git URL"
             value={dream.repoUrl}
             onChange={(value) => updateDreamSettings({ repoUrl: value })}
             placeholder="owner/repo"
@@ -51,8 +53,8 @@ export function DreamToggle() {
 
           {/* GitHub Token */}
           <TextInput
-            label="GitHub Token"
-            description="Personal Access Token for private repositories. Leave empty for public repos."
+            label="Access Token"
+            description="Token for private repositories (GitHub PAT, GitLab token or git password). Leave empty for public repos."
             value={dream.githubToken}
             onChange={(value) => updateDreamSettings({ githubToken: value })}
             placeholder="ghp_..."
@@ -71,10 +73,22 @@ export function DreamToggle() {
             }))}
           />
 
-          {/* Auto-commit (not yet implemented) */}
+          {/* Cost cap */}
+          <Slider
+            label="Cost cap per cycle"
+            description="The cycle stops once its model calls have cost this much. Spend is priced from the tokens each call reports."
+            value={dream.costLimit ?? 0}
+            onChange={(value) => updateDreamSettings({ costLimit: value })}
+            min={0}
+            max={50}
+            step={1}
+            formatValue={(value) => (value === 0 ? `Profile default ($${profileCap})` : `$${value}`)}
+          />
+
+          {/* Auto-commit */}
           <ToggleSwitch
-            label="Auto-commit patches (coming soon)"
-            description="Automatically commit bug fixes and completed features back to the repository. This feature is not yet implemented — patches are logged but not committed."
+            label="Auto-commit patches"
+            description="Commit each verified bug fix and completed feature to a dream/<date> branch and open a pull request with the dream report. Needs an access token with write access; uploaded zips and local folders are never pushed."
             enabled={dream.autoCommit}
             onChange={(value) => updateDreamSettings({ autoCommit: value })}
           />
@@ -35,6 +35,8 @@ export interface OmniChatProps {
   pipelineProgress?: PipelineProgress | null;
   /** The action currently being executed (shown in status) */
   activeAction?: OmniChatAction | null;
+  /** Cancel the running pipeline (shows a Stop button while processing) */
+  onStop?: () => void;
 }
 
 // ============================================================================
@@ -71,6 +73,12 @@ const SparklesIcon = () => (
   </svg>
 );
 
+const StopIcon = () => (
+  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+    <rect x="6" y="6" width="12" height="12" rx="1.5" />
+  </svg>
+);
+
 const BrainIcon = () => (
   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
@@ -111,6 +119,7 @@ export const OmniChat: React.FC<OmniChatProps> = ({
   isChatting,
   pipelineProgress,
   activeAction,
+  onStop,
 }) => {
   const [inputValue, setInputValue] = useState('');
   const [uploadedMedia, setUploadedMedia] = useState<UploadedMedia[]>([]);
@@ -396,6 +405,17 @@ export const OmniChat: React.FC<OmniChatProps> = ({
             className="flex-1 px-4 py-2 rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:opacity-50 text-sm"
           />
 
+          {/* Stop Button (while a pipeline is running) */}
+          {isProcessing && onStop && (
+            <button
+              onClick={onStop}
+              className="flex items-center justify-center w-10 h-10 rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors"
+              title="Stop generation"
+            >
+              <StopIcon />
+            </button>
+          )}
+
           {/* Send Button */}
           <button
             onClick={handleSend}
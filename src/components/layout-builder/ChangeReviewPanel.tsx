@@ -0,0 +1,130 @@
+/**
+ * Change Review Panel
+ *
+ * Shown over the preview while pipeline or live-edit output waits for
+ * review. Each proposed file is rendered with EnhancedDiffViewer (one
+ * HunkApprovalCard per hunk) next to the impact analysis; applying writes
+ * only the approved hunks to the generated files.
+ */
+
+import React, { useCallback } from 'react';
+import EnhancedDiffViewer from '@/components/review/EnhancedDiffViewer';
+import ImpactAnalysisPanel from '@/components/review/ImpactAnalysisPanel';
+import type { UseChangeReviewReturn } from '@/hooks/useChangeReview';
+import type { FileChange } from '@/types/review';
+
+interface ChangeReviewPanelProps {
+  /** Review state and actions from useLayoutBuilder */
+  review: UseChangeReviewReturn;
+}
+
+export const ChangeReviewPanel: React.FC<ChangeReviewPanelProps> = ({ review }) => {
+  const {
+    state,
+    statistics,
+    dispatch,
+    approveHunk,
+    rejectHunk,
+    approveAll,
+    rejectAll,
+    applyApproved,
+    discardChanges,
+  } = review;
+
+  /** Attach a line comment to the hunk that contains the line */
+  const addComment = useCallback(
+    (change: FileChange, lineNumber: number, content: string) => {
+      const hunk = change.hunks.find((h) => h.lines.some((l) => l.number === lineNumber));
+      if (!hunk) return;
+      dispatch({
+        type: 'ADD_COMMENT',
+        payload: {
+          filePath: change.path,
+          hunkId: hunk.id,
+          lineNumber,
+          comment: {
+            id: `comment-${Date.now()}`,
+            lineNumber,
+            content,
+            author: 'You',
+            timestamp: new Date().toISOString(),
+            resolved: false,
+          },
+        },
+      });
+    },
+    [dispatch]
+  );
+
+  return (
+    <div className="absolute inset-0 z-30 flex flex-col bg-slate-950/95">
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-white">Review proposed changes</p>
+          <p className="text-xs text-slate-400">
+            {statistics.totalFiles} file{statistics.totalFiles === 1 ? '' : 's'} ·{' '}
+            {statistics.approvedHunks} approved · {statistics.rejectedHunks} rejected ·{' '}
+            {statistics.pendingHunks} pending
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={approveAll}
+            disabled={state.isLoading}
+            className="px-3 py-1.5 text-xs text-slate-200 border border-white/20 rounded-lg hover:bg-white/10 disabled:opacity-50"
+          >
+            Approve all
+          </button>
+          <button
+            onClick={rejectAll}
+            disabled={state.isLoading}
+            className="px-3 py-1.5 text-xs text-slate-200 border border-white/20 rounded-lg hover:bg-white/10 disabled:opacity-50"
+          >
+            Reject all
+          </button>
+          <button
+            onClick={discardChanges}
+            disabled={state.isLoading}
+            className="px-3 py-1.5 text-xs text-slate-200 border border-white/20 rounded-lg hover:bg-white/10 disabled:opacity-50"
+          >
+            Discard
+          </button>
+          <button
+            onClick={() => applyApproved()}
+            disabled={state.isLoading || statistics.approvedHunks === 0}
+            className="px-3 py-1.5 text-xs font-medium text-white bg-green-600 hover:bg-green-500 rounded-lg disabled:opacity-50"
+          >
+            Apply {statistics.approvedHunks} approved
+          </button>
+        </div>
+      </div>
+
+      {state.error && (
+        <div className="px-4 py-2 text-xs text-red-300 bg-red-900/40">{state.error}</div>
+      )}
+
+      {/* Impact analysis and per-file diffs */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {state.impactAnalysis && (
+          <ImpactAnalysisPanel analysis={state.impactAnalysis} expanded={false} />
+        )}
+        {state.changes.map((change) => (
+          <EnhancedDiffViewer
+            key={change.path}
+            original={change.originalContent ?? ''}
+            modified={change.modifiedContent ?? ''}
+            fileName={change.path}
+            language=""
+            hunks={change.hunks}
+            onHunkApprove={(hunkId) => approveHunk(change.path, hunkId)}
+            onHunkReject={(hunkId) => rejectHunk(change.path, hunkId)}
+            onAddComment={(lineNumber, content) => addComment(change, lineNumber, content)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ChangeReviewPanel;
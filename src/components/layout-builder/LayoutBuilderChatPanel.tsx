@@ -43,6 +43,8 @@ export interface LayoutBuilderChatPanelProps {
   onAnalyzeMedia?: (media: UploadedMedia[], instructions?: string) => Promise<void>;
   /** Pipeline step progress (shown in loading indicator) */
   pipelineProgress?: PipelineProgress | null;
+  /** Cancel the running pipeline (shows a Stop button while analyzing) */
+  onStop?: () => void;
 }
 
 // ============================================================================
@@ -99,6 +101,12 @@ const SparklesIcon = () => (
   </svg>
 );
 
+const StopIcon = () => (
+  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+    <rect x="6" y="6" width="12" height="12" rx="1.5" />
+  </svg>
+);
+
 const LoaderIcon = () => (
   <svg className="w-5 h-5 animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
@@ -120,6 +128,7 @@ export const LayoutBuilderChatPanel: React.FC<LayoutBuilderChatPanelProps> = ({
   isAnalyzing,
   onAnalyzeMedia,
   pipelineProgress,
+  onStop,
 }) => {
   const [inputValue, setInputValue] = useState('');
   const [uploadedMedia, setUploadedMedia] = useState<UploadedMedia[]>([]);
@@ -406,6 +415,20 @@ export const LayoutBuilderChatPanel: React.FC<LayoutBuilderChatPanelProps> = ({
             className="flex-1 px-4 py-2 rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 text-sm"
           />
 
+          {/* Stop Button (while a pipeline is running) */}
+          {isAnalyzing && onStop && (
+            <button
+              onClick={onStop}
+              className={cn(
+                'flex items-center justify-center w-10 h-10 rounded-lg transition-colors',
+                'bg-red-600 text-white hover:bg-red-700'
+              )}
+              title="Stop generation"
+            >
+              <StopIcon />
+            </button>
+          )}
+
           {/* Send/Analyze Button */}
           {uploadedMedia.length > 0 ? (
             <button
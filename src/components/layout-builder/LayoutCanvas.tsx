@@ -19,6 +19,9 @@ import type { AppFile } from '@/types/railway';
 import type { PipelineProgress, PipelineStepName, PipelineStepStatus } from '@/types/titanPipeline';
 import { PIPELINE_STEP_LABELS } from '@/types/titanPipeline';
 import type { SandboxError, WebContainerStatus } from '@/types/sandbox';
+import type { QualityReport } from '@/types/codeReview';
+import type { MultiPageDesign } from '@/types/layoutDesign';
+import type { ExportProfile } from '@/utils/exportApp';
 
 // ============================================================================
 // SANDPACK CONFIGURATION
@@ -32,6 +35,14 @@ const SANDPACK_DEPENDENCIES: Record<string, string> = {
   'tailwind-merge': 'latest',
 };
 
+/** ZIP export profiles offered next to the Export button ('' = detected) */
+const EXPORT_PROFILE_OPTIONS: Array<{ value: ExportProfile | ''; label: string }> = [
+  { value: '', label: 'Auto' },
+  { value: 'vite', label: 'Vite' },
+  { value: 'next-app', label: 'Next.js' },
+  { value: 'static-html', label: 'Static HTML' },
+];
+
 /** Tailwind CSS CDN for external resource injection */
 const TAILWIND_CDN = 'https://cdn.tailwindcss.com';
 
@@ -75,6 +86,8 @@ export interface LayoutCanvasProps {
   onRedo: () => void;
   /** Export generated code */
   onExportCode: () => void;
+  /** Download the project as a ZIP with an export profile (default: detected) */
+  onExportProject?: (profile?: ExportProfile) => void;
   /** Clear error/warning display */
   onClearErrors?: () => void;
   /** Whether undo is available */
@@ -95,6 +108,14 @@ export interface LayoutCanvasProps {
   isCritiquing?: boolean;
   /** Issues found by the visual critic */
   critiqueIssues?: string[];
+  /** Static code review of the latest pipeline run (null if not reviewed) */
+  qualityReport?: QualityReport | null;
+  /** Whether references are built as a multi-page app */
+  multiPage?: boolean;
+  /** Toggle multi-page builds (hides the option when omitted) */
+  onMultiPageChange?: (multiPage: boolean) => void;
+  /** Pages and routes of the latest multi-page build */
+  multiPageDesign?: MultiPageDesign | null;
 }
 
 // ============================================================================
@@ -186,6 +207,7 @@ export const LayoutCanvas: React.FC<LayoutCanvasProps> = ({
   onUndo,
   onRedo,
   onExportCode,
+  onExportProject,
   onClearErrors,
   canUndo,
   canRedo,
@@ -196,8 +218,14 @@ export const LayoutCanvas: React.FC<LayoutCanvasProps> = ({
   critiqueScore = null,
   isCritiquing = false,
   critiqueIssues = [],
+  qualityReport = null,
+  multiPage = false,
+  onMultiPageChange,
+  multiPageDesign = null,
 }) => {
   const [dragActive, setDragActive] = useState(false);
+  const [showReviewIssues, setShowReviewIssues] = useState(false);
+  const [exportProfile, setExportProfile] = useState<ExportProfile | ''>('');
   const previewContainerRef = useRef<HTMLDivElement>(null);
   const inspector = useInspectorBridge();
 
@@ -342,9 +370,42 @@ export const LayoutCanvas: React.FC<LayoutCanvasProps> = ({
               Quality: {critiqueScore}/10
             </span>
           )}
+
+          {/* Code review badge (toggles the remaining issues) */}
+          {!isProcessing && qualityReport && (
+            <button
+              onClick={() => setShowReviewIssues((show) => !show)}
+              disabled={qualityReport.issues.length === 0}
+              className={`flex items-center gap-2 text-xs px-2 py-1 rounded-full ${
+                qualityReport.passed ? 'text-green-700 bg-green-50' : 'text-red-700 bg-red-50'
+              }`}
+              title={`${qualityReport.remainingIssues} remaining, ${qualityReport.fixedIssues} auto-fixed`}
+            >
+              <span
+                className={`w-1.5 h-1.5 rounded-full ${qualityReport.passed ? 'bg-green-600' : 'bg-red-600'}`}
+              />
+              Review: {qualityReport.overallScore}/100
+            </button>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
+          {/* Multi-page builds (several references always build one) */}
+          {onMultiPageChange && (
+            <label
+              className="flex items-center gap-1.5 text-xs text-gray-700 mr-2 cursor-pointer"
+              title="Build one routed page per screenshot, or per page visited in a recording"
+            >
+              <input
+                type="checkbox"
+                checked={multiPage}
+                onChange={(e) => onMultiPageChange(e.target.checked)}
+                disabled={isProcessing}
+              />
+              Multi-page
+            </label>
+          )}
+
           {/* Undo / Redo */}
           <div className="flex gap-1">
             <button
@@ -399,9 +460,53 @@ export const LayoutCanvas: React.FC<LayoutCanvasProps> = ({
             </svg>
             Export React
           </button>
+
+          {/* Download ZIP */}
+          {onExportProject && (
+            <div className="flex items-center gap-1">
+              <select
+                value={exportProfile}
+                onChange={(e) => setExportProfile(e.target.value as ExportProfile | '')}
+                disabled={!hasFiles}
+                className="px-2 py-1.5 text-xs border border-gray-300 rounded-lg bg-white disabled:opacity-50"
+                title="Export profile"
+              >
+                {EXPORT_PROFILE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => onExportProject(exportProfile || undefined)}
+                disabled={!hasFiles}
+                className="px-3 py-1.5 text-xs font-medium text-gray-900 border border-gray-300 hover:bg-gray-100 rounded-lg disabled:opacity-50 transition-colors"
+              >
+                Download ZIP
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* ── Multi-Page Routes ──────────────────────────────────────── */}
+      {multiPageDesign && multiPageDesign.inferredRoutes.length > 0 && (
+        <div className="px-4 py-1.5 border-b bg-white flex items-center gap-2 overflow-x-auto">
+          <span className="text-xs font-medium text-gray-500">
+            {multiPageDesign.pages.length} page{multiPageDesign.pages.length > 1 ? 's' : ''}:
+          </span>
+          {multiPageDesign.inferredRoutes.map((route) => (
+            <span
+              key={route.path}
+              className="flex items-center gap-1 text-xs text-gray-700 bg-gray-100 px-2 py-0.5 rounded-full whitespace-nowrap"
+            >
+              {route.pageName}
+              <code className="text-gray-500">{route.path}</code>
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* ── Pipeline Step Progress ──────────────────────────────────── */}
       {isProcessing && pipelineProgress && (
         <div className="px-4 py-2 bg-blue-50 border-b border-blue-200">
@@ -467,6 +572,21 @@ export const LayoutCanvas: React.FC<LayoutCanvasProps> = ({
         </div>
       )}
 
+      {/* ── Code Review Issues ─────────────────────────────────────── */}
+      {showReviewIssues && !isProcessing && qualityReport && qualityReport.issues.length > 0 && (
+        <div className="px-4 py-2 border-b bg-gray-50 border-gray-200 max-h-40 overflow-y-auto">
+          <span className="font-medium text-sm text-gray-800">Code review issues:</span>
+          <ul className="mt-1 text-xs text-gray-700 list-disc list-inside">
+            {qualityReport.issues.map((issue) => (
+              <li key={issue.id}>
+                <span className="font-medium">{issue.severity}</span> {issue.file}
+                {issue.line ? `:${issue.line}` : ''} — {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* ── Main Canvas Area ───────────────────────────────────────── */}
       <div
         className={`flex-1 overflow-hidden relative transition-colors layout-canvas-sandpack ${
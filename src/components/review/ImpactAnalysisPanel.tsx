@@ -9,7 +9,7 @@ import { getRiskLevelColor, getRiskLevelBgColor } from '@/types/review';
  *
  * Features:
  * - Files affected overview
- * - Components that may be impacted
+ * - Components and routes that may be impacted
  * - Potential breaking changes
  * - Risk level indicator
  * - Suggested testing areas
@@ -35,7 +35,7 @@ export default function ImpactAnalysisPanel({
       id: 'components',
       label: 'Components',
       icon: '⚛️',
-      count: analysis.componentsAffected.length,
+      count: analysis.componentsAffected.length + analysis.routesAffected.length,
     },
     { id: 'breaking', label: 'Breaking', icon: '⚠️', count: analysis.breakingChanges.length },
     { id: 'tests', label: 'Tests', icon: '🧪', count: analysis.suggestedTests.length },
@@ -56,7 +56,7 @@ export default function ImpactAnalysisPanel({
             <h3 className="text-white font-semibold">Impact Analysis</h3>
             <p className="text-xs text-slate-400">
               {analysis.filesAffected.length} files • {analysis.componentsAffected.length}{' '}
-              components
+              components • {analysis.routesAffected.length} routes
             </p>
           </div>
         </div>
@@ -137,18 +137,29 @@ export default function ImpactAnalysisPanel({
 
             {activeTab === 'components' && (
               <div className="space-y-2">
-                {analysis.componentsAffected.length === 0 ? (
+                {analysis.componentsAffected.length + analysis.routesAffected.length === 0 ? (
                   <p className="text-sm text-slate-400 text-center py-4">No components affected</p>
                 ) : (
-                  analysis.componentsAffected.map((component, idx) => (
-                    <div
-                      key={idx}
-                      className="flex items-center gap-2 px-3 py-2 rounded-lg bg-black/20 border border-white/5"
-                    >
-                      <span className="text-gold-400">⚛️</span>
-                      <span className="text-sm text-slate-300">{component}</span>
-                    </div>
-                  ))
+                  <>
+                    {analysis.componentsAffected.map((component, idx) => (
+                      <div
+                        key={`component-${idx}`}
+                        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-black/20 border border-white/5"
+                      >
+                        <span className="text-gold-400">⚛️</span>
+                        <span className="text-sm text-slate-300">{component}</span>
+                      </div>
+                    ))}
+                    {analysis.routesAffected.map((route, idx) => (
+                      <div
+                        key={`route-${idx}`}
+                        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-black/20 border border-white/5"
+                      >
+                        <span className="text-garden-400">🧭</span>
+                        <span className="text-sm text-slate-300 font-mono">{route}</span>
+                      </div>
+                    ))}
+                  </>
                 )}
               </div>
             )}
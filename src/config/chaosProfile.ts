@@ -3,11 +3,15 @@
  *
  * Configurable intensity levels for Dream Mode's automated testing.
  * Each profile balances thoroughness vs. cost (AI API calls) and
- * browser resource usage (WebContainer is single-threaded).
+ * browser resource usage (each parallel gremlin runs its own Node processes
+ * in the WebContainer).
  *
  * NAP       — Low cost, safe for quick checks
  * REM       — Balanced default, recommended for overnight runs
  * NIGHTMARE — Exhaustive testing, high API cost warning
+ *
+ * maxCostPerCycle is enforced: every model call reports its tokens, is priced
+ * from config/modelPricing, and the cycle stops once the cap is spent.
  */
 
 import type { ChaosProfile, ChaosProfileName } from '@/types/dream';
@@ -20,23 +24,30 @@ export const CHAOS_PROFILES: Record<ChaosProfileName, ChaosProfile> = {
   /**
    * NAP — Low intensity "Nap Mode"
    * - Human-speed interactions (1 action/sec)
+   * - One gremlin, failing tests re-run once before patching
+   * - 10 seeded fuzz cases per chaos suite
    * - 5-minute sessions
    * - Max 2 fixes per cycle
-   * - Estimated cost: < $1 per cycle
+   * - Cost cap: $1 per cycle
    */
   NAP: {
     actionDelay: 1000,
     sessionDuration: 300,
     maxFixesPerCycle: 2,
+    maxCostPerCycle: 1,
     concurrentGremlins: 1,
+    flakyReruns: 1,
+    fuzzRuns: 10,
   },
 
   /**
    * REM — Balanced "Deep Sleep" (Default)
    * - Super-human speed (4 actions/sec)
+   * - Two parallel gremlins, failing tests re-run twice before patching
+   * - 25 seeded fuzz cases per chaos suite
    * - 30-minute sessions
    * - Max 10 fixes per cycle
-   * - Estimated cost: $2-5 per cycle
+   * - Cost cap: $5 per cycle
    *
    * Why 250ms delay: React takes ~16ms to render a frame. 250ms allows
    * React to "settle" between actions, ensuring crashes are real bugs
@@ -46,15 +57,20 @@ export const CHAOS_PROFILES: Record<ChaosProfileName, ChaosProfile> = {
     actionDelay: 250,
     sessionDuration: 1800,
     maxFixesPerCycle: 10,
-    concurrentGremlins: 1,
+    maxCostPerCycle: 5,
+    concurrentGremlins: 2,
+    flakyReruns: 2,
+    fuzzRuns: 25,
   },
 
   /**
    * NIGHTMARE — Maximum intensity (use with caution)
    * - Brute force speed (20 actions/sec)
+   * - Four parallel gremlins, failing tests re-run 3 times before patching
+   * - 100 seeded fuzz cases per chaos suite
    * - 1-hour sessions
    * - Max 50 fixes per cycle
-   * - Estimated cost: $20+ per cycle
+   * - Cost cap: $25 per cycle
    *
    * WARNING: High API cost. Only use when deadlines loom
    * or you need exhaustive coverage.
@@ -63,7 +79,10 @@ export const CHAOS_PROFILES: Record<ChaosProfileName, ChaosProfile> = {
     actionDelay: 50,
     sessionDuration: 3600,
     maxFixesPerCycle: 50,
-    concurrentGremlins: 1,
+    maxCostPerCycle: 25,
+    concurrentGremlins: 4,
+    flakyReruns: 3,
+    fuzzRuns: 100,
   },
 };
 
@@ -86,19 +105,19 @@ export const CHAOS_PROFILE_META: Record<ChaosProfileName, {
   NAP: {
     label: 'Nap',
     description: 'Light testing, low cost. 5-minute sessions, max 2 fixes.',
-    costEstimate: '< $1',
+    costEstimate: 'up to $1',
     icon: 'moon',
   },
   REM: {
     label: 'Deep Sleep',
-    description: 'Balanced testing. 30-minute sessions, max 10 fixes.',
-    costEstimate: '$2-5',
+    description: 'Balanced testing. 2 parallel gremlins, 30-minute sessions, max 10 fixes.',
+    costEstimate: 'up to $5',
     icon: 'brain',
   },
   NIGHTMARE: {
     label: 'Nightmare',
-    description: 'Exhaustive testing. 1-hour sessions, max 50 fixes. High cost!',
-    costEstimate: '$20+',
+    description: 'Exhaustive testing. 4 parallel gremlins, 1-hour sessions, max 50 fixes. High cost!',
+    costEstimate: 'up to $25',
     icon: 'zap',
   },
 };
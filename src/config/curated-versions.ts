@@ -14,6 +14,15 @@ export const CURATED_VERSIONS = {
   typescript: '^5.6.0',
   esbuild: '^0.24.0',
 
+  // Export Toolchain (exportApp profiles: Vite + React, Next App Router)
+  next: '^15.5.0',
+  vite: '^6.0.0',
+  '@vitejs/plugin-react': '^4.3.4',
+  tailwindcss: '^3.4.0',
+  postcss: '^8.4.0',
+  autoprefixer: '^10.4.0',
+  '@types/node': '^20.0.0',
+
   // Database
   prisma: '^5.22.0',
   '@prisma/client': '^5.22.0',
@@ -58,9 +67,9 @@ export const CURATED_VERSIONS = {
 
   // 3D / WebGL
   three: '^0.170.0',
-  '@react-three/fiber': '^8.17.0',
-  '@react-three/drei': '^9.117.0',
-  '@react-three/postprocessing': '^2.16.0',
+  '@react-three/fiber': '^9.0.0',
+  '@react-three/drei': '^10.0.0',
+  '@react-three/postprocessing': '^3.0.0',
   '@react-three/rapier': '^2.0.0',
   '@dimforge/rapier3d-compat': '^0.14.0',
 
@@ -0,0 +1,91 @@
+/**
+ * Model Pricing
+ *
+ * Provider list prices (USD per million tokens) used to turn the token usage
+ * each model call reports into spend. Dream Mode enforces its per-cycle cost
+ * cap with these; update them when providers change their prices.
+ *
+ * Models are matched by the longest table entry their name starts with, so
+ * dated or suffixed names ("claude-sonnet-4-5-20250929") pick up their family
+ * price. Unknown models fall back to the most expensive entry of their
+ * service — overestimating keeps a cap a cap.
+ */
+
+import type { AIModelPricing } from '@/types/api-gateway';
+import type { ModelCallRecord } from '@/types/modelGateway';
+
+// ============================================================================
+// PRICE TABLE
+// ============================================================================
+
+export const MODEL_PRICING: AIModelPricing[] = [
+  // Google
+  { service: 'google', model: 'gemini-3-pro-image', inputPricePerMillionTokens: 2, outputPricePerMillionTokens: 120, markupPercent: 0 },
+  { service: 'google', model: 'gemini-3-pro', inputPricePerMillionTokens: 2, outputPricePerMillionTokens: 12, markupPercent: 0 },
+  { service: 'google', model: 'gemini-3-flash', inputPricePerMillionTokens: 0.5, outputPricePerMillionTokens: 3, markupPercent: 0 },
+  { service: 'google', model: 'gemini-2.5-pro', inputPricePerMillionTokens: 1.25, outputPricePerMillionTokens: 10, markupPercent: 0 },
+  { service: 'google', model: 'gemini-2.5-flash', inputPricePerMillionTokens: 0.3, outputPricePerMillionTokens: 2.5, markupPercent: 0 },
+  { service: 'google', model: 'gemini-2.0-flash', inputPricePerMillionTokens: 0.1, outputPricePerMillionTokens: 0.4, markupPercent: 0 },
+
+  // Anthropic
+  { service: 'anthropic', model: 'claude-opus-4-5', inputPricePerMillionTokens: 5, outputPricePerMillionTokens: 25, markupPercent: 0 },
+  { service: 'anthropic', model: 'claude-opus-4', inputPricePerMillionTokens: 15, outputPricePerMillionTokens: 75, markupPercent: 0 },
+  { service: 'anthropic', model: 'claude-sonnet-4', inputPricePerMillionTokens: 3, outputPricePerMillionTokens: 15, markupPercent: 0 },
+  { service: 'anthropic', model: 'claude-haiku-4-5', inputPricePerMillionTokens: 1, outputPricePerMillionTokens: 5, markupPercent: 0 },
+  { service: 'anthropic', model: 'claude-3-opus', inputPricePerMillionTokens: 15, outputPricePerMillionTokens: 75, markupPercent: 0 },
+  { service: 'anthropic', model: 'claude-3-sonnet', inputPricePerMillionTokens: 3, outputPricePerMillionTokens: 15, markupPercent: 0 },
+
+  // OpenAI
+  { service: 'openai', model: 'text-embedding-3-small', inputPricePerMillionTokens: 0.02, outputPricePerMillionTokens: 0, markupPercent: 0 },
+  { service: 'openai', model: 'text-embedding-3-large', inputPricePerMillionTokens: 0.13, outputPricePerMillionTokens: 0, markupPercent: 0 },
+  { service: 'openai', model: 'gpt-4o-mini', inputPricePerMillionTokens: 0.15, outputPricePerMillionTokens: 0.6, markupPercent: 0 },
+  { service: 'openai', model: 'gpt-4o', inputPricePerMillionTokens: 2.5, outputPricePerMillionTokens: 10, markupPercent: 0 },
+  { service: 'openai', model: 'gpt-4-turbo', inputPricePerMillionTokens: 10, outputPricePerMillionTokens: 30, markupPercent: 0 },
+  { service: 'openai', model: 'gpt-4', inputPricePerMillionTokens: 30, outputPricePerMillionTokens: 60, markupPercent: 0 },
+  { service: 'openai', model: 'gpt-3.5-turbo', inputPricePerMillionTokens: 0.5, outputPricePerMillionTokens: 1.5, markupPercent: 0 },
+];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Price entry for a model: the longest matching prefix of its service,
+ * else the service's most expensive entry.
+ */
+export function getModelPricing(
+  service: AIModelPricing['service'],
+  model: string,
+  table: AIModelPricing[] = MODEL_PRICING
+): AIModelPricing {
+  const candidates = table.filter((p) => p.service === service);
+  if (candidates.length === 0) {
+    throw new Error(`[modelPricing] No prices for service "${service}"`);
+  }
+
+  const name = model.replace(/^models\//, '');
+  const match = candidates
+    .filter((p) => name.startsWith(p.model))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+  if (match) return match;
+
+  return candidates.reduce((max, p) =>
+    p.inputPricePerMillionTokens + p.outputPricePerMillionTokens >
+    max.inputPricePerMillionTokens + max.outputPricePerMillionTokens
+      ? p
+      : max
+  );
+}
+
+/** Cost of one model call in USD, including any markup */
+export function priceModelCall(
+  call: Pick<ModelCallRecord, 'service' | 'model' | 'inputTokens' | 'outputTokens'>,
+  table: AIModelPricing[] = MODEL_PRICING
+): number {
+  const pricing = getModelPricing(call.service, call.model, table);
+  const base =
+    (call.inputTokens * pricing.inputPricePerMillionTokens +
+      call.outputTokens * pricing.outputPricePerMillionTokens) /
+    1_000_000;
+  return base * (1 + pricing.markupPercent / 100);
+}
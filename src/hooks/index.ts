@@ -10,3 +10,12 @@ export { useTheme } from './useTheme';
 
 export { useElementInspector } from './useElementInspector';
 export type { UseElementInspectorOptions, UseElementInspectorReturn } from './useElementInspector';
+
+export { useProjectHistory } from './useProjectHistory';
+export type { UseProjectHistoryReturn } from './useProjectHistory';
+
+export { usePublishToRepository } from './usePublishToRepository';
+export type { PublishOptions, UsePublishToRepositoryReturn } from './usePublishToRepository';
+
+export { useChangeReview } from './useChangeReview';
+export type { UseChangeReviewReturn } from './useChangeReview';
@@ -0,0 +1,202 @@
+/**
+ * useChangeReview Hook
+ *
+ * Hunk-level review of proposed code changes (pipeline or live-edit output)
+ * before they reach generatedFiles. Proposed files are diffed against the
+ * current files into FileChange[] for EnhancedDiffViewer / HunkApprovalCard;
+ * applying writes only the approved hunks to useAppStore, or to the owner of
+ * the files (useLayoutBuilder keeps its own undo history). Each proposal
+ * is also run through the impact analyzer for ImpactAnalysisPanel.
+ *
+ * Every apply and rollback first snapshots the current files as a restore
+ * point (RollbackService), so either can be undone per project or per file.
+ */
+
+import { useCallback, useEffect, useMemo, useReducer, useRef, type Dispatch } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import { useProjectStore } from '@/store/useProjectStore';
+import { UNSAVED_PROJECT_ID } from '@/services/GitHistoryService';
+import { getRollbackService } from '@/services/RollbackService';
+import { createImpactAnalyzer } from '@/services/ImpactAnalyzerService';
+import { applyApprovedChanges, diffFiles } from '@/utils/hunkReview';
+import type { AppFile } from '@/types/railway';
+import type { FileChange, ReviewAction, ReviewState, ReviewStatistics } from '@/types/review';
+import { calculateReviewStatistics, createInitialReviewState, reviewReducer } from '@/types/review';
+
+export interface UseChangeReviewOptions {
+  /** Files proposals are diffed against (default: useAppStore's generatedFiles) */
+  files?: AppFile[];
+  /** Receives the files after an apply or rollback, with what changed them (default: written to useAppStore) */
+  onFilesChange?: (files: AppFile[], description: string) => void;
+}
+
+export interface UseChangeReviewReturn {
+  state: ReviewState;
+  dispatch: Dispatch<ReviewAction>;
+  statistics: ReviewStatistics;
+  /** Diff proposed files against the current files, start reviewing and analyze their impact */
+  proposeChanges: (proposedFiles: AppFile[]) => void;
+  approveHunk: (filePath: string, hunkId: string) => void;
+  rejectHunk: (filePath: string, hunkId: string) => void;
+  resetHunk: (filePath: string, hunkId: string) => void;
+  approveAll: () => void;
+  rejectAll: () => void;
+  /** Write the approved hunks to the current files and end the review */
+  applyApproved: (label?: string) => Promise<void>;
+  /** End the review without changing any files */
+  discardChanges: () => void;
+  /** Restore every file to a restore point */
+  rollbackTo: (pointId: string) => Promise<void>;
+  /** Restore one file to a restore point (deleting it if it did not exist then) */
+  rollbackFile: (pointId: string, filePath: string) => Promise<void>;
+  deleteRestorePoint: (pointId: string) => Promise<void>;
+}
+
+export function useChangeReview(options: UseChangeReviewOptions = {}): UseChangeReviewReturn {
+  const projectId = useProjectStore((s) => s.activeProjectId) ?? UNSAVED_PROJECT_ID;
+  const storedFiles = useAppStore((s) => s.generatedFiles);
+  const setStoredFiles = useAppStore((s) => s.setGeneratedFiles);
+  const generatedFiles = options.files ?? storedFiles;
+  const { onFilesChange } = options;
+  const setGeneratedFiles = useCallback(
+    (files: AppFile[], description: string) =>
+      onFilesChange ? onFilesChange(files, description) : setStoredFiles(files),
+    [onFilesChange, setStoredFiles]
+  );
+
+  const [state, dispatch] = useReducer(reviewReducer, undefined, createInitialReviewState);
+  const statistics = useMemo(() => calculateReviewStatistics(state.changes), [state.changes]);
+
+  /** Run a restore-point operation with loading and error state. */
+  const withRollbackService = useCallback(
+    async (operation: (service: Awaited<ReturnType<typeof getRollbackService>>) => Promise<void>) => {
+      dispatch({ type: 'SET_LOADING', payload: true });
+      try {
+        const service = await getRollbackService(projectId);
+        await operation(service);
+        dispatch({ type: 'SET_RESTORE_POINTS', payload: service.getRestorePoints() });
+        dispatch({ type: 'SET_ERROR', payload: null });
+      } catch (err) {
+        dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err.message : 'Restore point operation failed' });
+      } finally {
+        dispatch({ type: 'SET_LOADING', payload: false });
+      }
+    },
+    [projectId]
+  );
+
+  // Restore points are per project — reload them when the project changes
+  useEffect(() => {
+    dispatch({ type: 'SET_CHANGES', payload: [] });
+    if (typeof indexedDB === 'undefined') return;
+    withRollbackService(async () => undefined);
+  }, [withRollbackService]);
+
+  /** The latest proposal — an analysis finishing after a newer proposal is dropped */
+  const proposalRef = useRef<FileChange[] | null>(null);
+
+  const proposeChanges = useCallback(
+    (proposedFiles: AppFile[]) => {
+      const changes = diffFiles(generatedFiles, proposedFiles);
+      proposalRef.current = changes;
+      dispatch({ type: 'SET_CHANGES', payload: changes });
+      if (changes.length === 0) return;
+
+      createImpactAnalyzer(generatedFiles)
+        .analyzeChanges(changes)
+        .then((analysis) => {
+          if (proposalRef.current === changes) dispatch({ type: 'SET_IMPACT_ANALYSIS', payload: analysis });
+        })
+        .catch((err) => console.warn('[useChangeReview] Impact analysis failed:', err));
+    },
+    [generatedFiles]
+  );
+
+  const approveHunk = useCallback((filePath: string, hunkId: string) => {
+    dispatch({ type: 'APPROVE_HUNK', payload: { filePath, hunkId } });
+  }, []);
+  const rejectHunk = useCallback((filePath: string, hunkId: string) => {
+    dispatch({ type: 'REJECT_HUNK', payload: { filePath, hunkId } });
+  }, []);
+  const resetHunk = useCallback((filePath: string, hunkId: string) => {
+    dispatch({ type: 'RESET_HUNK', payload: { filePath, hunkId } });
+  }, []);
+  const approveAll = useCallback(() => dispatch({ type: 'APPROVE_ALL' }), []);
+  const rejectAll = useCallback(() => dispatch({ type: 'REJECT_ALL' }), []);
+  const discardChanges = useCallback(() => dispatch({ type: 'SET_CHANGES', payload: [] }), []);
+
+  const applyApproved = useCallback(
+    (label = 'Before applying reviewed changes') =>
+      withRollbackService(async (service) => {
+        const changes = state.changes;
+        await service.createRestorePoint(label, generatedFiles, {
+          changeDescription: changes.map((c) => `${c.action} ${c.path}`).join(', '),
+          filesChanged: changes.filter((c) => c.hunks.some((h) => h.status === 'approved')).length,
+          approvedHunks: statistics.approvedHunks,
+          rejectedHunks: statistics.rejectedHunks,
+        });
+        setGeneratedFiles(
+          applyApprovedChanges(generatedFiles, changes),
+          `Apply ${statistics.approvedHunks} of ${statistics.totalHunks} reviewed change(s)`
+        );
+        dispatch({ type: 'SET_CHANGES', payload: [] });
+      }),
+    [withRollbackService, state.changes, statistics, generatedFiles, setGeneratedFiles]
+  );
+
+  const rollbackTo = useCallback(
+    (pointId: string) =>
+      withRollbackService(async (service) => {
+        const files = await service.rollbackTo(pointId);
+        await service.createRestorePoint('Before rollback', generatedFiles, {
+          changeDescription: `Rollback to ${pointId}`,
+          filesChanged: diffFiles(generatedFiles, files).length,
+        });
+        setGeneratedFiles(files, `Roll back to restore point ${pointId}`);
+      }),
+    [withRollbackService, generatedFiles, setGeneratedFiles]
+  );
+
+  const rollbackFile = useCallback(
+    (pointId: string, filePath: string) =>
+      withRollbackService(async (service) => {
+        const file = await service.rollbackFile(pointId, filePath);
+        const files = file
+          ? generatedFiles.some((f) => f.path === filePath)
+            ? generatedFiles.map((f) => (f.path === filePath ? file : f))
+            : [...generatedFiles, file]
+          : generatedFiles.filter((f) => f.path !== filePath);
+        await service.createRestorePoint(`Before rollback of ${filePath}`, generatedFiles, {
+          changeDescription: `Rollback ${filePath} to ${pointId}`,
+          filesChanged: 1,
+        });
+        setGeneratedFiles(files, `Roll back ${filePath} to restore point ${pointId}`);
+      }),
+    [withRollbackService, generatedFiles, setGeneratedFiles]
+  );
+
+  const deleteRestorePoint = useCallback(
+    (pointId: string) =>
+      withRollbackService(async (service) => {
+        service.deleteRestorePoint(pointId);
+      }),
+    [withRollbackService]
+  );
+
+  return {
+    state,
+    dispatch,
+    statistics,
+    proposeChanges,
+    approveHunk,
+    rejectHunk,
+    resetHunk,
+    approveAll,
+    rejectAll,
+    applyApproved,
+    discardChanges,
+    rollbackTo,
+    rollbackFile,
+    deleteRestorePoint,
+  };
+}
@@ -9,6 +9,9 @@
  *   dream.start(); // Begin dream cycle
  *   dream.addGoal('Add dark mode toggle');
  *   dream.stop(); // Abort
+ *
+ * An interrupted cycle (closed tab, crash, stop) is checkpointed in IndexedDB;
+ * the next start() for the same repository resumes it.
  */
 
 'use client';
@@ -18,6 +21,11 @@ import { useAppStore } from '@/store/useAppStore';
 import { useSettings } from '@/hooks/useSettings';
 import { MaintenanceCampaign } from '@/workflows/MaintenanceCampaign';
 import { getQAChaosAgent } from '@/agents/QA_ChaosAgent';
+import {
+  deleteDreamCheckpoint,
+  dreamCheckpointKey,
+  findDreamCheckpoint,
+} from '@/services/DreamCheckpointDatabase';
 import type {
   CampaignPhase,
   CrashReport,
@@ -57,6 +65,8 @@ export interface UseDreamMode {
   reorderGoals: (goalIds: string[]) => void;
   /** Clear terminal logs */
   clearLogs: () => void;
+  /** Drop the saved checkpoint so the next start() begins from scratch */
+  discardCheckpoint: () => Promise<void>;
 }
 
 export function useDreamMode(options: UseDreamModeOptions = {}): UseDreamMode {
@@ -138,9 +148,15 @@ export function useDreamMode(options: UseDreamModeOptions = {}): UseDreamMode {
     // Use the merged store queue (updated by addDreamGoal above)
     const mergedQueue = [...goalQueue, ...settingsGoals.filter((sg) => !storeGoalIds.has(sg.id))];
 
+    const checkpoint = await findDreamCheckpoint(dream.repoUrl);
+
     const campaign = new MaintenanceCampaign({
       profileName: dream.chaosProfile,
       goalQueue: mergedQueue,
+      autoCommit: dream.autoCommit,
+      // 0 (or unset in settings saved before the cap existed) = profile default
+      costLimitUsd: dream.costLimit || undefined,
+      resumeFrom: checkpoint,
       onLog: appendLog,
       onPhaseChange: setCurrentPhase,
       onStatsUpdate: setDreamStats,
@@ -223,6 +239,13 @@ export function useDreamMode(options: UseDreamModeOptions = {}): UseDreamMode {
     setLogs([]);
   }, []);
 
+  const discardCheckpoint = useCallback(async () => {
+    const key = dreamCheckpointKey(settings.dream.repoUrl);
+    if (!key || typeof indexedDB === 'undefined') return;
+    await deleteDreamCheckpoint(key);
+    appendLog('Saved progress discarded — the next dream cycle starts from scratch.');
+  }, [settings.dream.repoUrl, appendLog]);
+
   return {
     isDreaming,
     currentPhase,
@@ -236,6 +259,7 @@ export function useDreamMode(options: UseDreamModeOptions = {}): UseDreamMode {
     removeGoal,
     reorderGoals,
     clearLogs,
+    discardCheckpoint,
   };
 }
 
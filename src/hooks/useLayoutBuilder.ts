@@ -10,21 +10,43 @@
  *   - Pipeline API instead of per-image analysis
  *   - Live Editor for FloatingEditBubble quick edits
  *   - Undo/redo snapshots of generated code files
+ *   - ZIP export through ExportService's profiles (Vite, Next, static HTML),
+ *     carrying the design tokens of the latest pipeline run and the git history
+ *   - Pipeline results, repairs and live edits committed to the project's
+ *     git history (GitHistoryService; see useProjectHistory)
+ *   - Multi-page builds: one routed page per reference, with the inferred
+ *     pages and routes of the latest build
+ *   - Hunk review: output that changes existing code is proposed through
+ *     useChangeReview and only the approved hunks are applied
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import type { AppFile } from '@/types/railway';
 import { useAppStore } from '@/store/useAppStore';
+import { useProjectStore } from '@/store/useProjectStore';
+import { useSettings } from '@/hooks/useSettings';
+import { useChangeReview, type UseChangeReviewReturn } from '@/hooks/useChangeReview';
 import type {
   PipelineProgress,
   AppContext,
   FileInput,
   OmniConversationMessage,
   OmniChatResponse,
+  PipelineResult,
+  PipelineStreamEvent,
 } from '@/types/titanPipeline';
 import type { AgentCommand, SuspendedExecution, AgentFeedback } from '@/types/autonomy';
-import { createInitialProgress } from '@/types/titanPipeline';
+import { createInitialProgress, applyPipelineEvent } from '@/types/titanPipeline';
+import { parseStreamEvent } from '@/types/streaming';
+import { serializeProjectCode, findFileByDataId } from '@/utils/projectFiles';
 import { getWebContainerService } from '@/services/WebContainerService';
+import { getGitHistoryService, UNSAVED_PROJECT_ID } from '@/services/GitHistoryService';
+import { getExportService } from '@/services/ExportService';
+import { downloadBlob, type ExportProfile } from '@/utils/exportApp';
+import { hasDesignTokens, tokensFromPipelineResult } from '@/utils/designTokens';
+import type { DesignTokenSet } from '@/types/designTokens';
+import type { MultiPageDesign } from '@/types/layoutDesign';
+import type { CommitOptions } from '@/types/gitHistory';
 import type { ValidationResult, SandboxError, WebContainerStatus } from '@/types/sandbox';
 
 // ============================================================================
@@ -50,6 +72,13 @@ export interface UseLayoutBuilderReturn {
    */
   runPipeline: (files: File[], instructions: string, appContext?: AppContext, cachedSkillId?: string) => Promise<void>;
 
+  /**
+   * Stop the in-flight pipeline run.
+   * Aborts the request and tells the server to cancel the run so no further
+   * AI calls are made for work that will be thrown away.
+   */
+  cancelPipeline: () => void;
+
   /**
    * Apply a quick edit to a specific component via the Live Editor.
    * Used by FloatingEditBubble — no full pipeline, just code-in/code-out.
@@ -62,6 +91,11 @@ export interface UseLayoutBuilderReturn {
   redo: () => void;
   /** Copy generated code to clipboard */
   exportCode: () => void;
+  /**
+   * Download the project as a ZIP. The profile defaults to what the files
+   * look like (a builder SPA exports with Vite).
+   */
+  exportProject: (profile?: ExportProfile) => Promise<void>;
   /** Clear all errors and warnings */
   clearErrors: () => void;
   /** Whether undo is available */
@@ -95,12 +129,53 @@ export interface UseLayoutBuilderReturn {
   isCritiquing: boolean;
   /** Issues found by the visual critic */
   critiqueIssues: string[];
+
+  // --- Multi-Page ---
+  /** Build one routed page per reference (always on for several references) */
+  multiPage: boolean;
+  /** Toggle multi-page builds */
+  setMultiPage: (multiPage: boolean) => void;
+  /** Pages and routes of the latest multi-page build (null for a single page) */
+  multiPageDesign: MultiPageDesign | null;
+
+  // --- Change Review ---
+  /** Pipeline and live-edit changes to existing code, waiting for hunk approval */
+  review: UseChangeReviewReturn;
 }
 
 // ============================================================================
 // HELPERS
 // ============================================================================
 
+/** Name for exports: the active project's, else the app concept's */
+function exportAppName(): string {
+  const { activeProjectId, projectList } = useProjectStore.getState();
+  return (
+    projectList.find((p) => p.id === activeProjectId)?.name ||
+    useAppStore.getState().appConcept?.name ||
+    'My App'
+  );
+}
+
+/**
+ * Record files as a commit in the active project's git history.
+ * Fire-and-forget: history is best-effort and never blocks a generation.
+ */
+function recordHistory(files: AppFile[], options: CommitOptions): void {
+  if (typeof indexedDB === 'undefined' || files.length === 0) return;
+  const projectId = useProjectStore.getState().activeProjectId ?? UNSAVED_PROJECT_ID;
+  getGitHistoryService()
+    .then((history) => history.commit(projectId, files, options))
+    .catch((err) => console.warn('[useLayoutBuilder] History commit failed:', err));
+}
+
+/** First line of the user's instructions, trimmed to a commit subject. */
+function toCommitSubject(instructions: string, fallback: string): string {
+  const line = instructions.trim().split('\n')[0];
+  if (!line) return fallback;
+  return line.length > 72 ? `${line.slice(0, 69)}...` : line;
+}
+
 /** Convert a browser File to a pipeline FileInput (base64-encoded). */
 function fileToFileInput(file: File): Promise<FileInput> {
   return new Promise((resolve, reject) => {
@@ -119,16 +194,6 @@ function fileToFileInput(file: File): Promise<FileInput> {
   });
 }
 
-/**
- * Extract the main component code string from the generated files.
- * Returns the content of /src/App.tsx (or /App.tsx), which is the
- * primary code file the Builder outputs.
- */
-function extractMainCode(files: AppFile[]): string | null {
-  const appFile = files.find((f) => f.path === '/src/App.tsx' || f.path === '/App.tsx');
-  return appFile?.content ?? null;
-}
-
 /**
  * Parse a shell command string into an array of arguments,
  * respecting single and double quotes.
@@ -145,22 +210,44 @@ function parseShellArgs(commandString: string): string[] {
 }
 
 /**
- * Build a simulated "all steps complete" progress snapshot.
- * Used after the pipeline API returns (non-streaming) to show final status.
+ * Consume the pipeline SSE stream, forwarding each event to `onEvent`.
+ * Resolves with the PipelineResult from the final 'complete' event and
+ * rejects on an 'error' event or if the stream ends without completing.
  */
-function buildFinalProgress(hasImages: boolean, hasVideos: boolean): PipelineProgress {
-  return {
-    currentStep: 'assembling',
-    status: 'completed',
-    steps: {
-      routing: { status: 'completed' },
-      surveying: { status: hasImages ? 'completed' : 'idle' },
-      architecting: { status: 'completed' },
-      physicist: { status: hasVideos ? 'completed' : 'idle' },
-      photographer: { status: 'completed' },
-      assembling: { status: 'completed' },
-    },
-  };
+async function readPipelineStream(
+  response: Response,
+  onEvent: (event: PipelineStreamEvent) => void
+): Promise<PipelineResult> {
+  if (!response.body) throw new Error('Pipeline response has no body');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // SSE messages are separated by a blank line
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() ?? '';
+
+    for (const message of messages) {
+      const data = message.replace(/^data: /, '').trim();
+      if (!data) continue;
+      const event = parseStreamEvent(data) as PipelineStreamEvent | null;
+      if (!event) continue;
+
+      onEvent(event);
+      if (event.type === 'complete') {
+        return { ...event.result, files: event.data.files.map(({ path, content }) => ({ path, content })) };
+      }
+      if (event.type === 'error') throw new Error(event.message);
+    }
+  }
+
+  throw new Error('Pipeline stream ended before completion');
 }
 
 // ============================================================================
@@ -171,6 +258,11 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
   // --- Persisted files from store (survives refresh) ---
   const storedFiles = useAppStore((state) => state.generatedFiles);
   const setStoredFiles = useAppStore((state) => state.setGeneratedFiles);
+  const setQualityReport = useAppStore((state) => state.setQualityReport);
+
+  // --- Code review gate the pipeline enforces before files are applied ---
+  const { settings } = useSettings();
+  const reviewStrictness = settings.build.reviewStrictness;
 
   // --- Core State (initialized from persisted store) ---
   const [generatedFiles, setGeneratedFiles] = useState<AppFile[]>(storedFiles);
@@ -199,14 +291,26 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
   const [isCritiquing, setIsCritiquing] = useState(false);
   const [critiqueIssues, setCritiqueIssues] = useState<string[]>([]);
 
+  // --- Multi-Page State ---
+  const [multiPage, setMultiPage] = useState(false);
+  const [multiPageDesign, setMultiPageDesign] = useState<MultiPageDesign | null>(null);
+
   // --- Abort Controller for fetch cleanup on unmount ---
   const abortRef = useRef<AbortController | null>(null);
+  /** ID of the in-flight pipeline run (used for server-side cancellation) */
+  const runIdRef = useRef<string | null>(null);
   useEffect(() => {
     return () => {
       abortRef.current?.abort();
     };
   }, []);
 
+  /**
+   * Design tokens the latest pipeline run themed the code with. Runs without
+   * references (text-only edits) keep the previous tokens.
+   */
+  const designTokensRef = useRef<DesignTokenSet | null>(null);
+
   // --- History (undo/redo on AppFile[] snapshots) ---
   const [history, setHistory] = useState<AppFile[][]>([]);
   const [future, setFuture] = useState<AppFile[][]>([]);
@@ -232,6 +336,8 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
       setGeneratedFiles(storedFiles);
       setHistory([]);
       setFuture([]);
+      designTokensRef.current = null;
+      setMultiPageDesign(null);
     }
   }, [storedFiles]); // eslint-disable-line react-hooks/exhaustive-deps
 
@@ -249,6 +355,38 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
     });
   }, []);
 
+  // --- Hunk Review (applies through the undo history above) ---
+  const applyReviewedFiles = useCallback(
+    (files: AppFile[], description: string) => {
+      updateFilesWithHistory(files);
+      recordHistory(files, { message: description, source: 'manual' });
+    },
+    [updateFilesWithHistory]
+  );
+  const changeReview = useChangeReview({ files: generatedFiles, onFilesChange: applyReviewedFiles });
+  const { proposeChanges, discardChanges } = changeReview;
+
+  /**
+   * Hand generated files to the user. Changes to existing code wait for hunk
+   * review; the first generation of a project has nothing to review against.
+   */
+  const deliverFiles = useCallback(
+    (files: AppFile[]) => {
+      if (generatedFiles.length === 0) {
+        updateFilesWithHistory(files);
+      } else {
+        proposeChanges(files);
+      }
+    },
+    [generatedFiles.length, updateFilesWithHistory, proposeChanges]
+  );
+
+  /** Drop the proposal; history records that the files stayed as they were */
+  const discardReview = useCallback(() => {
+    discardChanges();
+    recordHistory(generatedFiles, { message: 'Discard reviewed changes', source: 'manual' });
+  }, [discardChanges, generatedFiles]);
+
   // --- Actions ---
 
   const clearErrors = useCallback(() => {
@@ -267,6 +405,7 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
   const validateAndRepair = useCallback(
     async (files: AppFile[], instructions: string): Promise<AppFile[]> => {
       const webContainer = getWebContainerService();
+      recordHistory(files, { message: toCommitSubject(instructions, 'Generate layout'), source: 'pipeline' });
 
       // Skip validation if WebContainer not supported (no SharedArrayBuffer)
       if (!webContainer.isSupported()) {
@@ -329,6 +468,10 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
             if (repairResult.attempted && repairResult.files?.length > 0) {
               currentFiles = repairResult.files;
               console.log(`[useLayoutBuilder] Repair attempt ${attempt + 1}: ${repairResult.fixes?.join(', ')}`);
+              recordHistory(currentFiles, {
+                message: `Repair attempt ${attempt + 1}: ${repairResult.fixes?.join(', ') || 'validation errors'}`,
+                source: 'repair',
+              });
             } else {
               // Repair couldn't fix anything
               return currentFiles;
@@ -545,7 +688,7 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
                // Success! We have files.
                if (result.files.length > 0) {
                    const validatedFiles = await validateAndRepair(result.files, instructions);
-                   updateFilesWithHistory(validatedFiles);
+                   deliverFiles(validatedFiles);
                } else {
                    setErrors(prev => [...prev, 'Autonomy completed but returned no files.']);
                }
@@ -558,7 +701,7 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
            setErrors(prev => [...prev, `Autonomy Error: ${error instanceof Error ? error.message : String(error)}`]);
        }
     },
-    [validateAndRepair, updateFilesWithHistory]
+    [validateAndRepair, deliverFiles]
   );
 
   /**
@@ -566,8 +709,8 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
    *
    * This is the single entry point for ALL generation scenarios:
    *   - Single image upload → CREATE
-   *   - Multi-image upload → MERGE
-   *   - Image + video → MERGE (layout + motion)
+   *   - Several images/videos, or the Multi-page option → MULTI-PAGE
+   *     (one routed page per screenshot or per page visited in a recording)
    *   - Text-only (no files) → CREATE or EDIT depending on currentCode
    *   - Files + existing code → EDIT with new reference
    *
@@ -600,21 +743,18 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
         setPipelineProgress(progress);
 
         const fileInputs = await Promise.all(files.map(fileToFileInput));
-
-        // 2. Include currentCode if we have previously generated files (enables EDIT)
-        const currentCode = extractMainCode(generatedFiles);
-
-        // 3. Update progress to "routing"
-        progress = {
-          ...progress,
-          steps: {
-            ...progress.steps,
-            routing: { status: 'running', message: 'Routing intent...' },
-          },
-        };
-        setPipelineProgress(progress);
-
-        // 4. Call the Titan Pipeline API
+        const references = fileInputs.filter(
+          (f) => f.mimeType.startsWith('image/') || f.mimeType.startsWith('video/')
+        );
+        const buildPages = references.length > 1 || (multiPage && references.length > 0);
+
+        // 2. Include currentCode if we have previously generated files (enables EDIT).
+        //    Multi-file projects are sent with file markers so every section is editable.
+        const currentCode = serializeProjectCode(generatedFiles);
+
+        // 3. Call the Titan Pipeline API (SSE — progress is driven by server events)
+        const runId = crypto.randomUUID();
+        runIdRef.current = runId;
         abortRef.current = new AbortController();
         const response = await fetch('/api/layout/pipeline', {
           method: 'POST',
@@ -625,6 +765,10 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
             currentCode,
             instructions,
             appContext,
+            reviewStrictness,
+            multiPage: buildPages,
+            stream: true,
+            runId,
           }),
         });
 
@@ -635,24 +779,32 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
           throw new Error(errorData.error || `Pipeline failed: ${response.status}`);
         }
 
-        const result = await response.json();
-
-        // 5. Build final progress (all steps done)
-        const hasImages = fileInputs.some((f) => f.mimeType.startsWith('image/'));
-        const hasVideos = fileInputs.some((f) => f.mimeType.startsWith('video/'));
-        setPipelineProgress(buildFinalProgress(hasImages, hasVideos));
+        // 4. Apply streamed step events to progress until the final result arrives
+        const result = await readPipelineStream(response, (event) => {
+          progress = applyPipelineEvent(progress, event);
+          setPipelineProgress(progress);
+        });
+        setQualityReport(result.qualityReport ?? null);
 
-        // 6. Handle Autonomy / Avatar Protocol
+        // 5. Handle Autonomy / Avatar Protocol
         if (result.command && result.suspendedState) {
             // Pipeline entered "PAUSED" state -> Hand over to Avatar Client
             setPipelineProgress(prev => prev ? ({...prev, status: 'running', steps: {...prev.steps, assembling: {status: 'running', message: 'Verifying solution...'}}}) : null);
 
             await handleAvatarCommand(result.command, result.suspendedState, instructions, result.files || generatedFiles);
 
+        } else if (result.qualityGateFailure) {
+            // The server withheld files that failed the code review gate
+            setErrors((prev) => [...prev, `Code review rejected the generated code: ${result.qualityGateFailure}`]);
         } else if (result.files && result.files.length > 0) {
             // Standard Completion
+            const tokens = tokensFromPipelineResult(result);
+            if (hasDesignTokens(tokens)) designTokensRef.current = tokens;
+            // A new reference build replaces the page set; text-only edits keep it
+            if (references.length > 0) setMultiPageDesign(result.multiPageDesign ?? null);
+
             const validatedFiles = await validateAndRepair(result.files, instructions);
-            updateFilesWithHistory(validatedFiles);
+            deliverFiles(validatedFiles);
 
             // Run critique on the validated (post-repair) files, not the originals
             runVisualCritique(validatedFiles, instructions, cachedSkillId, appContext).catch((err) => {
@@ -662,24 +814,54 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
             setErrors((prev) => [...prev, 'Pipeline completed but returned no files']);
         }
 
-        // 7. Collect warnings
+        // 6. Collect warnings
         if (result.warnings && result.warnings.length > 0) {
           setWarnings(result.warnings);
         }
       } catch (error) {
-        const message = error instanceof Error ? error.message : 'Pipeline failed';
-        setErrors((prev) => [...prev, message]);
-        console.error('[useLayoutBuilder] Pipeline error:', error);
+        if (abortRef.current?.signal.aborted) {
+          setWarnings((prev) => [...prev, 'Pipeline run cancelled']);
+        } else {
+          const message = error instanceof Error ? error.message : 'Pipeline failed';
+          setErrors((prev) => [...prev, message]);
+          console.error('[useLayoutBuilder] Pipeline error:', error);
+        }
       } finally {
+        runIdRef.current = null;
         processingRef.current = false;
         setIsProcessing(false);
         // Keep progress visible briefly before clearing
         setTimeout(() => setPipelineProgress(null), 2000);
       }
     },
-    [generatedFiles, clearErrors, updateFilesWithHistory, validateAndRepair, runVisualCritique, handleAvatarCommand]
+    [
+      generatedFiles,
+      reviewStrictness,
+      multiPage,
+      clearErrors,
+      setQualityReport,
+      deliverFiles,
+      validateAndRepair,
+      runVisualCritique,
+      handleAvatarCommand,
+    ]
   );
 
+  const cancelPipeline = useCallback(() => {
+    const runId = runIdRef.current;
+    if (!runId) return;
+
+    // Tell the server first — aborting the fetch alone may not reach it through proxies
+    fetch('/api/layout/pipeline', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'cancel', runId }),
+    }).catch((err) => {
+      console.warn('[useLayoutBuilder] Cancel request failed:', err);
+    });
+    abortRef.current?.abort();
+  }, []);
+
   /**
    * Refine a specific component via the Live Editor prompt.
    * This is a lightweight code-in → code-out operation, NOT a full pipeline run.
@@ -687,8 +869,10 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
    */
   const refineComponent = useCallback(
     async (dataId: string, prompt: string, _outerHTML: string) => {
-      const currentCode = extractMainCode(generatedFiles);
-      if (!currentCode) {
+      // Edit the file that renders the selected element (a section, or App.tsx)
+      const targetFile = findFileByDataId(generatedFiles, dataId);
+      const currentCode = targetFile?.content;
+      if (!targetFile || !currentCode) {
         setErrors(['No generated code to edit']);
         return;
       }
@@ -718,14 +902,12 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
         const result = await response.json();
 
         if (result.success && result.updatedCode) {
-          // Replace the App.tsx content in generatedFiles
-          const newFiles = generatedFiles.map((f) => {
-            if (f.path === '/src/App.tsx' || f.path === '/App.tsx') {
-              return { ...f, content: result.updatedCode };
-            }
-            return f;
-          });
-          updateFilesWithHistory(newFiles);
+          // Replace the edited file's content in generatedFiles
+          const newFiles = generatedFiles.map((f) =>
+            f.path === targetFile.path ? { ...f, content: result.updatedCode } : f
+          );
+          deliverFiles(newFiles);
+          recordHistory(newFiles, { message: toCommitSubject(prompt, 'Live edit'), source: 'live-edit' });
         } else {
           throw new Error(result.error || 'Live edit returned no updated code');
         }
@@ -737,7 +919,7 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
         setIsProcessing(false);
       }
     },
-    [generatedFiles, clearErrors, updateFilesWithHistory]
+    [generatedFiles, clearErrors, deliverFiles]
   );
 
   /** Undo: pop from history, push current to future. */
@@ -787,6 +969,34 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
     );
   }, [generatedFiles]);
 
+  /** Zip the project with an export profile and download it. */
+  const exportProject = useCallback(
+    async (profile?: ExportProfile) => {
+      if (generatedFiles.length === 0) return;
+
+      const appName = exportAppName();
+      const projectId = useProjectStore.getState().activeProjectId ?? UNSAVED_PROJECT_ID;
+      try {
+        const blob = await getExportService().exportAppAsZip({
+          appName,
+          files: generatedFiles,
+          profile,
+          designTokens: designTokensRef.current ?? undefined,
+          gitDirectory:
+            typeof indexedDB === 'undefined'
+              ? undefined
+              : async (exportedFiles) => (await getGitHistoryService()).exportGitDirectory(projectId, exportedFiles),
+        });
+        const slug = appName.toLowerCase().replace(/[^a-z0-9-_]+/g, '-').replace(/^-+|-+$/g, '') || 'app';
+        downloadBlob(blob, `${slug}.zip`);
+      } catch (err) {
+        console.error('[useLayoutBuilder] Export failed:', err);
+        setErrors([err instanceof Error ? err.message : 'Export failed']);
+      }
+    },
+    [generatedFiles]
+  );
+
   /**
    * Send a chat message to the OmniChat API.
    * Returns the AI's response with intent classification.
@@ -800,7 +1010,7 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
     ): Promise<OmniChatResponse> => {
       setIsChatting(true);
       try {
-        const currentCode = extractMainCode(generatedFiles);
+        const currentCode = serializeProjectCode(generatedFiles);
 
         const response = await fetch('/api/layout/chat', {
           method: 'POST',
@@ -838,10 +1048,12 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
     warnings,
 
     runPipeline,
+    cancelPipeline,
     refineComponent,
     undo,
     redo,
     exportCode,
+    exportProject,
     clearErrors,
 
     canUndo: history.length > 0,
@@ -860,5 +1072,13 @@ export function useLayoutBuilder(): UseLayoutBuilderReturn {
     critiqueScore,
     isCritiquing,
     critiqueIssues,
+
+    // Multi-Page
+    multiPage,
+    setMultiPage,
+    multiPageDesign,
+
+    // Change Review
+    review: { ...changeReview, discardChanges: discardReview },
   };
 }
@@ -0,0 +1,126 @@
+/**
+ * useProjectHistory Hook
+ *
+ * Browses the active project's git history (GitHistoryService): commit log,
+ * named branches, diffs between any two commits (FileChange[] for
+ * EnhancedDiffViewer) and restore.
+ *
+ * Checkout and restore write the resulting files to useAppStore, which
+ * useLayoutBuilder hydrates from — so they start a fresh undo timeline.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import { useProjectStore } from '@/store/useProjectStore';
+import { getGitHistoryService, UNSAVED_PROJECT_ID } from '@/services/GitHistoryService';
+import type { AppFile } from '@/types/railway';
+import type { FileChange } from '@/types/review';
+import type { GitDirectoryFile, HistoryBranch, HistoryCommit } from '@/types/gitHistory';
+
+export interface UseProjectHistoryReturn {
+  /** Commits on the current branch, newest first */
+  commits: HistoryCommit[];
+  branches: HistoryBranch[];
+  currentBranch: string | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Reload commits and branches */
+  refresh: () => Promise<void>;
+  /** Per-file changes between two commits (null `fromOid` = empty tree) */
+  diff: (fromOid: string | null, toOid: string) => Promise<FileChange[]>;
+  /** Create a branch at `startOid` (default: current commit) and switch to it */
+  createBranch: (name: string, startOid?: string) => Promise<void>;
+  /** Switch to an existing branch */
+  checkoutBranch: (name: string) => Promise<void>;
+  /** Restore an earlier commit as a new commit */
+  restore: (oid: string) => Promise<void>;
+  /** Raw `.git` directory for ExportService.exportAppAsZip, with HEAD holding `exportedFiles` */
+  exportGitDirectory: (exportedFiles?: AppFile[]) => Promise<GitDirectoryFile[]>;
+}
+
+export function useProjectHistory(): UseProjectHistoryReturn {
+  const projectId = useProjectStore((s) => s.activeProjectId) ?? UNSAVED_PROJECT_ID;
+  const generatedFiles = useAppStore((s) => s.generatedFiles);
+  const setGeneratedFiles = useAppStore((s) => s.setGeneratedFiles);
+
+  const [commits, setCommits] = useState<HistoryCommit[]>([]);
+  const [branches, setBranches] = useState<HistoryBranch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const history = await getGitHistoryService();
+      const [log, branchList] = await Promise.all([
+        history.log(projectId),
+        history.listBranches(projectId),
+      ]);
+      setCommits(log);
+      setBranches(branchList);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  // Commits land asynchronously after each generation — reload when files change
+  useEffect(() => {
+    refresh();
+  }, [refresh, generatedFiles]);
+
+  const diff = useCallback(
+    async (fromOid: string | null, toOid: string) =>
+      (await getGitHistoryService()).diff(projectId, fromOid, toOid),
+    [projectId]
+  );
+
+  const createBranch = useCallback(
+    async (name: string, startOid?: string) => {
+      const files = await (await getGitHistoryService()).createBranch(projectId, name, startOid);
+      setGeneratedFiles(files);
+      await refresh();
+    },
+    [projectId, setGeneratedFiles, refresh]
+  );
+
+  const checkoutBranch = useCallback(
+    async (name: string) => {
+      const files = await (await getGitHistoryService()).checkout(projectId, name);
+      setGeneratedFiles(files);
+      await refresh();
+    },
+    [projectId, setGeneratedFiles, refresh]
+  );
+
+  const restore = useCallback(
+    async (oid: string) => {
+      const files = await (await getGitHistoryService()).restore(projectId, oid);
+      setGeneratedFiles(files);
+      await refresh();
+    },
+    [projectId, setGeneratedFiles, refresh]
+  );
+
+  const exportGitDirectory = useCallback(
+    async (exportedFiles?: AppFile[]) =>
+      (await getGitHistoryService()).exportGitDirectory(projectId, exportedFiles),
+    [projectId]
+  );
+
+  return {
+    commits,
+    branches,
+    currentBranch: branches.find((b) => b.isCurrent)?.name ?? null,
+    isLoading,
+    error,
+    refresh,
+    diff,
+    createBranch,
+    checkoutBranch,
+    restore,
+    exportGitDirectory,
+  };
+}
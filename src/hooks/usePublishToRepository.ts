@@ -0,0 +1,62 @@
+/**
+ * usePublishToRepository Hook
+ *
+ * "Publish to repository" from the builder: pushes the current generatedFiles
+ * to a Git host through GitPublishService. The first publish fills an empty
+ * repository; later ones open a pull request with the changes.
+ */
+
+import { useCallback, useState } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import { useProjectStore } from '@/store/useProjectStore';
+import { getGitPublishService } from '@/services/gitPublish';
+import { UNSAVED_PROJECT_ID } from '@/services/GitHistoryService';
+import type { GitHostProvider, PublishResult, RepositorySpec } from '@/types/gitPublish';
+
+export interface PublishOptions {
+  provider: GitHostProvider;
+  repository: RepositorySpec;
+  /** Commit subject / PR title (generated from the changes when omitted) */
+  message?: string;
+  corsProxy?: string;
+}
+
+export interface UsePublishToRepositoryReturn {
+  publish: (options: PublishOptions) => Promise<PublishResult | null>;
+  isPublishing: boolean;
+  lastResult: PublishResult | null;
+  error: string | null;
+}
+
+export function usePublishToRepository(): UsePublishToRepositoryReturn {
+  const projectId = useProjectStore((s) => s.activeProjectId) ?? UNSAVED_PROJECT_ID;
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [lastResult, setLastResult] = useState<PublishResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const publish = useCallback(
+    async (options: PublishOptions) => {
+      const files = useAppStore.getState().generatedFiles;
+      if (files.length === 0) {
+        setError('Nothing to publish yet — generate a layout first');
+        return null;
+      }
+
+      setIsPublishing(true);
+      setError(null);
+      try {
+        const result = await (await getGitPublishService()).publish({ projectId, files, ...options });
+        setLastResult(result);
+        return result;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Publish failed');
+        return null;
+      } finally {
+        setIsPublishing(false);
+      }
+    },
+    [projectId]
+  );
+
+  return { publish, isPublishing, lastResult, error };
+}
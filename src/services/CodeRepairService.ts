@@ -7,11 +7,24 @@
  *
  * Called by the validation pipeline when WebContainer detects errors
  * in generated code. Operates server-side via the /api/layout/repair route.
+ * Repaired files go through the static code review before being returned.
+ * Compiled 3D scenes (/src/scene3d.json) are repaired as data: the scene
+ * definition is fixed and recompiled instead of patching generated files.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { GoogleGenerativeAI } from '@google/generative-ai';
+import { MeteredGoogleGenerativeAI } from '@/services/modelGateway/meter';
 import { withGeminiRetry } from '@/utils/geminiRetry';
 import { extractCode } from '@/utils/extractCode';
+import { getCodeReviewService } from '@/services/codeReview';
+import { designScene } from '@/services/titanPipeline/sceneDesigner';
+import {
+  compileScene3D,
+  isCompiledSceneFile,
+  readSceneDefinition,
+  SCENE_FILE_PATH,
+} from '@/utils/scene3dCompiler';
+import { isEntryFile } from '@/utils/projectFiles';
 import type { AppFile } from '@/types/railway';
 import type { SandboxError, RepairRequest, RepairResult } from '@/types/sandbox';
 
@@ -104,7 +117,7 @@ class CodeRepairServiceInstance {
 
   private getGenAI(): GoogleGenerativeAI {
     if (!this.genAI) {
-      this.genAI = new GoogleGenerativeAI(getApiKey());
+      this.genAI = new MeteredGoogleGenerativeAI(getApiKey());
     }
     return this.genAI;
   }
@@ -133,20 +146,20 @@ class CodeRepairServiceInstance {
       };
     }
 
-    const model = this.getGenAI().getGenerativeModel({
-      model: REPAIR_MODEL,
-      systemInstruction: REPAIR_SYSTEM_INSTRUCTION,
-      generationConfig: { temperature: 0.1, maxOutputTokens: 16384 },
-    });
-
     const fixes: string[] = [];
     const repairedFiles: AppFile[] = [];
     const remainingErrors: SandboxError[] = [];
 
+    // Errors in a compiled scene are fixed in its definition
+    const scene = await this.repairScene(files, errors, originalInstructions);
+    if (scene) fixes.push(scene.fix);
+    const pendingFiles = scene?.files ?? files;
+
     // Group errors by file
-    const errorsByFile = this.groupErrorsByFile(errors, files);
+    const errorsByFile = this.groupErrorsByFile(scene?.otherErrors ?? errors, pendingFiles);
+    let model: ReturnType<GoogleGenerativeAI['getGenerativeModel']> | null = null;
 
-    for (const file of files) {
+    for (const file of pendingFiles) {
       const fileErrors = errorsByFile.get(file.path) || [];
 
       if (fileErrors.length === 0) {
@@ -156,8 +169,13 @@ class CodeRepairServiceInstance {
       }
 
       try {
+        const repairModel = (model ??= this.getGenAI().getGenerativeModel({
+          model: REPAIR_MODEL,
+          systemInstruction: REPAIR_SYSTEM_INSTRUCTION,
+          generationConfig: { temperature: 0.1, maxOutputTokens: 16384 },
+        }));
         const prompt = buildRepairPrompt(file.content, file.path, fileErrors, attempt, originalInstructions);
-        const result = await withGeminiRetry(() => model.generateContent(prompt));
+        const result = await withGeminiRetry(() => repairModel.generateContent(prompt));
         const repairedCode = extractCode(result.response.text());
 
         const normalize = (s: string) => s.replace(/\s+/g, ' ').trim();
@@ -179,14 +197,74 @@ class CodeRepairServiceInstance {
       }
     }
 
+    // Review the repaired code and apply the safe fixes the model missed
+    const review = getCodeReviewService().reviewFiles(repairedFiles);
+    fixes.push(...review.report.fixes.map((fix) => `${fix.description} in ${fix.file}`));
+
     return {
       attempted: true,
-      files: repairedFiles,
+      files: review.files,
       fixes,
       remainingErrors,
+      qualityReport: review.report,
     };
   }
 
+  /**
+   * Repair a compiled 3D scene: errors in /src/scene3d.json or in files
+   * compiled from it go back to the Scene Designer with the definition, and
+   * the fixed definition is recompiled. Returns null when the project has no
+   * scene definition, no error touches it, or the definition stays invalid.
+   */
+  private async repairScene(
+    files: AppFile[],
+    errors: SandboxError[],
+    originalInstructions?: string
+  ): Promise<{ files: AppFile[]; fix: string; otherErrors: SandboxError[] } | null> {
+    const definition = readSceneDefinition(files);
+    if (!definition) return null;
+
+    const sceneErrors: SandboxError[] = [];
+    const otherErrors: SandboxError[] = [];
+    for (const [path, fileErrors] of this.groupErrorsByFile(errors, files)) {
+      const file = files.find((f) => f.path === path);
+      const inScene = path === SCENE_FILE_PATH || (!!file && isCompiledSceneFile(file));
+      (inScene ? sceneErrors : otherErrors).push(...fileErrors);
+    }
+    if (sceneErrors.length === 0) return null;
+
+    try {
+      const design = await designScene({
+        instructions: originalInstructions ?? '',
+        manifests: [],
+        assets: {},
+        currentScene: definition.scene,
+        errors: [...(definition.errors ?? []), ...formatErrors(sceneErrors).split('\n')],
+      });
+      if (!design.scene) {
+        console.warn('[CodeRepairService] Scene definition still invalid after repair:', design.errors);
+        return null;
+      }
+
+      const compiled = compileScene3D(design.scene);
+      const kept = files.filter(
+        (f) => f.path !== SCENE_FILE_PATH && !isCompiledSceneFile(f) && !isEntryFile(f.path)
+      );
+      return {
+        files: [
+          ...compiled.files.filter((f) => !isEntryFile(f.path)),
+          ...kept,
+          ...compiled.files.filter((f) => isEntryFile(f.path)),
+        ],
+        fix: `Repaired the scene definition for ${sceneErrors.length} error(s) and recompiled (unverified)`,
+        otherErrors,
+      };
+    } catch (error) {
+      console.error('[CodeRepairService] Scene repair failed:', error);
+      return null;
+    }
+  }
+
   /**
    * Group errors by the file they belong to.
    * Errors without a file are assigned to the main App.tsx.
@@ -0,0 +1,111 @@
+/**
+ * DreamCheckpointDatabase Service
+ *
+ * IndexedDB persistence for in-progress Dream Mode campaigns, so an overnight
+ * cycle survives a closed or crashed tab. One checkpoint per repository.
+ *
+ * The file set is stored separately from the rest of the state: it is by far
+ * the largest part and only changes when a patch is applied or reverted, so
+ * most checkpoints skip rewriting it.
+ *
+ * Database: ai-app-builder-dream
+ * Object Stores: checkpoints (state, keyed by repoUrl), checkpoint-files (AppFile[] by repoUrl)
+ */
+
+import { openDB, type IDBPDatabase } from 'idb';
+import { parseRepoSource, describeRepoSource } from '@/services/repoSources';
+import type { AppFile } from '@/types/railway';
+import type { DreamCheckpoint } from '@/types/dream';
+
+const DB_NAME = 'ai-app-builder-dream';
+const DB_VERSION = 1;
+const STATE_STORE = 'checkpoints';
+const FILES_STORE = 'checkpoint-files';
+
+// Singleton DB instance
+let dbPromise: Promise<IDBPDatabase> | null = null;
+
+function getDB(): Promise<IDBPDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDB(DB_NAME, DB_VERSION, {
+      upgrade(db) {
+        if (!db.objectStoreNames.contains(STATE_STORE)) {
+          db.createObjectStore(STATE_STORE, { keyPath: 'repoUrl' });
+        }
+        if (!db.objectStoreNames.contains(FILES_STORE)) {
+          db.createObjectStore(FILES_STORE);
+        }
+      },
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Save a campaign checkpoint. Pass `files` only when the file set changed
+ * since the last save; otherwise the stored files are kept.
+ */
+export async function saveDreamCheckpoint(
+  state: Omit<DreamCheckpoint, 'files'>,
+  files?: AppFile[]
+): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction([STATE_STORE, FILES_STORE], 'readwrite');
+  await Promise.all([
+    tx.objectStore(STATE_STORE).put(state),
+    files ? tx.objectStore(FILES_STORE).put(files, state.repoUrl) : undefined,
+    tx.done,
+  ]);
+}
+
+/**
+ * Load the checkpoint for a repository.
+ * Returns null if there is none.
+ */
+export async function loadDreamCheckpoint(repoUrl: string): Promise<DreamCheckpoint | null> {
+  const db = await getDB();
+  const state = (await db.get(STATE_STORE, repoUrl)) as Omit<DreamCheckpoint, 'files'> | undefined;
+  if (!state) return null;
+  const files = ((await db.get(FILES_STORE, repoUrl)) as AppFile[] | undefined) ?? [];
+  return { ...state, files };
+}
+
+/**
+ * Checkpoint key for a configured repository ("owner/repo", a repo URL…),
+ * or null if it doesn't parse. Matches the key a campaign saves under.
+ */
+export function dreamCheckpointKey(repo: string): string | null {
+  try {
+    return describeRepoSource(parseRepoSource(repo));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saved campaign for a configured repository, if IndexedDB has one.
+ * Read failures are logged and treated as no checkpoint.
+ */
+export async function findDreamCheckpoint(repo: string): Promise<DreamCheckpoint | null> {
+  const key = dreamCheckpointKey(repo);
+  if (!key || typeof indexedDB === 'undefined') return null;
+  try {
+    return await loadDreamCheckpoint(key);
+  } catch (error) {
+    console.warn('[DreamCheckpointDatabase] Could not read checkpoint:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete a repository's checkpoint (the campaign finished or was discarded).
+ */
+export async function deleteDreamCheckpoint(repoUrl: string): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction([STATE_STORE, FILES_STORE], 'readwrite');
+  await Promise.all([
+    tx.objectStore(STATE_STORE).delete(repoUrl),
+    tx.objectStore(FILES_STORE).delete(repoUrl),
+    tx.done,
+  ]);
+}
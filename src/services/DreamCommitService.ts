@@ -0,0 +1,258 @@
+/**
+ * Dream Commit Service
+ *
+ * Pushes the patches a Dream Mode cycle verified back to the repository it
+ * loaded (DreamSettings.autoCommit):
+ *   - one commit per verified patch on a `dream/<date>` branch, with a message
+ *     built from the CrashEntry or DreamGoal that triggered it
+ *   - one pull request against the loaded branch, with the dream log summary
+ *     as its body
+ *
+ * The host is picked from the RepoSource: GitHub sources go through the
+ * GitHub API (same token that loaded the repo), GitLab, Gitea and plain git
+ * remotes are pushed over smart-HTTP without a pull request. Uploaded zips and
+ * local folders have nowhere to push to.
+ */
+
+import {
+  GitHubProvider,
+  PlainRemoteProvider,
+  getGitPublishService,
+  type GitPublishServiceInstance,
+} from '@/services/gitPublish';
+import type { BranchCommit, GitCredentials, GitHostProvider, RepositorySpec } from '@/types/gitPublish';
+import type { RepoSource } from '@/types/repoSource';
+import type { CrashEntry, DreamAutoCommit, DreamGoal, DreamLog } from '@/types/dream';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const BRANCH_PREFIX = 'dream/';
+const MAX_SUBJECT_LENGTH = 72;
+
+/** What a verified patch was fixing or building */
+export type DreamPatchTrigger = { crash: CrashEntry } | { goal: DreamGoal };
+
+export interface DreamCommitServiceOptions {
+  /** Publish service to push with (default: the browser singleton) */
+  getPublishService?: () => Promise<GitPublishServiceInstance>;
+  /** fetch for host APIs (tests) */
+  fetch?: typeof fetch;
+}
+
+interface PushTarget {
+  provider: GitHostProvider;
+  repository: RepositorySpec;
+  base?: string;
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+/**
+ * `dream/YYYY-MM-DD` for the day the cycle started (local time).
+ */
+export function dreamBranchName(startedAt: number): string {
+  const date = new Date(startedAt);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${BRANCH_PREFIX}${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function toSubject(prefix: string, text: string): string {
+  const line = text.trim().split('\n')[0].trim();
+  const subject = `${prefix}${line}`;
+  return subject.length > MAX_SUBJECT_LENGTH ? `${subject.slice(0, MAX_SUBJECT_LENGTH - 1)}…` : subject;
+}
+
+/**
+ * Commit message for a verified patch.
+ */
+export function buildPatchCommitMessage(trigger: DreamPatchTrigger): string {
+  if ('crash' in trigger) {
+    const { crash } = trigger;
+    const location = crash.file ? `${crash.file}${crash.line !== undefined ? `:${crash.line}` : ''}` : null;
+    return [
+      toSubject('Fix: ', crash.error),
+      '',
+      `Dream Mode patch for a ${crash.severity} crash found by the Chaos Monkey.`,
+      '',
+      `Error: ${crash.error}`,
+      ...(location ? [`Location: ${location}`] : []),
+      ...(crash.testName ? [`Test: ${crash.testName}`] : []),
+      ...(crash.stepsToReproduce.length > 0
+        ? ['', 'Steps to reproduce:', ...crash.stepsToReproduce.map((step, i) => `${i + 1}. ${step}`)]
+        : []),
+    ].join('\n');
+  }
+
+  const { goal } = trigger;
+  return [
+    toSubject('', goal.prompt),
+    '',
+    `Dream Mode ${goal.source} goal, verified by build, visual and functional checks.`,
+    '',
+    goal.prompt.trim(),
+    '',
+    `Goal: ${goal.id}`,
+  ].join('\n');
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+/**
+ * Markdown summary of a dream cycle, used as the pull request body.
+ */
+export function summarizeDreamLog(log: DreamLog): string {
+  const verified = log.patches.filter((p) => p.verified && !p.revertedAt);
+  const rejected = log.patches.filter((p) => !p.verified).length;
+  const rolledBack = log.patches.filter((p) => p.revertedAt).length;
+
+  return [
+    '## Dream Mode report',
+    '',
+    `Autonomous maintenance run on \`${log.repoUrl}\` with the ${log.profileUsed} profile ` +
+      `(${formatDuration(log.endedAt - log.startedAt)}, ended: ${log.stopReason.replace(/_/g, ' ')}).`,
+    '',
+    '| | |',
+    '| --- | --- |',
+    `| Goals completed | ${log.goalsCompleted} |`,
+    `| Bugs found | ${log.bugsFound} |`,
+    `| Bugs fixed | ${log.bugsFixed} |`,
+    `| Orphaned features | ${log.discoveries} |`,
+    '',
+    '### Verified patches',
+    '',
+    ...(verified.length > 0
+      ? verified.map((p) => `- \`${p.file}\` — ${p.goalId ? 'goal' : 'crash fix'}`)
+      : ['_None_']),
+    ...(rejected > 0 ? ['', `${rejected} patch(es) failed verification and were reverted.`] : []),
+    ...(rolledBack > 0 ? ['', `${rolledBack} patch(es) were rolled back by the regression guard.`] : []),
+    '',
+    'Each commit on this branch is one patch; review them individually.',
+  ].join('\n');
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class DreamCommitServiceInstance {
+  private readonly getPublishService: () => Promise<GitPublishServiceInstance>;
+  private readonly fetchImpl?: typeof fetch;
+
+  constructor(options: DreamCommitServiceOptions = {}) {
+    this.getPublishService = options.getPublishService ?? getGitPublishService;
+    this.fetchImpl = options.fetch;
+  }
+
+  /**
+   * Push `commits` to the cycle's dream branch and open a pull request.
+   * Failures are returned in `error` rather than thrown — a failed push must
+   * not lose the dream log.
+   */
+  async publish(source: RepoSource, log: DreamLog, commits: BranchCommit[]): Promise<DreamAutoCommit> {
+    const branch = dreamBranchName(log.startedAt);
+    const result: DreamAutoCommit = { branch, commitOids: [], pullRequestUrl: null };
+
+    try {
+      const target = this.resolveTarget(source);
+      const service = await this.getPublishService();
+      const published = await service.publishBranch({
+        projectId: `dream-${branch.slice(BRANCH_PREFIX.length)}`,
+        provider: target.provider,
+        repository: target.repository,
+        branch,
+        base: target.base,
+        commits,
+        pullRequest: {
+          title: `Dream Mode: ${commits.length} verified patch${commits.length === 1 ? '' : 'es'}`,
+          body: summarizeDreamLog(log),
+        },
+        corsProxy: source.kind === 'git' ? source.corsProxy : undefined,
+      });
+
+      result.commitOids = published.commitOids;
+      result.pullRequestUrl = published.pullRequest?.url ?? null;
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      console.error('[DreamCommitService] Auto-commit failed:', error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Host, repository and base branch to push to for a source.
+   */
+  private resolveTarget(source: RepoSource): PushTarget {
+    switch (source.kind) {
+      case 'github': {
+        if (!source.token) {
+          throw new Error('[DreamCommitService] Auto-commit to GitHub needs an access token');
+        }
+        const [owner, name] = source.repo.split('/');
+        return {
+          provider: new GitHubProvider({ token: source.token, apiBaseUrl: source.apiBaseUrl, fetch: this.fetchImpl }),
+          repository: { owner, name },
+          base: source.ref,
+        };
+      }
+      case 'gitlab': {
+        if (/^\d+$/.test(source.project)) {
+          throw new Error('[DreamCommitService] Auto-commit needs a GitLab project path, not a numeric id');
+        }
+        const baseUrl = (source.baseUrl ?? 'https://gitlab.com').replace(/\/+$/, '');
+        return this.plainTarget(`${baseUrl}/${source.project}.git`, source.ref, source.token
+          ? { username: 'oauth2', password: source.token }
+          : undefined);
+      }
+      case 'gitea':
+        return this.plainTarget(`${source.baseUrl.replace(/\/+$/, '')}/${source.repo}.git`, source.ref, source.token
+          ? { username: source.token, password: 'x-oauth-basic' }
+          : undefined);
+      case 'git':
+        return this.plainTarget(source.url, source.ref, source.password
+          ? { username: source.username ?? 'oauth2', password: source.password }
+          : undefined);
+      case 'zip':
+      case 'directory':
+        throw new Error(`[DreamCommitService] ${source.kind} sources have no remote to push to`);
+    }
+  }
+
+  private plainTarget(url: string, ref: string | undefined, credentials?: GitCredentials): PushTarget {
+    const name = url.replace(/\/+$/, '').split('/').pop()?.replace(/\.git$/, '') ?? 'repository';
+    return {
+      provider: new PlainRemoteProvider({ url, defaultBranch: ref, credentials }),
+      repository: { name },
+      base: ref,
+    };
+  }
+}
+
+// ============================================================================
+// FACTORIES
+// ============================================================================
+
+let _instance: DreamCommitServiceInstance | null = null;
+
+export function getDreamCommitService(): DreamCommitServiceInstance {
+  if (!_instance) {
+    _instance = new DreamCommitServiceInstance();
+  }
+  return _instance;
+}
+
+/**
+ * Service with an explicit publish service and fetch (tests, Node tooling).
+ */
+export function createDreamCommitService(options: DreamCommitServiceOptions): DreamCommitServiceInstance {
+  return new DreamCommitServiceInstance(options);
+}
+
+export type { DreamCommitServiceInstance };
@@ -8,17 +8,24 @@
  *   - Per-step errors are caught and logged
  *   - If a CODER agent fails, the entire run returns failure with error details
  *   - The AutonomyCore retry loop uses these errors to refine the next attempt
+ *
+ * Coders answer with a typed edit set (utils/fileEdits) so callers can apply
+ * multi-file changes atomically; a coder that returns a plain code file is
+ * still accepted, with `edits` left unset.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { GoogleGenerativeAI } from '@google/generative-ai';
+import { MeteredGoogleGenerativeAI } from '@/services/modelGateway/meter';
 import { withGeminiRetry } from '@/utils/geminiRetry';
 import { extractCode } from '@/utils/extractCode';
+import { formatFileEdits, parseFileEdits } from '@/utils/fileEdits';
 import type {
   AgentSwarm,
   FabricatedAgent,
   WorkflowContext,
   AgentTaskResult,
-  AgentFeedback
+  AgentFeedback,
+  FileEdit
 } from '@/types/autonomy';
 import type { RepoContext } from '@/types/titanPipeline';
 import { tavilySearchService } from '@/services/TavilySearchService';
@@ -30,6 +37,13 @@ const CODE_ONLY_SYSTEM_INSTRUCTION =
   'Never include explanations, markdown fences (```), or conversational text. ' +
   'Start directly with import statements or code. Any non-code text will break the build.';
 
+const EDIT_SET_SYSTEM_INSTRUCTION =
+  'You are a code generator that edits an existing project. Output ONLY a JSON object of the form ' +
+  '{"edits": [...]} — no explanations, no markdown fences. Any non-JSON text will break the build.';
+
+/** Memory key holding the last coder's edit set (survives Avatar Protocol suspension) */
+const EDITS_MEMORY_KEY = '__edits';
+
 function getApiKey(): string {
   const key = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
   if (!key) throw new Error('Gemini API key missing');
@@ -61,12 +75,16 @@ export class DynamicWorkflowEngine {
     this.context = { memory: {}, global_files: {}, logs: [] };
 
     const apiKey = getApiKey();
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const genAI = new MeteredGoogleGenerativeAI(apiKey);
     const model = genAI.getGenerativeModel({ model: MODEL_NAME });
     const codeModel = genAI.getGenerativeModel({
       model: MODEL_NAME,
       systemInstruction: CODE_ONLY_SYSTEM_INSTRUCTION,
     });
+    const editModel = genAI.getGenerativeModel({
+      model: MODEL_NAME,
+      systemInstruction: EDIT_SET_SYSTEM_INSTRUCTION,
+    });
 
     // Zero-Bug Integration: Check if task involves critical files
     let requiresTDD = false;
@@ -162,8 +180,9 @@ export class DynamicWorkflowEngine {
     // Phase 3: Coding (critical — failures are returned for retry)
     const coders = swarm.agents.filter((a) => a.role === 'CODER');
     let finalCode = '';
+    let finalEdits: FileEdit[] | undefined;
     for (const agent of coders) {
-      const result = await this.executeAgentStep(agent, codeModel, plan, 'CODING');
+      const result = await this.executeAgentStep(agent, editModel, plan, 'CODING');
       if (!result.success) {
         this.log(`[CODING] Agent ${agent.name} failed: ${result.error}`);
         return {
@@ -173,11 +192,25 @@ export class DynamicWorkflowEngine {
           retry_suggestion: `The coding agent "${agent.name}" encountered an error. Consider breaking the task into smaller steps or using a different implementation approach.`,
         };
       }
-      // Clean conversational wrapping from CODER output and update memory
+      // Prefer the edit set; a plain file is cleaned of conversational wrapping
       // so subsequent CODERs see clean code, not "Here's the implementation:..."
-      const cleanedOutput = extractCode(result.output);
-      this.context.memory[agent.name] = cleanedOutput;
-      finalCode = cleanedOutput;
+      let edits: FileEdit[] | null;
+      try {
+        edits = parseFileEdits(result.output);
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        this.log(`[CODING] Agent ${agent.name} returned an invalid edit set: ${message}`);
+        return {
+          success: false,
+          output: '',
+          error: `Code generation failed (${agent.name}): ${message}`,
+          retry_suggestion: 'Every edit needs "op", "path" and the fields its op requires (content, hunks or to).',
+        };
+      }
+      finalEdits = edits ?? undefined;
+      finalCode = edits ? formatFileEdits(edits) : extractCode(result.output);
+      this.context.memory[agent.name] = finalCode;
+      this.context.memory[EDITS_MEMORY_KEY] = finalEdits;
     }
 
     // Phase 4: Execution & Verification (The "Avatar" Loop)
@@ -196,6 +229,7 @@ export class DynamicWorkflowEngine {
                 return {
                     success: false, // Not failures, just paused
                     output: finalCode,
+                    edits: finalEdits,
                     command: verificationResult.command, // Return command to API -> Client
                     suspendedState: {
                         step: {
@@ -244,6 +278,7 @@ export class DynamicWorkflowEngine {
       output: finalCode,
       artifacts: [this.context.global_files],
       reasoning_summary: architectReasoning.trim() || undefined,
+      edits: finalEdits,
     };
   }
 
@@ -264,7 +299,7 @@ export class DynamicWorkflowEngine {
       };
       
       const apiKey = getApiKey();
-      const genAI = new GoogleGenerativeAI(apiKey);
+      const genAI = new MeteredGoogleGenerativeAI(apiKey);
       const model = genAI.getGenerativeModel({ model: MODEL_NAME });
 
       // 2. Identify Resuming Agent
@@ -311,6 +346,7 @@ You may also issue ANOTHER command if needed.
            return {
                 success: false,
                 output: result.output,
+                edits: this.context.memory[EDITS_MEMORY_KEY],
                 command: result.command,
                 suspendedState: {
                     ...suspendedState,
@@ -352,6 +388,7 @@ You may also issue ANOTHER command if needed.
                 return {
                     success: false, 
                     output: finalCode,
+                    edits: this.context.memory[EDITS_MEMORY_KEY],
                     command: nextResult.command,
                     suspendedState: {
                         step: {
@@ -388,6 +425,7 @@ You may also issue ANOTHER command if needed.
           output: finalCode,
           artifacts: [this.context.global_files],
           reasoning_summary: architectReasoning || undefined,
+          edits: this.context.memory[EDITS_MEMORY_KEY],
       };
   }
 
@@ -431,8 +469,17 @@ ${searchContext ? `\n### Research Results\n${searchContext}` : ''}
 ${input}
 
 ### OUTPUT FORMAT
-Respond with ONLY the complete TypeScript/React code file.
-Start with import statements. End with export default.
+Respond with ONLY a JSON edit set against the project files listed in the requirements:
+{"edits": [
+  {"op": "patch", "path": "/src/App.tsx", "hunks": [{"search": "<exact existing lines>", "replace": "<new lines>"}]},
+  {"op": "create", "path": "/src/components/New.tsx", "content": "<complete file>"},
+  {"op": "replace", "path": "/src/theme.ts", "content": "<complete file>"},
+  {"op": "rename", "path": "/src/old.ts", "to": "/src/new.ts"},
+  {"op": "delete", "path": "/src/unused.ts"}
+]}
+- Paths are absolute and must stay inside the project; only "create" may name a new file.
+- Each "search" must be copied character-for-character from the current file and occur in it exactly once.
+- Prefer "patch" for small changes to existing files; use "create" for every file of a new project.
 Do NOT include any explanation, markdown, or conversational text.`;
       } else if (isExecution) {
           if (phase === 'EXECUTION_RESUME') {
@@ -551,7 +598,7 @@ Perform your role. Return the output.`;
    */
   private serializeMemoryForPrompt(maxChars: number = 8000): string {
     const entries = Object.entries(this.context.memory).filter(
-      ([key]) => key !== '__global_files' // Don't leak internal bookkeeping
+      ([key]) => !key.startsWith('__') // Don't leak internal bookkeeping (__global_files, __edits)
     );
     if (entries.length === 0) return '{}';
 
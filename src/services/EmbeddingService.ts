@@ -9,6 +9,7 @@
  */
 
 import OpenAI from 'openai';
+import { reportModelCall } from '@/services/modelGateway/meter';
 
 // ============================================================================
 // CONFIGURATION
@@ -60,6 +61,16 @@ class EmbeddingServiceInstance {
     throw new Error('Unreachable');
   }
 
+  /** Report an embeddings call to the model call meter */
+  private reportUsage(response: OpenAI.Embeddings.CreateEmbeddingResponse): void {
+    reportModelCall({
+      service: 'openai',
+      model: EMBEDDING_MODEL,
+      inputTokens: response.usage?.prompt_tokens ?? 0,
+      outputTokens: 0,
+    });
+  }
+
   /**
    * Generate a vector embedding for a single text input.
    * Returns a 1536-dimensional float array.
@@ -74,6 +85,7 @@ class EmbeddingServiceInstance {
         dimensions: EMBEDDING_DIMENSIONS,
       })
     );
+    this.reportUsage(response);
 
     return response.data[0].embedding;
   }
@@ -94,6 +106,7 @@ class EmbeddingServiceInstance {
         dimensions: EMBEDDING_DIMENSIONS,
       })
     );
+    this.reportUsage(response);
 
     // Sort by index to maintain order
     return response.data
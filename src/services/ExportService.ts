@@ -0,0 +1,181 @@
+/**
+ * Export Service
+ *
+ * Turns a generated project (AppFile[]) into a downloadable ZIP using an
+ * export profile:
+ * - vite: Vite + React SPA
+ * - next-app: Next.js App Router
+ * - static-html: a single index.html rendered by ReactToHtmlService
+ *
+ * The profile defaults to what the files look like (detectProjectShape):
+ * Builder/layout output is a React SPA and exports with Vite; an existing
+ * App Router tree can only export as a Next app. Dependency versions come
+ * from config/curated-versions.ts. Project history can ride along as a
+ * real `.git` directory (see GitHistoryService).
+ */
+
+import { getReactToHtmlService } from '@/services/ReactToHtmlService';
+import { extractDependencies } from '@/utils/extractDependencies';
+import { hasDesignTokens, toCssVariables, toStyleDictionary } from '@/utils/designTokens';
+import {
+  detectProjectShape,
+  toSpaSourceFiles,
+  generatePackageJson,
+  generateReadme,
+  generateEnvExample,
+  generateNextConfig,
+  generateViteConfig,
+  generateTsConfig,
+  generateTailwindConfig,
+  generatePostCssConfig,
+  generateGlobalCss,
+  generateGitIgnore,
+  generateViteIndexHtml,
+  generateViteEntry,
+  generateNextLayout,
+  generateNextPage,
+  zipProjectFiles,
+  type AppFile,
+  type ExportOptions,
+  type ExportProfile,
+  type ProjectShape,
+} from '@/utils/exportApp';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const TOKENS_CSS_PATH = '/src/styles/tokens.css';
+const TOKENS_JSON_PATH = '/tokens.json';
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class ExportServiceInstance {
+  /**
+   * Detect the project shape of generated files.
+   */
+  detectShape(files: AppFile[]): ProjectShape {
+    return detectProjectShape(files);
+  }
+
+  /**
+   * Build the full file list for an export, without zipping it.
+   * Generated config files take precedence over same-named project files.
+   */
+  buildProjectFiles(options: ExportOptions): AppFile[] {
+    const shape = detectProjectShape(options.files);
+    const profile = options.profile ?? shape.defaultProfile;
+
+    if (!shape.supportedProfiles.includes(profile)) {
+      throw new Error(
+        `[ExportService] A ${shape.kind} project cannot be exported with the "${profile}" profile ` +
+          `(supported: ${shape.supportedProfiles.join(', ')})`
+      );
+    }
+
+    const sources = shape.kind === 'react-spa' ? toSpaSourceFiles(options.files, shape) : options.files;
+    const tokens = options.designTokens && hasDesignTokens(options.designTokens) ? options.designTokens : undefined;
+
+    const output = new Map<string, string>();
+    const add = (path: string, content: string) => output.set(path, content);
+
+    if (profile === 'static-html') {
+      const html = getReactToHtmlService().buildStandaloneHtml(options.files, undefined, {
+        title: options.appName,
+        responsive: true,
+      });
+      add('/index.html', tokens ? this.injectTokens(html, toCssVariables(tokens)) : html);
+    } else {
+      for (const file of sources) add(file.path, file.content);
+      this.addToolchainFiles(add, options, profile, shape, sources, !!tokens);
+    }
+
+    if (options.includeReadme !== false) {
+      add('/README.md', generateReadme(options.appName, profile));
+    }
+
+    if (tokens) {
+      if (profile !== 'static-html') add(TOKENS_CSS_PATH, toCssVariables(tokens));
+      add(TOKENS_JSON_PATH, `${JSON.stringify(toStyleDictionary(tokens), null, 2)}\n`);
+    }
+
+    return [...output.entries()].map(([path, content]) => ({ path, content }));
+  }
+
+  /**
+   * Export app as a downloadable ZIP file, with the project's `.git`
+   * directory when history is supplied. The history is asked for the
+   * exported files, so the zip unzips as a clean checkout.
+   */
+  async exportAppAsZip(options: ExportOptions): Promise<Blob> {
+    const files = this.buildProjectFiles(options);
+    const gitDirectory = options.gitDirectory ? await options.gitDirectory(files) : [];
+    return zipProjectFiles([...files, ...gitDirectory]);
+  }
+
+  /**
+   * package.json, build configs and the profile's entry files.
+   */
+  private addToolchainFiles(
+    add: (path: string, content: string) => void,
+    options: ExportOptions,
+    profile: Exclude<ExportProfile, 'static-html'>,
+    shape: ProjectShape,
+    sources: AppFile[],
+    withTokens: boolean
+  ): void {
+    if (options.includePackageJson !== false) {
+      add('/package.json', generatePackageJson(options.appName, extractDependencies(sources), profile));
+    }
+
+    if (options.includeEnvExample !== false) {
+      add('/.env.example', generateEnvExample(profile));
+    }
+
+    add('/tsconfig.json', generateTsConfig(profile));
+    add('/tailwind.config.js', generateTailwindConfig(options.designTokens, profile));
+    add('/postcss.config.js', generatePostCssConfig(profile));
+    add('/.gitignore', generateGitIgnore());
+
+    if (profile === 'vite') {
+      add('/vite.config.ts', generateViteConfig());
+      add('/index.html', generateViteIndexHtml(options.appName, shape));
+      add(`/src/main.${shape.typescript ? 'tsx' : 'jsx'}`, generateViteEntry(shape));
+      add('/src/index.css', generateGlobalCss(withTokens ? './styles/tokens.css' : undefined));
+      return;
+    }
+
+    add('/next.config.js', generateNextConfig());
+
+    // Existing App Router trees keep their own layout and page
+    if (shape.kind === 'react-spa') {
+      add('/src/app/layout.tsx', generateNextLayout(options.appName));
+      add('/src/app/page.tsx', generateNextPage(shape));
+      add('/src/app/globals.css', generateGlobalCss(withTokens ? '../styles/tokens.css' : undefined));
+    }
+  }
+
+  /**
+   * Inline the token stylesheet into a static page's <head>.
+   */
+  private injectTokens(html: string, css: string): string {
+    return html.replace('</head>', `  <style>\n${css}  </style>\n</head>`);
+  }
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let _instance: ExportServiceInstance | null = null;
+
+export function getExportService(): ExportServiceInstance {
+  if (!_instance) {
+    _instance = new ExportServiceInstance();
+  }
+  return _instance;
+}
+
+export type { ExportServiceInstance };
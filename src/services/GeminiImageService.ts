@@ -3,7 +3,8 @@
  * Macro Lens prompt, Safety Fallback, Singleton accessor
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { GoogleGenerativeAI } from '@google/generative-ai';
+import { MeteredGoogleGenerativeAI } from '@/services/modelGateway/meter';
 import { withGeminiRetry } from '@/utils/geminiRetry';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
@@ -20,7 +21,7 @@ class GeminiImageService {
 
   constructor() {
     const apiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
-    if (apiKey) this.client = new GoogleGenerativeAI(apiKey);
+    if (apiKey) this.client = new MeteredGoogleGenerativeAI(apiKey);
 
     const sbUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
     const sbKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -0,0 +1,342 @@
+/**
+ * Git History Service
+ *
+ * Records project history as real git commits using isomorphic-git. In the
+ * browser the repositories live in IndexedDB (lightning-fs); tests pass a
+ * Node fs rooted in a temp directory instead.
+ *
+ * Each project is its own repository at `/<projectId>` whose working tree
+ * mirrors the project's AppFile[] (leading slashes stripped). Operations on
+ * one repository are serialized, since isomorphic-git does not lock the
+ * index against concurrent writers.
+ */
+
+import * as git from 'isomorphic-git';
+import type { AppFile } from '@/types/railway';
+import type { FileChange } from '@/types/review';
+import type {
+  CommitOptions,
+  GitDirectoryFile,
+  HistoryBranch,
+  HistoryCommit,
+  HistoryCommitSource,
+  HistoryFs,
+} from '@/types/gitHistory';
+import { diffFileChange } from '@/utils/lineDiff';
+import { mkdirp, repoDirectory, writeWorkingFiles } from '@/utils/gitFs';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const FS_NAME = 'ai-app-builder-history';
+const DEFAULT_BRANCH = 'main';
+
+/** Repository used for work that has not been saved as a project yet */
+export const UNSAVED_PROJECT_ID = 'unsaved';
+/** Author of every commit the builder makes */
+export const BUILDER_AUTHOR = { name: 'AI App Builder', email: 'builder@ai-app-builder.local' };
+const SOURCE_TRAILER_REGEX = /^Source: ([\w-]+)$/m;
+const HISTORY_SOURCES: HistoryCommitSource[] = ['pipeline', 'live-edit', 'repair', 'restore', 'manual', 'export'];
+
+export interface GitHistoryServiceOptions {
+  fs: HistoryFs;
+  /** Directory holding one repository per project (default '/') */
+  root?: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toAppPath(filepath: string): string {
+  return `/${filepath}`;
+}
+
+function formatMessage({ message, source }: CommitOptions): string {
+  return `${message.trim() || 'Update project'}\n\nSource: ${source}\n`;
+}
+
+function toHistoryCommit(entry: git.ReadCommitResult): HistoryCommit {
+  const { commit } = entry;
+  const trailer = commit.message.match(SOURCE_TRAILER_REGEX)?.[1] as HistoryCommitSource | undefined;
+
+  return {
+    oid: entry.oid,
+    shortOid: entry.oid.slice(0, 7),
+    message: commit.message.split('\n')[0],
+    source: trailer && HISTORY_SOURCES.includes(trailer) ? trailer : 'manual',
+    author: commit.author.name,
+    timestamp: commit.author.timestamp * 1000,
+    parents: commit.parent,
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class GitHistoryServiceInstance {
+  private readonly fs: HistoryFs;
+  private readonly root: string;
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  constructor(options: GitHistoryServiceOptions) {
+    this.fs = options.fs;
+    this.root = (options.root ?? '/').replace(/\/+$/, '');
+  }
+
+  /**
+   * Commit the project's files. Files missing from `files` are deleted from
+   * the tree. Returns null when nothing changed since the last commit.
+   */
+  commit(projectId: string, files: AppFile[], options: CommitOptions): Promise<HistoryCommit | null> {
+    return this.exclusive(projectId, async (dir) => {
+      await this.ensureRepo(dir);
+      if (!(await this.stage(dir, files))) {
+        return null;
+      }
+
+      const oid = await git.commit({ fs: this.fs, dir, message: formatMessage(options), author: BUILDER_AUTHOR });
+      return toHistoryCommit(await git.readCommit({ fs: this.fs, dir, oid }));
+    });
+  }
+
+  /**
+   * Commits reachable from `ref` (default: the current branch), newest first.
+   */
+  log(projectId: string, ref = 'HEAD', depth?: number): Promise<HistoryCommit[]> {
+    return this.exclusive(projectId, async (dir) => {
+      if (!(await this.hasRepo(dir))) return [];
+      try {
+        const entries = await git.log({ fs: this.fs, dir, ref, depth });
+        return entries.map(toHistoryCommit);
+      } catch (error) {
+        if (error instanceof git.Errors.NotFoundError) return [];
+        throw error;
+      }
+    });
+  }
+
+  listBranches(projectId: string): Promise<HistoryBranch[]> {
+    return this.exclusive(projectId, async (dir) => {
+      if (!(await this.hasRepo(dir))) return [];
+
+      const current = await git.currentBranch({ fs: this.fs, dir });
+      const names = await git.listBranches({ fs: this.fs, dir });
+      if (current && !names.includes(current)) names.unshift(current);
+
+      return Promise.all(
+        names.map(async (name) => ({
+          name,
+          headOid: await git.resolveRef({ fs: this.fs, dir, ref: name }).catch(() => null),
+          isCurrent: name === current,
+        }))
+      );
+    });
+  }
+
+  /**
+   * Create a branch at `startOid` (default: the current commit), switch to it
+   * and return its files.
+   */
+  async createBranch(projectId: string, name: string, startOid?: string): Promise<AppFile[]> {
+    await this.exclusive(projectId, async (dir) => {
+      if (!(await this.hasRepo(dir))) {
+        throw new Error(`[GitHistoryService] Project "${projectId}" has no history to branch from`);
+      }
+      await git.branch({ fs: this.fs, dir, ref: name, object: startOid });
+    });
+    return this.checkout(projectId, name);
+  }
+
+  /**
+   * Switch to a branch and return its files.
+   */
+  checkout(projectId: string, branch: string): Promise<AppFile[]> {
+    return this.exclusive(projectId, async (dir) => {
+      await git.checkout({ fs: this.fs, dir, ref: branch, force: true });
+      return this.readTree(dir, branch);
+    });
+  }
+
+  /**
+   * Files as of a commit.
+   */
+  readFiles(projectId: string, oid: string): Promise<AppFile[]> {
+    return this.exclusive(projectId, (dir) => this.readTree(dir, oid));
+  }
+
+  /**
+   * Per-file changes between two commits, ready for EnhancedDiffViewer.
+   * A null `fromOid` diffs against an empty tree.
+   */
+  diff(projectId: string, fromOid: string | null, toOid: string): Promise<FileChange[]> {
+    return this.exclusive(projectId, async (dir) => {
+      const before = new Map(
+        (fromOid ? await this.readTree(dir, fromOid) : []).map((f) => [f.path, f.content])
+      );
+      const after = new Map((await this.readTree(dir, toOid)).map((f) => [f.path, f.content]));
+      const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+
+      return paths.flatMap((path) => diffFileChange(path, before.get(path), after.get(path)) ?? []);
+    });
+  }
+
+  /**
+   * Restore the files of an earlier commit as a new commit on the current
+   * branch, so the restore itself stays in history.
+   */
+  async restore(projectId: string, oid: string): Promise<AppFile[]> {
+    const files = await this.readFiles(projectId, oid);
+    await this.commit(projectId, files, { message: `Restore ${oid.slice(0, 7)}`, source: 'restore' });
+    return files;
+  }
+
+  /**
+   * The repository's raw `.git` directory, for including in an export.
+   *
+   * Pass the exported files when they differ from the project's (export
+   * profiles move files and add configs): they are committed on top of the
+   * current branch so the export unzips as a clean working tree. The
+   * project's own branch and working tree are put back afterwards.
+   */
+  exportGitDirectory(projectId: string, exportedFiles?: AppFile[]): Promise<GitDirectoryFile[]> {
+    return this.exclusive(projectId, async (dir) => {
+      if (!(await this.hasRepo(dir))) return [];
+      const head = await git.resolveRef({ fs: this.fs, dir, ref: 'HEAD' }).catch(() => null);
+      if (!exportedFiles || !head) return this.readGitDirectory(dir);
+
+      const branch = await git.currentBranch({ fs: this.fs, dir });
+      const projectFiles = await this.readTree(dir, head);
+      try {
+        if (await this.stage(dir, exportedFiles)) {
+          await git.commit({
+            fs: this.fs,
+            dir,
+            message: formatMessage({ message: 'Export project', source: 'export' }),
+            author: BUILDER_AUTHOR,
+          });
+        }
+        return await this.readGitDirectory(dir);
+      } finally {
+        const ref = branch ? `refs/heads/${branch}` : 'HEAD';
+        await git.writeRef({ fs: this.fs, dir, ref, value: head, force: true });
+        await this.stage(dir, projectFiles);
+      }
+    });
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  /**
+   * Make the working tree and index match `files`. Returns whether the index
+   * now differs from HEAD.
+   */
+  private async stage(dir: string, files: AppFile[]): Promise<boolean> {
+    const written = await writeWorkingFiles(this.fs, dir, files);
+    for (const filepath of await git.listFiles({ fs: this.fs, dir })) {
+      if (written.has(filepath)) continue;
+      await this.fs.promises.unlink(`${dir}/${filepath}`).catch(() => undefined);
+      await git.remove({ fs: this.fs, dir, filepath });
+    }
+    if (written.size > 0) {
+      await git.add({ fs: this.fs, dir, filepath: [...written] });
+    }
+
+    const matrix = await git.statusMatrix({ fs: this.fs, dir });
+    return matrix.some(([, head, , stage]) => head !== stage);
+  }
+
+  private async readGitDirectory(dir: string): Promise<GitDirectoryFile[]> {
+    const output: GitDirectoryFile[] = [];
+    const walk = async (relative: string): Promise<void> => {
+      for (const name of await this.fs.promises.readdir(`${dir}/${relative}`)) {
+        const path = `${relative}/${name}`;
+        const stat = await this.fs.promises.stat(`${dir}/${path}`);
+        if (stat.isDirectory()) {
+          await walk(path);
+        } else {
+          const content = await this.fs.promises.readFile(`${dir}/${path}`);
+          output.push({
+            path,
+            content: typeof content === 'string' ? new TextEncoder().encode(content) : new Uint8Array(content),
+          });
+        }
+      }
+    };
+
+    await walk('.git');
+    return output.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Run `task` after every earlier task on the same repository has settled.
+   */
+  private exclusive<T>(projectId: string, task: (dir: string) => Promise<T>): Promise<T> {
+    const dir = repoDirectory(this.root, projectId);
+    const previous = this.queues.get(dir) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => task(dir));
+    this.queues.set(dir, run);
+    return run;
+  }
+
+  private async hasRepo(dir: string): Promise<boolean> {
+    try {
+      await this.fs.promises.stat(`${dir}/.git`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async ensureRepo(dir: string): Promise<void> {
+    if (await this.hasRepo(dir)) return;
+    await mkdirp(this.fs, dir);
+    await git.init({ fs: this.fs, dir, defaultBranch: DEFAULT_BRANCH });
+  }
+
+  private async readTree(dir: string, ref: string): Promise<AppFile[]> {
+    const oid = await git.resolveRef({ fs: this.fs, dir, ref }).catch(() => ref);
+    const paths = await git.listFiles({ fs: this.fs, dir, ref: oid });
+    const decoder = new TextDecoder();
+
+    return Promise.all(
+      paths.map(async (filepath) => {
+        const { blob } = await git.readBlob({ fs: this.fs, dir, oid, filepath });
+        return { path: toAppPath(filepath), content: decoder.decode(blob) };
+      })
+    );
+  }
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let _instance: Promise<GitHistoryServiceInstance> | null = null;
+
+/**
+ * Browser singleton backed by IndexedDB. lightning-fs is loaded on first use
+ * so server bundles never touch it.
+ */
+export function getGitHistoryService(): Promise<GitHistoryServiceInstance> {
+  if (!_instance) {
+    _instance = import('@isomorphic-git/lightning-fs').then(
+      ({ default: LightningFS }) =>
+        new GitHistoryServiceInstance({ fs: new LightningFS(FS_NAME) as unknown as HistoryFs })
+    );
+  }
+  return _instance;
+}
+
+/**
+ * Service over an explicit filesystem (tests, Node tooling).
+ */
+export function createGitHistoryService(options: GitHistoryServiceOptions): GitHistoryServiceInstance {
+  return new GitHistoryServiceInstance(options);
+}
+
+export type { GitHistoryServiceInstance, HistoryFs };
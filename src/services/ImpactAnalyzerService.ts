@@ -0,0 +1,440 @@
+/**
+ * Impact Analyzer Service
+ *
+ * Assesses proposed FileChange[] against the project they apply to
+ * (IImpactAnalyzer), for ImpactAnalysisPanel:
+ *
+ * 1. Affected files, components and routes — the changed files plus every
+ *    file that imports them transitively (DependencyGraphService).
+ * 2. Breaking changes — removed exports, changed function signatures,
+ *    component props and exported types, reported when a file outside the
+ *    change set imports the changed one; deleted files still imported.
+ * 3. Risk per change — diff size, dependents and breaking changes.
+ * 4. Suggested checks — project tests that cover the affected files, chaos
+ *    runs for affected UI (QA_ChaosAgent.analyzeUI) and affected API routes.
+ *
+ * Dependents are found in the project with the changes applied; deleted
+ * files are traced through the project as it was before them.
+ */
+
+import type { AppFile } from '@/types/railway';
+import type { DependencyGraph } from '@/types/dream';
+import type { FileAnalysis, PropInfo } from '@/types/codeContext';
+import type { ChangeCategory, FileChange, IImpactAnalyzer, ImpactAnalysis, RiskLevel } from '@/types/review';
+import { getCodeAnalysisService } from '@/services/codeAnalysis';
+import { getDependencyGraphService } from '@/services/DependencyGraphService';
+import { getQAChaosAgent } from '@/agents/QA_ChaosAgent';
+import { categorizePath } from '@/utils/lineDiff';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Transitive dependents at which a change becomes high risk */
+const HIGH_RISK_DEPENDENTS = 5;
+/** Importers named in a breaking-change message before summarizing */
+const MAX_LISTED_IMPORTERS = 3;
+
+const RISK_RANK: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+const TEST_FILE_REGEX = /(\.(test|spec)\.[cm]?[jt]sx?$)|(\/__tests__\/)/;
+const PAGE_FILE_REGEX = /\/app((?:\/[^/]+)*)\/(page|layout)\.[jt]sx?$/;
+const PAGES_ROUTER_REGEX = /\/pages((?:\/[^/]+)*)\/([^/]+)\.[jt]sx?$/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function maxRisk(...levels: RiskLevel[]): RiskLevel {
+  return levels.reduce((max, level) => (RISK_RANK[level] > RISK_RANK[max] ? level : max), 'low');
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** Page route a file renders, or null: /app/(shop)/cart/page.tsx → /cart */
+function pageRoute(path: string): string | null {
+  const app = PAGE_FILE_REGEX.exec(path);
+  if (app) {
+    const segments = app[1].split('/').filter((s) => s && !/^\(.*\)$/.test(s) && !s.startsWith('@'));
+    return '/' + segments.join('/');
+  }
+  const pages = PAGES_ROUTER_REGEX.exec(path);
+  if (pages && !pages[2].startsWith('_') && !pages[1].startsWith('/api')) {
+    const segments = [...pages[1].split('/').filter(Boolean), ...(pages[2] === 'index' ? [] : [pages[2]])];
+    return '/' + segments.join('/');
+  }
+  return null;
+}
+
+/** npm package an import source names: @scope/pkg/sub → @scope/pkg */
+function packageName(source: string): string {
+  const parts = source.split('/');
+  return source.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+function packageDependencies(content: string | undefined): Map<string, string> {
+  if (!content) return new Map();
+  try {
+    const pkg = JSON.parse(content) as Record<string, unknown>;
+    const entries = ['dependencies', 'devDependencies', 'peerDependencies'].flatMap((field) =>
+      Object.entries((pkg[field] as Record<string, string> | undefined) ?? {})
+    );
+    return new Map(entries);
+  } catch {
+    return new Map();
+  }
+}
+
+/** Prop changes that break existing callers: removed, retyped or newly required */
+function breakingPropChanges(before: PropInfo[], after: PropInfo[]): string[] {
+  const next = new Map(after.map((p) => [p.name, p]));
+  const previous = new Set(before.map((p) => p.name));
+  const changes: string[] = [];
+
+  for (const prop of before) {
+    const updated = next.get(prop.name);
+    if (!updated) changes.push(`removed prop ${prop.name}`);
+    else if (normalize(updated.type) !== normalize(prop.type)) changes.push(`prop ${prop.name} is now ${updated.type}`);
+    else if (updated.required && !prop.required) changes.push(`prop ${prop.name} is now required`);
+  }
+  for (const prop of after) {
+    if (!previous.has(prop.name) && prop.required) changes.push(`new required prop ${prop.name}`);
+  }
+  return changes;
+}
+
+/** Exported-API differences between two analyses of the same file */
+function exportChanges(before: FileAnalysis, after: FileAnalysis): string[] {
+  const changes: string[] = [];
+  const key = (e: { name: string; isDefault: boolean }) => (e.isDefault ? 'default' : e.name);
+  const label = (e: { name: string; isDefault: boolean }) => (e.isDefault ? 'default export' : e.name);
+  const nextExports = new Map(after.exports.map((e) => [key(e), e]));
+
+  for (const previous of before.exports) {
+    const next = nextExports.get(key(previous));
+    if (!next) {
+      changes.push(`removed export ${label(previous)}`);
+    } else if (previous.signature && next.signature && normalize(previous.signature) !== normalize(next.signature)) {
+      changes.push(`signature of ${label(previous)} changed from ${previous.signature} to ${next.signature}`);
+    } else if (
+      previous.typeSignature &&
+      next.typeSignature &&
+      normalize(previous.typeSignature) !== normalize(next.typeSignature)
+    ) {
+      changes.push(`exported ${previous.kind} ${previous.name} changed`);
+    }
+  }
+
+  const exported = new Set(before.exports.map((e) => e.name));
+  const nextComponents = new Map(after.components.map((c) => [c.name, c]));
+  for (const component of before.components) {
+    const next = nextComponents.get(component.name);
+    if (!next || !(component.isDefault || exported.has(component.name))) continue;
+    for (const change of breakingPropChanges(component.props, next.props)) {
+      changes.push(`<${component.name}>: ${change}`);
+    }
+  }
+
+  return changes;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class ImpactAnalyzerServiceInstance implements IImpactAnalyzer {
+  private readonly files: AppFile[];
+  private beforeGraph: DependencyGraph | null = null;
+  /** Graph of the project with a change set applied, per change set */
+  private readonly afterGraphs = new WeakMap<FileChange[], DependencyGraph>();
+
+  /**
+   * @param files - The project's files before the changes are applied
+   */
+  constructor(files: AppFile[]) {
+    this.files = files;
+  }
+
+  async analyzeChanges(changes: FileChange[]): Promise<ImpactAnalysis> {
+    const changed = changes.map((c) => c.path);
+    const dependencies = this.dependencyChanges(changes);
+
+    return {
+      filesAffected: [...new Set([...changed, ...this.affectedFiles(changes)])],
+      componentsAffected: this.findAffectedComponents(changes),
+      routesAffected: this.findAffectedRoutes(changes),
+      breakingChanges: this.detectBreakingChanges(changes),
+      suggestedTests: this.suggestTests(changes),
+      overallRisk: maxRisk(...changes.map((c) => this.riskOf(c, changes))),
+      dependencies,
+    };
+  }
+
+  /**
+   * Category of a change from its path, then from the changed lines:
+   * imports/exports are structure, class names and style props styling,
+   * bare JSX text content; anything else is logic.
+   */
+  categorizeChange(content: string, filePath: string): ChangeCategory {
+    const byPath = categorizePath(filePath);
+    if (byPath !== 'logic') return byPath;
+
+    const counts: Record<ChangeCategory, number> = {
+      structure: 0,
+      styling: 0,
+      logic: 0,
+      content: 0,
+      configuration: 0,
+      dependencies: 0,
+    };
+    for (const raw of content.split('\n')) {
+      const line = raw.trim();
+      if (!line || line.startsWith('//') || line.startsWith('*') || line.startsWith('/*')) continue;
+      if (/^(import|export)\b.*\bfrom\b|^import\s+['"]/.test(line)) counts.structure++;
+      else if (/\b(className|class|style)=|^[\w-]+:\s*[^;]+;$|\b(tw|cn|clsx)\(/.test(line)) counts.styling++;
+      else if (/^(<\w[^>]*>)?[^<>{}()=;]*(<\/\w+>)?$/.test(line) && /[A-Za-z]{2}/.test(line)) counts.content++;
+      else counts.logic++;
+    }
+
+    const [top] = (Object.entries(counts) as Array<[ChangeCategory, number]>).sort((a, b) => b[1] - a[1]);
+    return top[1] > 0 && top[1] > counts.logic ? top[0] : 'logic';
+  }
+
+  assessRisk(change: FileChange): RiskLevel {
+    return this.riskOf(change, [change]);
+  }
+
+
+  findAffectedComponents(changes: FileChange[]): string[] {
+    const analysis = getCodeAnalysisService();
+    const after = new Map(this.filesAfter(changes).map((f) => [f.path, f]));
+    const before = new Map(this.files.map((f) => [f.path, f]));
+    const components = new Set<string>();
+
+    for (const path of [...changes.map((c) => c.path), ...this.affectedFiles(changes)]) {
+      const file = after.get(path) ?? before.get(path);
+      if (!file) continue;
+      for (const component of analysis.analyzeFile(file).components) components.add(component.name);
+    }
+    return [...components];
+  }
+
+  /** Pages and API endpoints served by the changed files or their importers */
+  findAffectedRoutes(changes: FileChange[]): string[] {
+    const analysis = getCodeAnalysisService();
+    const after = new Map(this.filesAfter(changes).map((f) => [f.path, f]));
+    const routes = new Set<string>();
+
+    for (const path of [...changes.map((c) => c.path), ...this.affectedFiles(changes)]) {
+      const page = pageRoute(path);
+      if (page) routes.add(page);
+      const file = after.get(path);
+      if (!file) continue;
+      for (const endpoint of analysis.analyzeFile(file).apiEndpoints) {
+        routes.add(`${endpoint.method} ${endpoint.path}`);
+      }
+    }
+    return [...routes];
+  }
+
+  detectBreakingChanges(changes: FileChange[]): string[] {
+    return changes.flatMap((change) => this.breakingChangesFor(change, changes));
+  }
+
+  suggestTests(changes: FileChange[]): string[] {
+    const affected = new Set([...changes.map((c) => c.path), ...this.affectedFiles(changes)]);
+    const filesAfter = this.filesAfter(changes);
+    const suggestions: string[] = [];
+
+    // Tests reach the code they cover through imports, so they are among the dependents
+    const tests = filesAfter.filter((f) => TEST_FILE_REGEX.test(f.path));
+    const coveringTests = tests.filter((t) => affected.has(t.path));
+    for (const test of coveringTests) suggestions.push(`Re-run ${test.path}`);
+
+    const uiFiles = filesAfter.filter((f) => affected.has(f.path) && !TEST_FILE_REGEX.test(f.path));
+    const elementsByFile = new Map<string, number>();
+    for (const element of getQAChaosAgent().analyzeUI(uiFiles)) {
+      elementsByFile.set(element.file, (elementsByFile.get(element.file) ?? 0) + 1);
+    }
+    for (const [file, count] of elementsByFile) {
+      suggestions.push(`Run chaos fuzzing on ${file} (${count} interactive element(s))`);
+    }
+
+    for (const route of this.findAffectedRoutes(changes)) {
+      if (route.includes(' ')) suggestions.push(`Exercise ${route}`);
+    }
+
+    if (coveringTests.length === 0) {
+      for (const change of changes) {
+        if (change.action !== 'delete' && change.category === 'logic' && !TEST_FILE_REGEX.test(change.path)) {
+          suggestions.push(`Add tests for ${change.path} (no test covers it)`);
+        }
+      }
+    }
+
+    return suggestions;
+  }
+
+  // ==========================================================================
+  // PRIVATE
+  // ==========================================================================
+
+  /** Project files with every change applied in full */
+  private filesAfter(changes: FileChange[]): AppFile[] {
+    const byPath = new Map(changes.map((c) => [c.path, c]));
+    const files = this.files.flatMap((file) => {
+      const change = byPath.get(file.path);
+      if (!change) return [file];
+      return change.modifiedContent === undefined ? [] : [{ path: file.path, content: change.modifiedContent }];
+    });
+    const existing = new Set(this.files.map((f) => f.path));
+    for (const change of changes) {
+      if (!existing.has(change.path) && change.modifiedContent !== undefined) {
+        files.push({ path: change.path, content: change.modifiedContent });
+      }
+    }
+    return files;
+  }
+
+  private graphBefore(): DependencyGraph {
+    this.beforeGraph ??= getDependencyGraphService().buildGraph(this.files);
+    return this.beforeGraph;
+  }
+
+  private graphAfter(changes: FileChange[]): DependencyGraph {
+    let graph = this.afterGraphs.get(changes);
+    if (!graph) {
+      graph = getDependencyGraphService().buildGraph(this.filesAfter(changes));
+      this.afterGraphs.set(changes, graph);
+    }
+    return graph;
+  }
+
+  /** Transitive importers of a change, excluding files in the change set */
+  private dependentsOf(change: FileChange, changes: FileChange[]): string[] {
+    const graph = change.action === 'delete' ? this.graphBefore() : this.graphAfter(changes);
+    const changed = new Set(changes.map((c) => c.path));
+    return graph.getImpacted(change.path).filter((path) => !changed.has(path));
+  }
+
+  private affectedFiles(changes: FileChange[]): string[] {
+    return [...new Set(changes.flatMap((change) => this.dependentsOf(change, changes)))];
+  }
+
+  private riskOf(change: FileChange, changes: FileChange[]): RiskLevel {
+    const dependents = this.dependentsOf(change, changes).length;
+    const breaking = this.breakingChangesFor(change, changes).length > 0;
+
+    return maxRisk(
+      change.riskLevel,
+      breaking || dependents >= HIGH_RISK_DEPENDENTS ? 'high' : 'low',
+      dependents > 0 || change.category === 'dependencies' || change.category === 'configuration' ? 'medium' : 'low'
+    );
+  }
+
+  /**
+   * Files outside the change set that import the changed file once the
+   * changes are applied (imports of a deleted file no longer resolve, so
+   * they are matched against its path directly).
+   */
+  private importersOf(change: FileChange, changes: FileChange[]): string[] {
+    const changed = new Set(changes.map((c) => c.path));
+    if (change.action !== 'delete') {
+      const importers = this.graphAfter(changes).nodes.get(change.path)?.importedBy ?? [];
+      return importers.filter((path) => !changed.has(path));
+    }
+
+    const analysis = getCodeAnalysisService();
+    const files = this.filesAfter(changes);
+    const knownPaths = new Set([...files.map((f) => f.path), change.path]);
+    return files
+      .filter((file) => !changed.has(file.path))
+      .filter((file) =>
+        analysis
+          .analyzeFile(file)
+          .imports.some((i) => !i.isExternal && analysis.resolveImport(i.source, file.path, knownPaths) === change.path)
+      )
+      .map((file) => file.path);
+  }
+
+  private breakingChangesFor(change: FileChange, changes: FileChange[]): string[] {
+    const importers = this.importersOf(change, changes);
+    if (importers.length === 0) return [];
+
+    const usedBy =
+      importers.length <= MAX_LISTED_IMPORTERS
+        ? importers.join(', ')
+        : `${importers.slice(0, MAX_LISTED_IMPORTERS).join(', ')} and ${importers.length - MAX_LISTED_IMPORTERS} more`;
+
+    if (change.action === 'delete') {
+      return [`${change.path} is deleted but imported by ${usedBy}`];
+    }
+    if (change.action !== 'modify' || change.originalContent === undefined || change.modifiedContent === undefined) {
+      return [];
+    }
+
+    const analysis = getCodeAnalysisService();
+    const previous = analysis.analyzeFile({ path: change.path, content: change.originalContent });
+    const next = analysis.analyzeFile({ path: change.path, content: change.modifiedContent });
+    return exportChanges(previous, next).map((c) => `${change.path}: ${c} (imported by ${usedBy})`);
+  }
+
+  /** Package additions, removals and version changes, and newly imported packages */
+  private dependencyChanges(changes: FileChange[]): string[] {
+    const result: string[] = [];
+
+    for (const change of changes.filter((c) => /(^|\/)package\.json$/.test(c.path))) {
+      const before = packageDependencies(change.originalContent);
+      const after = packageDependencies(change.modifiedContent);
+      for (const [name, version] of after) {
+        const previous = before.get(name);
+        if (previous === undefined) result.push(`${name}@${version} (added)`);
+        else if (previous !== version) result.push(`${name} ${previous} → ${version}`);
+      }
+      for (const name of before.keys()) {
+        if (!after.has(name)) result.push(`${name} (removed)`);
+      }
+    }
+
+    const analysis = getCodeAnalysisService();
+    const packagesIn = (path: string, content: string | undefined) =>
+      content === undefined
+        ? new Set<string>()
+        : new Set(
+            analysis
+              .analyzeFile({ path, content })
+              .imports.filter((i) => i.isExternal)
+              .map((i) => packageName(i.source))
+          );
+    const imported = new Set<string>();
+    for (const change of changes) {
+      const previous = packagesIn(change.path, change.originalContent);
+      for (const name of packagesIn(change.path, change.modifiedContent)) {
+        if (!previous.has(name)) imported.add(name);
+      }
+    }
+    for (const name of imported) {
+      if (!result.some((entry) => entry.startsWith(`${name}@`) || entry.startsWith(`${name} `))) {
+        result.push(`${name} (newly imported)`);
+      }
+    }
+
+    return result;
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Analyzer for changes to one project.
+ *
+ * @param files - The project's files before the changes are applied
+ */
+export function createImpactAnalyzer(files: AppFile[]): ImpactAnalyzerServiceInstance {
+  return new ImpactAnalyzerServiceInstance(files);
+}
+
+export type { ImpactAnalyzerServiceInstance };
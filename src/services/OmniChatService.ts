@@ -14,7 +14,6 @@
  *   - actionPayload: Refined instructions for the action
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import type {
   OmniChatRequest,
   OmniChatResponse,
@@ -23,13 +22,13 @@ import type {
   AppContext,
 } from '@/types/titanPipeline';
 import { getSkillLibraryService } from './SkillLibraryService';
+import { getModelGateway } from './modelGateway';
 import type { SkillMatch } from '@/types/skillLibrary';
 
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
 
-const CLAUDE_SONNET_MODEL = 'claude-sonnet-4-5-20250929';
 const MAX_CODE_PREVIEW_LINES = 200;
 /**
  * Maximum number of history messages to include in the LLM context.
@@ -40,12 +39,6 @@ const MAX_CODE_PREVIEW_LINES = 200;
  */
 const MAX_HISTORY_MESSAGES = 20;
 
-function getAnthropicApiKey(): string {
-  const key = process.env.ANTHROPIC_API_KEY;
-  if (!key) throw new Error('Anthropic API key missing');
-  return key;
-}
-
 // ============================================================================
 // SYSTEM PROMPT
 // ============================================================================
@@ -268,18 +261,7 @@ function validateResponse(parsed: Record<string, unknown>): OmniChatResponse {
 // ============================================================================
 
 class OmniChatServiceInstance {
-  private anthropicClient: Anthropic | null = null;
-
-  private getClient(): Anthropic {
-    if (!this.anthropicClient) {
-      this.anthropicClient = new Anthropic({ apiKey: getAnthropicApiKey() });
-    }
-    return this.anthropicClient;
-  }
-
   async chat(request: OmniChatRequest): Promise<OmniChatResponse> {
-    const anthropic = this.getClient();
-
     // Query skill library for cached solutions before calling Claude
     let skillContext = '';
     let cachedSkillMatch: SkillMatch | null = null;
@@ -301,15 +283,11 @@ class OmniChatServiceInstance {
     const systemPrompt = buildSystemPrompt(request.currentCode, request.appContext) + skillContext;
     const messages = buildMessages(request.conversationHistory, request.message);
 
-    const msg = await anthropic.messages.create({
-      model: CLAUDE_SONNET_MODEL,
-      max_tokens: 2048,
+    const { text } = await getModelGateway().generate({
+      step: 'omniChat',
       system: systemPrompt,
       messages,
     });
-
-    const firstBlock = msg.content[0];
-    const text = firstBlock && firstBlock.type === 'text' ? firstBlock.text : '';
     const response = parseResponse(text);
 
     // If the AI chose to use a cached skill's solution, inject skillId and increment usage
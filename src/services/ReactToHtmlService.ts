@@ -9,7 +9,8 @@
  * build step — the HTML document is self-contained and renders
  * the React components client-side.
  *
- * Server-side only — used by VisualCriticService and the critique API.
+ * Server-side only — used by VisualCriticService, the critique API and
+ * the static HTML export profile.
  */
 
 import type { AppFile } from '@/types/railway';
@@ -30,6 +31,16 @@ const TAILWIND_CDN = 'https://cdn.tailwindcss.com';
 /** Default viewport dimensions for screenshot rendering */
 const DEFAULT_SCREENSHOT_VIEWPORT = { width: 1280, height: 800 };
 
+export interface StandaloneHtmlOptions {
+  /** Document title (default: "Visual Critic Preview") */
+  title?: string;
+  /**
+   * Size the page to the browser window and let it scroll, instead of
+   * pinning it to the screenshot viewport (used for static site export)
+   */
+  responsive?: boolean;
+}
+
 // ============================================================================
 // SERVICE
 // ============================================================================
@@ -48,8 +59,16 @@ class ReactToHtmlServiceInstance {
    */
   buildStandaloneHtml(
     files: AppFile[],
-    viewport: { width: number; height: number } = DEFAULT_SCREENSHOT_VIEWPORT
+    viewport: { width: number; height: number } = DEFAULT_SCREENSHOT_VIEWPORT,
+    options: StandaloneHtmlOptions = {}
   ): string {
+    const title = (options.title ?? 'Visual Critic Preview').replace(/[<>&]/g, '');
+    const pageSize = options.responsive
+      ? 'min-height: 100%;'
+      : `width: ${viewport.width}px;
+      height: ${viewport.height}px;
+      overflow: hidden;`;
+
     // Find the main App file
     const appFile = files.find(
       (f) => f.path.endsWith('App.tsx') || f.path.endsWith('App.jsx')
@@ -63,20 +82,26 @@ class ReactToHtmlServiceInstance {
     // keep the component code intact for Babel to transpile
     const processedCode = this.processCodeForBrowser(appFile.content);
 
-    // Collect any additional component files
-    const additionalComponents = files
-      .filter((f) => f !== appFile && (f.path.endsWith('.tsx') || f.path.endsWith('.jsx')))
-      .filter((f) => !f.path.endsWith('index.tsx') && !f.path.endsWith('main.tsx'));
+    // Collect additional modules: support modules (theme/tokens) load before
+    // components so their exports exist when sections evaluate. Barrels and
+    // entry files are skipped — every export is published as a window global.
+    const isModule = (f: AppFile) => /\.(tsx|jsx|ts|js)$/.test(f.path) && !f.path.endsWith('.d.ts');
+    const isSkipped = (f: AppFile) => /\/(index|main|inspector)\.(tsx|jsx|ts|js)$/.test(f.path);
+    const additionalModules = files
+      .filter((f) => f !== appFile && isModule(f) && !isSkipped(f))
+      .sort((a, b) => Number(/x$/.test(a.path)) - Number(/x$/.test(b.path)));
 
-    const additionalScripts = additionalComponents
+    const additionalScripts = additionalModules
       .map((f) => {
         const processed = this.processCodeForBrowser(f.content);
+        const exportedNames = this.extractExportedNames(f.content);
         const componentName = this.extractComponentName(f.path);
+        if (exportedNames.length === 0 && componentName) exportedNames.push(componentName);
         return `
     <script type="text/babel" data-type="module" data-presets="react,typescript">
-      // Component: ${f.path}
+      // Module: ${f.path}
       ${processed}
-      ${componentName ? `window.${componentName} = ${componentName};` : ''}
+      ${exportedNames.map((name) => `window.${name} = ${name};`).join('\n      ')}
     </script>`;
       })
       .join('\n');
@@ -86,7 +111,7 @@ class ReactToHtmlServiceInstance {
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Visual Critic Preview</title>
+  <title>${title}</title>
 
   <!-- Tailwind CSS -->
   <script src="${TAILWIND_CDN}"></script>
@@ -99,9 +124,7 @@ class ReactToHtmlServiceInstance {
   <style>
     *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
     html, body {
-      width: ${viewport.width}px;
-      height: ${viewport.height}px;
-      overflow: hidden;
+      ${pageSize}
       font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
       -webkit-font-smoothing: antialiased;
     }
@@ -230,9 +253,9 @@ class ReactToHtmlServiceInstance {
       'const cn = window.cn; const clsx = window.clsx; const twMerge = window.twMerge;'
     );
 
-    // Remove remaining relative imports (./components, etc.) — they'll be window globals
+    // Remove remaining relative imports (./components, ../theme, etc.) — they'll be window globals
     processed = processed.replace(
-      /import\s+(?:(?:\{[^}]*\})|(?:\w+))?\s*(?:,\s*\{[^}]*\})?\s*from\s*['"]\.\/[^'"]*['"]\s*;?/g,
+      /import\s+(?:type\s+)?(?:(?:\{[^}]*\})|(?:\w+))?\s*(?:,\s*\{[^}]*\})?\s*from\s*['"]\.{1,2}\/[^'"]*['"]\s*;?/g,
       '// Local import removed (component available as global)'
     );
 
@@ -255,6 +278,18 @@ class ReactToHtmlServiceInstance {
     return processed;
   }
 
+  /**
+   * Names declared with `export` (functions, consts, classes) in a module.
+   */
+  private extractExportedNames(code: string): string[] {
+    const names = new Set<string>();
+    const pattern = /^export\s+(?:default\s+)?(?:async\s+)?(?:function|const|let|class)\s+(\w+)/gm;
+    for (const match of code.matchAll(pattern)) {
+      names.add(match[1]);
+    }
+    return [...names];
+  }
+
   /**
    * Extract component name from file path.
    */
@@ -1,28 +1,51 @@
 /**
  * Repo Loader Service
  *
- * Downloads a GitHub repository as a ZIP archive via the GitHub API,
- * extracts it in memory using JSZip, and converts it to a WebContainer
- * FileSystemTree for mounting.
+ * Loads a repository from any RepoSource — GitHub (public or with a token),
+ * GitLab and Gitea archive endpoints, an uploaded zip, a local folder via the
+ * File System Access API, or a shallow git smart-HTTP clone — and converts it
+ * to a WebContainer FileSystemTree for mounting plus AppFile[] for analysis.
  *
- * This bypasses the need for git clone (which WebContainers don't support)
- * by using the "Zip-Mount Protocol": GitHub API → ZIP → JSZip → FileSystemTree.
+ * Each source only yields entries (see services/repoSources); include/exclude
+ * globs, binary detection and size limits are applied here, identically for
+ * every source.
  *
- * Server/client agnostic — works in both browser and Node.js contexts.
+ * Server/client agnostic — works in both browser and Node.js contexts. Git
+ * clones default to lightning-fs + fetch in the browser; elsewhere call
+ * configureGitTransport() first.
  */
 
-import JSZip from 'jszip';
 import type { FileSystemTree, DirectoryNode, FileNode } from '@webcontainer/api';
+import { logger } from '@/utils/logger';
 import type { AppFile } from '@/types/railway';
 import type { RepoContext } from '@/types/titanPipeline';
+import type { HistoryFs } from '@/types/gitHistory';
+import type {
+  RepoLoadOptions,
+  RepoLoadResult,
+  RepoSource,
+  RepoSourceKind,
+  RepoSourceReader,
+} from '@/types/repoSource';
 import { getRepoAnalyst } from '@/services/titanPipeline';
+import {
+  githubArchiveReader,
+  gitlabArchiveReader,
+  giteaArchiveReader,
+  zipUploadReader,
+  directoryReader,
+  createGitCloneReader,
+  describeRepoSource,
+  type GitTransport,
+} from '@/services/repoSources';
+import { matchesAnyGlob } from '@/utils/glob';
 
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
 
-/** Files/directories to skip when extracting */
-const SKIP_PATTERNS = [
+/** Globs skipped unless `defaultExcludes: false` */
+const DEFAULT_EXCLUDES = [
   'node_modules',
   '.git',
   '.next',
@@ -32,13 +55,16 @@ const SKIP_PATTERNS = [
   '.DS_Store',
   'Thumbs.db',
   '.env',
-  '.env.local',
-  '.env.production',
+  '.env.*',
 ];
 
 /** Maximum file size to extract (5MB) — skip large binaries */
 const MAX_FILE_SIZE = 5 * 1024 * 1024;
 
+/** Stop extracting after this many bytes / files */
+const MAX_TOTAL_SIZE = 50 * 1024 * 1024;
+const MAX_FILES = 5000;
+
 /** File extensions to treat as binary (skip content extraction) */
 const BINARY_EXTENSIONS = new Set([
   '.png', '.jpg', '.jpeg', '.gif', '.ico', '.svg', '.webp', '.avif',
@@ -49,109 +75,117 @@ const BINARY_EXTENSIONS = new Set([
   '.exe', '.dll', '.so', '.dylib',
 ]);
 
+type ReaderMap = { [K in RepoSourceKind]: RepoSourceReader<Extract<RepoSource, { kind: K }>> };
+
 // ============================================================================
 // SERVICE
 // ============================================================================
 
 class RepoLoaderServiceInstance {
-  /**
-   * Download a GitHub repository and convert it to a WebContainer FileSystemTree.
-   *
-   * @param repoUrl - Repository in "owner/repo" format (e.g., "vercel/next.js")
-   * @param token - GitHub Personal Access Token (required for private repos)
-   * @param branch - Branch to download (default: main)
-   * @returns FileSystemTree ready to mount in WebContainer
-   */
-  async loadRepo(
-    repoUrl: string,
-    token?: string,
-    branch: string = 'main'
-  ): Promise<FileSystemTree> {
-    console.log(`[RepoLoader] Fetching repo: ${repoUrl} (branch: ${branch})`);
-
-    // 1. Fetch the ZIP archive via GitHub API
-    const headers: Record<string, string> = {
-      Accept: 'application/vnd.github.v3+json',
-    };
-    if (token) {
-      headers.Authorization = `Bearer ${token}`;
-    }
+  private gitTransport: Promise<GitTransport> | null = null;
 
-    const response = await fetch(
-      `https://api.github.com/repos/${repoUrl}/zipball/${branch}`,
-      { headers }
-    );
+  private readonly readers: ReaderMap = {
+    github: githubArchiveReader,
+    gitlab: gitlabArchiveReader,
+    gitea: giteaArchiveReader,
+    zip: zipUploadReader,
+    directory: directoryReader,
+    git: createGitCloneReader(() => this.getGitTransport()),
+  };
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unknown error');
-      throw new Error(
-        `Failed to fetch repo ${repoUrl}: ${response.status} ${response.statusText}. ${errorText}`
-      );
-    }
-
-    // 2. Unzip in memory
-    const blob = await response.blob();
-    const zip = await JSZip.loadAsync(blob);
-
-    console.log('[RepoLoader] Unzipping and building file tree...');
+  /**
+   * Set the fs and HTTP client used for `git` sources (Node, tests).
+   */
+  configureGitTransport(transport: GitTransport): void {
+    this.gitTransport = Promise.resolve(transport);
+  }
 
-    // 3. Convert ZIP entries to FileSystemTree
+  /**
+   * Load any repository source.
+   */
+  async loadFromSource(source: RepoSource, options: RepoLoadOptions = {}): Promise<RepoLoadResult> {
+    const label = describeRepoSource(source);
+    logger.debug('[RepoLoader] Loading source', { kind: source.kind, source: label });
+
+    const maxFileSize = options.maxFileSize ?? MAX_FILE_SIZE;
+    const maxTotalSize = options.maxTotalSize ?? MAX_TOTAL_SIZE;
+    const maxFiles = options.maxFiles ?? MAX_FILES;
+    const excludes = [...(options.defaultExcludes === false ? [] : DEFAULT_EXCLUDES), ...(options.exclude ?? [])];
+    const isExcluded = (path: string) => matchesAnyGlob(path, excludes);
+    const isIncluded = (path: string) => !options.include?.length || matchesAnyGlob(path, options.include);
+
+    const reader = this.readers[source.kind] as unknown as RepoSourceReader;
+    const decoder = new TextDecoder();
     const tree: FileSystemTree = {};
-    let fileCount = 0;
-    let skippedCount = 0;
+    const files: AppFile[] = [];
+    const stats = { fileCount: 0, skippedCount: 0, totalBytes: 0, truncated: false };
 
-    for (const [relativePath, zipEntry] of Object.entries(zip.files)) {
-      // Skip directories (we create them implicitly)
-      if (zipEntry.dir) continue;
+    for await (const entry of reader.entries(source, isExcluded)) {
+      if (isExcluded(entry.path) || !isIncluded(entry.path) || BINARY_EXTENSIONS.has(this.getExtension(entry.path))) {
+        stats.skippedCount++;
+        continue;
+      }
+
+      // Check the declared size before reading to avoid OOM on large files
+      if (entry.size !== undefined && entry.size > maxFileSize) {
+        console.warn(`[RepoLoader] Skipping large file (pre-check): ${entry.path} (${entry.size} bytes)`);
+        stats.skippedCount++;
+        continue;
+      }
 
-      // GitHub ZIPs have a root folder wrapper: "owner-repo-sha/"
-      // Strip it to get the actual repo file paths
-      const cleanPath = relativePath.split('/').slice(1).join('/');
-      if (!cleanPath) continue;
+      if (stats.fileCount >= maxFiles) {
+        stats.truncated = true;
+        break;
+      }
 
-      // Skip files matching skip patterns
-      if (this.shouldSkip(cleanPath)) {
-        skippedCount++;
+      const bytes = await entry.read();
+      if (bytes.length > maxFileSize) {
+        console.warn(`[RepoLoader] Skipping large file: ${entry.path} (${bytes.length} bytes)`);
+        stats.skippedCount++;
         continue;
       }
+      if (stats.totalBytes + bytes.length > maxTotalSize) {
+        stats.truncated = true;
+        break;
+      }
 
-      // Skip binary files
-      const ext = this.getExtension(cleanPath);
-      if (BINARY_EXTENSIONS.has(ext)) {
-        skippedCount++;
+      const content = decoder.decode(bytes);
+      // NUL bytes mean a binary file without a known extension
+      if (content.includes('\u0000')) {
+        stats.skippedCount++;
         continue;
       }
 
-      try {
-        // Check uncompressed size before extraction to avoid OOM on large files.
-        // JSZip's _data.uncompressedSize is undocumented but reliable.
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const uncompressedSize = (zipEntry as any)._data?.uncompressedSize;
-        if (typeof uncompressedSize === 'number' && uncompressedSize > MAX_FILE_SIZE) {
-          console.warn(`[RepoLoader] Skipping large file (pre-check): ${cleanPath} (${uncompressedSize} bytes)`);
-          skippedCount++;
-          continue;
-        }
+      this.addToTree(tree, entry.path, content);
+      files.push({ path: `/${entry.path}`, content });
+      stats.fileCount++;
+      stats.totalBytes += bytes.length;
+    }
 
-        const content = await zipEntry.async('string');
-        // Fallback size check for when _data wasn't available
-        if (content.length > MAX_FILE_SIZE) {
-          console.warn(`[RepoLoader] Skipping large file: ${cleanPath} (${content.length} bytes)`);
-          skippedCount++;
-          continue;
-        }
-        this.addToTree(tree, cleanPath, content);
-        fileCount++;
-      } catch {
-        // Binary file that can't be read as string — skip
-        skippedCount++;
-      }
+    if (stats.truncated) {
+      console.warn(
+        `[RepoLoader] Stopped at ${stats.fileCount} files / ${stats.totalBytes} bytes (limit reached)`
+      );
     }
+    logger.info('[RepoLoader] Extracted files', { source: label, files: stats.fileCount, skipped: stats.skippedCount });
 
-    console.log(
-      `[RepoLoader] Extracted ${fileCount} files (skipped ${skippedCount})`
-    );
+    return { tree, files, stats };
+  }
 
+  /**
+   * Download a GitHub repository and convert it to a WebContainer FileSystemTree.
+   *
+   * @param repoUrl - Repository in "owner/repo" format (e.g., "vercel/next.js")
+   * @param token - GitHub Personal Access Token (required for private repos)
+   * @param branch - Branch to download (default: main)
+   * @returns FileSystemTree ready to mount in WebContainer
+   */
+  async loadRepo(
+    repoUrl: string,
+    token?: string,
+    branch: string = 'main'
+  ): Promise<FileSystemTree> {
+    const { tree } = await this.loadFromSource({ kind: 'github', repo: repoUrl, token, ref: branch });
     return tree;
   }
 
@@ -180,6 +214,17 @@ class RepoLoaderServiceInstance {
     return files;
   }
 
+  /**
+   * Inverse of treeToAppFiles: build a FileSystemTree from AppFile[].
+   */
+  appFilesToTree(files: AppFile[]): FileSystemTree {
+    const tree: FileSystemTree = {};
+    for (const file of files) {
+      this.addToTree(tree, file.path.replace(/^\/+/, ''), file.content);
+    }
+    return tree;
+  }
+
   // ==========================================================================
   // EAGER ANALYSIS (Ultimate Developer Mode)
   // ==========================================================================
@@ -200,20 +245,38 @@ class RepoLoaderServiceInstance {
     token?: string,
     branch: string = 'main'
   ): Promise<{ tree: FileSystemTree; analysisPromise: Promise<RepoContext> }> {
+    const { tree, analysisPromise } = await this.loadSourceWithAnalysis({
+      kind: 'github',
+      repo: repoUrl,
+      token,
+      ref: branch,
+    });
+    return { tree, analysisPromise };
+  }
+
+  /**
+   * loadFromSource plus background analysis, cached per source and ref
+   * (see getCachedAnalysis).
+   */
+  async loadSourceWithAnalysis(
+    source: RepoSource,
+    options: RepoLoadOptions = {}
+  ): Promise<RepoLoadResult & { analysisPromise: Promise<RepoContext> }> {
     // Load the repo first (blocking)
-    const tree = await this.loadRepo(repoUrl, token, branch);
+    const result = await this.loadFromSource(source, options);
 
     // Start analysis in background (non-blocking)
-    const cacheKey = `${repoUrl}@${branch}`;
-    const analysisPromise = this.analyzeInBackground(tree, cacheKey);
+    const ref = 'ref' in source ? (source.ref ?? 'main') : 'local';
+    const cacheKey = `${describeRepoSource(source)}@${ref}`;
+    const analysisPromise = this.analyzeInBackground(result.files, cacheKey);
 
-    return { tree, analysisPromise };
+    return { ...result, analysisPromise };
   }
 
   /**
    * Run analysis in the background and cache the result.
    */
-  private async analyzeInBackground(tree: FileSystemTree, cacheKey: string): Promise<RepoContext> {
+  private async analyzeInBackground(files: AppFile[], cacheKey: string): Promise<RepoContext> {
     // Check cache first
     const cached = this.analysisCache.get(cacheKey);
     if (cached) {
@@ -232,7 +295,6 @@ class RepoLoaderServiceInstance {
     console.log(`[RepoLoader] Starting background analysis for ${cacheKey}...`);
     const analysisPromise = (async () => {
       try {
-        const files = this.treeToAppFiles(tree);
         const analyst = getRepoAnalyst();
         const context = await analyst.analyzeRepo(files);
 
@@ -273,18 +335,24 @@ class RepoLoaderServiceInstance {
   }
 
   /**
-   * Check if a file path should be skipped during extraction.
+   * Browser default for git sources: clones in IndexedDB, fetched over CORS.
    */
-  private shouldSkip(path: string): boolean {
-    const parts = path.split('/');
-    return parts.some((part) =>
-      SKIP_PATTERNS.some((pattern) => {
-        if (pattern.startsWith('.')) {
-          return part === pattern || part.startsWith(pattern);
-        }
-        return part === pattern;
-      })
-    );
+  private getGitTransport(): Promise<GitTransport> {
+    if (!this.gitTransport) {
+      if (typeof indexedDB === 'undefined') {
+        return Promise.reject(
+          new Error('[RepoLoader] git sources need configureGitTransport() outside the browser')
+        );
+      }
+      this.gitTransport = Promise.all([
+        import('@isomorphic-git/lightning-fs'),
+        import('isomorphic-git/http/web'),
+      ]).then(([{ default: LightningFS }, { default: http }]) => ({
+        fs: new LightningFS('ai-app-builder-clones') as unknown as HistoryFs,
+        http,
+      }));
+    }
+    return this.gitTransport;
   }
 
   /**
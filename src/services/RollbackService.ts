@@ -0,0 +1,200 @@
+/**
+ * Rollback Service
+ *
+ * Restore points for the hunk review workflow (IRollbackService). A restore
+ * point snapshots the project's files before approved changes are applied,
+ * so the whole project or a single file can be rolled back later.
+ *
+ * Points are kept newest first and pruned to `maxRestorePoints`. In the
+ * browser they persist per project in IndexedDB; tests pass an in-memory
+ * RestorePointStorage instead.
+ */
+
+import { openDB, type IDBPDatabase } from 'idb';
+import type { IRollbackService, RestorePoint, RestorePointStorage } from '@/types/review';
+import { DEFAULT_REVIEW_CONFIG } from '@/types/review';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DB_NAME = 'ai-app-builder-restore-points';
+const DB_VERSION = 1;
+const STORE_NAME = 'restorePoints';
+
+export interface RollbackServiceOptions {
+  storage: RestorePointStorage;
+  projectId: string;
+  maxRestorePoints?: number;
+}
+
+type SnapshotFile = { path: string; content: string };
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * IndexedDB storage: one record per project holding its restore points.
+ */
+function createIndexedDBStorage(): RestorePointStorage {
+  let dbPromise: Promise<IDBPDatabase> | null = null;
+  const getDB = () => {
+    if (!dbPromise) {
+      dbPromise = openDB(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'projectId' });
+          }
+        },
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    async load(projectId) {
+      const record = await (await getDB()).get(STORE_NAME, projectId);
+      return (record?.points as RestorePoint[] | undefined) ?? [];
+    },
+    async save(projectId, points) {
+      await (await getDB()).put(STORE_NAME, { projectId, points });
+    },
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class RollbackServiceInstance implements IRollbackService {
+  private readonly storage: RestorePointStorage;
+  private readonly projectId: string;
+  private maxRestorePoints: number;
+  private points: RestorePoint[] = [];
+
+  constructor(options: RollbackServiceOptions) {
+    this.storage = options.storage;
+    this.projectId = options.projectId;
+    this.maxRestorePoints = options.maxRestorePoints ?? DEFAULT_REVIEW_CONFIG.maxRestorePoints;
+  }
+
+  /** Load the project's persisted restore points (newest first). */
+  async load(): Promise<void> {
+    const points = await this.storage.load(this.projectId);
+    this.points = points
+      .map((p) => ({ ...p, timestamp: new Date(p.timestamp) }))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    this.pruneOldPoints();
+  }
+
+  async createRestorePoint(
+    label: string,
+    files: SnapshotFile[],
+    metadata: RestorePoint['metadata']
+  ): Promise<RestorePoint> {
+    const point: RestorePoint = {
+      id: `rp_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      label,
+      timestamp: new Date(),
+      files: files.map((f) => ({ path: f.path, content: f.content })),
+      metadata,
+    };
+    this.points.unshift(point);
+    this.pruneOldPoints();
+    await this.persist();
+    return point;
+  }
+
+  getRestorePoints(): RestorePoint[] {
+    return [...this.points];
+  }
+
+  async rollbackTo(pointId: string): Promise<SnapshotFile[]> {
+    return this.getPoint(pointId).files.map((f) => ({ ...f }));
+  }
+
+  /**
+   * The file as it was at the restore point, or null if it did not exist
+   * then (rolling back means deleting it).
+   */
+  async rollbackFile(pointId: string, filePath: string): Promise<SnapshotFile | null> {
+    const file = this.getPoint(pointId).files.find((f) => f.path === filePath);
+    return file ? { ...file } : null;
+  }
+
+  deleteRestorePoint(pointId: string): void {
+    const count = this.points.length;
+    this.points = this.points.filter((p) => p.id !== pointId);
+    if (this.points.length !== count) this.persistInBackground();
+  }
+
+  getMaxRestorePoints(): number {
+    return this.maxRestorePoints;
+  }
+
+  setMaxRestorePoints(max: number): void {
+    if (!Number.isInteger(max) || max < 1) {
+      throw new Error(`[RollbackService] maxRestorePoints must be a positive integer, got ${max}`);
+    }
+    this.maxRestorePoints = max;
+    if (this.points.length > max) {
+      this.pruneOldPoints();
+      this.persistInBackground();
+    }
+  }
+
+  /** Drop the oldest points beyond `maxRestorePoints`. */
+  pruneOldPoints(): void {
+    this.points = this.points.slice(0, this.maxRestorePoints);
+  }
+
+  private getPoint(pointId: string): RestorePoint {
+    const point = this.points.find((p) => p.id === pointId);
+    if (!point) {
+      throw new Error(`[RollbackService] Restore point not found: ${pointId}`);
+    }
+    return point;
+  }
+
+  private persist(): Promise<void> {
+    return this.storage.save(this.projectId, this.points);
+  }
+
+  private persistInBackground(): void {
+    this.persist().catch((err) => console.warn('[RollbackService] Failed to persist restore points:', err));
+  }
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+const _instances = new Map<string, Promise<RollbackServiceInstance>>();
+let _storage: RestorePointStorage | null = null;
+
+/**
+ * Browser service for one project, backed by IndexedDB and loaded on first use.
+ */
+export function getRollbackService(projectId: string): Promise<RollbackServiceInstance> {
+  let instance = _instances.get(projectId);
+  if (!instance) {
+    _storage ??= createIndexedDBStorage();
+    const service = new RollbackServiceInstance({ storage: _storage, projectId });
+    instance = service.load().then(() => service);
+    // A failed load should be retried on next use, not cached
+    instance.catch(() => _instances.delete(projectId));
+    _instances.set(projectId, instance);
+  }
+  return instance;
+}
+
+/**
+ * Service over an explicit storage (tests, Node tooling). Call `load()`
+ * before use to read previously saved points.
+ */
+export function createRollbackService(options: RollbackServiceOptions): RollbackServiceInstance {
+  return new RollbackServiceInstance(options);
+}
+
+export type { RollbackServiceInstance };
@@ -43,6 +43,8 @@ export interface HealingLoopInput {
   components?: DetectedComponentEnhanced[];
   /** Canvas background for code generation */
   canvasBackground?: string;
+  /** Aborts the loop between iterations and cancels in-flight screenshot requests */
+  signal?: AbortSignal;
 }
 
 export interface HealingLoopResult {
@@ -53,7 +55,13 @@ export interface HealingLoopResult {
   /** Number of iterations performed */
   iterations: number;
   /** Why the loop stopped */
-  stopReason: 'target_reached' | 'max_iterations' | 'diminishing_returns' | 'screenshot_failed' | 'error';
+  stopReason:
+    | 'target_reached'
+    | 'max_iterations'
+    | 'diminishing_returns'
+    | 'screenshot_failed'
+    | 'cancelled'
+    | 'error';
   /** History of each iteration */
   history: SelfHealingIteration[];
   /** Whether component-level patching was used (vs full regeneration) */
@@ -99,11 +107,23 @@ class VisionLoopEngine {
     let usedPatching = false;
 
     for (let i = 1; i <= this.config.maxIterations; i++) {
+      if (input.signal?.aborted) {
+        return {
+          files: currentFiles,
+          fidelityScore: lastScore,
+          iterations: i - 1,
+          stopReason: 'cancelled',
+          history,
+          usedPatching,
+          patchedComponents: currentComponents,
+        };
+      }
+
       console.log(`[VisionLoop] Iteration ${i}/${this.config.maxIterations}`);
 
       try {
         // 1. Screenshot the current code
-        const screenshot = await this.captureScreenshot(currentFiles);
+        const screenshot = await this.captureScreenshot(currentFiles, input.signal);
         if (!screenshot) {
           console.warn('[VisionLoop] Screenshot failed, stopping loop');
           return {
@@ -121,7 +141,8 @@ class VisionLoopEngine {
         const critique = await this.runCritique(
           input.originalImageBase64,
           screenshot,
-          currentComponents
+          currentComponents,
+          input.signal
         );
 
         console.log(`[VisionLoop] Iteration ${i}: fidelity=${critique.fidelityScore}, discrepancies=${critique.discrepancies.length}`);
@@ -211,7 +232,7 @@ class VisionLoopEngine {
           files: currentFiles,
           fidelityScore: lastScore,
           iterations: i,
-          stopReason: 'error',
+          stopReason: input.signal?.aborted ? 'cancelled' : 'error',
           history,
           usedPatching,
           patchedComponents: currentComponents,
@@ -260,7 +281,7 @@ class VisionLoopEngine {
       });
 
       // Screenshot and verify improvement
-      const patchedScreenshot = await this.captureScreenshot(patchedFiles);
+      const patchedScreenshot = await this.captureScreenshot(patchedFiles, input.signal);
       if (!patchedScreenshot) {
         console.warn('[VisionLoop] Patched screenshot failed, skipping Phase A');
         return null;
@@ -269,7 +290,8 @@ class VisionLoopEngine {
       const patchedCritique = await this.runCritique(
         input.originalImageBase64,
         patchedScreenshot,
-        fixResult.components
+        fixResult.components,
+        input.signal
       );
 
       // Only accept if patching actually improved fidelity
@@ -293,7 +315,7 @@ class VisionLoopEngine {
   /**
    * Convert files to HTML and capture a screenshot via the screenshot API.
    */
-  private async captureScreenshot(files: AppFile[]): Promise<string | null> {
+  private async captureScreenshot(files: AppFile[], signal?: AbortSignal): Promise<string | null> {
     try {
       const htmlService = getReactToHtmlService();
       const html = htmlService.buildStandaloneHtml(files, SCREENSHOT_VIEWPORT);
@@ -303,6 +325,7 @@ class VisionLoopEngine {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ html, viewport: SCREENSHOT_VIEWPORT }),
+        signal,
       });
 
       if (!response.ok) {
@@ -324,14 +347,16 @@ class VisionLoopEngine {
   private async runCritique(
     originalImage: string,
     generatedImage: string,
-    components?: DetectedComponentEnhanced[]
+    components?: DetectedComponentEnhanced[],
+    signal?: AbortSignal
   ): Promise<LayoutCritiqueEnhanced> {
     const layoutService = getGeminiLayoutService();
     return layoutService.critiqueLayoutEnhanced(
       originalImage,
       generatedImage,
       components || [],
-      this.config.targetFidelity
+      this.config.targetFidelity,
+      signal
     );
   }
 
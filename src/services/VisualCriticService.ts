@@ -13,7 +13,8 @@
  * Server-side only — called from the /api/layout/critique route.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { GoogleGenerativeAI } from '@google/generative-ai';
+import { MeteredGoogleGenerativeAI } from '@/services/modelGateway/meter';
 import { withGeminiRetry } from '@/utils/geminiRetry';
 import { getReactToHtmlService } from './ReactToHtmlService';
 import type { AppFile } from '@/types/railway';
@@ -160,7 +161,7 @@ class VisualCriticServiceInstance {
 
   private getGenAI(): GoogleGenerativeAI {
     if (!this.genAI) {
-      this.genAI = new GoogleGenerativeAI(getApiKey());
+      this.genAI = new MeteredGoogleGenerativeAI(getApiKey());
     }
     return this.genAI;
   }
@@ -16,7 +16,8 @@
  *   if (!result.valid) { // handle errors }
  */
 
-import { WebContainer } from '@webcontainer/api';
+import { WebContainer, type FileSystemTree } from '@webcontainer/api';
+import { logger } from '@/utils/logger';
 import type { AppFile } from '@/types/railway';
 import type {
   ValidationResult,
@@ -27,6 +28,8 @@ import type {
 import { extractDependencies } from '@/utils/extractDependencies';
 import { CURATED_VERSIONS } from '@/config/curated-versions';
 import { getRepoLoaderService } from './RepoLoaderService';
+import { describeRepoSource } from './repoSources';
+import type { RepoLoadOptions, RepoSource } from '@/types/repoSource';
 
 // ============================================================================
 // CONFIGURATION
@@ -343,9 +346,10 @@ class WebContainerServiceInstance {
     container: WebContainer,
     command: string,
     args: string[],
-    timeout: number
+    timeout: number,
+    cwd?: string
   ): Promise<ExecutionResult> {
-    const process = await container.spawn(command, args);
+    const process = await container.spawn(command, args, cwd ? { cwd } : undefined);
 
     let stdout = '';
     let stderr = '';
@@ -477,9 +481,15 @@ class WebContainerServiceInstance {
 
   /**
    * Execute a raw shell command in the container.
-   * Exposed for the Avatar Protocol (remote control).
+   * Exposed for the Avatar Protocol (remote control) and the Dream Mode
+   * sandbox pool, whose workers run from their own `cwd`.
    */
-  async executeShell(cmd: string, args: string[], timeout: number = 30000): Promise<{ output: string; exitCode: number }> {
+  async executeShell(
+    cmd: string,
+    args: string[],
+    timeout: number = 30000,
+    options: { cwd?: string } = {}
+  ): Promise<{ output: string; exitCode: number }> {
       if (!this.container) {
         if (!this.isSupported()) {
           return { output: 'WebContainer not supported in this environment', exitCode: 1 };
@@ -494,7 +504,7 @@ class WebContainerServiceInstance {
 
       this._status = 'running';
       try {
-          const result = await this.runCommand(this.container, cmd, args, timeout);
+          const result = await this.runCommand(this.container, cmd, args, timeout, options.cwd);
           const output = result.stdout + (result.stderr ? `\nERR: ${result.stderr}` : '');
 
           this._status = 'ready';
@@ -507,37 +517,60 @@ class WebContainerServiceInstance {
   }
 
   /**
-   * Mount a GitHub repository into the WebContainer.
-   * Downloads the repo as a ZIP, extracts it, mounts the file tree,
-   * and runs npm install.
+   * Mount a repository from any RepoSource into the WebContainer.
+   * Loads the source, mounts the file tree, and runs npm install.
    *
    * Used by Dream Mode to ingest external repositories for analysis
    * and autonomous maintenance.
    *
-   * @param repoOwnerAndName - Repository in "owner/repo" format
-   * @param token - GitHub PAT for private repos (optional)
-   * @param branch - Branch to download (default: main)
    * @returns The extracted files as AppFile[] for use with other services
    */
-  async mountGitHubRepo(
-    repoOwnerAndName: string,
-    token?: string,
-    branch: string = 'main'
-  ): Promise<AppFile[]> {
+  async mountRepoSource(source: RepoSource, options?: RepoLoadOptions): Promise<AppFile[]> {
     const repoLoader = getRepoLoaderService();
 
-    console.log(`[WebContainerService] Mounting repo: ${repoOwnerAndName}`);
+    logger.debug('[WebContainerService] Mounting repo', { kind: source.kind, source: describeRepoSource(source) });
     this._status = 'installing';
 
-    // 1. Download and extract repo to FileSystemTree
-    const tree = await repoLoader.loadRepo(repoOwnerAndName, token, branch);
+    // 1. Load and extract repo to FileSystemTree
+    const { tree, files } = await repoLoader.loadFromSource(source, options);
+
+    // 2. Mount and install
+    await this.mountTree(tree);
+    logger.info('[WebContainerService] Repo ready', { files: files.length });
+
+    return files;
+  }
 
-    // 2. Boot container if needed and mount the tree
+  /**
+   * Mount an already-loaded file set (e.g. a resumed Dream Mode checkpoint)
+   * and run npm install.
+   */
+  async mountFiles(files: AppFile[]): Promise<void> {
+    logger.debug('[WebContainerService] Mounting files', { files: files.length });
+    this._status = 'installing';
+
+    await this.mountTree(getRepoLoaderService().appFilesToTree(files));
+    logger.info('[WebContainerService] Files ready', { files: files.length });
+  }
+
+  /**
+   * Mount files under a directory of the container without installing
+   * anything (sandbox pool workers share the project's node_modules).
+   */
+  async mountFilesAt(files: AppFile[], directory: string): Promise<void> {
+    const container = await this.boot();
+    await container.fs.mkdir(directory, { recursive: true });
+    await container.mount(getRepoLoaderService().appFilesToTree(files), { mountPoint: directory });
+  }
+
+  /**
+   * Boot the container if needed, mount the tree and install dependencies.
+   */
+  private async mountTree(tree: FileSystemTree): Promise<void> {
     const container = await this.boot();
     await container.mount(tree);
 
-    // 3. Install dependencies
-    console.log('[WebContainerService] Repo mounted. Installing dependencies...');
+    logger.debug('[WebContainerService] Files mounted, installing dependencies');
     const installResult = await this.runCommand(
       container,
       'npm',
@@ -553,12 +586,22 @@ class WebContainerServiceInstance {
     }
 
     this._status = 'ready';
+  }
 
-    // 4. Convert tree to AppFile[] for downstream services
-    const files = repoLoader.treeToAppFiles(tree);
-    console.log(`[WebContainerService] Repo ready with ${files.length} files`);
-
-    return files;
+  /**
+   * Mount a GitHub repository into the WebContainer.
+   *
+   * @param repoOwnerAndName - Repository in "owner/repo" format
+   * @param token - GitHub PAT for private repos (optional)
+   * @param branch - Branch to download (default: main)
+   * @returns The extracted files as AppFile[] for use with other services
+   */
+  async mountGitHubRepo(
+    repoOwnerAndName: string,
+    token?: string,
+    branch: string = 'main'
+  ): Promise<AppFile[]> {
+    return this.mountRepoSource({ kind: 'github', repo: repoOwnerAndName, token, ref: branch });
   }
 
   /**
@@ -574,6 +617,22 @@ class WebContainerServiceInstance {
     await container.fs.writeFile(path, content);
   }
 
+  /**
+   * Remove a file from the WebContainer filesystem (no-op if it is missing).
+   */
+  async removeFile(path: string): Promise<void> {
+    const container = this.container ?? await this.boot();
+    await container.fs.rm(path, { force: true });
+  }
+
+  /**
+   * Remove a directory and everything in it (no-op if it is missing).
+   */
+  async removeDirectory(path: string): Promise<void> {
+    const container = this.container ?? await this.boot();
+    await container.fs.rm(path, { recursive: true, force: true });
+  }
+
   /**
    * Teardown the WebContainer instance.
    * Called when no longer needed (e.g., unmounting the app).
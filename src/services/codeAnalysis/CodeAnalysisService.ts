@@ -0,0 +1,240 @@
+/**
+ * Code Analysis Service
+ *
+ * Turns project files into FileAnalysis records (types/codeContext) using
+ * the TypeScript compiler API (see astAnalysis). Shared by every consumer
+ * that used to scan source with regexes:
+ *
+ * - DependencyGraphService — import edges, including dynamic import()
+ * - QA_ChaosAgent — interactable JSX elements for chaos tests
+ * - DiscoveryAgent — file signatures and feature detection
+ * - Titan RepoAnalyst — architecture patterns and tech stack
+ *
+ * Per-file results are cached by path and content hash, so re-analyzing a
+ * project after a patch only re-parses the files that changed.
+ */
+
+import { fnv1a } from '@/utils/hash';
+import type { AppFile } from '@/types/railway';
+import type { FileAnalysis, FileType } from '@/types/codeContext';
+import { analyzeSource, estimateTokens, isAnalyzable, type LocalFileAnalysis } from './astAnalysis';
+
+/** File extensions to try when resolving import paths */
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.json'];
+
+/** Index file names to try when resolving directory imports */
+const INDEX_FILES = ['index.ts', 'index.tsx', 'index.js', 'index.jsx'];
+
+/** Dependents at which a file counts as fully load-bearing for importanceScore */
+const CRITICAL_DEPENDENTS = 5;
+
+const TYPE_IMPORTANCE: Record<FileType, number> = {
+  page: 0.8,
+  layout: 0.8,
+  'api-route': 0.7,
+  'context-provider': 0.7,
+  component: 0.5,
+  hook: 0.5,
+  'type-definition': 0.4,
+  utility: 0.4,
+  config: 0.3,
+  style: 0.2,
+  other: 0.2,
+  test: 0.1,
+};
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class CodeAnalysisServiceInstance {
+  private cache = new Map<string, FileAnalysis>();
+
+  /**
+   * Analyze a single file. Project-level fields (resolved imports,
+   * dependencies, dependents) are only filled in by analyzeProject.
+   */
+  analyzeFile(file: AppFile): FileAnalysis {
+    const hash = fnv1a(file.content);
+    const cached = this.cache.get(file.path);
+    if (cached && cached.hash === hash) return cached;
+
+    const local = analyzeSource(file.path, file.content);
+    const type = classifyFile(file.path, file.content, local);
+    const analysis: FileAnalysis = {
+      path: file.path,
+      hash,
+      type,
+      ...local,
+      dependencies: [],
+      dependents: [],
+      tokenCount: estimateTokens(file.content),
+      importanceScore: importance(type, 0),
+      lastModified: Date.now(),
+      summary: '',
+    };
+    analysis.summary = summarize(analysis);
+
+    this.cache.set(file.path, analysis);
+    return analysis;
+  }
+
+  /**
+   * Analyze a whole project: every file, with local imports resolved to
+   * project paths and dependencies/dependents linked in both directions.
+   *
+   * @returns Analyses keyed by file path, in the order of `files`
+   */
+  analyzeProject(files: AppFile[]): Map<string, FileAnalysis> {
+    const knownPaths = new Set(files.map((f) => f.path));
+    const analyses = new Map<string, FileAnalysis>();
+
+    for (const file of files) {
+      const analysis = this.analyzeFile(file);
+      const imports = analysis.imports.map((info) => {
+        const resolvedPath = info.isExternal ? null : this.resolveImport(info.source, file.path, knownPaths);
+        return resolvedPath ? { ...info, resolvedPath } : info;
+      });
+      const dependencies = [
+        ...new Set(imports.flatMap((info) => (info.resolvedPath && info.resolvedPath !== file.path ? [info.resolvedPath] : []))),
+      ];
+      analyses.set(file.path, { ...analysis, imports, dependencies, dependents: [] });
+    }
+
+    for (const analysis of analyses.values()) {
+      for (const dependency of analysis.dependencies) {
+        analyses.get(dependency)?.dependents.push(analysis.path);
+      }
+    }
+
+    for (const analysis of analyses.values()) {
+      analysis.importanceScore = importance(analysis.type, analysis.dependents.length);
+      analysis.summary = summarize(analysis);
+    }
+
+    return analyses;
+  }
+
+  /**
+   * Resolve an import source to an actual file path in the project.
+   * Returns null for npm packages (non-relative, non-alias imports).
+   */
+  resolveImport(source: string, fromFile: string, knownPaths: Set<string>): string | null {
+    // Skip npm packages (no ./ or ../ or @/ prefix)
+    if (!source.startsWith('.') && !source.startsWith('@/')) {
+      return null;
+    }
+
+    let targetPath: string;
+
+    if (source.startsWith('@/')) {
+      // @/ alias → /src/
+      targetPath = '/src/' + source.slice(2);
+    } else {
+      // Relative import — resolve from the importing file's directory
+      const fromDir = fromFile.substring(0, fromFile.lastIndexOf('/'));
+      targetPath = resolvePath(fromDir, source);
+    }
+
+    // Try exact match first
+    if (knownPaths.has(targetPath)) return targetPath;
+
+    // Try adding extensions
+    for (const ext of RESOLVE_EXTENSIONS) {
+      const withExt = targetPath + ext;
+      if (knownPaths.has(withExt)) return withExt;
+    }
+
+    // Try as directory with index file
+    for (const indexFile of INDEX_FILES) {
+      const withIndex = targetPath + '/' + indexFile;
+      if (knownPaths.has(withIndex)) return withIndex;
+    }
+
+    return null;
+  }
+
+  /** Drop cached analyses (e.g. when switching projects) */
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Resolve a relative path against a base directory.
+ * Handles .. and . segments.
+ */
+function resolvePath(baseDir: string, relativePath: string): string {
+  const result = baseDir.split('/').filter(Boolean);
+
+  for (const part of relativePath.split('/').filter(Boolean)) {
+    if (part === '..') {
+      result.pop();
+    } else if (part !== '.') {
+      result.push(part);
+    }
+  }
+
+  return '/' + result.join('/');
+}
+
+function classifyFile(path: string, content: string, local: LocalFileAnalysis): FileType {
+  if (/\.(test|spec)\.[cm]?[jt]sx?$/.test(path) || path.includes('/__tests__/')) return 'test';
+  if (/\.(css|scss|sass|less)$/.test(path)) return 'style';
+  if (/\.json$/.test(path) || /(^|\/)[^/]+\.config\.[cm]?[jt]s$/.test(path)) return 'config';
+  if (!isAnalyzable(path)) return 'other';
+
+  if (/\/app\/(.+\/)?route\.[cm]?[jt]s$/.test(path) || path.includes('/pages/api/')) return 'api-route';
+  if (/\/app\/(.+\/)?page\.[jt]sx?$/.test(path) || /\/pages\/(?!_)[^/]+\.[jt]sx?$/.test(path)) return 'page';
+  if (/\/app\/(.+\/)?layout\.[jt]sx?$/.test(path) || /Layout\.[jt]sx?$/.test(path)) return 'layout';
+  if (path.endsWith('.d.ts')) return 'type-definition';
+  if (/\bcreateContext\s*[<(]/.test(content) && local.components.length > 0) return 'context-provider';
+  if (local.hooks.some((h) => h.isCustom) && local.components.length === 0) return 'hook';
+  if (local.components.length > 0) return 'component';
+  if (local.exports.length > 0 && local.exports.every((e) => e.kind === 'type' || e.kind === 'interface')) {
+    return 'type-definition';
+  }
+  return 'utility';
+}
+
+function importance(type: FileType, dependents: number): number {
+  return 0.5 * TYPE_IMPORTANCE[type] + 0.5 * Math.min(1, dependents / CRITICAL_DEPENDENTS);
+}
+
+function summarize(analysis: FileAnalysis): string {
+  const name = analysis.path.slice(analysis.path.lastIndexOf('/') + 1);
+  const parts = [`${analysis.type} ${name}`];
+
+  const exported = analysis.exports.map((e) => e.name);
+  if (exported.length > 0) {
+    parts.push(`exports ${exported.slice(0, 5).join(', ')}${exported.length > 5 ? ` (+${exported.length - 5})` : ''}`);
+  }
+  if (analysis.components.length > 0) parts.push(`${analysis.components.length} component(s)`);
+  const customHooks = analysis.hooks.filter((h) => h.isCustom).length;
+  if (customHooks > 0) parts.push(`${customHooks} custom hook(s)`);
+  if (analysis.apiEndpoints.length > 0) {
+    parts.push(`handles ${analysis.apiEndpoints.map((e) => e.method).join('/')}`);
+  }
+  if (analysis.dependents.length > 0) parts.push(`imported by ${analysis.dependents.length} file(s)`);
+
+  return parts.join('; ');
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let _instance: CodeAnalysisServiceInstance | null = null;
+
+export function getCodeAnalysisService(): CodeAnalysisServiceInstance {
+  if (!_instance) {
+    _instance = new CodeAnalysisServiceInstance();
+  }
+  return _instance;
+}
+
+export type { CodeAnalysisServiceInstance };
@@ -0,0 +1,781 @@
+/**
+ * AST Analysis
+ *
+ * Single-file analysis with the TypeScript compiler API. Only the syntax tree
+ * is used (no Program, no type checker), so it runs in the browser as well as
+ * in Node, for .ts, .tsx, .js and .jsx alike.
+ *
+ * Produces the file-local parts of a FileAnalysis (types/codeContext):
+ *   - imports: static, type-only, re-exports, require() and dynamic import()
+ *   - exports, with function signatures and type definitions
+ *   - React components (function, class, memo/forwardRef-wrapped), their
+ *     props, hooks and child components
+ *   - custom hook definitions and dependency-array hook calls
+ *   - type definitions and App Router route handlers
+ *   - every JSX element, its tag resolved through import aliases and
+ *     namespace imports, with its attributes and event handlers
+ *
+ * Import resolution and project-level metrics live in CodeAnalysisService.
+ */
+
+import * as ts from 'typescript';
+import type {
+  APIEndpointInfo,
+  ComponentInfo,
+  ExportInfo,
+  FileAnalysis,
+  HookInfo,
+  ImportInfo,
+  ImportedSymbol,
+  JSXElementInfo,
+  PropInfo,
+  TypeInfo,
+} from '@/types/codeContext';
+
+export type LocalFileAnalysis = Pick<
+  FileAnalysis,
+  'exports' | 'imports' | 'components' | 'hooks' | 'types' | 'apiEndpoints' | 'jsxElements'
+>;
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JS,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX,
+};
+
+/** Hooks whose last argument is a dependency array */
+const DEPENDENCY_HOOKS = new Set([
+  'useEffect',
+  'useLayoutEffect',
+  'useInsertionEffect',
+  'useMemo',
+  'useCallback',
+  'useImperativeHandle',
+]);
+
+const HTTP_METHODS = new Set<APIEndpointInfo['method']>(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS']);
+
+/** Route handler code that suggests an authentication check */
+const AUTH_PATTERN = /\b(auth|getServerSession|currentUser|getSession|session|authorization|bearer|verifyToken|requireUser)\b/i;
+
+/** Rough characters per token, for budget estimates */
+const CHARS_PER_TOKEN = 4;
+
+/** Longest static text kept for a JSX element */
+const MAX_ELEMENT_TEXT = 100;
+
+// ============================================================================
+// ENTRY
+// ============================================================================
+
+/** Whether `path` is a script the parser understands */
+export function isAnalyzable(path: string): boolean {
+  return scriptKind(path) !== undefined;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Analyze one file's source. Non-script files yield an empty analysis.
+ */
+export function analyzeSource(path: string, content: string): LocalFileAnalysis {
+  const sf = parseSource(path, content);
+  if (!sf) {
+    return { exports: [], imports: [], components: [], hooks: [], types: [], apiEndpoints: [], jsxElements: [] };
+  }
+
+  const imports = collectImports(sf);
+  const bindings = componentBindings(sf, imports);
+
+  return {
+    imports,
+    exports: collectExports(sf),
+    components: collectComponents(sf),
+    hooks: collectHooks(sf),
+    types: collectTypes(sf),
+    apiEndpoints: collectApiEndpoints(sf, path),
+    jsxElements: collectJsxElements(sf, bindings),
+  };
+}
+
+/**
+ * Parse a script into a syntax tree with parent pointers, or null if `path`
+ * is not a script.
+ */
+export function parseSource(path: string, content: string): ts.SourceFile | null {
+  const kind = scriptKind(path);
+  return kind === undefined ? null : ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true, kind);
+}
+
+function scriptKind(path: string): ts.ScriptKind | undefined {
+  if (path.endsWith('.d.ts')) return ts.ScriptKind.TS;
+  const dot = path.lastIndexOf('.');
+  return dot === -1 ? undefined : SCRIPT_KINDS[path.slice(dot)];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function lineOf(sf: ts.SourceFile, node: ts.Node): number {
+  return sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1;
+}
+
+function textOf(sf: ts.SourceFile, node: ts.Node): string {
+  return node.getText(sf).replace(/\s+/g, ' ').trim();
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === kind);
+}
+
+function isExported(node: ts.Node): boolean {
+  return hasModifier(node, ts.SyntaxKind.ExportKeyword);
+}
+
+function isDefaultExport(node: ts.Node): boolean {
+  return isExported(node) && hasModifier(node, ts.SyntaxKind.DefaultKeyword);
+}
+
+function isPascalCase(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+function isHookName(name: string): boolean {
+  return /^use[A-Z0-9]/.test(name);
+}
+
+function visit(node: ts.Node, callback: (node: ts.Node) => void): void {
+  callback(node);
+  ts.forEachChild(node, (child) => visit(child, callback));
+}
+
+/** Name a call's callee ends in: memo for React.memo(...), useState for useState(...) */
+function calleeName(call: ts.CallExpression): string | undefined {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee)) return callee.text;
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+  return undefined;
+}
+
+function signatureOf(sf: ts.SourceFile, fn: ts.SignatureDeclaration): string {
+  const params = fn.parameters.map((p) => textOf(sf, p)).join(', ');
+  return `(${params})${fn.type ? `: ${textOf(sf, fn.type)}` : ''}`;
+}
+
+type FunctionLike = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction;
+
+/**
+ * Strip memo()/forwardRef() wrappers, parentheses and casts from a
+ * component initializer.
+ */
+function unwrapComponent(expression: ts.Expression): { fn?: FunctionLike; memo: boolean; forwardRef: boolean; typeArguments?: ts.NodeArray<ts.TypeNode> } {
+  let memo = false;
+  let forwardRef = false;
+  let typeArguments: ts.NodeArray<ts.TypeNode> | undefined;
+  let current: ts.Expression = expression;
+
+  for (;;) {
+    if (ts.isParenthesizedExpression(current) || ts.isAsExpression(current) || ts.isSatisfiesExpression(current)) {
+      current = current.expression;
+    } else if (ts.isCallExpression(current) && current.arguments.length > 0) {
+      const name = calleeName(current);
+      if (name === 'memo') memo = true;
+      else if (name === 'forwardRef') {
+        forwardRef = true;
+        typeArguments = current.typeArguments;
+      } else break;
+      current = current.arguments[0];
+    } else break;
+  }
+
+  const fn = ts.isArrowFunction(current) || ts.isFunctionExpression(current) ? current : undefined;
+  return { fn, memo, forwardRef, typeArguments };
+}
+
+function containsJsx(node: ts.Node): boolean {
+  let found = false;
+  visit(node, (child) => {
+    if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child) || ts.isJsxFragment(child)) found = true;
+  });
+  return found;
+}
+
+// ============================================================================
+// IMPORTS
+// ============================================================================
+
+function isExternalSource(source: string): boolean {
+  return !/^(\.|\/|@\/|~\/)/.test(source);
+}
+
+function importInfo(source: string, imports: ImportedSymbol[], isTypeOnly: boolean, isDynamic: boolean): ImportInfo {
+  return { source, isExternal: isExternalSource(source), isTypeOnly, ...(isDynamic ? { isDynamic } : {}), imports };
+}
+
+function collectImports(sf: ts.SourceFile): ImportInfo[] {
+  const imports: ImportInfo[] = [];
+
+  visit(sf, (node) => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const clause = node.importClause;
+      const symbols: ImportedSymbol[] = [];
+      if (clause?.name) symbols.push({ name: clause.name.text, isDefault: true, isNamespace: false });
+
+      const named = clause?.namedBindings;
+      if (named && ts.isNamespaceImport(named)) {
+        symbols.push({ name: named.name.text, isDefault: false, isNamespace: true });
+      } else if (named) {
+        for (const element of named.elements) {
+          symbols.push({
+            name: (element.propertyName ?? element.name).text,
+            ...(element.propertyName ? { alias: element.name.text } : {}),
+            isDefault: false,
+            isNamespace: false,
+          });
+        }
+      }
+
+      const typeOnly =
+        !!clause?.isTypeOnly ||
+        (!!named && ts.isNamedImports(named) && !clause?.name && named.elements.length > 0 && named.elements.every((e) => e.isTypeOnly));
+      imports.push(importInfo(node.moduleSpecifier.text, symbols, typeOnly, false));
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      const clause = node.exportClause;
+      const symbols: ImportedSymbol[] = !clause
+        ? []
+        : ts.isNamespaceExport(clause)
+          ? [{ name: clause.name.text, isDefault: false, isNamespace: true }]
+          : clause.elements.map((e) => ({
+              name: (e.propertyName ?? e.name).text,
+              ...(e.propertyName ? { alias: e.name.text } : {}),
+              isDefault: false,
+              isNamespace: false,
+            }));
+      imports.push(importInfo(node.moduleSpecifier.text, symbols, node.isTypeOnly, false));
+    } else if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference) &&
+      ts.isStringLiteral(node.moduleReference.expression)
+    ) {
+      imports.push(
+        importInfo(node.moduleReference.expression.text, [{ name: node.name.text, isDefault: true, isNamespace: false }], node.isTypeOnly, false)
+      );
+    } else if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0])) {
+      const source = node.arguments[0].text;
+      if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        imports.push(importInfo(source, [], false, true));
+      } else if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+        imports.push(importInfo(source, requireSymbols(node), false, false));
+      }
+    }
+  });
+
+  return imports;
+}
+
+/** const x = require('m') / const { a, b: c } = require('m') */
+function requireSymbols(call: ts.CallExpression): ImportedSymbol[] {
+  const declaration = call.parent;
+  if (!ts.isVariableDeclaration(declaration)) return [];
+  if (ts.isIdentifier(declaration.name)) {
+    return [{ name: declaration.name.text, isDefault: false, isNamespace: true }];
+  }
+  if (ts.isObjectBindingPattern(declaration.name)) {
+    return declaration.name.elements.flatMap((e) => {
+      if (!ts.isIdentifier(e.name)) return [];
+      const property = e.propertyName && ts.isIdentifier(e.propertyName) ? e.propertyName.text : undefined;
+      return [{ name: property ?? e.name.text, ...(property ? { alias: e.name.text } : {}), isDefault: false, isNamespace: false }];
+    });
+  }
+  return [];
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+/** Kind of each top-level declaration, for `export { name }` lists */
+function localKinds(sf: ts.SourceFile): Map<string, ExportInfo['kind']> {
+  const kinds = new Map<string, ExportInfo['kind']>();
+  for (const statement of sf.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name) kinds.set(statement.name.text, 'function');
+    else if (ts.isClassDeclaration(statement) && statement.name) kinds.set(statement.name.text, 'class');
+    else if (ts.isInterfaceDeclaration(statement)) kinds.set(statement.name.text, 'interface');
+    else if (ts.isTypeAliasDeclaration(statement)) kinds.set(statement.name.text, 'type');
+    else if (ts.isEnumDeclaration(statement)) kinds.set(statement.name.text, 'enum');
+    else if (ts.isVariableStatement(statement)) {
+      const kind = statement.declarationList.flags & ts.NodeFlags.Const ? 'const' : 'let';
+      for (const d of statement.declarationList.declarations) {
+        if (ts.isIdentifier(d.name)) kinds.set(d.name.text, kind);
+      }
+    }
+  }
+  return kinds;
+}
+
+function collectExports(sf: ts.SourceFile): ExportInfo[] {
+  const exports: ExportInfo[] = [];
+  const kinds = localKinds(sf);
+
+  for (const statement of sf.statements) {
+    const line = lineOf(sf, statement);
+
+    if (ts.isFunctionDeclaration(statement) && isExported(statement)) {
+      exports.push({
+        name: statement.name?.text ?? 'default',
+        kind: 'function',
+        isDefault: isDefaultExport(statement),
+        isAsync: hasModifier(statement, ts.SyntaxKind.AsyncKeyword),
+        signature: signatureOf(sf, statement),
+        line,
+      });
+    } else if (ts.isClassDeclaration(statement) && isExported(statement)) {
+      exports.push({ name: statement.name?.text ?? 'default', kind: 'class', isDefault: isDefaultExport(statement), isAsync: false, line });
+    } else if (ts.isVariableStatement(statement) && isExported(statement)) {
+      const kind = statement.declarationList.flags & ts.NodeFlags.Const ? 'const' : 'let';
+      for (const d of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(d.name)) continue;
+        const fn = d.initializer ? unwrapComponent(d.initializer).fn : undefined;
+        exports.push({
+          name: d.name.text,
+          kind,
+          isDefault: false,
+          isAsync: !!fn && hasModifier(fn, ts.SyntaxKind.AsyncKeyword),
+          ...(fn ? { signature: signatureOf(sf, fn) } : {}),
+          line,
+        });
+      }
+    } else if (
+      (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) &&
+      isExported(statement)
+    ) {
+      exports.push({
+        name: statement.name.text,
+        kind: ts.isInterfaceDeclaration(statement) ? 'interface' : ts.isTypeAliasDeclaration(statement) ? 'type' : 'enum',
+        isDefault: false,
+        isAsync: false,
+        typeSignature: statement.getText(sf),
+        line,
+      });
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const fn = unwrapComponent(statement.expression).fn;
+      exports.push({
+        name: ts.isIdentifier(statement.expression) ? statement.expression.text : 'default',
+        kind: 'default',
+        isDefault: true,
+        isAsync: !!fn && hasModifier(fn, ts.SyntaxKind.AsyncKeyword),
+        ...(fn ? { signature: signatureOf(sf, fn) } : {}),
+        line,
+      });
+    } else if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        const local = (element.propertyName ?? element.name).text;
+        const isDefault = element.name.text === 'default';
+        exports.push({
+          name: isDefault ? local : element.name.text,
+          kind: statement.moduleSpecifier ? 'const' : kinds.get(local) ?? 'const',
+          isDefault,
+          isAsync: false,
+          line,
+        });
+      }
+    }
+  }
+
+  return exports;
+}
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+const CLASS_COMPONENT_BASES = /^(React\.)?(Pure)?Component$/;
+
+function collectComponents(sf: ts.SourceFile): ComponentInfo[] {
+  const components: ComponentInfo[] = [];
+  const { defaultName, memoized, forwarded } = defaultAndWrapped(sf);
+
+  const add = (
+    name: string,
+    node: ts.Node,
+    fn: FunctionLike | undefined,
+    options: { isDefault: boolean; memo: boolean; forwardRef: boolean; propsType?: ts.TypeNode; isClass?: boolean }
+  ) => {
+    components.push({
+      name,
+      isDefault: options.isDefault || name === defaultName,
+      isFunctionComponent: !options.isClass,
+      isClassComponent: !!options.isClass,
+      props: fn ? componentProps(sf, fn, options.propsType) : [],
+      hooks: hookCalls(node),
+      childComponents: childComponents(sf, node),
+      hasForwardRef: options.forwardRef || forwarded.has(name),
+      hasMemo: options.memo || memoized.has(name),
+      line: lineOf(sf, node),
+    });
+  };
+
+  for (const statement of sf.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.body && containsJsx(statement.body)) {
+      const name = statement.name?.text ?? 'default';
+      if (statement.name && !isPascalCase(name)) continue;
+      add(name, statement, statement, { isDefault: isDefaultExport(statement), memo: false, forwardRef: false });
+    } else if (ts.isVariableStatement(statement)) {
+      for (const d of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(d.name) || !isPascalCase(d.name.text) || !d.initializer) continue;
+        const { fn, memo, forwardRef, typeArguments } = unwrapComponent(d.initializer);
+        if (!fn || !containsJsx(fn)) continue;
+        // const X: React.FC<Props> = ... / forwardRef<Ref, Props>(...)
+        const annotated = d.type && ts.isTypeReferenceNode(d.type) ? d.type.typeArguments?.[0] : undefined;
+        add(d.name.text, d, fn, { isDefault: false, memo, forwardRef, propsType: annotated ?? typeArguments?.[1] });
+      }
+    } else if (ts.isClassDeclaration(statement) && statement.heritageClauses) {
+      const base = statement.heritageClauses
+        .find((h) => h.token === ts.SyntaxKind.ExtendsKeyword)
+        ?.types[0]?.expression.getText(sf);
+      if (!base || !CLASS_COMPONENT_BASES.test(base)) continue;
+      add(statement.name?.text ?? 'default', statement, undefined, {
+        isDefault: isDefaultExport(statement),
+        memo: false,
+        forwardRef: false,
+        isClass: true,
+      });
+    } else if (ts.isExportAssignment(statement)) {
+      const { fn, memo, forwardRef } = unwrapComponent(statement.expression);
+      if (fn && containsJsx(fn)) add('default', statement, fn, { isDefault: true, memo, forwardRef });
+    }
+  }
+
+  return components;
+}
+
+/** The default-exported name, and names wrapped in memo()/forwardRef() after their declaration */
+function defaultAndWrapped(sf: ts.SourceFile): { defaultName?: string; memoized: Set<string>; forwarded: Set<string> } {
+  const memoized = new Set<string>();
+  const forwarded = new Set<string>();
+  let defaultName: string | undefined;
+
+  visit(sf, (node) => {
+    if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isIdentifier(node.arguments[0])) {
+      const name = calleeName(node);
+      if (name === 'memo') memoized.add(node.arguments[0].text);
+      if (name === 'forwardRef') forwarded.add(node.arguments[0].text);
+    }
+  });
+
+  for (const statement of sf.statements) {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      let expression: ts.Expression = statement.expression;
+      while (ts.isCallExpression(expression) && expression.arguments.length > 0) expression = expression.arguments[0];
+      if (ts.isIdentifier(expression)) defaultName = expression.text;
+    }
+  }
+  return { defaultName, memoized, forwarded };
+}
+
+function componentProps(sf: ts.SourceFile, fn: FunctionLike, declaredType?: ts.TypeNode): PropInfo[] {
+  const param = fn.parameters[0];
+  if (!param) return [];
+
+  const props = new Map<string, PropInfo>();
+  for (const member of typeMembers(sf, param.type ?? declaredType)) {
+    if (!ts.isPropertySignature(member) || !member.name) continue;
+    const name = member.name.getText(sf);
+    props.set(name, { name, type: member.type ? textOf(sf, member.type) : 'unknown', required: !member.questionToken });
+  }
+
+  if (ts.isObjectBindingPattern(param.name)) {
+    for (const element of param.name.elements) {
+      if (element.dotDotDotToken) continue;
+      const name = (element.propertyName ?? element.name).getText(sf);
+      const existing = props.get(name) ?? { name, type: 'unknown', required: !element.initializer };
+      props.set(name, {
+        ...existing,
+        ...(element.initializer ? { defaultValue: textOf(sf, element.initializer), required: false } : {}),
+      });
+    }
+  }
+
+  return [...props.values()];
+}
+
+/** Members of an inline type literal, or of a local interface / type alias it names */
+function typeMembers(sf: ts.SourceFile, type: ts.TypeNode | undefined): readonly ts.TypeElement[] {
+  if (!type) return [];
+  if (ts.isTypeLiteralNode(type)) return type.members;
+  if (ts.isIntersectionTypeNode(type)) return type.types.flatMap((t) => typeMembers(sf, t));
+  if (!ts.isTypeReferenceNode(type) || !ts.isIdentifier(type.typeName)) return [];
+
+  const name = type.typeName.text;
+  for (const statement of sf.statements) {
+    if (ts.isInterfaceDeclaration(statement) && statement.name.text === name) return statement.members;
+    if (ts.isTypeAliasDeclaration(statement) && statement.name.text === name) return typeMembers(sf, statement.type);
+  }
+  return [];
+}
+
+function hookCalls(node: ts.Node): string[] {
+  const hooks = new Set<string>();
+  visit(node, (child) => {
+    if (!ts.isCallExpression(child)) return;
+    const name = calleeName(child);
+    if (name && isHookName(name)) hooks.add(name);
+  });
+  return [...hooks];
+}
+
+function childComponents(sf: ts.SourceFile, node: ts.Node): string[] {
+  const children = new Set<string>();
+  visit(node, (child) => {
+    if (ts.isJsxOpeningElement(child) || ts.isJsxSelfClosingElement(child)) {
+      const tag = child.tagName.getText(sf);
+      if (isPascalCase(tag) || tag.includes('.')) children.add(tag);
+    }
+  });
+  return [...children];
+}
+
+// ============================================================================
+// HOOKS & TYPES
+// ============================================================================
+
+function collectHooks(sf: ts.SourceFile): HookInfo[] {
+  const hooks: HookInfo[] = [];
+
+  const define = (name: string, fn: FunctionLike, node: ts.Node) =>
+    hooks.push({
+      name,
+      isCustom: true,
+      parameters: fn.parameters.map((p) => (p.type ? textOf(sf, p.type) : 'unknown')),
+      ...(fn.type ? { returnType: textOf(sf, fn.type) } : {}),
+      dependencies: [],
+      line: lineOf(sf, node),
+    });
+
+  for (const statement of sf.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name && isHookName(statement.name.text)) {
+      define(statement.name.text, statement, statement);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const d of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(d.name) || !isHookName(d.name.text) || !d.initializer) continue;
+        const { fn } = unwrapComponent(d.initializer);
+        if (fn) define(d.name.text, fn, d);
+      }
+    }
+  }
+
+  visit(sf, (node) => {
+    if (!ts.isCallExpression(node)) return;
+    const name = calleeName(node);
+    const last = node.arguments[node.arguments.length - 1];
+    if (!name || !DEPENDENCY_HOOKS.has(name) || node.arguments.length < 2 || !ts.isArrayLiteralExpression(last)) return;
+    hooks.push({
+      name,
+      isCustom: false,
+      parameters: [],
+      dependencies: last.elements.map((e) => textOf(sf, e)),
+      line: lineOf(sf, node),
+    });
+  });
+
+  return hooks;
+}
+
+function collectTypes(sf: ts.SourceFile): TypeInfo[] {
+  const types: TypeInfo[] = [];
+  for (const statement of sf.statements) {
+    if (!ts.isInterfaceDeclaration(statement) && !ts.isTypeAliasDeclaration(statement) && !ts.isEnumDeclaration(statement)) {
+      continue;
+    }
+    const definition = statement.getText(sf);
+    const heritage = ts.isInterfaceDeclaration(statement)
+      ? (statement.heritageClauses ?? []).flatMap((h) => h.types.map((t) => textOf(sf, t)))
+      : [];
+    types.push({
+      name: statement.name.text,
+      kind: ts.isInterfaceDeclaration(statement) ? 'interface' : ts.isTypeAliasDeclaration(statement) ? 'type' : 'enum',
+      exported: isExported(statement),
+      definition,
+      tokenCount: estimateTokens(definition),
+      ...(heritage.length > 0 ? { extends: heritage } : {}),
+      line: lineOf(sf, statement),
+    });
+  }
+  return types;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/** /app/api/users/[id]/route.ts → /api/users/[id] (route groups dropped) */
+function routePath(path: string): string | null {
+  const match = /\/app((?:\/[^/]+)*)\/route\.[cm]?[jt]s$/.exec(path);
+  if (!match) return null;
+  const segments = match[1].split('/').filter((s) => s && !/^\(.*\)$/.test(s));
+  return '/' + segments.join('/');
+}
+
+function collectApiEndpoints(sf: ts.SourceFile, path: string): APIEndpointInfo[] {
+  const route = routePath(path);
+  if (route === null) return [];
+
+  const endpoints: APIEndpointInfo[] = [];
+  const add = (method: string, node: ts.Node, fn: FunctionLike | undefined, docNode: ts.Node) => {
+    if (!HTTP_METHODS.has(method as APIEndpointInfo['method'])) return;
+    const description = jsDocText(docNode);
+    const requestType = fn ? jsonBodyType(sf, fn) : undefined;
+    endpoints.push({
+      method: method as APIEndpointInfo['method'],
+      path: route,
+      hasAuth: AUTH_PATTERN.test(node.getText(sf)),
+      ...(requestType ? { requestType } : {}),
+      ...(description ? { description } : {}),
+      line: lineOf(sf, node),
+    });
+  };
+
+  for (const statement of sf.statements) {
+    if (!isExported(statement)) continue;
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      add(statement.name.text, statement, statement, statement);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const d of statement.declarationList.declarations) {
+        if (ts.isIdentifier(d.name)) add(d.name.text, d, d.initializer ? unwrapComponent(d.initializer).fn : undefined, d);
+      }
+    }
+  }
+  return endpoints;
+}
+
+function jsDocText(node: ts.Node): string | undefined {
+  for (const doc of ts.getJSDocCommentsAndTags(node)) {
+    if (ts.isJSDoc(doc) && doc.comment) return ts.getTextOfJSDocComment(doc.comment)?.trim();
+  }
+  return undefined;
+}
+
+/** `(await request.json()) as Body` → "Body" */
+function jsonBodyType(sf: ts.SourceFile, fn: FunctionLike): string | undefined {
+  let type: string | undefined;
+  visit(fn, (node) => {
+    if (type || !ts.isAsExpression(node)) return;
+    let inner: ts.Expression = node.expression;
+    while (ts.isParenthesizedExpression(inner) || ts.isAwaitExpression(inner)) inner = inner.expression;
+    if (ts.isCallExpression(inner) && calleeName(inner) === 'json') type = textOf(sf, node.type);
+  });
+  return type;
+}
+
+// ============================================================================
+// JSX ELEMENTS
+// ============================================================================
+
+interface ComponentBinding {
+  /** Exported name of the component ('default' imports keep their local name) */
+  name: string;
+  source: string;
+  isNamespace: boolean;
+}
+
+/**
+ * Local names that refer to imported components: import aliases, namespace
+ * imports, and top-level `const Alias = Imported` re-bindings.
+ */
+function componentBindings(sf: ts.SourceFile, imports: ImportInfo[]): Map<string, ComponentBinding> {
+  const bindings = new Map<string, ComponentBinding>();
+  for (const info of imports) {
+    if (info.isDynamic) continue;
+    for (const symbol of info.imports) {
+      bindings.set(symbol.alias ?? symbol.name, { name: symbol.name, source: info.source, isNamespace: symbol.isNamespace });
+    }
+  }
+
+  for (const statement of sf.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+    for (const d of statement.declarationList.declarations) {
+      if (!ts.isIdentifier(d.name) || !d.initializer) continue;
+      const target = ts.isIdentifier(d.initializer) ? bindings.get(d.initializer.text) : undefined;
+      if (target) bindings.set(d.name.text, target);
+    }
+  }
+  return bindings;
+}
+
+function collectJsxElements(sf: ts.SourceFile, bindings: Map<string, ComponentBinding>): JSXElementInfo[] {
+  const elements: JSXElementInfo[] = [];
+
+  visit(sf, (node) => {
+    if (!ts.isJsxOpeningElement(node) && !ts.isJsxSelfClosingElement(node)) return;
+
+    const tag = node.tagName.getText(sf);
+    const attributes: Record<string, string | null> = {};
+    const handlers: string[] = [];
+    let hasSpread = false;
+
+    for (const property of node.attributes.properties) {
+      if (ts.isJsxSpreadAttribute(property)) {
+        hasSpread = true;
+        continue;
+      }
+      const name = property.name.getText(sf);
+      attributes[name] = attributeValue(property.initializer);
+      if (/^on[A-Z]/.test(name)) handlers.push(name);
+    }
+
+    const text = ts.isJsxOpeningElement(node) ? staticText(node.parent) : '';
+    elements.push({
+      tag,
+      ...resolveTag(node.tagName, bindings),
+      attributes,
+      handlers,
+      hasSpread,
+      ...(text ? { text } : {}),
+      line: lineOf(sf, node),
+    });
+  });
+
+  return elements;
+}
+
+function attributeValue(initializer: ts.JsxAttributeValue | undefined): string | null {
+  if (!initializer) return 'true';
+  if (ts.isStringLiteral(initializer)) return initializer.text;
+  if (ts.isJsxExpression(initializer) && initializer.expression && ts.isStringLiteralLike(initializer.expression)) {
+    return initializer.expression.text;
+  }
+  return null;
+}
+
+function resolveTag(tagName: ts.JsxTagNameExpression, bindings: Map<string, ComponentBinding>): { component?: string; source?: string } {
+  if (ts.isIdentifier(tagName)) {
+    const binding = isPascalCase(tagName.text) ? bindings.get(tagName.text) : undefined;
+    return binding && !binding.isNamespace ? { component: binding.name, source: binding.source } : {};
+  }
+  // UI.Button with `import * as UI from '...'`
+  if (ts.isPropertyAccessExpression(tagName) && ts.isIdentifier(tagName.expression)) {
+    const binding = bindings.get(tagName.expression.text);
+    return binding?.isNamespace ? { component: tagName.name.text, source: binding.source } : {};
+  }
+  return {};
+}
+
+/** Static text inside an element and its children: JSX text and string literal expressions */
+function staticText(element: ts.JsxElement): string {
+  const parts: string[] = [];
+  visit(element, (node) => {
+    if (ts.isJsxText(node) && node.text.trim()) parts.push(node.text.trim());
+    else if (ts.isJsxExpression(node) && node.parent !== undefined && !ts.isJsxAttribute(node.parent) && node.expression && ts.isStringLiteralLike(node.expression)) {
+      parts.push(node.expression.text);
+    }
+  });
+  return parts.join(' ').replace(/\s+/g, ' ').slice(0, MAX_ELEMENT_TEXT);
+}
@@ -0,0 +1,9 @@
+/**
+ * Code Analysis - Barrel Export
+ *
+ * TypeScript-compiler-API analysis of project files into FileAnalysis
+ * records (types/codeContext).
+ */
+
+export { getCodeAnalysisService, type CodeAnalysisServiceInstance } from './CodeAnalysisService';
+export { analyzeSource, estimateTokens, isAnalyzable, parseSource, type LocalFileAnalysis } from './astAnalysis';
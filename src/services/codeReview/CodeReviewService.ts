@@ -0,0 +1,454 @@
+/**
+ * Code Review Service
+ *
+ * Deterministic static review of generated code (types/codeReview). Runs
+ * the syntax-tree analyzers over every file, auto-applies the safe fixes
+ * (missing list keys, missing React hook imports, unused imports) and
+ * returns a QualityReport scored per category and gated by strictness.
+ *
+ * Runs on every AppFile[] the Titan pipeline builds and on every
+ * CodeRepairService.repair result, and serves /api/layout/review.
+ *
+ * Fixes are applied in passes: each pass re-reviews the file, applies the
+ * fixable findings whose edits do not overlap, and keeps the result only if
+ * it adds no syntax errors. Issues seen across reviews are tracked in a
+ * pattern cache for feeding back into generation prompts.
+ */
+
+import type { AppFile } from '@/types/railway';
+import {
+  calculateScore,
+  getEnabledCategories,
+  generateIssueId,
+  passesQualityCheck,
+  type AnalyzerConfig,
+  type AnalyzerResult,
+  type AppliedFix,
+  type CategoryScores,
+  type ComprehensiveReviewContext,
+  type IssueCategory,
+  type IssueSeverity,
+  type PatternCache,
+  type PhaseReviewContext,
+  type QualityReport,
+  type ReviewFile,
+  type ReviewIssue,
+  type ReviewRequest,
+  type ReviewResponse,
+  type ReviewStrictness,
+  type TrackedPattern,
+} from '@/types/codeReview';
+import { getCodeAnalysisService, parseSource } from '@/services/codeAnalysis';
+import { ANALYZERS, countSyntaxErrors, logicAnalyzer, type Analyzer, type ReviewFinding, type TextEdit } from './analyzers';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Fix passes per file; later passes pick up fixes whose edits overlapped */
+const MAX_FIX_PASSES = 3;
+
+/** Lowest severity reported at each strictness */
+const SEVERITY_THRESHOLDS: Record<ReviewStrictness, IssueSeverity> = {
+  relaxed: 'high',
+  standard: 'low',
+  strict: 'low',
+};
+
+/** Overall score a review must reach to pass, at each strictness */
+const MIN_SCORES: Record<ReviewStrictness, number> = {
+  relaxed: 50,
+  standard: 70,
+  strict: 85,
+};
+
+const SEVERITY_RANK: Record<IssueSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+/** Score category each issue category counts against */
+const SCORE_CATEGORIES: Record<IssueCategory, keyof CategoryScores> = {
+  syntax_error: 'syntax',
+  type_error: 'syntax',
+  import_missing: 'syntax',
+  security_xss: 'security',
+  security_injection: 'security',
+  security_eval: 'security',
+  react_hooks_rule: 'bestPractices',
+  react_missing_key: 'bestPractices',
+  react_missing_deps: 'bestPractices',
+  react_invalid_hook: 'bestPractices',
+  import_unused: 'bestPractices',
+  performance_rerender: 'performance',
+  performance_memo: 'performance',
+  performance_expensive: 'performance',
+  accessibility: 'accessibility',
+  missing_feature: 'requirements',
+  logic_warning: 'logic',
+};
+
+/** Weights of the category scores in overallScore (requirements/logic only when reviewed) */
+const SCORE_WEIGHTS: Record<keyof CategoryScores, number> = {
+  syntax: 0.3,
+  security: 0.25,
+  bestPractices: 0.2,
+  performance: 0.1,
+  accessibility: 0.15,
+  requirements: 0.2,
+  logic: 0.05,
+};
+
+/** Words ignored when matching feature names against code */
+const FEATURE_STOPWORDS = new Set(['with', 'from', 'that', 'this', 'page', 'feature', 'support', 'user', 'users', 'able', 'using']);
+
+export interface ReviewFilesOptions {
+  strictness?: ReviewStrictness;
+  reviewType?: ReviewRequest['reviewType'];
+  phaseContext?: PhaseReviewContext;
+  requirements?: ComprehensiveReviewContext;
+  enableLogicAnalysis?: boolean;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class CodeReviewServiceInstance {
+  private patterns = new Map<string, TrackedPattern>();
+
+  /**
+   * Review files, auto-fix what is safe, and report the rest.
+   */
+  review(request: ReviewRequest): ReviewResponse {
+    const start = Date.now();
+    const strictness = request.strictness ?? 'standard';
+    const config = analyzerConfig(strictness);
+    const comprehensive = request.reviewType === 'comprehensive';
+    const analyzers = request.enableLogicAnalysis || comprehensive ? [...ANALYZERS, logicAnalyzer] : ANALYZERS;
+
+    const fixes: AppliedFix[] = [];
+    const issues: ReviewIssue[] = [];
+    const files: ReviewFile[] = [];
+    const seen: ReviewFinding[] = [];
+    const fixed: ReviewFinding[] = [];
+    const failed: ReviewFinding[] = [];
+
+    for (const file of request.files) {
+      const result = this.fixFile(file, config, analyzers);
+      files.push(result.file);
+      fixes.push(...result.fixes);
+      issues.push(...result.remaining.map((f) => f.issue));
+      seen.push(...result.initial);
+      fixed.push(...result.fixed);
+      failed.push(...result.failed);
+    }
+
+    const requirements = comprehensive && request.requirements ? checkRequirements(files, request.requirements) : undefined;
+    if (requirements && config.enabledCategories.includes('missing_feature')) issues.push(...requirements.issues);
+
+    this.track(seen, fixed, failed);
+
+    const report = buildReport({
+      request,
+      strictness,
+      issues,
+      fixes,
+      requirementsScore: requirements?.score,
+      logicReviewed: analyzers.includes(logicAnalyzer),
+      durationMs: Date.now() - start,
+    });
+    const modifiedFiles = files.filter((f, i) => f.content !== request.files[i].content);
+
+    return {
+      success: true,
+      issues,
+      fixes,
+      report,
+      ...(modifiedFiles.length > 0 ? { modifiedFiles } : {}),
+    };
+  }
+
+  /**
+   * Review generated AppFiles and return them with safe fixes applied.
+   */
+  reviewFiles(files: AppFile[], options: ReviewFilesOptions = {}): { files: AppFile[]; report: QualityReport } {
+    const response = this.review({
+      reviewType: options.reviewType ?? 'light',
+      files: files.map((f) => ({ path: f.path, content: f.content })),
+      strictness: options.strictness,
+      phaseContext: options.phaseContext,
+      requirements: options.requirements,
+      enableLogicAnalysis: options.enableLogicAnalysis,
+    });
+
+    const modified = new Map((response.modifiedFiles ?? []).map((f) => [f.path, f.content]));
+    return {
+      files: files.map((f) => ({ ...f, content: modified.get(f.path) ?? f.content })),
+      report: response.report,
+    };
+  }
+
+  /**
+   * Run each analyzer over the files without fixing anything.
+   */
+  analyze(files: ReviewFile[], strictness: ReviewStrictness = 'standard', analyzers: Analyzer[] = ANALYZERS): AnalyzerResult[] {
+    const config = analyzerConfig(strictness);
+    return analyzers.map((analyzer) => {
+      const start = Date.now();
+      const issues = files.flatMap((file) => runAnalyzers(file, config, [analyzer])).map((f) => f.issue);
+      return { analyzerName: analyzer.name, issues, score: calculateScore(issues), durationMs: Date.now() - start };
+    });
+  }
+
+  /** Issue patterns seen so far, most frequent first */
+  getPatternCache(): PatternCache {
+    const patterns = [...this.patterns.values()].sort((a, b) => b.occurrences - a.occurrences);
+    return {
+      patterns,
+      lastUpdated: patterns.reduce((latest, p) => (p.lastSeen > latest ? p.lastSeen : latest), ''),
+      totalIssuesTracked: patterns.reduce((sum, p) => sum + p.occurrences, 0),
+    };
+  }
+
+  // ==========================================================================
+  // PRIVATE HELPERS
+  // ==========================================================================
+
+  private fixFile(
+    file: ReviewFile,
+    config: AnalyzerConfig,
+    analyzers: Analyzer[]
+  ): { file: ReviewFile; fixes: AppliedFix[]; remaining: ReviewFinding[]; initial: ReviewFinding[]; fixed: ReviewFinding[]; failed: ReviewFinding[] } {
+    const fixes: AppliedFix[] = [];
+    const fixed: ReviewFinding[] = [];
+    const failed: ReviewFinding[] = [];
+    let content = file.content;
+    let findings = runAnalyzers(file, config, analyzers);
+    const initial = findings;
+
+    for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+      const accepted = nonOverlapping(findings.filter((f) => f.edits));
+      if (accepted.length === 0) break;
+
+      const next = applyEdits(content, accepted.flatMap((f) => f.edits ?? []));
+      if (countSyntaxErrors(file.path, next) > countSyntaxErrors(file.path, content)) {
+        console.warn(`[CodeReview] Fixes for ${file.path} introduced syntax errors, keeping the original`);
+        failed.push(...accepted);
+        break;
+      }
+
+      fixes.push(...accepted.map((f) => appliedFix(file.path, content, f)));
+      fixed.push(...accepted);
+      content = next;
+      findings = runAnalyzers({ ...file, content }, config, analyzers);
+    }
+
+    return { file: { ...file, content }, fixes, remaining: findings, initial, fixed, failed };
+  }
+
+  /** Count seen, fixed and failed-to-fix findings per rule in the pattern cache */
+  private track(seen: ReviewFinding[], fixed: ReviewFinding[], failed: ReviewFinding[]): void {
+    const now = new Date().toISOString();
+    const entry = ({ issue, rule }: ReviewFinding) => {
+      const key = `${issue.category}:${rule}`;
+      let pattern = this.patterns.get(key);
+      if (!pattern) {
+        pattern = { category: issue.category, pattern: rule, occurrences: 0, lastSeen: now, autoFixSuccess: 0, autoFixFailure: 0 };
+        this.patterns.set(key, pattern);
+      }
+      pattern.lastSeen = now;
+      return pattern;
+    };
+
+    seen.forEach((f) => entry(f).occurrences++);
+    fixed.forEach((f) => entry(f).autoFixSuccess++);
+    failed.forEach((f) => entry(f).autoFixFailure++);
+  }
+}
+
+// ============================================================================
+// ANALYSIS & FIXING
+// ============================================================================
+
+function analyzerConfig(strictness: ReviewStrictness): AnalyzerConfig {
+  return { strictness, enabledCategories: getEnabledCategories(strictness), severityThreshold: SEVERITY_THRESHOLDS[strictness] };
+}
+
+function runAnalyzers(file: ReviewFile, config: AnalyzerConfig, analyzers: Analyzer[]): ReviewFinding[] {
+  const sf = parseSource(file.path, file.content);
+  if (!sf) return [];
+
+  const analysis = getCodeAnalysisService().analyzeFile(file);
+  const threshold = SEVERITY_RANK[config.severityThreshold];
+  return analyzers
+    .flatMap((analyzer) => analyzer.analyze({ file, sf, analysis }))
+    .filter((f) => config.enabledCategories.includes(f.issue.category) && SEVERITY_RANK[f.issue.severity] >= threshold);
+}
+
+/** Fixable findings whose edits do not overlap an earlier finding's */
+function nonOverlapping(findings: ReviewFinding[]): ReviewFinding[] {
+  const taken: TextEdit[] = [];
+  const overlaps = (a: TextEdit, b: TextEdit) => (a.start < b.end && b.start < a.end) || (a.start === b.start && a.end === b.end);
+
+  return findings.filter((f) => {
+    const edits = f.edits ?? [];
+    if (edits.some((e) => taken.some((t) => overlaps(e, t)))) return false;
+    taken.push(...edits);
+    return true;
+  });
+}
+
+function applyEdits(content: string, edits: TextEdit[]): string {
+  // Back to front so earlier offsets stay valid; inserts at one offset keep their order
+  const ordered = edits.map((e, i) => ({ ...e, i })).sort((a, b) => b.start - a.start || b.i - a.i);
+  let result = content;
+  for (const edit of ordered) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/** The lines a finding's edits touch, before and after applying them */
+function appliedFix(path: string, content: string, finding: ReviewFinding): AppliedFix {
+  const edits = finding.edits ?? [];
+  const from = content.lastIndexOf('\n', Math.min(...edits.map((e) => e.start)) - 1) + 1;
+  const lineEnd = content.indexOf('\n', Math.max(...edits.map((e) => e.end)));
+  const to = lineEnd === -1 ? content.length : lineEnd;
+  const beforeCode = content.slice(from, to);
+
+  return {
+    issueId: finding.issue.id,
+    file: path,
+    line: finding.issue.line,
+    beforeCode,
+    afterCode: applyEdits(beforeCode, edits.map((e) => ({ ...e, start: e.start - from, end: e.end - from }))),
+    description: finding.fixDescription ?? finding.issue.message,
+    category: finding.issue.category,
+    functionalityPreserved: true,
+  };
+}
+
+// ============================================================================
+// REQUIREMENTS
+// ============================================================================
+
+/**
+ * Match expected features against the code: a feature counts as present
+ * when most of the distinctive words in its name appear in the files.
+ */
+function checkRequirements(
+  files: ReviewFile[],
+  requirements: ComprehensiveReviewContext
+): { issues: ReviewIssue[]; score: number } {
+  const features = [
+    ...new Set([...(requirements.expectedFeatures ?? []), ...requirements.allFeatures.map((f) => f.name)]),
+  ];
+  if (features.length === 0) return { issues: [], score: 100 };
+
+  const corpus = files.map((f) => f.content).join('\n').toLowerCase();
+  const priority = new Map(requirements.allFeatures.map((f) => [f.name, f.priority]));
+  const issues: ReviewIssue[] = [];
+
+  for (const feature of features) {
+    const words = feature
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((w) => w.length > 3 && !FEATURE_STOPWORDS.has(w));
+    if (words.length === 0) continue;
+    const found = words.filter((w) => corpus.includes(w)).length;
+    if (found / words.length >= 0.5) continue;
+
+    issues.push({
+      id: generateIssueId('missing_feature', '', undefined),
+      category: 'missing_feature',
+      severity: priority.get(feature) === 'high' ? 'high' : 'medium',
+      file: files[0]?.path ?? '',
+      message: `Feature "${feature}" does not appear to be implemented`,
+      suggestion: `Implement "${feature}" or confirm it is covered under another name`,
+      autoFixable: false,
+      requirementRef: feature,
+    });
+  }
+
+  return { issues, score: Math.round(((features.length - issues.length) / features.length) * 100) };
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+function buildReport(input: {
+  request: ReviewRequest;
+  strictness: ReviewStrictness;
+  issues: ReviewIssue[];
+  fixes: AppliedFix[];
+  requirementsScore?: number;
+  logicReviewed: boolean;
+  durationMs: number;
+}): QualityReport {
+  const { request, issues, fixes } = input;
+
+  const issuesByCategory: Partial<Record<IssueCategory, number>> = {};
+  const issuesBySeverity: Record<IssueSeverity, number> = { critical: 0, high: 0, medium: 0, low: 0 };
+  const byScore = new Map<keyof CategoryScores, ReviewIssue[]>();
+  for (const issue of issues) {
+    issuesByCategory[issue.category] = (issuesByCategory[issue.category] ?? 0) + 1;
+    issuesBySeverity[issue.severity]++;
+    const key = SCORE_CATEGORIES[issue.category];
+    byScore.set(key, [...(byScore.get(key) ?? []), issue]);
+  }
+
+  const score = (key: keyof CategoryScores) => calculateScore(byScore.get(key) ?? []);
+  const scores: CategoryScores = {
+    syntax: score('syntax'),
+    security: score('security'),
+    bestPractices: score('bestPractices'),
+    performance: score('performance'),
+    accessibility: score('accessibility'),
+    ...(input.requirementsScore !== undefined ? { requirements: input.requirementsScore } : {}),
+    ...(input.logicReviewed ? { logic: score('logic') } : {}),
+  };
+
+  const weighted = (Object.keys(scores) as (keyof CategoryScores)[]).map((key) => [scores[key] ?? 100, SCORE_WEIGHTS[key]]);
+  const totalWeight = weighted.reduce((sum, [, w]) => sum + w, 0);
+  const overallScore = Math.round(weighted.reduce((sum, [s, w]) => sum + s * w, 0) / totalWeight);
+
+  const report: QualityReport = {
+    timestamp: new Date().toISOString(),
+    reviewType: request.reviewType,
+    ...(request.phaseContext ? { phaseNumber: request.phaseContext.phaseNumber, phaseName: request.phaseContext.phaseName } : {}),
+    totalIssues: issues.length + fixes.length,
+    fixedIssues: fixes.length,
+    remainingIssues: issues.length,
+    issuesByCategory,
+    issuesBySeverity,
+    scores,
+    overallScore,
+    passed: false,
+    issues,
+    fixes,
+    validationComplete: true,
+    reviewComplete: true,
+    durationMs: input.durationMs,
+  };
+  report.passed = passesQualityCheck(report, MIN_SCORES[input.strictness]).passed;
+  return report;
+}
+
+/** Why a report failed its strictness gate, or null if it passed */
+export function qualityGateFailure(report: QualityReport, strictness: ReviewStrictness = 'standard'): string | null {
+  return passesQualityCheck(report, MIN_SCORES[strictness]).reason ?? null;
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let _instance: CodeReviewServiceInstance | null = null;
+
+export function getCodeReviewService(): CodeReviewServiceInstance {
+  if (!_instance) {
+    _instance = new CodeReviewServiceInstance();
+  }
+  return _instance;
+}
+
+export type { CodeReviewServiceInstance };
@@ -0,0 +1,963 @@
+/**
+ * Code Review Analyzers
+ *
+ * Deterministic, syntax-tree checks run by CodeReviewService on each file.
+ * Every analyzer returns findings: a ReviewIssue plus, for safe fixes, the
+ * text edits that resolve it. Fixes only ever add keys, add missing React
+ * hook imports or drop unused imports — never anything that changes what
+ * the code does.
+ *
+ * Type errors need a full Program and are left to sandbox validation.
+ */
+
+import * as ts from 'typescript';
+import type { FileAnalysis } from '@/types/codeContext';
+import {
+  generateIssueId,
+  type IssueCategory,
+  type IssueSeverity,
+  type ReviewFile,
+  type ReviewIssue,
+} from '@/types/codeReview';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A text replacement, in character offsets into the file's content */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** An issue found by an analyzer, with the edits that fix it if it is auto-fixable */
+export interface ReviewFinding {
+  issue: ReviewIssue;
+  /** Stable name of the check, tracked across reviews in the pattern cache */
+  rule: string;
+  edits?: TextEdit[];
+  /** What applying the edits does, for AppliedFix.description */
+  fixDescription?: string;
+}
+
+export interface AnalyzerContext {
+  file: ReviewFile;
+  sf: ts.SourceFile;
+  analysis: FileAnalysis;
+}
+
+export interface Analyzer {
+  name: string;
+  analyze(context: AnalyzerContext): ReviewFinding[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Calls that run a SQL string */
+const SQL_SINKS = new Set(['query', 'execute', 'raw', '$queryRawUnsafe', '$executeRawUnsafe']);
+
+/** Calls that run a shell command string */
+const SHELL_SINKS = new Set(['exec', 'execSync']);
+
+const SQL_KEYWORDS = /\b(SELECT|INSERT|UPDATE|DELETE|DROP|WHERE)\b/i;
+
+/** Calls that make HTML safe to inject */
+const SANITIZERS = /\b(sanitize|sanitizeHtml|purify|escapeHtml)\b/i;
+
+/** Hooks whose last argument is a dependency array, with the index of their callback */
+const DEPENDENCY_HOOKS: Record<string, number> = {
+  useEffect: 0,
+  useLayoutEffect: 0,
+  useInsertionEffect: 0,
+  useCallback: 0,
+  useMemo: 0,
+  useImperativeHandle: 1,
+};
+
+/** React hooks that can be imported automatically when missing */
+const REACT_HOOKS = new Set([
+  'useState',
+  'useEffect',
+  'useLayoutEffect',
+  'useRef',
+  'useMemo',
+  'useCallback',
+  'useContext',
+  'useReducer',
+  'useId',
+  'useTransition',
+  'useDeferredValue',
+  'useImperativeHandle',
+  'useSyncExternalStore',
+  'useOptimistic',
+  'useActionState',
+]);
+
+/** Intrinsic elements that are interactive on their own */
+const INTERACTIVE_TAGS = new Set(['a', 'button', 'input', 'select', 'textarea', 'option', 'label', 'summary']);
+
+/** Render-time calls worth memoizing */
+const EXPENSIVE_CALLS = new Set(['sort', 'toSorted', 'parse', 'stringify', 'structuredClone']);
+
+/** Longest code snippet attached to an issue */
+const MAX_SNIPPET = 120;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function finding(
+  context: AnalyzerContext,
+  node: ts.Node,
+  category: IssueCategory,
+  severity: IssueSeverity,
+  rule: string,
+  message: string,
+  extras: { suggestion?: string; edits?: TextEdit[]; fixDescription?: string } = {}
+): ReviewFinding {
+  const { sf, file } = context;
+  const start = sf.getLineAndCharacterOfPosition(node.getStart(sf));
+  const end = sf.getLineAndCharacterOfPosition(node.end);
+  const code = node.getText(sf).split('\n')[0].slice(0, MAX_SNIPPET);
+
+  return {
+    issue: {
+      id: generateIssueId(category, file.path, start.line + 1),
+      category,
+      severity,
+      file: file.path,
+      line: start.line + 1,
+      column: start.character + 1,
+      endLine: end.line + 1,
+      endColumn: end.character + 1,
+      message,
+      code,
+      ...(extras.suggestion ? { suggestion: extras.suggestion } : {}),
+      autoFixable: !!extras.edits,
+    },
+    rule,
+    ...(extras.edits ? { edits: extras.edits, fixDescription: extras.fixDescription } : {}),
+  };
+}
+
+function visit(node: ts.Node, callback: (node: ts.Node) => void): void {
+  callback(node);
+  ts.forEachChild(node, (child) => visit(child, callback));
+}
+
+function calleeName(call: ts.CallExpression | ts.NewExpression): string | undefined {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee)) return callee.text;
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+  return undefined;
+}
+
+function isHookName(name: string): boolean {
+  return /^use[A-Z0-9]/.test(name);
+}
+
+type FunctionNode = ts.FunctionLikeDeclaration;
+
+function enclosingFunction(node: ts.Node): FunctionNode | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isFunctionLike(current) && 'body' in current) return current as FunctionNode;
+  }
+  return undefined;
+}
+
+/** The name a function is declared or bound under (through memo/forwardRef wrappers) */
+function functionName(fn: FunctionNode): string | undefined {
+  if ((ts.isFunctionDeclaration(fn) || ts.isFunctionExpression(fn) || ts.isMethodDeclaration(fn)) && fn.name) {
+    return fn.name.getText();
+  }
+  let parent = fn.parent;
+  while (parent && ts.isCallExpression(parent) && ['memo', 'forwardRef'].includes(calleeName(parent) ?? '')) {
+    parent = parent.parent;
+  }
+  if (parent && ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) return parent.name.text;
+  if (parent && ts.isExportAssignment(parent)) return 'default';
+  if (ts.isFunctionDeclaration(fn) && !fn.name) return 'default';
+  return undefined;
+}
+
+function isComponentOrHook(fn: FunctionNode): boolean {
+  const name = functionName(fn);
+  return !!name && (/^[A-Z]/.test(name) || isHookName(name) || name === 'default');
+}
+
+/** Names bound by a declaration name: identifiers and destructuring patterns */
+function bindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap((element) => (ts.isOmittedExpression(element) ? [] : bindingNames(element.name)));
+}
+
+/** Whether an identifier is read as a value (not a property name, key, JSX attribute or type) */
+function isValueReference(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (ts.isPropertyAccessExpression(parent) && parent.name === node) return false;
+  if (ts.isPropertyAssignment(parent) && parent.name === node) return false;
+  if (ts.isJsxAttribute(parent)) return false;
+  if (ts.isTypeReferenceNode(parent) || ts.isQualifiedName(parent)) return false;
+  if ((ts.isVariableDeclaration(parent) || ts.isParameter(parent) || ts.isBindingElement(parent)) && parent.name === node) {
+    return false;
+  }
+  if (ts.isBindingElement(parent) && parent.propertyName === node) return false;
+  if (ts.isFunctionDeclaration(parent) || ts.isClassDeclaration(parent)) return false;
+  return true;
+}
+
+function jsxAttributes(element: ts.JsxOpeningLikeElement): { names: Map<string, ts.JsxAttribute>; hasSpread: boolean } {
+  const names = new Map<string, ts.JsxAttribute>();
+  let hasSpread = false;
+  for (const property of element.attributes.properties) {
+    if (ts.isJsxSpreadAttribute(property)) hasSpread = true;
+    else names.set(property.name.getText(), property);
+  }
+  return { names, hasSpread };
+}
+
+function stringAttribute(attribute: ts.JsxAttribute | undefined): string | undefined {
+  const initializer = attribute?.initializer;
+  if (initializer && ts.isStringLiteral(initializer)) return initializer.text;
+  return undefined;
+}
+
+function unwrapParentheses(expression: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(expression)) expression = expression.expression;
+  return expression;
+}
+
+// ============================================================================
+// SYNTAX
+// ============================================================================
+
+export const syntaxAnalyzer: Analyzer = {
+  name: 'syntax',
+  analyze(context) {
+    const { file, sf } = context;
+    return syntaxDiagnostics(file.path, file.content)
+      .filter((d) => d.start !== undefined)
+      .map((d) => {
+        const message = ts.flattenDiagnosticMessageText(d.messageText, '\n');
+        const node = findNodeAt(sf, d.start ?? 0);
+        return finding(context, node, 'syntax_error', 'critical', `TS${d.code}`, message);
+      });
+  },
+};
+
+/** Syntax errors in a file: used to verify that applied fixes did not break it */
+export function countSyntaxErrors(path: string, content: string): number {
+  return syntaxDiagnostics(path, content).length;
+}
+
+function syntaxDiagnostics(path: string, content: string): readonly ts.Diagnostic[] {
+  const { diagnostics = [] } = ts.transpileModule(content, {
+    fileName: path,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.ESNext, module: ts.ModuleKind.ESNext },
+  });
+  return diagnostics;
+}
+
+function findNodeAt(sf: ts.SourceFile, position: number): ts.Node {
+  let found: ts.Node = sf;
+  const descend = (node: ts.Node) => {
+    if (position >= node.getStart(sf) && position < node.end) {
+      found = node;
+      ts.forEachChild(node, descend);
+    }
+  };
+  ts.forEachChild(sf, descend);
+  return found;
+}
+
+// ============================================================================
+// SECURITY
+// ============================================================================
+
+export const securityAnalyzer: Analyzer = {
+  name: 'security',
+  analyze(context) {
+    const findings: ReviewFinding[] = [];
+    const { sf } = context;
+
+    visit(sf, (node) => {
+      if (ts.isJsxAttribute(node) && node.name.getText(sf) === 'dangerouslySetInnerHTML') {
+        if (!SANITIZERS.test(node.initializer?.getText(sf) ?? '')) {
+          findings.push(
+            finding(context, node, 'security_xss', 'high', 'unsanitized-inner-html', 'dangerouslySetInnerHTML renders unsanitized HTML', {
+              suggestion: 'Render text content instead, or sanitize the HTML (e.g. DOMPurify.sanitize) first',
+            })
+          );
+        }
+      } else if (
+        ts.isBinaryExpression(node) &&
+        node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+        ts.isPropertyAccessExpression(node.left) &&
+        ['innerHTML', 'outerHTML'].includes(node.left.name.text) &&
+        !ts.isStringLiteralLike(node.right) &&
+        !SANITIZERS.test(node.right.getText(sf))
+      ) {
+        findings.push(
+          finding(context, node, 'security_xss', 'high', 'dynamic-inner-html', `Assigning dynamic content to ${node.left.name.text}`, {
+            suggestion: 'Use textContent, or sanitize the HTML first',
+          })
+        );
+      } else if (ts.isCallExpression(node)) {
+        checkCall(context, node, findings);
+      } else if (ts.isNewExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'Function') {
+        findings.push(
+          finding(context, node, 'security_eval', 'critical', 'new-function', 'new Function() compiles code from a string', {
+            suggestion: 'Replace the generated code with a regular function',
+          })
+        );
+      }
+    });
+
+    return findings;
+  },
+};
+
+function checkCall(context: AnalyzerContext, call: ts.CallExpression, findings: ReviewFinding[]): void {
+  const { sf } = context;
+  const name = calleeName(call);
+  const first = call.arguments[0];
+  if (!name) return;
+
+  if (name === 'eval' && (ts.isIdentifier(call.expression) || call.expression.getText(sf) === 'window.eval')) {
+    findings.push(
+      finding(context, call, 'security_eval', 'critical', 'eval', 'eval() executes arbitrary code', {
+        suggestion: 'Parse data with JSON.parse or replace the evaluated code with a function',
+      })
+    );
+  } else if ((name === 'setTimeout' || name === 'setInterval') && first && ts.isStringLiteralLike(first)) {
+    findings.push(
+      finding(context, call, 'security_eval', 'high', 'string-timer', `${name} with a string evaluates it as code`, {
+        suggestion: 'Pass a function instead of a string',
+      })
+    );
+  } else if (name === 'insertAdjacentHTML' || (name === 'write' && call.expression.getText(sf) === 'document.write')) {
+    findings.push(
+      finding(context, call, 'security_xss', 'medium', 'html-injection-api', `${call.expression.getText(sf)} injects raw HTML`, {
+        suggestion: 'Build DOM nodes or render with React instead',
+      })
+    );
+  } else if (first && (SQL_SINKS.has(name) || SHELL_SINKS.has(name)) && isDynamicString(first)) {
+    const isSql = SQL_SINKS.has(name);
+    if (isSql && !SQL_KEYWORDS.test(first.getText(sf))) return;
+    findings.push(
+      finding(
+        context,
+        call,
+        'security_injection',
+        'critical',
+        isSql ? 'sql-interpolation' : 'shell-interpolation',
+        isSql ? 'SQL built from interpolated values' : 'Shell command built from interpolated values',
+        {
+          suggestion: isSql
+            ? 'Use parameterized queries (placeholders or a tagged sql`` template)'
+            : 'Pass arguments as an array (execFile/spawn) instead of interpolating them',
+        }
+      )
+    );
+  }
+}
+
+/** A template with substitutions, or a concatenation involving a non-literal */
+function isDynamicString(expression: ts.Expression): boolean {
+  if (ts.isTemplateExpression(expression)) return true;
+  if (ts.isBinaryExpression(expression) && expression.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    return !ts.isStringLiteralLike(expression.left) || !ts.isStringLiteralLike(expression.right);
+  }
+  return false;
+}
+
+// ============================================================================
+// REACT
+// ============================================================================
+
+export const reactAnalyzer: Analyzer = {
+  name: 'react',
+  analyze(context) {
+    const findings: ReviewFinding[] = [];
+
+    visit(context.sf, (node) => {
+      if (!ts.isCallExpression(node)) return;
+      const name = calleeName(node);
+      if (!name) return;
+
+      if (isHookName(name) && (ts.isIdentifier(node.expression) || node.expression.getText(context.sf).startsWith('React.'))) {
+        const hookFinding = checkHookCall(context, node, name);
+        if (hookFinding) findings.push(hookFinding);
+        if (name in DEPENDENCY_HOOKS) {
+          const depsFinding = checkDependencies(context, node, name);
+          if (depsFinding) findings.push(depsFinding);
+        }
+      } else if (name === 'map' && ts.isPropertyAccessExpression(node.expression)) {
+        const keyFinding = checkListKeys(context, node);
+        if (keyFinding) findings.push(keyFinding);
+      }
+    });
+
+    return findings;
+  },
+};
+
+function checkHookCall(context: AnalyzerContext, call: ts.CallExpression, name: string): ReviewFinding | null {
+  const fn = enclosingFunction(call);
+  if (!fn) {
+    return finding(context, call, 'react_invalid_hook', 'high', 'hook-at-module-level', `${name} is called outside any component`, {
+      suggestion: 'Call hooks at the top level of a function component or custom hook',
+    });
+  }
+
+  if (!isComponentOrHook(fn)) {
+    let outer = enclosingFunction(fn);
+    while (outer && !isComponentOrHook(outer)) outer = enclosingFunction(outer);
+    return outer
+      ? finding(context, call, 'react_hooks_rule', 'critical', 'hook-in-callback', `${name} is called inside a nested function`, {
+          suggestion: 'Move the hook call to the top level of the component',
+        })
+      : finding(
+          context,
+          call,
+          'react_invalid_hook',
+          'high',
+          'hook-outside-component',
+          `${name} is called in ${functionName(fn) ?? 'a function'}, which is neither a component nor a hook`,
+          { suggestion: 'Rename the function to a component (PascalCase) or a hook (use…), or move the call' }
+        );
+  }
+
+  for (let current: ts.Node = call.parent; current !== fn; current = current.parent) {
+    const conditional =
+      ts.isIfStatement(current) ||
+      ts.isConditionalExpression(current) ||
+      ts.isSwitchStatement(current) ||
+      ts.isIterationStatement(current, false) ||
+      (ts.isBinaryExpression(current) &&
+        [ts.SyntaxKind.AmpersandAmpersandToken, ts.SyntaxKind.BarBarToken, ts.SyntaxKind.QuestionQuestionToken].includes(
+          current.operatorToken.kind
+        ));
+    if (conditional) {
+      return finding(context, call, 'react_hooks_rule', 'critical', 'conditional-hook', `${name} is called conditionally`, {
+        suggestion: 'Call hooks unconditionally, in the same order on every render',
+      });
+    }
+  }
+
+  // A hook after an early return is skipped on some renders
+  if (fn.body && ts.isBlock(fn.body)) {
+    const statement = fn.body.statements.find((s) => s.pos <= call.pos && call.end <= s.end);
+    const earlier = statement ? fn.body.statements.slice(0, fn.body.statements.indexOf(statement)) : [];
+    if (earlier.some(containsReturn)) {
+      return finding(context, call, 'react_hooks_rule', 'critical', 'hook-after-return', `${name} is called after an early return`, {
+        suggestion: 'Move the hook above any early return',
+      });
+    }
+  }
+  return null;
+}
+
+function containsReturn(node: ts.Node): boolean {
+  if (ts.isReturnStatement(node)) return true;
+  if (ts.isFunctionLike(node)) return false;
+  return ts.forEachChild(node, (child) => (containsReturn(child) ? true : undefined)) ?? false;
+}
+
+function checkDependencies(context: AnalyzerContext, call: ts.CallExpression, name: string): ReviewFinding | null {
+  const callback = call.arguments[DEPENDENCY_HOOKS[name]];
+  const deps = call.arguments[call.arguments.length - 1];
+  const component = enclosingFunction(call);
+  if (!callback || !deps || callback === deps || !ts.isArrayLiteralExpression(deps)) return null;
+  if (!ts.isArrowFunction(callback) && !ts.isFunctionExpression(callback)) return null;
+  if (!component || !isComponentOrHook(component) || !component.body) return null;
+
+  const { locals, stable } = componentScope(component);
+  const declaredInside = new Set<string>();
+  visit(callback, (node) => {
+    if (ts.isVariableDeclaration(node) || ts.isParameter(node)) bindingNames(node.name).forEach((n) => declaredInside.add(n));
+  });
+
+  const depTexts = deps.elements.map((e) => e.getText(context.sf).replace(/\s+/g, ''));
+  const covered = (ref: string) => depTexts.some((d) => d === ref || d.startsWith(`${ref}.`) || d.startsWith(`${ref}?.`));
+
+  const missing = new Set<string>();
+  visit(callback.body, (node) => {
+    if (!ts.isIdentifier(node) || !isValueReference(node)) return;
+    const ref = node.text;
+    if (locals.has(ref) && !stable.has(ref) && !declaredInside.has(ref) && !covered(ref)) missing.add(ref);
+  });
+  if (missing.size === 0) return null;
+
+  const names = [...missing].join(', ');
+  return finding(context, call, 'react_missing_deps', 'medium', 'missing-deps', `${name} is missing dependencies: ${names}`, {
+    suggestion: `Add ${names} to the dependency array, or move the values inside the callback`,
+  });
+}
+
+/** Names declared in a component's props and body, and those React keeps stable across renders */
+function componentScope(component: FunctionNode): { locals: Set<string>; stable: Set<string> } {
+  const locals = new Set<string>(component.parameters.flatMap((p) => bindingNames(p.name)));
+  const stable = new Set<string>();
+
+  const collect = (node: ts.Node) => {
+    if (ts.isFunctionLike(node)) {
+      if (ts.isFunctionDeclaration(node) && node.name) locals.add(node.name.text);
+      return;
+    }
+    if (ts.isVariableDeclaration(node)) {
+      bindingNames(node.name).forEach((n) => locals.add(n));
+      const init = node.initializer && ts.isCallExpression(node.initializer) ? calleeName(node.initializer) : undefined;
+      if (init === 'useRef' && ts.isIdentifier(node.name)) stable.add(node.name.text);
+      // const [state, setState] = useState(...) / [state, dispatch] = useReducer(...)
+      if ((init === 'useState' || init === 'useReducer' || init === 'useTransition') && ts.isArrayBindingPattern(node.name)) {
+        const second = node.name.elements[1];
+        if (second && ts.isBindingElement(second)) bindingNames(second.name).forEach((n) => stable.add(n));
+      }
+    }
+    ts.forEachChild(node, collect);
+  };
+  if (component.body) ts.forEachChild(component.body, collect);
+
+  return { locals, stable };
+}
+
+function checkListKeys(context: AnalyzerContext, call: ts.CallExpression): ReviewFinding | null {
+  const { sf } = context;
+  const callback = call.arguments[0];
+  if (!callback || (!ts.isArrowFunction(callback) && !ts.isFunctionExpression(callback))) return null;
+
+  const returned: ts.Expression[] = [];
+  if (!ts.isBlock(callback.body)) {
+    returned.push(unwrapParentheses(callback.body));
+  } else {
+    visit(callback.body, (node) => {
+      if (ts.isReturnStatement(node) && node.expression && enclosingFunction(node) === callback) {
+        returned.push(unwrapParentheses(node.expression));
+      }
+    });
+  }
+
+  const missing: ts.JsxOpeningLikeElement[] = [];
+  let fragment: ts.JsxFragment | undefined;
+  for (const expression of returned) {
+    if (ts.isJsxFragment(expression)) fragment ??= expression;
+    const opening = ts.isJsxElement(expression) ? expression.openingElement : ts.isJsxSelfClosingElement(expression) ? expression : null;
+    if (!opening) continue;
+    const { names, hasSpread } = jsxAttributes(opening);
+    if (!names.has('key') && !hasSpread) missing.push(opening);
+  }
+
+  if (fragment) {
+    return finding(context, fragment, 'react_missing_key', 'medium', 'keyless-fragment', 'List items rendered as <>…</> cannot have a key', {
+      suggestion: 'Use <Fragment key={…}> for each item',
+    });
+  }
+  if (missing.length === 0) return null;
+
+  const fix = keyEdits(sf, callback, missing);
+  return finding(context, missing[0], 'react_missing_key', 'medium', 'missing-key', 'Elements rendered by .map() have no key prop', {
+    suggestion: 'Give each item a stable key, such as its id',
+    ...(fix ? { edits: fix.edits, fixDescription: `Added key={${fix.indexName}} to list items` } : {}),
+  });
+}
+
+/**
+ * Edits that key each element by the callback's index parameter, adding
+ * that parameter if needed. React keys by index when no key is given, so
+ * this silences the warning without changing behaviour.
+ */
+function keyEdits(
+  sf: ts.SourceFile,
+  callback: ts.ArrowFunction | ts.FunctionExpression,
+  elements: ts.JsxOpeningLikeElement[]
+): { edits: TextEdit[]; indexName: string } | null {
+  const params = callback.parameters;
+  const edits: TextEdit[] = [];
+  let indexName: string;
+
+  if (params.length >= 2) {
+    if (!ts.isIdentifier(params[1].name)) return null;
+    indexName = params[1].name.text;
+  } else {
+    const used = new Set<string>();
+    visit(callback, (node) => {
+      if (ts.isIdentifier(node)) used.add(node.text);
+    });
+    indexName = ['index', 'idx', 'itemIndex', 'listIndex'].find((n) => !used.has(n)) ?? '';
+    if (!indexName) return null;
+
+    if (params.length === 0) {
+      const open = sf.text.indexOf('(', callback.getStart(sf));
+      edits.push({ start: open + 1, end: open + 1, text: `_item, ${indexName}` });
+    } else {
+      const param = params[0];
+      if (param.dotDotDotToken) return null;
+      const beforeParam = sf.text.slice(callback.getStart(sf), param.getStart(sf));
+      if (beforeParam.includes('(')) {
+        edits.push({ start: param.end, end: param.end, text: `, ${indexName}` });
+      } else {
+        edits.push({ start: param.getStart(sf), end: param.getStart(sf), text: '(' });
+        edits.push({ start: param.end, end: param.end, text: `, ${indexName})` });
+      }
+    }
+  }
+
+  for (const element of elements) {
+    const at = element.typeArguments?.end ?? element.tagName.end;
+    edits.push({ start: at, end: at, text: ` key={${indexName}}` });
+  }
+  return { edits, indexName };
+}
+
+// ============================================================================
+// PERFORMANCE
+// ============================================================================
+
+export const performanceAnalyzer: Analyzer = {
+  name: 'performance',
+  analyze(context) {
+    const findings: ReviewFinding[] = [];
+    const { sf, analysis } = context;
+    const memoized = new Set(analysis.components.filter((c) => c.hasMemo).map((c) => c.name));
+
+    visit(sf, (node) => {
+      if (ts.isJsxAttribute(node) && node.initializer && ts.isJsxExpression(node.initializer) && node.initializer.expression) {
+        const element = node.parent.parent;
+        const tag = element.tagName.getText(sf);
+        if (!/^[A-Z]/.test(tag)) return;
+        const value = node.initializer.expression;
+        const inline = ts.isObjectLiteralExpression(value) || ts.isArrayLiteralExpression(value);
+        const inlineFn = (ts.isArrowFunction(value) || ts.isFunctionExpression(value)) && memoized.has(tag);
+        if (inline || inlineFn) {
+          findings.push(
+            finding(
+              context,
+              node,
+              'performance_rerender',
+              'low',
+              inline ? 'inline-literal-prop' : 'inline-callback-to-memo',
+              `${inline ? 'A new object/array' : 'A new function'} is passed to <${tag}> as ${node.name.getText(sf)} on every render`,
+              { suggestion: inline ? 'Hoist the value or wrap it in useMemo' : 'Wrap the callback in useCallback' }
+            )
+          );
+        }
+      } else if (ts.isCallExpression(node)) {
+        const name = calleeName(node);
+        const fn = enclosingFunction(node);
+        if (!name || !EXPENSIVE_CALLS.has(name) || !fn || !isComponentOrHook(fn) || isHookName(functionName(fn) ?? '')) return;
+        if ((name === 'parse' || name === 'stringify') && node.expression.getText(sf) !== `JSON.${name}`) return;
+        findings.push(
+          finding(context, node, 'performance_expensive', 'low', 'render-time-computation', `${node.expression.getText(sf)}() runs on every render`, {
+            suggestion: 'Wrap the computation in useMemo',
+          })
+        );
+      }
+    });
+
+    return findings;
+  },
+};
+
+// ============================================================================
+// ACCESSIBILITY
+// ============================================================================
+
+export const accessibilityAnalyzer: Analyzer = {
+  name: 'accessibility',
+  analyze(context) {
+    const findings: ReviewFinding[] = [];
+    const { sf } = context;
+
+    visit(sf, (node) => {
+      if (!ts.isJsxOpeningElement(node) && !ts.isJsxSelfClosingElement(node)) return;
+      const tag = node.tagName.getText(sf);
+      const { names, hasSpread } = jsxAttributes(node);
+      if (hasSpread || !/^[a-z]/.test(tag)) return;
+
+      const labelled = names.has('aria-label') || names.has('aria-labelledby') || names.has('title');
+      const issue = (rule: string, severity: IssueSeverity, message: string, suggestion: string) =>
+        findings.push(finding(context, node, 'accessibility', severity, rule, message, { suggestion }));
+
+      if (tag === 'img' && !names.has('alt')) {
+        issue('img-alt', 'medium', '<img> has no alt text', 'Describe the image in alt, or use alt="" if it is decorative');
+      } else if (tag === 'button' && !labelled && !hasContent(node)) {
+        issue('button-name', 'medium', '<button> has no accessible name', 'Add text content or an aria-label');
+      } else if (tag === 'a' && !names.has('href')) {
+        issue('anchor-href', 'low', '<a> without href is not keyboard accessible', 'Add an href, or use a <button> for actions');
+      } else if (
+        tag === 'input' &&
+        !['hidden', 'submit', 'button', 'reset', 'image'].includes(stringAttribute(names.get('type')) ?? '') &&
+        !labelled &&
+        !names.has('id') &&
+        !names.has('placeholder')
+      ) {
+        issue('input-label', 'low', '<input> has no label', 'Add an aria-label, or an id referenced by a <label htmlFor>');
+      } else if (!INTERACTIVE_TAGS.has(tag) && names.has('onClick') && !names.has('role')) {
+        issue(
+          'click-without-role',
+          'low',
+          `Clickable <${tag}> is not keyboard accessible`,
+          'Use a <button>, or add role="button", tabIndex={0} and a key handler'
+        );
+      }
+    });
+
+    return findings;
+  },
+};
+
+/** Whether an element has any children (text, expressions or elements) */
+function hasContent(element: ts.JsxOpeningLikeElement): boolean {
+  if (!ts.isJsxOpeningElement(element)) return false;
+  return element.parent.children.some((child) => !ts.isJsxText(child) || child.text.trim() !== '');
+}
+
+// ============================================================================
+// IMPORTS
+// ============================================================================
+
+export const importAnalyzer: Analyzer = {
+  name: 'imports',
+  analyze(context) {
+    const { sf } = context;
+    const referenced = new Set<string>();
+    const declared = new Set<string>();
+    let hasJsx = false;
+
+    visit(sf, (node) => {
+      if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) hasJsx = true;
+      if (ts.isIdentifier(node) && !isInImportDeclaration(node)) referenced.add(node.text);
+      if (ts.isVariableDeclaration(node) || ts.isParameter(node) || ts.isBindingElement(node)) {
+        bindingNames(node.name).forEach((n) => declared.add(n));
+      } else if (
+        (ts.isFunctionDeclaration(node) ||
+          ts.isFunctionExpression(node) ||
+          ts.isClassDeclaration(node) ||
+          ts.isClassExpression(node) ||
+          ts.isInterfaceDeclaration(node) ||
+          ts.isTypeAliasDeclaration(node) ||
+          ts.isEnumDeclaration(node)) &&
+        node.name
+      ) {
+        declared.add(node.name.text);
+      }
+    });
+
+    const imports = sf.statements.filter(ts.isImportDeclaration);
+    for (const declaration of imports) {
+      importedNames(declaration).forEach((n) => declared.add(n));
+    }
+
+    return [
+      ...imports.flatMap((declaration) => unusedImport(context, declaration, referenced, hasJsx)),
+      ...missingImports(context, imports, declared),
+    ];
+  },
+};
+
+function isInImportDeclaration(node: ts.Node): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isImportDeclaration(current)) return true;
+  }
+  return false;
+}
+
+function importedNames(declaration: ts.ImportDeclaration): string[] {
+  const clause = declaration.importClause;
+  if (!clause) return [];
+  const names = clause.name ? [clause.name.text] : [];
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) names.push(bindings.name.text);
+  else if (bindings) names.push(...bindings.elements.map((e) => e.name.text));
+  return names;
+}
+
+/** Rebuild an import declaration with only the given bindings, keeping its quotes and semicolon */
+function importText(
+  sf: ts.SourceFile,
+  declaration: ts.ImportDeclaration,
+  defaultName: string | undefined,
+  named: string[],
+  namespace?: string
+): string {
+  const parts = [
+    ...(defaultName ? [defaultName] : []),
+    ...(namespace ? [`* as ${namespace}`] : []),
+    ...(named.length > 0 ? [`{ ${named.join(', ')} }`] : []),
+  ];
+  const typeOnly = declaration.importClause?.isTypeOnly ? 'type ' : '';
+  const semicolon = declaration.getText(sf).trimEnd().endsWith(';') ? ';' : '';
+  return `import ${typeOnly}${parts.join(', ')} from ${declaration.moduleSpecifier.getText(sf)}${semicolon}`;
+}
+
+function unusedImport(
+  context: AnalyzerContext,
+  declaration: ts.ImportDeclaration,
+  referenced: Set<string>,
+  hasJsx: boolean
+): ReviewFinding[] {
+  const { sf } = context;
+  const clause = declaration.importClause;
+  if (!clause) return [];
+
+  // The classic JSX runtime needs React in scope even when it is never named
+  const isUsed = (name: string) => referenced.has(name) || (name === 'React' && hasJsx);
+  const bindings = clause.namedBindings;
+  const namespace = bindings && ts.isNamespaceImport(bindings) ? bindings.name.text : undefined;
+  const named = bindings && ts.isNamedImports(bindings) ? bindings.elements : undefined;
+
+  const unused = importedNames(declaration).filter((n) => !isUsed(n));
+  if (unused.length === 0) return [];
+
+  const keptDefault = clause.name && isUsed(clause.name.text) ? clause.name.text : undefined;
+  const keptNamespace = namespace && isUsed(namespace) ? namespace : undefined;
+  const keptNamed = (named ?? []).filter((e) => isUsed(e.name.text)).map((e) => e.getText(sf));
+
+  const start = declaration.getStart(sf);
+  const removeAll = !keptDefault && !keptNamespace && keptNamed.length === 0;
+  const edit: TextEdit = removeAll
+    ? { start, end: declaration.end + (sf.text[declaration.end] === '\n' ? 1 : 0), text: '' }
+    : { start, end: declaration.end, text: importText(sf, declaration, keptDefault, keptNamed, keptNamespace) };
+
+  const source = (declaration.moduleSpecifier as ts.StringLiteral).text;
+  return [
+    finding(context, declaration, 'import_unused', 'low', 'unused-import', `Unused import${unused.length > 1 ? 's' : ''} ${unused.join(', ')} from '${source}'`, {
+      suggestion: 'Remove the unused import',
+      edits: [edit],
+      fixDescription: removeAll ? `Removed unused import from '${source}'` : `Removed unused ${unused.join(', ')} from '${source}' import`,
+    }),
+  ];
+}
+
+function missingImports(context: AnalyzerContext, imports: ts.ImportDeclaration[], declared: Set<string>): ReviewFinding[] {
+  const { sf } = context;
+  const missingHooks = new Map<string, ts.Node>();
+  const missingComponents = new Map<string, ts.Node>();
+
+  visit(sf, (node) => {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+      const name = node.expression.text;
+      if (isHookName(name) && !declared.has(name) && !missingHooks.has(name)) missingHooks.set(name, node);
+    } else if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+      let tag: ts.Node = node.tagName;
+      while (ts.isPropertyAccessExpression(tag)) tag = tag.expression;
+      if (ts.isIdentifier(tag) && /^[A-Z]/.test(tag.text) && !declared.has(tag.text) && !missingComponents.has(tag.text)) {
+        missingComponents.set(tag.text, node);
+      }
+    }
+  });
+
+  const findings: ReviewFinding[] = [];
+  const reactHooks = [...missingHooks.keys()].filter((n) => REACT_HOOKS.has(n));
+  if (reactHooks.length > 0) {
+    findings.push(
+      finding(context, missingHooks.get(reactHooks[0]) as ts.Node, 'import_missing', 'high', 'missing-react-import', `${reactHooks.join(', ')} used without being imported from 'react'`, {
+        suggestion: `import { ${reactHooks.join(', ')} } from 'react'`,
+        edits: [reactImportEdit(sf, imports, reactHooks)],
+        fixDescription: `Imported ${reactHooks.join(', ')} from 'react'`,
+      })
+    );
+  }
+
+  for (const [name, node] of [...missingHooks].filter(([n]) => !REACT_HOOKS.has(n)).concat([...missingComponents])) {
+    findings.push(
+      finding(context, node, 'import_missing', 'high', 'undefined-identifier', `${name} is used but never imported or declared`, {
+        suggestion: `Import or define ${name}`,
+      })
+    );
+  }
+  return findings;
+}
+
+/** Add hooks to the file's named 'react' import, or add one after the last import */
+function reactImportEdit(sf: ts.SourceFile, imports: ts.ImportDeclaration[], hooks: string[]): TextEdit {
+  const react = imports.find(
+    (d) =>
+      (d.moduleSpecifier as ts.StringLiteral).text === 'react' &&
+      !d.importClause?.isTypeOnly &&
+      !(d.importClause?.namedBindings && ts.isNamespaceImport(d.importClause.namedBindings))
+  );
+
+  if (react?.importClause) {
+    const clause = react.importClause;
+    const named = clause.namedBindings && ts.isNamedImports(clause.namedBindings) ? clause.namedBindings.elements.map((e) => e.getText(sf)) : [];
+    return {
+      start: react.getStart(sf),
+      end: react.end,
+      text: importText(sf, react, clause.name?.text, [...named, ...hooks]),
+    };
+  }
+
+  const statement = `import { ${hooks.join(', ')} } from 'react';\n`;
+  const last = imports[imports.length - 1];
+  if (last) return { start: last.end, end: last.end, text: `\n${statement.trimEnd()}` };
+
+  // After a 'use client' / 'use strict' prologue
+  const prologue = sf.statements.filter((s) => ts.isExpressionStatement(s) && ts.isStringLiteral(s.expression));
+  const after = prologue.length > 0 && prologue[0] === sf.statements[0] ? prologue[prologue.length - 1].end : 0;
+  return after > 0 ? { start: after, end: after, text: `\n${statement.trimEnd()}` } : { start: 0, end: 0, text: statement };
+}
+
+// ============================================================================
+// LOGIC
+// ============================================================================
+
+/** Soft consistency checks, run when logic analysis is requested */
+export const logicAnalyzer: Analyzer = {
+  name: 'logic',
+  analyze(context) {
+    const findings: ReviewFinding[] = [];
+    const { sf } = context;
+
+    visit(sf, (node) => {
+      if (
+        !ts.isVariableDeclaration(node) ||
+        !ts.isArrayBindingPattern(node.name) ||
+        !node.initializer ||
+        !ts.isCallExpression(node.initializer) ||
+        calleeName(node.initializer) !== 'useState'
+      ) {
+        return;
+      }
+      const component = enclosingFunction(node);
+      const [value, setter] = node.name.elements.map((e) => (ts.isBindingElement(e) && ts.isIdentifier(e.name) ? e.name.text : undefined));
+      if (!component?.body) return;
+
+      const references = new Map<string, number>();
+      visit(component.body, (child) => {
+        if (ts.isIdentifier(child) && isValueReference(child)) references.set(child.text, (references.get(child.text) ?? 0) + 1);
+      });
+
+      if (value && setter && !references.has(setter)) {
+        findings.push(
+          finding(context, node, 'logic_warning', 'low', 'state-never-updated', `State ${value} is never updated`, {
+            suggestion: 'Use a constant, or wire up the setter',
+          })
+        );
+      } else if (value && !references.has(value)) {
+        findings.push(
+          finding(context, node, 'logic_warning', 'low', 'state-never-read', `State ${value} is set but never read`, {
+            suggestion: 'Render or use the state, or remove it',
+          })
+        );
+      }
+    });
+
+    return findings;
+  },
+};
+
+/** Analyzers run on every review, in order */
+export const ANALYZERS: Analyzer[] = [
+  syntaxAnalyzer,
+  securityAnalyzer,
+  reactAnalyzer,
+  performanceAnalyzer,
+  accessibilityAnalyzer,
+  importAnalyzer,
+];
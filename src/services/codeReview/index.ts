@@ -0,0 +1,13 @@
+/**
+ * Code Review - Barrel Export
+ *
+ * Deterministic static review with safe auto-fixes (types/codeReview).
+ */
+
+export {
+  getCodeReviewService,
+  qualityGateFailure,
+  type CodeReviewServiceInstance,
+  type ReviewFilesOptions,
+} from './CodeReviewService';
+export { ANALYZERS, logicAnalyzer, type Analyzer, type ReviewFinding, type TextEdit } from './analyzers';
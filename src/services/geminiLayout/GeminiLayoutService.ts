@@ -15,7 +15,8 @@
  * This thin orchestrator class delegates to specialized modules.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { GoogleGenerativeAI } from '@google/generative-ai';
+import { MeteredGoogleGenerativeAI } from '@/services/modelGateway/meter';
 import { withGeminiRetry } from '@/utils/geminiRetry';
 import type { DetectedComponentEnhanced } from '@/types/layoutDesign';
 import type { DesignSpec } from '@/types/designSpec';
@@ -53,7 +54,7 @@ export class GeminiLayoutService {
   private initialize(): void {
     const apiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
     if (apiKey) {
-      this.client = new GoogleGenerativeAI(apiKey);
+      this.client = new MeteredGoogleGenerativeAI(apiKey);
       this.isAvailable = true;
     } else {
       console.warn('[GeminiLayoutService] API key not configured');
@@ -311,7 +312,8 @@ export class GeminiLayoutService {
     originalImage: string,
     generatedImage: string,
     components: DetectedComponentEnhanced[],
-    targetFidelity: number = 95
+    targetFidelity: number = 95,
+    signal?: AbortSignal
   ): Promise<LayoutCritiqueEnhanced> {
     if (!this.client) throw new Error('Gemini API not configured');
     return critiqueLayoutEnhancedFn(
@@ -319,7 +321,8 @@ export class GeminiLayoutService {
       originalImage,
       generatedImage,
       components,
-      targetFidelity
+      targetFidelity,
+      signal
     );
   }
 
@@ -67,13 +67,15 @@ export async function critiqueLayout(
  * @param generatedImage Base64 of generated layout screenshot
  * @param components Current component array for ID matching
  * @param targetFidelity Target fidelity percentage (default 95)
+ * @param signal Cancels the critique call, including retries
  */
 export async function critiqueLayoutEnhanced(
   client: GoogleGenerativeAI,
   originalImage: string,
   generatedImage: string,
   components: DetectedComponentEnhanced[],
-  targetFidelity: number = 95
+  targetFidelity: number = 95,
+  signal?: AbortSignal
 ): Promise<LayoutCritiqueEnhanced> {
   const model = client.getGenerativeModel({
     model: MODEL_FLASH,
@@ -184,8 +186,10 @@ export async function critiqueLayoutEnhanced(
   const originalPart = fileToPart(originalImage);
   const generatedPart = fileToPart(generatedImage);
 
-  const result = await withGeminiRetry(() =>
-    model.generateContent([prompt, originalPart, generatedPart])
+  const result = await withGeminiRetry(
+    () => model.generateContent([prompt, originalPart, generatedPart], { signal }),
+    2,
+    signal
   );
   const response = result.response;
 
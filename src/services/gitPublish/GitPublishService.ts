@@ -0,0 +1,358 @@
+/**
+ * Git Publish Service
+ *
+ * Publishes generated files to a repository on a Git host:
+ *   1. The provider ensures the repository exists (creating it if needed)
+ *   2. A scratch working repository fetches the remote's default branch
+ *   3. Empty remote → commit straight to the default branch (initial publish)
+ *      Otherwise   → branch off the default branch, commit, push, open a PR
+ *
+ * `publishBranch` is the multi-commit variant for automated changes (Dream
+ * Mode): a series of commits on a named branch, then one pull request.
+ *
+ * Git runs through isomorphic-git with an injected fs and HTTP client, so the
+ * same flow works in the browser (lightning-fs + http/web) and in tests
+ * (Node fs + a `git http-backend` transport). A publish mirrors the project:
+ * files missing from the request are deleted on the published branch.
+ */
+
+import * as git from 'isomorphic-git';
+import type { GitAuth, HttpClient } from 'isomorphic-git';
+import type { HistoryFs } from '@/types/gitHistory';
+import type {
+  BranchPublishRequest,
+  BranchPublishResult,
+  GitHostProvider,
+  PublishRequest,
+  PublishResult,
+  RemoteRepository,
+} from '@/types/gitPublish';
+import { mkdirp, removeRecursive, repoDirectory, writeWorkingFiles } from '@/utils/gitFs';
+import { BUILDER_AUTHOR } from '@/services/GitHistoryService';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const REMOTE_NAME = 'origin';
+const BRANCH_PREFIX = 'builder/';
+/** Changed files listed in a commit body before summarising the rest */
+const MAX_LISTED_FILES = 20;
+
+export interface GitPublishServiceOptions {
+  fs: HistoryFs;
+  http: HttpClient;
+  /** Directory for scratch working repositories (default '/publish') */
+  root?: string;
+}
+
+/** Connection options shared by listServerRefs, fetch and push */
+interface RemoteOptions {
+  http: HttpClient;
+  url: string;
+  corsProxy?: string;
+  onAuth: () => GitAuth;
+}
+
+interface ChangeSummary {
+  added: string[];
+  modified: string[];
+  removed: string[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function defaultBranchName(): string {
+  return `${BRANCH_PREFIX}${new Date().toISOString().replace(/[:.]/g, '-')}`;
+}
+
+function listFiles(label: string, paths: string[]): string[] {
+  if (paths.length === 0) return [];
+  const shown = paths.slice(0, MAX_LISTED_FILES).map((p) => `- ${p}`);
+  if (paths.length > MAX_LISTED_FILES) shown.push(`- …and ${paths.length - MAX_LISTED_FILES} more`);
+  return [`${label}:`, ...shown, ''];
+}
+
+function hasChanges(changes: ChangeSummary): boolean {
+  return changes.added.length + changes.modified.length + changes.removed.length > 0;
+}
+
+/**
+ * Commit subject and body describing the changed files.
+ */
+function describeChanges(changes: ChangeSummary, initial: boolean): { subject: string; body: string } {
+  const all = [...changes.added, ...changes.modified, ...changes.removed];
+  const subject = initial
+    ? 'Publish project from AI App Builder'
+    : all.length === 1
+      ? `${changes.removed.length === 1 ? 'Remove' : 'Update'} ${all[0]}`
+      : `Update ${all.length} files`;
+  const body = [
+    ...listFiles('Added', changes.added),
+    ...listFiles('Modified', changes.modified),
+    ...listFiles('Removed', changes.removed),
+  ]
+    .join('\n')
+    .trim();
+  return { subject, body };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class GitPublishServiceInstance {
+  private readonly fs: HistoryFs;
+  private readonly http: HttpClient;
+  private readonly root: string;
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  constructor(options: GitPublishServiceOptions) {
+    this.fs = options.fs;
+    this.http = options.http;
+    this.root = (options.root ?? '/publish').replace(/\/+$/, '');
+  }
+
+  /**
+   * Publish files to the requested repository. See the module comment for
+   * how the initial and follow-up publishes differ.
+   */
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const { provider } = request;
+    const repository = await provider.ensureRepository(request.repository);
+    const base = repository.defaultBranch;
+    const remote = this.remoteOptions(repository, provider, request.corsProxy);
+
+    return this.exclusive(request.projectId, async (dir) => {
+      const remoteBranches = await this.initScratch(dir, repository, base, remote);
+      const initial = !remoteBranches.includes(base);
+      const branch = initial ? base : (request.branch ?? defaultBranchName());
+
+      if (!initial) {
+        await this.startBranch(dir, remote, branch, base);
+      }
+
+      const written = await writeWorkingFiles(this.fs, dir, request.files);
+      if (written.size > 0) {
+        await git.add({ fs: this.fs, dir, filepath: [...written] });
+      }
+      for (const filepath of await git.listFiles({ fs: this.fs, dir })) {
+        if (written.has(filepath)) continue;
+        await removeRecursive(this.fs, `${dir}/${filepath}`);
+        await git.remove({ fs: this.fs, dir, filepath });
+      }
+
+      const changes = await this.summarizeChanges(dir);
+      if (!hasChanges(changes)) {
+        return {
+          mode: 'unchanged',
+          repository,
+          branch,
+          commitOid: initial ? null : await git.resolveRef({ fs: this.fs, dir, ref: 'HEAD' }),
+          message: null,
+          pullRequest: null,
+        };
+      }
+
+      const { subject, body } = describeChanges(changes, initial);
+      const title = request.message?.trim() || subject;
+      const commitOid = await git.commit({
+        fs: this.fs,
+        dir,
+        message: body ? `${title}\n\n${body}\n` : `${title}\n`,
+        author: BUILDER_AUTHOR,
+      });
+
+      await this.push(dir, remote, branch);
+
+      const pullRequest = initial
+        ? null
+        : await provider.openPullRequest({ repository, head: branch, base, title, body });
+
+      return {
+        mode: initial ? 'initial' : 'pull-request',
+        repository,
+        branch,
+        commitOid,
+        message: title,
+        pullRequest,
+      };
+    });
+  }
+
+  /**
+   * Push a series of commits to `request.branch` and open one pull request
+   * against the base branch. An existing remote branch is continued instead
+   * of replaced, and gets no second pull request.
+   */
+  async publishBranch(request: BranchPublishRequest): Promise<BranchPublishResult> {
+    const { provider, branch } = request;
+    const repository = await provider.ensureRepository(request.repository);
+    const base = request.base ?? repository.defaultBranch;
+    const remote = this.remoteOptions(repository, provider, request.corsProxy);
+
+    return this.exclusive(request.projectId, async (dir) => {
+      const remoteBranches = await this.initScratch(dir, repository, base, remote);
+      if (!remoteBranches.includes(base)) {
+        throw new Error(`[GitPublishService] ${repository.owner}/${repository.name} has no ${base} branch`);
+      }
+      const existing = remoteBranches.includes(branch);
+      await this.startBranch(dir, remote, branch, existing ? branch : base);
+
+      const commitOids: string[] = [];
+      for (const commit of request.commits) {
+        const written = await writeWorkingFiles(this.fs, dir, commit.files);
+        if (written.size > 0) {
+          await git.add({ fs: this.fs, dir, filepath: [...written] });
+        }
+        for (const path of commit.removed ?? []) {
+          const filepath = path.replace(/^\/+/, '');
+          await removeRecursive(this.fs, `${dir}/${filepath}`);
+          await git.remove({ fs: this.fs, dir, filepath });
+        }
+        if (!hasChanges(await this.summarizeChanges(dir))) continue;
+
+        commitOids.push(
+          await git.commit({ fs: this.fs, dir, message: `${commit.message.trim()}\n`, author: BUILDER_AUTHOR })
+        );
+      }
+
+      if (commitOids.length === 0) {
+        return { repository, branch, base, commitOids, pullRequest: null };
+      }
+
+      await this.push(dir, remote, branch);
+
+      const pullRequest = existing
+        ? null
+        : await provider.openPullRequest({ repository, head: branch, base, ...request.pullRequest });
+
+      return { repository, branch, base, commitOids, pullRequest };
+    });
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  /**
+   * Re-create the scratch repository with `origin` set, and return the
+   * remote's branch names. Starting clean keeps earlier publishes out.
+   */
+  private async initScratch(
+    dir: string,
+    repository: RemoteRepository,
+    base: string,
+    remote: RemoteOptions
+  ): Promise<string[]> {
+    await removeRecursive(this.fs, dir);
+    await mkdirp(this.fs, dir);
+    await git.init({ fs: this.fs, dir, defaultBranch: base });
+    await git.addRemote({ fs: this.fs, dir, remote: REMOTE_NAME, url: repository.cloneUrl });
+
+    const serverRefs = await git.listServerRefs({ ...remote, prefix: 'refs/heads/' });
+    return serverRefs.map((ref) => ref.ref.slice('refs/heads/'.length));
+  }
+
+  /**
+   * Shallow-fetch `from` and check out `branch` at its tip.
+   */
+  private async startBranch(
+    dir: string,
+    remote: RemoteOptions,
+    branch: string,
+    from: string
+  ): Promise<void> {
+    await git.fetch({
+      ...remote,
+      fs: this.fs,
+      dir,
+      remote: REMOTE_NAME,
+      ref: from,
+      singleBranch: true,
+      depth: 1,
+      tags: false,
+    });
+    await git.branch({ fs: this.fs, dir, ref: branch, object: `refs/remotes/${REMOTE_NAME}/${from}` });
+    await git.checkout({ fs: this.fs, dir, ref: branch, force: true });
+  }
+
+  private async push(
+    dir: string,
+    remote: RemoteOptions,
+    branch: string
+  ): Promise<void> {
+    const pushed = await git.push({ ...remote, fs: this.fs, dir, remote: REMOTE_NAME, ref: branch });
+    if (!pushed.ok) {
+      throw new Error(`[GitPublishService] Push of ${branch} was rejected: ${pushed.error ?? 'unknown error'}`);
+    }
+  }
+
+  private remoteOptions(repository: RemoteRepository, provider: GitHostProvider, corsProxy?: string): RemoteOptions {
+    const credentials = provider.getCredentials();
+    return {
+      http: this.http,
+      url: repository.cloneUrl,
+      corsProxy,
+      onAuth: (): GitAuth => credentials ?? { cancel: true },
+    };
+  }
+
+  private async summarizeChanges(dir: string): Promise<ChangeSummary> {
+    const matrix = await git.statusMatrix({ fs: this.fs, dir });
+    const changed = matrix.filter(([, head, , stage]) => head !== stage);
+    return {
+      added: changed.filter(([, head]) => head === 0).map(([path]) => path),
+      modified: changed.filter(([, head, , stage]) => head === 1 && stage !== 0).map(([path]) => path),
+      removed: changed.filter(([, head, , stage]) => head === 1 && stage === 0).map(([path]) => path),
+    };
+  }
+
+  /**
+   * Run `task` after every earlier publish of the same project has settled.
+   */
+  private exclusive<T>(projectId: string, task: (dir: string) => Promise<T>): Promise<T> {
+    const dir = repoDirectory(this.root, projectId);
+    const previous = this.queues.get(dir) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => task(dir));
+    this.queues.set(dir, run);
+    return run;
+  }
+}
+
+// ============================================================================
+// FACTORIES
+// ============================================================================
+
+let _instance: Promise<GitPublishServiceInstance> | null = null;
+
+/**
+ * Browser singleton (lightning-fs + fetch-based HTTP). Loaded on first use
+ * so server bundles never touch either.
+ */
+export function getGitPublishService(): Promise<GitPublishServiceInstance> {
+  if (!_instance) {
+    _instance = Promise.all([
+      import('@isomorphic-git/lightning-fs'),
+      import('isomorphic-git/http/web'),
+    ]).then(
+      ([{ default: LightningFS }, { default: http }]) =>
+        new GitPublishServiceInstance({
+          fs: new LightningFS('ai-app-builder-publish') as unknown as HistoryFs,
+          http,
+        })
+    );
+  }
+  return _instance;
+}
+
+/**
+ * Service over an explicit filesystem and HTTP client (tests, Node tooling).
+ */
+export function createGitPublishService(options: GitPublishServiceOptions): GitPublishServiceInstance {
+  return new GitPublishServiceInstance(options);
+}
+
+export type { GitPublishServiceInstance };
@@ -0,0 +1,16 @@
+/**
+ * Git Publish - Barrel Export
+ *
+ * "Publish to repository": push generated projects to a Git host through a
+ * pluggable GitHostProvider, opening pull requests for follow-up changes.
+ * The inbound direction (loading a repo) is RepoLoaderService.
+ */
+
+export {
+  getGitPublishService,
+  createGitPublishService,
+  type GitPublishServiceInstance,
+  type GitPublishServiceOptions,
+} from './GitPublishService';
+export { GitHubProvider, type GitHubProviderOptions } from './providers/github';
+export { PlainRemoteProvider, type PlainRemoteProviderOptions } from './providers/plain';
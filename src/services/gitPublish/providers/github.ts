@@ -0,0 +1,136 @@
+/**
+ * GitHub Provider
+ *
+ * Creates repositories and opens pull requests through the GitHub REST API.
+ * Pushes authenticate with the same token (`x-access-token` as username).
+ * `apiBaseUrl` points at GitHub Enterprise or a mock server in tests.
+ */
+
+import type {
+  GitCredentials,
+  GitHostProvider,
+  PullRequestInfo,
+  PullRequestRequest,
+  RemoteRepository,
+  RepositorySpec,
+} from '@/types/gitPublish';
+
+const DEFAULT_API_BASE_URL = 'https://api.github.com';
+
+export interface GitHubProviderOptions {
+  token: string;
+  apiBaseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+interface GitHubRepoResponse {
+  name: string;
+  owner: { login: string };
+  clone_url: string;
+  html_url: string;
+  default_branch: string | null;
+}
+
+export class GitHubProvider implements GitHostProvider {
+  readonly name = 'github' as const;
+  private readonly token: string;
+  private readonly apiBaseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+  private login: string | null = null;
+
+  constructor(options: GitHubProviderOptions) {
+    this.token = options.token;
+    this.apiBaseUrl = (options.apiBaseUrl ?? DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+    this.fetchImpl = options.fetch ?? ((...args) => fetch(...args));
+  }
+
+  async ensureRepository(spec: RepositorySpec): Promise<RemoteRepository> {
+    const owner = spec.owner ?? (await this.getLogin());
+
+    const existing = await this.request<GitHubRepoResponse>(
+      'GET',
+      `/repos/${owner}/${spec.name}`,
+      undefined,
+      [404]
+    );
+    if (existing) return this.toRemoteRepository(existing, false);
+
+    const path = owner === (await this.getLogin()) ? '/user/repos' : `/orgs/${owner}/repos`;
+    const created = await this.request<GitHubRepoResponse>('POST', path, {
+      name: spec.name,
+      description: spec.description,
+      private: spec.private ?? true,
+      auto_init: false,
+    });
+    if (!created) {
+      throw new Error(`[GitHubProvider] Could not create ${owner}/${spec.name}`);
+    }
+    return this.toRemoteRepository(created, true);
+  }
+
+  async openPullRequest(request: PullRequestRequest): Promise<PullRequestInfo> {
+    const { repository } = request;
+    const pr = await this.request<{ number: number; html_url: string; title: string }>(
+      'POST',
+      `/repos/${repository.owner}/${repository.name}/pulls`,
+      { title: request.title, head: request.head, base: request.base, body: request.body }
+    );
+    if (!pr) {
+      throw new Error(`[GitHubProvider] No pull request returned for ${request.head}`);
+    }
+    return { number: pr.number, url: pr.html_url, title: pr.title };
+  }
+
+  getCredentials(): GitCredentials {
+    return { username: 'x-access-token', password: this.token };
+  }
+
+  private async getLogin(): Promise<string> {
+    if (!this.login) {
+      const user = await this.request<{ login: string }>('GET', '/user');
+      if (!user) throw new Error('[GitHubProvider] Could not resolve the authenticated user');
+      this.login = user.login;
+    }
+    return this.login;
+  }
+
+  /**
+   * Call the API. Returns null for statuses listed in `allowedStatuses`;
+   * throws on any other non-2xx.
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    allowedStatuses: number[] = []
+  ): Promise<T | null> {
+    const response = await this.fetchImpl(`${this.apiBaseUrl}${path}`, {
+      method,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${this.token}`,
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (allowedStatuses.includes(response.status)) return null;
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`[GitHubProvider] ${method} ${path} failed: ${response.status} ${detail}`.trim());
+    }
+    return (await response.json()) as T;
+  }
+
+  private toRemoteRepository(repo: GitHubRepoResponse, created: boolean): RemoteRepository {
+    return {
+      owner: repo.owner.login,
+      name: repo.name,
+      cloneUrl: repo.clone_url,
+      htmlUrl: repo.html_url,
+      // Empty repositories report no default branch yet
+      defaultBranch: repo.default_branch || 'main',
+      created,
+    };
+  }
+}
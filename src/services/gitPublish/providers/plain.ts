@@ -0,0 +1,45 @@
+/**
+ * Plain Remote Provider
+ *
+ * Any smart-HTTP git remote that already exists (self-hosted servers, local
+ * `git http-backend`). It cannot create repositories or open pull requests,
+ * so follow-up publishes only push a branch.
+ */
+
+import type {
+  GitCredentials,
+  GitHostProvider,
+  RemoteRepository,
+  RepositorySpec,
+} from '@/types/gitPublish';
+
+export interface PlainRemoteProviderOptions {
+  url: string;
+  defaultBranch?: string;
+  credentials?: GitCredentials;
+}
+
+export class PlainRemoteProvider implements GitHostProvider {
+  readonly name = 'plain' as const;
+
+  constructor(private readonly options: PlainRemoteProviderOptions) {}
+
+  async ensureRepository(spec: RepositorySpec): Promise<RemoteRepository> {
+    return {
+      owner: spec.owner ?? '',
+      name: spec.name,
+      cloneUrl: this.options.url,
+      htmlUrl: this.options.url,
+      defaultBranch: this.options.defaultBranch ?? 'main',
+      created: false,
+    };
+  }
+
+  async openPullRequest(): Promise<null> {
+    return null;
+  }
+
+  getCredentials(): GitCredentials | undefined {
+    return this.options.credentials;
+  }
+}
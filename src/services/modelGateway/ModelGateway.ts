@@ -0,0 +1,123 @@
+/**
+ * Model Gateway
+ *
+ * Single entry point for LLM calls. Resolves each step to a provider/model
+ * from config, applies the uniform retry policy, and records token usage.
+ */
+
+import type {
+  ModelFileInput,
+  ModelPart,
+  ModelProvider,
+  ModelProviderName,
+  ModelRequest,
+  ModelResponse,
+  ModelRoute,
+  ModelStep,
+  RetryPolicy,
+} from '@/types/modelGateway';
+import { withRetry, DEFAULT_RETRY_POLICY } from '@/utils/retry';
+import { resolveModelRoute } from './config';
+import { ModelUsageTracker } from './usage';
+import { reportModelCall } from './meter';
+import { GeminiProvider } from './providers/gemini';
+import { AnthropicProvider } from './providers/anthropic';
+import { FakeModelProvider } from './providers/fake';
+
+export interface ModelGatewayOptions {
+  /** Per-step route overrides (take precedence over env and defaults) */
+  routes?: Partial<Record<ModelStep, Partial<ModelRoute>>>;
+  /** Provider implementations (defaults: real Gemini/Anthropic + fake) */
+  providers?: Partial<Record<ModelProviderName, ModelProvider>>;
+  retryPolicy?: RetryPolicy;
+}
+
+export class ModelGateway {
+  readonly usage = new ModelUsageTracker();
+  private routes: Partial<Record<ModelStep, Partial<ModelRoute>>>;
+  private providers: Record<ModelProviderName, ModelProvider>;
+  private retryPolicy: RetryPolicy;
+
+  constructor(options: ModelGatewayOptions = {}) {
+    this.routes = options.routes ?? {};
+    this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+    this.providers = {
+      gemini: new GeminiProvider(),
+      anthropic: new AnthropicProvider(),
+      fake: new FakeModelProvider(),
+      ...options.providers,
+    };
+  }
+
+  /** Route a step to a provider/model */
+  getRoute(step: ModelStep): ModelRoute {
+    return resolveModelRoute(step, this.routes);
+  }
+
+  /** Replace a provider implementation (e.g. a configured fake in tests) */
+  setProvider(provider: ModelProvider): void {
+    this.providers[provider.name] = provider;
+  }
+
+  /** Send a request to the provider configured for its step */
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    const route = this.getRoute(request.step);
+    const provider = this.providers[route.provider];
+    const routed: ModelRequest = {
+      ...request,
+      maxTokens: request.maxTokens ?? route.maxTokens,
+      temperature: request.temperature ?? route.temperature,
+    };
+
+    const start = Date.now();
+    const result = await withRetry(
+      () => provider.generate(route.model, routed),
+      this.retryPolicy,
+      request.signal
+    );
+
+    this.usage.record({
+      step: request.step,
+      provider: provider.name,
+      model: result.model,
+      inputTokens: result.usage.inputTokens,
+      outputTokens: result.usage.outputTokens,
+      durationMs: Date.now() - start,
+      timestamp: Date.now(),
+    });
+    if (provider.name !== 'fake') {
+      reportModelCall({
+        service: provider.name === 'gemini' ? 'google' : 'anthropic',
+        model: result.model,
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens,
+      });
+    }
+
+    return { ...result, provider: provider.name };
+  }
+
+  /** Convenience: single user prompt in, text out */
+  async generateText(
+    step: ModelStep,
+    prompt: string | ModelPart[],
+    options: Omit<ModelRequest, 'step' | 'messages'> = {}
+  ): Promise<string> {
+    const response = await this.generate({
+      ...options,
+      step,
+      messages: [{ role: 'user', content: prompt }],
+    });
+    return response.text;
+  }
+
+  /** Turn a file into a part the step's provider accepts (upload or inline) */
+  async prepareFile(
+    step: ModelStep,
+    file: ModelFileInput,
+    options: Pick<ModelRequest, 'apiKey' | 'signal'> = {}
+  ): Promise<ModelPart> {
+    const provider = this.providers[this.getRoute(step).provider];
+    return provider.prepareFile(file, options);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Model Gateway Configuration
+ *
+ * Model constants, per-step routing, and API key getters.
+ *
+ * Routes can be overridden per deployment without code changes:
+ *   MODEL_GATEWAY_PROVIDER=fake          → every step uses the fake provider (offline)
+ *   MODEL_ROUTE_BUILDER=anthropic:claude-opus-4-5-20251101
+ *                                        → send one step elsewhere
+ */
+
+import type { ModelProviderName, ModelRoute, ModelStep } from '@/types/modelGateway';
+
+// ============================================================================
+// MODEL CONSTANTS (2026 SPECS)
+// ============================================================================
+
+export const GEMINI_FLASH_MODEL = 'gemini-3-flash-preview';
+export const GEMINI_PRO_MODEL = 'gemini-3-pro-preview';
+export const GEMINI_DEEP_THINK_MODEL = 'gemini-3-pro-preview';
+export const CLAUDE_OPUS_MODEL = 'claude-opus-4-5-20251101';
+export const CLAUDE_SONNET_MODEL = 'claude-sonnet-4-5-20250929';
+export const CLAUDE_SONNET_4_MODEL = 'claude-sonnet-4-20250514';
+export const FAKE_MODEL = 'fake-deterministic';
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/** Default provider/model for each step */
+export const DEFAULT_MODEL_ROUTES: Record<ModelStep, ModelRoute> = {
+  router: { provider: 'gemini', model: GEMINI_FLASH_MODEL },
+  surveyor: { provider: 'gemini', model: GEMINI_FLASH_MODEL },
+  pageAnalyst: { provider: 'gemini', model: GEMINI_FLASH_MODEL },
+  architect: { provider: 'anthropic', model: CLAUDE_OPUS_MODEL, maxTokens: 4000 },
+  physicist: { provider: 'gemini', model: GEMINI_DEEP_THINK_MODEL },
+  builder: { provider: 'gemini', model: GEMINI_PRO_MODEL },
+  sceneDesigner: { provider: 'gemini', model: GEMINI_PRO_MODEL, temperature: 0.4 },
+  liveEditor: { provider: 'gemini', model: GEMINI_PRO_MODEL, maxTokens: 16384, temperature: 0.2 },
+  omniChat: { provider: 'anthropic', model: CLAUDE_SONNET_MODEL, maxTokens: 2048 },
+  deploymentAnalysis: { provider: 'anthropic', model: CLAUDE_SONNET_4_MODEL, maxTokens: 2000 },
+  codeTransform: { provider: 'anthropic', model: CLAUDE_SONNET_4_MODEL, maxTokens: 4000 },
+};
+
+const PROVIDER_NAMES: ModelProviderName[] = ['gemini', 'anthropic', 'fake'];
+
+/**
+ * Resolve the route for a step: explicit overrides first, then environment,
+ * then the defaults above.
+ */
+export function resolveModelRoute(
+  step: ModelStep,
+  overrides: Partial<Record<ModelStep, Partial<ModelRoute>>> = {}
+): ModelRoute {
+  const route: ModelRoute = { ...DEFAULT_MODEL_ROUTES[step], ...parseEnvRoute(step), ...overrides[step] };
+
+  if (process.env.MODEL_GATEWAY_PROVIDER === 'fake') {
+    return { ...route, provider: 'fake', model: FAKE_MODEL };
+  }
+  return route;
+}
+
+/** Parse MODEL_ROUTE_<STEP>="provider:model" */
+function parseEnvRoute(step: ModelStep): Partial<ModelRoute> {
+  const envKey = `MODEL_ROUTE_${step.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+  const value = process.env[envKey];
+  if (!value) return {};
+
+  const [provider, ...modelParts] = value.split(':');
+  if (!PROVIDER_NAMES.includes(provider as ModelProviderName) || modelParts.length === 0) {
+    console.warn(`[ModelGateway] Ignoring malformed ${envKey}="${value}"`);
+    return {};
+  }
+  return { provider: provider as ModelProviderName, model: modelParts.join(':') };
+}
+
+// ============================================================================
+// API KEY GETTERS
+// ============================================================================
+
+export function getGeminiApiKey(): string {
+  const key = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
+  if (!key) throw new Error('Gemini API key missing');
+  return key;
+}
+
+export function getAnthropicApiKey(): string {
+  const key = process.env.ANTHROPIC_API_KEY;
+  if (!key) throw new Error('Anthropic API key missing');
+  return key;
+}
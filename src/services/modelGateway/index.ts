@@ -0,0 +1,59 @@
+/**
+ * Model Gateway - Barrel Export
+ *
+ * One gateway for every LLM call: per-step routing from config, uniform
+ * retry/backoff, token accounting, and a deterministic fake provider.
+ * The call meter also collects usage from direct SDK calls (meter.ts).
+ */
+
+export { ModelGateway, type ModelGatewayOptions } from './ModelGateway';
+export { ModelUsageTracker } from './usage';
+export {
+  reportModelCall,
+  subscribeModelCalls,
+  meterGenerativeModel,
+  MeteredGoogleGenerativeAI,
+} from './meter';
+export { GeminiProvider, uploadFileToGemini } from './providers/gemini';
+export { AnthropicProvider } from './providers/anthropic';
+export { FakeModelProvider, type FakeResponder } from './providers/fake';
+export {
+  DEFAULT_MODEL_ROUTES,
+  resolveModelRoute,
+  GEMINI_FLASH_MODEL,
+  GEMINI_PRO_MODEL,
+  GEMINI_DEEP_THINK_MODEL,
+  CLAUDE_OPUS_MODEL,
+  CLAUDE_SONNET_MODEL,
+  CLAUDE_SONNET_4_MODEL,
+  FAKE_MODEL,
+  getGeminiApiKey,
+  getAnthropicApiKey,
+} from './config';
+
+import { ModelGateway, type ModelGatewayOptions } from './ModelGateway';
+
+// ============================================================================
+// SINGLETON ACCESSOR
+// ============================================================================
+
+let _instance: ModelGateway | null = null;
+
+/**
+ * Get or create the shared ModelGateway instance
+ */
+export function getModelGateway(): ModelGateway {
+  if (!_instance) {
+    _instance = new ModelGateway();
+  }
+  return _instance;
+}
+
+/**
+ * Replace the shared gateway (tests, or custom routing at startup).
+ * Returns the new instance.
+ */
+export function configureModelGateway(options: ModelGatewayOptions): ModelGateway {
+  _instance = new ModelGateway(options);
+  return _instance;
+}
@@ -0,0 +1,87 @@
+/**
+ * Model Call Meter
+ *
+ * Process-wide feed of token usage for every model call, whichever path made
+ * it: the gateway reports its calls, and code that still calls a provider SDK
+ * directly reports through MeteredGoogleGenerativeAI (or reportModelCall).
+ * Subscribers such as the Dream Mode campaign price the calls and enforce
+ * their cost caps.
+ *
+ * Kept free of the gateway's imports so client-side agents can pull it in
+ * without the Anthropic SDK.
+ */
+
+import {
+  GoogleGenerativeAI,
+  type GenerativeModel,
+  type UsageMetadata,
+} from '@google/generative-ai';
+import type { ModelCallListener, ModelCallRecord } from '@/types/modelGateway';
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+const listeners = new Set<ModelCallListener>();
+
+/** Report a completed model call to every subscriber */
+export function reportModelCall(call: Omit<ModelCallRecord, 'timestamp'>): void {
+  const record: ModelCallRecord = { ...call, timestamp: Date.now() };
+  for (const listener of listeners) {
+    try {
+      listener(record);
+    } catch (e) {
+      console.warn('[ModelGateway] Call listener failed:', e);
+    }
+  }
+}
+
+/** Subscribe to model calls. Returns an unsubscribe function. */
+export function subscribeModelCalls(listener: ModelCallListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// ============================================================================
+// GEMINI SDK
+// ============================================================================
+
+/**
+ * Billed output tokens: candidates plus thinking tokens, which Gemini counts
+ * in the total but not in candidatesTokenCount.
+ */
+export function geminiOutputTokens(usage: UsageMetadata): number {
+  return Math.max(usage.candidatesTokenCount ?? 0, usage.totalTokenCount - usage.promptTokenCount);
+}
+
+/** Wrap a model's generateContent so each response reports its usage */
+export function meterGenerativeModel(model: GenerativeModel): GenerativeModel {
+  const generateContent = model.generateContent.bind(model);
+  const name = model.model.replace(/^models\//, '');
+
+  model.generateContent = async (...args) => {
+    const result = await generateContent(...args);
+    const usage = result.response.usageMetadata;
+    if (usage) {
+      reportModelCall({
+        service: 'google',
+        model: name,
+        inputTokens: usage.promptTokenCount,
+        outputTokens: geminiOutputTokens(usage),
+      });
+    }
+    return result;
+  };
+
+  return model;
+}
+
+/**
+ * Drop-in GoogleGenerativeAI whose models report every generateContent call.
+ * Streaming calls are not metered; route those through the gateway.
+ */
+export class MeteredGoogleGenerativeAI extends GoogleGenerativeAI {
+  getGenerativeModel(...args: Parameters<GoogleGenerativeAI['getGenerativeModel']>): GenerativeModel {
+    return meterGenerativeModel(super.getGenerativeModel(...args));
+  }
+}
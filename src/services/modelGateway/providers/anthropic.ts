@@ -0,0 +1,84 @@
+/**
+ * Anthropic Provider
+ *
+ * Serves gateway requests through @anthropic-ai/sdk.
+ * Files are sent inline as base64 image blocks.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  ModelFileInput,
+  ModelMessage,
+  ModelPart,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+} from '@/types/modelGateway';
+import { getAnthropicApiKey } from '../config';
+
+/** Used when neither the request nor its route sets maxTokens (the API requires one) */
+const DEFAULT_MAX_TOKENS = 4096;
+
+type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+function toBlocks(content: ModelMessage['content']): Anthropic.MessageParam['content'] {
+  if (typeof content === 'string') return content;
+
+  return content.map((part): Anthropic.TextBlockParam | Anthropic.ImageBlockParam => {
+    if ('text' in part) return { type: 'text', text: part.text };
+    if ('inlineData' in part) {
+      return {
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: part.inlineData.mimeType as ImageMediaType,
+          data: part.inlineData.data,
+        },
+      };
+    }
+    throw new Error('Anthropic provider cannot read provider-hosted files (fileData)');
+  });
+}
+
+export class AnthropicProvider implements ModelProvider {
+  readonly name = 'anthropic' as const;
+  private clients = new Map<string, Anthropic>();
+
+  private getClient(apiKey?: string): Anthropic {
+    const key = apiKey || getAnthropicApiKey();
+    let client = this.clients.get(key);
+    if (!client) {
+      client = new Anthropic({ apiKey: key });
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+
+  async generate(model: string, request: ModelRequest): Promise<Omit<ModelResponse, 'provider'>> {
+    const msg = await this.getClient(request.apiKey).messages.create(
+      {
+        model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.system && { system: request.system }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        messages: request.messages.map((m) => ({ role: m.role, content: toBlocks(m.content) })),
+      },
+      { signal: request.signal }
+    );
+
+    const text = msg.content
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      text,
+      model,
+      usage: { inputTokens: msg.usage.input_tokens, outputTokens: msg.usage.output_tokens },
+    };
+  }
+
+  async prepareFile(file: ModelFileInput): Promise<ModelPart> {
+    const data = file.base64.includes(',') ? file.base64.split(',')[1] : file.base64;
+    return { inlineData: { mimeType: file.mimeType, data } };
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Fake Provider
+ *
+ * Deterministic, offline provider for tests and local runs
+ * (MODEL_GATEWAY_PROVIDER=fake). Every step has a canned response that
+ * parses cleanly in its caller; tests can override any step.
+ * Token usage is estimated at ~4 characters per token.
+ */
+
+import type {
+  ModelFileInput,
+  ModelMessage,
+  ModelPart,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ModelStep,
+} from '@/types/modelGateway';
+
+/** Fixed text, or a function of the request */
+export type FakeResponder = string | ((request: ModelRequest) => string);
+
+// ============================================================================
+// DEFAULT RESPONSES
+// ============================================================================
+
+const FAKE_APP_CODE = `import React from 'react';
+
+export default function App() {
+  return (
+    <main data-id="root" className="min-h-screen flex items-center justify-center bg-white">
+      <h1 data-id="title" className="text-4xl font-bold text-gray-900">Hello from the fake provider</h1>
+    </main>
+  );
+}`;
+
+/** Flatten every text part of the request into one string */
+export function requestText(request: ModelRequest): string {
+  const textOf = (content: ModelMessage['content']) =>
+    typeof content === 'string'
+      ? content
+      : content.map((part) => ('text' in part ? part.text : '')).join('\n');
+  const texts = request.messages.map((m) => textOf(m.content));
+  return (request.system ? [request.system, ...texts] : texts).join('\n');
+}
+
+const DEFAULT_FAKE_RESPONSES: Record<ModelStep, FakeResponder> = {
+  router: (request) => {
+    const hasCode = /Code Exists:\s*true/.test(requestText(request));
+    return JSON.stringify({
+      mode: hasCode ? 'EDIT' : 'CREATE',
+      base_source: hasCode ? 'codebase' : null,
+      file_roles: [],
+      execution_plan: { measure_pixels: [], extract_physics: [], preserve_existing_code: hasCode },
+    });
+  },
+  surveyor: JSON.stringify({
+    canvas: { width: 1440, height: 900, background: '#ffffff' },
+    dom_tree: { type: 'div', id: 'root', children: [] },
+    assets_needed: [],
+  }),
+  // One page per reference, named after its file
+  pageAnalyst: (request) => {
+    const file = requestText(request).match(/Reference file:\s*(\S+)/)?.[1] ?? 'home';
+    const name = file.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+    return JSON.stringify({
+      pages: [
+        {
+          name,
+          pageRole: 'landing',
+          colorPalette: {
+            primary: '#3b82f6',
+            secondary: '#6366f1',
+            accent: '#f59e0b',
+            background: '#ffffff',
+            surface: '#f8fafc',
+            text: '#0f172a',
+            textMuted: '#64748b',
+          },
+          vibe: 'clean',
+          confidence: 0.5,
+        },
+      ],
+      navigation: null,
+      transitions: [],
+    });
+  },
+  architect: JSON.stringify({ layout_strategy: 'flex', tree: [] }),
+  physicist: JSON.stringify({ component_motions: [] }),
+  builder: FAKE_APP_CODE,
+  sceneDesigner: JSON.stringify({
+    config: { camera: { type: 'perspective', position: [4, 3, 6], lookAt: [0, 0, 0] }, controls: { type: 'orbit' } },
+    lights: [
+      { type: 'ambient', intensity: 0.4 },
+      { type: 'directional', position: [5, 10, 5], intensity: 1.2, castShadow: true },
+    ],
+    objects: [
+      {
+        id: 'cube',
+        type: 'mesh',
+        position: [0, 0.5, 0],
+        geometry: { type: 'box' },
+        material: { type: 'standard', color: '#3b82f6' },
+        castShadow: true,
+      },
+    ],
+    environment: { background: '#0f172a', ground: { color: '#1e293b' } },
+  }),
+  liveEditor: FAKE_APP_CODE,
+  omniChat: JSON.stringify({ reply: 'Fake provider reply.', action: 'none' }),
+  deploymentAnalysis: '{}',
+  // Identity transform: echo the first fenced block back
+  codeTransform: (request) => {
+    const match = requestText(request).match(/```[\w-]*\n([\s\S]*?)```/);
+    return match ? match[1] : '';
+  },
+};
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export class FakeModelProvider implements ModelProvider {
+  readonly name = 'fake' as const;
+  /** Every request served, in order — for assertions */
+  readonly calls: ModelRequest[] = [];
+  private responses: Partial<Record<ModelStep, FakeResponder>>;
+
+  constructor(responses: Partial<Record<ModelStep, FakeResponder>> = {}) {
+    this.responses = { ...responses };
+  }
+
+  /** Override the response for one step */
+  setResponse(step: ModelStep, responder: FakeResponder): void {
+    this.responses[step] = responder;
+  }
+
+  async generate(model: string, request: ModelRequest): Promise<Omit<ModelResponse, 'provider'>> {
+    request.signal?.throwIfAborted();
+    this.calls.push(request);
+
+    const responder = this.responses[request.step] ?? DEFAULT_FAKE_RESPONSES[request.step];
+    const text = typeof responder === 'function' ? responder(request) : responder;
+
+    return {
+      text,
+      model,
+      usage: {
+        inputTokens: Math.ceil(requestText(request).length / 4),
+        outputTokens: Math.ceil(text.length / 4),
+      },
+    };
+  }
+
+  async prepareFile(file: ModelFileInput): Promise<ModelPart> {
+    const data = file.base64.includes(',') ? file.base64.split(',')[1] : file.base64;
+    return { inlineData: { mimeType: file.mimeType, data } };
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Gemini Provider
+ *
+ * Serves gateway requests through @google/generative-ai.
+ * Files are uploaded to the Gemini File API and referenced by URI.
+ */
+
+import { GoogleGenerativeAI, type Content, type Part } from '@google/generative-ai';
+import { GoogleAIFileManager } from '@google/generative-ai/server';
+import type {
+  ModelFileInput,
+  ModelMessage,
+  ModelPart,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+} from '@/types/modelGateway';
+import { abortableDelay } from '@/utils/retry';
+import { getGeminiApiKey } from '../config';
+import { geminiOutputTokens } from '../meter';
+
+// ============================================================================
+// FILE UPLOAD
+// ============================================================================
+
+/**
+ * Upload a file (image/video) to Gemini API
+ */
+export async function uploadFileToGemini(apiKey: string, file: ModelFileInput, signal?: AbortSignal) {
+  const fileManager = new GoogleAIFileManager(apiKey);
+  const base64Data = file.base64.includes(',') ? file.base64.split(',')[1] : file.base64;
+  const buffer = Buffer.from(base64Data, 'base64');
+
+  signal?.throwIfAborted();
+  const uploadResult = await fileManager.uploadFile(buffer, {
+    mimeType: file.mimeType,
+    displayName: file.filename,
+  });
+
+  let fileState = uploadResult.file;
+  while (fileState.state === 'PROCESSING') {
+    await abortableDelay(1000, signal);
+    fileState = await fileManager.getFile(fileState.name, { signal });
+  }
+
+  if (fileState.state === 'FAILED') throw new Error(`Upload failed: ${file.filename}`);
+  return fileState;
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+function toContent(message: ModelMessage): Content {
+  const parts: Part[] =
+    typeof message.content === 'string' ? [{ text: message.content }] : message.content;
+  return { role: message.role === 'assistant' ? 'model' : 'user', parts };
+}
+
+export class GeminiProvider implements ModelProvider {
+  readonly name = 'gemini' as const;
+
+  async generate(model: string, request: ModelRequest): Promise<Omit<ModelResponse, 'provider'>> {
+    const genAI = new GoogleGenerativeAI(request.apiKey || getGeminiApiKey());
+    const generativeModel = genAI.getGenerativeModel({
+      model,
+      ...(request.system && { systemInstruction: request.system }),
+      generationConfig: {
+        ...(request.json && { responseMimeType: 'application/json' }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { maxOutputTokens: request.maxTokens }),
+      },
+    });
+
+    const result = await generativeModel.generateContent(
+      { contents: request.messages.map(toContent) },
+      { signal: request.signal }
+    );
+    const usage = result.response.usageMetadata;
+
+    return {
+      text: result.response.text(),
+      model,
+      usage: {
+        inputTokens: usage?.promptTokenCount ?? 0,
+        outputTokens: usage ? geminiOutputTokens(usage) : 0,
+      },
+    };
+  }
+
+  async prepareFile(
+    file: ModelFileInput,
+    request: Pick<ModelRequest, 'apiKey' | 'signal'>
+  ): Promise<ModelPart> {
+    const uploaded = await uploadFileToGemini(
+      request.apiKey || getGeminiApiKey(),
+      file,
+      request.signal
+    );
+    return { fileData: { mimeType: uploaded.mimeType, fileUri: uploaded.uri } };
+  }
+}
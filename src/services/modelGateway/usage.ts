@@ -0,0 +1,67 @@
+/**
+ * Model Usage Tracker
+ *
+ * Token accounting for every call that goes through the gateway.
+ * Keeps a bounded log of records and notifies listeners as calls complete.
+ */
+
+import type {
+  ModelUsageListener,
+  ModelUsageRecord,
+  ModelUsageSummary,
+} from '@/types/modelGateway';
+
+/** Oldest records are dropped beyond this many */
+const MAX_RECORDS = 1000;
+
+export class ModelUsageTracker {
+  private records: ModelUsageRecord[] = [];
+  private listeners = new Set<ModelUsageListener>();
+
+  record(entry: ModelUsageRecord): void {
+    this.records.push(entry);
+    if (this.records.length > MAX_RECORDS) this.records.shift();
+
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch (e) {
+        console.warn('[ModelGateway] Usage listener failed:', e);
+      }
+    }
+  }
+
+  /** Subscribe to usage records. Returns an unsubscribe function. */
+  subscribe(listener: ModelUsageListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getRecords(): ModelUsageRecord[] {
+    return [...this.records];
+  }
+
+  /** Totals across all records (optionally only those at or after `since`) */
+  summarize(since = 0): ModelUsageSummary {
+    const summary: ModelUsageSummary = { calls: 0, inputTokens: 0, outputTokens: 0, byStep: {} };
+
+    for (const r of this.records) {
+      if (r.timestamp < since) continue;
+      summary.calls++;
+      summary.inputTokens += r.inputTokens;
+      summary.outputTokens += r.outputTokens;
+
+      const step = summary.byStep[r.step] ?? { calls: 0, inputTokens: 0, outputTokens: 0 };
+      step.calls++;
+      step.inputTokens += r.inputTokens;
+      step.outputTokens += r.outputTokens;
+      summary.byStep[r.step] = step;
+    }
+
+    return summary;
+  }
+
+  reset(): void {
+    this.records = [];
+  }
+}
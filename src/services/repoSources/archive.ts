@@ -0,0 +1,129 @@
+/**
+ * Archive Sources
+ *
+ * GitHub zipballs, GitLab and Gitea archive endpoints, and uploaded zips all
+ * end up as a zip read with JSZip. Host archives wrap everything in a single
+ * root folder ("owner-repo-sha/"); any such wrapper is stripped.
+ */
+
+import JSZip from 'jszip';
+import type {
+  GitHubRepoSource,
+  GitLabRepoSource,
+  GiteaRepoSource,
+  RepoEntry,
+  RepoSourceReader,
+  ZipRepoSource,
+} from '@/types/repoSource';
+
+// ============================================================================
+// ZIP ENTRIES
+// ============================================================================
+
+/**
+ * Files of a zip, with a shared single root folder stripped.
+ */
+export async function* zipEntries(
+  data: Blob | ArrayBuffer | Uint8Array,
+  skipDirectory: (path: string) => boolean
+): AsyncIterable<RepoEntry> {
+  const zip = await JSZip.loadAsync(data);
+  const files = Object.values(zip.files).filter((entry) => !entry.dir);
+
+  const roots = new Set(files.map((entry) => entry.name.split('/')[0]));
+  const [root] = roots;
+  const stripRoot = roots.size === 1 && files.every((entry) => entry.name.includes('/'));
+
+  for (const entry of files) {
+    const path = stripRoot ? entry.name.slice(root.length + 1) : entry.name;
+    const parent = path.split('/').slice(0, -1).join('/');
+    if (!path || (parent && skipDirectory(parent))) continue;
+
+    // JSZip's _data.uncompressedSize is undocumented but reliable
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const size = (entry as any)._data?.uncompressedSize;
+    yield {
+      path,
+      size: typeof size === 'number' ? size : undefined,
+      read: () => entry.async('uint8array'),
+    };
+  }
+}
+
+/**
+ * Download an archive, failing with the host's error text.
+ */
+async function downloadArchive(
+  url: string,
+  headers: Record<string, string>,
+  label: string
+): Promise<Uint8Array> {
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unknown error');
+    throw new Error(
+      `Failed to fetch repo ${label}: ${response.status} ${response.statusText}. ${errorText}`
+    );
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// ============================================================================
+// READERS
+// ============================================================================
+
+export const githubArchiveReader: RepoSourceReader<GitHubRepoSource> = {
+  kind: 'github',
+  async *entries(source, skipDirectory) {
+    const apiBaseUrl = (source.apiBaseUrl ?? 'https://api.github.com').replace(/\/+$/, '');
+    const headers: Record<string, string> = { Accept: 'application/vnd.github.v3+json' };
+    if (source.token) headers.Authorization = `Bearer ${source.token}`;
+
+    const archive = await downloadArchive(
+      `${apiBaseUrl}/repos/${source.repo}/zipball/${source.ref ?? 'main'}`,
+      headers,
+      source.repo
+    );
+    yield* zipEntries(archive, skipDirectory);
+  },
+};
+
+export const gitlabArchiveReader: RepoSourceReader<GitLabRepoSource> = {
+  kind: 'gitlab',
+  async *entries(source, skipDirectory) {
+    const baseUrl = (source.baseUrl ?? 'https://gitlab.com').replace(/\/+$/, '');
+    const headers: Record<string, string> = {};
+    if (source.token) headers['PRIVATE-TOKEN'] = source.token;
+    const query = source.ref ? `?sha=${encodeURIComponent(source.ref)}` : '';
+
+    const archive = await downloadArchive(
+      `${baseUrl}/api/v4/projects/${encodeURIComponent(source.project)}/repository/archive.zip${query}`,
+      headers,
+      source.project
+    );
+    yield* zipEntries(archive, skipDirectory);
+  },
+};
+
+export const giteaArchiveReader: RepoSourceReader<GiteaRepoSource> = {
+  kind: 'gitea',
+  async *entries(source, skipDirectory) {
+    const baseUrl = source.baseUrl.replace(/\/+$/, '');
+    const headers: Record<string, string> = {};
+    if (source.token) headers.Authorization = `token ${source.token}`;
+
+    const archive = await downloadArchive(
+      `${baseUrl}/api/v1/repos/${source.repo}/archive/${encodeURIComponent(source.ref ?? 'main')}.zip`,
+      headers,
+      source.repo
+    );
+    yield* zipEntries(archive, skipDirectory);
+  },
+};
+
+export const zipUploadReader: RepoSourceReader<ZipRepoSource> = {
+  kind: 'zip',
+  entries(source, skipDirectory) {
+    return zipEntries(source.data, skipDirectory);
+  },
+};
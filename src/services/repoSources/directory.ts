@@ -0,0 +1,42 @@
+/**
+ * Directory Source
+ *
+ * A local folder picked with the File System Access API
+ * (`window.showDirectoryPicker()`). Excluded directories are never opened.
+ */
+
+import type {
+  DirectoryHandleLike,
+  DirectoryRepoSource,
+  RepoEntry,
+  RepoSourceReader,
+} from '@/types/repoSource';
+
+async function* walkDirectory(
+  handle: DirectoryHandleLike,
+  prefix: string,
+  skipDirectory: (path: string) => boolean
+): AsyncIterable<RepoEntry> {
+  for await (const child of handle.values()) {
+    const path = prefix ? `${prefix}/${child.name}` : child.name;
+
+    if (child.kind === 'directory') {
+      if (!skipDirectory(path)) yield* walkDirectory(child, path, skipDirectory);
+      continue;
+    }
+
+    const file = await child.getFile();
+    yield {
+      path,
+      size: file.size,
+      read: async () => new Uint8Array(await file.arrayBuffer()),
+    };
+  }
+}
+
+export const directoryReader: RepoSourceReader<DirectoryRepoSource> = {
+  kind: 'directory',
+  entries(source, skipDirectory) {
+    return walkDirectory(source.handle, '', skipDirectory);
+  },
+};
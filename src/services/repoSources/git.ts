@@ -0,0 +1,67 @@
+/**
+ * Git Clone Source
+ *
+ * Shallow, single-branch clone of any smart-HTTP remote with isomorphic-git
+ * (GitLab, Gitea, Bitbucket, self-hosted). The clone skips checkout; files
+ * are read straight from the object store.
+ */
+
+import * as git from 'isomorphic-git';
+import type { HttpClient } from 'isomorphic-git';
+import type { HistoryFs } from '@/types/gitHistory';
+import type { GitRepoSource, RepoSourceReader } from '@/types/repoSource';
+import { mkdirp, removeRecursive, repoDirectory } from '@/utils/gitFs';
+
+const CLONE_ROOT = '/clones';
+
+export interface GitTransport {
+  fs: HistoryFs;
+  http: HttpClient;
+  /** Directory for clones (default /clones) */
+  root?: string;
+}
+
+/**
+ * Reader for `git` sources. The transport is resolved on first use so the
+ * browser defaults (lightning-fs, http/web) are only loaded when needed.
+ */
+export function createGitCloneReader(
+  getTransport: () => Promise<GitTransport>
+): RepoSourceReader<GitRepoSource> {
+  return {
+    kind: 'git',
+    async *entries(source, skipDirectory) {
+      const { fs, http, root = CLONE_ROOT } = await getTransport();
+      const dir = repoDirectory(root, source.url.replace(/^\w+:\/\//, ''));
+
+      await removeRecursive(fs, dir);
+      await mkdirp(fs, dir);
+      await git.clone({
+        fs,
+        http,
+        dir,
+        url: source.url,
+        ref: source.ref,
+        corsProxy: source.corsProxy,
+        singleBranch: true,
+        depth: 1,
+        noCheckout: true,
+        noTags: true,
+        onAuth: () =>
+          source.password
+            ? { username: source.username ?? 'oauth2', password: source.password }
+            : { cancel: true },
+      });
+
+      const oid = await git.resolveRef({ fs, dir, ref: 'HEAD' });
+      for (const path of await git.listFiles({ fs, dir, ref: oid })) {
+        const parent = path.split('/').slice(0, -1).join('/');
+        if (parent && skipDirectory(parent)) continue;
+        yield {
+          path,
+          read: async () => (await git.readBlob({ fs, dir, oid, filepath: path })).blob,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Repo Sources - Barrel Export
+ *
+ * One RepoSourceReader per kind of RepoSource; RepoLoaderService applies the
+ * shared filtering, size limits and tree building on top.
+ */
+
+import type { RepoSource } from '@/types/repoSource';
+
+export {
+  githubArchiveReader,
+  gitlabArchiveReader,
+  giteaArchiveReader,
+  zipUploadReader,
+  zipEntries,
+} from './archive';
+export { directoryReader } from './directory';
+export { createGitCloneReader, type GitTransport } from './git';
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const OWNER_REPO_REGEX = /^[\w.-]+\/[\w.-]+$/;
+
+/**
+ * Interpret a repository string from settings:
+ *   "owner/repo" or a github.com URL → GitHub archive
+ *   a gitlab.com URL                 → GitLab archive
+ *   any other http(s) URL            → git smart-HTTP clone
+ */
+export function parseRepoSource(input: string, options: { token?: string; ref?: string } = {}): RepoSource {
+  const value = input.trim();
+  const { token, ref } = options;
+
+  if (OWNER_REPO_REGEX.test(value)) {
+    return { kind: 'github', repo: value, ref, token };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`[RepoLoader] Unrecognised repository "${input}" (use owner/repo or a URL)`);
+  }
+
+  const path = url.pathname.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '');
+  if (url.hostname === 'github.com') {
+    return { kind: 'github', repo: path.split('/').slice(0, 2).join('/'), ref, token };
+  }
+  if (url.hostname === 'gitlab.com') {
+    return { kind: 'gitlab', project: path.split('/-/')[0], ref, token };
+  }
+  return { kind: 'git', url: value, ref, password: token };
+}
+
+/**
+ * Short human-readable label for logs and DreamLog.repoUrl.
+ */
+export function describeRepoSource(source: RepoSource): string {
+  switch (source.kind) {
+    case 'github':
+      return source.repo;
+    case 'gitlab':
+      return source.project;
+    case 'gitea':
+      return `${source.baseUrl.replace(/\/+$/, '')}/${source.repo}`;
+    case 'zip':
+      return source.name ?? 'uploaded.zip';
+    case 'directory':
+      return source.handle.name;
+    case 'git':
+      return source.url;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Sandbox Pool
+ *
+ * A fixed number of isolated test sandboxes (ChaosProfile.concurrentGremlins)
+ * that run work items in parallel, one item per idle sandbox at a time.
+ * The sandbox implementation decides what "isolated" means: a directory of
+ * the shared WebContainer in the browser, a temp directory with its own
+ * child processes on the server.
+ */
+
+import type { AppFile } from '@/types/railway';
+import type { ShellResult, TestSandbox, TestSandboxFactory } from '@/types/sandbox';
+
+export interface SandboxPoolOptions {
+  /** Number of sandboxes (at least 1) */
+  size: number;
+  createSandbox: TestSandboxFactory;
+}
+
+export class SandboxPool {
+  readonly size: number;
+  private readonly sandboxes: TestSandbox[];
+
+  constructor(options: SandboxPoolOptions) {
+    this.size = Math.max(1, Math.floor(options.size));
+    this.sandboxes = Array.from({ length: this.size }, (_, i) => options.createSandbox(`gremlin-${i + 1}`));
+  }
+
+  /** Give every sandbox a fresh copy of the project */
+  async prepare(files: AppFile[]): Promise<void> {
+    await Promise.all(this.sandboxes.map((sandbox) => sandbox.prepare(files)));
+  }
+
+  /** Install dev dependencies once for all sandboxes */
+  installDevDependencies(packages: string[], timeout?: number): Promise<ShellResult> {
+    return this.sandboxes[0].installDevDependencies(packages, timeout);
+  }
+
+  /**
+   * Run `task` for every item with at most `size` in flight, each on its own
+   * sandbox. Results are in item order; the first rejection rejects the call
+   * once every started task has settled.
+   */
+  async map<T, R>(items: T[], task: (item: T, sandbox: TestSandbox) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async (sandbox: TestSandbox) => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await task(items[index], sandbox);
+      }
+    };
+
+    const outcomes = await Promise.allSettled(
+      this.sandboxes.slice(0, items.length).map((sandbox) => worker(sandbox))
+    );
+    const failed = outcomes.find((o): o is PromiseRejectedResult => o.status === 'rejected');
+    if (failed) throw failed.reason;
+    return results;
+  }
+
+  /** Remove every sandbox's copy of the project */
+  async dispose(): Promise<void> {
+    const outcomes = await Promise.allSettled(this.sandboxes.map((sandbox) => sandbox.dispose()));
+    for (const outcome of outcomes) {
+      if (outcome.status === 'rejected') {
+        console.warn('[SandboxPool] Could not dispose a sandbox:', outcome.reason);
+      }
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Child Process Sandbox
+ *
+ * Server-side sandbox pool worker for CI: a temp directory with a copy of the
+ * project and a node_modules symlink to an installed checkout, commands run
+ * as child processes from there.
+ *
+ * Node-only (child_process, fs) — import it by path from server code; the
+ * sandboxPool barrel does not re-export it.
+ */
+
+import { spawn } from 'child_process';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join, resolve, sep } from 'path';
+import { SANDBOX_DIRECTORY } from '@/utils/chaosSharding';
+import type { AppFile } from '@/types/railway';
+import type { ShellResult, TestSandbox } from '@/types/sandbox';
+
+/** Exit code reported when a command is killed for running too long */
+const TIMEOUT_EXIT_CODE = 124;
+
+export interface ChildProcessSandboxOptions {
+  /** Installed checkout whose node_modules the sandbox links to */
+  projectDir: string;
+  /** Where sandbox directories are created (default: the OS temp directory) */
+  baseDir?: string;
+}
+
+export class ChildProcessSandbox implements TestSandbox {
+  private root: string | null = null;
+
+  constructor(
+    readonly id: string,
+    private readonly options: ChildProcessSandboxOptions
+  ) {}
+
+  async prepare(files: AppFile[]): Promise<void> {
+    await this.dispose();
+
+    const parent = join(this.options.baseDir ?? tmpdir(), SANDBOX_DIRECTORY);
+    await mkdir(parent, { recursive: true });
+    this.root = await mkdtemp(join(parent, `${this.id}-`));
+
+    for (const file of files) {
+      await this.writeFile(file.path, file.content);
+    }
+    await symlink(join(resolve(this.options.projectDir), 'node_modules'), join(this.root, 'node_modules'), 'dir');
+  }
+
+  executeShell(cmd: string, args: string[], timeout: number = 30000): Promise<ShellResult> {
+    return runProcess(cmd, args, this.requireRoot(), timeout);
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    const root = this.requireRoot();
+    const target = resolve(root, `.${path.startsWith('/') ? path : `/${path}`}`);
+    if (!target.startsWith(root + sep)) {
+      throw new Error(`[ChildProcessSandbox] ${path} is outside the sandbox`);
+    }
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, content);
+  }
+
+  /** Installs into the linked checkout, shared by every sandbox */
+  installDevDependencies(packages: string[], timeout: number = 60000): Promise<ShellResult> {
+    return runProcess('npm', ['install', '-D', '--no-audit', '--no-fund', ...packages], this.options.projectDir, timeout);
+  }
+
+  async dispose(): Promise<void> {
+    if (!this.root) return;
+    await rm(this.root, { recursive: true, force: true });
+    this.root = null;
+  }
+
+  private requireRoot(): string {
+    if (!this.root) {
+      throw new Error(`[ChildProcessSandbox] Sandbox ${this.id} is not prepared`);
+    }
+    return this.root;
+  }
+}
+
+/**
+ * Run a command to completion (or until `timeout` ms), capturing its output
+ * the way WebContainerService.executeShell does.
+ */
+function runProcess(cmd: string, args: string[], cwd: string, timeout: number): Promise<ShellResult> {
+  return new Promise((resolvePromise) => {
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    const child = spawn(cmd, args, { cwd, env: { ...process.env, CI: 'true' } });
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeout);
+
+    child.stdout.on('data', (chunk) => (stdout += chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      resolvePromise({ output: `Execution failed: ${error.message}`, exitCode: 1 });
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      const output = stdout + (stderr ? `\nERR: ${stderr}` : '');
+      resolvePromise({ output, exitCode: timedOut ? TIMEOUT_EXIT_CODE : code ?? 1 });
+    });
+  });
+}
@@ -0,0 +1,10 @@
+/**
+ * Sandbox Pool - Barrel Export
+ *
+ * Parallel, isolated test workers for Dream Mode's chaos cycle. The
+ * server-side ChildProcessSandbox is Node-only and imported by path
+ * ('@/services/sandboxPool/childProcessSandbox').
+ */
+
+export { SandboxPool, type SandboxPoolOptions } from './SandboxPool';
+export { WebContainerSandbox } from './webContainerSandbox';
@@ -0,0 +1,53 @@
+/**
+ * WebContainer Sandbox
+ *
+ * Browser sandbox pool worker. A page can boot only one WebContainer, so each
+ * worker is a directory of it (/.gremlins/<id>) holding its own copy of the
+ * project, with its own Node processes running from there.
+ *
+ * The copy leaves out package manifests: without a package.json of their own,
+ * Node and npm resolve up to the project root, so every worker uses the
+ * dependencies installed there instead of installing its own.
+ */
+
+import { getWebContainerService } from '@/services/WebContainerService';
+import { SANDBOX_DIRECTORY } from '@/utils/chaosSharding';
+import type { AppFile } from '@/types/railway';
+import type { ShellResult, TestSandbox } from '@/types/sandbox';
+
+const MANIFESTS = new Set(['/package.json', '/package-lock.json', '/yarn.lock', '/pnpm-lock.yaml']);
+
+export class WebContainerSandbox implements TestSandbox {
+  /** Sandbox directory, relative to the container's workdir */
+  private readonly directory: string;
+
+  constructor(readonly id: string) {
+    this.directory = `${SANDBOX_DIRECTORY}/${id}`;
+  }
+
+  async prepare(files: AppFile[]): Promise<void> {
+    const service = getWebContainerService();
+    await service.removeDirectory(`/${this.directory}`);
+    await service.mountFilesAt(
+      files.filter((f) => !MANIFESTS.has(f.path)),
+      this.directory
+    );
+  }
+
+  executeShell(cmd: string, args: string[], timeout?: number): Promise<ShellResult> {
+    return getWebContainerService().executeShell(cmd, args, timeout, { cwd: this.directory });
+  }
+
+  writeFile(path: string, content: string): Promise<void> {
+    return getWebContainerService().writeFile(`/${this.directory}${path}`, content);
+  }
+
+  /** Installs into the project root, which every worker resolves to */
+  installDevDependencies(packages: string[], timeout?: number): Promise<ShellResult> {
+    return getWebContainerService().executeShell('npm', ['install', '-D', ...packages], timeout);
+  }
+
+  dispose(): Promise<void> {
+    return getWebContainerService().removeDirectory(`/${this.directory}`);
+  }
+}
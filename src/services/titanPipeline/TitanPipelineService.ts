@@ -7,6 +7,7 @@
  * - Architect (Structure via Claude)
  * - Physicist (Animation Math)
  * - Builder (Code Synthesis)
+ * - Multi-Page (one routed page per reference)
  * - Live Editor (Refinement)
  *
  * This is a thin orchestrator that delegates to specialized modules.
@@ -19,6 +20,10 @@ import type {
   LiveEditResult,
   VisualManifest,
   MotionPhysics,
+  PipelineRunOptions,
+  PipelineStepName,
+  PipelineStepStatus,
+  PipelineStreamEvent,
 } from '@/types/titanPipeline';
 import type { DetectedComponentEnhanced } from '@/types/layoutDesign';
 import { geminiImageService } from '@/services/GeminiImageService';
@@ -26,15 +31,17 @@ import { getAssetExtractionService } from '@/services/AssetExtractionService';
 import { getVisionLoopEngine } from '@/services/VisionLoopEngine';
 import { domTreeToComponents } from '@/utils/domTreeToComponents';
 import { autonomyCore } from '@/agents/AutonomyCore';
+import { getCodeReviewService, qualityGateFailure } from '@/services/codeReview';
 
 // Import from decomposed modules
-import { parseAutonomyOutput } from './helpers';
+import { applyAutonomyEdits, parseAutonomyOutput, rememberAutonomyBase } from './helpers';
 import { routeIntent } from './router';
 import { surveyLayout } from './surveyor';
 import { buildStructure } from './architect';
 import { extractPhysics } from './physicist';
 import { assembleCode } from './builder';
 import { liveEdit } from './liveEditor';
+import { buildMultiPageSite } from './multiPage';
 
 // ============================================================================
 // CONFIGURATION
@@ -48,15 +55,34 @@ const PIPELINE_TIMEOUT_MS = 120_000; // 2 minutes
 // ============================================================================
 
 /**
- * Run the full pipeline - from input to generated code
+ * Run the full pipeline - from input to generated code.
+ * Progress events are reported through `options.onEvent` as each step starts and finishes.
+ * Aborting `options.signal` cancels the in-flight step and rejects with the abort reason.
  */
-export async function runPipeline(input: PipelineInput): Promise<PipelineResult> {
+export async function runPipeline(
+  input: PipelineInput,
+  options: PipelineRunOptions = {}
+): Promise<PipelineResult> {
   const warnings: string[] = [];
   const stepTimings: Record<string, number> = {};
   const pipelineStart = Date.now();
+  const { signal } = options;
 
-  /** Throws if the cumulative pipeline time exceeds PIPELINE_TIMEOUT_MS */
+  /** Report a progress event; listener failures must never break the pipeline */
+  const emit = (event: PipelineStreamEvent) => {
+    try {
+      options.onEvent?.(event);
+    } catch (e) {
+      console.warn('[TitanPipeline] Progress listener failed:', e);
+    }
+  };
+
+  const emitStep = (step: PipelineStepName, stepStatus: PipelineStepStatus, message: string) =>
+    emit({ type: 'thinking', timestamp: Date.now(), message, step, stepStatus });
+
+  /** Throws if the run was cancelled or the cumulative time exceeds PIPELINE_TIMEOUT_MS */
   const checkTimeout = (stepName: string) => {
+    signal?.throwIfAborted();
     const elapsed = Date.now() - pipelineStart;
     if (elapsed > PIPELINE_TIMEOUT_MS) {
       throw new Error(
@@ -66,31 +92,112 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
     }
   };
 
+  /** Static code review: apply safe fixes and gate on the configured strictness */
+  const reviewCode = (generated: AppFile[]) => {
+    const reviewStart = Date.now();
+    const review = getCodeReviewService().reviewFiles(generated, { strictness: input.reviewStrictness });
+    const qualityReport = review.report;
+    stepTimings.review = Date.now() - reviewStart;
+    emit({
+      type: 'validation',
+      timestamp: Date.now(),
+      message: `Code review: score ${qualityReport.overallScore}, ${qualityReport.fixedIssues} issue(s) auto-fixed`,
+      filesValidated: review.files.length,
+      totalFiles: review.files.length,
+      errorsFound: qualityReport.remainingIssues,
+      autoFixed: qualityReport.fixedIssues,
+      step: 'assembling',
+    });
+    // Files that fail the gate are withheld so the client never applies them
+    const gateFailure = qualityGateFailure(qualityReport, input.reviewStrictness) ?? undefined;
+    return { files: gateFailure ? [] : review.files, qualityReport, qualityGateFailure: gateFailure };
+  };
+
+  emit({
+    type: 'start',
+    timestamp: Date.now(),
+    message: 'Titan pipeline started',
+    estimatedFiles: 1,
+  });
+
+  emitStep('routing', 'running', 'Routing intent...');
   const routeStart = Date.now();
-  const strategy = await routeIntent(input);
+  const strategy = await routeIntent(input, signal);
   stepTimings.router = Date.now() - routeStart;
+  emitStep('routing', 'completed', `Mode: ${strategy.mode}`);
+
+  // MULTI-PAGE PATH: one routed page per screenshot, or per page visited in a recording
+  if (input.multiPage) {
+    checkTimeout('multi-page');
+    const multiPageStart = Date.now();
+    const site = await buildMultiPageSite(input, { emitStep, signal });
+    stepTimings.multiPage = Date.now() - multiPageStart;
+    warnings.push(...site.warnings);
+    signal?.throwIfAborted();
+
+    const { files, qualityReport, qualityGateFailure: gateFailure } = reviewCode(site.files);
+    emitStep(
+      'assembling',
+      gateFailure ? 'error' : 'completed',
+      gateFailure
+        ? `Code review: ${gateFailure}`
+        : `Generated ${files.length} file(s) for ${site.design.pages.length} page(s)`
+    );
+    return {
+      files,
+      strategy,
+      manifests: site.manifests,
+      physics: null,
+      warnings,
+      stepTimings,
+      qualityReport,
+      qualityGateFailure: gateFailure,
+      multiPageDesign: site.design,
+    };
+  }
 
   // AUTOPOIETIC/LEARNING PATH
   if (strategy.mode === 'RESEARCH_AND_BUILD') {
+    checkTimeout('autonomy');
     console.log('[TitanPipeline] Triggering Autonomy Core for Unknown Task...');
+    emitStep('assembling', 'running', 'Researching unknown task...');
     const autonomyStart = Date.now();
     const result = await autonomyCore.solveUnknown({
       id: `auto_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
       description: input.instructions,
       context: `Files: ${input.files.length}${input.currentCode ? '\nExisting code present.' : ''}`,
       technical_constraints: [],
-    });
+    }, signal);
     stepTimings.autonomy = Date.now() - autonomyStart;
+    if (result.suspendedState) {
+      rememberAutonomyBase(result.suspendedState, input.currentCode);
+    }
 
-    // Parse autonomy output into multiple files if markers are present
-    const autonomyFiles = parseAutonomyOutput(result.output);
+    // Apply the coders' edit set to the current project; plain output is
+    // split into files by its markers
+    let autonomyFiles: AppFile[] = [];
+    let autonomyError = result.success ? null : result.error || 'Autonomy failed';
+    if (result.edits) {
+      try {
+        autonomyFiles = applyAutonomyEdits(input.currentCode, result.edits);
+      } catch (e) {
+        autonomyError ??= e instanceof Error ? e.message : String(e);
+      }
+    } else {
+      autonomyFiles = parseAutonomyOutput(result.output);
+    }
+    emitStep(
+      'assembling',
+      autonomyError ? 'error' : 'completed',
+      autonomyError ?? `Autonomy produced ${autonomyFiles.length} file(s)`
+    );
 
     return {
       files: autonomyFiles,
       strategy,
       manifests: [],
       physics: null,
-      warnings: result.success ? [] : [result.error || 'Autonomy failed'],
+      warnings: autonomyError ? [autonomyError] : [],
       stepTimings,
       command: result.command,
       suspendedState: result.suspendedState,
@@ -109,20 +216,26 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
     // Surveyor
     (async () => {
       if (strategy.execution_plan.measure_pixels.length && input.files.length > 0) {
-        manifests.push(await surveyLayout(input.files[0], 0));
+        emitStep('surveying', 'running', 'Reverse engineering reference image...');
+        manifests.push(await surveyLayout(input.files[0], 0, signal));
+        emitStep('surveying', 'completed', 'Visual manifest extracted');
       }
     })(),
     // Physicist
     (async () => {
       if (strategy.execution_plan.extract_physics.length) {
+        emitStep('physicist', 'running', 'Extracting motion physics...');
         const videoFiles = input.files.filter((f) => f.mimeType.startsWith('video'));
-        physics = await extractPhysics(videoFiles, strategy);
+        physics = await extractPhysics(videoFiles, strategy, signal);
+        emitStep('physicist', 'completed', 'Motion physics extracted');
       }
     })(),
     // Photographer
     (async () => {
       if (strategy.execution_plan.generate_assets) {
+        emitStep('photographer', 'running', 'Generating material assets...');
         for (const asset of strategy.execution_plan.generate_assets) {
+          if (signal?.aborted) break;
           // Skip HDRI/environment assets — not supported by image generator yet
           // Builder uses drei Environment presets instead
           if (asset.type === 'hdri' || asset.type === 'environment') {
@@ -140,18 +253,29 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
             console.error('Asset generation failed', e);
           }
         }
+        emitStep(
+          'photographer',
+          'completed',
+          `Generated ${Object.keys(generatedAssets).length} asset(s)`
+        );
       }
     })(),
   ]);
 
   stepTimings.parallel = Date.now() - parallelStart;
 
+  // Stage failures caused by cancellation are not warnings — stop the run
+  signal?.throwIfAborted();
+
   // Log any stage failures without aborting the pipeline
   const stageNames = ['Surveyor', 'Physicist', 'Photographer'];
+  const stageSteps: PipelineStepName[] = ['surveying', 'physicist', 'photographer'];
   parallelResults.forEach((result, i) => {
     if (result.status === 'rejected') {
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
       console.error(`[TitanPipeline] ${stageNames[i]} stage failed:`, result.reason);
-      warnings.push(`${stageNames[i]} stage failed: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+      warnings.push(`${stageNames[i]} stage failed: ${reason}`);
+      emitStep(stageSteps[i], 'error', reason);
     }
   });
 
@@ -186,12 +310,15 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
 
   checkTimeout('architect');
 
+  emitStep('architecting', 'running', 'Building component structure...');
   const structStart = Date.now();
-  const structure = await buildStructure(manifests, strategy, input.instructions);
+  const structure = await buildStructure(manifests, strategy, input.instructions, signal);
   stepTimings.architect = Date.now() - structStart;
+  emitStep('architecting', 'completed', 'Structure ready');
 
   checkTimeout('builder');
 
+  emitStep('assembling', 'running', 'Synthesizing code...');
   const buildStart = Date.now();
   let files = await assembleCode(
     structure,
@@ -201,9 +328,28 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
     input.currentCode,
     input.instructions,
     generatedAssets,
-    input.repoContext
+    input.repoContext,
+    signal
   );
   stepTimings.builder = Date.now() - buildStart;
+  files.forEach((file, fileIndex) => {
+    emit({
+      type: 'file_start',
+      timestamp: Date.now(),
+      filePath: file.path,
+      fileIndex,
+      totalFiles: files.length,
+      step: 'assembling',
+    });
+    emit({
+      type: 'file_progress',
+      timestamp: Date.now(),
+      filePath: file.path,
+      chunkSize: file.content.length,
+      totalChars: file.content.length,
+      step: 'assembling',
+    });
+  });
 
   // Convert dom_tree to DetectedComponentEnhanced[] for component-level healing
   let domTreeComponents: DetectedComponentEnhanced[] | undefined;
@@ -235,6 +381,7 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
   let healingResult: PipelineResult['healingResult'] | undefined;
   if (!input.skipHealing && input.files.length > 0 && manifests.length > 0) {
     const healStart = Date.now();
+    emitStep('assembling', 'running', 'Running vision healing loop...');
     try {
       const visionLoop = getVisionLoopEngine();
       const loopResult = await visionLoop.runLoop({
@@ -248,6 +395,7 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
         assets: generatedAssets,
         components: domTreeComponents,
         canvasBackground: manifests[0]?.canvas?.background,
+        signal,
         regenerate: async (critiqueContext: string) => {
           // Regenerate code with critique feedback appended to instructions
           return assembleCode(
@@ -258,7 +406,8 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
             input.currentCode,
             `${input.instructions}\n\n${critiqueContext}`,
             generatedAssets,
-            input.repoContext
+            input.repoContext,
+            signal
           );
         },
       });
@@ -270,9 +419,18 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
         stopReason: loopResult.stopReason,
         usedPatching: loopResult.usedPatching,
       };
-      warnings.push(
-        `Healing loop: ${loopResult.stopReason} after ${loopResult.iterations} iteration(s), fidelity=${loopResult.fidelityScore}%${loopResult.usedPatching ? ' (used component patching)' : ''}`
-      );
+      const healingSummary = `Healing loop: ${loopResult.stopReason} after ${loopResult.iterations} iteration(s), fidelity=${loopResult.fidelityScore}%${loopResult.usedPatching ? ' (used component patching)' : ''}`;
+      warnings.push(healingSummary);
+      emit({
+        type: 'validation',
+        timestamp: Date.now(),
+        message: healingSummary,
+        filesValidated: files.length,
+        totalFiles: files.length,
+        errorsFound: 0,
+        autoFixed: loopResult.iterations,
+        step: 'assembling',
+      });
     } catch (e) {
       console.error('[TitanPipeline] Healing loop error:', e);
       warnings.push('Healing loop encountered an error but pipeline continued');
@@ -280,7 +438,30 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
     stepTimings.healing = Date.now() - healStart;
   }
 
-  return { files, strategy, manifests, physics, warnings, stepTimings, healingResult };
+  // A run cancelled during healing must not report success
+  signal?.throwIfAborted();
+
+  const reviewed = reviewCode(files);
+  files = reviewed.files;
+  const { qualityReport, qualityGateFailure: gateFailure } = reviewed;
+
+  emitStep(
+    'assembling',
+    gateFailure ? 'error' : 'completed',
+    gateFailure ? `Code review: ${gateFailure}` : `Generated ${files.length} file(s)`
+  );
+
+  return {
+    files,
+    strategy,
+    manifests,
+    physics,
+    warnings,
+    stepTimings,
+    healingResult,
+    qualityReport,
+    qualityGateFailure: gateFailure,
+  };
 }
 
 // ============================================================================
@@ -291,8 +472,8 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
  * TitanPipelineService class - thin wrapper for singleton pattern
  */
 export class TitanPipelineServiceInstance {
-  async runPipeline(input: PipelineInput): Promise<PipelineResult> {
-    return runPipeline(input);
+  async runPipeline(input: PipelineInput, options?: PipelineRunOptions): Promise<PipelineResult> {
+    return runPipeline(input, options);
   }
 
   async liveEdit(
@@ -7,14 +7,19 @@
  * - Critical Files: high-centrality files that require extra care
  * - Tech Stack: detected frameworks and libraries
  *
+ * Imports, dependents and file types come from CodeAnalysisService's
+ * syntax-tree analysis of every file.
+ *
  * This enables the "Ultimate Developer" behavior: generating code that
  * perfectly matches the existing codebase's style and patterns.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { GoogleGenerativeAI } from '@google/generative-ai';
+import { MeteredGoogleGenerativeAI } from '@/services/modelGateway/meter';
 import { withGeminiRetry } from '@/utils/geminiRetry';
-import { getDependencyGraphService } from '@/services/DependencyGraphService';
+import { getCodeAnalysisService } from '@/services/codeAnalysis';
 import type { AppFile } from '@/types/railway';
+import type { FileAnalysis, FileType } from '@/types/codeContext';
 import type { RepoContext, PatternTemplate } from '@/types/titanPipeline';
 import { getGeminiApiKey, GEMINI_FLASH_MODEL } from './config';
 
@@ -32,6 +37,12 @@ const PATTERN_FILE_PATTERNS = [
   /utils?\.tsx?$/,
 ];
 
+/** Analyzed file types worth extracting patterns from whatever their file name */
+const PATTERN_FILE_TYPES: FileType[] = ['hook', 'context-provider'];
+
+/** Max imported packages listed in the tech stack prompt */
+const MAX_STACK_PACKAGES = 40;
+
 /** Max files to send to Gemini for style analysis (token control) */
 const MAX_STYLE_SAMPLES = 5;
 
@@ -58,6 +69,30 @@ function hashContent(files: AppFile[]): string {
   return (hash >>> 0).toString(16);
 }
 
+// ============================================================================
+// IMPORTED PACKAGES
+// ============================================================================
+
+/**
+ * npm packages imported across the project, most imported first.
+ * Subpath imports count towards their package (next/router → next).
+ */
+function importedPackages(analyses: Map<string, FileAnalysis>): string[] {
+  const counts = new Map<string, number>();
+  for (const analysis of analyses.values()) {
+    for (const info of analysis.imports) {
+      if (!info.isExternal || info.source.startsWith('node:')) continue;
+      const parts = info.source.split('/');
+      const name = info.source.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_STACK_PACKAGES)
+    .map(([name]) => name);
+}
+
 // ============================================================================
 // PROMPTS
 // ============================================================================
@@ -90,7 +125,7 @@ Return JSON with:
 Focus on the structural pattern, not the specific implementation.
 If this file doesn't contain a reusable pattern, return {"name": "none", "codeSnippet": ""}.`;
 
-const TECH_STACK_PROMPT = `Analyze these file paths and package.json content (if available) to identify the tech stack.
+const TECH_STACK_PROMPT = `Analyze these file paths, imported packages and package.json content (if available) to identify the tech stack.
 
 Return a JSON array of technology names. Examples:
 ["Next.js", "React", "TypeScript", "Tailwind CSS", "Prisma", "tRPC"]
@@ -114,7 +149,7 @@ class RepoAnalystInstance {
     console.log(`[RepoAnalyst] Starting analysis of ${files.length} files...`);
 
     const apiKey = getGeminiApiKey();
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const genAI = new MeteredGoogleGenerativeAI(apiKey);
     const model = genAI.getGenerativeModel({
       model: GEMINI_FLASH_MODEL,
       generationConfig: { temperature: 0.1 },
@@ -123,25 +158,24 @@ class RepoAnalystInstance {
     // 1. Generate content hash for caching
     const contentHash = hashContent(files);
 
-    // 2. Build dependency graph and find critical files
-    const graphService = getDependencyGraphService();
-    const graph = graphService.buildGraph(files);
+    // 2. Analyze every file and find critical files
+    const analyses = getCodeAnalysisService().analyzeProject(files);
 
     const criticalFiles: string[] = [];
-    for (const [path, node] of graph.nodes) {
-      if (node.importedBy.length >= CRITICAL_THRESHOLD) {
+    for (const [path, analysis] of analyses) {
+      if (analysis.dependents.length >= CRITICAL_THRESHOLD) {
         criticalFiles.push(path);
       }
     }
 
     // 3. Detect tech stack
-    const techStack = await this.detectTechStack(files, model);
+    const techStack = await this.detectTechStack(files, analyses, model);
 
     // 4. Extract style guide from representative files
     const styleGuide = await this.extractStyleGuide(files, model);
 
     // 5. Extract pattern library from feature files
-    const patternLibrary = await this.extractPatterns(files, model);
+    const patternLibrary = await this.extractPatterns(files, analyses, model);
 
     console.log(
       `[RepoAnalyst] Analysis complete in ${Date.now() - startTime}ms. ` +
@@ -164,10 +198,11 @@ class RepoAnalystInstance {
   // ==========================================================================
 
   /**
-   * Detect the tech stack from file paths and package.json
+   * Detect the tech stack from file paths, imported packages and package.json
    */
   private async detectTechStack(
     files: AppFile[],
+    analyses: Map<string, FileAnalysis>,
     model: ReturnType<GoogleGenerativeAI['getGenerativeModel']>
   ): Promise<string[]> {
     // Find package.json
@@ -180,11 +215,15 @@ class RepoAnalystInstance {
       .map((f) => f.path)
       .join('\n');
 
+    const packages = importedPackages(analyses);
+
     const prompt = `${TECH_STACK_PROMPT}
 
 File paths:
 ${pathSample}
 
+${packages.length > 0 ? `Imported packages (most used first):\n${packages.join('\n')}` : ''}
+
 ${packageContent ? `package.json (partial):\n${packageContent}` : ''}`;
 
     let rawText = '';
@@ -243,12 +282,14 @@ ${fileContents}`;
    */
   private async extractPatterns(
     files: AppFile[],
+    analyses: Map<string, FileAnalysis>,
     model: ReturnType<GoogleGenerativeAI['getGenerativeModel']>
   ): Promise<PatternTemplate[]> {
-    // Find pattern-worthy files
-    const patternFiles = files.filter((f) =>
-      PATTERN_FILE_PATTERNS.some((p) => p.test(f.path))
-    );
+    // Find pattern-worthy files: by name, or analyzed as hooks / providers
+    const patternFiles = files.filter((f) => {
+      const type = analyses.get(f.path)?.type;
+      return PATTERN_FILE_PATTERNS.some((p) => p.test(f.path)) || (!!type && PATTERN_FILE_TYPES.includes(type));
+    });
 
     const patterns: PatternTemplate[] = [];
 
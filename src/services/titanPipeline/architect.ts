@@ -4,9 +4,8 @@
  * Structure building using Claude Opus - creates component structure from manifests.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import type { VisualManifest, MergeStrategy, ComponentStructure } from '@/types/titanPipeline';
-import { getAnthropicApiKey, CLAUDE_OPUS_MODEL } from './config';
+import { getModelGateway } from '@/services/modelGateway';
 
 // ============================================================================
 // ARCHITECT PROMPT
@@ -27,23 +26,14 @@ Use semantic tags. Add data-id to everything. Return JSON.`;
 export async function buildStructure(
   manifests: VisualManifest[],
   _strategy: MergeStrategy,
-  instructions: string
+  instructions: string,
+  signal?: AbortSignal
 ): Promise<ComponentStructure> {
-  const apiKey = getAnthropicApiKey();
-  const anthropic = new Anthropic({ apiKey });
-
-  const msg = await anthropic.messages.create({
-    model: CLAUDE_OPUS_MODEL,
-    max_tokens: 4000,
-    messages: [
-      {
-        role: 'user',
-        content: `${ARCHITECT_PROMPT}\nInstructions: ${instructions}\nManifests: ${JSON.stringify(manifests)}`,
-      },
-    ],
-  });
-
-  const text = msg.content[0].type === 'text' ? msg.content[0].text : '';
+  const text = await getModelGateway().generateText(
+    'architect',
+    `${ARCHITECT_PROMPT}\nInstructions: ${instructions}\nManifests: ${JSON.stringify(manifests)}`,
+    { signal }
+  );
   try {
     const jsonMatch = text.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
@@ -4,7 +4,6 @@
  * Code synthesis - generates final React code from manifests, physics, and assets.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { AppFile } from '@/types/railway';
 import type {
   VisualManifest,
@@ -13,9 +12,18 @@ import type {
   MergeStrategy,
   RepoContext,
 } from '@/types/titanPipeline';
-import { withGeminiRetry } from '@/utils/geminiRetry';
-import { extractCode } from '@/utils/extractCode';
-import { getGeminiApiKey, GEMINI_PRO_MODEL, CODE_ONLY_SYSTEM_INSTRUCTION } from './config';
+import {
+  parseMarkedFiles,
+  isAppFile,
+  isEntryFile,
+  ENTRY_FILE_PATH,
+  ENTRY_FILE_CONTENT,
+} from '@/utils/projectFiles';
+import { hasDesignTokens, toThemeObject, tokensFromManifests } from '@/utils/designTokens';
+import { compileScene3D, readSceneDefinition } from '@/utils/scene3dCompiler';
+import { getModelGateway } from '@/services/modelGateway';
+import { CODE_ONLY_SYSTEM_INSTRUCTION } from './config';
+import { designScene } from './sceneDesigner';
 
 // ============================================================================
 // BUILDER PROMPT
@@ -35,7 +43,7 @@ You are the **Universal Builder**. Write the final React code.
    - Do NOT simplify the structure. Pixel-perfect accuracy is key.
 
 3. **Physics:** Implement the physics using Framer Motion.
-4. **Data-IDs:** Preserve all data-id attributes for the inspector.
+4. **Data-IDs:** Preserve all data-id attributes for the inspector, in whichever file renders the element.
 
 5. **Icons (Rendering):**
    - **Priority 1:** If \`iconSvgPath\` exists -> render inline \`<svg>\` with the path data.
@@ -56,8 +64,19 @@ You are the **Universal Builder**. Write the final React code.
      box-shadow for depth; filter: drop-shadow for floating effect.
    - Do NOT just set a backgroundColor. Use real CSS shape techniques.
 
-### Output
-Return ONLY the full App.tsx code. No markdown.`;
+### Output (Multi-File Project)
+Split the page into a component tree. Start every file with a marker line \`// === <path> ===\`:
+- \`/src/theme.ts\` — shared design tokens: \`export const theme = { colors: {...}, fonts: {...}, fontSizes: {...}, radii: {...}, shadows: {...}, spacing: {...} };\`
+  Sections read colors, fonts, radii, shadows and spacing from \`theme\` instead of repeating literals.
+- \`/src/components/<Section>.tsx\` — one file per major section (e.g. Header, Hero, Features, Cards, Footer).
+  Use a named export matching the file name: \`export function Hero() { ... }\`.
+- \`/src/components/index.ts\` — re-exports every section: \`export { Hero } from './Hero';\`
+- \`/src/App.tsx\` — \`export default function App()\` composing the sections imported from \`./components\`.
+
+Rules:
+- Only relative imports between generated files. Do NOT emit \`/src/index.tsx\` (the entry file is provided).
+- Each section's root element carries its data-id; keep every data-id from the structure and manifests.
+- No markdown. Output only the marked files.`;
 
 // ============================================================================
 // 3D BUILDER SUPPLEMENT (React Three Fiber)
@@ -526,6 +545,9 @@ const THREE_D_KEYWORDS = /\b(3[dD]|three\.?js|webgl|mesh(?:es)?|geometry|orbit\s
  * Assemble final React code from manifests, physics, and assets.
  * When repoContext is provided, the builder will follow the repo's coding style
  * and reuse patterns from the pattern library for consistent code generation.
+ * 3D scenes are designed as a Scene3DDefinition and compiled when possible
+ * (new projects, or projects that already carry /src/scene3d.json); free-form
+ * R3F generation is the fallback.
  */
 export async function assembleCode(
   structure: ComponentStructure | null,
@@ -535,18 +557,36 @@ export async function assembleCode(
   currentCode: string | null,
   instructions: string,
   assets: Record<string, string>,
-  repoContext?: RepoContext
+  repoContext?: RepoContext,
+  signal?: AbortSignal
 ): Promise<AppFile[]> {
-  const apiKey = getGeminiApiKey();
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({
-    model: GEMINI_PRO_MODEL,
-    systemInstruction: CODE_ONLY_SYSTEM_INSTRUCTION,
-  });
-
   // Detect 3D mode from strategy flag or instruction keywords
   const is3D = strategy.execution_plan.enable_3d || THREE_D_KEYWORDS.test(instructions);
 
+  if (is3D) {
+    const existing = currentCode ? readSceneDefinition(parseMarkedFiles(currentCode)) : null;
+    if (!currentCode || existing) {
+      const design = await designScene(
+        {
+          instructions,
+          manifests,
+          assets,
+          currentScene: existing?.scene,
+          errors: existing?.errors,
+        },
+        signal
+      );
+      if (design.scene) {
+        const compiled = compileScene3D(design.scene);
+        compiled.warnings.forEach((w) => console.warn(`[Builder] Scene compiler: ${w}`));
+        return toProjectFiles(compiled.files);
+      }
+      console.warn(
+        `[Builder] Scene definition invalid after repair; falling back to free-form 3D code:\n${design.errors.join('\n')}`
+      );
+    }
+  }
+
   /** Strip control characters and newlines from URLs to prevent prompt injection */
   const sanitizeUrl = (url: string): string => url.replace(/[\r\n\t`${}\\]/g, '').trim();
 
@@ -575,6 +615,17 @@ Apply them via backgroundImage on the matching elements. Combine with clip-path
 Follow this structure closely. It defines the component hierarchy, data-ids, and semantic layout.
 \`\`\`json
 ${JSON.stringify(structure, null, 2)}
+\`\`\``
+    : '';
+
+  // Build design token context from the Surveyor's detected theme
+  const tokens = tokensFromManifests(manifests);
+  const tokensSection = hasDesignTokens(tokens)
+    ? `\n\n### DESIGN TOKENS (detected)
+Use exactly these values as the \`theme\` object in \`/src/theme.ts\` (add tokens only for values not covered here).
+Sections MUST reference them (\`theme.colors.primary\`, \`theme.radii.md\`, \`theme.spacing.lg\`…) instead of hard-coded hex codes or pixel values.
+\`\`\`json
+${JSON.stringify(toThemeObject(tokens), null, 2)}
 \`\`\``
     : '';
 
@@ -584,6 +635,7 @@ ${JSON.stringify(structure, null, 2)}
 The user already has working code. You are EDITING it, not replacing from scratch.
 Preserve existing functionality, structure, and styling unless the instructions specifically ask to change them.
 Apply the requested changes surgically — do NOT rewrite unrelated parts.
+If the code is split into marked files, return every file (changed or not) with its marker so the project stays complete.
 \`\`\`tsx
 ${currentCode}
 \`\`\``
@@ -611,7 +663,7 @@ ${currentCode}
   }
 
   const prompt = `${basePrompt}
-${repoContextSection}${structureSection}${currentCodeSection}
+${repoContextSection}${structureSection}${tokensSection}${currentCodeSection}
   ### ASSETS (Use these URLs!)
   ${JSON.stringify(assets, null, 2)}
   ${assetContext}
@@ -626,14 +678,39 @@ ${repoContextSection}${structureSection}${currentCodeSection}
   ${JSON.stringify(physics)}
   `;
 
-  const result = await withGeminiRetry(() => model.generateContent(prompt));
-  const code = extractCode(result.response.text());
+  const text = await getModelGateway().generateText('builder', prompt, {
+    system: CODE_ONLY_SYSTEM_INSTRUCTION,
+    signal,
+  });
+
+  return toProjectFiles(parseMarkedFiles(text));
+}
+
+// ============================================================================
+// OUTPUT NORMALIZATION
+// ============================================================================
+
+/**
+ * Normalize Builder output into a runnable project: paths live under /src,
+ * App.tsx comes first, and the entry bootstrap is always ours (it loads the
+ * inspector bridge). Single-file output passes through as App.tsx.
+ */
+function toProjectFiles(files: AppFile[]): AppFile[] {
+  const byPath = new Map<string, AppFile>();
+  for (const file of files) {
+    const path = file.path.startsWith('/src/') ? file.path : `/src${file.path}`;
+    if (isEntryFile(path) || /\/inspector\.(ts|js)$/.test(path)) continue;
+    byPath.set(path, { path, content: file.content });
+  }
+
+  const sources = [...byPath.values()];
+  if (!sources.some((f) => isAppFile(f.path))) {
+    console.warn('[Builder] Output has no App.tsx; files:', sources.map((f) => f.path).join(', '));
+  }
 
   return [
-    { path: '/src/App.tsx', content: code },
-    {
-      path: '/src/index.tsx',
-      content: `import React from 'react';\nimport { createRoot } from 'react-dom/client';\nimport App from './App';\nimport './inspector';\n\nconst root = createRoot(document.getElementById('root')!);\nroot.render(<React.StrictMode><App /></React.StrictMode>);`,
-    },
+    ...sources.filter((f) => isAppFile(f.path)),
+    ...sources.filter((f) => !isAppFile(f.path)),
+    { path: ENTRY_FILE_PATH, content: ENTRY_FILE_CONTENT },
   ];
 }
@@ -4,37 +4,17 @@
  * File upload utilities and output parsing.
  */
 
-import { GoogleAIFileManager } from '@google/generative-ai/server';
 import type { AppFile } from '@/types/railway';
-import type { FileInput } from '@/types/titanPipeline';
-import { extractCode } from '@/utils/extractCode';
+import type { FileEdit, SuspendedExecution } from '@/types/autonomy';
+import { applyFileEdits } from '@/utils/fileEdits';
+import { parseMarkedFiles } from '@/utils/projectFiles';
 
 // ============================================================================
 // FILE UPLOAD
 // ============================================================================
 
-/**
- * Upload a file (image/video) to Gemini API
- */
-export async function uploadFileToGemini(apiKey: string, file: FileInput) {
-  const fileManager = new GoogleAIFileManager(apiKey);
-  const base64Data = file.base64.includes(',') ? file.base64.split(',')[1] : file.base64;
-  const buffer = Buffer.from(base64Data, 'base64');
-
-  const uploadResult = await fileManager.uploadFile(buffer, {
-    mimeType: file.mimeType,
-    displayName: file.filename,
-  });
-
-  let fileState = uploadResult.file;
-  while (fileState.state === 'PROCESSING') {
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    fileState = await fileManager.getFile(fileState.name);
-  }
-
-  if (fileState.state === 'FAILED') throw new Error(`Upload failed: ${file.filename}`);
-  return fileState;
-}
+// Uploads now go through the model gateway (prepareFile); re-exported for existing imports
+export { uploadFileToGemini } from '@/services/modelGateway/providers/gemini';
 
 // ============================================================================
 // AUTONOMY OUTPUT PARSER
@@ -46,41 +26,37 @@ export async function uploadFileToGemini(apiKey: string, file: FileInput) {
  * split into separate files. Otherwise, treat entire output as App.tsx.
  */
 export function parseAutonomyOutput(output: string): AppFile[] {
-  const fileMarkerRegex = /\/\/\s*===\s*(\/[^\s]+)\s*===/g;
-  const matches = [...output.matchAll(fileMarkerRegex)];
-
-  if (matches.length === 0) {
-    // No markers — treat as single App.tsx
-    const code = extractCode(output);
-    return [{ path: '/src/App.tsx', content: code }];
-  }
-
-  // Split output by file markers
-  const files: AppFile[] = [];
-  for (let i = 0; i < matches.length; i++) {
-    const match = matches[i];
-    const path = match[1];
-    const matchIndex = match.index;
+  return parseMarkedFiles(output);
+}
 
-    if (matchIndex === undefined) {
-      console.warn('[TitanPipeline] Regex match missing index, skipping file');
-      continue;
-    }
+/** New autonomy files may only be created under the project source root */
+const AUTONOMY_EDIT_ROOTS = ['/src'];
 
-    const startIndex = matchIndex + match[0].length;
-    const nextMatchIndex = i < matches.length - 1 ? matches[i + 1].index : undefined;
-    const endIndex = nextMatchIndex !== undefined ? nextMatchIndex : output.length;
-    const content = extractCode(output.slice(startIndex, endIndex));
+/** Suspended swarm memory key for the project the edit set applies to */
+const AUTONOMY_BASE_KEY = '__currentCode';
 
-    if (content.length > 0) {
-      files.push({ path, content });
-    }
-  }
+/**
+ * Apply an autonomy edit set to the current project (serialized with file
+ * markers, or a lone App.tsx) and return the complete resulting file set.
+ * Throws if any edit is rejected; nothing is applied in that case.
+ */
+export function applyAutonomyEdits(currentCode: string | null, edits: FileEdit[]): AppFile[] {
+  const current = currentCode ? parseMarkedFiles(currentCode) : [];
+  return applyFileEdits(current, edits, { roots: AUTONOMY_EDIT_ROOTS }).files;
+}
 
-  // Ensure we always have at least an App.tsx
-  if (files.length === 0) {
-    return [{ path: '/src/App.tsx', content: output.trim() }];
-  }
+/**
+ * Keep the project an edit set applies to with a suspended swarm, so the
+ * Avatar feedback route can apply the final edits to the same files.
+ */
+export function rememberAutonomyBase(state: SuspendedExecution, currentCode: string | null): void {
+  state.memory[AUTONOMY_BASE_KEY] = currentCode;
+}
 
-  return files;
+/**
+ * The project remembered with a suspended swarm (null: start from scratch).
+ */
+export function autonomyBase(state: SuspendedExecution): string | null {
+  const base = state.memory?.[AUTONOMY_BASE_KEY];
+  return typeof base === 'string' ? base : null;
 }
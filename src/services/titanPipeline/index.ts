@@ -20,7 +20,12 @@ export {
 } from './config';
 
 // Re-export helper functions
-export { uploadFileToGemini, parseAutonomyOutput } from './helpers';
+export {
+  uploadFileToGemini,
+  parseAutonomyOutput,
+  applyAutonomyEdits,
+  autonomyBase,
+} from './helpers';
 
 // Re-export step functions for direct access if needed
 export { routeIntent } from './router';
@@ -29,8 +34,13 @@ export { buildStructure } from './architect';
 export { extractPhysics } from './physicist';
 export { assembleCode } from './builder';
 export { liveEdit } from './liveEditor';
+export { buildMultiPageSite } from './multiPage';
+export { designScene } from './sceneDesigner';
 export { getRepoAnalyst } from './analyst';
 
+// Re-export run registry for cancellation
+export { registerPipelineRun, cancelPipelineRun, releasePipelineRun } from './runRegistry';
+
 // Import the class to create the singleton
 import { TitanPipelineServiceInstance } from './TitanPipelineService';
 
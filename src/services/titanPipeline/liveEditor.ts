@@ -4,11 +4,10 @@
  * Quick code refinement - edits existing code based on user instructions.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { LiveEditResult } from '@/types/titanPipeline';
-import { withGeminiRetry } from '@/utils/geminiRetry';
 import { extractCode } from '@/utils/extractCode';
-import { getGeminiApiKey, GEMINI_PRO_MODEL, CODE_ONLY_SYSTEM_INSTRUCTION } from './config';
+import { getModelGateway } from '@/services/modelGateway';
+import { CODE_ONLY_SYSTEM_INSTRUCTION } from './config';
 
 // ============================================================================
 // LIVE EDITOR PROMPT
@@ -46,15 +45,6 @@ export async function liveEdit(
   instruction: string
 ): Promise<LiveEditResult> {
   try {
-    const apiKey = getGeminiApiKey();
-    const genAI = new GoogleGenerativeAI(apiKey);
-
-    const model = genAI.getGenerativeModel({
-      model: GEMINI_PRO_MODEL,
-      systemInstruction: CODE_ONLY_SYSTEM_INSTRUCTION,
-      generationConfig: { temperature: 0.2, maxOutputTokens: 16384 },
-    });
-
     const prompt = `${LIVE_EDITOR_PROMPT}
 
 ### Current Code
@@ -68,8 +58,10 @@ data-id="${selectedDataId}"
 ### Instruction
 "${instruction}"`;
 
-    const result = await withGeminiRetry(() => model.generateContent(prompt));
-    const updatedCode = extractCode(result.response.text());
+    const text = await getModelGateway().generateText('liveEditor', prompt, {
+      system: CODE_ONLY_SYSTEM_INSTRUCTION,
+    });
+    const updatedCode = extractCode(text);
 
     return { updatedCode, success: true };
   } catch (error) {
@@ -0,0 +1,445 @@
+/**
+ * Multi-Page Step
+ *
+ * Builds a routed multi-page app from several reference screenshots (one
+ * page each) or a screen recording that clicks through a site:
+ * 1. Page Analyst - role, palette, typography and navigation per page; for
+ *    a video, also the pages visited and the transitions between them
+ * 2. Surveyor - dom_tree per screenshot, for replication
+ * 3. Builder - one page component per page, against the shared theme
+ * 4. Scaffold - theme, router, shared Nav and routed App (utils/multiPageDesign)
+ */
+
+import type { AppFile } from '@/types/railway';
+import type {
+  FileInput,
+  PipelineInput,
+  PipelineStepName,
+  PipelineStepStatus,
+  VisualManifest,
+} from '@/types/titanPipeline';
+import type {
+  DetectedNavigation,
+  MultiPageDesign,
+  PageAnalysis,
+  PageReference,
+  PageRole,
+  VideoPageTransition,
+} from '@/types/layoutDesign';
+import { parseMarkedFiles, isAppFile } from '@/utils/projectFiles';
+import {
+  buildMultiPageDesign,
+  multiPageScaffold,
+  toPageComponentName,
+  toPageSlug,
+} from '@/utils/multiPageDesign';
+import { getModelGateway } from '@/services/modelGateway';
+import { CODE_ONLY_SYSTEM_INSTRUCTION } from './config';
+import { surveyLayout } from './surveyor';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A page as reported by the Page Analyst */
+interface AnalyzedPage {
+  name: string;
+  isMain: boolean;
+  analysis: PageAnalysis;
+}
+
+interface PageAnalystResult {
+  pages: AnalyzedPage[];
+  navigation: DetectedNavigation | null;
+  transitions: VideoPageTransition[];
+}
+
+export interface MultiPageBuild {
+  files: AppFile[];
+  design: MultiPageDesign;
+  manifests: VisualManifest[];
+  warnings: string[];
+}
+
+export interface MultiPageBuildOptions {
+  emitStep?: (step: PipelineStepName, status: PipelineStepStatus, message: string) => void;
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// PAGE ANALYST PROMPT
+// ============================================================================
+
+const PAGE_ANALYST_PROMPT = `### Role
+You are the **Page Analyst**. The attached reference is one page of a website (screenshot) or a screen recording clicking through several pages of it.
+
+### Instructions
+1. List every distinct page shown, once each, in the order first seen. A screenshot is exactly one page.
+2. For each page report its role, layout, colors (hex), typography, spacing and effects as seen.
+3. Report the site navigation (menu items in order, which one is active, style and position) if visible.
+4. For a recording, report each transition between pages with start/end time in seconds and frame indexes.
+
+### Output
+Return JSON only:
+{
+  "pages": [{
+    "name": "Home",
+    "isMain": true,
+    "pageRole": "landing|dashboard|list|detail|form|auth|settings|profile|checkout|search|error|custom",
+    "layoutType": "single-page|dashboard|landing|e-commerce|portfolio|blog|saas",
+    "colorPalette": { "primary": "#", "secondary": "#", "accent": "#", "background": "#", "surface": "#", "text": "#", "textMuted": "#" },
+    "typography": { "headingStyle": "", "bodyStyle": "", "headingWeight": "bold", "bodyWeight": "normal", "estimatedHeadingFont": "", "estimatedBodyFont": "" },
+    "spacing": { "density": "normal", "sectionPadding": "lg", "componentGap": "md" },
+    "effects": { "borderRadius": "md", "shadows": "subtle", "hasGradients": false, "hasBlur": false, "hasAnimations": false },
+    "vibe": "",
+    "vibeKeywords": [],
+    "confidence": 0.8
+  }],
+  "navigation": { "items": [{ "label": "Home", "order": 0, "isActive": true }], "style": "horizontal|vertical|sidebar|hamburger|tabs|mega-menu", "position": "header|sidebar|footer|floating", "isSticky": true, "confidence": 0.8 } | null,
+  "transitions": [{ "startTime": 0, "endTime": 0.4, "transitionType": "navigation|scroll|modal|drawer|tab-switch|unknown", "confidence": 0.8, "startFrameIndex": 0, "endFrameIndex": 12 }]
+}`;
+
+// ============================================================================
+// PAGE BUILDER PROMPT
+// ============================================================================
+
+function pageBuilderPrompt(component: string, slug: string): string {
+  return `### Role
+You are the **Page Builder**. Write ONE page of a multi-page React site.
+
+### Instructions
+1. The site shell already exists: \`/src/App.tsx\` routes between pages, \`/src/components/Nav.tsx\` renders the shared navigation and \`/src/theme.ts\` exports the shared \`theme\`. Do NOT recreate the navigation, routing or theme.
+2. If the Manifest contains a 'dom_tree', rebuild that structure exactly, minus the site navigation. Map 'type' to HTML tags and 'styles' to Tailwind classes.
+3. Read colors, fonts, radii, shadows and spacing from \`theme\` (\`import { theme } from '../theme'\`). Use the page's color overrides only where listed.
+4. Link to other pages with \`import { Link } from '../router'\` and \`<Link to="/path">\`, using the routes below.
+5. Preserve all data-id attributes for the inspector, and give the page root \`data-id="${slug}-page"\`.
+
+### Output
+Start every file with a marker line \`// === <path> ===\`:
+- \`/src/pages/${component}.tsx\` — \`export default function ${component}(props: Record<string, string>)\`; route params such as \`id\` arrive as props.
+- \`/src/pages/${slug}/<Section>.tsx\` — optional page sections with named exports, imported relatively.
+No markdown. Output only the marked files.`;
+}
+
+// ============================================================================
+// PAGE ANALYST
+// ============================================================================
+
+const PAGE_ROLES: PageRole[] = [
+  'landing', 'dashboard', 'list', 'detail', 'form', 'auth',
+  'settings', 'profile', 'checkout', 'search', 'error', 'custom',
+];
+
+const LAYOUT_TYPES: PageAnalysis['layoutType'][] = [
+  'single-page', 'dashboard', 'landing', 'e-commerce', 'portfolio', 'blog', 'saas',
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPageRole(value: unknown): value is PageRole {
+  return PAGE_ROLES.some((role) => role === value);
+}
+
+function isLayoutType(value: unknown): value is PageAnalysis['layoutType'] {
+  return LAYOUT_TYPES.some((type) => type === value);
+}
+
+/** Fields of a model object, taken as-is; none when it isn't an object */
+function fieldsOf<T>(value: unknown): Partial<T> {
+  return isRecord(value) ? (value as Partial<T>) : {};
+}
+
+/** Object entries of a model list; none when it isn't a list */
+function recordsOf<T>(value: unknown): T[] {
+  return Array.isArray(value) ? (value.filter(isRecord) as T[]) : [];
+}
+
+/** Fill the fields a partial model answer left out */
+function toPageAnalysis(raw: Record<string, unknown>): PageAnalysis {
+  return {
+    pageRole: isPageRole(raw.pageRole) ? raw.pageRole : 'custom',
+    layoutType: isLayoutType(raw.layoutType) ? raw.layoutType : 'single-page',
+    colorPalette: {
+      primary: '',
+      secondary: '',
+      accent: '',
+      background: '',
+      surface: '',
+      text: '',
+      textMuted: '',
+      ...fieldsOf<PageAnalysis['colorPalette']>(raw.colorPalette),
+    },
+    typography: {
+      headingStyle: '',
+      bodyStyle: '',
+      headingWeight: 'bold',
+      bodyWeight: 'normal',
+      ...fieldsOf<PageAnalysis['typography']>(raw.typography),
+    },
+    spacing: {
+      density: 'normal',
+      sectionPadding: 'lg',
+      componentGap: 'md',
+      ...fieldsOf<PageAnalysis['spacing']>(raw.spacing),
+    },
+    components: recordsOf<PageAnalysis['components'][number]>(raw.components),
+    effects: {
+      borderRadius: 'md',
+      shadows: 'subtle',
+      hasGradients: false,
+      hasBlur: false,
+      hasAnimations: false,
+      ...fieldsOf<PageAnalysis['effects']>(raw.effects),
+    },
+    vibe: typeof raw.vibe === 'string' ? raw.vibe : '',
+    vibeKeywords: Array.isArray(raw.vibeKeywords)
+      ? raw.vibeKeywords.filter((k): k is string => typeof k === 'string')
+      : [],
+    confidence: typeof raw.confidence === 'number' ? raw.confidence : 0.5,
+  };
+}
+
+/**
+ * Analyze one reference (screenshot or recording) into its pages,
+ * navigation and — for a recording — page transitions.
+ */
+export async function analyzeReference(
+  file: FileInput,
+  instructions: string,
+  signal?: AbortSignal
+): Promise<PageAnalystResult> {
+  const gateway = getModelGateway();
+  const filePart = await gateway.prepareFile('pageAnalyst', file, { signal });
+  const text = await gateway.generateText(
+    'pageAnalyst',
+    [
+      filePart,
+      {
+        text: `${PAGE_ANALYST_PROMPT}\n\nReference file: ${file.filename} (${file.mimeType})${instructions ? `\nUser instructions: ${instructions}` : ''}`,
+      },
+    ],
+    { signal }
+  );
+
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    console.error('[MultiPage] Raw Page Analyst response (first 500 chars):', text.slice(0, 500));
+    throw new Error(`Page Analyst returned no JSON for ${file.filename}`);
+  }
+  const parsed: unknown = JSON.parse(jsonMatch[0]);
+  const data = isRecord(parsed) ? parsed : {};
+  const pages: AnalyzedPage[] = recordsOf<Record<string, unknown>>(data.pages).map((p) => ({
+    name: typeof p.name === 'string' && p.name.trim() ? p.name.trim() : file.filename,
+    isMain: p.isMain === true,
+    analysis: toPageAnalysis(p),
+  }));
+  if (pages.length === 0) {
+    throw new Error(`Page Analyst found no page in ${file.filename}`);
+  }
+
+  const navigation: DetectedNavigation | null =
+    isRecord(data.navigation) && Array.isArray(data.navigation.items)
+      ? {
+          items: [],
+          style: 'horizontal',
+          position: 'header',
+          confidence: 0.5,
+          ...fieldsOf<DetectedNavigation>(data.navigation),
+        }
+      : null;
+  const transitions = recordsOf<VideoPageTransition>(data.transitions);
+  return { pages, navigation, transitions };
+}
+
+// ============================================================================
+// PAGE BUILDER
+// ============================================================================
+
+/** Placeholder for a page the Builder could not produce */
+function placeholderPage(page: PageReference, component: string): string {
+  return `import React from 'react';
+import { theme } from '../theme';
+
+export default function ${component}() {
+  return (
+    <section data-id="${page.slug}-page" style={{ padding: theme.spacing.section }}>
+      <h1 className="text-4xl font-bold">${page.name.replace(/[{}<>]/g, '')}</h1>
+    </section>
+  );
+}
+`;
+}
+
+/**
+ * Build one page: `/src/pages/<Name>Page.tsx` plus optional sections under
+ * `/src/pages/<slug>/`. Unmarked output is taken as the page component.
+ */
+export async function assemblePage(
+  page: PageReference,
+  manifest: VisualManifest | undefined,
+  design: MultiPageDesign,
+  instructions: string,
+  signal?: AbortSignal
+): Promise<AppFile[]> {
+  const component = toPageComponentName(page);
+  const pagePath = `/src/pages/${component}.tsx`;
+  const override = design.pageSpecificOverrides[page.id]?.globalStyles?.colors;
+
+  const prompt = `${pageBuilderPrompt(component, page.slug)}
+
+### PAGE
+${JSON.stringify({ name: page.name, slug: page.slug, analysis: page.analysis }, null, 2)}
+
+### ROUTES
+${design.inferredRoutes.map((r) => `- ${r.path} → ${r.pageName}`).join('\n')}
+${override ? `\n### COLOR OVERRIDES (this page only)\n${JSON.stringify(override, null, 2)}\n` : ''}
+### INSTRUCTIONS
+${instructions}
+
+### MANIFEST (Look for dom_tree)
+${JSON.stringify(manifest ?? null, null, 2)}
+`;
+
+  const text = await getModelGateway().generateText('builder', prompt, {
+    system: CODE_ONLY_SYSTEM_INSTRUCTION,
+    signal,
+  });
+
+  const files: AppFile[] = [];
+  for (const file of parseMarkedFiles(text)) {
+    const path = file.path.startsWith('/src/') ? file.path : `/src${file.path}`;
+    if (isAppFile(path)) {
+      files.push({
+        path: pagePath,
+        content: file.content.replace(/export default function App\b/, `export default function ${component}`),
+      });
+    } else if (path.startsWith('/src/pages/')) {
+      files.push({ path, content: file.content });
+    }
+  }
+  if (!files.some((f) => f.path === pagePath)) {
+    throw new Error(`Builder returned no ${pagePath}`);
+  }
+  return files;
+}
+
+// ============================================================================
+// MULTI-PAGE BUILD
+// ============================================================================
+
+function uniqueSlug(name: string, taken: Set<string>): string {
+  const base = toPageSlug(name);
+  let slug = base;
+  for (let n = 2; taken.has(slug); n++) slug = `${base}-${n}`;
+  taken.add(slug);
+  return slug;
+}
+
+/**
+ * Build a routed multi-page app from the input's images (one page each)
+ * and videos (every page visited). Failed analyses and page builds become
+ * warnings; the site is still assembled around them.
+ */
+export async function buildMultiPageSite(
+  input: PipelineInput,
+  options: MultiPageBuildOptions = {}
+): Promise<MultiPageBuild> {
+  const { emitStep, signal } = options;
+  const warnings: string[] = [];
+  const references = input.files.filter((f) => f.mimeType.startsWith('image') || f.mimeType.startsWith('video'));
+  if (references.length === 0) {
+    throw new Error('[MultiPage] Multi-page generation needs at least one image or video reference');
+  }
+
+  emitStep?.('surveying', 'running', `Analyzing ${references.length} page reference(s)...`);
+  const analyses = await Promise.allSettled(
+    references.map(async (file, index) => {
+      const isImage = file.mimeType.startsWith('image');
+      const [analysis, manifest] = await Promise.allSettled([
+        analyzeReference(file, input.instructions, signal),
+        isImage ? surveyLayout(file, index, signal) : Promise.resolve(undefined),
+      ]);
+      return { file, isImage, analysis, manifest: manifest.status === 'fulfilled' ? manifest.value : undefined };
+    })
+  );
+  signal?.throwIfAborted();
+
+  const createdAt = new Date().toISOString();
+  const taken = new Set<string>();
+  const pages: PageReference[] = [];
+  const manifests: VisualManifest[] = [];
+  const manifestByPage = new Map<string, VisualManifest>();
+  const navigations: DetectedNavigation[] = [];
+  const transitions: VideoPageTransition[] = [];
+
+  for (const settled of analyses) {
+    if (settled.status === 'rejected') continue;
+    const { file, isImage, analysis, manifest } = settled.value;
+    const referenceImage = isImage ? `data:${file.mimeType};base64,${file.base64}` : '';
+    const addPage = (page: Omit<PageReference, 'id' | 'slug' | 'order' | 'referenceImage' | 'createdAt'>) => {
+      const ref: PageReference = {
+        ...page,
+        id: `page_${pages.length}`,
+        slug: uniqueSlug(page.name, taken),
+        order: pages.length,
+        referenceImage,
+        createdAt,
+      };
+      pages.push(ref);
+      if (manifest) manifestByPage.set(ref.id, manifest);
+    };
+    if (manifest) manifests.push(manifest);
+
+    if (analysis.status === 'rejected') {
+      const reason = analysis.reason instanceof Error ? analysis.reason.message : String(analysis.reason);
+      warnings.push(`Page analysis failed for ${file.filename}: ${reason}`);
+      // A screenshot is still one page; a recording's pages are unknown without analysis
+      if (isImage) {
+        addPage({ name: file.filename.replace(/\.[^.]+$/, ''), status: 'error', errorMessage: reason });
+      }
+      continue;
+    }
+
+    // A screenshot shows one page, even if the model listed more
+    const found = isImage ? analysis.value.pages.slice(0, 1) : analysis.value.pages;
+    for (const page of found) {
+      addPage({ name: page.name, analysis: page.analysis, isMain: page.isMain, status: 'complete' });
+    }
+    if (analysis.value.navigation) navigations.push(analysis.value.navigation);
+    if (!isImage) transitions.push(...analysis.value.transitions);
+  }
+
+  if (pages.length === 0) {
+    emitStep?.('surveying', 'error', 'No pages found in the references');
+    throw new Error(`[MultiPage] No pages found in the references${warnings.length ? `: ${warnings.join('; ')}` : ''}`);
+  }
+  // Only one page may be the index
+  const main = pages.find((p) => p.isMain);
+  pages.forEach((p) => (p.isMain = p === (main ?? pages[0])));
+
+  const design = buildMultiPageDesign(pages, navigations, transitions);
+  emitStep?.(
+    'surveying',
+    'completed',
+    `Found ${pages.length} page(s), ${design.navigation.items.length} nav item(s), ${transitions.length} transition(s)`
+  );
+
+  emitStep?.('assembling', 'running', `Building ${pages.length} page(s)...`);
+  const built = await Promise.allSettled(
+    pages.map((page) => assemblePage(page, manifestByPage.get(page.id), design, input.instructions, signal))
+  );
+  signal?.throwIfAborted();
+
+  const pageFiles = built.flatMap((result, i) => {
+    if (result.status === 'fulfilled') return result.value;
+    const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    warnings.push(`Page build failed for ${pages[i].name}: ${reason}`);
+    const component = toPageComponentName(pages[i]);
+    return [{ path: `/src/pages/${component}.tsx`, content: placeholderPage(pages[i], component) }];
+  });
+
+  const [app, ...shell] = multiPageScaffold(design);
+  return { files: [app, ...pageFiles, ...shell], design, manifests, warnings };
+}
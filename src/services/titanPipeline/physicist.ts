@@ -4,11 +4,9 @@
  * Motion physics extraction - analyzes videos to extract spring physics and timing.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { MotionPhysics, FileInput, MergeStrategy } from '@/types/titanPipeline';
-import { withGeminiRetry } from '@/utils/geminiRetry';
-import { getGeminiApiKey, GEMINI_DEEP_THINK_MODEL } from './config';
-import { uploadFileToGemini } from './helpers';
+import type { ModelPart } from '@/types/modelGateway';
+import { getModelGateway } from '@/services/modelGateway';
 
 // ============================================================================
 // PHYSICIST PROMPT
@@ -27,22 +25,18 @@ Return JSON: { "component_motions": [] }`;
  */
 export async function extractPhysics(
   files: FileInput[],
-  _strategy?: MergeStrategy
+  _strategy?: MergeStrategy,
+  signal?: AbortSignal
 ): Promise<MotionPhysics> {
-  const apiKey = getGeminiApiKey();
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: GEMINI_DEEP_THINK_MODEL });
+  if (files.length === 0) return { component_motions: [] };
 
-  const parts: unknown[] = [{ text: PHYSICIST_PROMPT }];
+  const gateway = getModelGateway();
+  const parts: ModelPart[] = [{ text: PHYSICIST_PROMPT }];
   for (const f of files) {
-    const up = await uploadFileToGemini(apiKey, f);
-    parts.push({ fileData: { mimeType: up.mimeType, fileUri: up.uri } });
+    parts.push(await gateway.prepareFile('physicist', f, { signal }));
   }
 
-  if (files.length === 0) return { component_motions: [] };
-
-  const result = await withGeminiRetry(() => model.generateContent(parts as Parameters<typeof model.generateContent>[0]));
-  const text = result.response.text();
+  const text = await gateway.generateText('physicist', parts, { signal });
   try {
     const jsonMatch = text.match(/\{[\s\S]*\}/);
     return jsonMatch ? JSON.parse(jsonMatch[0]) : { component_motions: [] };
@@ -4,10 +4,8 @@
  * Universal traffic controller that determines pipeline mode and execution plan.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { PipelineInput, MergeStrategy } from '@/types/titanPipeline';
-import { withGeminiRetry } from '@/utils/geminiRetry';
-import { getGeminiApiKey, GEMINI_FLASH_MODEL } from './config';
+import { getModelGateway } from '@/services/modelGateway';
 
 // ============================================================================
 // ROUTER PROMPT
@@ -45,14 +43,10 @@ You are the **Pipeline Traffic Controller**.
 /**
  * Route intent to determine pipeline mode and execution plan
  */
-export async function routeIntent(input: PipelineInput): Promise<MergeStrategy> {
-  const apiKey = getGeminiApiKey();
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({
-    model: GEMINI_FLASH_MODEL,
-    generationConfig: { responseMimeType: 'application/json' },
-  });
-
+export async function routeIntent(
+  input: PipelineInput,
+  signal?: AbortSignal
+): Promise<MergeStrategy> {
   const prompt = `${ROUTER_PROMPT}
 
   User Request:
@@ -63,8 +57,7 @@ ${input.instructions}
   Code Exists: ${!!input.currentCode}
   `;
 
-  const result = await withGeminiRetry(() => model.generateContent(prompt));
-  const text = result.response.text();
+  const text = await getModelGateway().generateText('router', prompt, { json: true, signal });
 
   try {
     return JSON.parse(text);
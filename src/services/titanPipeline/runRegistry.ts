@@ -0,0 +1,57 @@
+/**
+ * Pipeline Run Registry
+ *
+ * Tracks in-flight pipeline runs by ID so a client can cancel one.
+ * Each run owns an AbortController whose signal is threaded through
+ * every Titan step; cancelling aborts any Gemini/Claude call in flight.
+ */
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+const activeRuns = new Map<string, AbortController>();
+
+// ============================================================================
+// REGISTRY FUNCTIONS
+// ============================================================================
+
+/**
+ * Register a new run. Uses the client-supplied ID when given so the client
+ * can cancel without waiting for the server to report one.
+ */
+export function registerPipelineRun(runId?: string): { runId: string; signal: AbortSignal } {
+  const id = runId || `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+  // A reused ID supersedes the previous run
+  activeRuns.get(id)?.abort(new DOMException('Pipeline run superseded', 'AbortError'));
+
+  const controller = new AbortController();
+  activeRuns.set(id, controller);
+  return { runId: id, signal: controller.signal };
+}
+
+/**
+ * Cancel a run by ID. Returns false if the run is unknown or already finished.
+ * With `signal`, only the run that owns it is cancelled, never a newer run
+ * that reused the ID.
+ */
+export function cancelPipelineRun(runId: string, signal?: AbortSignal): boolean {
+  const controller = activeRuns.get(runId);
+  if (!controller || (signal && controller.signal !== signal)) return false;
+
+  controller.abort(new DOMException('Pipeline run cancelled', 'AbortError'));
+  activeRuns.delete(runId);
+  return true;
+}
+
+/**
+ * Remove a finished run from the registry.
+ */
+export function releasePipelineRun(runId: string, signal: AbortSignal): void {
+  // Only release if the entry still belongs to this run (not a superseding one)
+  const controller = activeRuns.get(runId);
+  if (controller?.signal === signal) {
+    activeRuns.delete(runId);
+  }
+}
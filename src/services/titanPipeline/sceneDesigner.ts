@@ -0,0 +1,132 @@
+/**
+ * Scene Designer Step
+ *
+ * Designs 3D scenes as data: the model returns a Scene3DDefinition, which is
+ * validated (utils/scene3dValidation) and compiled deterministically to
+ * React Three Fiber (utils/scene3dCompiler). Invalid definitions get one
+ * repair round with the validation errors fed back.
+ */
+
+import type { VisualManifest } from '@/types/titanPipeline';
+import type { Scene3DDefinition } from '@/types/layoutDesign';
+import { validateScene3D } from '@/utils/scene3dValidation';
+import { getModelGateway } from '@/services/modelGateway';
+
+// ============================================================================
+// SCENE DESIGNER PROMPT
+// ============================================================================
+
+const SCENE_DESIGNER_PROMPT = `### Role
+You are a 3D Scene Designer. Describe the requested scene as a JSON Scene3DDefinition.
+The definition is compiled to React Three Fiber by a deterministic compiler, so you write data, never code.
+
+### Shape (TypeScript; Vec3 = [number, number, number], colors are hex strings)
+{
+  config: {
+    renderer?: { antialias?, shadows?, toneMapping?: 'ACESFilmic'|'Linear'|'Reinhard'|'Cinematic', outputColorSpace?: 'srgb'|'linear' },
+    camera?: { type?: 'perspective'|'orthographic', position?: Vec3, lookAt?: Vec3, fov?, near?, far?, zoom? },
+    controls?: { type?: 'orbit'|'trackball'|'fly'|'pointer-lock'|'map', enableDamping?, dampingFactor?, minDistance?, maxDistance?, maxPolarAngle?, enablePan?, enableZoom?, autoRotate?, autoRotateSpeed? }
+  },
+  lights: Array<{ type: 'ambient'|'directional'|'point'|'spot'|'hemisphere'|'area', position?: Vec3, target?: Vec3, intensity?, color?, castShadow?, groundColor?, angle?, penumbra?, decay? }>,
+  objects: Array<Object3D>,
+  environment?: { background?, preset?: 'sunset'|'dawn'|'night'|'warehouse'|'forest'|'apartment'|'studio'|'city'|'park'|'lobby', hdriUrl?, fog?: { color?, near?, far? }, ground?: { color?, size?, receiveShadow? } },
+  postProcessing?: { bloom?: { intensity?, threshold?, smoothing? }, ssao?: { intensity?, radius?, samples? }, depthOfField?: { focusDistance?, focalLength?, bokehScale? }, chromaticAberration?: { offset?: [number, number] }, vignette?: { offset?, darkness? }, toneMapping?: { mode? } },
+  physics?: { gravity?: Vec3, timeStep?, debug? },
+  terrain?: { type: 'perlin'|'simplex'|'heightmap'|'flat', size?: [w, d], segments?: [x, z], heightRange?: [min, max], frequency?, octaves?, heightmapUrl?, material?, physics? },
+  skybox?: { type: 'color'|'gradient'|'cubemap'|'hdri'|'procedural', colors?, cubemapUrls?, hdriUrl?, sunPosition?: Vec3, turbidity?, rayleigh? },
+  firstPerson?: { moveSpeed?, jumpForce?, mouseSensitivity?, height?, radius?, autoLock? },
+  multiScene?: { scenes: Array<{ id, name, scene: Scene3DDefinition, isInitial?, transition?: { type: 'fade'|'crossfade'|'wipe'|'instant', duration? } }>, navigationTriggers?: Array<{ sceneId, objectId, targetSceneId }> }
+}
+Object3D = { id (unique), type: 'mesh'|'group'|'instance'|'line'|'points', geometry?: { type, args?, segments? }, material?: { type, color?, metalness?, roughness?, emissive?, emissiveIntensity?, map?, normalMap?, roughnessMap?, metalnessMap?, envMapIntensity?, transparent?, opacity?, transmission?, thickness?, ior?, clearcoat?, clearcoatRoughness? }, position?, rotation? (radians), scale?, castShadow?, receiveShadow?, children?, modelUrl?, instanceCount?, rigidBody?: { type: 'fixed'|'dynamic'|'kinematicPosition'|'kinematicVelocity', position?, rotation?, gravityScale?, linearVelocity?, angularVelocity?, enabledRotations?, colliders: Array<{ shape: 'cuboid'|'ball'|'capsule'|'cylinder'|'cone'|'trimesh', args?, sensor?, friction?, restitution?, density? }> } }
+
+### Rules
+- Geometry types: box, sphere, cylinder, cone, torus, torusKnot, plane, ring, dodecahedron, icosahedron, octahedron, capsule. Args follow the three.js constructors.
+- Material types: standard, physical, basic, lambert, phong, toon.
+- Every mesh and instance needs a geometry (or a modelUrl); instances need an instanceCount.
+- Collider args: cuboid [hx, hy, hz] half-extents, ball [radius], capsule/cylinder/cone [halfHeight, radius]. Use [] colliders for an automatic hull.
+- The scene must be lit: lights, an environment preset/hdriUrl, or an hdri/cubemap skybox.
+- Multi-scene: the root holds shared lights/objects; each scene is a full definition without its own multiScene; exactly one isInitial.
+- Use the provided asset URLs for textures, models and HDRIs; never invent URLs.
+- Objects the user will click to navigate must have stable ids referenced by navigationTriggers.
+
+### Output
+Return ONLY the JSON object. No markdown, no commentary.`;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SceneDesignInput {
+  instructions: string;
+  manifests: VisualManifest[];
+  assets: Record<string, string>;
+  /** Definition being edited, if the project already has one */
+  currentScene?: Scene3DDefinition | null;
+  /** Errors to fix in currentScene (repair mode) */
+  errors?: string[];
+}
+
+export interface SceneDesignResult {
+  /** Valid definition, or null when both attempts failed validation */
+  scene: Scene3DDefinition | null;
+  /** Validation errors of the last attempt */
+  errors: string[];
+}
+
+// ============================================================================
+// SCENE DESIGNER FUNCTION
+// ============================================================================
+
+function parseSceneJson(text: string): { data: unknown; errors: string[] } {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return { data: null, errors: ['Response contained no JSON object'] };
+  try {
+    return { data: JSON.parse(jsonMatch[0]), errors: [] };
+  } catch (e) {
+    return { data: null, errors: [`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+}
+
+/**
+ * Design (or edit, or repair) a scene definition. The definition is only
+ * returned once it validates.
+ */
+export async function designScene(input: SceneDesignInput, signal?: AbortSignal): Promise<SceneDesignResult> {
+  const { instructions, manifests, assets, currentScene, errors: knownErrors } = input;
+  const gateway = getModelGateway();
+
+  const sections = [
+    SCENE_DESIGNER_PROMPT,
+    Object.keys(assets).length > 0 ? `### ASSETS (use these URLs)\n${JSON.stringify(assets, null, 2)}` : '',
+    currentScene
+      ? `### CURRENT SCENE (EDIT MODE)\nChange only what the instructions ask for and return the complete definition.\n${JSON.stringify(currentScene, null, 2)}`
+      : '',
+    knownErrors?.length ? `### ERRORS TO FIX\n${knownErrors.map((e) => `- ${e}`).join('\n')}` : '',
+    manifests.length > 0 ? `### REFERENCE MANIFESTS\n${JSON.stringify(manifests, null, 2)}` : '',
+    `### INSTRUCTIONS\n${instructions || 'Design a scene that fits the references.'}`,
+  ];
+  const prompt = sections.filter(Boolean).join('\n\n');
+
+  let text = await gateway.generateText('sceneDesigner', prompt, { signal });
+  let parsed = parseSceneJson(text);
+  let result = parsed.data ? validateScene3D(parsed.data) : null;
+  if (result?.success) return { scene: result.scene, errors: [] };
+
+  const errors = result ? result.errors : parsed.errors;
+  console.warn(`[SceneDesigner] Definition failed validation (${errors.length} errors); repairing`);
+  const repairPrompt = `${prompt}
+
+### YOUR PREVIOUS ANSWER
+${text.slice(0, 20000)}
+
+### VALIDATION ERRORS
+${errors.map((e) => `- ${e}`).join('\n')}
+
+Fix every error and return the complete corrected definition.`;
+
+  text = await gateway.generateText('sceneDesigner', repairPrompt, { signal });
+  parsed = parseSceneJson(text);
+  result = parsed.data ? validateScene3D(parsed.data) : null;
+  if (result?.success) return { scene: result.scene, errors: [] };
+  return { scene: null, errors: result ? result.errors : parsed.errors };
+}
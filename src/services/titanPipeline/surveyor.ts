@@ -4,11 +4,8 @@
  * Visual Reverse Engineering - analyzes images to extract DOM tree structure.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { VisualManifest, FileInput } from '@/types/titanPipeline';
-import { withGeminiRetry } from '@/utils/geminiRetry';
-import { getGeminiApiKey, GEMINI_FLASH_MODEL } from './config';
-import { uploadFileToGemini } from './helpers';
+import { getModelGateway } from '@/services/modelGateway';
 
 // ============================================================================
 // SURVEYOR PROMPT
@@ -68,24 +65,18 @@ If an element has a photographic texture or artistic background, set "hasCustomV
 /**
  * Survey a layout image to extract DOM tree structure
  */
-export async function surveyLayout(file: FileInput, fileIndex: number): Promise<VisualManifest> {
-  const apiKey = getGeminiApiKey();
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const fileState = await uploadFileToGemini(apiKey, file);
-
-  const model = genAI.getGenerativeModel({
-    model: GEMINI_FLASH_MODEL,
+export async function surveyLayout(
+  file: FileInput,
+  fileIndex: number,
+  signal?: AbortSignal
+): Promise<VisualManifest> {
+  const gateway = getModelGateway();
+  const filePart = await gateway.prepareFile('surveyor', file, { signal });
+  const text = await gateway.generateText('surveyor', [filePart, { text: SURVEYOR_PROMPT }], {
+    signal,
   });
 
-  const result = await withGeminiRetry(() =>
-    model.generateContent([
-      { fileData: { mimeType: fileState.mimeType, fileUri: fileState.uri } },
-      { text: SURVEYOR_PROMPT },
-    ])
-  );
-
   try {
-    const text = result.response.text();
     const jsonMatch = text.match(/\{[\s\S]*\}/);
     if (!jsonMatch) throw new Error('No JSON found');
 
@@ -109,9 +100,7 @@ export async function surveyLayout(file: FileInput, fileIndex: number): Promise<
     };
   } catch (e) {
     console.error('[Surveyor] Failed:', e);
-    try {
-      console.error('[Surveyor] Raw response (first 500 chars):', result.response.text().slice(0, 500));
-    } catch { /* response may not be available */ }
+    console.error('[Surveyor] Raw response (first 500 chars):', text.slice(0, 500));
     return {
       file_index: fileIndex,
       measured_components: [],
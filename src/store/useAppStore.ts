@@ -36,12 +36,12 @@ import type {
   ActiveTab,
   ContentTab,
   BuilderMode,
-  QualityReport,
   PerformanceReport,
   CurrentStagePlan,
   CompareVersions,
 } from '@/types/aiBuilderTypes';
 import type { AppConcept, ImplementationPlan } from '@/types/appConcept';
+import type { QualityReport } from '@/types/codeReview';
 import type { LayoutManifest } from '@/types/schema';
 import type { PhaseId } from '@/types/buildPhases';
 import type { DynamicPhasePlan } from '@/types/dynamicPhases';
@@ -175,7 +175,7 @@ export interface ServicePricing {
  * Model-specific pricing for AI services
  */
 export interface AIModelPricing {
-  service: 'openai' | 'anthropic';
+  service: 'openai' | 'anthropic' | 'google';
   model: string;
   inputPricePerMillionTokens: number;
   outputPricePerMillionTokens: number;
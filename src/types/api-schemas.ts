@@ -30,6 +30,14 @@ export const PipelineRequestSchema = z.object({
   files: z.array(FileInputSchema).max(50, 'Maximum 50 files allowed').optional(),
   instructions: z.string().optional(),
   appContext: z.record(z.string(), z.unknown()).optional(),
+  // Stream progress as Server-Sent Events instead of a single JSON response
+  stream: z.boolean().optional(),
+  // Run identifier used to cancel an in-flight pipeline (action: 'cancel')
+  runId: z.string().max(100).optional(),
+  // Quality gate for the post-build code review
+  reviewStrictness: z.enum(['relaxed', 'standard', 'strict']).optional(),
+  // One routed page per reference image (or per page visited in a video)
+  multiPage: z.boolean().optional(),
 });
 
 // ============================================================================
@@ -73,6 +81,54 @@ export const RepairRequestSchema = z.object({
   attempt: z.number().int().min(1).default(1),
 });
 
+// ============================================================================
+// REVIEW
+// ============================================================================
+
+const ReviewFileSchema = AppFileSchema.extend({
+  language: z.string().optional(),
+  modifiedInPhase: z.number().int().optional(),
+  isNew: z.boolean().optional(),
+});
+
+const ComprehensiveReviewContextSchema = z.object({
+  originalRequirements: z.string().optional(),
+  expectedFeatures: z.array(z.string()).optional(),
+  allFeatures: z.array(z.object({
+    name: z.string(),
+    description: z.string(),
+    priority: z.enum(['high', 'medium', 'low']),
+  })).default([]),
+  technicalRequirements: z.object({
+    needsAuth: z.boolean().optional(),
+    authType: z.string().optional(),
+    needsDatabase: z.boolean().optional(),
+    databaseType: z.string().optional(),
+    needsRealtime: z.boolean().optional(),
+  }).default({}),
+  implementedFeatures: z.array(z.string()).optional(),
+  apiContracts: z.array(z.object({
+    endpoint: z.string(),
+    method: z.string(),
+    authentication: z.boolean(),
+  })).optional(),
+});
+
+export const ReviewRequestSchema = z.object({
+  reviewType: z.enum(['light', 'comprehensive']).default('light'),
+  files: z.array(ReviewFileSchema).min(1, 'files array is required'),
+  requirements: ComprehensiveReviewContextSchema.optional(),
+  phaseContext: z.object({
+    phaseNumber: z.number().int(),
+    phaseName: z.string(),
+    features: z.array(z.string()).optional(),
+    expectedFeatures: z.array(z.string()).optional(),
+    previousPhaseFeatures: z.array(z.string()).optional(),
+  }).optional(),
+  strictness: z.enum(['relaxed', 'standard', 'strict']).optional(),
+  enableLogicAnalysis: z.boolean().optional(),
+});
+
 // ============================================================================
 // CRITIQUE
 // ============================================================================
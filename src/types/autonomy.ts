@@ -85,8 +85,33 @@ export interface AgentTaskResult {
   command?: AgentCommand;
   /** Avatar Protocol: State to persist while waiting for feedback */
   suspendedState?: SuspendedExecution;
+  /** Structured changes from the coders (absent when they returned a plain code file) */
+  edits?: FileEdit[];
 }
 
+// ============================================================================
+// FILE EDITS
+// ============================================================================
+
+/** Replace the single exact occurrence of `search` with `replace` */
+export interface EditHunk {
+  search: string;
+  replace: string;
+}
+
+/**
+ * One change to one path of a loaded project. Paths are absolute
+ * (`/src/App.tsx`); an edit set is applied all-or-nothing (utils/fileEdits).
+ */
+export type FileEdit =
+  | { op: 'create'; path: string; content: string }
+  | { op: 'replace'; path: string; content: string }
+  | { op: 'patch'; path: string; hunks: EditHunk[] }
+  | { op: 'rename'; path: string; to: string }
+  | { op: 'delete'; path: string };
+
+export type FileEditOp = FileEdit['op'];
+
 // ============================================================================
 // SEARCH & KNOWLEDGE
 // ============================================================================
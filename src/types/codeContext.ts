@@ -50,6 +50,7 @@ export interface ImportInfo {
   resolvedPath?: string; // Resolved to actual file path (if local)
   isExternal: boolean; // npm package vs local file
   isTypeOnly: boolean; // import type { ... }
+  isDynamic?: boolean; // import('...'): lazy routes, React.lazy, next/dynamic
   imports: ImportedSymbol[];
 }
 
@@ -105,6 +106,20 @@ export interface HookInfo {
   line?: number;
 }
 
+/**
+ * A JSX element as written in a file
+ */
+export interface JSXElementInfo {
+  tag: string; // As written: 'button', 'Btn', 'UI.Button'
+  component?: string; // Imported name the tag resolves to (Button for import { Button as Btn })
+  source?: string; // Import source of that component
+  attributes: Record<string, string | null>; // Static string values; null for expressions
+  handlers: string[]; // Event handler props (onClick, onSubmit, ...)
+  hasSpread: boolean; // {...props}: attributes and handlers may be incomplete
+  text?: string; // Static text content
+  line: number;
+}
+
 /**
  * Information about a type or interface definition
  */
@@ -154,6 +169,7 @@ export interface FileAnalysis {
   hooks: HookInfo[];
   types: TypeInfo[];
   apiEndpoints: APIEndpointInfo[];
+  jsxElements: JSXElementInfo[];
 
   // Context metrics
   tokenCount: number;
@@ -0,0 +1,70 @@
+/**
+ * Design Token Types
+ *
+ * A normalised token set derived from a layout's detected theme (Surveyor
+ * manifests) or from the user's GlobalStyles. The same set is exported as
+ * CSS custom properties, a Tailwind `theme.extend` block and W3C Design
+ * Tokens (Style Dictionary) JSON, and referenced by generated code.
+ */
+
+// ============================================================================
+// TOKEN SET
+// ============================================================================
+
+/** Token name → value, in scale order (smallest first for dimensions) */
+export type TokenScale<T = string> = Record<string, T>;
+
+export interface DesignTokenSet {
+  /** Semantic colors (primary, background, text…) as lowercase hex */
+  colors: TokenScale;
+  /** Font stacks keyed by role: sans (body), heading, mono */
+  fonts: TokenScale;
+  /** Type scale (xs … 6xl) in px or rem */
+  fontSizes: TokenScale;
+  /** Font weights keyed by role: body, heading, bold */
+  fontWeights: TokenScale<number>;
+  /** Line heights keyed by role: tight, body */
+  lineHeights: TokenScale;
+  /** Corner radii (sm … full) */
+  radii: TokenScale;
+  /** Box shadows (sm … 2xl) as CSS shadow values */
+  shadows: TokenScale;
+  /** Spacing scale (xs … 3xl) */
+  spacing: TokenScale;
+}
+
+/** Token groups, in export order */
+export type DesignTokenGroup = keyof DesignTokenSet;
+
+// ============================================================================
+// W3C DESIGN TOKENS (Style Dictionary)
+// ============================================================================
+
+/** $type values used by the exporter (subset of the W3C DTCG draft) */
+export type W3CTokenType =
+  | 'color'
+  | 'fontFamily'
+  | 'fontWeight'
+  | 'dimension'
+  | 'number'
+  | 'shadow';
+
+export interface W3CShadowValue {
+  color: string;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+  inset?: boolean;
+}
+
+export interface W3CToken {
+  $type: W3CTokenType;
+  $value: string | number | string[] | W3CShadowValue | W3CShadowValue[];
+  $description?: string;
+}
+
+/** Nested token groups, e.g. `{ color: { primary: { $type, $value } } }` */
+export interface W3CTokenTree {
+  [name: string]: W3CToken | W3CTokenTree;
+}
@@ -15,6 +15,8 @@
  *   7. Feature Discovery — Orphaned feature detection
  */
 
+import type { AppFile } from './railway';
+
 // ============================================================================
 // CHAOS PROFILES
 // ============================================================================
@@ -25,10 +27,16 @@ export interface ChaosProfile {
   actionDelay: number;
   /** Maximum session duration in seconds */
   sessionDuration: number;
-  /** Maximum bugs to fix per dream cycle (cost control) */
+  /** Maximum bugs to fix per dream cycle */
   maxFixesPerCycle: number;
-  /** Number of concurrent test threads (keep at 1 for WebContainer) */
+  /** Maximum model spend per dream cycle (USD), priced from reported token usage */
+  maxCostPerCycle: number;
+  /** Number of sandboxes the chaos suite is sharded across (1 = run it in place) */
   concurrentGremlins: number;
+  /** Re-runs of a failing test that tell deterministic crashes from flaky ones (0 = trust the first run) */
+  flakyReruns: number;
+  /** Seeded fuzz cases added to each chaos suite (0 = AI-written tests only) */
+  fuzzRuns: number;
 }
 
 /** Named chaos profile presets */
@@ -57,6 +65,24 @@ export interface CrashEntry {
   line?: number;
   /** The test name that caught this crash */
   testName?: string;
+  /** Identity of the crash across runs: error class, location and top app frames (utils/crashFingerprint) */
+  fingerprint?: string;
+  /** Failures this entry stands for, duplicates being grouped by fingerprint (default 1) */
+  occurrences?: number;
+  /** Outcome of re-running the failing test (absent if it was not re-run) */
+  stability?: CrashStability;
+  /** Fuzz case that reproduces the crash without a model: its seed and shrunk steps */
+  fuzz?: FuzzCase;
+}
+
+/** Whether a crash reproduces when its test is re-run */
+export interface CrashStability {
+  /** deterministic: failed on every re-run; flaky: passed at least once */
+  verdict: 'deterministic' | 'flaky';
+  /** Re-runs made */
+  reruns: number;
+  /** Re-runs in which the crash reappeared */
+  failures: number;
 }
 
 /** Complete report from a chaos testing session */
@@ -119,6 +145,23 @@ export interface DreamPatch {
   verified: boolean;
   /** Timestamp of when the patch was applied */
   appliedAt: number;
+  /** Every file the patch wrote, with full contents (used for rollback) */
+  changes?: DreamPatchChange[];
+  /** Commit message built from the crash or goal that triggered the patch */
+  commitMessage?: string;
+  /** Set when the regression guard rolled the patch back */
+  revertedAt?: number;
+  /** Why the patch was rolled back */
+  revertReason?: string;
+}
+
+/** One file written by a patch */
+export interface DreamPatchChange {
+  path: string;
+  /** Content before the patch (null if the patch created the file) */
+  before: string | null;
+  /** Content after the patch (null if the patch deleted or renamed the file away) */
+  after: string | null;
 }
 
 // ============================================================================
@@ -150,7 +193,70 @@ export interface DreamLog {
   /** Repository URL that was targeted */
   repoUrl: string;
   /** How the cycle ended */
-  stopReason: 'budget_exhausted' | 'time_limit' | 'all_stable' | 'user_stopped' | 'error';
+  stopReason: DreamStopReason;
+  /** Where verified patches were pushed (only when autoCommit is on and something was verified) */
+  autoCommit?: DreamAutoCommit;
+  /** Every goal of the cycle with its final status */
+  goals?: DreamGoal[];
+  /** The discovery scan, including the orphaned features it found */
+  discoveryReport?: DiscoveryReport | null;
+  /** Time and fixes spent per phase, in the order phases were first entered */
+  phaseUsage?: DreamPhaseUsage[];
+  /** Fix budget of the profile (ChaosProfile.maxFixesPerCycle) */
+  fixBudget?: number;
+  /** Model spend of the cycle against its cost cap */
+  cost?: DreamCost;
+  /** Flaky crashes set aside instead of being patched */
+  quarantine?: CrashEntry[];
+}
+
+/**
+ * How a dream cycle ended. `fix_limit` is the profile's fix count,
+ * `budget_exhausted` its dollar cap.
+ */
+export type DreamStopReason =
+  | 'budget_exhausted'
+  | 'fix_limit'
+  | 'time_limit'
+  | 'all_stable'
+  | 'user_stopped'
+  | 'error';
+
+/** Model spend of a dream cycle, priced per call (config/modelPricing) */
+export interface DreamCost {
+  /** Cost cap of the cycle (USD) */
+  limitUsd: number;
+  /** Spend so far (USD) */
+  spentUsd: number;
+  /** Model calls reported */
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Time and budget a cycle spent in one campaign phase */
+export interface DreamPhaseUsage {
+  phase: CampaignPhase;
+  /** Total time spent in the phase (ms) */
+  durationMs: number;
+  /** How many times the phase was entered */
+  visits: number;
+  /** Fixes (goal builds and crash patches) counted against the budget while in the phase */
+  fixesUsed: number;
+  /** Model spend while in the phase (USD; absent in logs written before it was tracked) */
+  costUsd?: number;
+}
+
+/** Result of pushing a cycle's verified patches back to the repository */
+export interface DreamAutoCommit {
+  /** Branch the patches were pushed to (dream/<date>) */
+  branch: string;
+  /** One commit per verified patch, in order */
+  commitOids: string[];
+  /** Pull request for the branch, if one was opened */
+  pullRequestUrl: string | null;
+  /** Why nothing was pushed (unsupported source, rejected push, API error) */
+  error?: string;
 }
 
 // ============================================================================
@@ -222,14 +328,16 @@ export interface DiscoveryReport {
 export interface DreamSettings {
   /** Whether Dream Mode is enabled */
   enabled: boolean;
-  /** GitHub repository URL (owner/repo format) */
+  /** Repository: "owner/repo" (GitHub) or a GitHub, GitLab or git smart-HTTP URL */
   repoUrl: string;
-  /** GitHub Personal Access Token for private repos */
+  /** Access token for private repos (GitHub PAT, GitLab token, or git password) */
   githubToken: string;
   /** Which chaos profile to use */
   chaosProfile: ChaosProfileName;
-  /** Whether to auto-commit fixes back to the repo */
+  /** Push verified patches to a dream/<date> branch and open a pull request */
   autoCommit: boolean;
+  /** Cost cap per cycle in USD (0 = the chaos profile's maxCostPerCycle) */
+  costLimit: number;
   /** The queue of goals/directives to execute */
   goalQueue: DreamGoal[];
 }
@@ -267,10 +375,56 @@ export interface DreamStats {
   discoveries: number;
   /** Actions remaining in budget */
   budgetRemaining: number;
+  /** Model spend so far against the cycle's cost cap */
+  cost: DreamCost;
   /** Current goal being worked on (if any) */
   currentGoal?: string;
 }
 
+// ============================================================================
+// CHECKPOINTS
+// ============================================================================
+
+/** One-off setup steps that run before the priority loop */
+export type CampaignStep = 'load' | 'spec_audit' | 'discovery' | 'temporal_audit';
+
+/**
+ * Campaign state saved at every phase transition, so a closed or crashed
+ * tab resumes the cycle instead of starting over.
+ */
+export interface DreamCheckpoint {
+  /** Repository label (describeRepoSource) — one checkpoint per repository */
+  repoUrl: string;
+  /** Branch that was loaded */
+  branch: string;
+  profileName: ChaosProfileName;
+  /** Phase the campaign was entering when the checkpoint was saved */
+  phase: CampaignPhase;
+  /** Setup steps already done; skipped on resume */
+  completedSteps: CampaignStep[];
+  /** Run time so far (ms); the session budget continues from here */
+  elapsed: number;
+  /** The mutated file set, including applied patches */
+  files: AppFile[];
+  goalQueue: DreamGoal[];
+  crashReports: CrashReport[];
+  patches: DreamPatch[];
+  discoveryReport: DiscoveryReport | null;
+  fixCount: number;
+  goalsCompleted: number;
+  bugsFound: number;
+  bugsFixed: number;
+  discoveries: number;
+  /** Phase usage so far (absent in checkpoints saved before it was tracked) */
+  phaseUsage?: DreamPhaseUsage[];
+  /** Model spend so far (absent in checkpoints saved before it was tracked) */
+  cost?: DreamCost;
+  /** Flaky crashes quarantined so far */
+  quarantine?: CrashEntry[];
+  /** When the checkpoint was written */
+  savedAt: number;
+}
+
 // ============================================================================
 // INTERACTABLE ELEMENTS (for Chaos Monkey)
 // ============================================================================
@@ -294,6 +448,34 @@ export interface InteractableElement {
   handlers: string[];
 }
 
+// ============================================================================
+// FUZZING (for Chaos Monkey)
+// ============================================================================
+
+/** The element a fuzz action targets, as found by UI analysis */
+export interface FuzzTarget {
+  type: InteractableType;
+  /** InteractableElement.selector (id, test ID, aria-label, name or placeholder) */
+  selector: string;
+  label: string;
+  /** Index among elements of the same type, used when selector and label match nothing */
+  pick: number;
+}
+
+/** One simulated user action in a fuzz case */
+export type FuzzAction =
+  | { kind: 'click'; target: FuzzTarget; times: number }
+  | { kind: 'type'; target: FuzzTarget; text: string; repeat: number }
+  | { kind: 'select'; target: FuzzTarget; option: number }
+  | { kind: 'submit'; target: FuzzTarget };
+
+/** A sequence of actions replayed against a fresh render of the app */
+export interface FuzzCase {
+  /** Seed that regenerates the case (utils/chaosFuzz generateFuzzCase) */
+  seed: number;
+  steps: FuzzAction[];
+}
+
 // ============================================================================
 // CAMPAIGN CALLBACKS
 // ============================================================================
@@ -0,0 +1,87 @@
+/**
+ * Type definitions for project history
+ *
+ * Every pipeline result, live edit and repair is recorded as a commit in a
+ * per-project git repository (isomorphic-git over IndexedDB). These types
+ * describe commits and branches as the UI sees them.
+ */
+
+// ============================================================================
+// COMMITS
+// ============================================================================
+
+/**
+ * What produced a commit. Stored as a `Source:` trailer in the commit message
+ * so a plain `git log` of an exported repository shows it too.
+ */
+export type HistoryCommitSource = 'pipeline' | 'live-edit' | 'repair' | 'restore' | 'manual' | 'export';
+
+/**
+ * A commit in a project's history
+ */
+export interface HistoryCommit {
+  oid: string;
+  shortOid: string;
+  /** First line of the commit message */
+  message: string;
+  source: HistoryCommitSource;
+  author: string;
+  /** Milliseconds since epoch */
+  timestamp: number;
+  parents: string[];
+}
+
+/**
+ * Options for recording a commit
+ */
+export interface CommitOptions {
+  message: string;
+  source: HistoryCommitSource;
+}
+
+// ============================================================================
+// BRANCHES
+// ============================================================================
+
+/**
+ * A named branch in a project's history
+ */
+export interface HistoryBranch {
+  name: string;
+  headOid: string | null;
+  isCurrent: boolean;
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * The subset of the Node `fs.promises` API used by the git services and by
+ * isomorphic-git. Satisfied by lightning-fs and by Node's `fs`.
+ */
+export interface HistoryFs {
+  promises: {
+    readFile(path: string, options?: 'utf8' | { encoding?: 'utf8' }): Promise<Uint8Array | string>;
+    writeFile(path: string, data: Uint8Array | string, options?: 'utf8' | { encoding?: 'utf8' }): Promise<void>;
+    unlink(path: string): Promise<void>;
+    readdir(path: string): Promise<string[]>;
+    mkdir(path: string): Promise<unknown>;
+    rmdir(path: string): Promise<void>;
+    stat(path: string): Promise<{ isDirectory(): boolean }>;
+    lstat(path: string): Promise<{ isDirectory(): boolean }>;
+  };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * A file of the raw `.git` directory, with a path relative to the project root
+ * (e.g. `.git/HEAD`)
+ */
+export interface GitDirectoryFile {
+  path: string;
+  content: Uint8Array;
+}
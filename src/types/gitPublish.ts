@@ -0,0 +1,161 @@
+/**
+ * Type definitions for publishing generated projects to a Git host
+ *
+ * A GitHostProvider knows how to create a repository and open pull requests
+ * on one host (GitHub, or any plain smart-HTTP remote without PR support);
+ * GitPublishService does the git side — commit, push — with isomorphic-git.
+ */
+
+// ============================================================================
+// REPOSITORIES
+// ============================================================================
+
+/**
+ * Repository to publish to. `owner` defaults to the authenticated user.
+ */
+export interface RepositorySpec {
+  owner?: string;
+  name: string;
+  description?: string;
+  /** Only used when the repository is created (default true) */
+  private?: boolean;
+}
+
+/**
+ * A repository that exists on the host
+ */
+export interface RemoteRepository {
+  owner: string;
+  name: string;
+  /** Smart-HTTP URL to push to */
+  cloneUrl: string;
+  /** URL for people to open */
+  htmlUrl: string;
+  defaultBranch: string;
+  /** True when ensureRepository created it just now */
+  created: boolean;
+}
+
+/**
+ * HTTP credentials for git push/fetch
+ */
+export interface GitCredentials {
+  username: string;
+  password: string;
+}
+
+// ============================================================================
+// PULL REQUESTS
+// ============================================================================
+
+export interface PullRequestRequest {
+  repository: RemoteRepository;
+  /** Branch with the changes */
+  head: string;
+  /** Branch to merge into */
+  base: string;
+  title: string;
+  body: string;
+}
+
+export interface PullRequestInfo {
+  number: number;
+  url: string;
+  title: string;
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * A Git host. Implementations must not touch the git object store — only
+ * the host's API.
+ */
+export interface GitHostProvider {
+  readonly name: string;
+  /** Return the repository, creating it if it does not exist */
+  ensureRepository(spec: RepositorySpec): Promise<RemoteRepository>;
+  /** Open a pull request, or return null if the host has no pull requests */
+  openPullRequest(request: PullRequestRequest): Promise<PullRequestInfo | null>;
+  /** Credentials for pushing, if the remote needs them */
+  getCredentials(): GitCredentials | undefined;
+}
+
+// ============================================================================
+// PUBLISH
+// ============================================================================
+
+export interface PublishRequest {
+  /** Local working repository key (the builder project id) */
+  projectId: string;
+  provider: GitHostProvider;
+  repository: RepositorySpec;
+  /** Every project file; files missing here are deleted on the published branch */
+  files: Array<{ path: string; content: string }>;
+  /** Commit subject; generated from the changed files when omitted */
+  message?: string;
+  /** Branch for follow-up changes (default `builder/<timestamp>`) */
+  branch?: string;
+  /** CORS proxy for browsers pushing to hosts without CORS on git endpoints */
+  corsProxy?: string;
+}
+
+/**
+ * - initial: the repository was empty; files were pushed to its default branch
+ * - pull-request: changes were pushed to a branch and a PR opened (if supported)
+ * - unchanged: the base branch already matches; nothing was pushed
+ */
+export type PublishMode = 'initial' | 'pull-request' | 'unchanged';
+
+export interface PublishResult {
+  mode: PublishMode;
+  repository: RemoteRepository;
+  /**
+   * Branch that was pushed: the default branch for an initial publish, else
+   * the requested branch (not pushed when unchanged)
+   */
+  branch: string;
+  commitOid: string | null;
+  message: string | null;
+  pullRequest: PullRequestInfo | null;
+}
+
+// ============================================================================
+// BRANCH PUBLISH
+// ============================================================================
+
+/**
+ * One commit in a branch publish. Files are written on top of the previous
+ * commit, so each commit carries only what it changes.
+ */
+export interface BranchCommit {
+  message: string;
+  files: Array<{ path: string; content: string }>;
+  /** Paths the commit deletes */
+  removed?: string[];
+}
+
+export interface BranchPublishRequest {
+  /** Local working repository key */
+  projectId: string;
+  provider: GitHostProvider;
+  repository: RepositorySpec;
+  /** Branch to push; continued (and no new PR opened) if it already exists */
+  branch: string;
+  /** Branch to start from and open the PR against (default: the repository's default branch) */
+  base?: string;
+  commits: BranchCommit[];
+  pullRequest: { title: string; body: string };
+  corsProxy?: string;
+}
+
+export interface BranchPublishResult {
+  repository: RemoteRepository;
+  branch: string;
+  base: string;
+  /** Commits pushed, in order; commits that changed nothing are dropped */
+  commitOids: string[];
+  /** Null when nothing was pushed, the branch already existed, or the host has no PRs */
+  pullRequest: PullRequestInfo | null;
+}
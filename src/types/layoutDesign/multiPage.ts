@@ -208,6 +208,8 @@ export interface MultiPageDesign {
   pageSpecificOverrides: Record<string, Partial<import('./layoutDesignType').LayoutDesign>>;
   /** Inferred routes */
   inferredRoutes: InferredRoute[];
+  /** Page transitions detected in a reference video */
+  transitions?: VideoPageTransition[];
   /** When this multi-page design was created */
   createdAt: string;
   /** When this was last updated */
@@ -0,0 +1,151 @@
+/**
+ * Model Gateway Types
+ *
+ * Provider-agnostic request/response shapes for every LLM call made by the
+ * Titan pipeline, OmniChat and the deployment agents. Steps name *what* they
+ * are doing; the gateway config decides *which* provider and model serve it.
+ */
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+/** Providers the gateway can dispatch to */
+export type ModelProviderName = 'gemini' | 'anthropic' | 'fake';
+
+/** Logical call sites — each is routed to a provider/model from config */
+export type ModelStep =
+  | 'router'
+  | 'surveyor'
+  | 'pageAnalyst'
+  | 'architect'
+  | 'physicist'
+  | 'builder'
+  | 'sceneDesigner'
+  | 'liveEditor'
+  | 'omniChat'
+  | 'deploymentAnalysis'
+  | 'codeTransform';
+
+/** Where a step is sent and with which defaults */
+export interface ModelRoute {
+  provider: ModelProviderName;
+  model: string;
+  /** Default output token cap for this step */
+  maxTokens?: number;
+  /** Default sampling temperature for this step */
+  temperature?: number;
+}
+
+// ============================================================================
+// REQUEST / RESPONSE
+// ============================================================================
+
+/** A piece of multimodal input */
+export type ModelPart =
+  | { text: string }
+  /** Provider-hosted file (e.g. Gemini File API upload) */
+  | { fileData: { mimeType: string; fileUri: string } }
+  /** Base64 payload sent inline */
+  | { inlineData: { mimeType: string; data: string } };
+
+/** One turn of a conversation */
+export interface ModelMessage {
+  role: 'user' | 'assistant';
+  content: string | ModelPart[];
+}
+
+export interface ModelRequest {
+  /** Logical step — selects the route (provider + model) */
+  step: ModelStep;
+  /** System instruction */
+  system?: string;
+  /** Conversation turns; the last one is the current prompt */
+  messages: ModelMessage[];
+  /** Ask the provider for a JSON response body */
+  json?: boolean;
+  /** Overrides the route's maxTokens */
+  maxTokens?: number;
+  /** Overrides the route's temperature */
+  temperature?: number;
+  /** Cancels the call and any pending retry */
+  signal?: AbortSignal;
+  /** Provider API key override (defaults to environment) */
+  apiKey?: string;
+}
+
+/** Token counts reported by the provider for one call */
+export interface ModelTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelResponse {
+  text: string;
+  provider: ModelProviderName;
+  model: string;
+  usage: ModelTokenUsage;
+}
+
+/** File to be turned into a ModelPart by the provider serving a step */
+export interface ModelFileInput {
+  filename: string;
+  mimeType: string;
+  base64: string;
+}
+
+/** What a provider must implement to be plugged into the gateway */
+export interface ModelProvider {
+  readonly name: ModelProviderName;
+  generate(model: string, request: ModelRequest): Promise<Omit<ModelResponse, 'provider'>>;
+  /** Convert a file to a part this provider accepts (upload or inline) */
+  prepareFile(file: ModelFileInput, request: Pick<ModelRequest, 'apiKey' | 'signal'>): Promise<ModelPart>;
+}
+
+// ============================================================================
+// RETRY
+// ============================================================================
+
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** First backoff delay (ms) when the error carries no retry hint */
+  baseDelayMs: number;
+  /** Upper bound for any single wait (ms) */
+  maxDelayMs: number;
+  /** Retry on 5xx / overloaded errors, not just rate limits */
+  retryServerErrors: boolean;
+}
+
+// ============================================================================
+// TOKEN ACCOUNTING
+// ============================================================================
+
+/** One recorded gateway call */
+export interface ModelUsageRecord extends ModelTokenUsage {
+  step: ModelStep;
+  provider: ModelProviderName;
+  model: string;
+  durationMs: number;
+  timestamp: number;
+}
+
+/** Aggregated usage across calls */
+export interface ModelUsageSummary extends ModelTokenUsage {
+  calls: number;
+  byStep: Partial<Record<ModelStep, ModelTokenUsage & { calls: number }>>;
+}
+
+export type ModelUsageListener = (record: ModelUsageRecord) => void;
+
+/**
+ * One model call reported to the call meter, from the gateway or from code
+ * that calls a provider SDK directly (meter.ts)
+ */
+export interface ModelCallRecord extends ModelTokenUsage {
+  service: 'google' | 'anthropic' | 'openai';
+  model: string;
+  timestamp: number;
+}
+
+export type ModelCallListener = (call: ModelCallRecord) => void;
@@ -0,0 +1,158 @@
+/**
+ * Type definitions for repository sources
+ *
+ * RepoLoaderService reads a repository from any of these sources and produces
+ * the same FileSystemTree / AppFile[] for Dream Mode and the RepoAnalyst.
+ */
+
+import type { FileSystemTree } from '@webcontainer/api';
+import type { AppFile } from './railway';
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+/** GitHub zipball via the REST API (token for private repos) */
+export interface GitHubRepoSource {
+  kind: 'github';
+  /** "owner/repo" */
+  repo: string;
+  /** Branch, tag or sha (default main) */
+  ref?: string;
+  token?: string;
+  /** GitHub Enterprise API root (default https://api.github.com) */
+  apiBaseUrl?: string;
+}
+
+/** GitLab repository archive (gitlab.com or self-hosted) */
+export interface GitLabRepoSource {
+  kind: 'gitlab';
+  /** Project path ("group/subgroup/project") or numeric id */
+  project: string;
+  ref?: string;
+  token?: string;
+  /** Instance root (default https://gitlab.com) */
+  baseUrl?: string;
+}
+
+/** Gitea / Forgejo repository archive */
+export interface GiteaRepoSource {
+  kind: 'gitea';
+  /** "owner/repo" */
+  repo: string;
+  ref?: string;
+  token?: string;
+  baseUrl: string;
+}
+
+/** A zip the user uploaded */
+export interface ZipRepoSource {
+  kind: 'zip';
+  data: Blob | ArrayBuffer | Uint8Array;
+  name?: string;
+}
+
+/** A local folder picked with the File System Access API */
+export interface DirectoryRepoSource {
+  kind: 'directory';
+  handle: DirectoryHandleLike;
+}
+
+/** Any git smart-HTTP remote, shallow-cloned with isomorphic-git */
+export interface GitRepoSource {
+  kind: 'git';
+  url: string;
+  ref?: string;
+  username?: string;
+  /** Password or access token */
+  password?: string;
+  /** CORS proxy for hosts that don't send CORS headers on git endpoints */
+  corsProxy?: string;
+}
+
+export type RepoSource =
+  | GitHubRepoSource
+  | GitLabRepoSource
+  | GiteaRepoSource
+  | ZipRepoSource
+  | DirectoryRepoSource
+  | GitRepoSource;
+
+export type RepoSourceKind = RepoSource['kind'];
+
+/**
+ * The parts of FileSystemDirectoryHandle / FileSystemFileHandle we use
+ * (`values()` is missing from older DOM typings).
+ */
+export interface DirectoryHandleLike {
+  kind: 'directory';
+  name: string;
+  values(): AsyncIterable<DirectoryHandleLike | FileHandleLike>;
+}
+
+export interface FileHandleLike {
+  kind: 'file';
+  name: string;
+  getFile(): Promise<{ size: number; arrayBuffer(): Promise<ArrayBuffer> }>;
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+/**
+ * A file found in a source. Content is read lazily so filtered or oversized
+ * files are never loaded.
+ */
+export interface RepoEntry {
+  /** Repository-relative path, no leading slash */
+  path: string;
+  /** Uncompressed size when the source knows it up front */
+  size?: number;
+  read(): Promise<Uint8Array>;
+}
+
+/**
+ * Reads one kind of source into entries.
+ */
+export interface RepoSourceReader<S extends RepoSource = RepoSource> {
+  readonly kind: S['kind'];
+  /**
+   * Yield the source's files. `skipDirectory` lets readers that walk
+   * directories avoid descending into excluded ones (node_modules etc.).
+   */
+  entries(source: S, skipDirectory: (path: string) => boolean): AsyncIterable<RepoEntry>;
+}
+
+// ============================================================================
+// OPTIONS & RESULTS
+// ============================================================================
+
+export interface RepoLoadOptions {
+  /** Only keep files matching one of these globs */
+  include?: string[];
+  /** Drop files matching any of these globs (in addition to the defaults) */
+  exclude?: string[];
+  /** Apply the built-in excludes (node_modules, .git, build output, .env…). Default true */
+  defaultExcludes?: boolean;
+  /** Per-file limit in bytes (default 5MB) */
+  maxFileSize?: number;
+  /** Stop once this many bytes were extracted (default 50MB) */
+  maxTotalSize?: number;
+  /** Stop after this many files (default 5000) */
+  maxFiles?: number;
+}
+
+export interface RepoLoadStats {
+  fileCount: number;
+  skippedCount: number;
+  totalBytes: number;
+  /** True when maxTotalSize or maxFiles cut the load short */
+  truncated: boolean;
+}
+
+export interface RepoLoadResult {
+  tree: FileSystemTree;
+  files: AppFile[];
+  stats: RepoLoadStats;
+}
@@ -108,6 +108,8 @@ export interface FileChange {
 export interface ImpactAnalysis {
   filesAffected: string[];
   componentsAffected: string[];
+  /** Pages ('/cart') and API endpoints ('POST /api/cart') served by affected files */
+  routesAffected: string[];
   breakingChanges: string[];
   suggestedTests: string[];
   overallRisk: RiskLevel;
@@ -276,6 +278,7 @@ export type ReviewAction =
       payload: { filePath: string; hunkId: string; lineNumber: number; commentId: string };
     }
   | { type: 'ADD_RESTORE_POINT'; payload: RestorePoint }
+  | { type: 'SET_RESTORE_POINTS'; payload: RestorePoint[] }
   | { type: 'DELETE_RESTORE_POINT'; payload: string }
   | { type: 'SET_IMPACT_ANALYSIS'; payload: ImpactAnalysis | null }
   | { type: 'SET_LOADING'; payload: boolean }
@@ -306,6 +309,14 @@ export interface IRollbackService {
   pruneOldPoints(): void;
 }
 
+/**
+ * Persistence backend for restore points, one list per project
+ */
+export interface RestorePointStorage {
+  load(projectId: string): Promise<RestorePoint[]>;
+  save(projectId: string, points: RestorePoint[]): Promise<void>;
+}
+
 /**
  * Interface for the Impact Analyzer Service
  */
@@ -498,3 +509,127 @@ export function calculateReviewStatistics(changes: FileChange[]): ReviewStatisti
     byRiskLevel,
   };
 }
+
+// ============================================================================
+// REVIEW STATE REDUCER
+// ============================================================================
+
+export const createInitialReviewState = (): ReviewState => ({
+  changes: [],
+  selectedFilePath: null,
+  categoryFilter: 'all',
+  statusFilter: 'all',
+  restorePoints: [],
+  impactAnalysis: null,
+  isLoading: false,
+  error: null,
+});
+
+/** Set the status of one hunk (or of every hunk when `hunkId` is omitted) */
+function setHunkStatus(
+  changes: FileChange[],
+  status: ApprovalStatus,
+  target?: { filePath: string; hunkId: string }
+): FileChange[] {
+  return changes.map((change) =>
+    target && change.path !== target.filePath
+      ? change
+      : {
+          ...change,
+          hunks: change.hunks.map((hunk) =>
+            target && hunk.id !== target.hunkId ? hunk : { ...hunk, status }
+          ),
+        }
+  );
+}
+
+/** Update the comments on one line of one hunk */
+function updateLineComments(
+  changes: FileChange[],
+  target: { filePath: string; hunkId: string; lineNumber: number },
+  update: (comments: LineComment[]) => LineComment[]
+): FileChange[] {
+  return changes.map((change) =>
+    change.path !== target.filePath
+      ? change
+      : {
+          ...change,
+          hunks: change.hunks.map((hunk) =>
+            hunk.id !== target.hunkId
+              ? hunk
+              : {
+                  ...hunk,
+                  lines: hunk.lines.map((line) =>
+                    line.number !== target.lineNumber ? line : { ...line, comments: update(line.comments) }
+                  ),
+                }
+          ),
+        }
+  );
+}
+
+/**
+ * Reducer for the review workflow (useReducer over ReviewState).
+ * Restore points are kept newest first.
+ */
+export const reviewReducer = (state: ReviewState, action: ReviewAction): ReviewState => {
+  switch (action.type) {
+    case 'SET_CHANGES':
+      return {
+        ...state,
+        changes: action.payload,
+        selectedFilePath: action.payload.some((c) => c.path === state.selectedFilePath)
+          ? state.selectedFilePath
+          : (action.payload[0]?.path ?? null),
+        impactAnalysis: null,
+      };
+    case 'SELECT_FILE':
+      return { ...state, selectedFilePath: action.payload };
+    case 'SET_CATEGORY_FILTER':
+      return { ...state, categoryFilter: action.payload };
+    case 'SET_STATUS_FILTER':
+      return { ...state, statusFilter: action.payload };
+    case 'APPROVE_HUNK':
+      return { ...state, changes: setHunkStatus(state.changes, 'approved', action.payload) };
+    case 'REJECT_HUNK':
+      return { ...state, changes: setHunkStatus(state.changes, 'rejected', action.payload) };
+    case 'RESET_HUNK':
+      return { ...state, changes: setHunkStatus(state.changes, 'pending', action.payload) };
+    case 'APPROVE_ALL':
+      return { ...state, changes: setHunkStatus(state.changes, 'approved') };
+    case 'REJECT_ALL':
+      return { ...state, changes: setHunkStatus(state.changes, 'rejected') };
+    case 'ADD_COMMENT':
+      return {
+        ...state,
+        changes: updateLineComments(state.changes, action.payload, (comments) => [
+          ...comments,
+          action.payload.comment,
+        ]),
+      };
+    case 'RESOLVE_COMMENT':
+      return {
+        ...state,
+        changes: updateLineComments(state.changes, action.payload, (comments) =>
+          comments.map((c) => (c.id === action.payload.commentId ? { ...c, resolved: true } : c))
+        ),
+      };
+    case 'ADD_RESTORE_POINT':
+      return {
+        ...state,
+        restorePoints: [action.payload, ...state.restorePoints.filter((p) => p.id !== action.payload.id)],
+      };
+    case 'SET_RESTORE_POINTS':
+      return { ...state, restorePoints: action.payload };
+    case 'DELETE_RESTORE_POINT':
+      return { ...state, restorePoints: state.restorePoints.filter((p) => p.id !== action.payload) };
+    case 'SET_IMPACT_ANALYSIS':
+      return { ...state, impactAnalysis: action.payload };
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.payload };
+    case 'SET_ERROR':
+      return { ...state, error: action.payload };
+    default:
+      return state;
+  }
+};
@@ -1,11 +1,12 @@
 /**
  * Sandbox Types
  *
- * Type definitions for the WebContainer-based code validation
- * and AI-powered code repair system.
+ * Type definitions for the WebContainer-based code validation,
+ * the AI-powered code repair system and the Dream Mode test sandbox pool.
  */
 
 import type { AppFile } from '@/types/railway';
+import type { QualityReport } from '@/types/codeReview';
 
 // ============================================================================
 // VALIDATION
@@ -64,6 +65,38 @@ export type WebContainerStatus =
   | 'building'
   | 'error';
 
+// ============================================================================
+// TEST SANDBOXES
+// ============================================================================
+
+/** Output of a command run in a test sandbox (stderr appended after "ERR:") */
+export interface ShellResult {
+  output: string;
+  exitCode: number;
+}
+
+/**
+ * One isolated test worker of a sandbox pool: its own copy of the project in
+ * its own directory, commands run from there, dependencies shared with the
+ * project it was prepared from.
+ */
+export interface TestSandbox {
+  readonly id: string;
+  /** (Re)create the sandbox's copy of the project */
+  prepare(files: AppFile[]): Promise<void>;
+  /** Run a command in the sandbox directory */
+  executeShell(cmd: string, args: string[], timeout?: number): Promise<ShellResult>;
+  /** Write a file, path relative to the sandbox root ("/vitest.config.ts") */
+  writeFile(path: string, content: string): Promise<void>;
+  /** Install dev dependencies into the installation the sandboxes share */
+  installDevDependencies(packages: string[], timeout?: number): Promise<ShellResult>;
+  /** Remove the sandbox's copy of the project */
+  dispose(): Promise<void>;
+}
+
+/** Creates the sandbox for a pool slot ("gremlin-1", "gremlin-2", …) */
+export type TestSandboxFactory = (id: string) => TestSandbox;
+
 // ============================================================================
 // REPAIR
 // ============================================================================
@@ -90,6 +123,8 @@ export interface RepairResult {
   fixes: string[];
   /** Any errors that could not be fixed */
   remainingErrors: SandboxError[];
+  /** Static code review of the repaired files (after safe auto-fixes) */
+  qualityReport?: QualityReport;
 }
 
 // ============================================================================
@@ -2,6 +2,7 @@
 // Comprehensive types for app builder settings
 
 import type { DreamSettings } from './dream';
+import type { ReviewStrictness } from './codeReview';
 
 export type Theme = 'light' | 'dark' | 'system';
 export type UITheme = 'light' | 'dark' | 'system';
@@ -50,6 +51,8 @@ export interface BuildSettings {
   optimizationLevel: 'none' | 'basic' | 'advanced';
   generateSourceMaps: boolean;
   minify: boolean;
+  /** Code review score generated files must reach before they are applied */
+  reviewStrictness: ReviewStrictness;
 }
 
 // Theme/Appearance Settings
@@ -135,6 +138,7 @@ export const DEFAULT_SETTINGS: AppSettings = {
     optimizationLevel: 'basic',
     generateSourceMaps: true,
     minify: true,
+    reviewStrictness: 'standard',
   },
   appearance: {
     theme: 'system',
@@ -202,6 +206,7 @@ export const DEFAULT_SETTINGS: AppSettings = {
     githubToken: '',
     chaosProfile: 'REM',
     autoCommit: false,
+    costLimit: 0,
     goalQueue: [],
   },
   version: 1,
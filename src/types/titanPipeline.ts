@@ -6,6 +6,9 @@
 import type { AppFile } from '@/types/railway';
 import type { CritiqueResult } from '@/types/visualCritic';
 import type { AgentCommand, SuspendedExecution } from '@/types/autonomy';
+import type { StreamEvent, CompleteEvent } from '@/types/streaming';
+import type { QualityReport, ReviewStrictness } from '@/types/codeReview';
+import type { MultiPageDesign } from '@/types/layoutDesign';
 
 // ============================================================================
 // REPO CONTEXT TYPES (Ultimate Developer)
@@ -85,6 +88,72 @@ export const createInitialProgress = (): PipelineProgress => ({
   },
 });
 
+// ============================================================================
+// STREAMING TYPES (SSE from /api/layout/pipeline)
+// ============================================================================
+
+/** Step metadata attached to streamed pipeline events */
+export interface PipelineStepMeta {
+  /** Pipeline step this event reports on */
+  step?: PipelineStepName;
+  /** New status of that step */
+  stepStatus?: PipelineStepStatus;
+}
+
+/**
+ * Final event of a streamed run — carries the pipeline result. Generated
+ * files travel once, in `data.files`; `result` holds everything else.
+ */
+export interface PipelineCompleteEvent extends CompleteEvent {
+  result: Omit<PipelineResult, 'files'>;
+}
+
+/** Any event emitted while the Titan pipeline runs */
+export type PipelineStreamEvent = (Exclude<StreamEvent, CompleteEvent> | PipelineCompleteEvent) &
+  PipelineStepMeta;
+
+/** Callback receiving pipeline events as each step starts and finishes */
+export type PipelineEventListener = (event: PipelineStreamEvent) => void;
+
+/** Per-run options for runPipeline */
+export interface PipelineRunOptions {
+  /** Receives progress events (drives SSE streaming from the API route) */
+  onEvent?: PipelineEventListener;
+  /** Cancels the run, including any AI call in flight */
+  signal?: AbortSignal;
+}
+
+/**
+ * Apply a streamed pipeline event to a progress snapshot.
+ * Only events tagged with a step change state; everything else passes through.
+ */
+export const applyPipelineEvent = (
+  progress: PipelineProgress,
+  event: PipelineStreamEvent
+): PipelineProgress => {
+  if (event.type === 'complete') {
+    return { ...progress, status: event.success ? 'completed' : 'error' };
+  }
+  if (event.type === 'error') {
+    const step = event.step ?? progress.currentStep;
+    return {
+      ...progress,
+      currentStep: step,
+      status: 'error',
+      steps: { ...progress.steps, [step]: { status: 'error', message: event.message } },
+    };
+  }
+  if (!event.step || !event.stepStatus) return progress;
+
+  const message = 'message' in event ? event.message : undefined;
+  return {
+    ...progress,
+    currentStep: event.stepStatus === 'running' ? event.step : progress.currentStep,
+    status: 'running',
+    steps: { ...progress.steps, [event.step]: { status: event.stepStatus, message } },
+  };
+};
+
 // ============================================================================
 // INSPECTOR BRIDGE TYPES (used by inspectorBridge.ts + LayoutCanvas)
 // ============================================================================
@@ -148,6 +217,10 @@ export interface PipelineInput {
   skipHealing?: boolean;
   /** Pre-analyzed repo context for style-consistent code generation (Ultimate Developer mode) */
   repoContext?: RepoContext;
+  /** Quality gate for the post-build code review (default: 'standard') */
+  reviewStrictness?: ReviewStrictness;
+  /** Build a routed multi-page app: one page per image, or per page visited in a video */
+  multiPage?: boolean;
 }
 
 // ============================================================================
@@ -252,6 +325,12 @@ export interface PipelineResult {
     stopReason: string;
     usedPatching?: boolean;
   };
+  /** Static code review of the final files (after safe auto-fixes) */
+  qualityReport?: QualityReport;
+  /** Why the code review rejected the files at the requested strictness; `files` is then empty */
+  qualityGateFailure?: string;
+  /** Pages, shared design, navigation and routes of a multi-page build */
+  multiPageDesign?: MultiPageDesign;
   /** Avatar Protocol: Command to be executed by the client */
   command?: AgentCommand;
   /** Avatar Protocol: State to persist while waiting for feedback */
@@ -0,0 +1,372 @@
+/**
+ * Chaos Fuzzing
+ *
+ * Deterministic, model-free counterpart to the AI-written chaos suite.
+ * From the interactables found by QA_ChaosAgent.analyzeUI it generates
+ * seeded sequences of clicks, typed strings and select changes, then emits
+ * vitest tests that replay each sequence against a fresh render in happy-dom.
+ *
+ * A failing case is shrunk inside the test run: chunks of steps are dropped
+ * and the remaining steps simplified (fewer clicks, shorter text) for as long
+ * as the same error class still fires. The seed and the shrunk steps are
+ * appended to the thrown error after FUZZ_MARKER, so parseFuzzFailure can
+ * turn them into stepsToReproduce and the crash replays without an LLM.
+ *
+ * The same seed always yields the same case: generateFuzzCase(elements, seed).
+ */
+
+import type { FuzzAction, FuzzCase, FuzzTarget, InteractableElement, InteractableType } from '@/types/dream';
+
+/** Longest action sequence in a generated case */
+const FUZZ_MAX_STEPS = 20;
+
+/** Replays a shrink may spend on one failing case */
+const FUZZ_MAX_SHRINK_RUNS = 200;
+
+/** Per-test timeout for the emitted tests (ms); shrinking replays the case many times */
+const FUZZ_TEST_TIMEOUT = 60000;
+
+/** Length of "huge" typed strings */
+const HUGE_TEXT_LENGTH = 100000;
+
+/** Precedes the JSON reproduction appended to a failing fuzz case's error */
+export const FUZZ_MARKER = 'CHAOS_FUZZ_REPRO ';
+
+/** Strings that tend to break inputs: empty, numeric edge cases, unicode, injection payloads */
+export const FUZZ_STRINGS: readonly string[] = [
+  '',
+  ' ',
+  '0',
+  '-1',
+  'NaN',
+  '1e309',
+  'null',
+  'undefined',
+  '\n\r\t',
+  '\u0000',
+  '\uD800',
+  '👩‍👩‍👧‍👦🔥',
+  'مرحبا بالعالم',
+  'Z̴̡̛a̷l̶g̵o̶',
+  'Ω≈ç√∫˜µ≤≥÷',
+  '<script>alert(1)</script>',
+  '"><img src=x onerror=alert(1)>',
+  "'; DROP TABLE users; --",
+  '${7*7}{{7*7}}',
+  '../../../etc/passwd',
+  '%s%s%s%n',
+  '__proto__',
+];
+
+/** Characters random strings are drawn from */
+const FUZZ_ALPHABET = [...'abcXYZ019 !@#$%^&*()_+-=[]{};:\'",.<>/?\\|`~éßø中文😀\u200b\u202e'];
+
+// ============================================================================
+// RANDOMNESS
+// ============================================================================
+
+/**
+ * mulberry32: a small seeded PRNG returning floats in [0, 1).
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Seed of the index-th case of a suite, so every case regenerates on its own */
+function caseSeed(seed: number, index: number): number {
+  return createRandom((seed ^ Math.imul(index + 1, 0x9e3779b9)) >>> 0)() * 4294967296 >>> 0;
+}
+
+function randomInt(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function randomItem<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+/**
+ * Generate the fuzz case for a seed: 1–maxSteps actions on random elements.
+ */
+export function generateFuzzCase(
+  elements: InteractableElement[],
+  seed: number,
+  maxSteps: number = FUZZ_MAX_STEPS
+): FuzzCase {
+  const random = createRandom(seed);
+  const steps: FuzzAction[] = [];
+  if (elements.length === 0) return { seed, steps };
+
+  const length = randomInt(random, 1, maxSteps);
+  for (let i = 0; i < length; i++) {
+    steps.push(randomAction(random, elements));
+  }
+  return { seed, steps };
+}
+
+/**
+ * Generate `runs` cases, each with its own seed derived from `seed`.
+ */
+export function generateFuzzCases(
+  elements: InteractableElement[],
+  options: { seed: number; runs: number; maxSteps?: number }
+): FuzzCase[] {
+  if (elements.length === 0) return [];
+  return Array.from({ length: options.runs }, (_, i) =>
+    generateFuzzCase(elements, caseSeed(options.seed, i), options.maxSteps)
+  );
+}
+
+function randomAction(random: () => number, elements: InteractableElement[]): FuzzAction {
+  const element = randomItem(random, elements);
+  const target: FuzzTarget = {
+    type: element.type,
+    selector: element.selector,
+    label: element.label,
+    pick: randomInt(random, 0, 99),
+  };
+
+  switch (element.type) {
+    case 'input':
+    case 'textarea':
+      return { kind: 'type', target, ...randomText(random) };
+    case 'select':
+      return { kind: 'select', target, option: randomInt(random, 0, 9) };
+    case 'form':
+      return { kind: 'submit', target };
+    default:
+      return { kind: 'click', target, times: random() < 0.2 ? randomInt(random, 2, 20) : 1 };
+  }
+}
+
+/** A payload, a random string, or a huge one (as `text` repeated `repeat` times) */
+function randomText(random: () => number): { text: string; repeat: number } {
+  const roll = random();
+  if (roll < 0.4) return { text: randomItem(random, FUZZ_STRINGS), repeat: 1 };
+  if (roll < 0.8) {
+    const length = randomInt(random, 1, 50);
+    return { text: Array.from({ length }, () => randomItem(random, FUZZ_ALPHABET)).join(''), repeat: 1 };
+  }
+  return { text: randomItem(random, ['A', '😀', '<b>', ' ']), repeat: HUGE_TEXT_LENGTH };
+}
+
+// ============================================================================
+// DESCRIPTION & PARSING
+// ============================================================================
+
+/**
+ * One human-readable reproduction step.
+ */
+export function describeFuzzAction(action: FuzzAction): string {
+  const target = `${action.target.type} "${action.target.label}"`;
+  switch (action.kind) {
+    case 'click':
+      return action.times > 1 ? `Click ${target} ${action.times} times` : `Click ${target}`;
+    case 'type': {
+      const text = action.repeat > 1 ? `${JSON.stringify(action.text)} × ${action.repeat}` : JSON.stringify(action.text);
+      return `Type ${text} into ${target}`;
+    }
+    case 'select':
+      return `Select option ${action.option} of ${target}`;
+    case 'submit':
+      return `Submit ${target}`;
+  }
+}
+
+/**
+ * Split the reproduction a failing fuzz test appended to its error (to its
+ * message and its stack, so it may appear twice) from the error text.
+ * `fuzzCase` is null for other failures or unreadable markers.
+ */
+export function parseFuzzFailure(text: string): { text: string; fuzzCase: FuzzCase | null } {
+  let fuzzCase: FuzzCase | null = null;
+  const lines = text.split('\n').filter((line) => {
+    const index = line.indexOf(FUZZ_MARKER);
+    if (index === -1) return true;
+    if (!fuzzCase) {
+      try {
+        const parsed = JSON.parse(line.slice(index + FUZZ_MARKER.length)) as FuzzCase;
+        if (typeof parsed.seed === 'number' && Array.isArray(parsed.steps)) fuzzCase = parsed;
+      } catch {
+        // Truncated or garbled marker: keep the error, drop the reproduction
+      }
+    }
+    return false;
+  });
+  return { text: lines.join('\n'), fuzzCase };
+}
+
+// ============================================================================
+// SUITE
+// ============================================================================
+
+/** Query for each interactable type when a target is found by position */
+const TYPE_QUERIES: Record<InteractableType, string> = {
+  button: 'button, [role="button"]',
+  input: 'input:not([type="checkbox"]):not([type="radio"])',
+  textarea: 'textarea',
+  select: 'select',
+  form: 'form',
+  link: 'a',
+  checkbox: 'input[type="checkbox"]',
+  radio: 'input[type="radio"]',
+};
+
+/**
+ * Minimise a failing step list. `fails(steps)` replays a candidate and says
+ * whether it still fails the same way. Plain JS: it runs inside the emitted
+ * suite.
+ */
+export const FUZZ_SHRINKER = `
+async function chaosFuzzShrink(steps, fails) {
+  let runs = 0;
+  const tryCandidate = async (candidate) => runs++ < ${FUZZ_MAX_SHRINK_RUNS} && (await fails(candidate));
+  let current = steps;
+
+  for (let size = Math.ceil(current.length / 2); size >= 1; size = size === 1 ? 0 : Math.ceil(size / 2)) {
+    let i = 0;
+    while (i < current.length) {
+      const candidate = current.slice(0, i).concat(current.slice(i + size));
+      if (candidate.length > 0 && (await tryCandidate(candidate))) current = candidate;
+      else i += size;
+    }
+  }
+
+  for (let i = 0; i < current.length; i++) {
+    for (const simpler of chaosFuzzSimplifications(current[i])) {
+      const candidate = current.slice();
+      candidate[i] = simpler;
+      if (await tryCandidate(candidate)) {
+        current = candidate;
+        i--;
+        break;
+      }
+    }
+  }
+  return current;
+}
+
+function chaosFuzzSimplifications(step) {
+  if (step.kind === 'click' && step.times > 1) return [{ ...step, times: 1 }, { ...step, times: Math.floor(step.times / 2) }];
+  if (step.kind !== 'type') return [];
+  const simpler = [];
+  if (step.text !== '') simpler.push({ ...step, text: '', repeat: 1 });
+  if (step.repeat > 1) simpler.push({ ...step, repeat: 1 }, { ...step, repeat: Math.floor(step.repeat / 2) });
+  if (step.text.length > 1) simpler.push({ ...step, text: step.text.slice(0, Math.ceil(step.text.length / 2)) });
+  return simpler;
+}
+`;
+
+/** Replays a case in happy-dom and throws its first error, shrunk and tagged */
+const FUZZ_RUNNER = `
+const CHAOS_FUZZ_QUERIES = ${JSON.stringify(TYPE_QUERIES)};
+const CHAOS_FUZZ_ATTRIBUTES = ['id', 'data-testid', 'aria-label', 'name', 'placeholder'];
+
+function chaosFuzzFind(container, target) {
+  for (const attribute of CHAOS_FUZZ_ATTRIBUTES) {
+    const element = container.querySelector('[' + attribute + '=' + JSON.stringify(target.selector) + ']');
+    if (element) return element;
+  }
+  const candidates = Array.from(container.querySelectorAll(CHAOS_FUZZ_QUERIES[target.type] || '*'));
+  const byLabel = candidates.find((element) => (element.textContent || '').trim() === target.label);
+  return byLabel || candidates[target.pick % Math.max(candidates.length, 1)] || null;
+}
+
+function chaosFuzzAct(element, step) {
+  if (step.kind === 'click') {
+    for (let i = 0; i < step.times; i++) chaosFuzzEvent.click(element);
+  } else if (step.kind === 'type') {
+    chaosFuzzEvent.focus(element);
+    chaosFuzzEvent.change(element, { target: { value: step.text.repeat(step.repeat) } });
+    chaosFuzzEvent.keyDown(element, { key: 'Enter' });
+    chaosFuzzEvent.blur(element);
+  } else if (step.kind === 'select') {
+    const options = element.options || [];
+    if (options.length > 0) chaosFuzzEvent.change(element, { target: { value: options[step.option % options.length].value } });
+  } else if (step.kind === 'submit') {
+    chaosFuzzEvent.submit(element);
+  }
+}
+
+async function chaosFuzzReplay(steps) {
+  const errors = [];
+  const onError = (event) => {
+    errors.push(event.error || new Error(event.message));
+    event.preventDefault();
+  };
+  window.addEventListener('error', onError);
+  try {
+    const { container } = chaosFuzzRender(chaosFuzzCreateElement(ChaosFuzzApp));
+    for (const step of steps) {
+      const element = chaosFuzzFind(container, step.target);
+      if (element) chaosFuzzAct(element, step);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (errors.length > 0) break;
+    }
+  } catch (error) {
+    errors.push(error);
+  } finally {
+    window.removeEventListener('error', onError);
+    chaosFuzzCleanup();
+  }
+  return errors[0] ?? null;
+}
+
+function chaosFuzzErrorName(error) {
+  return error instanceof Error ? error.name : typeof error;
+}
+
+async function chaosFuzzRun(fuzzCase) {
+  const error = await chaosFuzzReplay(fuzzCase.steps);
+  if (error === null) return;
+
+  const name = chaosFuzzErrorName(error);
+  const steps = await chaosFuzzShrink(fuzzCase.steps, async (candidate) => {
+    const candidateError = await chaosFuzzReplay(candidate);
+    return candidateError !== null && chaosFuzzErrorName(candidateError) === name;
+  });
+
+  const failure = error instanceof Error ? error : new Error(String(error));
+  const marker = '\\n' + ${JSON.stringify(FUZZ_MARKER)} + JSON.stringify({ seed: fuzzCase.seed, steps });
+  failure.message += marker;
+  if (failure.stack) failure.stack += marker;
+  throw failure;
+}
+`;
+
+/**
+ * Vitest source replaying `cases`, one top-level test per case so the suite
+ * shards like the AI-written one. Imports are aliased so it can be appended
+ * to another suite. `appImport` is the app module's path from the test file;
+ * its default export (or `App`) is rendered.
+ */
+export function buildFuzzSuite(cases: FuzzCase[], options: { appImport: string }): string {
+  if (cases.length === 0) return '';
+
+  return [
+    "import { createElement as chaosFuzzCreateElement } from 'react';",
+    "import { render as chaosFuzzRender, fireEvent as chaosFuzzEvent, cleanup as chaosFuzzCleanup } from '@testing-library/react';",
+    `import * as chaosFuzzAppModule from ${JSON.stringify(options.appImport)};`,
+    '',
+    'const ChaosFuzzApp = chaosFuzzAppModule.default ?? chaosFuzzAppModule.App;',
+    `const CHAOS_FUZZ_CASES = ${JSON.stringify(cases)};`,
+    FUZZ_SHRINKER,
+    FUZZ_RUNNER,
+    ...cases.map(
+      (fuzzCase, i) =>
+        `test('fuzz case ${i + 1} (seed ${fuzzCase.seed})', () => chaosFuzzRun(CHAOS_FUZZ_CASES[${i}]), ${FUZZ_TEST_TIMEOUT});`
+    ),
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,196 @@
+/**
+ * Chaos Suite Sharding
+ *
+ * Splits a generated vitest suite into shards that run in parallel sandboxes.
+ * Their crash reports are merged by utils/crashFingerprint.
+ *
+ * Sharding works on top-level statements: test blocks (`describe`, `test`,
+ * `it`) are dealt round-robin to the shards, everything else (imports,
+ * helpers, hooks) is kept in every shard in its original position. A suite
+ * that is a single `describe` is sharded by the blocks inside it.
+ */
+
+/** Directory (under the project or temp root) that holds sandbox copies */
+export const SANDBOX_DIRECTORY = '.gremlins';
+
+const TEST_BLOCK = /^(describe|test|it)(\.\w+)*\s*\(/;
+
+// ============================================================================
+// SHARDING
+// ============================================================================
+
+interface SuiteChunk {
+  text: string;
+  isTest: boolean;
+}
+
+/**
+ * Split a test suite into at most `count` shards, each a complete test file.
+ * Returns the suite unchanged (one shard) if it has fewer than two test
+ * blocks or cannot be split safely.
+ */
+export function shardTestSuite(testCode: string, count: number): string[] {
+  if (count < 2) return [testCode];
+
+  let chunks = splitTopLevel(testCode);
+  if (!chunks) return [testCode];
+
+  let prefix = '';
+  let suffix = '';
+  const tests = chunks.filter((c) => c.isTest);
+  if (tests.length === 1 && /^describe\b/.test(tests[0].text.trimStart())) {
+    const inner = describeBody(tests[0].text);
+    const innerChunks = inner && splitTopLevel(inner.body);
+    if (!inner || !innerChunks) return [testCode];
+
+    const index = chunks.indexOf(tests[0]);
+    prefix = chunks.slice(0, index).map((c) => c.text).join('') + inner.open;
+    suffix = inner.close + chunks.slice(index + 1).map((c) => c.text).join('');
+    chunks = innerChunks;
+  }
+
+  const testCount = chunks.filter((c) => c.isTest).length;
+  if (testCount < 2) return [testCode];
+
+  const shardCount = Math.min(count, testCount);
+  return Array.from({ length: shardCount }, (_, shard) => {
+    let testIndex = 0;
+    const body = chunks
+      .filter((c) => !c.isTest || testIndex++ % shardCount === shard)
+      .map((c) => c.text)
+      .join('');
+    return prefix + body + suffix;
+  });
+}
+
+/**
+ * Cut code into top-level statements. A statement starts on a line that
+ * begins outside any bracket, string, template or comment; blank and
+ * comment-only lines belong to the statement after them.
+ * Returns null if the brackets do not balance.
+ */
+function splitTopLevel(code: string): SuiteChunk[] | null {
+  const starts = topLevelLineStarts(code);
+  if (!starts) return null;
+
+  const chunks: SuiteChunk[] = [];
+  let pending = '';
+  starts.forEach((start, i) => {
+    const text = code.slice(start, starts[i + 1] ?? code.length);
+    const statement = stripLeadingComments(text);
+    if (statement === '') {
+      pending += text;
+      return;
+    }
+    chunks.push({ text: pending + text, isTest: TEST_BLOCK.test(statement) });
+    pending = '';
+  });
+  if (pending) chunks.push({ text: pending, isTest: false });
+  return chunks;
+}
+
+function stripLeadingComments(text: string): string {
+  let rest = text.trimStart();
+  for (;;) {
+    if (rest.startsWith('//')) {
+      const end = rest.indexOf('\n');
+      rest = end === -1 ? '' : rest.slice(end + 1).trimStart();
+    } else if (rest.startsWith('/*')) {
+      const end = rest.indexOf('*/');
+      rest = end === -1 ? '' : rest.slice(end + 2).trimStart();
+    } else {
+      return rest;
+    }
+  }
+}
+
+/**
+ * Offsets of the lines that begin at bracket depth 0, outside strings,
+ * templates and block comments. Null if the brackets do not balance.
+ */
+function topLevelLineStarts(code: string): number[] | null {
+  const starts: number[] = [0];
+  // One entry per open code context: its bracket depth; templates nest code via ${}
+  const frames: Array<{ kind: 'code'; depth: number } | { kind: 'template' }> = [{ kind: 'code', depth: 0 }];
+  let i = 0;
+
+  while (i < code.length) {
+    const frame = frames[frames.length - 1];
+    const ch = code[i];
+
+    if (frame.kind === 'template') {
+      if (ch === '\\') i += 2;
+      else if (ch === '`') { frames.pop(); i++; }
+      else if (ch === '$' && code[i + 1] === '{') { frames.push({ kind: 'code', depth: 0 }); i += 2; }
+      else i++;
+      continue;
+    }
+
+    if (ch === '\n') {
+      i++;
+      if (frames.length === 1 && frame.depth === 0 && i < code.length) starts.push(i);
+      continue;
+    }
+    if (ch === '/' && code[i + 1] === '/') {
+      const end = code.indexOf('\n', i);
+      i = end === -1 ? code.length : end;
+      continue;
+    }
+    if (ch === '/' && code[i + 1] === '*') {
+      const end = code.indexOf('*/', i + 2);
+      if (end === -1) return null;
+      i = end + 2;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      i = skipString(code, i);
+      if (i === -1) return null;
+      continue;
+    }
+    if (ch === '`') {
+      frames.push({ kind: 'template' });
+      i++;
+      continue;
+    }
+    if (ch === '{' || ch === '(' || ch === '[') {
+      frame.depth++;
+    } else if (ch === '}' || ch === ')' || ch === ']') {
+      if (frame.depth === 0) {
+        // Closes the ${} of an enclosing template
+        if (ch !== '}' || frames.length === 1) return null;
+        frames.pop();
+      } else {
+        frame.depth--;
+      }
+    }
+    i++;
+  }
+
+  const top = frames[0];
+  return frames.length === 1 && top.kind === 'code' && top.depth === 0 ? starts : null;
+}
+
+/** Index after the closing quote of the string starting at `start`, or -1 */
+function skipString(code: string, start: number): number {
+  const quote = code[start];
+  for (let i = start + 1; i < code.length; i++) {
+    if (code[i] === '\\') i++;
+    else if (code[i] === quote) return i + 1;
+    else if (code[i] === '\n') return -1;
+  }
+  return -1;
+}
+
+/**
+ * Split `describe('name', () => { ... });` into the text up to and including
+ * the callback's opening brace, its body, and the rest.
+ */
+function describeBody(block: string): { open: string; body: string; close: string } | null {
+  const opening = /(=>|function\s*\w*\s*\([^)]*\))\s*\{/.exec(block);
+  const closing = block.lastIndexOf('}');
+  if (!opening || closing === -1) return null;
+
+  const bodyStart = opening.index + opening[0].length;
+  if (closing < bodyStart) return null;
+  return { open: block.slice(0, bodyStart), body: block.slice(bodyStart, closing), close: block.slice(closing) };
+}
@@ -4,11 +4,24 @@
  * Converts a component array into valid React TSX code (AppFile[]).
  * Uses inline styles mirroring the mapping from GenericComponentRenderer.tsx.
  * Produces code that works in Sandpack with React 19 + Tailwind CDN.
+ *
+ * Output is a component tree: one file per root section under
+ * /src/components, a shared /src/theme.ts holding the color, font, radius
+ * and shadow tokens, a components barrel, App.tsx composing the sections, and the
+ * entry bootstrap.
  */
 
 import type { DetectedComponentEnhanced } from '@/types/layoutDesign';
 import type { AppFile } from '@/types/railway';
 import { buildComponentTree } from '@/utils/layoutValidation';
+import {
+  APP_FILE_PATH,
+  ENTRY_FILE_PATH,
+  ENTRY_FILE_CONTENT,
+  THEME_FILE_PATH,
+  COMPONENTS_INDEX_PATH,
+} from '@/utils/projectFiles';
+import { normalizeColor } from '@/utils/designTokens';
 
 // ============================================================================
 // TYPES
@@ -21,6 +34,14 @@ export interface CodeGenerationOptions {
   includeDataIds?: boolean;
 }
 
+/** Literal style value → theme expression (e.g. '#0f172a' → theme.colors.surface1) */
+type ThemeTokenMap = Map<string, string>;
+
+/** Internal render options */
+interface RenderOptions extends CodeGenerationOptions {
+  tokens: ThemeTokenMap;
+}
+
 // ============================================================================
 // STYLE MAPPING
 // ============================================================================
@@ -216,13 +237,27 @@ function escapeString(str: string): string {
     .replace(/\n/g, '\\n');
 }
 
+/** Style properties whose values may be replaced by theme tokens */
+const TOKENIZED_PROPERTIES = new Set([
+  'backgroundColor',
+  'color',
+  'fontFamily',
+  'borderRadius',
+  'boxShadow',
+]);
+
 /** Convert a style object to a JS object literal string */
-function styleToString(css: Record<string, string | number | undefined>): string {
+function styleToString(
+  css: Record<string, string | number | undefined>,
+  tokens: ThemeTokenMap = new Map()
+): string {
   const entries: string[] = [];
   for (const [key, value] of Object.entries(css)) {
     if (value === undefined) continue;
     if (typeof value === 'number') {
       entries.push(`${key}: ${value}`);
+    } else if (TOKENIZED_PROPERTIES.has(key) && tokens.has(value)) {
+      entries.push(`${key}: ${tokens.get(value)}`);
     } else {
       entries.push(`${key}: '${escapeString(value)}'`);
     }
@@ -250,6 +285,118 @@ function collectLucideIcons(
   return icons;
 }
 
+/** Collect a root component and all of its descendants */
+function collectSubtree(
+  root: DetectedComponentEnhanced,
+  componentMap: Map<string, DetectedComponentEnhanced>
+): DetectedComponentEnhanced[] {
+  const result: DetectedComponentEnhanced[] = [];
+  const seen = new Set<string>();
+  const stack = [root];
+  let component: DetectedComponentEnhanced | undefined;
+  while ((component = stack.pop())) {
+    if (seen.has(component.id)) continue;
+    seen.add(component.id);
+    result.push(component);
+    for (const childId of component.children ?? []) {
+      const child = componentMap.get(childId);
+      if (child) stack.push(child);
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// THEME TOKENS
+// ============================================================================
+
+interface ThemeTokens {
+  colors: Record<string, string>;
+  fonts: Record<string, string>;
+  radii: Record<string, string>;
+  shadows: Record<string, string>;
+  /** Literal value → `theme.*` expression used by styleToString */
+  lookup: ThemeTokenMap;
+}
+
+/**
+ * Extract the shared palette, font stack, radii and shadows into named
+ * tokens. Background colors become surfaceN, text colors textN, families
+ * fontN, radii radiusN and shadows shadowN. Colors are compared after
+ * normalisation, so '#FFF' and '#ffffff' share one token.
+ */
+function collectThemeTokens(components: DetectedComponentEnhanced[]): ThemeTokens {
+  const colors: Record<string, string> = {};
+  const fonts: Record<string, string> = {};
+  const radii: Record<string, string> = {};
+  const shadows: Record<string, string> = {};
+  const lookup: ThemeTokenMap = new Map();
+  const byColor = new Map<string, string>();
+  const counters = { surface: 0, text: 0, font: 0, radius: 0, shadow: 0 };
+
+  const addColor = (value: string | undefined, prefix: 'surface' | 'text') => {
+    if (!value || value === 'transparent' || lookup.has(value)) return;
+    const normalized = normalizeColor(value) ?? value;
+    let expression = byColor.get(normalized);
+    if (!expression) {
+      const name = `${prefix}${++counters[prefix]}`;
+      colors[name] = value;
+      expression = `theme.colors.${name}`;
+      byColor.set(normalized, expression);
+    }
+    lookup.set(value, expression);
+  };
+
+  const addToken = (
+    value: string | undefined,
+    group: Record<string, string>,
+    groupName: 'fonts' | 'radii' | 'shadows',
+    prefix: 'font' | 'radius' | 'shadow'
+  ) => {
+    if (!value || value === 'none' || lookup.has(value)) return;
+    const name = `${prefix}${++counters[prefix]}`;
+    group[name] = value;
+    lookup.set(value, `theme.${groupName}.${name}`);
+  };
+
+  for (const c of components) {
+    addColor((c.style?.customCSS?.backgroundColor as string) || c.style?.backgroundColor, 'surface');
+    addColor(c.style?.textColor, 'text');
+    addToken(c.style?.fontFamily, fonts, 'fonts', 'font');
+    addToken(c.style?.borderRadius, radii, 'radii', 'radius');
+    addToken(c.style?.shadow, shadows, 'shadows', 'shadow');
+  }
+
+  return { colors, fonts, radii, shadows, lookup };
+}
+
+/** Serialize a flat string record as an object literal body */
+function recordToString(record: Record<string, string>, indent: string): string {
+  const entries = Object.entries(record);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([k, v]) => `${indent}  ${k}: '${escapeString(v)}',`).join('\n')}\n${indent}}`;
+}
+
+// ============================================================================
+// SECTION NAMING
+// ============================================================================
+
+/** PascalCase component name for a root section, unique within the project */
+function sectionName(component: DetectedComponentEnhanced, used: Set<string>): string {
+  const words = (component.type || component.role || 'section')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+  let base = words.map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join('') || 'Section';
+  if (/^\d/.test(base)) base = `Section${base}`;
+  // Avoid shadowing the App component or the theme import
+  if (base === 'App' || base === 'Theme') base = `${base}Section`;
+
+  let name = base;
+  for (let n = 2; used.has(name); n++) name = `${base}${n}`;
+  used.add(name);
+  return name;
+}
+
 // ============================================================================
 // COMPONENT RENDERER (String-based)
 // ============================================================================
@@ -258,7 +405,7 @@ function renderComponent(
   component: DetectedComponentEnhanced,
   componentMap: Map<string, DetectedComponentEnhanced>,
   indent: number,
-  options: CodeGenerationOptions,
+  options: RenderOptions,
   depth: number = 0
 ): string {
   if (depth > 10) return '';
@@ -270,7 +417,7 @@ function renderComponent(
     (component.children && component.children.length > 0);
 
   const css = buildStyleObject(component, isRoot, !!isContainer);
-  const styleStr = styleToString(css);
+  const styleStr = styleToString(css, options.tokens);
 
   const dataId = options.includeDataIds ? ` data-id="${component.id}"` : '';
 
@@ -351,61 +498,83 @@ export function componentsToReactCode(
   if (components.length === 0) {
     return [
       {
-        path: '/src/App.tsx',
+        path: APP_FILE_PATH,
         content: `import React from 'react';\n\nexport default function App() {\n  return <div style={{ width: '100%', minHeight: '100vh', backgroundColor: '${escapeString(canvasBackground)}' }} />;\n}\n`,
       },
-      {
-        path: '/src/index.tsx',
-        content: `import React from 'react';\nimport { createRoot } from 'react-dom/client';\nimport App from './App';\nimport './inspector';\n\nconst root = createRoot(document.getElementById('root')!);\nroot.render(<React.StrictMode><App /></React.StrictMode>);\n`,
-      },
+      { path: ENTRY_FILE_PATH, content: ENTRY_FILE_CONTENT },
     ];
   }
 
   // Build component tree
   const { roots, componentMap } = buildComponentTree(components);
+  const theme = collectThemeTokens(components);
+  const renderOptions: RenderOptions = { canvasBackground, includeDataIds, tokens: theme.lookup };
+
+  // One file per root section
+  const usedNames = new Set<string>();
+  const sections = roots.map((root) => {
+    const name = sectionName(root, usedNames);
+    const subtree = collectSubtree(root, componentMap);
+    const jsx = renderComponent(root, componentMap, 4, renderOptions);
+
+    const imports: string[] = [`import React from 'react';`];
+    const lucideIcons = collectLucideIcons(subtree);
+    if (lucideIcons.size > 0) {
+      imports.push(`import { ${Array.from(lucideIcons).join(', ')} } from 'lucide-react';`);
+    }
+    if (jsx.includes(': theme.')) {
+      imports.push(`import { theme } from '../theme';`);
+    }
 
-  // Collect lucide-react imports
-  const lucideIcons = collectLucideIcons(components);
+    return {
+      name,
+      file: {
+        path: `/src/components/${name}.tsx`,
+        content: `${imports.join('\n')}
 
-  // Build imports
-  const imports: string[] = [`import React from 'react';`];
-  if (lucideIcons.size > 0) {
-    imports.push(
-      `import { ${Array.from(lucideIcons).join(', ')} } from 'lucide-react';`
-    );
-  }
+export function ${name}() {
+  return (
+${jsx}
+  );
+}
+`,
+      },
+    };
+  });
 
-  // Render root components
-  const rootJsx = roots
-    .map((root) =>
-      renderComponent(root, componentMap, 8, { canvasBackground, includeDataIds })
-    )
-    .join('\n');
+  const themeCode = `/**
+ * Design tokens shared by every section.
+ */
+export const theme = {
+  canvasBackground: '${escapeString(canvasBackground)}',
+  colors: ${recordToString(theme.colors, '  ')},
+  fonts: ${recordToString(theme.fonts, '  ')},
+  radii: ${recordToString(theme.radii, '  ')},
+  shadows: ${recordToString(theme.shadows, '  ')},
+};
+`;
+
+  const indexCode = sections.map((s) => `export { ${s.name} } from './${s.name}';`).join('\n') + '\n';
 
-  // Assemble App.tsx
-  const appCode = `${imports.join('\n')}
+  // Roots are absolutely positioned against the App container
+  const appCode = `import React from 'react';
+import { ${sections.map((s) => s.name).join(', ')} } from './components';
+import { theme } from './theme';
 
 export default function App() {
   return (
-    <div style={{ width: '100%', minHeight: '100vh', position: 'relative', backgroundColor: '${escapeString(canvasBackground)}' }}>
-${rootJsx}
+    <div style={{ width: '100%', minHeight: '100vh', position: 'relative', backgroundColor: theme.canvasBackground }}>
+${sections.map((s) => `      <${s.name} />`).join('\n')}
     </div>
   );
 }
-`;
-
-  // Standard index.tsx bootstrap (same as assembleCode in TitanPipelineService)
-  const indexCode = `import React from 'react';
-import { createRoot } from 'react-dom/client';
-import App from './App';
-import './inspector';
-
-const root = createRoot(document.getElementById('root')!);
-root.render(<React.StrictMode><App /></React.StrictMode>);
 `;
 
   return [
-    { path: '/src/App.tsx', content: appCode },
-    { path: '/src/index.tsx', content: indexCode },
+    { path: APP_FILE_PATH, content: appCode },
+    ...sections.map((s) => s.file),
+    { path: COMPONENTS_INDEX_PATH, content: indexCode },
+    { path: THEME_FILE_PATH, content: themeCode },
+    { path: ENTRY_FILE_PATH, content: ENTRY_FILE_CONTENT },
   ];
 }
@@ -0,0 +1,160 @@
+/**
+ * Crash Fingerprinting
+ *
+ * Gives every Chaos Monkey crash a stable identity so duplicates can be
+ * grouped and counted instead of each becoming its own patch attempt.
+ *
+ * A fingerprint is built from:
+ *   - the error class ("TypeError", "AssertionError"; "Error" if none)
+ *   - the crash location (file and line, project-relative)
+ *   - the top application stack frames (function, file and line)
+ *
+ * Frames are normalised so the same crash matches across runs and sandboxes:
+ * sandbox and project-root prefixes, file:// URLs, query strings and columns
+ * are dropped, as are node_modules and Node-internal frames. Crashes without
+ * a stack fall back to their message with numbers masked.
+ */
+
+import { SANDBOX_DIRECTORY } from '@/utils/chaosSharding';
+import { fnv1a } from '@/utils/hash';
+import type { CrashEntry, CrashReport } from '@/types/dream';
+
+/** Application frames that make up a fingerprint */
+const FINGERPRINT_FRAMES = 3;
+
+/** Directories a project-relative path starts at */
+const PROJECT_ROOTS = /\/(src|app|pages|components|lib|__tests__|tests?|node_modules)\//;
+
+const SANDBOX_PREFIX = new RegExp(`^.*/${SANDBOX_DIRECTORY.replace('.', '\\.')}/[^/]+`);
+
+// ============================================================================
+// FRAMES
+// ============================================================================
+
+export interface StackFrame {
+  /** Function name ("<anonymous>" if the frame has none) */
+  fn: string;
+  /** Project-relative file path */
+  file: string;
+  line: number | null;
+}
+
+/**
+ * Parse V8-style "at fn (file:line:col)" / "at file:line:col" lines.
+ */
+export function parseStackFrames(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+  for (const raw of stack.split('\n')) {
+    const match = /^\s*at (?:async )?(?:(.+?) \((.+)\)|(.+))\s*$/.exec(raw);
+    if (!match) continue;
+
+    const location = match[2] ?? match[3];
+    const position = /^(.*?)(?::(\d+))?(?::\d+)?$/.exec(location);
+    if (!position) continue;
+    frames.push({
+      fn: match[1] ?? '<anonymous>',
+      file: normalisePath(position[1]),
+      line: position[2] ? Number(position[2]) : null,
+    });
+  }
+  return frames;
+}
+
+/**
+ * Project-relative form of a path from a stack trace or CrashEntry.file.
+ */
+export function normalisePath(path: string): string {
+  let result = path
+    .replace(/^file:\/\//, '')
+    .replace(/[?#].*$/, '')
+    .replace(SANDBOX_PREFIX, '');
+  const root = PROJECT_ROOTS.exec(result);
+  if (root) result = result.slice(root.index);
+  return result;
+}
+
+function isAppFrame(frame: StackFrame): boolean {
+  return (
+    !frame.file.startsWith('/node_modules/') &&
+    !frame.file.startsWith('node:') &&
+    !frame.file.startsWith('internal/') &&
+    frame.file !== '<anonymous>'
+  );
+}
+
+// ============================================================================
+// FINGERPRINT
+// ============================================================================
+
+/** Error class named on the first line of an error ("Error" if none) */
+export function errorClass(error: string): string {
+  const match = /\b([A-Z]\w*(?:Error|Exception))\b/.exec(error.split('\n')[0]);
+  return match ? match[1] : 'Error';
+}
+
+/**
+ * Stable identity of a crash (8 hex digits). The stack comes from
+ * `stackTrace`, or from the error text when vitest put it there.
+ */
+export function crashFingerprint(crash: CrashEntry): string {
+  const frames = parseStackFrames(crash.stackTrace ?? crash.error);
+  const appFrames = frames.filter(isAppFrame);
+  const top = (appFrames.length > 0 ? appFrames : frames).slice(0, FINGERPRINT_FRAMES);
+
+  const location = crash.file
+    ? `${normalisePath(crash.file)}:${crash.line ?? ''}`
+    : top[0]
+      ? `${top[0].file}:${top[0].line ?? ''}`
+      : '';
+
+  const key =
+    top.length > 0 || location
+      ? [errorClass(crash.error), location, ...top.map((f) => `${f.fn}@${f.file}:${f.line ?? ''}`)].join('|')
+      : [errorClass(crash.error), crash.error.split('\n')[0].trim().replace(/\d+/g, 'N')].join('|');
+
+  return fnv1a(key);
+}
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+/**
+ * Group crashes by fingerprint. Each group is its first crash, fingerprinted,
+ * with the occurrences of the group summed. Order of first appearance is kept.
+ */
+export function groupCrashes(crashes: CrashEntry[]): CrashEntry[] {
+  const groups = new Map<string, CrashEntry>();
+  for (const crash of crashes) {
+    const fingerprint = crash.fingerprint ?? crashFingerprint(crash);
+    const occurrences = crash.occurrences ?? 1;
+    const group = groups.get(fingerprint);
+    if (group) {
+      group.occurrences = (group.occurrences ?? 1) + occurrences;
+    } else {
+      groups.set(fingerprint, { ...crash, fingerprint, occurrences });
+    }
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Merge the crash reports of parallel shards into one report for the cycle.
+ * Counts are summed, duration is wall-clock, crashes are grouped by fingerprint.
+ */
+export function mergeCrashReports(reports: CrashReport[]): CrashReport {
+  if (reports.length === 1) return { ...reports[0], crashes: groupCrashes(reports[0].crashes) };
+
+  const startedAt = Math.min(...reports.map((r) => r.timestamp));
+  const endedAt = Math.max(...reports.map((r) => r.timestamp + r.duration));
+
+  return {
+    id: `chaos_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    crashes: groupCrashes(reports.flatMap((r) => r.crashes)),
+    timestamp: startedAt,
+    duration: endedAt - startedAt,
+    strategy: 'vitest',
+    testsRun: reports.reduce((sum, r) => sum + r.testsRun, 0),
+    testsPassed: reports.reduce((sum, r) => sum + r.testsPassed, 0),
+  };
+}
@@ -0,0 +1,588 @@
+/**
+ * Design Token Pipeline
+ *
+ * Normalises a layout's theme into a DesignTokenSet and exports it.
+ *
+ * Sources:
+ * - tokensFromManifests: colors, fonts, type scale, radii, shadows and
+ *   spacing detected by the Surveyor (global_theme + dom_tree styles)
+ * - tokensFromGlobalStyles: the user's GlobalStyles presets
+ * - tokensFromPipelineResult: whichever of the two a pipeline run built with
+ *
+ * Exports:
+ * - toCssVariables: `:root { --color-primary: … }`
+ * - toTailwindThemeExtend: `theme.extend` mapping each token to its CSS variable
+ * - toStyleDictionary: W3C Design Tokens JSON ($type / $value)
+ * - toThemeObject: literal values for the generated /src/theme.ts
+ */
+
+import type {
+  DesignTokenGroup,
+  DesignTokenSet,
+  TokenScale,
+  W3CShadowValue,
+  W3CToken,
+  W3CTokenTree,
+  W3CTokenType,
+} from '@/types/designTokens';
+import type { DomTreeNode, PipelineResult, VisualManifest } from '@/types/titanPipeline';
+import type { GlobalStyles } from '@/types/layoutDesign';
+import { getCustomizableValue } from '@/types/layoutDesign';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Type scale names; the most common detected size is anchored at `base` */
+const TYPE_SCALE = ['2xs', 'xs', 'sm', 'base', 'lg', 'xl', '2xl', '3xl', '4xl', '5xl', '6xl'];
+const TYPE_SCALE_BASE = TYPE_SCALE.indexOf('base');
+
+/** Names for radii, shadows and spacing, smallest first */
+const SIZE_SCALE = ['xs', 'sm', 'md', 'lg', 'xl', '2xl', '3xl'];
+
+/** Remaining detected colors are named in this order, then extraN */
+const BRAND_COLOR_NAMES = ['primary', 'secondary', 'accent'];
+const MAX_EXTRA_COLORS = 6;
+
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff',
+  black: '#000000',
+};
+
+const FONT_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  light: 300,
+  normal: 400,
+  regular: 400,
+  medium: 500,
+  semibold: 600,
+  bold: 700,
+  extrabold: 800,
+  black: 900,
+};
+
+const HEADING_TYPES = new Set(['h1', 'h2', 'h3', 'h4', 'heading', 'title']);
+
+/** CSS variable prefix per token group */
+const CSS_VAR_PREFIX: Record<DesignTokenGroup, string> = {
+  colors: 'color',
+  fonts: 'font',
+  fontSizes: 'text',
+  fontWeights: 'font-weight',
+  lineHeights: 'leading',
+  radii: 'radius',
+  shadows: 'shadow',
+  spacing: 'spacing',
+};
+
+/** Tailwind theme key per token group */
+const TAILWIND_KEY: Record<DesignTokenGroup, string> = {
+  colors: 'colors',
+  fonts: 'fontFamily',
+  fontSizes: 'fontSize',
+  fontWeights: 'fontWeight',
+  lineHeights: 'lineHeight',
+  radii: 'borderRadius',
+  shadows: 'boxShadow',
+  spacing: 'spacing',
+};
+
+/** W3C group name and $type per token group */
+const W3C_GROUP: Record<DesignTokenGroup, { path: string[]; type: W3CTokenType }> = {
+  colors: { path: ['color'], type: 'color' },
+  fonts: { path: ['font', 'family'], type: 'fontFamily' },
+  fontSizes: { path: ['font', 'size'], type: 'dimension' },
+  fontWeights: { path: ['font', 'weight'], type: 'fontWeight' },
+  lineHeights: { path: ['font', 'lineHeight'], type: 'number' },
+  radii: { path: ['radius'], type: 'dimension' },
+  shadows: { path: ['shadow'], type: 'shadow' },
+  spacing: { path: ['spacing'], type: 'dimension' },
+};
+
+const TOKEN_GROUPS = Object.keys(CSS_VAR_PREFIX) as DesignTokenGroup[];
+
+// ============================================================================
+// GLOBAL STYLES PRESETS
+// ============================================================================
+
+const HEADING_SIZE_PRESETS = { sm: '1.5rem', base: '1.875rem', lg: '2.25rem', xl: '3rem' };
+const BODY_SIZE_PRESETS = { xs: '0.75rem', sm: '0.875rem', base: '1rem' };
+const LINE_HEIGHT_PRESETS = { tight: '1.25', normal: '1.5', relaxed: '1.75' };
+const RADIUS_PRESETS = {
+  none: '0px',
+  sm: '0.125rem',
+  md: '0.375rem',
+  lg: '0.5rem',
+  xl: '0.75rem',
+  full: '9999px',
+};
+const SHADOW_PRESETS = {
+  none: 'none',
+  subtle: '0 1px 2px 0 rgba(0, 0, 0, 0.05)',
+  medium: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -2px rgba(0, 0, 0, 0.1)',
+  strong: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 8px 10px -6px rgba(0, 0, 0, 0.1)',
+};
+/** Spacing scale multiplier per density */
+const DENSITY_PRESETS = { compact: '0.75', normal: '1', relaxed: '1.25' };
+const SECTION_PADDING_PRESETS = { sm: '2rem', md: '4rem', lg: '6rem', xl: '8rem' };
+const COMPONENT_GAP_PRESETS = { sm: '0.5rem', md: '1rem', lg: '1.5rem' };
+
+// ============================================================================
+// VALUE NORMALIZATION
+// ============================================================================
+
+const toHex = (n: number) => Math.round(Math.max(0, Math.min(255, n))).toString(16).padStart(2, '0');
+
+/**
+ * Normalise a CSS color to lowercase #rrggbb (or #rrggbbaa when translucent).
+ * Returns null for values that are not a single solid color (gradients,
+ * variables, transparent, currentColor).
+ */
+export function normalizeColor(value: string | undefined): string | null {
+  if (!value) return null;
+  const color = value.trim().toLowerCase();
+
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color];
+
+  const hex = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) digits = [...digits].map((d) => d + d).join('');
+    if (digits.length === 8 && digits.endsWith('ff')) digits = digits.slice(0, 6);
+    return `#${digits}`;
+  }
+
+  const rgb = color.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    const [, r, g, b, a] = rgb;
+    const alpha = a === undefined ? 1 : a.endsWith('%') ? parseFloat(a) / 100 : parseFloat(a);
+    const base = `#${toHex(+r)}${toHex(+g)}${toHex(+b)}`;
+    return alpha >= 1 ? base : `${base}${toHex(alpha * 255)}`;
+  }
+
+  return null;
+}
+
+/** Parse a px/rem length to px; null for percentages, keywords and calc() */
+function toPx(value: string | number | undefined): number | null {
+  if (value === undefined) return null;
+  if (typeof value === 'number') return value;
+  const match = value.trim().match(/^(-?[\d.]+)(px|rem|em)?$/);
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  return match[2] === 'rem' || match[2] === 'em' ? n * 16 : n;
+}
+
+/** Font weight keyword or number → numeric weight */
+function toFontWeight(value: string | number | undefined): number | null {
+  if (value === undefined) return null;
+  if (typeof value === 'number') return value;
+  const keyword = FONT_WEIGHTS[value.trim().toLowerCase()];
+  if (keyword) return keyword;
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) && n >= 100 && n <= 900 ? n : null;
+}
+
+/** Add a generic fallback to a bare family name: `Inter` → `Inter, sans-serif` */
+function toFontStack(family: string): string {
+  const trimmed = family.trim();
+  if (trimmed.includes(',')) return trimmed;
+  const name = /\s/.test(trimmed) && !/^["']/.test(trimmed) ? `"${trimmed}"` : trimmed;
+  const generic = /mono|code|courier/i.test(trimmed)
+    ? 'monospace'
+    : /serif|georgia|times|garamond|playfair|merriweather|lora/i.test(trimmed) &&
+        !/sans/i.test(trimmed)
+      ? 'serif'
+      : 'sans-serif';
+  return `${name}, ${generic}`;
+}
+
+/** Split a comma-separated CSS list, ignoring commas inside parentheses */
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/** Rough visual weight of a shadow, used to order the shadow scale */
+function shadowSize(shadow: string): number {
+  return (shadow.replace(/rgba?\([^)]*\)/g, '').match(/-?[\d.]+/g) ?? []).reduce(
+    (sum, n) => sum + Math.abs(parseFloat(n)),
+    0
+  );
+}
+
+/** Perceived saturation (0–1) of a hex color; brand colors score high */
+function chroma(hex: string): number {
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+  return Math.max(r, g, b) - Math.min(r, g, b);
+}
+
+// ============================================================================
+// SAMPLING
+// ============================================================================
+
+/** Occurrence counter that remembers first-seen order for stable ties */
+class Tally {
+  private counts = new Map<string, number>();
+
+  add(value: string | null | undefined, weight = 1): void {
+    if (!value) return;
+    this.counts.set(value, (this.counts.get(value) ?? 0) + weight);
+  }
+
+  /** Values by descending count */
+  ranked(): string[] {
+    return [...this.counts.entries()].sort((a, b) => b[1] - a[1]).map(([value]) => value);
+  }
+
+  get size(): number {
+    return this.counts.size;
+  }
+}
+
+/**
+ * Name the most common values along a scale, ordered by size.
+ * `anchor` pins the most common value to a given scale position.
+ */
+function toScale(
+  tally: Tally,
+  names: string[],
+  size: (value: string) => number,
+  anchor?: number
+): TokenScale {
+  const ranked = tally.ranked().slice(0, names.length);
+  if (ranked.length === 0) return {};
+
+  const sorted = [...ranked].sort((a, b) => size(a) - size(b));
+  let start = 0;
+  if (anchor !== undefined) {
+    start = anchor - sorted.indexOf(ranked[0]);
+    start = Math.max(0, Math.min(start, names.length - sorted.length));
+  }
+
+  return Object.fromEntries(sorted.map((value, i) => [names[start + i], value]));
+}
+
+/** Depth-first walk over a Surveyor dom_tree */
+function walkDomTree(node: DomTreeNode | undefined, visit: (node: DomTreeNode) => void): void {
+  if (!node || typeof node !== 'object') return;
+  visit(node);
+  for (const child of node.children ?? []) walkDomTree(child, visit);
+}
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+/**
+ * Build a token set from Surveyor manifests. Colors are deduplicated after
+ * normalisation and named by role: the canvas/most common background is
+ * `background`, the next `surface`, the dominant text color `text`, and the
+ * remaining colors (most saturated first) `primary`, `secondary`, `accent`.
+ */
+export function tokensFromManifests(manifests: VisualManifest[]): DesignTokenSet {
+  const backgrounds = new Tally();
+  const texts = new Tally();
+  const borders = new Tally();
+  const palette = new Tally();
+  const bodyFonts = new Tally();
+  const headingFonts = new Tally();
+  const fontSizes = new Tally();
+  const bodyWeights = new Tally();
+  const headingWeights = new Tally();
+  const bodyLineHeights = new Tally();
+  const headingLineHeights = new Tally();
+  const radii = new Tally();
+  const shadows = new Tally();
+  const spacing = new Tally();
+  let canvasBackground: string | null = null;
+  let hasFullRadius = false;
+
+  for (const manifest of manifests) {
+    canvasBackground ??= normalizeColor(manifest.canvas?.background);
+    for (const color of manifest.global_theme?.colors ?? []) palette.add(normalizeColor(color));
+    for (const font of manifest.global_theme?.fonts ?? []) bodyFonts.add(toFontStack(font));
+
+    walkDomTree(manifest.global_theme?.dom_tree, (node) => {
+      const styles = node.styles ?? {};
+      const isHeading = HEADING_TYPES.has(node.type?.toLowerCase());
+
+      backgrounds.add(normalizeColor(styles.backgroundColor ?? styles.background));
+      texts.add(normalizeColor(styles.color));
+      borders.add(normalizeColor(styles.borderColor));
+
+      if (styles.fontFamily) {
+        (isHeading ? headingFonts : bodyFonts).add(toFontStack(styles.fontFamily));
+      }
+      const weight = toFontWeight(styles.fontWeight);
+      if (weight) (isHeading ? headingWeights : bodyWeights).add(String(weight));
+      if (styles.lineHeight && /^[\d.]+$/.test(styles.lineHeight)) {
+        (isHeading ? headingLineHeights : bodyLineHeights).add(styles.lineHeight);
+      }
+      if (toPx(styles.fontSize) !== null) fontSizes.add(styles.fontSize.trim());
+
+      if (styles.borderRadius) {
+        const px = toPx(styles.borderRadius);
+        if (styles.borderRadius.trim() === '50%' || (px !== null && px >= 999)) hasFullRadius = true;
+        else if (px) radii.add(styles.borderRadius.trim());
+      }
+      if (styles.boxShadow && styles.boxShadow !== 'none') shadows.add(styles.boxShadow.trim());
+
+      for (const key of ['padding', 'margin', 'gap', 'rowGap', 'columnGap']) {
+        for (const part of styles[key]?.split(/\s+/) ?? []) {
+          if (toPx(part)) spacing.add(part);
+        }
+      }
+    });
+  }
+
+  // Colors by role
+  const colors: TokenScale = {};
+  const assigned = new Set<string>();
+  const assign = (name: string, value: string | null | undefined) => {
+    if (!value || assigned.has(value)) return;
+    colors[name] = value;
+    assigned.add(value);
+  };
+  const [firstBg, ...otherBgs] = backgrounds.ranked();
+  assign('background', canvasBackground ?? firstBg);
+  assign('surface', (canvasBackground ? [firstBg, ...otherBgs] : otherBgs).find((c) => c !== colors.background));
+  const [text, textMuted] = texts.ranked();
+  assign('text', text);
+  assign('textMuted', textMuted);
+  assign('border', borders.ranked()[0]);
+
+  for (const value of [...texts.ranked(), ...backgrounds.ranked(), ...borders.ranked()]) palette.add(value);
+  const remaining = palette.ranked().filter((c) => !assigned.has(c));
+  remaining
+    .sort((a, b) => chroma(b) - chroma(a))
+    .slice(0, BRAND_COLOR_NAMES.length + MAX_EXTRA_COLORS)
+    .forEach((value, i) => assign(BRAND_COLOR_NAMES[i] ?? `extra${i - BRAND_COLOR_NAMES.length + 1}`, value));
+
+  // Typography
+  const fonts: TokenScale = {};
+  const sans = bodyFonts.ranked()[0] ?? headingFonts.ranked()[0];
+  if (sans) fonts.sans = sans;
+  const heading = headingFonts.ranked()[0];
+  if (heading && heading !== sans) fonts.heading = heading;
+  const mono = [...bodyFonts.ranked(), ...headingFonts.ranked()].find((f) => f.endsWith('monospace'));
+  if (mono) fonts.mono = mono;
+
+  const fontWeights: TokenScale<number> = {};
+  const bodyWeight = bodyWeights.ranked()[0];
+  const headingWeight = headingWeights.ranked()[0];
+  if (bodyWeight) fontWeights.body = Number(bodyWeight);
+  if (headingWeight) fontWeights.heading = Number(headingWeight);
+  const boldest = Math.max(...[...bodyWeights.ranked(), ...headingWeights.ranked()].map(Number));
+  if (boldest >= 600) fontWeights.bold = boldest;
+
+  const lineHeights: TokenScale = {};
+  if (bodyLineHeights.size > 0) lineHeights.body = bodyLineHeights.ranked()[0];
+  if (headingLineHeights.size > 0) lineHeights.tight = headingLineHeights.ranked()[0];
+
+  const px = (value: string) => toPx(value) ?? 0;
+  const radiusScale = toScale(radii, SIZE_SCALE, px);
+  if (hasFullRadius) radiusScale.full = '9999px';
+
+  return {
+    colors,
+    fonts,
+    fontSizes: toScale(fontSizes, TYPE_SCALE, px, TYPE_SCALE_BASE),
+    fontWeights,
+    lineHeights,
+    radii: radiusScale,
+    shadows: toScale(shadows, SIZE_SCALE, shadowSize),
+    spacing: toScale(spacing, SIZE_SCALE, px),
+  };
+}
+
+/**
+ * Build a token set from the user's GlobalStyles presets (custom values
+ * take precedence over presets).
+ */
+export function tokensFromGlobalStyles(styles: GlobalStyles): DesignTokenSet {
+  const { typography, spacing, effects } = styles;
+
+  const colors: TokenScale = {};
+  for (const [name, value] of Object.entries(styles.colors)) {
+    const color = normalizeColor(value);
+    if (color) colors[name] = color;
+  }
+
+  const fonts: TokenScale = { sans: toFontStack(typography.fontFamily) };
+  if (typography.headingFont && typography.headingFont !== typography.fontFamily) {
+    fonts.heading = toFontStack(typography.headingFont);
+  }
+
+  const body = getCustomizableValue(typography.bodySize, BODY_SIZE_PRESETS, '1rem');
+  const heading = getCustomizableValue(typography.headingSize, HEADING_SIZE_PRESETS, '2.25rem');
+
+  const radius = getCustomizableValue(effects.borderRadius, RADIUS_PRESETS, RADIUS_PRESETS.md);
+  const shadow = getCustomizableValue(effects.shadows, SHADOW_PRESETS, SHADOW_PRESETS.subtle);
+
+  const density = parseFloat(getCustomizableValue(spacing.density, DENSITY_PRESETS, '1')) || 1;
+  const step = (rem: number) => `${+(rem * density).toFixed(3)}rem`;
+
+  return {
+    colors,
+    fonts,
+    fontSizes: { sm: '0.875rem', base: body, lg: '1.125rem', xl: '1.25rem', '4xl': heading },
+    fontWeights: {
+      body: FONT_WEIGHTS[typography.bodyWeight],
+      heading: FONT_WEIGHTS[typography.headingWeight],
+      bold: 700,
+    },
+    lineHeights: {
+      tight: LINE_HEIGHT_PRESETS.tight,
+      body: getCustomizableValue(typography.lineHeight, LINE_HEIGHT_PRESETS, '1.5'),
+    },
+    radii: radius === '0px' ? {} : { md: radius },
+    shadows: shadow === 'none' ? {} : { md: shadow },
+    spacing: {
+      xs: step(0.25),
+      sm: step(0.5),
+      md: step(1),
+      lg: step(1.5),
+      xl: step(2),
+      gap: getCustomizableValue(spacing.componentGap, COMPONENT_GAP_PRESETS, '1rem'),
+      section: getCustomizableValue(spacing.sectionPadding, SECTION_PADDING_PRESETS, '4rem'),
+    },
+  };
+}
+
+/**
+ * Tokens a pipeline run themed its code with: a multi-page build's shared
+ * styles, else the Surveyor's manifests.
+ */
+export function tokensFromPipelineResult(
+  result: Pick<PipelineResult, 'manifests' | 'multiPageDesign'>
+): DesignTokenSet {
+  const styles = result.multiPageDesign?.sharedDesign.globalStyles;
+  return styles ? tokensFromGlobalStyles(styles) : tokensFromManifests(result.manifests);
+}
+
+/** Whether a token set holds any tokens */
+export function hasDesignTokens(tokens: DesignTokenSet): boolean {
+  return TOKEN_GROUPS.some((group) => Object.keys(tokens[group]).length > 0);
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+/** CSS custom property name for a token, e.g. cssVarName('colors', 'primary') → --color-primary */
+export function cssVarName(group: DesignTokenGroup, name: string): string {
+  const kebab = name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+  return `--${CSS_VAR_PREFIX[group]}-${kebab}`;
+}
+
+/** Export tokens as CSS custom properties */
+export function toCssVariables(tokens: DesignTokenSet, selector = ':root'): string {
+  const lines: string[] = [];
+  for (const group of TOKEN_GROUPS) {
+    for (const [name, value] of Object.entries(tokens[group])) {
+      lines.push(`  ${cssVarName(group, name)}: ${value};`);
+    }
+  }
+  return `${selector} {\n${lines.join('\n')}\n}\n`;
+}
+
+/**
+ * Export tokens as a Tailwind `theme.extend` object. Values point at the CSS
+ * variables so the stylesheet stays the single source of truth.
+ */
+export function toTailwindThemeExtend(tokens: DesignTokenSet): Record<string, Record<string, unknown>> {
+  const extend: Record<string, Record<string, unknown>> = {};
+  for (const group of TOKEN_GROUPS) {
+    const entries = Object.keys(tokens[group]).map((name) => {
+      const ref = `var(${cssVarName(group, name)})`;
+      return [name, group === 'fonts' ? [ref] : ref];
+    });
+    if (entries.length > 0) extend[TAILWIND_KEY[group]] = Object.fromEntries(entries);
+  }
+  return extend;
+}
+
+/** Parse a CSS box-shadow into W3C shadow objects; null if any layer is unparseable */
+function parseShadow(shadow: string): W3CShadowValue[] | null {
+  const layers = splitTopLevel(shadow).map((layer): W3CShadowValue | null => {
+    const inset = /\binset\b/.test(layer);
+    const colorMatch = layer.match(/rgba?\([^)]*\)|#[0-9a-fA-F]{3,8}\b/);
+    const color = normalizeColor(colorMatch?.[0]) ?? '#000000';
+    const lengths = layer
+      .replace(colorMatch?.[0] ?? '', '')
+      .replace(/\binset\b/, '')
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean);
+    if (lengths.length < 2 || lengths.some((l) => toPx(l) === null)) return null;
+    const px = (l: string | undefined) => `${toPx(l ?? '0')}px`;
+    return {
+      color,
+      offsetX: px(lengths[0]),
+      offsetY: px(lengths[1]),
+      blur: px(lengths[2]),
+      spread: px(lengths[3]),
+      ...(inset ? { inset } : {}),
+    };
+  });
+  return layers.every((l): l is W3CShadowValue => l !== null) ? layers : null;
+}
+
+/**
+ * Export tokens as W3C Design Tokens JSON, consumable by Style Dictionary.
+ * Shadows that cannot be parsed into layers keep their CSS string value.
+ */
+export function toStyleDictionary(tokens: DesignTokenSet): W3CTokenTree {
+  const tree: W3CTokenTree = {};
+  for (const group of TOKEN_GROUPS) {
+    const entries = Object.entries(tokens[group]);
+    if (entries.length === 0) continue;
+
+    const { path, type } = W3C_GROUP[group];
+    let node = tree;
+    for (const segment of path) {
+      node[segment] ??= {};
+      node = node[segment] as W3CTokenTree;
+    }
+
+    for (const [name, value] of entries) {
+      let token: W3CToken = { $type: type, $value: value };
+      if (group === 'fonts') {
+        token = { $type: type, $value: splitTopLevel(String(value)).map((f) => f.replace(/^["']|["']$/g, '')) };
+      } else if (group === 'shadows') {
+        const layers = parseShadow(String(value));
+        if (layers) token = { $type: type, $value: layers.length === 1 ? layers[0] : layers };
+      } else if (group === 'lineHeights') {
+        token = { $type: type, $value: Number(value) };
+      }
+      node[name] = token;
+    }
+  }
+  return tree;
+}
+
+/**
+ * Literal token values for the generated /src/theme.ts, grouped the way
+ * sections read them (`theme.colors.primary`, `theme.radii.md`…).
+ */
+export function toThemeObject(tokens: DesignTokenSet): Record<string, TokenScale<string | number>> {
+  const theme: Record<string, TokenScale<string | number>> = {};
+  for (const group of TOKEN_GROUPS) {
+    if (Object.keys(tokens[group]).length > 0) theme[group] = { ...tokens[group] };
+  }
+  return theme;
+}
@@ -0,0 +1,477 @@
+/**
+ * Dream Morning Report
+ *
+ * Turns a DreamLog into a self-contained document to read after an overnight
+ * cycle or attach to its pull request:
+ *   - summary counts, stop reason and auto-commit target
+ *   - model spend against the cost cap
+ *   - time, fixes and spend per phase
+ *   - goals that completed or failed
+ *   - every patch with a unified diff per file and its verification outcome
+ *   - crashes with reproduction steps, and the flaky ones quarantined
+ *   - orphaned features found by the DiscoveryAgent
+ *
+ * Both renderers work from the same DreamReport model; the HTML version has
+ * inline styles only, so it opens anywhere without network access.
+ */
+
+import type {
+  CampaignPhase,
+  CrashEntry,
+  DiscoveredFeature,
+  DreamGoal,
+  DreamLog,
+  DreamPatch,
+  DreamPhaseUsage,
+} from '@/types/dream';
+import { formatUnifiedDiff } from '@/utils/lineDiff';
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+export type ReportPatchStatus = 'verified' | 'failed verification' | 'rolled back';
+
+export interface ReportPatch {
+  title: string;
+  kind: 'goal' | 'crash fix';
+  status: ReportPatchStatus;
+  appliedAt: number;
+  revertReason?: string;
+  /** One unified diff per file the patch wrote */
+  diffs: Array<{ path: string; diff: string }>;
+}
+
+export interface DreamReport {
+  title: string;
+  repoUrl: string;
+  profile: string;
+  startedAt: number;
+  endedAt: number;
+  stopReason: string;
+  summary: Array<[label: string, value: string]>;
+  phases: Array<DreamPhaseUsage & { label: string; share: number }>;
+  goals: { completed: DreamGoal[]; failed: DreamGoal[]; unfinished: DreamGoal[] };
+  patches: ReportPatch[];
+  crashes: CrashEntry[];
+  quarantine: CrashEntry[];
+  orphanedFeatures: DiscoveredFeature[];
+  autoCommit: DreamLog['autoCommit'];
+}
+
+const PHASE_LABELS: Record<CampaignPhase, string> = {
+  IDLE: 'Idle',
+  LOADING: 'Loading repository',
+  DISCOVERING: 'Discovery',
+  BUILDING_GOAL: 'Building goals',
+  CHAOS_TESTING: 'Chaos testing',
+  DIAGNOSING: 'Diagnosing',
+  PATCHING: 'Patching',
+  VERIFYING: 'Verifying',
+  LOGGING: 'Logging',
+  DONE: 'Done',
+};
+
+/** Hunks longer than this are cut to keep the report readable */
+const MAX_DIFF_LINES = 400;
+
+// ============================================================================
+// BUILD
+// ============================================================================
+
+/**
+ * Collect everything the renderers show. Logs written before goals, phase
+ * usage or the discovery report were recorded yield empty sections.
+ */
+export function buildDreamReport(log: DreamLog): DreamReport {
+  const goals = log.goals ?? [];
+  const phaseTotal = (log.phaseUsage ?? []).reduce((sum, u) => sum + u.durationMs, 0);
+  const fixesUsed = (log.phaseUsage ?? []).reduce((sum, u) => sum + u.fixesUsed, 0);
+  const crashes = log.crashReports.flatMap((r) => r.crashes).filter((c) => c.stability?.verdict !== 'flaky');
+  const quarantine = log.quarantine ?? [];
+
+  return {
+    title: `Dream report — ${log.repoUrl} — ${formatDate(log.startedAt)}`,
+    repoUrl: log.repoUrl,
+    profile: log.profileUsed,
+    startedAt: log.startedAt,
+    endedAt: log.endedAt,
+    stopReason: log.stopReason.replace(/_/g, ' '),
+    summary: [
+      ['Duration', formatDuration(log.endedAt - log.startedAt)],
+      ['Goals completed', String(log.goalsCompleted)],
+      ['Bugs found', String(log.bugsFound)],
+      ['Bugs fixed', String(log.bugsFixed)],
+      ['Orphaned features', String(log.discoveries)],
+      ['Chaos runs', String(log.crashReports.length)],
+      ...(quarantine.length > 0
+        ? [['Flaky crashes quarantined', String(quarantine.length)] as [string, string]]
+        : []),
+      ...(log.fixBudget !== undefined
+        ? [['Fix budget used', `${fixesUsed} / ${log.fixBudget}`] as [string, string]]
+        : []),
+      ...(log.cost
+        ? [
+            ['Model spend', `${formatUsd(log.cost.spentUsd)} / ${formatUsd(log.cost.limitUsd)}`] as [string, string],
+            [
+              'Model calls',
+              `${log.cost.calls} (${log.cost.inputTokens.toLocaleString('en-US')} input, ` +
+                `${log.cost.outputTokens.toLocaleString('en-US')} output tokens)`,
+            ] as [string, string],
+          ]
+        : []),
+    ],
+    phases: (log.phaseUsage ?? []).map((u) => ({
+      ...u,
+      label: PHASE_LABELS[u.phase],
+      share: phaseTotal > 0 ? u.durationMs / phaseTotal : 0,
+    })),
+    goals: {
+      completed: goals.filter((g) => g.status === 'COMPLETED'),
+      failed: goals.filter((g) => g.status === 'FAILED'),
+      unfinished: goals.filter((g) => g.status === 'PENDING' || g.status === 'IN_PROGRESS'),
+    },
+    patches: log.patches.map((p) => reportPatch(p, goals)),
+    crashes,
+    quarantine,
+    orphanedFeatures: (log.discoveryReport?.discoveries ?? []).filter((d) => d.status !== 'ACTIVE'),
+    autoCommit: log.autoCommit,
+  };
+}
+
+function reportPatch(patch: DreamPatch, goals: DreamGoal[]): ReportPatch {
+  const goal = patch.goalId ? goals.find((g) => g.id === patch.goalId) : undefined;
+  const changes = patch.changes ?? [{ path: patch.file, before: patch.before, after: patch.after }];
+
+  return {
+    title:
+      patch.commitMessage?.split('\n')[0] ??
+      goal?.prompt ??
+      (patch.goalId ? `Goal ${patch.goalId}` : `Fix for ${patch.file}`),
+    kind: patch.goalId ? 'goal' : 'crash fix',
+    status: patch.revertedAt ? 'rolled back' : patch.verified ? 'verified' : 'failed verification',
+    appliedAt: patch.appliedAt,
+    revertReason: patch.revertReason,
+    diffs: changes
+      .map((c) => ({ path: c.path, diff: truncateDiff(formatUnifiedDiff(c.path, c.before ?? undefined, c.after ?? undefined)) }))
+      .filter((d) => d.diff !== ''),
+  };
+}
+
+function truncateDiff(diff: string): string {
+  const lines = diff.split('\n');
+  if (lines.length <= MAX_DIFF_LINES) return diff;
+  return [...lines.slice(0, MAX_DIFF_LINES), `… ${lines.length - MAX_DIFF_LINES} more lines`].join('\n');
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds} s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/** Phase cost column, only for logs that tracked spend per phase */
+function hasPhaseCost(report: DreamReport): boolean {
+  return report.phases.some((p) => p.costUsd !== undefined);
+}
+
+/** "seen 3 times" / "failed 1 of 3 re-runs", for crashes that carry them */
+function crashCounts(crash: CrashEntry): string[] {
+  const counts: string[] = [];
+  if ((crash.occurrences ?? 1) > 1) counts.push(`seen ${crash.occurrences} times`);
+  if (crash.stability) counts.push(`failed ${crash.stability.failures} of ${crash.stability.reruns} re-runs`);
+  return counts;
+}
+
+function crashLocation(crash: CrashEntry): string | null {
+  if (!crash.file) return null;
+  return crash.line !== undefined ? `${crash.file}:${crash.line}` : crash.file;
+}
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+/**
+ * Markdown report (GitHub-flavoured; diffs in ```diff fences).
+ */
+export function renderDreamReportMarkdown(log: DreamLog): string {
+  const report = buildDreamReport(log);
+  const lines: string[] = [
+    `# ${report.title}`,
+    '',
+    `Profile **${report.profile}**, ended: **${report.stopReason}** ` +
+      `(${formatDate(report.startedAt)} → ${formatDate(report.endedAt)}).`,
+  ];
+
+  if (report.autoCommit) {
+    const { branch, pullRequestUrl, error } = report.autoCommit;
+    lines.push(
+      '',
+      error
+        ? `Auto-commit to \`${branch}\` failed: ${error}`
+        : `Verified patches pushed to \`${branch}\`${pullRequestUrl ? ` — ${pullRequestUrl}` : ''}.`
+    );
+  }
+
+  lines.push('', '| | |', '| --- | --- |', ...report.summary.map(([label, value]) => `| ${label} | ${value} |`));
+
+  if (report.phases.length > 0) {
+    const withCost = hasPhaseCost(report);
+    lines.push(
+      '',
+      '## Time and budget by phase',
+      '',
+      `| Phase | Time | Share | Visits | Fixes |${withCost ? ' Cost |' : ''}`,
+      `| --- | --- | --- | --- | --- |${withCost ? ' --- |' : ''}`
+    );
+    for (const p of report.phases) {
+      const cost = withCost ? ` ${formatUsd(p.costUsd ?? 0)} |` : '';
+      lines.push(`| ${p.label} | ${formatDuration(p.durationMs)} | ${Math.round(p.share * 100)}% | ${p.visits} | ${p.fixesUsed} |${cost}`);
+    }
+  }
+
+  lines.push('', '## Goals', '');
+  if (report.goals.completed.length + report.goals.failed.length + report.goals.unfinished.length === 0) {
+    lines.push('_No goals this cycle._');
+  }
+  for (const g of report.goals.completed) lines.push(`- ✅ ${g.prompt} _(${g.source})_`);
+  for (const g of report.goals.failed) {
+    lines.push(`- ❌ ${g.prompt} _(${g.source})_${g.errorMessage ? ` — ${g.errorMessage}` : ''}`);
+  }
+  for (const g of report.goals.unfinished) lines.push(`- ⏸ ${g.prompt} _(${g.source}, not reached)_`);
+
+  lines.push('', '## Patches', '');
+  if (report.patches.length === 0) lines.push('_No patches this cycle._');
+  report.patches.forEach((p, i) => {
+    lines.push(`### ${i + 1}. ${p.title}`, '', `${p.kind}, **${p.status}** at ${formatDate(p.appliedAt)}`);
+    if (p.revertReason) lines.push('', `> ${p.revertReason}`);
+    for (const d of p.diffs) lines.push('', '```diff', d.diff, '```');
+    lines.push('');
+  });
+
+  lines.push('## Crashes', '');
+  if (report.crashes.length === 0) lines.push('_No crashes found._');
+  report.crashes.forEach((c, i) => {
+    const location = crashLocation(c);
+    lines.push(
+      `### ${i + 1}. ${c.error.split('\n')[0]}`,
+      '',
+      `Severity **${c.severity}**${location ? ` at \`${location}\`` : ''}${c.testName ? ` in test _${c.testName}_` : ''}` +
+        crashCounts(c).map((count) => `, ${count}`).join('')
+    );
+    if (c.stepsToReproduce.length > 0) {
+      lines.push('', 'Steps to reproduce:', '', ...c.stepsToReproduce.map((step, n) => `${n + 1}. ${step}`));
+    }
+    if (c.stackTrace) lines.push('', '```', c.stackTrace, '```');
+    lines.push('');
+  });
+
+  if (report.quarantine.length > 0) {
+    lines.push('## Quarantined flaky crashes', '', 'Not patched: these did not reproduce on every re-run of their test.', '');
+    for (const c of report.quarantine) {
+      const counts = crashCounts(c);
+      lines.push(
+        `- ${c.error.split('\n')[0]}${c.testName ? ` in test _${c.testName}_` : ''}` +
+          (counts.length > 0 ? ` (${counts.join(', ')})` : '')
+      );
+    }
+    lines.push('');
+  }
+
+  lines.push('## Orphaned features', '');
+  if (report.orphanedFeatures.length === 0) lines.push('_None found._');
+  for (const f of report.orphanedFeatures) {
+    lines.push(`- \`${f.file}\` (${f.status.toLowerCase().replace(/_/g, ' ')}) — ${f.inferredPurpose}. ${f.suggestedAction}`);
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const HTML_STYLES = `
+body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #18181b; }
+h1 { font-size: 1.5rem; } h2 { margin-top: 2rem; border-bottom: 1px solid #e4e4e7; padding-bottom: .25rem; }
+table { border-collapse: collapse; } td, th { border: 1px solid #e4e4e7; padding: .25rem .75rem; text-align: left; }
+.muted { color: #71717a; } .badge { border-radius: 9999px; padding: 0 .5rem; font-size: 12px; }
+.verified { background: #dcfce7; } .failed { background: #fee2e2; } .rolled-back { background: #fef3c7; }
+pre { background: #fafafa; border: 1px solid #e4e4e7; padding: .5rem; overflow-x: auto; font-size: 12px; }
+.diff span { display: block; white-space: pre; } .add { background: #dcfce7; } .del { background: #fee2e2; } .hunk { color: #6366f1; }
+`;
+
+/**
+ * Self-contained HTML report (inline styles, no scripts or external assets).
+ */
+export function renderDreamReportHtml(log: DreamLog): string {
+  const report = buildDreamReport(log);
+  const body: string[] = [
+    `<h1>${escapeHtml(report.title)}</h1>`,
+    `<p class="muted">Profile <strong>${escapeHtml(report.profile)}</strong>, ended: <strong>${escapeHtml(report.stopReason)}</strong> ` +
+      `(${formatDate(report.startedAt)} → ${formatDate(report.endedAt)})</p>`,
+  ];
+
+  if (report.autoCommit) {
+    const { branch, pullRequestUrl, error } = report.autoCommit;
+    body.push(
+      error
+        ? `<p>Auto-commit to <code>${escapeHtml(branch)}</code> failed: ${escapeHtml(error)}</p>`
+        : `<p>Verified patches pushed to <code>${escapeHtml(branch)}</code>` +
+            (pullRequestUrl ? ` — <a href="${escapeHtml(pullRequestUrl)}">${escapeHtml(pullRequestUrl)}</a>` : '') +
+            '</p>'
+    );
+  }
+
+  body.push(table(['', ''], report.summary));
+
+  if (report.phases.length > 0) {
+    const withCost = hasPhaseCost(report);
+    body.push(
+      '<h2>Time and budget by phase</h2>',
+      table(
+        ['Phase', 'Time', 'Share', 'Visits', 'Fixes', ...(withCost ? ['Cost'] : [])],
+        report.phases.map((p) => [
+          p.label,
+          formatDuration(p.durationMs),
+          `${Math.round(p.share * 100)}%`,
+          String(p.visits),
+          String(p.fixesUsed),
+          ...(withCost ? [formatUsd(p.costUsd ?? 0)] : []),
+        ])
+      )
+    );
+  }
+
+  const goalItems = [
+    ...report.goals.completed.map((g) => `<li>✅ ${escapeHtml(g.prompt)} <span class="muted">(${g.source})</span></li>`),
+    ...report.goals.failed.map(
+      (g) =>
+        `<li>❌ ${escapeHtml(g.prompt)} <span class="muted">(${g.source})</span>` +
+        (g.errorMessage ? ` — ${escapeHtml(g.errorMessage)}` : '') +
+        '</li>'
+    ),
+    ...report.goals.unfinished.map(
+      (g) => `<li>⏸ ${escapeHtml(g.prompt)} <span class="muted">(${g.source}, not reached)</span></li>`
+    ),
+  ];
+  body.push('<h2>Goals</h2>', goalItems.length > 0 ? `<ul>${goalItems.join('')}</ul>` : '<p class="muted">No goals this cycle.</p>');
+
+  body.push('<h2>Patches</h2>');
+  if (report.patches.length === 0) body.push('<p class="muted">No patches this cycle.</p>');
+  report.patches.forEach((p, i) => {
+    const statusClass = p.status === 'verified' ? 'verified' : p.status === 'rolled back' ? 'rolled-back' : 'failed';
+    body.push(
+      `<h3>${i + 1}. ${escapeHtml(p.title)}</h3>`,
+      `<p>${p.kind} <span class="badge ${statusClass}">${p.status}</span> <span class="muted">${formatDate(p.appliedAt)}</span></p>`,
+      ...(p.revertReason ? [`<blockquote>${escapeHtml(p.revertReason)}</blockquote>`] : []),
+      ...p.diffs.map((d) => `<pre class="diff">${d.diff.split('\n').map(diffLineHtml).join('')}</pre>`)
+    );
+  });
+
+  body.push('<h2>Crashes</h2>');
+  if (report.crashes.length === 0) body.push('<p class="muted">No crashes found.</p>');
+  report.crashes.forEach((c, i) => {
+    const location = crashLocation(c);
+    body.push(
+      `<h3>${i + 1}. ${escapeHtml(c.error.split('\n')[0])}</h3>`,
+      `<p>Severity <strong>${c.severity}</strong>` +
+        (location ? ` at <code>${escapeHtml(location)}</code>` : '') +
+        (c.testName ? ` in test <em>${escapeHtml(c.testName)}</em>` : '') +
+        crashCounts(c).map((count) => `, ${count}`).join('') +
+        '</p>',
+      ...(c.stepsToReproduce.length > 0
+        ? [`<ol>${c.stepsToReproduce.map((step) => `<li>${escapeHtml(step)}</li>`).join('')}</ol>`]
+        : []),
+      ...(c.stackTrace ? [`<pre>${escapeHtml(c.stackTrace)}</pre>`] : [])
+    );
+  });
+
+  if (report.quarantine.length > 0) {
+    body.push(
+      '<h2>Quarantined flaky crashes</h2>',
+      '<p class="muted">Not patched: these did not reproduce on every re-run of their test.</p>',
+      `<ul>${report.quarantine
+        .map((c) => {
+          const counts = crashCounts(c);
+          return (
+            `<li>${escapeHtml(c.error.split('\n')[0])}` +
+            (c.testName ? ` in test <em>${escapeHtml(c.testName)}</em>` : '') +
+            (counts.length > 0 ? ` <span class="muted">(${counts.join(', ')})</span>` : '') +
+            '</li>'
+          );
+        })
+        .join('')}</ul>`
+    );
+  }
+
+  body.push('<h2>Orphaned features</h2>');
+  body.push(
+    report.orphanedFeatures.length > 0
+      ? `<ul>${report.orphanedFeatures
+          .map(
+            (f) =>
+              `<li><code>${escapeHtml(f.file)}</code> <span class="muted">(${f.status.toLowerCase().replace(/_/g, ' ')})</span> — ` +
+              `${escapeHtml(f.inferredPurpose)}. ${escapeHtml(f.suggestedAction)}</li>`
+          )
+          .join('')}</ul>`
+      : '<p class="muted">None found.</p>'
+  );
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(report.title)}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function table(headers: string[], rows: string[][]): string {
+  const head = headers.some(Boolean) ? `<tr>${headers.map((h) => `<th>${escapeHtml(h)}</th>`).join('')}</tr>` : '';
+  const cells = rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`);
+  return `<table>${head}${cells.join('')}</table>`;
+}
+
+function diffLineHtml(line: string): string {
+  const cls = line.startsWith('@@')
+    ? 'hunk'
+    : line.startsWith('+') && !line.startsWith('+++')
+      ? 'add'
+      : line.startsWith('-') && !line.startsWith('---')
+        ? 'del'
+        : '';
+  return `<span${cls ? ` class="${cls}"` : ''}>${escapeHtml(line) || ' '}</span>`;
+}
+
+/**
+ * Download name for a report: `dream-report-<repo>-<date>.<ext>`.
+ */
+export function dreamReportFilename(log: DreamLog, extension: 'md' | 'html'): string {
+  const repo = log.repoUrl.replace(/^[a-z]+:\/\//, '').replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `dream-report-${repo}-${new Date(log.startedAt).toISOString().slice(0, 10)}.${extension}`;
+}
@@ -1,17 +1,129 @@
 import JSZip from 'jszip';
-import { extractDependencies } from '@/utils/extractDependencies';
+import { findAppFile, isEntryFile } from '@/utils/projectFiles';
+import { CURATED_VERSIONS, type CuratedPackage } from '@/config/curated-versions';
+import { toTailwindThemeExtend } from '@/utils/designTokens';
+import type { DesignTokenSet } from '@/types/designTokens';
+import type { GitDirectoryFile } from '@/types/gitHistory';
 
 export interface AppFile {
   path: string;
   content: string;
 }
 
+/**
+ * Export profiles:
+ * - vite: Vite + React SPA (index.html → src/main.tsx → App)
+ * - next-app: Next.js App Router (src/app/layout.tsx + page.tsx rendering App)
+ * - static-html: a single index.html (React/Tailwind from CDN, no build step)
+ */
+export type ExportProfile = 'vite' | 'next-app' | 'static-html';
+
+/** What the generated files look like, as detected by detectProjectShape */
+export interface ProjectShape {
+  /** A React SPA rooted at App.tsx, or an existing Next App Router tree */
+  kind: 'react-spa' | 'next-app';
+  /** Path of the root App component (react-spa) */
+  appPath?: string;
+  /** Whether sources already live under /src */
+  usesSrcDir: boolean;
+  /** Whether any source file is TypeScript */
+  typescript: boolean;
+  /** Profile used when the caller does not pick one */
+  defaultProfile: ExportProfile;
+  /** Profiles that can export this shape */
+  supportedProfiles: ExportProfile[];
+}
+
 export interface ExportOptions {
   appName: string;
   files: AppFile[];
+  /** Defaults to the detected shape's defaultProfile */
+  profile?: ExportProfile;
   includePackageJson?: boolean;
   includeReadme?: boolean;
   includeEnvExample?: boolean;
+  /** Design tokens — written as src/styles/tokens.css and tokens.json, and wired into Tailwind */
+  designTokens?: DesignTokenSet;
+  /**
+   * Project history as a raw `.git` directory whose HEAD holds the exported
+   * files, given those files (GitHistoryService.exportGitDirectory)
+   */
+  gitDirectory?: (exportedFiles: AppFile[]) => Promise<GitDirectoryFile[]>;
+}
+
+// ============================================================================
+// PROJECT SHAPE
+// ============================================================================
+
+const NEXT_APP_ROUTE_REGEX = /^\/(src\/)?app\/(.*\/)?(page|layout)\.(tsx|jsx|ts|js)$/;
+const NEXT_IMPORT_REGEX = /\bfrom\s+['"]next(\/[^'"]*)?['"]/;
+
+/**
+ * Detect the project shape from generated files. Builder and layout output
+ * is a React SPA (App.tsx + components); full-app generation may produce an
+ * App Router tree, which can only be exported as a Next app.
+ */
+export function detectProjectShape(files: AppFile[]): ProjectShape {
+  const usesSrcDir = files.some((f) => f.path.startsWith('/src/'));
+  const typescript = files.some((f) => /\.tsx?$/.test(f.path));
+  const isNextApp = files.some(
+    (f) => NEXT_APP_ROUTE_REGEX.test(f.path) || NEXT_IMPORT_REGEX.test(f.content)
+  );
+
+  if (isNextApp) {
+    return {
+      kind: 'next-app',
+      usesSrcDir,
+      typescript,
+      defaultProfile: 'next-app',
+      supportedProfiles: ['next-app'],
+    };
+  }
+
+  return {
+    kind: 'react-spa',
+    appPath: findAppFile(files)?.path,
+    usesSrcDir,
+    typescript,
+    defaultProfile: 'vite',
+    supportedProfiles: ['vite', 'next-app', 'static-html'],
+  };
+}
+
+/**
+ * Source files to ship for a React SPA: paths move under /src, and the
+ * preview-only entry bootstrap and inspector bridge are dropped (each
+ * profile writes its own entry).
+ */
+export function toSpaSourceFiles(files: AppFile[], shape: ProjectShape): AppFile[] {
+  return files
+    .filter((f) => !isEntryFile(f.path) && !/\/inspector\.(tsx|jsx|ts|js)$/.test(f.path))
+    .map((f) => ({
+      path: shape.usesSrcDir || f.path.startsWith('/public/') ? f.path : `/src${f.path}`,
+      content: f.content,
+    }));
+}
+
+/** Import specifier for the App component, relative to /src */
+function appImportPath(shape: ProjectShape, fromDir: string): string {
+  const appPath = shape.appPath
+    ? shape.usesSrcDir
+      ? shape.appPath
+      : `/src${shape.appPath}`
+    : '/src/App.tsx';
+  const target = appPath.replace(/\.(tsx|jsx|ts|js)$/, '');
+  const up = fromDir.split('/').filter(Boolean).length - 1;
+  const relative = target.replace(/^\/src\//, '');
+  return up > 0 ? `${'../'.repeat(up)}${relative}` : `./${relative}`;
+}
+
+// ============================================================================
+// PACKAGE.JSON
+// ============================================================================
+
+/** Pinned version for a toolchain/runtime package */
+function versionOf(pkg: CuratedPackage): string {
+  return CURATED_VERSIONS[pkg];
 }
 
 /**
@@ -20,58 +132,89 @@ export interface ExportOptions {
  * @param appName - Display name of the app
  * @param extraDependencies - Additional npm packages to include
  *        (e.g. extracted from generated code imports)
+ * @param profile - Export profile (decides scripts and toolchain)
  */
 export function generatePackageJson(
   appName: string,
-  extraDependencies?: Record<string, string>
+  extraDependencies?: Record<string, string>,
+  profile: ExportProfile = 'next-app'
 ): string {
+  const isVite = profile === 'vite';
+
+  const dependencies: Record<string, string> = {
+    ...extraDependencies,
+    ...(isVite ? {} : { next: versionOf('next') }),
+    react: versionOf('react'),
+    'react-dom': versionOf('react-dom'),
+  };
+
+  const devDependencies: Record<string, string> = {
+    ...(isVite
+      ? { vite: versionOf('vite'), '@vitejs/plugin-react': versionOf('@vitejs/plugin-react') }
+      : { '@types/node': versionOf('@types/node') }),
+    '@types/react': versionOf('@types/react'),
+    '@types/react-dom': versionOf('@types/react-dom'),
+    autoprefixer: versionOf('autoprefixer'),
+    postcss: versionOf('postcss'),
+    tailwindcss: versionOf('tailwindcss'),
+    typescript: versionOf('typescript'),
+  };
+  for (const name of Object.keys(devDependencies)) delete dependencies[name];
+
   const packageJson = {
-    name: appName.toLowerCase().replace(/\s+/g, '-'),
+    name: appName.toLowerCase().replace(/[^a-z0-9-_]+/g, '-').replace(/^-+|-+$/g, '') || 'app',
     version: '0.1.0',
     private: true,
-    scripts: {
-      dev: 'next dev',
-      build: 'next build',
-      start: 'next start',
-      lint: 'next lint',
-    },
-    dependencies: {
-      react: '^18.2.0',
-      'react-dom': '^18.2.0',
-      next: '13.5.4',
-      typescript: '^5',
-      '@types/node': '^20',
-      '@types/react': '^18',
-      '@types/react-dom': '^18',
-      tailwindcss: '^3.3.0',
-      postcss: '^8',
-      autoprefixer: '^10',
-      ...extraDependencies,
-    },
-    devDependencies: {
-      '@types/node': '^20',
-      '@types/react': '^18',
-      '@types/react-dom': '^18',
-      eslint: '^8',
-      'eslint-config-next': '13.5.4',
-      typescript: '^5',
-    },
+    ...(isVite ? { type: 'module' } : {}),
+    scripts: isVite
+      ? {
+          dev: 'vite',
+          build: 'vite build',
+          preview: 'vite preview',
+          typecheck: 'tsc --noEmit',
+        }
+      : {
+          dev: 'next dev',
+          build: 'next build',
+          start: 'next start',
+        },
+    dependencies: sortKeys(dependencies),
+    devDependencies: sortKeys(devDependencies),
   };
 
   return JSON.stringify(packageJson, null, 2);
 }
 
-/**
- * Generate README.md for the exported app
- */
-export function generateReadme(appName: string): string {
-  return `# ${appName}
+function sortKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
 
-This is a Next.js application generated with AI App Builder.
+// ============================================================================
+// DOCS
+// ============================================================================
 
-## Getting Started
+const GETTING_STARTED: Record<ExportProfile, { stack: string; run: string }> = {
+  vite: {
+    stack: 'a React application built with Vite',
+    run: `First, install the dependencies:
 
-First, install the dependencies:
+\`\`\`bash
+npm install
+\`\`\`
+
+Then, run the development server:
+
+\`\`\`bash
+npm run dev
+\`\`\`
+
+Open [http://localhost:5173](http://localhost:5173) with your browser to see the result.
+
+Build for production with \`npm run build\` — the static site is written to \`dist/\`.`,
+  },
+  'next-app': {
+    stack: 'a Next.js (App Router) application',
+    run: `First, install the dependencies:
 
 \`\`\`bash
 npm install
@@ -91,13 +234,43 @@ yarn dev
 pnpm dev
 \`\`\`
 
-Open [http://localhost:3000](http://localhost:3000) with your browser to see the result.
+Open [http://localhost:3000](http://localhost:3000) with your browser to see the result.`,
+  },
+  'static-html': {
+    stack: 'a static HTML page',
+    run: `Open \`index.html\` in a browser — there is nothing to install.
+
+React, Tailwind CSS and Babel load from public CDNs and the components are
+compiled in the browser, so the page needs an internet connection. For a
+production build, export the project with the Vite or Next.js profile instead.`,
+  },
+};
+
+/**
+ * Generate README.md for the exported app
+ */
+export function generateReadme(appName: string, profile: ExportProfile = 'next-app'): string {
+  const { stack, run } = GETTING_STARTED[profile];
+  const learnMore =
+    profile === 'vite'
+      ? 'To learn more about Vite, check out the [Vite Documentation](https://vite.dev/guide/).'
+      : profile === 'next-app'
+        ? 'To learn more about Next.js, check out the [Next.js Documentation](https://nextjs.org/docs).'
+        : 'Any static host (Netlify Drop, GitHub Pages, S3) can serve `index.html` as-is.';
+
+  return `# ${appName}
+
+This is ${stack} generated with AI App Builder.
+
+## Getting Started
+
+${run}
 
 ## Deployment
 
 ### Deploy to Vercel
 
-The easiest way to deploy your Next.js app is to use the [Vercel Platform](https://vercel.com/new).
+The easiest way to deploy your app is to use the [Vercel Platform](https://vercel.com/new).
 
 [![Deploy with Vercel](https://vercel.com/button)](https://vercel.com/new/clone?repository-url=YOUR_REPO_URL)
 
@@ -109,7 +282,7 @@ You can also deploy to Netlify:
 
 ## Learn More
 
-To learn more about Next.js, check out the [Next.js Documentation](https://nextjs.org/docs).
+${learnMore}
 
 ---
 
@@ -120,16 +293,24 @@ Generated by AI App Builder
 /**
  * Generate .env.example file
  */
-export function generateEnvExample(): string {
+export function generateEnvExample(profile: ExportProfile = 'next-app'): string {
+  const example =
+    profile === 'vite'
+      ? '# VITE_API_URL=   (only VITE_-prefixed variables reach the browser)'
+      : '# NEXT_PUBLIC_API_URL=\n# DATABASE_URL=';
+
   return `# Environment Variables
 # Copy this file to .env.local and fill in your values
 
 # Add your environment variables here
-# NEXT_PUBLIC_API_URL=
-# DATABASE_URL=
+${example}
 `;
 }
 
+// ============================================================================
+// CONFIG FILES
+// ============================================================================
+
 /**
  * Generate next.config.js
  */
@@ -137,8 +318,9 @@ export function generateNextConfig(): string {
   return `/** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
-  images: {
-    domains: ['localhost'],
+  // No ESLint config is exported, so don't lint during \`next build\`
+  eslint: {
+    ignoreDuringBuilds: true,
   },
 }
 
@@ -146,13 +328,52 @@ module.exports = nextConfig
 `;
 }
 
+/**
+ * Generate vite.config.ts
+ */
+export function generateViteConfig(): string {
+  return `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: { '@': '/src' },
+  },
+});
+`;
+}
+
 /**
  * Generate tsconfig.json
  */
-export function generateTsConfig(): string {
+export function generateTsConfig(profile: ExportProfile = 'next-app'): string {
+  if (profile === 'vite') {
+    return `{
+  "compilerOptions": {
+    "target": "ES2020",
+    "useDefineForClassFields": true,
+    "lib": ["ES2020", "DOM", "DOM.Iterable"],
+    "module": "ESNext",
+    "skipLibCheck": true,
+    "moduleResolution": "bundler",
+    "resolveJsonModule": true,
+    "isolatedModules": true,
+    "noEmit": true,
+    "jsx": "react-jsx",
+    "strict": true,
+    "paths": {
+      "@/*": ["./src/*"]
+    }
+  },
+  "include": ["src"]
+}
+`;
+  }
+
   return `{
   "compilerOptions": {
-    "target": "es5",
+    "target": "ES2017",
     "lib": ["dom", "dom.iterable", "esnext"],
     "allowJs": true,
     "skipLibCheck": true,
@@ -180,19 +401,43 @@ export function generateTsConfig(): string {
 `;
 }
 
+/** Tailwind content globs per profile */
+const TAILWIND_CONTENT: Record<Exclude<ExportProfile, 'static-html'>, string[]> = {
+  vite: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
+  'next-app': [
+    './src/**/*.{js,ts,jsx,tsx,mdx}',
+    './app/**/*.{js,ts,jsx,tsx,mdx}',
+    './components/**/*.{js,ts,jsx,tsx,mdx}',
+  ],
+};
+
+/** `export default` for Vite (package type: module), `module.exports` for Next */
+function configExport(profile: ExportProfile): string {
+  return profile === 'vite' ? 'export default' : 'module.exports =';
+}
+
 /**
  * Generate tailwind.config.js
+ *
+ * @param tokens - Design tokens to expose as theme.extend (values reference
+ *        the CSS variables in src/styles/tokens.css)
+ * @param profile - Export profile (decides content globs and module format)
  */
-export function generateTailwindConfig(): string {
+export function generateTailwindConfig(
+  tokens?: DesignTokenSet,
+  profile: Exclude<ExportProfile, 'static-html'> = 'next-app'
+): string {
+  const extend = tokens ? toTailwindThemeExtend(tokens) : {};
+  const extendCode = JSON.stringify(extend, null, 2).replace(/\n/g, '\n    ');
+  const content = TAILWIND_CONTENT[profile].map((glob) => `    '${glob}',`).join('\n');
+
   return `/** @type {import('tailwindcss').Config} */
-module.exports = {
+${configExport(profile)} {
   content: [
-    './src/pages/**/*.{js,ts,jsx,tsx,mdx}',
-    './src/components/**/*.{js,ts,jsx,tsx,mdx}',
-    './src/app/**/*.{js,ts,jsx,tsx,mdx}',
+${content}
   ],
   theme: {
-    extend: {},
+    extend: ${extendCode},
   },
   plugins: [],
 }
@@ -202,8 +447,8 @@ module.exports = {
 /**
  * Generate postcss.config.js
  */
-export function generatePostCssConfig(): string {
-  return `module.exports = {
+export function generatePostCssConfig(profile: ExportProfile = 'next-app'): string {
+  return `${configExport(profile)} {
   plugins: {
     tailwindcss: {},
     autoprefixer: {},
@@ -212,6 +457,99 @@ export function generatePostCssConfig(): string {
 `;
 }
 
+/**
+ * Generate the global stylesheet (Tailwind layers, plus the design tokens
+ * when they are exported).
+ *
+ * @param tokensImport - Relative path to tokens.css, if any
+ */
+export function generateGlobalCss(tokensImport?: string): string {
+  const tokens = tokensImport ? `@import '${tokensImport}';\n\n` : '';
+  return `${tokens}@tailwind base;
+@tailwind components;
+@tailwind utilities;
+`;
+}
+
+// ============================================================================
+// ENTRY FILES
+// ============================================================================
+
+/**
+ * Generate index.html for the Vite profile
+ */
+export function generateViteIndexHtml(appName: string, shape: ProjectShape): string {
+  const title = appName.replace(/[<>&]/g, '');
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.${shape.typescript ? 'tsx' : 'jsx'}"></script>
+  </body>
+</html>
+`;
+}
+
+/**
+ * Generate src/main.tsx for the Vite profile
+ */
+export function generateViteEntry(shape: ProjectShape): string {
+  const nonNull = shape.typescript ? '!' : '';
+  return `import React from 'react';
+import { createRoot } from 'react-dom/client';
+import App from '${appImportPath(shape, '/src')}';
+import './index.css';
+
+createRoot(document.getElementById('root')${nonNull}).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>
+);
+`;
+}
+
+/**
+ * Generate src/app/layout.tsx for the Next profile
+ */
+export function generateNextLayout(appName: string): string {
+  return `import type { Metadata } from 'next';
+import type { ReactNode } from 'react';
+import './globals.css';
+
+export const metadata: Metadata = {
+  title: ${JSON.stringify(appName)},
+};
+
+export default function RootLayout({ children }: { children: ReactNode }) {
+  return (
+    <html lang="en">
+      <body>{children}</body>
+    </html>
+  );
+}
+`;
+}
+
+/**
+ * Generate src/app/page.tsx for the Next profile. Generated components use
+ * hooks and browser APIs, so the page renders App as a client component.
+ */
+export function generateNextPage(shape: ProjectShape): string {
+  return `'use client';
+
+import App from '${appImportPath(shape, '/src/app')}';
+
+export default function Page() {
+  return <App />;
+}
+`;
+}
+
 /**
  * Generate .gitignore
  */
@@ -230,6 +568,7 @@ export function generateGitIgnore(): string {
 
 # production
 /build
+/dist
 
 # misc
 .DS_Store
@@ -252,44 +591,33 @@ next-env.d.ts
 `;
 }
 
+// ============================================================================
+// ZIP
+// ============================================================================
+
 /**
- * Export app as a downloadable ZIP file
+ * Zip a set of project files (leading slashes stripped, so nested folders
+ * unzip in place).
  */
-export async function exportAppAsZip(options: ExportOptions): Promise<Blob> {
+export async function zipProjectFiles(
+  files: Array<AppFile | GitDirectoryFile>
+): Promise<Blob> {
   const zip = new JSZip();
-
-  // Add app files
-  options.files.forEach((file) => {
-    zip.file(file.path, file.content);
-  });
-
-  // Add package.json (with dynamically extracted dependencies from generated code)
-  if (options.includePackageJson !== false) {
-    const extraDeps = extractDependencies(options.files);
-    zip.file('package.json', generatePackageJson(options.appName, extraDeps));
-  }
-
-  // Add README.md
-  if (options.includeReadme !== false) {
-    zip.file('README.md', generateReadme(options.appName));
-  }
-
-  // Add .env.example
-  if (options.includeEnvExample !== false) {
-    zip.file('.env.example', generateEnvExample());
+  for (const file of files) {
+    zip.file(file.path.replace(/^\/+/, ''), file.content);
   }
-
-  // Add configuration files
-  zip.file('next.config.js', generateNextConfig());
-  zip.file('tsconfig.json', generateTsConfig());
-  zip.file('tailwind.config.js', generateTailwindConfig());
-  zip.file('postcss.config.js', generatePostCssConfig());
-  zip.file('.gitignore', generateGitIgnore());
-
-  // Generate the ZIP
   return await zip.generateAsync({ type: 'blob' });
 }
 
+/**
+ * Export app as a downloadable ZIP file using its export profile.
+ * Delegates to ExportService (loaded lazily, since it builds on this module).
+ */
+export async function exportAppAsZip(options: ExportOptions): Promise<Blob> {
+  const { getExportService } = await import('@/services/ExportService');
+  return getExportService().exportAppAsZip(options);
+}
+
 /**
  * Download a blob as a file
  */
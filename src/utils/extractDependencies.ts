@@ -86,7 +86,8 @@ export function extractDependencies(
 
   const result: Record<string, string> = {};
   for (const pkg of packages) {
-    if (!TEMPLATE_BUILTINS.has(pkg)) {
+    // `@/…` is the project's own path alias, not a scoped package
+    if (!TEMPLATE_BUILTINS.has(pkg) && !pkg.startsWith('@/')) {
       result[pkg] =
         (CURATED_VERSIONS as Record<string, string>)[pkg] ?? 'latest';
     }
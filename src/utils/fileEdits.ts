@@ -0,0 +1,297 @@
+/**
+ * File Edit Protocol
+ *
+ * Coders describe a change to a loaded project as a typed edit set instead of
+ * whole files separated by comment markers:
+ *
+ *   {"edits": [
+ *     {"op": "patch", "path": "/src/App.tsx", "hunks": [{"search": "<Header />", "replace": "<Header sticky />"}]},
+ *     {"op": "create", "path": "/src/components/Badge.tsx", "content": "..."},
+ *     {"op": "rename", "path": "/src/utils.ts", "to": "/src/lib/utils.ts"},
+ *     {"op": "delete", "path": "/src/legacy.ts"}
+ *   ]}
+ *
+ * An edit set is applied all-or-nothing: each edit is checked against the
+ * files as left by the edits before it, and any failure rejects the whole set
+ * with the original files untouched.
+ */
+
+import type { AppFile } from '@/types/railway';
+import type { EditHunk, FileEdit, FileEditOp } from '@/types/autonomy';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FileEditOptions {
+  /**
+   * Top-level directories new files may be created in
+   * (default: the top-level directories of the loaded files)
+   */
+  roots?: string[];
+}
+
+export interface FileEditResult {
+  /** The complete file set after the edits */
+  files: AppFile[];
+  /** Files created or changed, with their new content */
+  written: AppFile[];
+  /** Paths that no longer exist (deleted or renamed away) */
+  removed: string[];
+}
+
+const OPS: ReadonlySet<FileEditOp> = new Set(['create', 'replace', 'patch', 'rename', 'delete']);
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse coder output as an edit set.
+ * Returns null if the output is not an `{"edits": [...]}` object (e.g. a plain
+ * code file); throws if it is one but an edit is malformed.
+ */
+export function parseFileEdits(output: string): FileEdit[] | null {
+  // The outermost braces skip any fence or chatter around the JSON
+  const start = output.indexOf('{');
+  const end = output.lastIndexOf('}');
+  if (start === -1 || end < start) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  if (!isRecord(parsed) || !Array.isArray(parsed.edits)) return null;
+
+  return parsed.edits.map((edit: unknown, i: number) => {
+    if (!isFileEdit(edit)) {
+      throw new Error(`[fileEdits] Edit ${i + 1} is malformed: ${JSON.stringify(edit).slice(0, 200)}`);
+    }
+    return edit;
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isHunk(value: unknown): value is EditHunk {
+  return isRecord(value) && typeof value.search === 'string' && typeof value.replace === 'string';
+}
+
+function isFileEdit(value: unknown): value is FileEdit {
+  if (!isRecord(value) || typeof value.path !== 'string' || !OPS.has(value.op as FileEditOp)) {
+    return false;
+  }
+  switch (value.op as FileEditOp) {
+    case 'create':
+    case 'replace':
+      return typeof value.content === 'string';
+    case 'patch':
+      return Array.isArray(value.hunks) && value.hunks.length > 0 && value.hunks.every(isHunk);
+    case 'rename':
+      return typeof value.to === 'string';
+    case 'delete':
+      return true;
+  }
+}
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+/**
+ * Apply an edit set to a file set.
+ *
+ * Rejected (the whole set, listing every problem):
+ *   - paths that are not normalized absolute paths, or that are outside the
+ *     loaded tree (new files must go under one of `options.roots`)
+ *   - create/rename onto an existing path; any other op on a missing path
+ *   - patch hunks whose search text is empty, absent, or matches more than once
+ *
+ * `files` is not modified.
+ */
+export function applyFileEdits(
+  files: AppFile[],
+  edits: FileEdit[],
+  options: FileEditOptions = {}
+): FileEditResult {
+  const original = new Map(files.map((f) => [f.path, f.content]));
+  const next = new Map(original);
+  const roots = new Set(options.roots ?? [...original.keys()].map(topLevelDirectory).filter(Boolean));
+  const errors: string[] = [];
+
+  edits.forEach((edit, i) => {
+    const fail = (message: string) => errors.push(`edit ${i + 1} (${edit.op} ${edit.path}): ${message}`);
+    const checkNewPath = (path: string): boolean => {
+      const problem = pathProblem(path, roots);
+      if (problem) {
+        fail(problem);
+        return false;
+      }
+      if (next.has(path)) {
+        fail(`${path} already exists`);
+        return false;
+      }
+      return true;
+    };
+
+    if (edit.op === 'create') {
+      if (checkNewPath(edit.path)) next.set(edit.path, edit.content);
+      return;
+    }
+
+    const current = next.get(edit.path);
+    if (current === undefined) {
+      fail(original.has(edit.path) ? 'the file was removed by an earlier edit' : 'no such file in the loaded tree');
+      return;
+    }
+
+    switch (edit.op) {
+      case 'replace':
+        next.set(edit.path, edit.content);
+        break;
+      case 'patch': {
+        const patched = applyHunks(current, edit.hunks, fail);
+        if (patched !== null) next.set(edit.path, patched);
+        break;
+      }
+      case 'rename':
+        if (checkNewPath(edit.to)) {
+          next.delete(edit.path);
+          next.set(edit.to, current);
+        }
+        break;
+      case 'delete':
+        next.delete(edit.path);
+        break;
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`[fileEdits] Edit set rejected:\n${errors.map((e) => `- ${e}`).join('\n')}`);
+  }
+
+  return {
+    files: [...next].map(([path, content]) => ({ path, content })),
+    written: [...next]
+      .filter(([path, content]) => original.get(path) !== content)
+      .map(([path, content]) => ({ path, content })),
+    removed: [...original.keys()].filter((path) => !next.has(path)),
+  };
+}
+
+/**
+ * Apply hunks in order. Each search text must occur exactly once in the
+ * content as left by the previous hunk. Returns null if any hunk fails.
+ */
+function applyHunks(content: string, hunks: EditHunk[], fail: (message: string) => void): string | null {
+  let result = content;
+  let ok = true;
+
+  hunks.forEach((hunk, i) => {
+    const label = `hunk ${i + 1}`;
+    if (hunk.search.length === 0) {
+      fail(`${label} has an empty search text`);
+      ok = false;
+      return;
+    }
+    const first = result.indexOf(hunk.search);
+    if (first === -1) {
+      fail(`${label} search text does not match the file exactly`);
+      ok = false;
+      return;
+    }
+    if (result.indexOf(hunk.search, first + 1) !== -1) {
+      fail(`${label} search text matches more than once; include more surrounding lines`);
+      ok = false;
+      return;
+    }
+    result = result.slice(0, first) + hunk.replace + result.slice(first + hunk.search.length);
+  });
+
+  return ok ? result : null;
+}
+
+function topLevelDirectory(path: string): string {
+  const segments = path.split('/');
+  return segments.length > 2 ? `/${segments[1]}` : '';
+}
+
+/**
+ * Why a path may not be created, or null if it may.
+ */
+function pathProblem(path: string, roots: Set<string>): string | null {
+  const segments = path.split('/').slice(1);
+  if (
+    !path.startsWith('/') ||
+    path.includes('\\') ||
+    segments.some((s) => s === '' || s === '.' || s === '..')
+  ) {
+    return `${path} is not a normalized absolute path`;
+  }
+  const root = topLevelDirectory(path);
+  if (root && !roots.has(root)) {
+    return `${path} is outside the loaded tree (allowed: ${[...roots].join(', ') || 'top-level files only'})`;
+  }
+  return null;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * One-line summary for logs: `patch /src/App.tsx (2 hunks), create /src/Badge.tsx`.
+ */
+export function describeFileEdits(edits: FileEdit[]): string {
+  return edits
+    .map((edit) => {
+      switch (edit.op) {
+        case 'patch':
+          return `patch ${edit.path} (${edit.hunks.length} hunk${edit.hunks.length === 1 ? '' : 's'})`;
+        case 'rename':
+          return `rename ${edit.path} → ${edit.to}`;
+        default:
+          return `${edit.op} ${edit.path}`;
+      }
+    })
+    .join(', ');
+}
+
+/**
+ * Readable rendering of an edit set for reviewers and prompts: full contents
+ * for create/replace, SEARCH/REPLACE blocks for patches.
+ */
+export function formatFileEdits(edits: FileEdit[]): string {
+  return edits
+    .map((edit) => {
+      switch (edit.op) {
+        case 'create':
+        case 'replace':
+          return `// ${edit.op} ${edit.path}\n${edit.content}`;
+        case 'patch':
+          return [
+            `// patch ${edit.path}`,
+            ...edit.hunks.map((h) => `<<<<<<< SEARCH\n${h.search}\n=======\n${h.replace}\n>>>>>>> REPLACE`),
+          ].join('\n');
+        case 'rename':
+          return `// rename ${edit.path} → ${edit.to}`;
+        case 'delete':
+          return `// delete ${edit.path}`;
+      }
+    })
+    .join('\n\n');
+}
+
+/**
+ * Full file contents an edit set writes directly (create/replace), e.g. for
+ * syntax checks that cannot see the files patches apply to.
+ */
+export function fullContentEdits(edits: FileEdit[]): AppFile[] {
+  return edits.flatMap((edit) =>
+    edit.op === 'create' || edit.op === 'replace' ? [{ path: edit.path, content: edit.content }] : []
+  );
+}
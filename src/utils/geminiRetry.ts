@@ -1,35 +1,20 @@
 /**
  * Retry wrapper for Gemini API calls that handles 429 rate limits.
  * Parses the retry delay from Google's error response and waits accordingly.
+ * An aborted `signal` stops further attempts and interrupts the backoff wait.
+ *
+ * Thin specialisation of `withRetry` (utils/retry.ts); new code should go
+ * through the model gateway, which applies the uniform policy.
  */
-export async function withGeminiRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries = 2
-): Promise<T> {
-  let lastError: unknown;
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error: unknown) {
-      lastError = error;
-      if (attempt === maxRetries) throw error;
-
-      const delay = parseRetryDelay(error);
-      if (delay <= 0) throw error; // Not a rate limit — don't retry
 
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-  }
-  throw lastError; // unreachable, satisfies TS
-}
+import { withRetry, RATE_LIMIT_RETRY_POLICY } from './retry';
 
-/** Parse retry delay (ms) from Gemini 429 error. Returns 0 if not a rate limit error. */
-function parseRetryDelay(error: unknown): number {
-  const msg = error instanceof Error ? error.message : String(error);
-  if (!msg.includes('429') && !msg.includes('Too Many Requests')) return 0;
+export { abortableDelay } from './retry';
 
-  // Gemini format: "retryDelay":"21s" or "Please retry in 21.124101106s"
-  const match = msg.match(/retry\s*(?:in|Delay['"]:?\s*['"])?\s*([\d.]+)s/i);
-  const seconds = match ? parseFloat(match[1]) : 30; // default 30s if unparseable
-  return Math.ceil(seconds * 1000); // convert to ms
+export async function withGeminiRetry<T>(
+  fn: () => Promise<T>,
+  maxRetries = 2,
+  signal?: AbortSignal
+): Promise<T> {
+  return withRetry(fn, { ...RATE_LIMIT_RETRY_POLICY, maxRetries }, signal);
 }
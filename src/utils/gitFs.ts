@@ -0,0 +1,78 @@
+/**
+ * Git Working Tree Helpers
+ *
+ * Small fs operations shared by the isomorphic-git services. Works on any
+ * HistoryFs (lightning-fs in the browser, Node's fs in tests), which lacks
+ * recursive mkdir/rm.
+ */
+
+import type { HistoryFs } from '@/types/gitHistory';
+
+function hasErrorCode(error: unknown, code: string): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === code;
+}
+
+/**
+ * Repository directory for a key (project id), safe as a single path segment.
+ */
+export function repoDirectory(root: string, key: string): string {
+  return `${root}/${key.replace(/[^\w.-]/g, '_')}`;
+}
+
+/**
+ * `mkdir -p`
+ */
+export async function mkdirp(fs: HistoryFs, path: string): Promise<void> {
+  let current = '';
+  for (const segment of path.split('/').filter(Boolean)) {
+    current += `/${segment}`;
+    try {
+      await fs.promises.mkdir(current);
+    } catch (error) {
+      if (!hasErrorCode(error, 'EEXIST')) throw error;
+    }
+  }
+}
+
+/**
+ * `rm -rf`. Missing paths are ignored.
+ */
+export async function removeRecursive(fs: HistoryFs, path: string): Promise<void> {
+  let isDirectory: boolean;
+  try {
+    isDirectory = (await fs.promises.lstat(path)).isDirectory();
+  } catch (error) {
+    if (hasErrorCode(error, 'ENOENT')) return;
+    throw error;
+  }
+
+  if (isDirectory) {
+    for (const name of await fs.promises.readdir(path)) {
+      await removeRecursive(fs, `${path}/${name}`);
+    }
+    await fs.promises.rmdir(path);
+  } else {
+    await fs.promises.unlink(path);
+  }
+}
+
+/**
+ * Write AppFile-style files (leading slash optional) into a working tree.
+ * Returns the repository-relative paths written.
+ */
+export async function writeWorkingFiles(
+  fs: HistoryFs,
+  dir: string,
+  files: Array<{ path: string; content: string }>
+): Promise<Set<string>> {
+  const written = new Set<string>();
+
+  for (const file of files) {
+    const filepath = file.path.replace(/^\/+/, '');
+    await mkdirp(fs, `${dir}/${filepath}`.split('/').slice(0, -1).join('/'));
+    await fs.promises.writeFile(`${dir}/${filepath}`, file.content, 'utf8');
+    written.add(filepath);
+  }
+
+  return written;
+}
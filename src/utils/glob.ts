@@ -0,0 +1,68 @@
+/**
+ * Glob Matching
+ *
+ * Minimal gitignore-style globs for filtering repository paths:
+ *   *      any characters except '/'
+ *   **     any characters, including '/'
+ *   ?      one character except '/'
+ *   {a,b}  alternatives
+ *
+ * A pattern without a '/' matches at any depth ("*.md", "node_modules"), and a
+ * pattern that matches a directory matches everything inside it.
+ */
+
+const cache = new Map<string, RegExp>();
+
+function escapeRegExp(char: string): string {
+  return /[.+^$()|[\]\\]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Compile a glob to an anchored RegExp over '/'-separated relative paths.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const cached = cache.get(glob);
+  if (cached) return cached;
+
+  const pattern = glob.replace(/^\/+/, '').replace(/\/+$/, '');
+  let body = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const slashAfter = pattern[i + 2] === '/';
+        body += slashAfter ? '(?:.*/)?' : '.*';
+        i += slashAfter ? 2 : 1;
+      } else {
+        body += '[^/]*';
+      }
+    } else if (char === '?') {
+      body += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      body += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      body += ')';
+    } else if (char === ',' && inGroup) {
+      body += '|';
+    } else {
+      body += escapeRegExp(char);
+    }
+  }
+
+  const anywhere = !glob.startsWith('/') && !pattern.includes('/');
+  const regex = new RegExp(`^${anywhere ? '(?:.*/)?' : ''}${body}(?:/.*)?$`);
+  cache.set(glob, regex);
+  return regex;
+}
+
+/**
+ * Whether a relative path matches any of the globs.
+ */
+export function matchesAnyGlob(path: string, globs: string[]): boolean {
+  const relative = path.replace(/^\/+/, '');
+  return globs.some((glob) => globToRegExp(glob).test(relative));
+}
@@ -0,0 +1,104 @@
+/**
+ * Hunk Review
+ *
+ * Turns proposed AppFile[] (pipeline or live-edit output) into reviewable
+ * FileChange[] and applies only the approved hunks back onto the current
+ * files. Hunks come from lineDiff; pending and rejected hunks keep the
+ * original lines.
+ */
+
+import type { AppFile } from '@/types/railway';
+import type { FileChange } from '@/types/review';
+import { diffFileChange, splitLines } from '@/utils/lineDiff';
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Per-file changes from `current` to `proposed`, in proposed-file order
+ * followed by deleted files. Unchanged files are omitted.
+ */
+export function diffFiles(current: AppFile[], proposed: AppFile[]): FileChange[] {
+  const before = new Map(current.map((f) => [f.path, f.content]));
+  const after = new Map(proposed.map((f) => [f.path, f.content]));
+  const paths = [...after.keys(), ...[...before.keys()].filter((path) => !after.has(path))];
+
+  return paths.flatMap((path) => diffFileChange(path, before.get(path), after.get(path)) ?? []);
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+/**
+ * Content of a file after applying only its approved hunks, or undefined
+ * when the file should not exist (a created file with nothing approved, or
+ * a deleted file with everything approved).
+ */
+export function applyApprovedHunks(change: FileChange): string | undefined {
+  const original = change.originalContent;
+  const modified = change.modifiedContent;
+  const approved = change.hunks.filter((h) => h.status === 'approved').length;
+
+  if (approved === change.hunks.length) return modified;
+  if (approved === 0) return original;
+
+  const source = splitLines(original ?? '');
+  const output: string[] = [];
+  // Lines between hunks are unchanged, so both sides advance together there
+  let originalLine = 0;
+  let modifiedLine = 0;
+
+  for (const hunk of change.hunks) {
+    const gap =
+      hunk.originalStartLine !== undefined
+        ? hunk.originalStartLine - 1 - originalLine
+        : hunk.startLine - 1 - modifiedLine;
+    output.push(...source.slice(originalLine, originalLine + gap));
+    originalLine += gap;
+    modifiedLine += gap;
+
+    const accept = hunk.status === 'approved';
+    for (const line of hunk.lines) {
+      if (line.type === 'unchanged') {
+        output.push(source[originalLine]);
+        originalLine++;
+        modifiedLine++;
+      } else if (line.type === 'removed') {
+        if (!accept) output.push(line.content);
+        originalLine++;
+      } else {
+        if (accept) output.push(line.content);
+        modifiedLine++;
+      }
+    }
+  }
+  output.push(...source.slice(originalLine));
+
+  const trailingNewline = (modified ?? original ?? '').endsWith('\n');
+  return output.length > 0 ? output.join('\n') + (trailingNewline ? '\n' : '') : '';
+}
+
+/**
+ * Apply the approved hunks of `changes` to `files`. Files keep their order;
+ * created files are appended and deleted files removed.
+ */
+export function applyApprovedChanges(files: AppFile[], changes: FileChange[]): AppFile[] {
+  const byPath = new Map(changes.map((c) => [c.path, c]));
+  const result = files.flatMap((file) => {
+    const change = byPath.get(file.path);
+    if (!change) return [file];
+    const content = applyApprovedHunks(change);
+    return content === undefined ? [] : [{ ...file, content }];
+  });
+
+  const existing = new Set(files.map((f) => f.path));
+  for (const change of changes) {
+    if (existing.has(change.path)) continue;
+    const content = applyApprovedHunks(change);
+    if (content !== undefined) result.push({ path: change.path, content });
+  }
+
+  return result;
+}
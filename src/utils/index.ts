@@ -4,5 +4,5 @@
  * Re-exports utility functions from the utils directory.
  */
 
-export { exportAppAsZip } from './exportApp';
+export { detectProjectShape, exportAppAsZip, zipProjectFiles } from './exportApp';
 export { saveSettings, loadSettings, clearSettings } from './settingsStorage';
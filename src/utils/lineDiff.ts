@@ -0,0 +1,308 @@
+/**
+ * Line Diff
+ *
+ * Myers line diff producing the review types (DiffLine, DiffHunk, FileChange)
+ * consumed by EnhancedDiffViewer.
+ *
+ * Common prefix and suffix lines are trimmed before diffing; if the remaining
+ * edit distance exceeds MAX_EDIT_DISTANCE the middle is treated as a full
+ * replacement instead of searching for the shortest edit script.
+ */
+
+import type {
+  ChangeCategory,
+  DiffHunk,
+  DiffLine,
+  FileChange,
+  RiskLevel,
+} from '@/types/review';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DEFAULT_CONTEXT_LINES = 3;
+const MAX_EDIT_DISTANCE = 1000;
+
+/** Changed-line counts at which a file change becomes medium / high risk */
+const MEDIUM_RISK_LINES = 20;
+const HIGH_RISK_LINES = 100;
+
+const CONFIG_FILE_REGEX =
+  /(^|\/)(tsconfig[^/]*\.json|[^/]+\.config\.(js|cjs|mjs|ts)|\.env[^/]*|\.gitignore|\.eslintrc[^/]*)$/;
+
+// ============================================================================
+// LINE DIFF
+// ============================================================================
+
+type Edit = 'equal' | 'insert' | 'delete';
+
+export function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers, O((N+M)D)).
+ * Returns null when the edit distance exceeds `maxDistance`.
+ */
+function myers(a: string[], b: string[], maxDistance: number): Edit[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxDistance);
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, offset, n, m);
+    }
+  }
+
+  return null;
+}
+
+function backtrack(trace: number[][], offset: number, n: number, m: number): Edit[] {
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      edits.push(x === prevX ? 'insert' : 'delete');
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Diff two texts line by line. Every line of both sides appears once, in
+ * order; `number` is the line's number in the modified text (or the original
+ * text for removed lines).
+ */
+export function diffLines(original: string, modified: string): DiffLine[] {
+  const a = splitLines(original);
+  const b = splitLines(modified);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const middle =
+    myers(midA, midB, MAX_EDIT_DISTANCE) ??
+    [...midA.map((): Edit => 'delete'), ...midB.map((): Edit => 'insert')];
+  const edits: Edit[] = [
+    ...new Array<Edit>(prefix).fill('equal'),
+    ...middle,
+    ...new Array<Edit>(suffix).fill('equal'),
+  ];
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  for (const edit of edits) {
+    if (edit === 'equal') {
+      lines.push({
+        number: j + 1,
+        originalNumber: i + 1,
+        modifiedNumber: j + 1,
+        content: b[j],
+        type: 'unchanged',
+        comments: [],
+      });
+      i++;
+      j++;
+    } else if (edit === 'delete') {
+      lines.push({ number: i + 1, originalNumber: i + 1, content: a[i], type: 'removed', comments: [] });
+      i++;
+    } else {
+      lines.push({ number: j + 1, modifiedNumber: j + 1, content: b[j], type: 'added', comments: [] });
+      j++;
+    }
+  }
+
+  return lines;
+}
+
+// ============================================================================
+// HUNKS
+// ============================================================================
+
+export interface HunkOptions {
+  /** Unchanged lines kept around each change (default 3) */
+  contextLines?: number;
+  category?: ChangeCategory;
+  /** Prefix for hunk ids, e.g. the file path */
+  idPrefix?: string;
+}
+
+/**
+ * Group a line diff into hunks. Changes closer than twice the context size
+ * share a hunk.
+ */
+export function toDiffHunks(lines: DiffLine[], options: HunkOptions = {}): DiffHunk[] {
+  const context = options.contextLines ?? DEFAULT_CONTEXT_LINES;
+  const ranges: Array<[number, number]> = [];
+
+  lines.forEach((line, index) => {
+    if (line.type === 'unchanged') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  return ranges.map(([start, end], index) => {
+    const hunkLines = lines.slice(start, end + 1);
+    const hasAdded = hunkLines.some((l) => l.type === 'added');
+    const hasRemoved = hunkLines.some((l) => l.type === 'removed');
+    const modifiedNumbers = hunkLines.flatMap((l) => (l.modifiedNumber ? [l.modifiedNumber] : []));
+    const originalNumbers = hunkLines.flatMap((l) => (l.originalNumber ? [l.originalNumber] : []));
+    const added = hunkLines.filter((l) => l.type === 'added').length;
+    const removed = hunkLines.filter((l) => l.type === 'removed').length;
+
+    return {
+      id: `${options.idPrefix ?? 'hunk'}-${index + 1}`,
+      startLine: modifiedNumbers[0] ?? 0,
+      endLine: modifiedNumbers[modifiedNumbers.length - 1] ?? 0,
+      originalStartLine: originalNumbers[0],
+      originalEndLine: originalNumbers[originalNumbers.length - 1],
+      type: hasAdded && hasRemoved ? 'modification' : hasAdded ? 'addition' : 'deletion',
+      category: options.category ?? 'logic',
+      status: 'pending',
+      lines: hunkLines,
+      summary: [added && `+${added}`, removed && `-${removed}`].filter(Boolean).join(' '),
+    };
+  });
+}
+
+// ============================================================================
+// FILE CHANGES
+// ============================================================================
+
+/**
+ * Change category implied by a file path.
+ */
+export function categorizePath(path: string): ChangeCategory {
+  if (/(^|\/)package(-lock)?\.json$/.test(path)) return 'dependencies';
+  if (CONFIG_FILE_REGEX.test(path)) return 'configuration';
+  if (/\.(css|scss|sass|less)$/.test(path)) return 'styling';
+  if (/\.(md|mdx|txt|html)$/.test(path)) return 'content';
+  return 'logic';
+}
+
+/**
+ * Build a FileChange for one path. Missing `original` means the file was
+ * created, missing `modified` that it was deleted. Returns null when the
+ * contents are identical.
+ */
+export function diffFileChange(
+  path: string,
+  original: string | undefined,
+  modified: string | undefined
+): FileChange | null {
+  if (original === modified) return null;
+
+  const category = categorizePath(path);
+  const hunks = toDiffHunks(diffLines(original ?? '', modified ?? ''), { category, idPrefix: path });
+  const changed = hunks.reduce(
+    (sum, hunk) => sum + hunk.lines.filter((l) => l.type !== 'unchanged').length,
+    0
+  );
+  const riskLevel: RiskLevel =
+    changed >= HIGH_RISK_LINES || modified === undefined
+      ? 'high'
+      : changed >= MEDIUM_RISK_LINES || category === 'dependencies'
+        ? 'medium'
+        : 'low';
+
+  return {
+    path,
+    originalContent: original,
+    modifiedContent: modified,
+    hunks,
+    riskLevel,
+    category,
+    action: original === undefined ? 'create' : modified === undefined ? 'delete' : 'modify',
+  };
+}
+
+// ============================================================================
+// UNIFIED DIFF
+// ============================================================================
+
+/**
+ * `diff -u` style text for one path. Missing `original` means the file was
+ * created, missing `modified` that it was deleted. Returns '' when the
+ * contents are identical.
+ */
+export function formatUnifiedDiff(
+  path: string,
+  original: string | undefined,
+  modified: string | undefined,
+  contextLines: number = DEFAULT_CONTEXT_LINES
+): string {
+  if (original === modified) return '';
+
+  const name = path.replace(/^\/+/, '');
+  const hunks = toDiffHunks(diffLines(original ?? '', modified ?? ''), { contextLines });
+  const output = [
+    `--- ${original === undefined ? '/dev/null' : `a/${name}`}`,
+    `+++ ${modified === undefined ? '/dev/null' : `b/${name}`}`,
+  ];
+
+  for (const hunk of hunks) {
+    const originalCount = hunk.lines.filter((l) => l.type !== 'added').length;
+    const modifiedCount = hunk.lines.filter((l) => l.type !== 'removed').length;
+    const originalStart = originalCount > 0 ? (hunk.originalStartLine ?? 0) : 0;
+    const modifiedStart = modifiedCount > 0 ? hunk.startLine : 0;
+    output.push(`@@ -${originalStart},${originalCount} +${modifiedStart},${modifiedCount} @@`);
+    for (const line of hunk.lines) {
+      output.push(`${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.content}`);
+    }
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,589 @@
+/**
+ * Multi-Page Design
+ *
+ * Turns per-page analyses (one per screenshot, or per page visited in a
+ * screen recording) into a MultiPageDesign and the routing scaffold of a
+ * multi-page app.
+ *
+ * - reconcileColorPalettes: one shared palette; pages whose colors clearly
+ *   differ keep them as overrides
+ * - mergeNavigation: one DetectedNavigation from every page's nav
+ * - inferRoutes: `/` for the main page, `/<slug>` (or `/<slug>/:id` for
+ *   detail pages) for the rest
+ * - pageTransitionMotion: Framer Motion page transition from the video's
+ *   detected transitions
+ * - multiPageScaffold: theme, hash router, shared Nav and the routed App
+ */
+
+import type { AppFile } from '@/types/railway';
+import type {
+  ColorSettings,
+  DetectedNavigation,
+  GlobalStyles,
+  InferredRoute,
+  MultiPageDesign,
+  NavigationItem,
+  PageAnalysis,
+  PageReference,
+  VideoPageTransition,
+} from '@/types/layoutDesign';
+import { normalizeColor, toThemeObject, tokensFromGlobalStyles } from '@/utils/designTokens';
+import { APP_FILE_PATH, ENTRY_FILE_CONTENT, ENTRY_FILE_PATH, THEME_FILE_PATH } from '@/utils/projectFiles';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+type Palette = PageAnalysis['colorPalette'];
+
+const PALETTE_KEYS: (keyof Palette)[] = [
+  'primary',
+  'secondary',
+  'accent',
+  'background',
+  'surface',
+  'text',
+  'textMuted',
+];
+
+/** Colors closer than this (RGB distance) are the same color seen on different pages */
+const SAME_COLOR_DISTANCE = 32;
+
+/** Transitions below this confidence are ignored */
+const MIN_TRANSITION_CONFIDENCE = 0.5;
+
+export const ROUTER_FILE_PATH = '/src/router.tsx';
+export const NAV_FILE_PATH = '/src/components/Nav.tsx';
+
+/** Used when no page has a usable palette */
+const FALLBACK_PALETTE: Palette = {
+  primary: '#3b82f6',
+  secondary: '#6366f1',
+  accent: '#f59e0b',
+  background: '#ffffff',
+  surface: '#f8fafc',
+  text: '#0f172a',
+  textMuted: '#64748b',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** URL-friendly slug: "Product Detail" → "product-detail" */
+export function toPageSlug(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'page'
+  );
+}
+
+/** PascalCase component name for a page: "product-detail" → "ProductDetailPage" */
+export function toPageComponentName(page: PageReference): string {
+  const base = page.slug
+    .split('-')
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return `${/^[0-9]/.test(base) ? `P${base}` : base || 'Untitled'}Page`;
+}
+
+/** The page served at `/`: the one flagged main, else the first in order */
+export function findMainPage(pages: PageReference[]): PageReference | undefined {
+  return pages.find((p) => p.isMain) ?? [...pages].sort((a, b) => a.order - b.order)[0];
+}
+
+/** The value with the highest total weight (first seen wins ties), or `fallback` without entries */
+function weightedMode<T>(entries: Array<{ value: T; weight: number }>, fallback: T): T {
+  const totals = new Map<T, number>();
+  for (const { value, weight } of entries) totals.set(value, (totals.get(value) ?? 0) + weight);
+  let best = fallback;
+  let bestWeight = -Infinity;
+  for (const [value, weight] of totals) {
+    if (weight > bestWeight) {
+      best = value;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+function colorDistance(a: string, b: string): number {
+  const channels = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  const [ar, ag, ab] = channels(a);
+  const [br, bg, bb] = channels(b);
+  return Math.hypot(ar - br, ag - bg, ab - bb);
+}
+
+/** Pages with an analysis, weighted by its confidence */
+function analyzedPages(pages: PageReference[]): Array<{ page: PageReference; analysis: PageAnalysis; weight: number }> {
+  return pages.flatMap((page) =>
+    page.analysis ? [{ page, analysis: page.analysis, weight: Math.max(page.analysis.confidence, 0.01) }] : []
+  );
+}
+
+// ============================================================================
+// THEME RECONCILIATION
+// ============================================================================
+
+/**
+ * Reconcile every page's palette into one shared palette. Per key, colors
+ * within SAME_COLOR_DISTANCE of each other are grouped; the group with the
+ * most confidence wins and its most confident exact value becomes the
+ * shared color. Pages whose color falls outside the winning group keep it
+ * as an override (e.g. a dark checkout page on a light site).
+ */
+export function reconcileColorPalettes(pages: PageReference[]): {
+  palette: Palette;
+  overrides: Record<string, Partial<Palette>>;
+} {
+  const analyzed = analyzedPages(pages);
+  const palette = { ...FALLBACK_PALETTE };
+  const overrides: Record<string, Partial<Palette>> = {};
+
+  for (const key of PALETTE_KEYS) {
+    const samples = analyzed.flatMap(({ page, analysis, weight }) => {
+      const color = normalizeColor(analysis.colorPalette?.[key])?.slice(0, 7);
+      return color ? [{ pageId: page.id, color, weight }] : [];
+    });
+    if (samples.length === 0) continue;
+
+    const groups: Array<typeof samples> = [];
+    for (const sample of samples) {
+      const group = groups.find((g) => colorDistance(g[0].color, sample.color) <= SAME_COLOR_DISTANCE);
+      if (group) group.push(sample);
+      else groups.push([sample]);
+    }
+    const groupWeight = (group: typeof samples) => group.reduce((sum, s) => sum + s.weight, 0);
+    const winner = groups.reduce((best, group) => (groupWeight(group) > groupWeight(best) ? group : best));
+
+    palette[key] = weightedMode(winner.map((s) => ({ value: s.color, weight: s.weight })), palette[key]);
+    for (const sample of samples) {
+      if (winner.includes(sample)) continue;
+      (overrides[sample.pageId] ??= {})[key] = sample.color;
+    }
+  }
+
+  return { palette, overrides };
+}
+
+/** Shared GlobalStyles for the site: reconciled colors, majority typography, spacing and effects */
+export function reconcileGlobalStyles(pages: PageReference[], palette: Palette): GlobalStyles {
+  const analyzed = analyzedPages(pages);
+  const vote = <T>(pick: (analysis: PageAnalysis) => T | undefined, fallback: T): T =>
+    weightedMode(
+      analyzed.flatMap(({ analysis, weight }) => {
+        const value = pick(analysis);
+        return value === undefined ? [] : [{ value, weight }];
+      }),
+      fallback
+    );
+  const share = (test: (analysis: PageAnalysis) => boolean | undefined) =>
+    analyzed.length > 0 && analyzed.filter(({ analysis }) => test(analysis)).length * 2 >= analyzed.length;
+
+  const fontFamily = vote((a) => a.typography?.estimatedBodyFont, 'Inter');
+  const headingFont = vote((a) => a.typography?.estimatedHeadingFont, fontFamily);
+  const colors: ColorSettings = { ...palette, border: palette.textMuted };
+
+  return {
+    typography: {
+      fontFamily,
+      headingFont: headingFont !== fontFamily ? headingFont : undefined,
+      headingWeight: vote((a) => a.typography?.headingWeight, 'bold'),
+      bodyWeight: vote((a) => a.typography?.bodyWeight, 'normal'),
+      headingSize: 'lg',
+      bodySize: 'base',
+      lineHeight: 'normal',
+      letterSpacing: 'normal',
+    },
+    colors,
+    spacing: {
+      density: vote((a) => a.spacing?.density, 'normal'),
+      containerWidth: 'standard',
+      sectionPadding: vote((a) => a.spacing?.sectionPadding, 'lg'),
+      componentGap: vote((a) => a.spacing?.componentGap, 'md'),
+    },
+    effects: {
+      borderRadius: vote((a) => a.effects?.borderRadius, 'md'),
+      shadows: vote((a) => a.effects?.shadows, 'subtle'),
+      animations: share((a) => a.effects?.hasAnimations) ? 'smooth' : 'subtle',
+      blur: share((a) => a.effects?.hasBlur) ? 'subtle' : 'none',
+      gradients: share((a) => a.effects?.hasGradients),
+    },
+  };
+}
+
+// ============================================================================
+// NAVIGATION & ROUTES
+// ============================================================================
+
+/**
+ * Merge the navigation detected on each page. Items are matched by label,
+ * ordered by their average position and linked to the page whose name or
+ * slug matches. Style, position and stickiness follow the most confident
+ * pages. Without any detected nav, every page is linked in page order.
+ */
+export function mergeNavigation(detected: DetectedNavigation[], pages: PageReference[]): DetectedNavigation {
+  const pageFor = (label: string, slug?: string) => {
+    const wanted = toPageSlug(slug || label);
+    return pages.find((p) => p.slug === wanted || toPageSlug(p.name) === wanted);
+  };
+
+  const navs = detected.filter((nav) => nav.items.length > 0);
+  if (navs.length === 0) {
+    return {
+      items: [...pages]
+        .sort((a, b) => a.order - b.order)
+        .filter((p) => p.analysis?.pageRole !== 'detail')
+        .map((p, order) => ({ label: p.name, targetPageSlug: p.slug, order })),
+      style: 'horizontal',
+      position: 'header',
+      isSticky: true,
+      confidence: 0,
+    };
+  }
+
+  const merged = new Map<string, { item: NavigationItem; positions: number[] }>();
+  for (const nav of navs) {
+    nav.items.forEach((item, index) => {
+      const key = item.label.trim().toLowerCase();
+      const existing = merged.get(key);
+      const position = Number.isFinite(item.order) ? item.order : index;
+      if (existing) {
+        existing.positions.push(position);
+        existing.item.targetPageSlug ??= item.targetPageSlug;
+        existing.item.icon ??= item.icon;
+        existing.item.children ??= item.children;
+      } else {
+        merged.set(key, { item: { ...item, label: item.label.trim() }, positions: [position] });
+      }
+    });
+  }
+
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const items = [...merged.values()]
+    .sort((a, b) => average(a.positions) - average(b.positions))
+    .map(({ item }, order) => {
+      // Active state belongs to the page the screenshot showed; the router decides at runtime
+      const { isActive: _isActive, ...rest } = item;
+      const target = pageFor(item.label, item.targetPageSlug);
+      return { ...rest, targetPageSlug: target?.slug ?? item.targetPageSlug, order };
+    });
+
+  const weighted = <T>(pick: (nav: DetectedNavigation) => T, fallback: T) =>
+    weightedMode(navs.map((nav) => ({ value: pick(nav), weight: Math.max(nav.confidence, 0.01) })), fallback);
+
+  return {
+    items,
+    style: weighted((nav) => nav.style, 'horizontal'),
+    position: weighted((nav) => nav.position, 'header'),
+    isSticky: weighted((nav) => nav.isSticky ?? false, false),
+    confidence: average(navs.map((nav) => nav.confidence)),
+  };
+}
+
+/** One route per page: the main page at `/`, detail pages take an `:id` param */
+export function inferRoutes(pages: PageReference[]): InferredRoute[] {
+  const main = findMainPage(pages);
+  return [...pages]
+    .sort((a, b) => a.order - b.order)
+    .map((page) => {
+      if (page.id === main?.id) {
+        return { path: '/', pageId: page.id, isIndex: true, pageName: page.name };
+      }
+      const isDetail = page.analysis?.pageRole === 'detail';
+      return {
+        path: isDetail ? `/${page.slug}/:id` : `/${page.slug}`,
+        pageId: page.id,
+        params: isDetail ? ['id'] : undefined,
+        pageName: page.name,
+      };
+    });
+}
+
+// ============================================================================
+// PAGE TRANSITIONS
+// ============================================================================
+
+/** Framer Motion props for the routed page wrapper */
+export interface PageTransitionMotion {
+  initial: Record<string, number>;
+  animate: Record<string, number>;
+  exit: Record<string, number>;
+  transition: { duration: number; ease: string };
+}
+
+const TRANSITION_MOTION: Record<VideoPageTransition['transitionType'], Omit<PageTransitionMotion, 'transition'>> = {
+  navigation: { initial: { opacity: 0, x: 24 }, animate: { opacity: 1, x: 0 }, exit: { opacity: 0, x: -24 } },
+  scroll: { initial: { opacity: 0, y: 48 }, animate: { opacity: 1, y: 0 }, exit: { opacity: 0, y: -48 } },
+  modal: { initial: { opacity: 0, scale: 0.95 }, animate: { opacity: 1, scale: 1 }, exit: { opacity: 0, scale: 0.95 } },
+  drawer: { initial: { x: 320 }, animate: { x: 0 }, exit: { x: 320 } },
+  'tab-switch': { initial: { opacity: 0 }, animate: { opacity: 1 }, exit: { opacity: 0 } },
+  unknown: { initial: { opacity: 0 }, animate: { opacity: 1 }, exit: { opacity: 0 } },
+};
+
+/**
+ * The page transition seen most (by confidence) in the recording, timed by
+ * the median duration of those transitions. Null without confident
+ * transitions — pages then switch instantly.
+ */
+export function pageTransitionMotion(transitions: VideoPageTransition[]): PageTransitionMotion | null {
+  const confident = transitions.filter(
+    (t) => t.confidence >= MIN_TRANSITION_CONFIDENCE && TRANSITION_MOTION[t.transitionType]
+  );
+  if (confident.length === 0) return null;
+
+  const type = weightedMode(
+    confident.map((t) => ({ value: t.transitionType, weight: t.confidence })),
+    confident[0].transitionType
+  );
+  const durations = confident
+    .filter((t) => t.transitionType === type)
+    .map((t) => t.endTime - t.startTime)
+    .filter((d) => d > 0)
+    .sort((a, b) => a - b);
+  const median = durations.length > 0 ? durations[Math.floor(durations.length / 2)] : 0.3;
+
+  return {
+    ...TRANSITION_MOTION[type],
+    transition: { duration: +Math.min(Math.max(median, 0.15), 0.8).toFixed(2), ease: 'easeOut' },
+  };
+}
+
+// ============================================================================
+// DESIGN
+// ============================================================================
+
+/**
+ * Assemble the MultiPageDesign: shared styles from the reconciled palette,
+ * per-page color overrides, merged navigation, routes and video transitions.
+ */
+export function buildMultiPageDesign(
+  pages: PageReference[],
+  navigations: DetectedNavigation[],
+  transitions: VideoPageTransition[] = []
+): MultiPageDesign {
+  const now = new Date().toISOString();
+  const { palette, overrides } = reconcileColorPalettes(pages);
+  const globalStyles = reconcileGlobalStyles(pages, palette);
+  const isDark = colorDistance(normalizeColor(palette.background)?.slice(0, 7) ?? '#ffffff', '#000000') < 128;
+
+  const pageSpecificOverrides: MultiPageDesign['pageSpecificOverrides'] = {};
+  for (const [pageId, colors] of Object.entries(overrides)) {
+    pageSpecificOverrides[pageId] = { globalStyles: { ...globalStyles, colors: { ...globalStyles.colors, ...colors } } };
+  }
+
+  return {
+    pages,
+    sharedDesign: {
+      basePreferences: { style: 'custom', colorScheme: isDark ? 'dark' : 'light', layout: 'multi-page' },
+      globalStyles,
+    },
+    navigation: mergeNavigation(navigations, pages),
+    pageSpecificOverrides,
+    inferredRoutes: inferRoutes(pages),
+    transitions,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// ============================================================================
+// SCAFFOLD
+// ============================================================================
+
+const ROUTER_SOURCE = `import React, { useEffect, useState } from 'react';
+
+/** Hash-based routing: works inside the preview iframe without server rewrites */
+function currentPath(): string {
+  return window.location.hash.replace(/^#/, '') || '/';
+}
+
+export function useRoute(): string {
+  const [path, setPath] = useState(currentPath);
+  useEffect(() => {
+    const onChange = () => setPath(currentPath());
+    window.addEventListener('hashchange', onChange);
+    return () => window.removeEventListener('hashchange', onChange);
+  }, []);
+  return path;
+}
+
+/** Params of \`pattern\` (e.g. /products/:id) in \`path\`, or null if it does not match */
+export function matchRoute(pattern: string, path: string): Record<string, string> | null {
+  const expected = pattern.split('/').filter(Boolean);
+  const actual = path.split('/').filter(Boolean);
+  if (expected.length !== actual.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < expected.length; i++) {
+    if (expected[i].startsWith(':')) params[expected[i].slice(1)] = decodeURIComponent(actual[i]);
+    else if (expected[i] !== actual[i]) return null;
+  }
+  return params;
+}
+
+export function Link({
+  to,
+  children,
+  ...props
+}: { to: string } & React.AnchorHTMLAttributes<HTMLAnchorElement>) {
+  return (
+    <a href={\`#\${to}\`} {...props}>
+      {children}
+    </a>
+  );
+}
+`;
+
+/** Path a nav item links to; detail routes get a sample id */
+function navHref(item: NavigationItem, routes: InferredRoute[], pages: PageReference[]): string {
+  const page = pages.find((p) => p.slug === item.targetPageSlug);
+  const route = page && routes.find((r) => r.pageId === page.id);
+  if (!route) return `/${item.targetPageSlug ?? toPageSlug(item.label)}`;
+  return route.path.replace(/:[^/]+/g, '1');
+}
+
+function navSource(navigation: DetectedNavigation, routes: InferredRoute[], pages: PageReference[]): string {
+  type NavLink = { label: string; to: string; children?: NavLink[] };
+  const toLink = (item: NavigationItem): NavLink => ({
+    label: item.label,
+    to: navHref(item, routes, pages),
+    children: item.children?.map(toLink),
+  });
+  const links = navigation.items.map(toLink);
+  const vertical = navigation.style === 'vertical' || navigation.style === 'sidebar' || navigation.position === 'sidebar';
+  const placement =
+    navigation.position === 'sidebar'
+      ? 'fixed left-0 top-0 h-screen w-60 z-20'
+      : navigation.position === 'footer'
+        ? 'w-full'
+        : navigation.position === 'floating'
+          ? 'fixed top-4 left-1/2 -translate-x-1/2 z-20 rounded-full shadow-lg'
+          : `w-full z-20${navigation.isSticky ? ' sticky top-0' : ''}`;
+
+  return `import React from 'react';
+import { Link } from '../router';
+import { theme } from '../theme';
+
+type NavLink = { label: string; to: string; children?: NavLink[] };
+
+const LINKS: NavLink[] = ${JSON.stringify(links, null, 2)};
+
+export function Nav({ path }: { path: string }) {
+  const isActive = (to: string) => (to === '/' ? path === '/' : path.startsWith(to));
+  return (
+    <nav
+      data-id="site-nav"
+      className="${placement} flex ${vertical ? 'flex-col gap-2 p-6' : 'items-center gap-6 px-6 py-4'}"
+      style={{ background: theme.colors.surface, color: theme.colors.text, fontFamily: theme.fonts.sans }}
+    >
+      {LINKS.map((link) => (
+        <div key={link.label} className="relative group">
+          <Link
+            to={link.to}
+            data-id={\`nav-\${link.label.toLowerCase().replace(/[^a-z0-9]+/g, '-')}\`}
+            aria-current={isActive(link.to) ? 'page' : undefined}
+            style={{ color: isActive(link.to) ? theme.colors.primary : theme.colors.text }}
+            className="font-medium"
+          >
+            {link.label}
+          </Link>
+          {link.children && link.children.length > 0 && (
+            <div className="absolute hidden group-hover:flex flex-col gap-1 p-2 min-w-40" style={{ background: theme.colors.surface }}>
+              {link.children.map((child) => (
+                <Link key={child.to} to={child.to} style={{ color: theme.colors.text }}>
+                  {child.label}
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </nav>
+  );
+}
+`;
+}
+
+function appSource(design: MultiPageDesign, motion: PageTransitionMotion | null): string {
+  const pageById = new Map(design.pages.map((p) => [p.id, p]));
+  // The index route comes first: it is also the fallback for unknown paths
+  const routes = design.inferredRoutes
+    .flatMap((r) => {
+      const page = pageById.get(r.pageId);
+      return page ? [{ ...r, component: toPageComponentName(page) }] : [];
+    })
+    .sort((a, b) => Number(!!b.isIndex) - Number(!!a.isIndex));
+  const imports = routes.map((r) => `import ${r.component} from './pages/${r.component}';`);
+  const table = routes.map((r) => `  { path: '${r.path}', component: ${r.component} },`);
+  const sidebar = design.navigation.position === 'sidebar';
+  const footer = design.navigation.position === 'footer';
+  const page = motion
+    ? `<AnimatePresence mode="wait">
+        <motion.main
+          key={path}
+          data-id="page"
+          initial={${JSON.stringify(motion.initial)}}
+          animate={${JSON.stringify(motion.animate)}}
+          exit={${JSON.stringify(motion.exit)}}
+          transition={${JSON.stringify(motion.transition)}}
+        >
+          <Page {...params} />
+        </motion.main>
+      </AnimatePresence>`
+    : `<main data-id="page">
+        <Page {...params} />
+      </main>`;
+
+  return `import React from 'react';
+${motion ? "import { AnimatePresence, motion } from 'framer-motion';\n" : ''}import { matchRoute, useRoute } from './router';
+import { Nav } from './components/Nav';
+import { theme } from './theme';
+${imports.join('\n')}
+
+type PageComponent = (props: Record<string, string>) => React.ReactElement | null;
+
+const ROUTES: Array<{ path: string; component: PageComponent }> = [
+${table.join('\n')}
+];
+
+export default function App() {
+  const path = useRoute();
+  const match = ROUTES.map((route) => ({ route, params: matchRoute(route.path, path) })).find((m) => m.params);
+  const Page = match?.route.component ?? ROUTES[0].component;
+  const params = match?.params ?? {};
+
+  return (
+    <div
+      data-id="app"
+      className="min-h-screen${sidebar ? ' pl-60' : ''}"
+      style={{ background: theme.colors.background, color: theme.colors.text, fontFamily: theme.fonts.sans }}
+    >
+      ${footer ? '' : '<Nav path={path} />\n      '}${page}${footer ? '\n      <Nav path={path} />' : ''}
+    </div>
+  );
+}
+`;
+}
+
+/**
+ * Project files shared by every page: /src/theme.ts from the shared styles,
+ * a hash router, the Nav from the merged navigation, and App.tsx mapping
+ * each inferred route to `/src/pages/<Name>Page.tsx` (default export),
+ * animated with the video's page transition when there is one.
+ */
+export function multiPageScaffold(design: MultiPageDesign): AppFile[] {
+  const styles = design.sharedDesign.globalStyles;
+  const theme = styles ? toThemeObject(tokensFromGlobalStyles(styles)) : {};
+  const motion = pageTransitionMotion(design.transitions ?? []);
+
+  return [
+    { path: APP_FILE_PATH, content: appSource(design, motion) },
+    { path: THEME_FILE_PATH, content: `export const theme = ${JSON.stringify(theme, null, 2)};\n` },
+    { path: ROUTER_FILE_PATH, content: ROUTER_SOURCE },
+    { path: NAV_FILE_PATH, content: navSource(design.navigation, design.inferredRoutes, design.pages) },
+    { path: ENTRY_FILE_PATH, content: ENTRY_FILE_CONTENT },
+  ];
+}
@@ -0,0 +1,88 @@
+/**
+ * Patch Bisect Helpers
+ *
+ * Dream Mode applies patches as whole-file writes and records each file's
+ * content before and after (DreamPatch.changes). These helpers undo a subset
+ * of an ordered patch list and binary-search it for the first patch that
+ * reproduces a failure — `git bisect` over in-memory patches.
+ */
+
+import type { AppFile } from '@/types/railway';
+import type { DreamPatch } from '@/types/dream';
+
+type PatchChanges = Pick<DreamPatch, 'changes'>;
+
+/**
+ * Undo `patches` on top of `files`, newest first. Files a patch created are
+ * removed. Returns a new array; `files` is not modified.
+ */
+export function revertPatches(files: AppFile[], patches: PatchChanges[]): AppFile[] {
+  const byPath = new Map(files.map((f) => [f.path, f.content]));
+
+  for (const patch of [...patches].reverse()) {
+    for (const change of patch.changes ?? []) {
+      if (change.before === null) {
+        byPath.delete(change.path);
+      } else {
+        byPath.set(change.path, change.before);
+      }
+    }
+  }
+
+  return [...byPath].map(([path, content]) => ({ path, content }));
+}
+
+/**
+ * Paths written by any of the patches.
+ */
+export function touchedPaths(patches: PatchChanges[]): Set<string> {
+  return new Set(patches.flatMap((p) => (p.changes ?? []).map((c) => c.path)));
+}
+
+/**
+ * The patches that must be reverted together with `patches[culprit]`: the
+ * culprit and every later patch that wrote a file any of them wrote (their
+ * whole-file contents include the culprit's change).
+ */
+export function withDependents<T extends PatchChanges>(patches: T[], culprit: number): T[] {
+  const reverted = [patches[culprit]];
+  const paths = touchedPaths(reverted);
+
+  for (const patch of patches.slice(culprit + 1)) {
+    const changes = patch.changes ?? [];
+    if (changes.some((c) => paths.has(c.path))) {
+      reverted.push(patch);
+      for (const change of changes) paths.add(change.path);
+    }
+  }
+
+  return reverted;
+}
+
+/**
+ * Find the first failing patch. `fails(k)` tests the state with the first k
+ * patches applied; k = 0 is assumed good and k = count bad. `stopped` is
+ * checked before each test run.
+ *
+ * @returns Index of the culprit patch (0-based), or null if stopped first
+ */
+export async function bisectPatches(
+  count: number,
+  fails: (applied: number) => Promise<boolean>,
+  stopped: () => boolean = () => false
+): Promise<number | null> {
+  let good = 0;
+  let bad = count;
+
+  while (bad - good > 1) {
+    if (stopped()) return null;
+    const mid = Math.floor((good + bad) / 2);
+    if (await fails(mid)) {
+      bad = mid;
+    } else {
+      good = mid;
+    }
+  }
+
+  return bad - 1;
+}
@@ -0,0 +1,119 @@
+/**
+ * Project File Helpers
+ *
+ * Generated layouts are multi-file projects: an App.tsx composing one
+ * component per section, a shared theme module, a components barrel and
+ * the entry bootstrap. These helpers locate files in an AppFile[] and
+ * move a whole project through a single prompt using file markers:
+ *
+ *   // === /src/components/Hero.tsx ===
+ */
+
+import type { AppFile } from '@/types/railway';
+import { extractCode } from '@/utils/extractCode';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const APP_FILE_PATH = '/src/App.tsx';
+export const ENTRY_FILE_PATH = '/src/index.tsx';
+export const THEME_FILE_PATH = '/src/theme.ts';
+export const COMPONENTS_INDEX_PATH = '/src/components/index.ts';
+
+/** Entry bootstrap — mounts App and loads the inspector bridge */
+export const ENTRY_FILE_CONTENT = `import React from 'react';
+import { createRoot } from 'react-dom/client';
+import App from './App';
+import './inspector';
+
+const root = createRoot(document.getElementById('root')!);
+root.render(<React.StrictMode><App /></React.StrictMode>);
+`;
+
+const FILE_MARKER_REGEX = /\/\/\s*===\s*(\/[^\s]+)\s*===/g;
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/** Whether a path is the main App component */
+export function isAppFile(path: string): boolean {
+  return /(^|\/)App\.(tsx|jsx)$/.test(path);
+}
+
+/** Whether a path is the entry bootstrap (index.tsx / main.tsx) */
+export function isEntryFile(path: string): boolean {
+  return /^\/(src\/)?(index|main)\.(tsx|jsx|ts|js)$/.test(path);
+}
+
+/** Find the main App component file */
+export function findAppFile(files: AppFile[]): AppFile | undefined {
+  return files.find((f) => f.path === APP_FILE_PATH || f.path === '/App.tsx') ?? files.find((f) => isAppFile(f.path));
+}
+
+/**
+ * Find the file that renders the element with the given data-id.
+ * Section files are preferred over App.tsx, which only composes them.
+ */
+export function findFileByDataId(files: AppFile[], dataId: string): AppFile | undefined {
+  const needle = `data-id="${dataId}"`;
+  const owners = files.filter((f) => f.content.includes(needle));
+  return owners.find((f) => !isAppFile(f.path)) ?? owners[0] ?? findAppFile(files);
+}
+
+// ============================================================================
+// FILE MARKERS
+// ============================================================================
+
+/**
+ * Split output containing `// === /path ===` markers into AppFiles.
+ * Without markers the whole output is treated as App.tsx.
+ */
+export function parseMarkedFiles(output: string): AppFile[] {
+  const matches = [...output.matchAll(FILE_MARKER_REGEX)];
+
+  if (matches.length === 0) {
+    return [{ path: APP_FILE_PATH, content: extractCode(output) }];
+  }
+
+  const files: AppFile[] = [];
+  for (let i = 0; i < matches.length; i++) {
+    const match = matches[i];
+    const matchIndex = match.index;
+
+    if (matchIndex === undefined) {
+      console.warn('[projectFiles] Regex match missing index, skipping file');
+      continue;
+    }
+
+    const startIndex = matchIndex + match[0].length;
+    const nextMatchIndex = i < matches.length - 1 ? matches[i + 1].index : undefined;
+    const endIndex = nextMatchIndex !== undefined ? nextMatchIndex : output.length;
+    const content = extractCode(output.slice(startIndex, endIndex));
+
+    if (content.length > 0) {
+      files.push({ path: match[1], content });
+    }
+  }
+
+  // Ensure we always have at least an App.tsx
+  if (files.length === 0) {
+    return [{ path: APP_FILE_PATH, content: output.trim() }];
+  }
+
+  return files;
+}
+
+/**
+ * Serialize a project's source files for a prompt. A lone App.tsx is sent
+ * as plain code; multi-file projects are joined with file markers. The
+ * entry bootstrap is omitted since it is never edited.
+ */
+export function serializeProjectCode(files: AppFile[]): string | null {
+  const sources = files.filter((f) => !isEntryFile(f.path));
+  if (sources.length === 0) return null;
+  if (sources.length === 1 && isAppFile(sources[0].path)) return sources[0].content;
+
+  return sources.map((f) => `// === ${f.path} ===\n${f.content}`).join('\n\n');
+}
@@ -0,0 +1,118 @@
+/**
+ * Uniform retry/backoff policy for AI provider calls.
+ *
+ * Generalises the Gemini 429 handling: rate limits honour the provider's
+ * retry hint when one is present, otherwise back off exponentially.
+ * Server errors (5xx, Anthropic 529 "overloaded") are optionally retried.
+ * Everything else fails fast.
+ */
+
+import type { RetryPolicy } from '@/types/modelGateway';
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+/** Default policy used by the model gateway */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 2_000,
+  maxDelayMs: 60_000,
+  retryServerErrors: true,
+};
+
+/** Legacy Gemini behaviour: only rate limits are retried, 30s when no hint is given */
+export const RATE_LIMIT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 30_000,
+  maxDelayMs: 120_000,
+  retryServerErrors: false,
+};
+
+// ============================================================================
+// RETRY WRAPPER
+// ============================================================================
+
+/**
+ * Run `fn`, retrying according to `policy`.
+ * An aborted `signal` stops further attempts and interrupts the backoff wait.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal
+): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (error: unknown) {
+      lastError = error;
+      if (signal?.aborted) throw signal.reason;
+      if (attempt === policy.maxRetries) throw error;
+
+      const delay = getRetryDelay(error, attempt, policy);
+      if (delay <= 0) throw error; // Not retryable
+
+      await abortableDelay(delay, signal);
+    }
+  }
+  throw lastError; // unreachable, satisfies TS
+}
+
+/** Wait for `ms`, rejecting early with the abort reason if `signal` fires. */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ============================================================================
+// ERROR CLASSIFICATION
+// ============================================================================
+
+/** Delay (ms) before the next attempt. Returns 0 if the error should not be retried. */
+function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  const msg = error instanceof Error ? error.message : String(error);
+  const status = getErrorStatus(error);
+  const backoff = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+
+  const isRateLimit =
+    status === 429 || msg.includes('429') || /too many requests|rate.?limit/i.test(msg);
+  if (isRateLimit) {
+    const hinted = parseRetryHint(msg);
+    return hinted > 0 ? Math.min(hinted, policy.maxDelayMs) : backoff;
+  }
+
+  const isServerError =
+    (status !== undefined && status >= 500) || /\b(500|502|503|504|529)\b|overloaded/i.test(msg);
+  if (isServerError && policy.retryServerErrors) return backoff;
+
+  return 0;
+}
+
+/** HTTP status attached to SDK errors (Anthropic/OpenAI expose `status`) */
+function getErrorStatus(error: unknown): number | undefined {
+  if (error && typeof error === 'object' && 'status' in error) {
+    const status = (error as { status: unknown }).status;
+    return typeof status === 'number' ? status : undefined;
+  }
+  return undefined;
+}
+
+/** Parse a retry hint (ms) from the error message. Returns 0 if none is present. */
+function parseRetryHint(msg: string): number {
+  // Gemini format: "retryDelay":"21s" or "Please retry in 21.124101106s"
+  const match = msg.match(/retry\s*(?:in|Delay['"]:?\s*['"])?\s*([\d.]+)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : 0;
+}
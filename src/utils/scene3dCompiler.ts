@@ -0,0 +1,960 @@
+/**
+ * Scene 3D Compiler
+ *
+ * Deterministically compiles a validated Scene3DDefinition to a React Three
+ * Fiber project, so 3D scenes are edited, diffed and repaired as data:
+ *
+ * - /src/scene3d.json - the definition itself (source of truth)
+ * - /src/scenes/<Name>Scene.tsx - one component per scene: camera,
+ *   controls, lights, environment, skybox, objects, terrain, physics
+ *   (@react-three/rapier) and post-processing
+ * - /src/scenes/helpers.tsx - Model, Terrain, GradientSky and Player, only
+ *   when a scene uses them
+ * - /src/App.tsx - the Canvas (renderer settings) and, for multi-scene
+ *   definitions, scene switching with fade/wipe transitions
+ *
+ * In a multi-scene definition the root's lights and objects appear in every
+ * scene, and its camera, controls and environment are the scenes' defaults.
+ */
+
+import type { AppFile } from '@/types/railway';
+import type {
+  Collider3D,
+  Geometry3D,
+  Light3D,
+  Material3D,
+  Object3D,
+  Scene3DDefinition,
+  SceneTransition3D,
+} from '@/types/layoutDesign';
+import { APP_FILE_PATH, ENTRY_FILE_CONTENT, ENTRY_FILE_PATH } from '@/utils/projectFiles';
+import { validateScene3D } from '@/utils/scene3dValidation';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SCENE_FILE_PATH = '/src/scene3d.json';
+export const SCENE_HELPERS_PATH = '/src/scenes/helpers.tsx';
+
+/** First line of every compiled file; marks it as output of the compiler */
+export const COMPILED_SCENE_HEADER = `// Compiled from ${SCENE_FILE_PATH} — edit the scene definition, not this file`;
+
+type SupportedGeometry = Exclude<Geometry3D['type'], 'extrude' | 'lathe' | 'custom'>;
+
+/** JSX tag, default constructor args and which args segment counts fill */
+const GEOMETRY: Record<SupportedGeometry, { tag: string; defaults: number[]; segmentArgs: number[] }> = {
+  box: { tag: 'boxGeometry', defaults: [1, 1, 1], segmentArgs: [] },
+  sphere: { tag: 'sphereGeometry', defaults: [0.5, 32, 16], segmentArgs: [1, 2] },
+  cylinder: { tag: 'cylinderGeometry', defaults: [0.5, 0.5, 1, 32], segmentArgs: [3] },
+  cone: { tag: 'coneGeometry', defaults: [0.5, 1, 32], segmentArgs: [2] },
+  torus: { tag: 'torusGeometry', defaults: [0.5, 0.2, 16, 48], segmentArgs: [2, 3] },
+  torusKnot: { tag: 'torusKnotGeometry', defaults: [0.5, 0.15, 128, 16], segmentArgs: [2, 3] },
+  plane: { tag: 'planeGeometry', defaults: [1, 1], segmentArgs: [] },
+  ring: { tag: 'ringGeometry', defaults: [0.25, 0.5, 32], segmentArgs: [2] },
+  dodecahedron: { tag: 'dodecahedronGeometry', defaults: [0.5], segmentArgs: [] },
+  icosahedron: { tag: 'icosahedronGeometry', defaults: [0.5], segmentArgs: [] },
+  octahedron: { tag: 'octahedronGeometry', defaults: [0.5], segmentArgs: [] },
+  capsule: { tag: 'capsuleGeometry', defaults: [0.25, 0.5, 8, 16], segmentArgs: [2, 3] },
+};
+
+const MATERIAL_TAG: Record<Exclude<Material3D['type'], 'shader'>, string> = {
+  standard: 'meshStandardMaterial',
+  physical: 'meshPhysicalMaterial',
+  basic: 'meshBasicMaterial',
+  lambert: 'meshLambertMaterial',
+  phong: 'meshPhongMaterial',
+  toon: 'meshToonMaterial',
+};
+
+const COLLIDER_TAG: Partial<Record<Collider3D['shape'], string>> = {
+  cuboid: 'CuboidCollider',
+  ball: 'BallCollider',
+  capsule: 'CapsuleCollider',
+  cylinder: 'CylinderCollider',
+  cone: 'ConeCollider',
+};
+
+const TONE_MAPPING: Record<string, string> = {
+  ACESFilmic: 'THREE.ACESFilmicToneMapping',
+  Linear: 'THREE.LinearToneMapping',
+  Reinhard: 'THREE.ReinhardToneMapping',
+  Cinematic: 'THREE.AgXToneMapping',
+};
+
+const KEYBOARD_MAP = [
+  { name: 'forward', keys: ['ArrowUp', 'KeyW'] },
+  { name: 'backward', keys: ['ArrowDown', 'KeyS'] },
+  { name: 'left', keys: ['ArrowLeft', 'KeyA'] },
+  { name: 'right', keys: ['ArrowRight', 'KeyD'] },
+  { name: 'jump', keys: ['Space'] },
+];
+
+// ============================================================================
+// SOURCE HELPERS
+// ============================================================================
+
+/** A prop value emitted as a raw expression */
+class Code {
+  constructor(readonly expression: string) {}
+}
+const code = (expression: string) => new Code(expression);
+
+/** JSX attributes; undefined values are skipped, `true` is emitted bare */
+function attrs(values: Record<string, unknown>): string {
+  let out = '';
+  for (const [name, value] of Object.entries(values)) {
+    if (value === undefined) continue;
+    if (value === true) out += ` ${name}`;
+    else if (value instanceof Code) out += ` ${name}={${value.expression}}`;
+    else if (typeof value === 'string' && !/["\\{}]/.test(value)) out += ` ${name}="${value}"`;
+    else out += ` ${name}={${JSON.stringify(value)}}`;
+  }
+  return out;
+}
+
+/** Named imports per module, emitted in a stable order */
+class ImportSet {
+  private readonly modules = new Map<string, Set<string>>();
+  private readonly namespaces = new Map<string, string>();
+
+  add(specifier: string, ...names: string[]): void {
+    const set = this.modules.get(specifier) ?? new Set<string>();
+    names.forEach((n) => set.add(n));
+    this.modules.set(specifier, set);
+  }
+
+  addNamespace(specifier: string, alias: string): void {
+    this.namespaces.set(specifier, alias);
+  }
+
+  source(): string {
+    const lines: string[] = [];
+    const order = ['react', 'three', '@react-three/fiber', '@react-three/drei', '@react-three/rapier', '@react-three/postprocessing'];
+    const modules = [...new Set([...order, ...this.modules.keys(), ...this.namespaces.keys()])];
+    for (const specifier of modules) {
+      const alias = this.namespaces.get(specifier);
+      const names = [...(this.modules.get(specifier) ?? [])].sort();
+      if (specifier === 'react') {
+        lines.push(`import React${names.length ? `, { ${names.join(', ')} }` : ''} from 'react';`);
+        continue;
+      }
+      if (alias) lines.push(`import * as ${alias} from '${specifier}';`);
+      if (names.length) lines.push(`import { ${names.join(', ')} } from '${specifier}';`);
+    }
+    return lines.join('\n');
+  }
+}
+
+function toComponentName(name: string, suffix: string): string {
+  const base = name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return `${/^[0-9]/.test(base) ? `S${base}` : base || 'Main'}${suffix}`;
+}
+
+const indentLines = (source: string, depth: number) =>
+  source
+    .split('\n')
+    .map((line) => (line ? '  '.repeat(depth) + line : line))
+    .join('\n');
+
+// ============================================================================
+// SCENE COMPILATION
+// ============================================================================
+
+/** Per-scene compilation state */
+interface SceneContext {
+  imports: ImportSet;
+  helpers: Set<HelperName>;
+  /** Texture URL → key in the scene's useTexture() record */
+  textures: Map<string, string>;
+  /** Object id → scene it navigates to when clicked */
+  triggers: Map<string, string>;
+  warnings: string[];
+}
+
+function textureRef(ctx: SceneContext, url: string): Code {
+  let key = ctx.textures.get(url);
+  if (!key) {
+    key = `t${ctx.textures.size}`;
+    ctx.textures.set(url, key);
+  }
+  return code(`textures.${key}`);
+}
+
+export function geometryArgs(geometry: Geometry3D): number[] {
+  const spec = GEOMETRY[geometry.type as SupportedGeometry];
+  const args = geometry.args ?? [];
+  const filled = spec.defaults.map(
+    (fallback, i) => args[i] ?? (geometry.segments && spec.segmentArgs.includes(i) ? geometry.segments : fallback)
+  );
+  return [...filled, ...args.slice(spec.defaults.length)];
+}
+
+function geometrySource(geometry: Geometry3D | undefined): string {
+  const type = geometry?.type && geometry.type in GEOMETRY ? geometry : { type: 'box' as const };
+  return `<${GEOMETRY[type.type as SupportedGeometry].tag}${attrs({ args: geometryArgs(type) })} />`;
+}
+
+function materialSource(material: Material3D | undefined, ctx: SceneContext, extra: Record<string, unknown> = {}): string {
+  const m: Material3D = material ?? { type: 'standard', color: '#cccccc' };
+  const type = m.type === 'shader' ? 'standard' : m.type;
+  const pbr = type === 'standard' || type === 'physical';
+  const physical = type === 'physical';
+  if (m.envMap) ctx.warnings.push(`Material envMap ${m.envMap} is not compiled; the scene environment provides reflections`);
+
+  return `<${MATERIAL_TAG[type]}${attrs({
+    color: m.color,
+    metalness: pbr ? m.metalness : undefined,
+    roughness: pbr ? m.roughness : undefined,
+    emissive: type === 'basic' ? undefined : m.emissive,
+    emissiveIntensity: type === 'basic' ? undefined : m.emissiveIntensity,
+    map: m.map ? textureRef(ctx, m.map) : undefined,
+    normalMap: m.normalMap && type !== 'basic' ? textureRef(ctx, m.normalMap) : undefined,
+    roughnessMap: pbr && m.roughnessMap ? textureRef(ctx, m.roughnessMap) : undefined,
+    metalnessMap: pbr && m.metalnessMap ? textureRef(ctx, m.metalnessMap) : undefined,
+    envMapIntensity: pbr ? m.envMapIntensity : undefined,
+    transparent: m.transparent || (m.opacity !== undefined && m.opacity < 1) || undefined,
+    opacity: m.opacity,
+    transmission: physical ? m.transmission : undefined,
+    thickness: physical ? m.thickness : undefined,
+    ior: physical ? m.ior : undefined,
+    clearcoat: physical ? m.clearcoat : undefined,
+    clearcoatRoughness: physical ? m.clearcoatRoughness : undefined,
+    ...extra,
+  })} />`;
+}
+
+function colliderSource(collider: Collider3D, ctx: SceneContext): string | null {
+  const tag = COLLIDER_TAG[collider.shape];
+  if (!tag) return null;
+  ctx.imports.add('@react-three/rapier', tag);
+  return `<${tag}${attrs({
+    args: collider.args,
+    sensor: collider.sensor,
+    friction: collider.friction,
+    restitution: collider.restitution,
+    density: collider.density,
+  })} />`;
+}
+
+function objectSource(object: Object3D, ctx: SceneContext): string {
+  const body = object.rigidBody;
+  const target = ctx.triggers.get(object.id);
+  const common = {
+    name: object.id,
+    // A rigid body owns the transform of its object
+    position: body ? undefined : object.position,
+    rotation: body ? undefined : object.rotation,
+    scale: object.scale,
+    castShadow: object.castShadow,
+    receiveShadow: object.receiveShadow,
+    onClick: target ? code(`() => onNavigate(${JSON.stringify(target)})`) : undefined,
+  };
+  const children = (object.children ?? []).map((child) => indentLines(objectSource(child, ctx), 1));
+  const wrap = (tag: string, inner: string[]) =>
+    inner.length > 0 ? `<${tag}${attrs(common)}>\n${inner.join('\n')}\n</${tag}>` : `<${tag}${attrs(common)} />`;
+
+  let source: string;
+  if (object.modelUrl) {
+    ctx.helpers.add('Model');
+    const model = `<Model${attrs({ ...common, url: object.modelUrl })} />`;
+    source = children.length > 0 ? `<group>\n  ${model}\n${children.join('\n')}\n</group>` : model;
+  } else if (object.type === 'group') {
+    source = wrap('group', children);
+  } else if (object.type === 'instance') {
+    ctx.imports.add('@react-three/drei', 'Instances', 'Instance');
+    const count = object.instanceCount ?? 1;
+    source = `<Instances${attrs({ ...common, limit: count })}>
+  ${geometrySource(object.geometry)}
+  ${materialSource(object.material, ctx)}
+  {Array.from({ length: ${count} }, (_, i) => (
+    <Instance key={i} position={[(i % 10) * 1.5, 0, Math.floor(i / 10) * 1.5]} />
+  ))}
+${children.join('\n')}${children.length ? '\n' : ''}</Instances>`;
+  } else if (object.type === 'line') {
+    ctx.imports.addNamespace('three', 'THREE');
+    const geometry = GEOMETRY[(object.geometry?.type ?? 'box') as SupportedGeometry] ?? GEOMETRY.box;
+    const className = geometry.tag[0].toUpperCase() + geometry.tag.slice(1);
+    const args = geometryArgs(object.geometry ?? { type: 'box' }).join(', ');
+    source = wrap('lineSegments', [
+      `  <edgesGeometry args={[new THREE.${className}(${args})]} />`,
+      `  <lineBasicMaterial${attrs({ color: object.material?.color ?? '#ffffff' })} />`,
+      ...children,
+    ]);
+  } else if (object.type === 'points') {
+    source = wrap('points', [
+      `  ${geometrySource(object.geometry)}`,
+      `  <pointsMaterial${attrs({ color: object.material?.color ?? '#ffffff', size: 0.05, sizeAttenuation: true })} />`,
+      ...children,
+    ]);
+  } else {
+    source = wrap('mesh', [`  ${geometrySource(object.geometry)}`, `  ${materialSource(object.material, ctx)}`, ...children]);
+  }
+
+  if (!body) return source;
+
+  ctx.imports.add('@react-three/rapier', 'RigidBody');
+  const colliders = body.colliders.map((c) => colliderSource(c, ctx)).filter((c): c is string => !!c);
+  const autoCollider = body.colliders.some((c) => c.shape === 'trimesh')
+    ? 'trimesh'
+    : body.colliders.length === 0
+      ? 'hull'
+      : false;
+  return `<RigidBody${attrs({
+    type: body.type,
+    colliders: autoCollider,
+    position: body.position ?? object.position,
+    rotation: body.rotation ?? object.rotation,
+    gravityScale: body.gravityScale,
+    linearVelocity: body.linearVelocity,
+    angularVelocity: body.angularVelocity,
+    enabledRotations: body.enabledRotations,
+  })}>
+${[...colliders.map((c) => `  ${c}`), indentLines(source, 1)].join('\n')}
+</RigidBody>`;
+}
+
+function lightSource(light: Light3D): string {
+  const shadow = light.castShadow ? { castShadow: true, 'shadow-mapSize': [2048, 2048] } : {};
+  const base = { position: light.position, intensity: light.intensity, color: light.color };
+  switch (light.type) {
+    case 'ambient':
+      return `<ambientLight${attrs({ intensity: light.intensity, color: light.color })} />`;
+    case 'directional':
+      return `<directionalLight${attrs({ ...base, ...shadow, 'target-position': light.target })} />`;
+    case 'point':
+      return `<pointLight${attrs({ ...base, ...shadow, decay: light.decay })} />`;
+    case 'spot':
+      return `<spotLight${attrs({
+        ...base,
+        ...shadow,
+        angle: light.angle,
+        penumbra: light.penumbra,
+        decay: light.decay,
+        'target-position': light.target,
+      })} />`;
+    case 'hemisphere':
+      return `<hemisphereLight${attrs({
+        args: [light.color ?? '#ffffff', light.groundColor ?? '#444444', light.intensity ?? 1],
+        position: light.position,
+      })} />`;
+    case 'area':
+      return `<rectAreaLight${attrs({ ...base, width: 4, height: 4 })} />`;
+  }
+}
+
+/** Whether the scene needs a rapier <Physics> world */
+function usesPhysics(scene: Scene3DDefinition): boolean {
+  const hasBody = (objects: Object3D[]): boolean =>
+    objects.some((o) => !!o.rigidBody || hasBody(o.children ?? []));
+  return !!(scene.physics || scene.firstPerson || scene.terrain?.physics || hasBody(scene.objects));
+}
+
+function compileScene(
+  scene: Scene3DDefinition,
+  componentName: string,
+  triggers: Map<string, string>,
+  navigable: boolean,
+  helpers: Set<HelperName>,
+  warnings: string[]
+): string {
+  const ctx: SceneContext = { imports: new ImportSet(), helpers, textures: new Map(), triggers, warnings };
+  const { imports } = ctx;
+  const drei = (...names: string[]) => imports.add('@react-three/drei', ...names);
+  const shell: string[] = [];
+  const world: string[] = [];
+
+  // Camera & controls (the camera follows the player in first-person scenes)
+  const { camera = {}, controls } = scene.config;
+  const lookAt = camera.lookAt;
+  const controlType = scene.firstPerson ? 'pointer-lock' : (controls?.type ?? 'orbit');
+  const targetsControls = controlType === 'orbit' || controlType === 'map' || controlType === 'trackball';
+  const cameraTag = camera.type === 'orthographic' ? 'OrthographicCamera' : 'PerspectiveCamera';
+  drei(cameraTag);
+  shell.push(
+    `<${cameraTag}${attrs({
+      makeDefault: true,
+      position: scene.firstPerson ? undefined : (camera.position ?? [5, 5, 5]),
+      fov: camera.type === 'orthographic' ? undefined : (camera.fov ?? 50),
+      zoom: camera.zoom,
+      near: camera.near,
+      far: camera.far,
+      onUpdate: lookAt && !targetsControls ? code(`(self) => self.lookAt(${lookAt.join(', ')})`) : undefined,
+    })} />`
+  );
+  if (controlType === 'orbit' || controlType === 'map') {
+    const tag = controlType === 'orbit' ? 'OrbitControls' : 'MapControls';
+    drei(tag);
+    shell.push(
+      `<${tag}${attrs({
+        makeDefault: true,
+        target: lookAt,
+        enableDamping: controls?.enableDamping ?? true,
+        dampingFactor: controls?.dampingFactor ?? 0.05,
+        minDistance: controls?.minDistance,
+        maxDistance: controls?.maxDistance,
+        maxPolarAngle: controls?.maxPolarAngle,
+        enablePan: controls?.enablePan,
+        enableZoom: controls?.enableZoom,
+        autoRotate: controls?.autoRotate,
+        autoRotateSpeed: controls?.autoRotateSpeed,
+      })} />`
+    );
+  } else if (controlType === 'trackball') {
+    drei('TrackballControls');
+    shell.push(`<TrackballControls${attrs({ makeDefault: true, target: lookAt, noPan: controls?.enablePan === false ? true : undefined })} />`);
+  } else if (controlType === 'fly') {
+    drei('FlyControls');
+    shell.push('<FlyControls makeDefault dragToLook movementSpeed={5} rollSpeed={0.5} />');
+  } else {
+    drei('PointerLockControls');
+    shell.push(`<PointerLockControls${attrs({ makeDefault: true, pointerSpeed: scene.firstPerson?.mouseSensitivity })} />`);
+  }
+
+  // Lights
+  shell.push(...scene.lights.map(lightSource));
+
+  // Environment & skybox
+  const { environment: env, skybox } = scene;
+  if (env?.background && skybox?.type !== 'color') {
+    shell.push(`<color attach="background"${attrs({ args: [env.background] })} />`);
+  }
+  if (env?.preset || env?.hdriUrl) {
+    drei('Environment');
+    shell.push(`<Environment${attrs({ preset: env.hdriUrl ? undefined : env.preset, files: env.hdriUrl })} />`);
+  }
+  if (env?.fog) {
+    shell.push(`<fog attach="fog"${attrs({ args: [env.fog.color ?? '#ffffff', env.fog.near ?? 10, env.fog.far ?? 50] })} />`);
+  }
+  if (skybox?.type === 'color') {
+    shell.push(`<color attach="background"${attrs({ args: [skybox.colors?.[0] ?? '#000000'] })} />`);
+  } else if (skybox?.type === 'gradient') {
+    helpers.add('GradientSky');
+    shell.push(`<GradientSky${attrs({ top: skybox.colors?.[0], bottom: skybox.colors?.[1] })} />`);
+  } else if (skybox?.type === 'cubemap' || skybox?.type === 'hdri') {
+    drei('Environment');
+    shell.push(`<Environment background${attrs({ files: skybox.type === 'hdri' ? skybox.hdriUrl : skybox.cubemapUrls })} />`);
+  } else if (skybox?.type === 'procedural') {
+    drei('Sky');
+    shell.push(
+      `<Sky${attrs({ sunPosition: skybox.sunPosition ?? [100, 20, 100], turbidity: skybox.turbidity, rayleigh: skybox.rayleigh })} />`
+    );
+  }
+
+  // Physical world: ground, terrain, objects, player
+  const physics = usesPhysics(scene);
+  if (env?.ground) {
+    const size = env.ground.size ?? 50;
+    const ground = `<mesh name="ground" rotation={[-Math.PI / 2, 0, 0]}${attrs({ receiveShadow: env.ground.receiveShadow ?? true })}>
+  <planeGeometry${attrs({ args: [size, size] })} />
+  <meshStandardMaterial${attrs({ color: env.ground.color ?? '#808080' })} />
+</mesh>`;
+    if (physics) {
+      imports.add('@react-three/rapier', 'RigidBody', 'CuboidCollider');
+      world.push(`<RigidBody type="fixed" colliders={false}>
+  <CuboidCollider${attrs({ args: [size / 2, 0.1, size / 2], position: [0, -0.1, 0] })} />
+${indentLines(ground, 1)}
+</RigidBody>`);
+    } else {
+      world.push(ground);
+    }
+  }
+
+  const { terrain } = scene;
+  if (terrain) {
+    helpers.add('Terrain');
+    const [min, max] = terrain.heightRange ?? [0, terrain.type === 'flat' ? 0 : 4];
+    const heightmapUrl = terrain.type === 'heightmap' ? terrain.heightmapUrl : undefined;
+    const material = materialSource(
+      terrain.material ?? { type: 'standard', color: '#5a7d3a', roughness: 0.9 },
+      ctx,
+      heightmapUrl ? { displacementMap: textureRef(ctx, heightmapUrl), displacementScale: max - min } : {}
+    );
+    const mesh = `<Terrain${attrs({
+      size: terrain.size ?? [100, 100],
+      segments: terrain.segments ?? [128, 128],
+      heightRange: [min, max],
+      noise: terrain.type === 'perlin' || terrain.type === 'simplex' ? true : undefined,
+      frequency: terrain.frequency,
+      octaves: terrain.octaves,
+    })}>
+  ${material}
+</Terrain>`;
+    if (terrain.physics) {
+      if (heightmapUrl) warnings.push('Heightmap terrain collides as a flat plane (displacement is GPU-only)');
+      imports.add('@react-three/rapier', 'RigidBody');
+      world.push(`<RigidBody type="fixed" colliders="trimesh">\n${indentLines(mesh, 1)}\n</RigidBody>`);
+    } else {
+      world.push(mesh);
+    }
+  }
+
+  world.push(...scene.objects.map((object) => objectSource(object, ctx)));
+
+  if (scene.firstPerson) {
+    helpers.add('Player');
+    const fp = scene.firstPerson;
+    world.push(`<Player${attrs({ speed: fp.moveSpeed, jumpForce: fp.jumpForce, height: fp.height, radius: fp.radius })} />`);
+  }
+
+  const body = [...shell];
+  if (physics) {
+    imports.add('@react-three/rapier', 'Physics');
+    const p = scene.physics ?? {};
+    body.push(
+      `<Physics${attrs({ gravity: p.gravity ?? [0, -9.81, 0], timeStep: p.timeStep ? 1 / p.timeStep : undefined, debug: p.debug })}>\n${world
+        .map((w) => indentLines(w, 1))
+        .join('\n')}\n</Physics>`
+    );
+  } else {
+    body.push(...world);
+  }
+
+  // Post-processing
+  const post = scene.postProcessing;
+  const effects: string[] = [];
+  if (post?.bloom) {
+    effects.push(`<Bloom mipmapBlur${attrs({
+      intensity: post.bloom.intensity,
+      luminanceThreshold: post.bloom.threshold,
+      luminanceSmoothing: post.bloom.smoothing,
+    })} />`);
+  }
+  if (post?.ssao) {
+    effects.push(`<SSAO${attrs({ intensity: post.ssao.intensity, radius: post.ssao.radius, samples: post.ssao.samples })} />`);
+  }
+  if (post?.depthOfField) {
+    effects.push(`<DepthOfField${attrs({
+      focusDistance: post.depthOfField.focusDistance,
+      focalLength: post.depthOfField.focalLength,
+      bokehScale: post.depthOfField.bokehScale,
+    })} />`);
+  }
+  if (post?.chromaticAberration) {
+    imports.addNamespace('three', 'THREE');
+    const [x, y] = post.chromaticAberration.offset ?? [0.002, 0.002];
+    effects.push(`<ChromaticAberration offset={new THREE.Vector2(${x}, ${y})} />`);
+  }
+  if (post?.vignette) {
+    effects.push(`<Vignette${attrs({ offset: post.vignette.offset, darkness: post.vignette.darkness })} />`);
+  }
+  if (effects.length > 0) {
+    const names = effects.flatMap((e) => e.match(/^<(\w+)/)?.[1] ?? []);
+    imports.add('@react-three/postprocessing', 'EffectComposer', ...names);
+    body.push(
+      `<EffectComposer${attrs({ enableNormalPass: post?.ssao ? true : undefined })}>\n${effects.map((e) => `  ${e}`).join('\n')}\n</EffectComposer>`
+    );
+  }
+
+  // Assemble the component
+  const helperNames = [...helpers].filter((h) => body.some((b) => b.includes(`<${h}`)));
+  const helperImport = helperNames.length > 0 ? `\nimport { ${helperNames.sort().join(', ')} } from './helpers';` : '';
+  if (ctx.textures.size > 0) drei('useTexture');
+  const textureHook =
+    ctx.textures.size > 0
+      ? `  const textures = useTexture(${JSON.stringify(Object.fromEntries([...ctx.textures].map(([url, key]) => [key, url])))});\n\n`
+      : '';
+  const signature = navigable ? `{ onNavigate }: { onNavigate: (sceneId: string) => void }` : '';
+
+  return `${COMPILED_SCENE_HEADER}
+${imports.source()}${helperImport}
+
+export function ${componentName}(${signature}) {
+${textureHook}  return (
+    <>
+${body.map((b) => indentLines(b, 3)).join('\n')}
+    </>
+  );
+}
+`;
+}
+
+// ============================================================================
+// HELPERS FILE
+// ============================================================================
+
+type HelperName = 'Model' | 'Terrain' | 'GradientSky' | 'Player';
+
+const HELPER_SOURCE: Record<HelperName, { imports: Array<[string, string[]]>; source: string }> = {
+  Model: {
+    imports: [['@react-three/drei', ['useGLTF']], ['react', ['useMemo']]],
+    source: `/** GLTF/GLB model; every mesh casts and receives shadows when asked */
+export function Model({ url, castShadow, receiveShadow, ...props }: { url: string } & ThreeElements['group']) {
+  const { scene } = useGLTF(url);
+  const model = useMemo(() => {
+    const clone = scene.clone(true);
+    clone.traverse((child) => {
+      child.castShadow = !!castShadow;
+      child.receiveShadow = !!receiveShadow;
+    });
+    return clone;
+  }, [scene, castShadow, receiveShadow]);
+  return (
+    <group {...props}>
+      <primitive object={model} />
+    </group>
+  );
+}`,
+  },
+  Terrain: {
+    imports: [['react', ['useMemo']]],
+    source: `/** Deterministic fractal value noise in [0, 1] */
+function fractalNoise(x: number, z: number, octaves: number): number {
+  const hash = (i: number, j: number) => {
+    const s = Math.sin(i * 127.1 + j * 311.7) * 43758.5453;
+    return s - Math.floor(s);
+  };
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+  let value = 0;
+  let amplitude = 0.5;
+  let total = 0;
+  for (let o = 0; o < octaves; o++) {
+    const i = Math.floor(x);
+    const j = Math.floor(z);
+    const u = smooth(x - i);
+    const v = smooth(z - j);
+    const top = hash(i, j) * (1 - u) + hash(i + 1, j) * u;
+    const bottom = hash(i, j + 1) * (1 - u) + hash(i + 1, j + 1) * u;
+    value += (top * (1 - v) + bottom * v) * amplitude;
+    total += amplitude;
+    amplitude /= 2;
+    x *= 2;
+    z *= 2;
+  }
+  return value / total;
+}
+
+/** Ground mesh; with noise, vertex heights span heightRange */
+export function Terrain({
+  size,
+  segments,
+  heightRange,
+  noise,
+  frequency = 0.05,
+  octaves = 4,
+  children,
+}: {
+  size: [number, number];
+  segments: [number, number];
+  heightRange: [number, number];
+  noise?: boolean;
+  frequency?: number;
+  octaves?: number;
+  children?: React.ReactNode;
+}) {
+  const geometry = useMemo(() => {
+    const plane = new THREE.PlaneGeometry(size[0], size[1], segments[0], segments[1]);
+    plane.rotateX(-Math.PI / 2);
+    if (noise) {
+      const position = plane.attributes.position;
+      for (let i = 0; i < position.count; i++) {
+        const height = fractalNoise(position.getX(i) * frequency, position.getZ(i) * frequency, octaves);
+        position.setY(i, heightRange[0] + height * (heightRange[1] - heightRange[0]));
+      }
+      plane.computeVertexNormals();
+    }
+    return plane;
+  }, [size, segments, heightRange, noise, frequency, octaves]);
+  return (
+    <mesh name="terrain" geometry={geometry} receiveShadow>
+      {children}
+    </mesh>
+  );
+}`,
+  },
+  GradientSky: {
+    imports: [],
+    source: `/** Background sphere blending top to bottom */
+export function GradientSky({ top = '#87ceeb', bottom = '#ffffff' }: { top?: string; bottom?: string }) {
+  const uniforms = useMemo(
+    () => ({ top: { value: new THREE.Color(top) }, bottom: { value: new THREE.Color(bottom) } }),
+    [top, bottom]
+  );
+  return (
+    <mesh scale={500}>
+      <sphereGeometry args={[1, 32, 16]} />
+      <shaderMaterial
+        side={THREE.BackSide}
+        depthWrite={false}
+        uniforms={uniforms}
+        vertexShader="varying vec3 vPosition; void main() { vPosition = position; gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0); }"
+        fragmentShader="uniform vec3 top; uniform vec3 bottom; varying vec3 vPosition; void main() { gl_FragColor = vec4(mix(bottom, top, max(normalize(vPosition).y, 0.0)), 1.0); }"
+      />
+    </mesh>
+  );
+}`,
+  },
+  Player: {
+    imports: [
+      ['react', ['useRef']],
+      ['@react-three/fiber', ['useFrame']],
+      ['@react-three/drei', ['useKeyboardControls']],
+      ['@react-three/rapier', ['CapsuleCollider', 'RigidBody', 'type RapierRigidBody']],
+    ],
+    source: `/** First-person capsule: WASD/arrows to move, space to jump; the camera rides along */
+export function Player({ speed = 5, jumpForce = 5, height = 1.6, radius = 0.4 }: {
+  speed?: number;
+  jumpForce?: number;
+  height?: number;
+  radius?: number;
+}) {
+  const body = useRef<RapierRigidBody>(null);
+  const [, getKeys] = useKeyboardControls();
+  useFrame((state) => {
+    const rb = body.current;
+    if (!rb) return;
+    const { forward, backward, left, right, jump } = getKeys();
+    const velocity = rb.linvel();
+    const direction = new THREE.Vector3(Number(right) - Number(left), 0, Number(backward) - Number(forward))
+      .normalize()
+      .multiplyScalar(speed)
+      .applyEuler(state.camera.rotation);
+    rb.setLinvel({ x: direction.x, y: velocity.y, z: direction.z }, true);
+    if (jump && Math.abs(velocity.y) < 0.05) rb.applyImpulse({ x: 0, y: jumpForce, z: 0 }, true);
+    const p = rb.translation();
+    state.camera.position.set(p.x, p.y + height / 2, p.z);
+  });
+  return (
+    <RigidBody ref={body} colliders={false} type="dynamic" position={[0, height, 0]} enabledRotations={[false, false, false]}>
+      <CapsuleCollider args={[height / 2 - radius, radius]} />
+    </RigidBody>
+  );
+}`,
+  },
+};
+
+function helpersSource(helpers: Set<HelperName>): string {
+  const imports = new ImportSet();
+  imports.addNamespace('three', 'THREE');
+  const used = (['Model', 'Terrain', 'GradientSky', 'Player'] as HelperName[]).filter((h) => helpers.has(h));
+  if (used.includes('Model')) imports.add('@react-three/fiber', 'type ThreeElements');
+  if (used.includes('GradientSky')) imports.add('react', 'useMemo');
+  for (const helper of used) {
+    for (const [specifier, names] of HELPER_SOURCE[helper].imports) imports.add(specifier, ...names);
+  }
+  return `${COMPILED_SCENE_HEADER}\n${imports.source()}\n\n${used.map((h) => HELPER_SOURCE[h].source).join('\n\n')}\n`;
+}
+
+// ============================================================================
+// APP
+// ============================================================================
+
+function canvasAttrs(scene: Scene3DDefinition): string {
+  const renderer = scene.config.renderer ?? {};
+  const toneMapping = renderer.toneMapping ?? scene.postProcessing?.toneMapping?.mode;
+  const gl = [
+    `antialias: ${renderer.antialias ?? true}`,
+    toneMapping ? `toneMapping: ${TONE_MAPPING[toneMapping]}` : null,
+    renderer.outputColorSpace
+      ? `outputColorSpace: ${renderer.outputColorSpace === 'linear' ? 'THREE.LinearSRGBColorSpace' : 'THREE.SRGBColorSpace'}`
+      : null,
+  ].filter(Boolean);
+  return attrs({ shadows: renderer.shadows ?? true, dpr: [1, 2], gl: code(`{ ${gl.join(', ')} }`) });
+}
+
+interface CompiledScene {
+  id: string;
+  component: string;
+  transition?: SceneTransition3D;
+}
+
+function appSource(root: Scene3DDefinition, scenes: CompiledScene[], initialId: string, keyboard: boolean): string {
+  const imports = new ImportSet();
+  const canvas = canvasAttrs(root);
+  if (canvas.includes('THREE.')) imports.addNamespace('three', 'THREE');
+  imports.add('react', 'Suspense');
+  imports.add('@react-three/fiber', 'Canvas');
+  if (keyboard) imports.add('@react-three/drei', 'KeyboardControls');
+  const sceneImports = scenes.map((s) => `import { ${s.component} } from './scenes/${s.component}';`).join('\n');
+  const wrapKeyboard = (canvas: string) =>
+    keyboard
+      ? `<KeyboardControls map={KEYBOARD_MAP}>\n${indentLines(canvas, 1)}\n</KeyboardControls>`
+      : canvas;
+  const keyboardMap = keyboard ? `\nconst KEYBOARD_MAP = ${JSON.stringify(KEYBOARD_MAP)};\n` : '';
+
+  if (scenes.length === 1 && !root.multiScene) {
+    const single = `<Canvas${canvas}>
+  <Suspense fallback={null}>
+    <${scenes[0].component} />
+  </Suspense>
+</Canvas>`;
+    return `${COMPILED_SCENE_HEADER}
+${imports.source()}
+${sceneImports}
+${keyboardMap}
+export default function App() {
+  return (
+    <div data-id="scene-root" style={{ width: '100vw', height: '100vh' }}>
+${indentLines(wrapKeyboard(single), 3)}
+    </div>
+  );
+}
+`;
+  }
+
+  imports.add('react', 'useState', 'useRef');
+  const table = scenes.map((s) => `  ${JSON.stringify(s.id)}: ${s.component},`).join('\n');
+  const transitions = Object.fromEntries(scenes.filter((s) => s.transition).map((s) => [s.id, s.transition]));
+  const switcher = `<Canvas${canvas}>
+  <Suspense fallback={null}>
+    <Scene onNavigate={navigate} />
+  </Suspense>
+</Canvas>`;
+
+  return `${COMPILED_SCENE_HEADER}
+${imports.source()}
+${sceneImports}
+${keyboardMap}
+const SCENES: Record<string, (props: { onNavigate: (sceneId: string) => void }) => React.ReactElement> = {
+${table}
+};
+
+/** Transition into each scene (instant when missing) */
+const TRANSITIONS: Record<string, { type: 'fade' | 'crossfade' | 'wipe' | 'instant'; duration?: number }> = ${JSON.stringify(transitions, null, 2)};
+
+export default function App() {
+  const [sceneId, setSceneId] = useState(${JSON.stringify(initialId)});
+  const [covered, setCovered] = useState(false);
+  const [transition, setTransition] = useState(TRANSITIONS[sceneId]);
+  const timer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const navigate = (target: string) => {
+    if (!SCENES[target] || target === sceneId) return;
+    const next = TRANSITIONS[target];
+    clearTimeout(timer.current);
+    if (!next || next.type === 'instant') {
+      setSceneId(target);
+      return;
+    }
+    // Cover the canvas, swap scenes at the midpoint, then reveal
+    setTransition(next);
+    setCovered(true);
+    timer.current = setTimeout(() => {
+      setSceneId(target);
+      setCovered(false);
+    }, ((next.duration ?? 0.6) * 1000) / 2);
+  };
+
+  const Scene = SCENES[sceneId];
+  const half = ((transition?.duration ?? 0.6) * 1000) / 2;
+  const wipe = transition?.type === 'wipe';
+
+  return (
+    <div data-id="scene-root" style={{ position: 'relative', width: '100vw', height: '100vh', overflow: 'hidden' }}>
+${indentLines(wrapKeyboard(switcher), 3)}
+      <div
+        data-id="scene-transition"
+        style={{
+          position: 'absolute',
+          inset: 0,
+          background: '#000',
+          pointerEvents: 'none',
+          opacity: wipe ? 1 : covered ? 1 : 0,
+          transform: wipe ? (covered ? 'translateX(0)' : 'translateX(-100%)') : undefined,
+          transition: \`\${wipe ? 'transform' : 'opacity'} \${half}ms ease\`,
+        }}
+      />
+    </div>
+  );
+}
+`;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export interface Scene3DCompileResult {
+  files: AppFile[];
+  /** Parts of the definition the compiler approximated or dropped */
+  warnings: string[];
+}
+
+/** Root lights and objects appear in every scene; root camera, controls and environment are defaults */
+function withShared(scene: Scene3DDefinition, root: Scene3DDefinition): Scene3DDefinition {
+  return {
+    ...scene,
+    config: {
+      ...scene.config,
+      camera: scene.config.camera ?? root.config.camera,
+      controls: scene.config.controls ?? root.config.controls,
+    },
+    lights: [...root.lights, ...scene.lights],
+    objects: [...root.objects, ...scene.objects],
+    environment: scene.environment ?? root.environment,
+  };
+}
+
+/**
+ * Compile a validated scene definition to project files. The same
+ * definition always produces the same files.
+ */
+export function compileScene3D(scene: Scene3DDefinition): Scene3DCompileResult {
+  const warnings: string[] = [];
+  const helpers = new Set<HelperName>();
+  const files: AppFile[] = [];
+
+  const graphs = scene.multiScene?.scenes ?? [];
+  const entries =
+    graphs.length > 0
+      ? graphs.map((graph) => ({ id: graph.id, name: graph.name || graph.id, scene: withShared(graph.scene, scene), transition: graph.transition }))
+      : [{ id: 'main', name: 'Main', scene, transition: undefined }];
+
+  const taken = new Set<string>();
+  const compiled: CompiledScene[] = entries.map((entry) => {
+    let component = toComponentName(entry.name, 'Scene');
+    for (let n = 2; taken.has(component); n++) component = `${toComponentName(entry.name, '')}${n}Scene`;
+    taken.add(component);
+
+    const triggers = new Map(
+      (scene.multiScene?.navigationTriggers ?? [])
+        .filter((t) => t.sceneId === entry.id)
+        .map((t) => [t.objectId, t.targetSceneId] as const)
+    );
+    const source = compileScene(entry.scene, component, triggers, graphs.length > 0, helpers, warnings);
+    files.push({ path: `/src/scenes/${component}.tsx`, content: source });
+    return { id: entry.id, component, transition: entry.transition };
+  });
+
+  const initialId = graphs.find((g) => g.isInitial)?.id ?? compiled[0].id;
+  const keyboard = entries.some((e) => !!e.scene.firstPerson);
+
+  return {
+    files: [
+      { path: APP_FILE_PATH, content: appSource(scene, compiled, initialId, keyboard) },
+      ...files,
+      ...(helpers.size > 0 ? [{ path: SCENE_HELPERS_PATH, content: helpersSource(helpers) }] : []),
+      { path: SCENE_FILE_PATH, content: `${JSON.stringify(scene, null, 2)}\n` },
+      { path: ENTRY_FILE_PATH, content: ENTRY_FILE_CONTENT },
+    ],
+    warnings: [...new Set(warnings)],
+  };
+}
+
+/** Whether a file was produced by the compiler (and is regenerated from the definition) */
+export function isCompiledSceneFile(file: AppFile): boolean {
+  return file.content.startsWith(COMPILED_SCENE_HEADER);
+}
+
+/**
+ * The project's scene definition, if it has a valid /src/scene3d.json.
+ * Invalid or unparsable definitions return their errors instead.
+ */
+export function readSceneDefinition(
+  files: AppFile[]
+): { scene: Scene3DDefinition; errors?: undefined } | { scene: null; errors: string[] } | null {
+  const file = files.find((f) => f.path === SCENE_FILE_PATH);
+  if (!file) return null;
+  let data: unknown;
+  try {
+    data = JSON.parse(file.content);
+  } catch (e) {
+    return { scene: null, errors: [`${SCENE_FILE_PATH}: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+  const result = validateScene3D(data);
+  return result.success ? { scene: result.scene } : { scene: null, errors: result.errors };
+}
@@ -0,0 +1,368 @@
+/**
+ * Scene 3D Validation
+ *
+ * Zod schemas for Scene3DDefinition plus the semantic checks the compiler
+ * relies on (unique object ids, collider arity, supported geometry, a
+ * light source, resolvable scene navigation). Errors are `path: message`
+ * strings so they can be fed back to the model for a repair round.
+ */
+
+import { z } from 'zod';
+import type { Object3D, Scene3DDefinition, SceneGraph3D } from '@/types/layoutDesign';
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const Vec3Schema = z.tuple([z.number(), z.number(), z.number()]);
+const UnitSchema = z.number().min(0).max(1);
+
+const CameraSchema = z.object({
+  type: z.enum(['perspective', 'orthographic']).optional(),
+  position: Vec3Schema.optional(),
+  lookAt: Vec3Schema.optional(),
+  fov: z.number().positive().max(180).optional(),
+  near: z.number().positive().optional(),
+  far: z.number().positive().optional(),
+  zoom: z.number().positive().optional(),
+});
+
+const ControlsSchema = z.object({
+  type: z.enum(['orbit', 'trackball', 'fly', 'pointer-lock', 'map']).optional(),
+  enableDamping: z.boolean().optional(),
+  dampingFactor: z.number().min(0).optional(),
+  minDistance: z.number().min(0).optional(),
+  maxDistance: z.number().min(0).optional(),
+  maxPolarAngle: z.number().optional(),
+  enablePan: z.boolean().optional(),
+  enableZoom: z.boolean().optional(),
+  autoRotate: z.boolean().optional(),
+  autoRotateSpeed: z.number().optional(),
+});
+
+const ConfigSchema = z.object({
+  renderer: z
+    .object({
+      antialias: z.boolean().optional(),
+      shadows: z.boolean().optional(),
+      toneMapping: z.enum(['ACESFilmic', 'Linear', 'Reinhard', 'Cinematic']).optional(),
+      outputColorSpace: z.enum(['srgb', 'linear']).optional(),
+    })
+    .optional(),
+  camera: CameraSchema.optional(),
+  controls: ControlsSchema.optional(),
+});
+
+const LightSchema = z.object({
+  type: z.enum(['ambient', 'directional', 'point', 'spot', 'hemisphere', 'area']),
+  position: Vec3Schema.optional(),
+  target: Vec3Schema.optional(),
+  intensity: z.number().min(0).optional(),
+  color: z.string().optional(),
+  castShadow: z.boolean().optional(),
+  groundColor: z.string().optional(),
+  angle: z.number().optional(),
+  penumbra: UnitSchema.optional(),
+  decay: z.number().min(0).optional(),
+});
+
+const MaterialSchema = z.object({
+  type: z.enum(['standard', 'physical', 'basic', 'lambert', 'phong', 'toon', 'shader']),
+  color: z.string().optional(),
+  metalness: UnitSchema.optional(),
+  roughness: UnitSchema.optional(),
+  emissive: z.string().optional(),
+  emissiveIntensity: z.number().min(0).optional(),
+  map: z.string().optional(),
+  normalMap: z.string().optional(),
+  roughnessMap: z.string().optional(),
+  metalnessMap: z.string().optional(),
+  envMap: z.string().optional(),
+  envMapIntensity: z.number().min(0).optional(),
+  transparent: z.boolean().optional(),
+  opacity: UnitSchema.optional(),
+  transmission: UnitSchema.optional(),
+  thickness: z.number().min(0).optional(),
+  ior: z.number().min(1).max(2.333).optional(),
+  clearcoat: UnitSchema.optional(),
+  clearcoatRoughness: UnitSchema.optional(),
+});
+
+const GeometrySchema = z.object({
+  type: z.enum([
+    'box', 'sphere', 'cylinder', 'cone', 'torus', 'torusKnot', 'plane', 'ring',
+    'dodecahedron', 'icosahedron', 'octahedron', 'capsule', 'extrude', 'lathe', 'custom',
+  ]),
+  args: z.array(z.number()).optional(),
+  segments: z.number().int().positive().optional(),
+});
+
+const ColliderSchema = z.object({
+  shape: z.enum(['cuboid', 'ball', 'capsule', 'cylinder', 'cone', 'trimesh', 'heightfield']),
+  args: z.array(z.number()).optional(),
+  sensor: z.boolean().optional(),
+  friction: z.number().min(0).optional(),
+  restitution: z.number().min(0).optional(),
+  density: z.number().min(0).optional(),
+});
+
+const RigidBodySchema = z.object({
+  type: z.enum(['fixed', 'dynamic', 'kinematicPosition', 'kinematicVelocity']),
+  position: Vec3Schema.optional(),
+  rotation: Vec3Schema.optional(),
+  gravityScale: z.number().optional(),
+  linearVelocity: Vec3Schema.optional(),
+  angularVelocity: Vec3Schema.optional(),
+  enabledRotations: z.tuple([z.boolean(), z.boolean(), z.boolean()]).optional(),
+  colliders: z.array(ColliderSchema),
+});
+
+const Object3DSchema: z.ZodType<Object3D> = z.lazy(() =>
+  z.object({
+    id: z.string().min(1),
+    type: z.enum(['mesh', 'group', 'instance', 'line', 'points']),
+    geometry: GeometrySchema.optional(),
+    material: MaterialSchema.optional(),
+    position: Vec3Schema.optional(),
+    rotation: Vec3Schema.optional(),
+    scale: Vec3Schema.optional(),
+    castShadow: z.boolean().optional(),
+    receiveShadow: z.boolean().optional(),
+    children: z.array(Object3DSchema).optional(),
+    modelUrl: z.string().optional(),
+    instanceCount: z.number().int().positive().optional(),
+    rigidBody: RigidBodySchema.optional(),
+  })
+);
+
+const EnvironmentSchema = z.object({
+  background: z.string().optional(),
+  preset: z
+    .enum(['sunset', 'dawn', 'night', 'warehouse', 'forest', 'apartment', 'studio', 'city', 'park', 'lobby'])
+    .optional(),
+  hdriUrl: z.string().optional(),
+  fog: z.object({ color: z.string().optional(), near: z.number().optional(), far: z.number().optional() }).optional(),
+  ground: z
+    .object({ color: z.string().optional(), receiveShadow: z.boolean().optional(), size: z.number().positive().optional() })
+    .optional(),
+});
+
+const PostProcessingSchema = z.object({
+  bloom: z
+    .object({ intensity: z.number().optional(), threshold: z.number().optional(), smoothing: z.number().optional() })
+    .optional(),
+  ssao: z
+    .object({ intensity: z.number().optional(), radius: z.number().optional(), samples: z.number().int().optional() })
+    .optional(),
+  depthOfField: z
+    .object({
+      focusDistance: z.number().optional(),
+      focalLength: z.number().optional(),
+      bokehScale: z.number().optional(),
+    })
+    .optional(),
+  chromaticAberration: z.object({ offset: z.tuple([z.number(), z.number()]).optional() }).optional(),
+  vignette: z.object({ offset: z.number().optional(), darkness: z.number().optional() }).optional(),
+  toneMapping: z.object({ mode: z.enum(['ACESFilmic', 'Linear', 'Reinhard']).optional() }).optional(),
+});
+
+const TerrainSchema = z.object({
+  type: z.enum(['perlin', 'simplex', 'heightmap', 'flat']),
+  size: z.tuple([z.number().positive(), z.number().positive()]).optional(),
+  segments: z.tuple([z.number().int().positive(), z.number().int().positive()]).optional(),
+  heightRange: z.tuple([z.number(), z.number()]).optional(),
+  frequency: z.number().positive().optional(),
+  octaves: z.number().int().min(1).max(8).optional(),
+  heightmapUrl: z.string().optional(),
+  material: MaterialSchema.optional(),
+  physics: z.boolean().optional(),
+});
+
+const SkyboxSchema = z.object({
+  type: z.enum(['color', 'gradient', 'cubemap', 'hdri', 'procedural']),
+  colors: z.array(z.string()).optional(),
+  cubemapUrls: z.array(z.string()).optional(),
+  hdriUrl: z.string().optional(),
+  sunPosition: Vec3Schema.optional(),
+  turbidity: z.number().optional(),
+  rayleigh: z.number().optional(),
+});
+
+const FirstPersonSchema = z.object({
+  moveSpeed: z.number().positive().optional(),
+  jumpForce: z.number().min(0).optional(),
+  mouseSensitivity: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+  radius: z.number().positive().optional(),
+  autoLock: z.boolean().optional(),
+});
+
+export const Scene3DDefinitionSchema: z.ZodType<Scene3DDefinition> = z.lazy(() =>
+  z.object({
+    config: ConfigSchema,
+    lights: z.array(LightSchema),
+    objects: z.array(Object3DSchema),
+    environment: EnvironmentSchema.optional(),
+    postProcessing: PostProcessingSchema.optional(),
+    physics: z
+      .object({
+        gravity: Vec3Schema.optional(),
+        timeStep: z.number().positive().optional(),
+        debug: z.boolean().optional(),
+      })
+      .optional(),
+    terrain: TerrainSchema.optional(),
+    skybox: SkyboxSchema.optional(),
+    firstPerson: FirstPersonSchema.optional(),
+    multiScene: z
+      .object({
+        scenes: z.array(
+          z.object({
+            id: z.string().min(1),
+            name: z.string(),
+            scene: Scene3DDefinitionSchema,
+            isInitial: z.boolean().optional(),
+            transition: z
+              .object({
+                type: z.enum(['fade', 'crossfade', 'wipe', 'instant']),
+                duration: z.number().min(0).optional(),
+              })
+              .optional(),
+          })
+        ),
+        navigationTriggers: z
+          .array(z.object({ sceneId: z.string(), targetSceneId: z.string(), objectId: z.string() }))
+          .optional(),
+      })
+      .optional(),
+  })
+);
+
+// ============================================================================
+// SEMANTIC CHECKS
+// ============================================================================
+
+/** Geometry the compiler cannot build from args alone */
+const UNSUPPORTED_GEOMETRY = new Set(['extrude', 'lathe', 'custom']);
+
+/** Required collider args per shape (trimesh is generated from the mesh) */
+const COLLIDER_ARITY: Record<string, number> = { cuboid: 3, ball: 1, capsule: 2, cylinder: 2, cone: 2 };
+
+function collectObjectIds(objects: Object3D[], ids: string[] = []): string[] {
+  for (const object of objects) {
+    ids.push(object.id);
+    if (object.children) collectObjectIds(object.children, ids);
+  }
+  return ids;
+}
+
+function checkObjects(objects: Object3D[], path: string, errors: string[]): void {
+  objects.forEach((object, i) => {
+    const at = `${path}[${i}] (${object.id})`;
+    if ((object.type === 'mesh' || object.type === 'instance') && !object.geometry && !object.modelUrl) {
+      errors.push(`${at}: ${object.type} needs a geometry or a modelUrl`);
+    }
+    if (object.type === 'instance' && !object.instanceCount) {
+      errors.push(`${at}: instance needs an instanceCount`);
+    }
+    if (object.geometry && UNSUPPORTED_GEOMETRY.has(object.geometry.type)) {
+      errors.push(`${at}: ${object.geometry.type} geometry is not supported; use a primitive or a modelUrl`);
+    }
+    if (object.material?.type === 'shader') {
+      errors.push(`${at}: shader materials are not supported; use standard or physical`);
+    }
+    object.rigidBody?.colliders.forEach((collider, c) => {
+      if (collider.shape === 'heightfield') {
+        errors.push(`${at}.rigidBody.colliders[${c}]: heightfield colliders are only generated for terrain`);
+        return;
+      }
+      const arity = COLLIDER_ARITY[collider.shape];
+      if (arity && collider.args?.length !== arity) {
+        errors.push(`${at}.rigidBody.colliders[${c}]: ${collider.shape} collider needs ${arity} arg(s)`);
+      }
+    });
+    if (object.children) checkObjects(object.children, `${at}.children`, errors);
+  });
+}
+
+/**
+ * Check one scene. `shared` is the multi-scene root when checking one of its
+ * scenes: its objects and lights are compiled into every scene.
+ */
+function checkScene(scene: Scene3DDefinition, path: string, errors: string[], shared: Scene3DDefinition | null): void {
+  const ids = collectObjectIds([...(shared?.objects ?? []), ...scene.objects]);
+  const duplicates = [...new Set(ids.filter((id, i) => ids.indexOf(id) !== i))];
+  if (duplicates.length > 0) errors.push(`${path}objects: duplicate object id(s) ${duplicates.join(', ')}`);
+  checkObjects(scene.objects, `${path}objects`, errors);
+
+  const isLit = (s: Scene3DDefinition) =>
+    s.lights.length > 0 ||
+    !!(s.environment?.preset || s.environment?.hdriUrl || s.skybox?.type === 'hdri' || s.skybox?.type === 'cubemap');
+  if (!isLit(scene) && !(shared && isLit(shared)) && !scene.multiScene) {
+    errors.push(`${path}lights: the scene has no light source (add lights or an environment preset)`);
+  }
+
+  const { terrain, skybox } = scene;
+  if (terrain?.type === 'heightmap' && !terrain.heightmapUrl) {
+    errors.push(`${path}terrain: heightmap terrain needs a heightmapUrl`);
+  }
+  if (skybox?.type === 'cubemap' && skybox.cubemapUrls?.length !== 6) {
+    errors.push(`${path}skybox: cubemap skybox needs 6 cubemapUrls`);
+  }
+  if (skybox?.type === 'gradient' && (skybox.colors?.length ?? 0) < 2) {
+    errors.push(`${path}skybox: gradient skybox needs 2 colors [top, bottom]`);
+  }
+  if ((skybox?.type === 'hdri' && !skybox.hdriUrl) || (skybox?.type === 'color' && !skybox.colors?.length)) {
+    errors.push(`${path}skybox: ${skybox.type} skybox is missing its ${skybox.type === 'hdri' ? 'hdriUrl' : 'color'}`);
+  }
+
+  if (!scene.multiScene) return;
+  if (shared) {
+    errors.push(`${path}multiScene: scenes cannot contain further scenes`);
+    return;
+  }
+  const scenes: SceneGraph3D[] = scene.multiScene.scenes;
+  if (scenes.length === 0) errors.push(`${path}multiScene.scenes: at least one scene is required`);
+  const sceneIds = scenes.map((s) => s.id);
+  if (new Set(sceneIds).size !== sceneIds.length) errors.push(`${path}multiScene.scenes: scene ids must be unique`);
+  if (scenes.filter((s) => s.isInitial).length > 1) {
+    errors.push(`${path}multiScene.scenes: only one scene can be initial`);
+  }
+  scenes.forEach((s, i) => checkScene(s.scene, `${path}multiScene.scenes[${i}].scene.`, errors, scene));
+
+  scene.multiScene.navigationTriggers?.forEach((trigger, i) => {
+    const at = `${path}multiScene.navigationTriggers[${i}]`;
+    const from = scenes.find((s) => s.id === trigger.sceneId);
+    if (!from) errors.push(`${at}: unknown scene ${trigger.sceneId}`);
+    if (!sceneIds.includes(trigger.targetSceneId)) errors.push(`${at}: unknown target scene ${trigger.targetSceneId}`);
+    if (from && !collectObjectIds([...scene.objects, ...from.scene.objects]).includes(trigger.objectId)) {
+      errors.push(`${at}: scene ${trigger.sceneId} has no object ${trigger.objectId}`);
+    }
+  });
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export type Scene3DValidationResult =
+  | { success: true; scene: Scene3DDefinition }
+  | { success: false; errors: string[] };
+
+/**
+ * Validate untrusted scene data (model output, an edited scene file):
+ * shape first, then the semantic checks the compiler relies on.
+ */
+export function validateScene3D(data: unknown): Scene3DValidationResult {
+  const parsed = Scene3DDefinitionSchema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    };
+  }
+
+  const errors: string[] = [];
+  checkScene(parsed.data, '', errors, null);
+  return errors.length > 0 ? { success: false, errors } : { success: true, scene: parsed.data };
+}
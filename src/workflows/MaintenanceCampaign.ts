@@ -12,13 +12,32 @@
  *   0. Load repo into WebContainer (once)
  *   1. Run DiscoveryAgent → auto-populate goalQueue with orphaned features
  *   2. Execute goals from queue (Priority 1 — directed goals)
- *   3. Run Chaos Monkey stress tests (Priority 2 — bug hunting)
- *   4. Diagnose + patch any crashes found
+ *   3. Run Chaos Monkey stress tests (Priority 2 — bug hunting): the AI
+ *      suite plus ChaosProfile.fuzzRuns seeded fuzz cases, sharded across
+ *      ChaosProfile.concurrentGremlins sandboxes
+ *   4. Diagnose + patch any crashes found. Crashes are grouped by
+ *      fingerprint and their tests re-run ChaosProfile.flakyReruns times;
+ *      flaky ones go to a quarantine list instead of the fix budget
  *   5. Verify patches, log results
  *   6. Repeat until budget exhausted or time limit reached
+ *   7. autoCommit: push verified patches to dream/<date> and open a PR
+ *
+ * Regression Guard:
+ *   After every verified patch the baseline chaos suite re-runs against the
+ *   cumulative patch set. New crashes that reproduce on a re-run are bisected
+ *   to the patch that caused them, which is rolled back (with later patches to
+ *   the same files) and its goal marked FAILED. Stopping ends the bisect.
+ *
+ * Checkpoints:
+ *   State is saved to IndexedDB at every phase transition. A campaign created
+ *   with `resumeFrom` remounts the saved files, skips completed setup steps
+ *   and continues the priority loop with the saved queue, counters and time.
  *
  * Circuit Breakers:
  *   - maxFixesPerCycle from ChaosProfile
+ *   - maxCostPerCycle from ChaosProfile (or the costLimitUsd option): every
+ *     model call reported to the call meter is priced, and the cycle stops
+ *     once the cap is spent
  *   - sessionDuration from ChaosProfile
  *   - Manual stop via abort signal
  */
@@ -31,16 +50,39 @@ import { getWorkflowAuditor } from '@/agents/WorkflowAuditor';
 import { getVisualCriticService } from '@/services/VisualCriticService';
 import { getDependencyGraphService } from '@/services/DependencyGraphService';
 import { getWebContainerService } from '@/services/WebContainerService';
+import { SandboxPool, WebContainerSandbox } from '@/services/sandboxPool';
+import { parseRepoSource, describeRepoSource } from '@/services/repoSources';
+import {
+  buildPatchCommitMessage,
+  dreamBranchName,
+  getDreamCommitService,
+  type DreamPatchTrigger,
+} from '@/services/DreamCommitService';
+import { saveDreamCheckpoint, deleteDreamCheckpoint } from '@/services/DreamCheckpointDatabase';
+import { subscribeModelCalls } from '@/services/modelGateway/meter';
 import { getChaosProfile } from '@/config/chaosProfile';
+import { priceModelCall } from '@/config/modelPricing';
+import { bisectPatches, revertPatches, touchedPaths, withDependents } from '@/utils/patchBisect';
+import { applyFileEdits, describeFileEdits } from '@/utils/fileEdits';
+import { crashFingerprint } from '@/utils/crashFingerprint';
 import type { AppFile } from '@/types/railway';
-import type { AutonomyGoal } from '@/types/autonomy';
+import type { RepoSource } from '@/types/repoSource';
+import type { TestSandboxFactory } from '@/types/sandbox';
+import type { AgentTaskResult, AutonomyGoal, FileEdit } from '@/types/autonomy';
+import type { ModelCallRecord } from '@/types/modelGateway';
 import type {
   ChaosProfile,
   ChaosProfileName,
   CampaignPhase,
+  CampaignStep,
+  CrashEntry,
   CrashReport,
+  DreamAutoCommit,
+  DreamCheckpoint,
+  DreamCost,
   DreamLog,
   DreamPatch,
+  DreamPhaseUsage,
   DreamGoal,
   DreamStats,
   DiscoveryReport,
@@ -57,6 +99,19 @@ import type {
 /** How often to update stats (ms) */
 const STATS_INTERVAL = 2000;
 
+/** Identifies a crash across chaos runs, even after patches move code or reword errors */
+function crashSignature(crash: CrashEntry): string {
+  return crash.fingerprint ?? crashFingerprint(crash);
+}
+
+/** Stop reasons that end a campaign for good; anything else stays resumable */
+const FINAL_STOP_REASONS: ReadonlySet<DreamLog['stopReason']> = new Set([
+  'all_stable',
+  'time_limit',
+  'budget_exhausted',
+  'fix_limit',
+]);
+
 // ============================================================================
 // CAMPAIGN
 // ============================================================================
@@ -68,12 +123,33 @@ export class MaintenanceCampaign {
   private fixCount = 0;
   private profile: ChaosProfile;
   private profileName: ChaosProfileName;
+  private autoCommit: boolean;
+  private createSandbox: TestSandboxFactory;
+  private resumeFrom: DreamCheckpoint | null;
+  private repoUrl = '';
+  private branch = 'main';
+  private completedSteps = new Set<CampaignStep>();
+  /** Files changed since the last checkpoint */
+  private filesDirty = false;
+  /** Time and fixes per phase, in the order phases were first entered */
+  private phaseUsage = new Map<CampaignPhase, DreamPhaseUsage>();
+  private phaseEnteredAt = 0;
+  private fixCountAtPhaseEntry = 0;
+  /** Cost cap of a cycle (USD) */
+  private costLimitUsd: number;
+  /** Model spend of the current cycle */
+  private cost: DreamCost;
+  private spentAtPhaseEntry = 0;
 
   // State
   private files: AppFile[] = [];
   private goalQueue: DreamGoal[] = [];
   private crashReports: CrashReport[] = [];
+  /** Flaky crashes, kept out of diagnosis and the fix budget */
+  private quarantine: CrashEntry[] = [];
   private patches: DreamPatch[] = [];
+  /** Baseline chaos suite and the crashes it found before any patch */
+  private regressionSuite: { testCode: string; knownCrashes: Set<string> } | null = null;
   private discoveryReport: DiscoveryReport | null = null;
 
   // Stats
@@ -96,6 +172,14 @@ export class MaintenanceCampaign {
   constructor(options: {
     profileName: ChaosProfileName;
     goalQueue: DreamGoal[];
+    /** Push verified patches to a dream/<date> branch and open a PR */
+    autoCommit?: boolean;
+    /** Continue an interrupted campaign instead of starting over */
+    resumeFrom?: DreamCheckpoint | null;
+    /** Cost cap per cycle in USD (default: the profile's maxCostPerCycle) */
+    costLimitUsd?: number;
+    /** Sandboxes for parallel gremlins (default: directories of the WebContainer) */
+    createSandbox?: TestSandboxFactory;
     onLog: DreamLogCallback;
     onPhaseChange: PhaseChangeCallback;
     onStatsUpdate: StatsUpdateCallback;
@@ -105,6 +189,11 @@ export class MaintenanceCampaign {
   }) {
     this.profileName = options.profileName;
     this.profile = getChaosProfile(options.profileName);
+    this.autoCommit = options.autoCommit ?? false;
+    this.createSandbox = options.createSandbox ?? ((id) => new WebContainerSandbox(id));
+    this.resumeFrom = options.resumeFrom ?? null;
+    this.costLimitUsd = options.costLimitUsd ?? this.profile.maxCostPerCycle;
+    this.cost = this.emptyCost();
     this.goalQueue = [...options.goalQueue];
     this.onLog = options.onLog;
     this.onPhaseChange = options.onPhaseChange;
@@ -118,16 +207,47 @@ export class MaintenanceCampaign {
   /**
    * Run the full maintenance campaign.
    *
-   * @param repoUrl - GitHub repo in "owner/repo" format
-   * @param token - GitHub PAT for private repos (optional)
+   * @param repo - "owner/repo", a GitHub/GitLab/git URL (see parseRepoSource),
+   *   or any RepoSource (uploaded zip, local folder…)
+   * @param token - Access token for private repos (optional)
    * @param branch - Branch to target (default: main)
    * @returns DreamLog with full results
    */
   async run(
-    repoUrl: string,
+    repo: string | RepoSource,
     token?: string,
     branch: string = 'main'
   ): Promise<DreamLog> {
+    const source = typeof repo === 'string' ? parseRepoSource(repo, { token, ref: branch }) : repo;
+    const repoUrl = describeRepoSource(source);
+    this.repoUrl = repoUrl;
+    this.branch = branch;
+
+    const unsubscribe = subscribeModelCalls((call) => this.recordModelCall(call));
+    try {
+      const log = await this.runCycle(source, repoUrl, branch);
+      if (this.autoCommit) {
+        log.autoCommit = await this.commitVerifiedPatches(source, log);
+      }
+      if (FINAL_STOP_REASONS.has(log.stopReason)) {
+        await deleteDreamCheckpoint(repoUrl).catch((err) =>
+          console.warn('[MaintenanceCampaign] Could not delete checkpoint:', err)
+        );
+      }
+
+      await this.setPhase('DONE');
+      // The LOGGING phase (auto-commit) ends after the log was built
+      log.phaseUsage = [...this.phaseUsage.values()];
+      return log;
+    } finally {
+      unsubscribe();
+    }
+  }
+
+  /**
+   * Load, discover, build goals and hunt bugs until a stop condition.
+   */
+  private async runCycle(source: RepoSource, repoUrl: string, branch: string): Promise<DreamLog> {
     this.startTime = Date.now();
     this.aborted = false;
     this.fixCount = 0;
@@ -136,7 +256,18 @@ export class MaintenanceCampaign {
     this.bugsFixed = 0;
     this.discoveries = 0;
     this.crashReports = [];
+    this.quarantine = [];
     this.patches = [];
+    this.regressionSuite = null;
+    this.completedSteps = new Set();
+    this.filesDirty = true;
+    this.phaseUsage = new Map();
+    this.cost = this.emptyCost();
+
+    if (this.resumeFrom) {
+      this.restoreCheckpoint(this.resumeFrom);
+      this.resumeFrom = null;
+    }
 
     // Start stats ticker
     const statsInterval = setInterval(() => this.emitStats(), STATS_INTERVAL);
@@ -144,100 +275,123 @@ export class MaintenanceCampaign {
     try {
       // ── Phase 0: Load Repo ──────────────────────────────────────────
       await this.setPhase('LOADING');
-      this.log(`Loading repository: ${repoUrl} (branch: ${branch})`);
-
       const webContainer = getWebContainerService();
-      this.files = await webContainer.mountGitHubRepo(repoUrl, token, branch);
-      this.log(`Repository loaded: ${this.files.length} files mounted`);
+
+      if (this.completedSteps.has('load')) {
+        this.log(`Remounting ${this.files.length} checkpointed files (branch: ${branch})`);
+        await webContainer.mountFiles(this.files);
+      } else {
+        this.log(`Loading repository: ${repoUrl} (branch: ${branch})`);
+        this.files = await webContainer.mountRepoSource(source);
+        this.filesDirty = true;
+        this.completedSteps.add('load');
+        this.log(`Repository loaded: ${this.files.length} files mounted`);
+      }
 
       if (this.aborted) return this.buildLog(repoUrl, 'user_stopped');
+      if (this.isCostCapReached()) return this.buildLog(repoUrl, 'budget_exhausted');
 
       // ── Phase 1: Spec Audit (The Project Manager) ───────────────────
-      // Look for a spec file to know WHAT to build
-      const specFile = this.files.find(
-        (f) => f.path.endsWith('TITAN_SPEC.md') || f.path.endsWith('SPEC.md')
-      );
-
-      if (specFile) {
-        await this.setPhase('DISCOVERING');
-        this.log(`Found Specification: ${specFile.path}. Running Audit...`);
-
-        const specAuditor = getSpecAuditor();
-        const specGoals = await specAuditor.auditSpec(specFile.content, this.files);
-
-        if (specGoals.length > 0) {
-          this.log(`Spec Audit added ${specGoals.length} new goals from requirements.`);
-          this.goalQueue.push(...specGoals);
-          this.onGoalQueueUpdate(this.goalQueue);
-        } else {
-          this.log('Spec Audit found no gaps — all requirements appear covered.');
+      if (!this.completedSteps.has('spec_audit')) {
+        // Look for a spec file to know WHAT to build
+        const specFile = this.files.find(
+          (f) => f.path.endsWith('TITAN_SPEC.md') || f.path.endsWith('SPEC.md')
+        );
+
+        if (specFile) {
+          await this.setPhase('DISCOVERING');
+          this.log(`Found Specification: ${specFile.path}. Running Audit...`);
+
+          const specAuditor = getSpecAuditor();
+          const specGoals = await specAuditor.auditSpec(specFile.content, this.files);
+
+          if (specGoals.length > 0) {
+            this.log(`Spec Audit added ${specGoals.length} new goals from requirements.`);
+            this.goalQueue.push(...specGoals);
+            this.onGoalQueueUpdate(this.goalQueue);
+          } else {
+            this.log('Spec Audit found no gaps — all requirements appear covered.');
+          }
         }
+        this.completedSteps.add('spec_audit');
       }
 
       if (this.aborted) return this.buildLog(repoUrl, 'user_stopped');
+      if (this.isCostCapReached()) return this.buildLog(repoUrl, 'budget_exhausted');
 
       // ── Phase 2: Feature Discovery (The Archaeologist) ──────────────
-      await this.setPhase('DISCOVERING');
-      this.log('Running Feature Discovery Agent...');
-
-      const discoveryAgent = getDiscoveryAgent();
-      this.discoveryReport = await discoveryAgent.scanRepository(this.files);
-      this.discoveries = this.discoveryReport.discoveries.filter(
-        (d) => d.status !== 'ACTIVE'
-      ).length;
-
-      this.log(`Discovery complete: ${this.discoveryReport.discoveries.length} features scanned`);
-      this.log(`  Active: ${this.discoveryReport.discoveries.filter((d) => d.status === 'ACTIVE').length}`);
-      this.log(`  Partially connected: ${this.discoveryReport.discoveries.filter((d) => d.status === 'PARTIALLY_CONNECTED').length}`);
-      this.log(`  Disconnected: ${this.discoveryReport.discoveries.filter((d) => d.status === 'DISCONNECTED').length}`);
-
-      this.onDiscoveryReport(this.discoveryReport);
-
-      // Auto-populate goal queue with discovery findings
-      const discoveryGoals = discoveryAgent.generateWiringGoals(this.discoveryReport);
-      if (discoveryGoals.length > 0) {
-        this.log(`Auto-queued ${discoveryGoals.length} wiring goals from discoveries`);
-        this.goalQueue.push(...discoveryGoals);
-        this.onGoalQueueUpdate(this.goalQueue);
+      if (!this.completedSteps.has('discovery')) {
+        await this.setPhase('DISCOVERING');
+        this.log('Running Feature Discovery Agent...');
+
+        const discoveryAgent = getDiscoveryAgent();
+        this.discoveryReport = await discoveryAgent.scanRepository(this.files);
+        this.discoveries = this.discoveryReport.discoveries.filter(
+          (d) => d.status !== 'ACTIVE'
+        ).length;
+
+        this.log(`Discovery complete: ${this.discoveryReport.discoveries.length} features scanned`);
+        this.log(`  Active: ${this.discoveryReport.discoveries.filter((d) => d.status === 'ACTIVE').length}`);
+        this.log(`  Partially connected: ${this.discoveryReport.discoveries.filter((d) => d.status === 'PARTIALLY_CONNECTED').length}`);
+        this.log(`  Disconnected: ${this.discoveryReport.discoveries.filter((d) => d.status === 'DISCONNECTED').length}`);
+
+        this.onDiscoveryReport(this.discoveryReport);
+
+        // Auto-populate goal queue with discovery findings
+        const discoveryGoals = discoveryAgent.generateWiringGoals(this.discoveryReport);
+        if (discoveryGoals.length > 0) {
+          this.log(`Auto-queued ${discoveryGoals.length} wiring goals from discoveries`);
+          this.goalQueue.push(...discoveryGoals);
+          this.onGoalQueueUpdate(this.goalQueue);
+        }
+        this.completedSteps.add('discovery');
       }
 
       if (this.aborted) return this.buildLog(repoUrl, 'user_stopped');
+      if (this.isCostCapReached()) return this.buildLog(repoUrl, 'budget_exhausted');
 
       // ── Phase 3: Temporal Audit (The Time Machine) ────────────────────
-      // Discover time-dependent logic and simulate it
-      this.log('Running Temporal Workflow Auditor...');
-      const workflowAuditor = getWorkflowAuditor();
-      const workflows = await workflowAuditor.discoverWorkflows(this.files);
-
-      if (workflows.length > 0) {
-        this.log(`Found ${workflows.length} temporal workflow(s). Running simulations...`);
-
-        for (const workflow of workflows) {
-          if (this.aborted) return this.buildLog(repoUrl, 'user_stopped');
-
-          const result = await workflowAuditor.runWorkflow(workflow);
-          this.log(`  ${result.success ? '✅' : '❌'} ${workflow.name} (${result.stepsPassed}/${result.totalSteps} steps)`);
-
-          if (!result.success && result.failureReason) {
-            // Generate a fix goal for the failed workflow
-            const fixGoal = {
-              id: `temporal_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-              prompt: `[Temporal Fix] ${workflow.name}: ${result.failureReason}`,
-              status: 'PENDING' as const,
-              source: 'temporal' as const,
-              createdAt: Date.now(),
-            };
-            this.goalQueue.push(fixGoal);
+      if (!this.completedSteps.has('temporal_audit')) {
+        // Discover time-dependent logic and simulate it
+        this.log('Running Temporal Workflow Auditor...');
+        const workflowAuditor = getWorkflowAuditor();
+        const workflows = await workflowAuditor.discoverWorkflows(this.files);
+
+        if (workflows.length > 0) {
+          this.log(`Found ${workflows.length} temporal workflow(s). Running simulations...`);
+
+          for (const workflow of workflows) {
+            if (this.aborted) return this.buildLog(repoUrl, 'user_stopped');
+            if (this.isCostCapReached()) return this.buildLog(repoUrl, 'budget_exhausted');
+
+            const result = await workflowAuditor.runWorkflow(workflow);
+            this.log(`  ${result.success ? '✅' : '❌'} ${workflow.name} (${result.stepsPassed}/${result.totalSteps} steps)`);
+
+            if (!result.success && result.failureReason) {
+              // Generate a fix goal for the failed workflow
+              const fixGoal = {
+                id: `temporal_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+                prompt: `[Temporal Fix] ${workflow.name}: ${result.failureReason}`,
+                status: 'PENDING' as const,
+                source: 'temporal' as const,
+                createdAt: Date.now(),
+              };
+              this.goalQueue.push(fixGoal);
+            }
           }
-        }
 
-        this.onGoalQueueUpdate(this.goalQueue);
-        this.log('Temporal audit complete.');
-      } else {
-        this.log('No temporal logic found — skipping workflow simulations.');
+          this.onGoalQueueUpdate(this.goalQueue);
+          this.log('Temporal audit complete.');
+        } else {
+          this.log('No temporal logic found — skipping workflow simulations.');
+        }
+        this.completedSteps.add('temporal_audit');
       }
 
       if (this.aborted) return this.buildLog(repoUrl, 'user_stopped');
+      if (this.isCostCapReached()) return this.buildLog(repoUrl, 'budget_exhausted');
+
+      await this.prepareRegressionGuard();
 
       // ── Priority Loop ───────────────────────────────────────────────
       while (this.withinBudget()) {
@@ -255,7 +409,10 @@ export class MaintenanceCampaign {
 
         // If no bugs found, we're stable
         if (chaosResult.crashes.length === 0) {
-          this.log('Chaos Monkey found no crashes. App is stable!');
+          this.log(
+            'Chaos Monkey found no crashes. App is stable!' +
+              (this.quarantine.length > 0 ? ` (${this.quarantine.length} quarantined as flaky)` : '')
+          );
           return this.buildLog(repoUrl, 'all_stable');
         }
 
@@ -264,12 +421,16 @@ export class MaintenanceCampaign {
           if (!this.withinBudget()) break;
           if (this.aborted) return this.buildLog(repoUrl, 'user_stopped');
 
-          await this.diagnoseAndPatch(crash.error, crash.stackTrace, crash.file);
+          await this.diagnoseAndPatch(crash);
         }
       }
 
-      // Budget exhausted
-      const stopReason = this.isTimeExpired() ? 'time_limit' : 'budget_exhausted';
+      // Out of time, money or fixes
+      const stopReason = this.isTimeExpired()
+        ? 'time_limit'
+        : this.isCostCapReached()
+          ? 'budget_exhausted'
+          : 'fix_limit';
       this.log(`Campaign ending: ${stopReason}`);
       return this.buildLog(repoUrl, stopReason);
     } catch (error) {
@@ -278,7 +439,6 @@ export class MaintenanceCampaign {
       return this.buildLog(repoUrl, 'error');
     } finally {
       clearInterval(statsInterval);
-      await this.setPhase('DONE');
     }
   }
 
@@ -339,8 +499,8 @@ export class MaintenanceCampaign {
         // Snapshot files before applying so we can revert on failure
         const snapshot = this.files.map((f) => ({ ...f }));
 
-        // Apply the generated code
-        await this.applyCode(result.output, goal.id);
+        // Apply the generated edits
+        const applied = await this.applyCode(result);
 
         // 2. VERIFY (Technical): Does it compile?
         await this.setPhase('VERIFYING');
@@ -349,7 +509,7 @@ export class MaintenanceCampaign {
 
         if (!validation.valid) {
           // Technical Failure → Revert
-          this.files = snapshot;
+          await this.restoreFiles(snapshot, applied);
           goal.status = 'FAILED';
           goal.errorMessage =
             'Build failed: ' +
@@ -366,7 +526,7 @@ export class MaintenanceCampaign {
 
           if (critique.verdict === 'regenerate') {
             // Visual Failure → Revert
-            this.files = snapshot;
+            await this.restoreFiles(snapshot, applied);
             goal.status = 'FAILED';
             goal.errorMessage = `Visual Verification Failed (Score: ${critique.overallScore}/10): ${critique.issues[0]?.description}`;
             this.log('Visual Critic rejected the build. Reverting.');
@@ -391,7 +551,7 @@ export class MaintenanceCampaign {
 
               if (testReport.crashes.length > 0) {
                 // Functional Failure → Revert
-                this.files = snapshot;
+                await this.restoreFiles(snapshot, applied);
                 goal.status = 'FAILED';
                 goal.errorMessage = `Functional Verification Failed: ${testReport.crashes[0].error}`;
                 this.log(
@@ -403,9 +563,11 @@ export class MaintenanceCampaign {
                 goal.completedAt = Date.now();
                 this.goalsCompleted++;
                 this.fixCount++;
+                this.recordGoalPatch(goal, snapshot, applied, result.output);
                 this.log(
                   `Goal verified (Visual: ${critique.overallScore}/10, Func: PASS).`
                 );
+                await this.guardAgainstRegressions();
               }
             } catch (testErr) {
               // If test generation itself fails, accept if visuals passed (soft fail)
@@ -414,9 +576,11 @@ export class MaintenanceCampaign {
               goal.completedAt = Date.now();
               this.goalsCompleted++;
               this.fixCount++;
+              this.recordGoalPatch(goal, snapshot, applied, result.output);
               this.log(
                 `Goal verified (Visual: ${critique.overallScore}/10). Functional test skipped.`
               );
+              await this.guardAgainstRegressions();
             }
           }
         }
@@ -465,26 +629,51 @@ export class MaintenanceCampaign {
       };
     }
 
-    // 2. Generate test suite
-    const testCode = await chaosAgent.generateTestSuite(
+    // 2. Generate test suite, plus seeded fuzz cases that need no model
+    let testCode = await chaosAgent.generateTestSuite(
       elements,
       this.files,
       this.profile
     );
     this.log(`Generated test suite (${testCode.length} chars)`);
 
-    // 3. Execute tests in WebContainer
-    const webContainer = getWebContainerService();
-    const executeShell = webContainer.executeShell.bind(webContainer);
-    const writeFile = webContainer.writeFile.bind(webContainer);
-    let report = await chaosAgent.runTests(
-      executeShell,
-      testCode,
-      { delay: this.profile.actionDelay, writeFile }
-    );
+    const fuzzSeed = Math.floor(Math.random() * 2 ** 32);
+    const fuzzSuite = chaosAgent.generateFuzzSuite(elements, this.files, {
+      seed: fuzzSeed,
+      runs: this.profile.fuzzRuns,
+    });
+    if (fuzzSuite) {
+      testCode = `${testCode}\n\n${fuzzSuite}`;
+      this.log(`Added ${this.profile.fuzzRuns} fuzz cases (seed ${fuzzSeed})`);
+    }
+
+    // 3. Execute tests in WebContainer, sharded if the profile runs parallel gremlins,
+    //    and re-run the failing ones to classify their crashes
+    let report: CrashReport;
+    if (this.profile.concurrentGremlins > 1) {
+      report = await this.runChaosSuiteInPool(testCode);
+    } else {
+      const webContainer = getWebContainerService();
+      const executeShell = webContainer.executeShell.bind(webContainer);
+      const writeFile = webContainer.writeFile.bind(webContainer);
+      report = await chaosAgent.runTests(
+        executeShell,
+        testCode,
+        { delay: this.profile.actionDelay, writeFile }
+      );
+      report = {
+        ...report,
+        crashes: await chaosAgent.rerunFailingTests(executeShell, testCode, this.skipQuarantined(report.crashes), {
+          delay: this.profile.actionDelay,
+          reruns: this.profile.flakyReruns,
+          writeFile,
+        }),
+      };
+    }
 
-    // Track vitest results
+    // Track vitest results; only deterministic crashes go on to diagnosis
     this.crashReports.push(report);
+    report = { ...report, crashes: this.quarantineFlaky(report.crashes) };
     this.bugsFound += report.crashes.length;
     this.log(`Chaos vitest results: ${report.testsRun} tests run, ${report.crashes.length} crashes found`);
 
@@ -520,6 +709,71 @@ export class MaintenanceCampaign {
     return report;
   }
 
+  /**
+   * Run the chaos suite sharded across a pool of concurrentGremlins sandboxes,
+   * each with a copy of the current files. The sandboxes only live for the run.
+   */
+  private async runChaosSuiteInPool(testCode: string): Promise<CrashReport> {
+    const pool = new SandboxPool({
+      size: this.profile.concurrentGremlins,
+      createSandbox: this.createSandbox,
+    });
+    this.log(`Sharding the suite across ${pool.size} parallel gremlins...`);
+
+    try {
+      await pool.prepare(this.files);
+      const chaosAgent = getQAChaosAgent();
+      const report = await chaosAgent.runTestsInPool(pool, testCode, { delay: this.profile.actionDelay });
+      const crashes = await chaosAgent.rerunFailingTestsInPool(pool, testCode, this.skipQuarantined(report.crashes), {
+        delay: this.profile.actionDelay,
+        reruns: this.profile.flakyReruns,
+      });
+      return { ...report, crashes };
+    } finally {
+      await pool.dispose();
+    }
+  }
+
+  // ==========================================================================
+  // FLAKY QUARANTINE
+  // ==========================================================================
+
+  /**
+   * Drop crashes already quarantined as flaky, counting their new occurrences.
+   */
+  private skipQuarantined(crashes: CrashEntry[]): CrashEntry[] {
+    return crashes.filter((crash) => {
+      const known = this.findQuarantined(crash);
+      if (!known) return true;
+      known.occurrences = (known.occurrences ?? 1) + (crash.occurrences ?? 1);
+      return false;
+    });
+  }
+
+  /**
+   * Quarantine the crashes classified as flaky and return the rest.
+   */
+  private quarantineFlaky(crashes: CrashEntry[]): CrashEntry[] {
+    const deterministic: CrashEntry[] = [];
+    for (const crash of crashes) {
+      if (crash.stability?.verdict !== 'flaky') {
+        deterministic.push(crash);
+        continue;
+      }
+      this.quarantine.push(crash);
+      this.log(
+        `Quarantined flaky crash ${crash.fingerprint}: ${crash.error.split('\n')[0].slice(0, 100)} ` +
+          `(failed ${crash.stability.failures} of ${crash.stability.reruns} re-runs)`
+      );
+    }
+    return deterministic;
+  }
+
+  private findQuarantined(crash: CrashEntry): CrashEntry | undefined {
+    const fingerprint = crashSignature(crash);
+    return this.quarantine.find((q) => q.fingerprint === fingerprint);
+  }
+
   // ==========================================================================
   // DIAGNOSIS & PATCHING
   // ==========================================================================
@@ -527,11 +781,8 @@ export class MaintenanceCampaign {
   /**
    * Diagnose a crash and attempt to patch it.
    */
-  private async diagnoseAndPatch(
-    error: string,
-    stackTrace?: string,
-    crashFile?: string
-  ): Promise<void> {
+  private async diagnoseAndPatch(crash: CrashEntry): Promise<void> {
+    const { error, stackTrace, file: crashFile } = crash;
     await this.setPhase('DIAGNOSING');
     this.log(`Diagnosing crash: ${error.slice(0, 100)}`);
 
@@ -583,7 +834,7 @@ export class MaintenanceCampaign {
         const snapshot = this.files.map((f) => ({ ...f }));
 
         // Apply the patch
-        await this.applyCode(result.output, undefined, patchGoal.id);
+        const applied = await this.applyCode(result);
 
         // Verify
         await this.setPhase('VERIFYING');
@@ -593,18 +844,23 @@ export class MaintenanceCampaign {
         if (validation.valid) {
           this.bugsFixed++;
           this.fixCount++;
-          this.patches.push({
-            file: crashFile || 'unknown',
-            before: beforeCode,
-            after: result.output,
-            crashId: patchGoal.id,
-            verified: true,
-            appliedAt: Date.now(),
-          });
+          this.recordPatch(
+            {
+              file: crashFile || 'unknown',
+              before: beforeCode,
+              after: result.output,
+              crashId: patchGoal.id,
+              verified: true,
+            },
+            { crash },
+            snapshot,
+            applied
+          );
           this.log(`Patch verified and applied`);
+          await this.guardAgainstRegressions();
         } else {
           // Revert files to pre-patch state
-          this.files = snapshot;
+          await this.restoreFiles(snapshot, applied);
           this.log(`Patch verification failed, reverted: ${validation.errors.map((e) => e.message).join(', ')}`);
           this.patches.push({
             file: crashFile || 'unknown',
@@ -624,6 +880,311 @@ export class MaintenanceCampaign {
     }
   }
 
+  // ==========================================================================
+  // PATCH RECORDS
+  // ==========================================================================
+
+  /**
+   * Log a patch with the paths it changed and the commit message for its
+   * trigger.
+   */
+  private recordPatch(
+    patch: Omit<DreamPatch, 'appliedAt' | 'changes' | 'commitMessage'>,
+    trigger: DreamPatchTrigger,
+    snapshot: AppFile[],
+    applied: string[]
+  ): void {
+    this.patches.push({
+      ...patch,
+      appliedAt: Date.now(),
+      changes: applied.map((path) => ({
+        path,
+        before: snapshot.find((s) => s.path === path)?.content ?? null,
+        after: this.files.find((f) => f.path === path)?.content ?? null,
+      })),
+      commitMessage: buildPatchCommitMessage(trigger),
+    });
+  }
+
+  /**
+   * Log a verified goal as a DreamPatch.
+   */
+  private recordGoalPatch(goal: DreamGoal, snapshot: AppFile[], applied: string[], output: string): void {
+    const file = applied[0] ?? 'unknown';
+    this.recordPatch(
+      {
+        file,
+        before: snapshot.find((f) => f.path === file)?.content ?? '',
+        after: output,
+        goalId: goal.id,
+        verified: true,
+      },
+      { goal },
+      snapshot,
+      applied
+    );
+  }
+
+  // ==========================================================================
+  // REGRESSION GUARD
+  // ==========================================================================
+
+  /**
+   * Generate the regression suite and record the crashes it finds before
+   * any patch, so later runs only flag crashes the patches introduced.
+   */
+  private async prepareRegressionGuard(): Promise<void> {
+    const chaosAgent = getQAChaosAgent();
+    const elements = chaosAgent.analyzeUI(this.files);
+    if (elements.length === 0) {
+      this.log('Regression guard off: no interactive elements to test');
+      return;
+    }
+
+    try {
+      const testCode = await chaosAgent.generateTestSuite(elements, this.files, this.profile);
+      const crashes = await this.runRegressionSuite(testCode);
+      this.regressionSuite = { testCode, knownCrashes: new Set(crashes.map(crashSignature)) };
+      this.log(`Regression guard ready (${crashes.length} known crash(es) in the baseline)`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log(`[WARN] Regression guard off: ${message}`);
+    }
+  }
+
+  private async runRegressionSuite(testCode: string): Promise<CrashEntry[]> {
+    const webContainer = getWebContainerService();
+    const report = await getQAChaosAgent().runTests(
+      webContainer.executeShell.bind(webContainer),
+      testCode,
+      { delay: this.profile.actionDelay, writeFile: webContainer.writeFile.bind(webContainer) }
+    );
+    return report.crashes;
+  }
+
+  /**
+   * Re-run the regression suite against every applied patch. New crashes that
+   * reproduce on a second run are bisected; the culprit (and later patches to
+   * the same files) is rolled back and the goal it came from failed.
+   */
+  private async guardAgainstRegressions(): Promise<void> {
+    const suite = this.regressionSuite;
+    if (!suite || this.aborted) return;
+
+    this.log('Regression guard: re-running the chaos suite against all applied patches...');
+    const found = (await this.runRegressionSuite(suite.testCode)).filter(
+      (c) => !suite.knownCrashes.has(crashSignature(c)) && !this.findQuarantined(c)
+    );
+    if (found.length === 0) {
+      this.log('Regression guard: no new crashes');
+      return;
+    }
+
+    const active = this.patches.filter((p) => p.verified && !p.revertedAt && p.changes?.length);
+    if (active.length === 0 || this.aborted) return;
+
+    // A flaky failure must not cost a verified patch: only crashes that come back are bisected
+    const rerun = new Set((await this.runRegressionSuite(suite.testCode)).map(crashSignature));
+    const regressions = found.filter((c) => rerun.has(crashSignature(c)));
+    if (regressions.length === 0) {
+      this.log(`Regression guard: ${found.length} new crash(es) did not reproduce on a re-run; keeping all patches`);
+      return;
+    }
+
+    const signatures = new Set(regressions.map(crashSignature));
+    const current = this.files;
+    const paths = touchedPaths(active);
+    this.log(`Regression guard: ${regressions.length} new crash(es), bisecting ${active.length} patch(es)...`);
+
+    const culprit = await bisectPatches(
+      active.length,
+      async (applied) => {
+        await this.writeFileState(revertPatches(current, active.slice(applied)), paths);
+        const crashes = await this.runRegressionSuite(suite.testCode);
+        return crashes.some((c) => signatures.has(crashSignature(c)));
+      },
+      () => this.aborted
+    );
+
+    if (culprit === null) {
+      // Stopped mid-bisect: put every patch back in the container
+      await this.writeFileState(current, paths);
+      this.log('Regression guard: stopped before the bisect finished; no patch rolled back');
+      return;
+    }
+
+    const reverted = withDependents(active, culprit);
+    const reason = `Rolled back by the regression guard: introduced "${regressions[0].error.slice(0, 200)}"`;
+    this.files = revertPatches(current, reverted);
+    this.filesDirty = true;
+    await this.writeFileState(this.files, paths);
+
+    for (const patch of reverted) {
+      patch.revertedAt = Date.now();
+      patch.revertReason = reason;
+      if (!patch.goalId) {
+        this.bugsFixed--;
+        continue;
+      }
+      const goal = this.goalQueue.find((g) => g.id === patch.goalId);
+      if (goal) {
+        goal.status = 'FAILED';
+        goal.errorMessage = reason;
+        this.goalsCompleted--;
+      }
+    }
+    this.onGoalQueueUpdate(this.goalQueue);
+
+    this.log(
+      `Regression guard: reverted ${reverted.map((p) => p.file).join(', ')}` +
+        (reverted.length > 1 ? ` (${reverted.length - 1} dependent patch(es))` : '')
+    );
+  }
+
+  /**
+   * Make the WebContainer match `files` for the given paths.
+   */
+  private async writeFileState(files: AppFile[], paths: Set<string>): Promise<void> {
+    const webContainer = getWebContainerService();
+    const byPath = new Map(files.map((f) => [f.path, f.content]));
+    for (const path of paths) {
+      const content = byPath.get(path);
+      if (content === undefined) {
+        await webContainer.removeFile(path);
+      } else {
+        await webContainer.writeFile(path, content);
+      }
+    }
+  }
+
+  // ==========================================================================
+  // AUTO-COMMIT
+  // ==========================================================================
+
+  /**
+   * Push one commit per verified, not rolled back patch to dream/<date> and
+   * open a pull request.
+   */
+  private async commitVerifiedPatches(source: RepoSource, log: DreamLog): Promise<DreamAutoCommit | undefined> {
+    const commits = this.patches
+      .filter((p) => p.verified && !p.revertedAt && p.changes?.length && p.commitMessage)
+      .map((p) => ({
+        message: p.commitMessage ?? '',
+        files: (p.changes ?? []).flatMap((c) => (c.after === null ? [] : [{ path: c.path, content: c.after }])),
+        removed: (p.changes ?? []).filter((c) => c.after === null).map((c) => c.path),
+      }));
+    if (commits.length === 0) {
+      this.log('Auto-commit: no verified patches to push');
+      return undefined;
+    }
+
+    await this.setPhase('LOGGING');
+    this.log(`Auto-commit: pushing ${commits.length} verified patch(es) to ${dreamBranchName(log.startedAt)}...`);
+
+    const result = await getDreamCommitService().publish(source, log, commits);
+    if (result.error) {
+      this.log(`[WARN] Auto-commit failed: ${result.error}`);
+    } else {
+      this.log(
+        `Auto-commit: pushed ${result.commitOids.length} commit(s)` +
+          (result.pullRequestUrl ? `, opened ${result.pullRequestUrl}` : '')
+      );
+    }
+    return result;
+  }
+
+  // ==========================================================================
+  // CHECKPOINTS
+  // ==========================================================================
+
+  /**
+   * Save the campaign state. Files are only rewritten when they changed.
+   * Failures are logged, never thrown — checkpoints must not stop a cycle.
+   */
+  private async saveCheckpoint(): Promise<void> {
+    if (typeof indexedDB === 'undefined' || !this.repoUrl) return;
+
+    const files = this.filesDirty ? this.files : undefined;
+    try {
+      await saveDreamCheckpoint(
+        {
+          repoUrl: this.repoUrl,
+          branch: this.branch,
+          profileName: this.profileName,
+          phase: this.phase,
+          completedSteps: [...this.completedSteps],
+          elapsed: Date.now() - this.startTime,
+          goalQueue: this.goalQueue,
+          crashReports: this.crashReports,
+          quarantine: this.quarantine,
+          patches: this.patches,
+          discoveryReport: this.discoveryReport,
+          fixCount: this.fixCount,
+          goalsCompleted: this.goalsCompleted,
+          bugsFound: this.bugsFound,
+          bugsFixed: this.bugsFixed,
+          discoveries: this.discoveries,
+          phaseUsage: [...this.phaseUsage.values()],
+          cost: { ...this.cost },
+          savedAt: Date.now(),
+        },
+        files
+      );
+      if (files) this.filesDirty = false;
+    } catch (error) {
+      console.warn('[MaintenanceCampaign] Checkpoint failed:', error);
+    }
+  }
+
+  /**
+   * Restore state from a checkpoint. Goals that were in progress when it
+   * was saved run again; goals queued since are kept after the saved ones.
+   */
+  private restoreCheckpoint(checkpoint: DreamCheckpoint): void {
+    const savedIds = new Set(checkpoint.goalQueue.map((g) => g.id));
+    this.goalQueue = [
+      ...checkpoint.goalQueue.map((g) =>
+        g.status === 'IN_PROGRESS' ? { ...g, status: 'PENDING' as const } : g
+      ),
+      ...this.goalQueue.filter((g) => !savedIds.has(g.id)),
+    ];
+    this.files = checkpoint.files;
+    this.filesDirty = false;
+    this.completedSteps = new Set(checkpoint.completedSteps);
+    this.startTime = Date.now() - checkpoint.elapsed;
+    this.crashReports = checkpoint.crashReports;
+    this.quarantine = checkpoint.quarantine ?? [];
+    this.patches = checkpoint.patches;
+    this.discoveryReport = checkpoint.discoveryReport;
+    this.fixCount = checkpoint.fixCount;
+    this.goalsCompleted = checkpoint.goalsCompleted;
+    this.bugsFound = checkpoint.bugsFound;
+    this.bugsFixed = checkpoint.bugsFixed;
+    this.discoveries = checkpoint.discoveries;
+    this.phaseUsage = new Map((checkpoint.phaseUsage ?? []).map((u) => [u.phase, u]));
+    // Spend carries over; the cap is the one configured now
+    if (checkpoint.cost) this.cost = { ...checkpoint.cost, limitUsd: this.costLimitUsd };
+
+    this.onGoalQueueUpdate(this.goalQueue);
+    if (this.discoveryReport) this.onDiscoveryReport(this.discoveryReport);
+    this.log(
+      `Resuming from checkpoint saved ${new Date(checkpoint.savedAt).toLocaleString()} ` +
+        `(phase: ${checkpoint.phase}, ${Math.round(checkpoint.elapsed / 60000)} min elapsed)`
+    );
+  }
+
+  /**
+   * Revert the file set and the WebContainer to a snapshot taken before a
+   * failed change.
+   *
+   * @param applied - Paths the change wrote or removed (from applyCode)
+   */
+  private async restoreFiles(snapshot: AppFile[], applied: string[]): Promise<void> {
+    this.files = snapshot;
+    this.filesDirty = true;
+    await this.writeFileState(snapshot, new Set(applied));
+  }
+
   // ==========================================================================
   // HELPERS
   // ==========================================================================
@@ -634,10 +1195,42 @@ export class MaintenanceCampaign {
   private withinBudget(): boolean {
     if (this.aborted) return false;
     if (this.fixCount >= this.profile.maxFixesPerCycle) return false;
+    if (this.isCostCapReached()) return false;
     if (this.isTimeExpired()) return false;
     return true;
   }
 
+  /**
+   * Check if the cycle's model spend has reached its cost cap.
+   */
+  private isCostCapReached(): boolean {
+    return this.cost.spentUsd >= this.cost.limitUsd;
+  }
+
+  /**
+   * Price a model call reported to the meter and add it to the cycle's spend.
+   * The call that crosses the cap is logged; the step it belongs to finishes
+   * and the cycle stops at the next budget check.
+   */
+  private recordModelCall(call: ModelCallRecord): void {
+    const wasUnderCap = !this.isCostCapReached();
+    this.cost.spentUsd += priceModelCall(call);
+    this.cost.calls++;
+    this.cost.inputTokens += call.inputTokens;
+    this.cost.outputTokens += call.outputTokens;
+
+    if (wasUnderCap && this.isCostCapReached()) {
+      this.log(
+        `Cost cap reached: $${this.cost.spentUsd.toFixed(2)} of $${this.cost.limitUsd.toFixed(2)} ` +
+          `(${call.model} call). Finishing the current step.`
+      );
+    }
+  }
+
+  private emptyCost(): DreamCost {
+    return { limitUsd: this.costLimitUsd, spentUsd: 0, calls: 0, inputTokens: 0, outputTokens: 0 };
+  }
+
   /**
    * Check if the session duration has been exceeded.
    */
@@ -654,72 +1247,52 @@ export class MaintenanceCampaign {
   }
 
   /**
-   * Apply generated code to the file set.
-   * Parses the output for file paths and content.
+   * Apply an AutonomyCore result to the file set and the WebContainer.
+   * The result's edit set is validated and applied all-or-nothing; output
+   * without one must mark each file with `// FILE: <path>`.
+   *
+   * @returns The paths that were written or removed
    */
-  private async applyCode(
-    output: string,
-    _goalId?: string,
-    _crashId?: string
-  ): Promise<void> {
-    // The AutonomyCore output is typically a single file of code.
-    // For multi-file output, we look for file markers.
-    const fileMarkerPattern = /\/\/\s*FILE:\s*(.+)/g;
-    let match;
-    const fileSegments: { path: string; content: string }[] = [];
-
-    // Check for multi-file markers
-    const markers: { path: string; index: number }[] = [];
-    while ((match = fileMarkerPattern.exec(output)) !== null) {
-      markers.push({ path: match[1].trim(), index: match.index });
-    }
-
-    if (markers.length > 0) {
-      // Multi-file output
-      for (let i = 0; i < markers.length; i++) {
-        const start = markers[i].index + output.substring(markers[i].index).indexOf('\n') + 1;
-        const end = i < markers.length - 1 ? markers[i + 1].index : output.length;
-        fileSegments.push({
-          path: markers[i].path,
-          content: output.substring(start, end).trim(),
-        });
-      }
-    } else {
-      // Single file — assume it's the App.tsx or first relevant file
-      const targetFile = this.files.find(
-        (f) => f.path.endsWith('/App.tsx') || f.path.endsWith('/App.jsx')
-      );
-      if (targetFile) {
-        fileSegments.push({
-          path: targetFile.path,
-          content: output,
-        });
-      }
+  private async applyCode(result: AgentTaskResult): Promise<string[]> {
+    const edits = result.edits ?? this.markedFileEdits(result.output);
+    const previous = this.files;
+    const { files, written, removed } = applyFileEdits(previous, edits);
+    const paths = new Set([...written.map((f) => f.path), ...removed]);
+
+    this.files = files;
+    this.filesDirty = true;
+    try {
+      await this.writeFileState(files, paths);
+    } catch (error) {
+      // Put back whatever was already written so the container matches the file set
+      this.files = previous;
+      await this.writeFileState(previous, paths);
+      throw error;
     }
 
-    // Apply to the in-memory file set
-    for (const segment of fileSegments) {
-      const existingIdx = this.files.findIndex((f) => f.path === segment.path);
-      if (existingIdx >= 0) {
-        this.files[existingIdx] = {
-          path: segment.path,
-          content: segment.content,
-        };
-      } else {
-        this.files.push({
-          path: segment.path,
-          content: segment.content,
-        });
-      }
-    }
+    this.log(`Applied ${describeFileEdits(edits)}`);
+    return [...paths];
+  }
 
-    // Write files to WebContainer via filesystem API (avoids heredoc injection)
-    const webContainer = getWebContainerService();
-    for (const segment of fileSegments) {
-      await webContainer.writeFile(segment.path, segment.content);
+  /**
+   * Edit set for output that marks whole files with `// FILE: <path>`:
+   * known paths are replaced, others created.
+   */
+  private markedFileEdits(output: string): FileEdit[] {
+    const markers = [...output.matchAll(/\/\/\s*FILE:\s*(.+)/g)];
+    if (markers.length === 0) {
+      throw new Error('[MaintenanceCampaign] AutonomyCore output has no edit set or // FILE: markers');
     }
 
-    this.log(`Applied ${fileSegments.length} file(s): ${fileSegments.map((f) => f.path).join(', ')}`);
+    return markers.map((marker, i) => {
+      const path = marker[1].trim();
+      const start = (marker.index ?? 0) + marker[0].length;
+      const end = i < markers.length - 1 ? markers[i + 1].index : output.length;
+      const content = output.slice(start, end).trim();
+      return this.files.some((f) => f.path === path)
+        ? { op: 'replace' as const, path, content }
+        : { op: 'create' as const, path, content };
+    });
   }
 
   /**
@@ -759,9 +1332,30 @@ export class MaintenanceCampaign {
    * Set the campaign phase and notify listeners.
    */
   private async setPhase(phase: CampaignPhase): Promise<void> {
+    this.recordPhaseUsage();
     this.phase = phase;
+    this.phaseEnteredAt = Date.now();
+    this.fixCountAtPhaseEntry = this.fixCount;
+    this.spentAtPhaseEntry = this.cost.spentUsd;
     this.onPhaseChange(phase);
     this.emitStats();
+    if (phase !== 'DONE') {
+      await this.saveCheckpoint();
+    }
+  }
+
+  /**
+   * Add the time, fixes and spend since the current phase was entered to its usage.
+   */
+  private recordPhaseUsage(): void {
+    if (this.phase === 'IDLE' || this.phase === 'DONE') return;
+
+    const usage = this.phaseUsage.get(this.phase) ?? { phase: this.phase, durationMs: 0, visits: 0, fixesUsed: 0 };
+    usage.durationMs += Date.now() - this.phaseEnteredAt;
+    usage.visits++;
+    usage.fixesUsed += this.fixCount - this.fixCountAtPhaseEntry;
+    usage.costUsd = (usage.costUsd ?? 0) + this.cost.spentUsd - this.spentAtPhaseEntry;
+    this.phaseUsage.set(this.phase, usage);
   }
 
   /**
@@ -785,6 +1379,7 @@ export class MaintenanceCampaign {
       bugsFixed: this.bugsFixed,
       discoveries: this.discoveries,
       budgetRemaining: this.profile.maxFixesPerCycle - this.fixCount,
+      cost: { ...this.cost },
       currentGoal: currentGoal?.prompt,
     };
     this.onStatsUpdate(stats);
@@ -806,10 +1401,16 @@ export class MaintenanceCampaign {
       bugsFixed: this.bugsFixed,
       discoveries: this.discoveries,
       crashReports: this.crashReports,
+      quarantine: this.quarantine,
       patches: this.patches,
       profileUsed: this.profileName,
       repoUrl,
       stopReason,
+      goals: this.goalQueue.map((g) => ({ ...g })),
+      discoveryReport: this.discoveryReport,
+      phaseUsage: [...this.phaseUsage.values()],
+      fixBudget: this.profile.maxFixesPerCycle,
+      cost: { ...this.cost },
     };
   }
 }
@@ -0,0 +1,374 @@
+/**
+ * AI Replay Tests
+ *
+ * Exercises the Titan pipeline, the vision healing loop, OmniChat, the
+ * Autonomy Core and the embedding client against recorded model responses
+ * (tests/fixtures/cassettes/). Covers router fallbacks, builder output
+ * parsing via extractCode, healing-loop stop reasons, chat action parsing
+ * and the autonomy self-correction loop — all offline.
+ *
+ * Re-record against the real APIs (needs GEMINI_API_KEY, ANTHROPIC_API_KEY,
+ * OPENAI_API_KEY): npm run test:record
+ */
+
+jest.mock('@google/generative-ai', () => require('./cassettes/sdk').geminiModule());
+jest.mock('@google/generative-ai/server', () => require('./cassettes/sdk').geminiServerModule());
+jest.mock('@anthropic-ai/sdk', () => require('./cassettes/sdk').anthropicModule());
+jest.mock('openai', () => require('./cassettes/sdk').openaiModule());
+// No signed-in user: the skill library is skipped rather than queried
+jest.mock('../src/utils/supabase/server', () => ({
+  createClient: async () => ({
+    auth: { getUser: async () => ({ data: { user: null }, error: null }) },
+  }),
+}));
+
+import { insertCassette, ejectCassette, getCassetteMode } from './cassettes/cassette';
+import { routeIntent, assembleCode, runPipeline } from '../src/services/TitanPipelineService';
+import { getVisionLoopEngine, type HealingLoopInput } from '../src/services/VisionLoopEngine';
+import { getModelGateway } from '../src/services/modelGateway';
+import { getEmbeddingService } from '../src/services/EmbeddingService';
+import { getOmniChatService } from '../src/services/OmniChatService';
+import { AutonomyCore } from '../src/agents/AutonomyCore';
+import type { MergeStrategy, PipelineStreamEvent } from '../src/types/titanPipeline';
+import type { AppFile } from '../src/types/railway';
+
+if (getCassetteMode() === 'replay') {
+  process.env.GEMINI_API_KEY = 'replay-gemini-key';
+  process.env.OPENAI_API_KEY = 'replay-openai-key';
+}
+
+const CREATE_STRATEGY: MergeStrategy = {
+  mode: 'CREATE',
+  base_source: null,
+  file_roles: [],
+  execution_plan: { measure_pixels: [], extract_physics: [], preserve_existing_code: false },
+};
+
+const EXISTING_CODE = 'export default function App() { return <main data-id="root">Hello</main>; }';
+
+describe('AI replay', () => {
+  afterEach(() => {
+    ejectCassette();
+  });
+
+  // ==========================================================================
+  // ROUTER
+  // ==========================================================================
+
+  describe('router', () => {
+    beforeEach(() => insertCassette('titan-router'));
+
+    test('parses a JSON strategy from the model', async () => {
+      const strategy = await routeIntent({
+        files: [],
+        instructions: 'Make the header sticky',
+        currentCode: EXISTING_CODE,
+      });
+
+      expect(strategy.mode).toBe('EDIT');
+      expect(strategy.base_source).toBe('codebase');
+    });
+
+    test('falls back to EDIT when the response is not JSON and code exists', async () => {
+      const strategy = await routeIntent({
+        files: [],
+        instructions: 'Tweak the footer spacing',
+        currentCode: EXISTING_CODE,
+      });
+
+      expect(strategy.mode).toBe('EDIT');
+      expect(strategy.execution_plan.measure_pixels).toEqual([]);
+    });
+
+    test('falls back to CREATE when the response is not JSON and there is no code', async () => {
+      const strategy = await routeIntent({
+        files: [],
+        instructions: 'A portfolio site for a ceramicist',
+        currentCode: null,
+      });
+
+      expect(strategy.mode).toBe('CREATE');
+      expect(strategy.base_source).toBeNull();
+    });
+  });
+
+  // ==========================================================================
+  // BUILDER
+  // ==========================================================================
+
+  describe('builder output parsing', () => {
+    beforeEach(() => insertCassette('titan-builder'));
+
+    const build = (instructions: string) =>
+      assembleCode(null, [], null, CREATE_STRATEGY, null, instructions, {});
+
+    test('extracts code from a fenced response', async () => {
+      const files = await build('A hero section with a call to action');
+      const app = files.find((f) => f.path === '/src/App.tsx');
+
+      expect(app?.content.startsWith("import React from 'react';")).toBe(true);
+      expect(app?.content).not.toContain('```');
+      expect(app?.content).toContain('data-id="hero"');
+    });
+
+    test('strips conversational text around unfenced code', async () => {
+      const files = await build('A pricing table with three tiers');
+      const app = files.find((f) => f.path === '/src/App.tsx');
+
+      expect(app?.content.startsWith("import React from 'react';")).toBe(true);
+      expect(app?.content).not.toContain("Here's");
+      expect(app?.content).not.toContain('This layout');
+      expect(app?.content.trim().endsWith('}')).toBe(true);
+    });
+
+    test('splits marked output into sections, theme and barrel', async () => {
+      const files = await build('A landing page with a header, hero and footer');
+      const paths = files.map((f) => f.path);
+
+      expect(paths[0]).toBe('/src/App.tsx');
+      expect(paths).toEqual(
+        expect.arrayContaining([
+          '/src/theme.ts',
+          '/src/components/Header.tsx',
+          '/src/components/Hero.tsx',
+          '/src/components/Footer.tsx',
+          '/src/components/index.ts',
+        ])
+      );
+      // The model's own entry file is replaced by ours (it loads the inspector)
+      expect(paths.filter((p) => p === '/src/index.tsx')).toHaveLength(1);
+      expect(files.find((f) => f.path === '/src/index.tsx')?.content).toContain("import './inspector';");
+      expect(files.find((f) => f.path === '/src/components/Hero.tsx')?.content).toContain(
+        'data-id="hero"'
+      );
+    });
+
+    test('always emits the entry point alongside App.tsx', async () => {
+      const files = await build('A hero section with a call to action');
+
+      expect(files.map((f) => f.path)).toEqual(['/src/App.tsx', '/src/index.tsx']);
+    });
+  });
+
+  // ==========================================================================
+  // FULL PIPELINE
+  // ==========================================================================
+
+  describe('runPipeline', () => {
+    beforeEach(() => {
+      insertCassette('titan-pipeline');
+      getModelGateway().usage.reset();
+    });
+
+    test('routes, architects and builds a text-only request end to end', async () => {
+      const events: PipelineStreamEvent[] = [];
+
+      const result = await runPipeline(
+        { files: [], instructions: 'A landing page for a coffee roastery', currentCode: null },
+        { onEvent: (event) => events.push(event) }
+      );
+
+      expect(result.strategy.mode).toBe('CREATE');
+      expect(result.files[0].content).toContain('data-id="roastery-hero"');
+      expect(result.healingResult).toBeUndefined();
+      expect(events.filter((e) => e.stepStatus === 'completed').map((e) => e.step)).toEqual(
+        expect.arrayContaining(['routing', 'architecting', 'assembling'])
+      );
+
+      const usage = getModelGateway().usage.summarize();
+      expect(usage.calls).toBe(3);
+      expect(usage.byStep.architect?.outputTokens).toBe(96);
+      expect(usage.byStep.builder?.outputTokens).toBe(210);
+    });
+  });
+
+  // ==========================================================================
+  // VISION HEALING LOOP
+  // ==========================================================================
+
+  describe('healing loop stop reasons', () => {
+    const ORIGINAL_IMAGE = 'data:image/png;base64,T1JJR0lOQUw=';
+    const SCREENSHOT_IMAGE = 'data:image/png;base64,U0NSRUVOU0hPVA==';
+    const files: AppFile[] = [{ path: '/src/App.tsx', content: EXISTING_CODE }];
+
+    let screenshotOk = true;
+    const realFetch = global.fetch;
+
+    beforeEach(() => {
+      insertCassette('vision-loop');
+      screenshotOk = true;
+      // Only the screenshot API is stubbed; SDK traffic still reaches the cassette
+      global.fetch = jest.fn(async (url: RequestInfo | URL, init?: RequestInit) => {
+        if (String(url).endsWith('/api/layout/screenshot')) {
+          return {
+            ok: screenshotOk,
+            status: screenshotOk ? 200 : 500,
+            json: async () => ({ success: true, image: SCREENSHOT_IMAGE }),
+          } as Response;
+        }
+        return realFetch(url, init);
+      }) as typeof fetch;
+    });
+
+    afterEach(() => {
+      global.fetch = realFetch;
+    });
+
+    const loopInput = (overrides: Partial<HealingLoopInput> = {}): HealingLoopInput => ({
+      files,
+      originalImageBase64: ORIGINAL_IMAGE,
+      manifests: [],
+      physics: null,
+      strategy: CREATE_STRATEGY,
+      currentCode: null,
+      instructions: 'Match the reference',
+      assets: {},
+      regenerate: jest.fn(async () => [{ path: '/src/App.tsx', content: `${EXISTING_CODE}\n` }]),
+      ...overrides,
+    });
+
+    test('target_reached when the first critique meets the target', async () => {
+      const result = await getVisionLoopEngine({ maxIterations: 3, targetFidelity: 90 }).runLoop(
+        loopInput({ originalImageBase64: 'data:image/png;base64,TUFUQ0hFRA==' })
+      );
+
+      expect(result.stopReason).toBe('target_reached');
+      expect(result.fidelityScore).toBe(94);
+      expect(result.iterations).toBe(1);
+    });
+
+    test('diminishing_returns when a regeneration barely improves the score', async () => {
+      const input = loopInput();
+      const result = await getVisionLoopEngine({
+        maxIterations: 3,
+        targetFidelity: 90,
+        minImprovementThreshold: 3,
+      }).runLoop(input);
+
+      expect(result.stopReason).toBe('diminishing_returns');
+      expect(result.history.map((h) => h.fidelityScore)).toEqual([62, 63]);
+      expect(input.regenerate).toHaveBeenCalledWith(expect.stringContaining('VISUAL CRITIQUE'));
+    });
+
+    test('max_iterations when the iteration budget runs out', async () => {
+      const input = loopInput();
+      const result = await getVisionLoopEngine({ maxIterations: 1, targetFidelity: 90 }).runLoop(
+        input
+      );
+
+      expect(result.stopReason).toBe('max_iterations');
+      expect(result.fidelityScore).toBe(62);
+      expect(input.regenerate).not.toHaveBeenCalled();
+    });
+
+    test('screenshot_failed when the screenshot API errors', async () => {
+      screenshotOk = false;
+      const result = await getVisionLoopEngine({ maxIterations: 2 }).runLoop(loopInput());
+
+      expect(result.stopReason).toBe('screenshot_failed');
+      expect(result.iterations).toBe(1);
+    });
+
+    test('cancelled when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const result = await getVisionLoopEngine({ maxIterations: 2 }).runLoop(
+        loopInput({ signal: controller.signal })
+      );
+
+      expect(result.stopReason).toBe('cancelled');
+      expect(result.iterations).toBe(0);
+    });
+  });
+
+  // ==========================================================================
+  // OMNICHAT
+  // ==========================================================================
+
+  describe('OmniChatService.chat', () => {
+    beforeEach(() => insertCassette('omni-chat'));
+
+    test('parses the action the model chose', async () => {
+      const response = await getOmniChatService().chat({
+        message: 'Add a dark mode toggle to the header',
+        conversationHistory: [],
+        currentCode: EXISTING_CODE,
+      });
+
+      expect(response.action).toBe('live-edit');
+      expect(response.reply).toContain('dark mode toggle');
+      expect(response.actionPayload).toEqual({
+        instructions: 'Add a dark mode toggle button to the header that switches the page theme',
+        selectedDataId: 'root',
+      });
+    });
+
+    test('treats a plain-text answer as conversation', async () => {
+      const response = await getOmniChatService().chat({
+        message: 'What font does the hero use?',
+        conversationHistory: [
+          { role: 'user', content: 'Add a dark mode toggle to the header' },
+          { role: 'assistant', content: 'I added a dark mode toggle to the header.' },
+        ],
+        currentCode: EXISTING_CODE,
+      });
+
+      expect(response).toEqual({
+        reply: 'The hero uses the default sans-serif stack; no custom font is loaded.',
+        action: 'none',
+      });
+    });
+  });
+
+  // ==========================================================================
+  // AUTONOMY CORE
+  // ==========================================================================
+
+  describe('AutonomyCore.solveUnknown', () => {
+    beforeEach(() => insertCassette('autonomy'));
+
+    const goal = (description: string) => ({
+      id: 'goal_replay',
+      description,
+      context: 'Empty project',
+      technical_constraints: ['React 19', 'Tailwind CSS'],
+    });
+
+    test('fabricates a swarm, plans and returns the coder edit set', async () => {
+      const result = await new AutonomyCore().solveUnknown(goal('Build a tip calculator'));
+
+      expect(result.success).toBe(true);
+      expect(result.edits?.map((e) => `${e.op} ${e.path}`)).toEqual(['create /src/App.tsx']);
+      expect(result.output).toContain('data-id="tip-calculator"');
+      expect(result.reasoning_summary).toContain('single component');
+    });
+
+    test('retries with the syntax error fed back when the code does not parse', async () => {
+      const task = goal('Build a unit converter');
+      const result = await new AutonomyCore().solveUnknown(task);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toContain('data-id="unit-converter"');
+      expect(task.technical_constraints).toEqual([
+        'React 19',
+        'Tailwind CSS',
+        expect.stringMatching(/^AVOID: Syntax validation failed: \/src\/App\.tsx: /),
+      ]);
+      expect(task.context).toContain('--- PREVIOUS ATTEMPT 1 FAILED ---');
+    });
+  });
+
+  // ==========================================================================
+  // OPENAI
+  // ==========================================================================
+
+  describe('embeddings', () => {
+    beforeEach(() => insertCassette('embeddings'));
+
+    test('replays an OpenAI embedding', async () => {
+      const vector = await getEmbeddingService().embed('sticky header with blur');
+
+      expect(vector).toEqual([0.0123, -0.0456, 0.0789]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Pipeline Streaming Route Tests
+ *
+ * Runs /api/layout/pipeline with `stream: true` against the fake model
+ * provider and parses the SSE frames: step events arrive in pipeline order,
+ * the stream ends with exactly one 'complete' (files sent once) or 'error'
+ * event, and the run is released from the registry either way.
+ */
+
+import { parseStreamEvent } from '../../src/types/streaming';
+import type { PipelineStreamEvent } from '../../src/types/titanPipeline';
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (data: unknown, init?: { status?: number }) => ({
+      status: init?.status ?? 200,
+      json: async () => data,
+    }),
+  },
+  NextRequest: jest.fn(),
+}));
+
+import { POST } from '../../src/app/api/layout/pipeline/route';
+import { configureModelGateway, FakeModelProvider } from '../../src/services/modelGateway';
+import { cancelPipelineRun } from '../../src/services/TitanPipelineService';
+
+const request = (body: Record<string, unknown>) =>
+  ({ json: async () => body, signal: new AbortController().signal }) as unknown as Parameters<typeof POST>[0];
+
+/** Read the whole SSE body and parse its `data:` frames */
+async function readFrames(response: Response): Promise<{ raw: string; events: PipelineStreamEvent[] }> {
+  const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+  const decoder = new TextDecoder();
+  let raw = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    raw += decoder.decode(value, { stream: true });
+  }
+  const events = raw
+    .split('\n\n')
+    .filter((frame) => frame.startsWith('data: '))
+    .map((frame) => parseStreamEvent(frame.slice('data: '.length)) as PipelineStreamEvent | null)
+    .filter((event): event is PipelineStreamEvent => event !== null);
+  return { raw, events };
+}
+
+describe('POST /api/layout/pipeline (stream)', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.MODEL_GATEWAY_PROVIDER = 'fake';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test('streams step events in order and ends with one complete event carrying the files once', async () => {
+    configureModelGateway({ providers: { fake: new FakeModelProvider() } });
+
+    const response = await POST(
+      request({ instructions: 'A landing page for a bakery', stream: true, runId: 'stream-ok' })
+    );
+    const { raw, events } = await readFrames(response as Response);
+
+    const steps = events.filter((e) => e.step && e.stepStatus === 'running').map((e) => e.step);
+    expect(steps.indexOf('routing')).toBe(0);
+    expect(steps.indexOf('assembling')).toBeGreaterThan(steps.indexOf('routing'));
+    expect(events.some((e) => e.type === 'file_start' || e.type === 'file_progress')).toBe(true);
+
+    expect(events.filter((e) => e.type === 'complete' || e.type === 'error')).toHaveLength(1);
+    const complete = events[events.length - 1];
+    if (complete.type !== 'complete') throw new Error(`Stream ended with ${complete.type}`);
+    expect(complete.success).toBe(true);
+    expect(complete.data.files.map((f) => f.path)).toContain('/src/App.tsx');
+    expect(complete.stats.filesGenerated).toBe(complete.data.files.length);
+    expect('files' in complete.result).toBe(false);
+    expect(complete.result.strategy.mode).toBe('CREATE');
+    expect(raw.split('Hello from the fake provider')).toHaveLength(2);
+
+    expect(cancelPipelineRun('stream-ok')).toBe(false);
+  });
+
+  test('ends with a non-recoverable error event when a step fails', async () => {
+    const fake = new FakeModelProvider({
+      builder: () => {
+        throw new Error('Builder exploded');
+      },
+    });
+    configureModelGateway({ providers: { fake } });
+
+    const response = await POST(
+      request({ instructions: 'A landing page for a bakery', stream: true, runId: 'stream-error' })
+    );
+    const { events } = await readFrames(response as Response);
+
+    const last = events[events.length - 1];
+    expect(last.type).toBe('error');
+    expect(events.filter((e) => e.type === 'complete')).toHaveLength(0);
+    if (last.type === 'error') {
+      expect(last.recoverable).toBe(false);
+      expect(last.message).toBe('Builder exploded');
+    }
+    expect(cancelPipelineRun('stream-error')).toBe(false);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * AI Call Cassettes
+ *
+ * Record-and-replay for Gemini, Anthropic and OpenAI calls so pipeline
+ * paths can be tested offline. Every SDK call is keyed by a hash of its
+ * request (model, system prompt, messages, generation config) and looked
+ * up in a JSON fixture under tests/fixtures/cassettes/.
+ *
+ * Modes (CASSETTE_MODE env var):
+ * - replay (default): serve recorded responses, fail on any unrecorded call
+ * - record: call the real SDK and write every request/response pair. Every
+ *   insert of the same cassette in one run adds to it, so a cassette shared
+ *   by several tests is written whole on each eject.
+ *
+ * Usage:
+ *   jest.mock('@google/generative-ai', () => require('./cassettes/sdk').geminiModule());
+ *   beforeEach(() => insertCassette('titan-router'));
+ *   afterEach(() => ejectCassette());
+ *
+ * Re-record with real keys: CASSETTE_MODE=record npx jest tests/ai-replay.test.ts
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CassetteMode = 'replay' | 'record';
+
+export interface CassetteEntry {
+  /** SDK call, e.g. 'gemini.generateContent' */
+  kind: string;
+  /** Hash of the full request payload */
+  hash: string;
+  /** Request payload with long strings (base64 images) abbreviated */
+  request: unknown;
+  /** Serialized SDK response */
+  response: unknown;
+}
+
+interface CassetteFile {
+  name: string;
+  entries: CassetteEntry[];
+}
+
+interface ActiveCassette {
+  name: string;
+  mode: CassetteMode;
+  entries: CassetteEntry[];
+  /** Calls seen per hash — repeated identical requests play back (and record) in order */
+  cursors: Map<string, number>;
+}
+
+export interface CassetteCall<T> {
+  kind: string;
+  payload: unknown;
+  /** Performs the real SDK call (record mode only) */
+  live: () => Promise<T>;
+  /** SDK response -> JSON stored in the fixture */
+  serialize: (response: T) => unknown;
+  /** Fixture JSON -> SDK-shaped response */
+  deserialize: (recorded: unknown) => T;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CASSETTE_DIR = path.join(__dirname, '..', 'fixtures', 'cassettes');
+const MAX_RECORDED_STRING = 500;
+
+let active: ActiveCassette | null = null;
+
+/** Entries recorded so far in this run, per cassette name (record mode) */
+const recordings = new Map<string, CassetteEntry[]>();
+
+export function getCassetteMode(): CassetteMode {
+  return process.env.CASSETTE_MODE === 'record' ? 'record' : 'replay';
+}
+
+function cassettePath(name: string): string {
+  return path.join(CASSETTE_DIR, `${name}.json`);
+}
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/** JSON with sorted keys and undefined/functions dropped, so hashes are stable */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const record = value as Record<string, unknown>;
+  const keys = Object.keys(record)
+    .filter((key) => record[key] !== undefined && typeof record[key] !== 'function')
+    .sort();
+  return `{${keys.map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+}
+
+/**
+ * Hash a request payload. The kind is part of the key so the same prompt
+ * sent to two different SDKs never collides.
+ */
+export function hashRequest(kind: string, payload: unknown): string {
+  return createHash('sha256')
+    .update(`${kind}\n${stableStringify(payload)}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/** Shorten large strings (inline images, long prompts) for the fixture's readable copy */
+function abbreviate(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_RECORDED_STRING
+      ? `${value.slice(0, MAX_RECORDED_STRING)}… [${value.length} chars]`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(abbreviate);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined && typeof v !== 'function')
+        .map(([k, v]) => [k, abbreviate(v)])
+    );
+  }
+  return value;
+}
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/**
+ * Load a cassette for the calls that follow. Replay cursors start over on
+ * every insert. In record mode the cassette starts empty on its first insert
+ * in the run, keeps what earlier inserts recorded, and is written on eject.
+ */
+export function insertCassette(name: string): void {
+  const mode = getCassetteMode();
+  let entries: CassetteEntry[] = [];
+
+  if (mode === 'record') {
+    entries = recordings.get(name) ?? [];
+    recordings.set(name, entries);
+  } else {
+    const file = cassettePath(name);
+    if (!fs.existsSync(file)) {
+      throw new Error(`[Cassette] Missing cassette "${name}" (${file}). Record it with CASSETTE_MODE=record.`);
+    }
+    entries = (JSON.parse(fs.readFileSync(file, 'utf8')) as CassetteFile).entries;
+  }
+
+  active = { name, mode, entries, cursors: new Map() };
+}
+
+/**
+ * Unload the current cassette, writing it to disk when recording.
+ */
+export function ejectCassette(): void {
+  if (active?.mode === 'record') {
+    fs.mkdirSync(CASSETTE_DIR, { recursive: true });
+    const file: CassetteFile = { name: active.name, entries: active.entries };
+    fs.writeFileSync(cassettePath(active.name), `${JSON.stringify(file, null, 2)}\n`);
+  }
+  active = null;
+}
+
+// ============================================================================
+// PLAYBACK
+// ============================================================================
+
+/**
+ * Route one SDK call through the active cassette.
+ */
+export async function playCassette<T>(call: CassetteCall<T>): Promise<T> {
+  if (!active) {
+    throw new Error(`[Cassette] ${call.kind} called with no cassette inserted`);
+  }
+
+  const hash = hashRequest(call.kind, call.payload);
+  const matches = active.entries.filter((entry) => entry.kind === call.kind && entry.hash === hash);
+  const cursor = active.cursors.get(hash) ?? 0;
+  active.cursors.set(hash, cursor + 1);
+
+  if (active.mode === 'record') {
+    const response = await call.live();
+    const entry: CassetteEntry = {
+      kind: call.kind,
+      hash,
+      request: abbreviate(call.payload),
+      response: call.serialize(response),
+    };
+    // An earlier test already recorded this call at this position: keep the newest
+    const previous = matches[cursor];
+    if (previous) {
+      active.entries[active.entries.indexOf(previous)] = entry;
+    } else {
+      active.entries.push(entry);
+    }
+    return response;
+  }
+
+  if (matches.length === 0) {
+    throw new Error(
+      `[Cassette] No recording for ${call.kind} ${hash} in "${active.name}". ` +
+        'The prompt changed — re-record with CASSETTE_MODE=record.'
+    );
+  }
+
+  // Identical requests replay in recorded order; the last response repeats
+  return call.deserialize(matches[Math.min(cursor, matches.length - 1)].response);
+}
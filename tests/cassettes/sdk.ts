@@ -0,0 +1,262 @@
+/**
+ * Cassette-backed SDK Modules
+ *
+ * Drop-in replacements for the AI SDK modules, for use in jest.mock
+ * factories. Each wraps the real client and routes its network calls
+ * through the active cassette; everything else is the real module.
+ *
+ *   jest.mock('@google/generative-ai', () => require('./cassettes/sdk').geminiModule());
+ *   jest.mock('@anthropic-ai/sdk', () => require('./cassettes/sdk').anthropicModule());
+ *   jest.mock('openai', () => require('./cassettes/sdk').openaiModule());
+ *
+ * Covered calls: Gemini generateContent (direct and via withGeminiRetry),
+ * Gemini File API upload/getFile, Anthropic messages.create, OpenAI
+ * embeddings.create and chat.completions.create.
+ */
+
+import { createHash } from 'crypto';
+import type {
+  GenerateContentRequest,
+  GenerateContentResult,
+  ModelParams,
+  Part,
+  RequestOptions,
+  SingleRequestOptions,
+} from '@google/generative-ai';
+import type {
+  FileMetadata,
+  FileMetadataResponse,
+  UploadFileResponse,
+} from '@google/generative-ai/server';
+import { playCassette } from './cassette';
+
+type GeminiModule = typeof import('@google/generative-ai');
+type GeminiServerModule = typeof import('@google/generative-ai/server');
+type AnthropicModule = typeof import('@anthropic-ai/sdk');
+type OpenAIModule = typeof import('openai');
+
+interface RecordedGeminiResponse {
+  text: string;
+  usageMetadata?: GenerateContentResult['response']['usageMetadata'];
+}
+
+/** Abort before replaying, matching what the SDK does with an aborted signal */
+function throwIfAborted(options?: { signal?: AbortSignal | null }): void {
+  options?.signal?.throwIfAborted();
+}
+
+// ============================================================================
+// GEMINI
+// ============================================================================
+
+/**
+ * @google/generative-ai with GoogleGenerativeAI replaced by a cassette client.
+ * The request is keyed by model params (model, systemInstruction,
+ * generationConfig) plus the generateContent argument.
+ */
+export function geminiModule(): GeminiModule {
+  const actual = jest.requireActual<GeminiModule>('@google/generative-ai');
+
+  class CassetteGenerativeModel {
+    /** Model name as the SDK exposes it ("models/<name>") */
+    readonly model: string;
+
+    constructor(
+      private apiKey: string,
+      private params: ModelParams,
+      private requestOptions?: RequestOptions
+    ) {
+      this.model = params.model.startsWith('models/') ? params.model : `models/${params.model}`;
+    }
+
+    async generateContent(
+      request: GenerateContentRequest | string | Array<string | Part>,
+      options?: SingleRequestOptions
+    ): Promise<GenerateContentResult> {
+      throwIfAborted(options);
+      return playCassette<GenerateContentResult>({
+        kind: 'gemini.generateContent',
+        payload: { params: this.params, request },
+        live: () =>
+          new actual.GoogleGenerativeAI(this.apiKey)
+            .getGenerativeModel(this.params, this.requestOptions)
+            .generateContent(request, options),
+        serialize: (result): RecordedGeminiResponse => ({
+          text: result.response.text(),
+          usageMetadata: result.response.usageMetadata,
+        }),
+        deserialize: (recorded) => {
+          const { text, usageMetadata } = recorded as RecordedGeminiResponse;
+          return {
+            response: {
+              text: () => text,
+              functionCalls: () => undefined,
+              functionCall: () => undefined,
+              usageMetadata,
+              candidates: [{ index: 0, content: { role: 'model', parts: [{ text }] } }],
+            },
+          } as unknown as GenerateContentResult;
+        },
+      });
+    }
+  }
+
+  class CassetteGoogleGenerativeAI {
+    constructor(public apiKey: string) {}
+
+    getGenerativeModel(params: ModelParams, requestOptions?: RequestOptions) {
+      return new CassetteGenerativeModel(this.apiKey, params, requestOptions);
+    }
+  }
+
+  return { ...actual, GoogleGenerativeAI: CassetteGoogleGenerativeAI } as unknown as GeminiModule;
+}
+
+/**
+ * @google/generative-ai/server with the File API routed through the cassette.
+ * Uploads are keyed by metadata and a digest of the file bytes.
+ */
+export function geminiServerModule(): GeminiServerModule {
+  const actual = jest.requireActual<GeminiServerModule>('@google/generative-ai/server');
+
+  class CassetteFileManager {
+    constructor(public apiKey: string) {}
+
+    private real() {
+      return new actual.GoogleAIFileManager(this.apiKey);
+    }
+
+    uploadFile(fileData: string | Buffer, metadata: FileMetadata) {
+      const digest = createHash('sha256').update(fileData).digest('hex');
+      return playCassette<UploadFileResponse>({
+        kind: 'gemini.uploadFile',
+        payload: { metadata, digest },
+        live: () => this.real().uploadFile(fileData, metadata),
+        serialize: (response) => response,
+        deserialize: (recorded) => recorded as UploadFileResponse,
+      });
+    }
+
+    getFile(fileId: string, options?: SingleRequestOptions) {
+      throwIfAborted(options);
+      return playCassette<FileMetadataResponse>({
+        kind: 'gemini.getFile',
+        payload: { fileId },
+        live: () => this.real().getFile(fileId, options),
+        serialize: (response) => response,
+        deserialize: (recorded) => recorded as FileMetadataResponse,
+      });
+    }
+  }
+
+  return { ...actual, GoogleAIFileManager: CassetteFileManager } as unknown as GeminiServerModule;
+}
+
+// ============================================================================
+// ANTHROPIC
+// ============================================================================
+
+type AnthropicClient = InstanceType<AnthropicModule['default']>;
+type MessageCreateBody = Parameters<AnthropicClient['messages']['create']>[0];
+
+/**
+ * @anthropic-ai/sdk with messages.create routed through the cassette.
+ * The request body (model, system, messages, max_tokens…) is the key.
+ */
+export function anthropicModule(): AnthropicModule {
+  const actual = jest.requireActual<AnthropicModule>('@anthropic-ai/sdk');
+
+  class CassetteAnthropic {
+    private client: AnthropicClient | null = null;
+
+    constructor(private options: ConstructorParameters<AnthropicModule['default']>[0] = {}) {}
+
+    private real(): AnthropicClient {
+      if (!this.client) this.client = new actual.default(this.options);
+      return this.client;
+    }
+
+    messages = {
+      create: async (body: MessageCreateBody, options?: { signal?: AbortSignal | null }) => {
+        if (body.stream) {
+          throw new Error('[Cassette] Streaming Anthropic calls cannot be recorded');
+        }
+        throwIfAborted(options);
+        return playCassette({
+          kind: 'anthropic.messages.create',
+          payload: body,
+          live: () => this.real().messages.create(body, options) as Promise<unknown>,
+          serialize: (response) => response,
+          deserialize: (recorded) => recorded,
+        });
+      },
+    };
+  }
+
+  return {
+    ...actual,
+    __esModule: true,
+    default: CassetteAnthropic,
+    Anthropic: CassetteAnthropic,
+  } as unknown as AnthropicModule;
+}
+
+// ============================================================================
+// OPENAI
+// ============================================================================
+
+type OpenAIClient = InstanceType<OpenAIModule['default']>;
+
+/**
+ * openai with embeddings.create and chat.completions.create routed through
+ * the cassette. The request body is the key.
+ */
+export function openaiModule(): OpenAIModule {
+  const actual = jest.requireActual<OpenAIModule>('openai');
+
+  class CassetteOpenAI {
+    private client: OpenAIClient | null = null;
+
+    constructor(private options: ConstructorParameters<OpenAIModule['default']>[0] = {}) {}
+
+    private real(): OpenAIClient {
+      if (!this.client) this.client = new actual.default(this.options);
+      return this.client;
+    }
+
+    embeddings = {
+      create: (body: Parameters<OpenAIClient['embeddings']['create']>[0]) =>
+        playCassette({
+          kind: 'openai.embeddings.create',
+          payload: body,
+          live: () => this.real().embeddings.create(body) as Promise<unknown>,
+          serialize: (response) => response,
+          deserialize: (recorded) => recorded,
+        }),
+    };
+
+    chat = {
+      completions: {
+        create: (body: Parameters<OpenAIClient['chat']['completions']['create']>[0]) => {
+          if (body.stream) {
+            throw new Error('[Cassette] Streaming OpenAI calls cannot be recorded');
+          }
+          return playCassette({
+            kind: 'openai.chat.completions.create',
+            payload: body,
+            live: () => this.real().chat.completions.create(body) as Promise<unknown>,
+            serialize: (response) => response,
+            deserialize: (recorded) => recorded,
+          });
+        },
+      },
+    };
+  }
+
+  return {
+    ...actual,
+    __esModule: true,
+    default: CassetteOpenAI,
+    OpenAI: CassetteOpenAI,
+  } as unknown as OpenAIModule;
+}
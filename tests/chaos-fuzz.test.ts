@@ -0,0 +1,79 @@
+/**
+ * Chaos Fuzz Tests
+ *
+ * Seeded case generation, the emitted suite, shrinking failing cases and
+ * reading their reproduction back from vitest failure messages.
+ */
+
+import {
+  FUZZ_MARKER,
+  FUZZ_SHRINKER,
+  buildFuzzSuite,
+  describeFuzzAction,
+  generateFuzzCase,
+  generateFuzzCases,
+  parseFuzzFailure,
+} from '../src/utils/chaosFuzz';
+import type { FuzzAction, InteractableElement } from '../src/types/dream';
+
+const elements: InteractableElement[] = [
+  { type: 'button', selector: 'save', label: 'Save', file: '/src/App.tsx', line: 4, handlers: ['onClick'] },
+  { type: 'input', selector: 'email', label: 'email', file: '/src/App.tsx', line: 5, handlers: ['onChange'] },
+  { type: 'select', selector: 'plan', label: 'plan', file: '/src/App.tsx', line: 6, handlers: [] },
+  { type: 'form', selector: 'form[7]', label: 'form at line 7', file: '/src/App.tsx', line: 7, handlers: ['onSubmit'] },
+];
+
+type Shrink = (steps: FuzzAction[], fails: (steps: FuzzAction[]) => Promise<boolean>) => Promise<FuzzAction[]>;
+
+const target = (label: string) => ({ type: 'button' as const, selector: label, label, pick: 0 });
+
+describe('chaos fuzz', () => {
+  test('generates the same cases for a seed and emits one test per case', () => {
+    const cases = generateFuzzCases(elements, { seed: 42, runs: 5 });
+
+    expect(cases).toHaveLength(5);
+    expect(generateFuzzCases(elements, { seed: 42, runs: 5 })).toEqual(cases);
+    expect(generateFuzzCases(elements, { seed: 43, runs: 5 })).not.toEqual(cases);
+    expect(generateFuzzCase(elements, cases[3].seed)).toEqual(cases[3]);
+
+    const kinds = { button: 'click', input: 'type', select: 'select', form: 'submit' } as const;
+    for (const step of cases.flatMap((c) => c.steps)) {
+      expect(step.kind).toBe(kinds[step.target.type as keyof typeof kinds]);
+    }
+
+    const suite = buildFuzzSuite(cases, { appImport: '../src/App' });
+    expect(suite).toContain('import * as chaosFuzzAppModule from "../src/App";');
+    expect(suite.match(/^test\('fuzz case \d+ \(seed \d+\)'/gm)).toHaveLength(5);
+    expect(buildFuzzSuite([], { appImport: '../src/App' })).toBe('');
+  });
+
+  test('shrinks a failing case and reads its reproduction back', async () => {
+    const shrink = new Function(`${FUZZ_SHRINKER}\nreturn chaosFuzzShrink;`)() as Shrink;
+    const steps: FuzzAction[] = [
+      { kind: 'click', target: target('Save'), times: 1 },
+      { kind: 'type', target: { ...target('email'), type: 'input' }, text: 'hello <b>', repeat: 100 },
+      { kind: 'click', target: target('Reset'), times: 12 },
+      { kind: 'click', target: target('Save'), times: 3 },
+    ];
+    // Crashes once Reset is clicked after typing anything containing "h"
+    const fails = async (candidate: FuzzAction[]) => {
+      const typed = candidate.findIndex((s) => s.kind === 'type' && s.text.includes('h'));
+      return typed !== -1 && candidate.slice(typed).some((s) => s.kind === 'click' && s.target.label === 'Reset');
+    };
+
+    const minimal = await shrink(steps, fails);
+    expect(minimal).toEqual([
+      { kind: 'type', target: { ...target('email'), type: 'input' }, text: 'h', repeat: 1 },
+      { kind: 'click', target: target('Reset'), times: 1 },
+    ]);
+    expect(minimal.map(describeFuzzAction)).toEqual(['Type "h" into input "email"', 'Click button "Reset"']);
+
+    const marker = `${FUZZ_MARKER}${JSON.stringify({ seed: 7, steps: minimal })}`;
+    const failure = `TypeError: boom\n${marker}\n    at Form (/src/Form.tsx:3:1)\n${marker}`;
+    expect(parseFuzzFailure(failure)).toEqual({
+      text: 'TypeError: boom\n    at Form (/src/Form.tsx:3:1)',
+      fuzzCase: { seed: 7, steps: minimal },
+    });
+    expect(parseFuzzFailure('Error: plain').fuzzCase).toBeNull();
+  });
+});
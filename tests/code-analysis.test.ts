@@ -0,0 +1,102 @@
+/**
+ * Code Analysis Tests
+ *
+ * Syntax-tree analysis of JSX, components and imports, and the project-level
+ * dependency links the dependency graph and chaos agent build on.
+ */
+
+import { getCodeAnalysisService } from '../src/services/codeAnalysis';
+import { getDependencyGraphService } from '../src/services/DependencyGraphService';
+import { getQAChaosAgent } from '../src/agents/QA_ChaosAgent';
+import type { AppFile } from '../src/types/railway';
+
+const files: AppFile[] = [
+  {
+    path: '/src/App.tsx',
+    content: [
+      "import { lazy } from 'react';",
+      "import { Button as Btn } from '@/components/ui';",
+      "import * as UI from './components/ui';",
+      "import type { User } from './types';",
+      '',
+      "const Settings = lazy(() => import('./Settings'));",
+      '',
+      'export default function App({ user, title = "Home" }: { user: User; title?: string }) {',
+      '  const buttonProps = { onClick: () => {} };',
+      '  return (',
+      '    <main>',
+      '      <Btn',
+      '        id="save"',
+      '        onClick={() => save(user)}',
+      '      >',
+      '        Save',
+      '      </Btn>',
+      '      <UI.Input placeholder="Email" onChange={() => {}} />',
+      '      <button {...buttonProps}>{title}</button>',
+      '      <a href="/help">Help</a>',
+      '      <Settings />',
+      '    </main>',
+      '  );',
+      '}',
+    ].join('\n'),
+  },
+  { path: '/src/components/ui/index.ts', content: "export { Button } from './Button';\nexport const Input = () => null;" },
+  { path: '/src/components/ui/Button.tsx', content: 'export const Button = memo((props: object) => <button {...props} />);' },
+  { path: '/src/Settings.tsx', content: 'export default function Settings() { return <form onSubmit={() => {}} />; }' },
+  { path: '/src/types.ts', content: 'export interface User { name: string }' },
+];
+
+describe('code analysis', () => {
+  test('analyzes multiline JSX, spread props, aliased components and dynamic imports', () => {
+    const app = getCodeAnalysisService().analyzeFile(files[0]);
+
+    expect(app.type).toBe('component');
+    expect(app.imports.map((i) => [i.source, i.isTypeOnly, i.isDynamic ?? false])).toEqual([
+      ['react', false, false],
+      ['@/components/ui', false, false],
+      ['./components/ui', false, false],
+      ['./types', true, false],
+      ['./Settings', false, true],
+    ]);
+    expect(app.components).toEqual([
+      expect.objectContaining({
+        name: 'App',
+        isDefault: true,
+        props: [
+          { name: 'user', type: 'User', required: true },
+          { name: 'title', type: 'string', required: false, defaultValue: '"Home"' },
+        ],
+        childComponents: ['Btn', 'UI.Input', 'Settings'],
+      }),
+    ]);
+
+    const [, btn, input, button] = app.jsxElements;
+    expect(btn).toMatchObject({ tag: 'Btn', component: 'Button', source: '@/components/ui', text: 'Save', line: 12 });
+    expect(btn.attributes).toEqual({ id: 'save', onClick: null });
+    expect(input).toMatchObject({ component: 'Input', source: './components/ui', handlers: ['onChange'] });
+    expect(button).toMatchObject({ tag: 'button', hasSpread: true, handlers: [] });
+
+    expect(getQAChaosAgent().analyzeUI(files.slice(0, 1))).toEqual([
+      { type: 'button', selector: 'save', label: 'save', file: '/src/App.tsx', line: 12, handlers: ['onClick'] },
+      { type: 'input', selector: 'Email', label: 'Email', file: '/src/App.tsx', line: 18, handlers: ['onChange'] },
+      { type: 'button', selector: 'button[18]', label: 'button at line 19', file: '/src/App.tsx', line: 19, handlers: [] },
+      { type: 'link', selector: 'link[19]', label: 'Help', file: '/src/App.tsx', line: 20, handlers: [] },
+    ]);
+  });
+
+  test('links resolved imports into dependencies, dependents and graph edges', () => {
+    const analyses = getCodeAnalysisService().analyzeProject(files);
+
+    expect(analyses.get('/src/App.tsx')?.dependencies).toEqual([
+      '/src/components/ui/index.ts',
+      '/src/types.ts',
+      '/src/Settings.tsx',
+    ]);
+    expect(analyses.get('/src/components/ui/Button.tsx')?.components[0]).toMatchObject({ name: 'Button', hasMemo: true });
+    expect(analyses.get('/src/components/ui/index.ts')?.dependents).toEqual(['/src/App.tsx']);
+
+    const graph = getDependencyGraphService().buildGraph(files);
+    expect(graph.nodes.get('/src/components/ui/Button.tsx')?.importedBy).toEqual(['/src/components/ui/index.ts']);
+    expect(graph.getImpacted('/src/components/ui/Button.tsx')).toEqual(['/src/components/ui/index.ts', '/src/App.tsx']);
+  });
+});
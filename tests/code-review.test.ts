@@ -0,0 +1,118 @@
+/**
+ * Code Review Tests
+ *
+ * Static review findings, the safe auto-fixes, the strictness-gated
+ * quality report and the pipeline withholding code that fails the gate.
+ */
+
+import { getCodeReviewService } from '../src/services/codeReview';
+import { configureModelGateway, FakeModelProvider } from '../src/services/modelGateway';
+import { runPipeline } from '../src/services/TitanPipelineService';
+import type { AppFile } from '../src/types/railway';
+import type { PipelineStreamEvent } from '../src/types/titanPipeline';
+
+const app: AppFile = {
+  path: '/src/App.tsx',
+  content: [
+    "import { useEffect } from 'react';",
+    "import { format } from 'date-fns';",
+    '',
+    'export default function App({ items, html, userId }: Props) {',
+    '  const [count, setCount] = useState(0);',
+    '  useEffect(() => {',
+    '    fetch(`/api/users/${userId}`);',
+    '  }, []);',
+    '  if (count > 3) {',
+    '    useEffect(() => {});',
+    '  }',
+    '  return (',
+    '    <ul onClick={() => setCount(count + 1)}>',
+    '      {items.map(item => <li>{item.name}</li>)}',
+    '      <div dangerouslySetInnerHTML={{ __html: html }} />',
+    '      <img src="/logo.png" />',
+    '    </ul>',
+    '  );',
+    '}',
+  ].join('\n'),
+};
+
+describe('code review', () => {
+  test('applies safe fixes and reports the remaining issues', () => {
+    const { files, report } = getCodeReviewService().reviewFiles([app], { strictness: 'strict' });
+    const fixed = files[0].content;
+
+    expect(fixed).toContain("import { useEffect, useState } from 'react';");
+    expect(fixed).not.toContain('date-fns');
+    expect(fixed).toContain('{items.map((item, index) => <li key={index}>{item.name}</li>)}');
+    expect(report.fixes.map((f) => f.category).sort()).toEqual(['import_missing', 'import_unused', 'react_missing_key']);
+    expect(report.fixes.find((f) => f.category === 'react_missing_key')).toMatchObject({
+      beforeCode: '      {items.map(item => <li>{item.name}</li>)}',
+      afterCode: '      {items.map((item, index) => <li key={index}>{item.name}</li>)}',
+      functionalityPreserved: true,
+    });
+
+    // Lines refer to the reviewed file, one shorter after the unused import went.
+    expect(report.issues.map((i) => [i.category, i.line])).toEqual([
+      ['security_xss', 14],
+      ['react_missing_deps', 5],
+      ['react_hooks_rule', 9],
+      ['accessibility', 12],
+      ['accessibility', 15],
+    ]);
+    expect(report.issues[1].message).toBe('useEffect is missing dependencies: userId');
+    expect(report.fixedIssues).toBe(3);
+    expect(report.totalIssues).toBe(8);
+    expect(report.issuesBySeverity.critical).toBe(1);
+    expect(report.passed).toBe(false);
+  });
+
+  test('gates by strictness and tracks issue patterns', () => {
+    const service = getCodeReviewService();
+    const eval_: AppFile = { path: '/src/run.ts', content: 'export const run = (code: string) => eval(code);\n' };
+    const clean: AppFile = { path: '/src/sum.ts', content: 'export const sum = (a: number, b: number) => a + b;\n' };
+
+    const relaxed = service.reviewFiles([clean, app], { strictness: 'relaxed' }).report;
+    expect(relaxed.issues.every((i) => i.severity === 'high' || i.severity === 'critical')).toBe(true);
+    expect(relaxed.issues.some((i) => i.category === 'accessibility')).toBe(false);
+
+    const { files, report } = service.reviewFiles([clean, eval_]);
+    expect(files).toEqual([clean, eval_]);
+    expect(report.issues).toEqual([expect.objectContaining({ category: 'security_eval', severity: 'critical', line: 1 })]);
+    expect(report.scores.security).toBe(75);
+    expect(report.passed).toBe(false);
+    expect(service.reviewFiles([clean]).report).toMatchObject({ totalIssues: 0, overallScore: 100, passed: true });
+
+    const patterns = service.getPatternCache().patterns;
+    expect(patterns.find((p) => p.pattern === 'eval')).toMatchObject({ category: 'security_eval', occurrences: 1 });
+    expect(patterns.find((p) => p.pattern === 'missing-key')).toMatchObject({ autoFixSuccess: 1, autoFixFailure: 0 });
+  });
+
+  test('the pipeline withholds generated files that fail the gate', async () => {
+    const originalEnv = { ...process.env };
+    process.env.MODEL_GATEWAY_PROVIDER = 'fake';
+    configureModelGateway({
+      providers: {
+        fake: new FakeModelProvider({
+          builder: 'export default function App({ code }: { code: string }) { return <main data-id="root">{eval(code)}</main>; }',
+        }),
+      },
+    });
+
+    try {
+      const events: PipelineStreamEvent[] = [];
+      const result = await runPipeline(
+        { files: [], instructions: 'A calculator', currentCode: null, reviewStrictness: 'relaxed' },
+        { onEvent: (event) => events.push(event) }
+      );
+
+      expect(result.files).toEqual([]);
+      expect(result.qualityGateFailure).toBe('1 critical issue(s) found');
+      expect(result.qualityReport).toMatchObject({ passed: false, issues: [expect.objectContaining({ category: 'security_eval' })] });
+      expect(events).toContainEqual(
+        expect.objectContaining({ step: 'assembling', stepStatus: 'error', message: 'Code review: 1 critical issue(s) found' })
+      );
+    } finally {
+      process.env = { ...originalEnv };
+    }
+  });
+});
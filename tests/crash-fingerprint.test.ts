@@ -0,0 +1,54 @@
+/**
+ * Crash Fingerprint Tests
+ *
+ * Fingerprints that survive sandbox paths and columns, and grouping crashes
+ * by fingerprint.
+ */
+
+import { crashFingerprint, groupCrashes, parseStackFrames } from '../src/utils/crashFingerprint';
+import type { CrashEntry } from '../src/types/dream';
+
+function crash(error: string, stackTrace: string, testName?: string): CrashEntry {
+  return { error, stackTrace, stepsToReproduce: [], severity: 'medium', testName };
+}
+
+const TYPE_ERROR = "TypeError: Cannot read properties of undefined (reading 'map')";
+
+describe('crash fingerprint', () => {
+  test('is stable across sandboxes and columns, and changes with line or error class', () => {
+    const inGremlin = crash(
+      TYPE_ERROR,
+      `${TYPE_ERROR}\n    at List (/home/.gremlins/gremlin-1/src/List.tsx:3:17)\n    at renderWithHooks (/home/node_modules/react-dom/cjs/react-dom.js:10:5)`
+    );
+    const inRoot = crash(
+      `${TYPE_ERROR} in a different render`,
+      `${TYPE_ERROR}\n    at List (file:///project/src/List.tsx?v=3:3:22)\n    at node:internal/process/task_queues:95:5`
+    );
+
+    expect(parseStackFrames(inGremlin.stackTrace ?? '')[0]).toEqual({ fn: 'List', file: '/src/List.tsx', line: 3 });
+    expect(crashFingerprint(inGremlin)).toMatch(/^[0-9a-f]{8}$/);
+    expect(crashFingerprint(inGremlin)).toBe(crashFingerprint(inRoot));
+
+    const otherLine = crash(TYPE_ERROR, `${TYPE_ERROR}\n    at List (/src/List.tsx:4:17)`);
+    const otherClass = crash('RangeError: Invalid array length', 'RangeError: x\n    at List (/src/List.tsx:3:17)');
+    expect(crashFingerprint(otherLine)).not.toBe(crashFingerprint(inGremlin));
+    expect(crashFingerprint(otherClass)).not.toBe(crashFingerprint(inGremlin));
+
+    expect(crashFingerprint(crash('Timeout after 5000ms', ''))).toBe(crashFingerprint(crash('Timeout after 3000ms', '')));
+  });
+
+  test('groups crashes by fingerprint and sums their occurrences', () => {
+    const stack = `${TYPE_ERROR}\n    at List (/src/List.tsx:3:17)`;
+    const grouped = groupCrashes([
+      crash(TYPE_ERROR, stack, 'renders empty list'),
+      crash('Error: boom', 'Error: boom\n    at Header (/src/Header.tsx:9:1)', 'header'),
+      { ...crash(TYPE_ERROR, stack, 'rapid clicks'), occurrences: 2 },
+    ]);
+
+    expect(grouped.map((c) => [c.testName, c.occurrences])).toEqual([
+      ['renders empty list', 3],
+      ['header', 1],
+    ]);
+    expect(grouped[0].fingerprint).toBe(crashFingerprint(grouped[0]));
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Design Token Pipeline Tests
+ *
+ * Detected themes (Surveyor manifests) and GlobalStyles normalise into a
+ * DesignTokenSet, which exports as CSS variables, a Tailwind theme.extend
+ * block and W3C Design Tokens JSON.
+ */
+
+import {
+  normalizeColor,
+  tokensFromManifests,
+  tokensFromGlobalStyles,
+  tokensFromPipelineResult,
+  toCssVariables,
+  toTailwindThemeExtend,
+  toStyleDictionary,
+} from '../src/utils/designTokens';
+import { generateTailwindConfig } from '../src/utils/exportApp';
+import { defaultGlobalStyles, type MultiPageDesign } from '../src/types/layoutDesign';
+import type { VisualManifest } from '../src/types/titanPipeline';
+
+const MANIFEST: VisualManifest = {
+  file_index: 0,
+  canvas: { width: 1440, height: 900, background: '#FFF' },
+  global_theme: {
+    colors: ['#2563EB'],
+    dom_tree: {
+      type: 'div',
+      styles: { backgroundColor: '#ffffff', color: '#0F172A', fontFamily: 'Inter', fontSize: '16px', padding: '16px 24px' },
+      children: [
+        { type: 'h1', styles: { color: '#0f172a', fontFamily: 'Playfair Display', fontSize: '48px', fontWeight: 'bold' } },
+        { type: 'p', styles: { color: 'rgb(100, 116, 139)', fontSize: '14px' } },
+        { type: 'p', styles: { color: '#0f172a', fontSize: '16px' } },
+        {
+          type: 'div',
+          styles: {
+            backgroundColor: '#f8fafc',
+            borderColor: '#e2e8f0',
+            borderRadius: '12px',
+            boxShadow: '0 4px 6px rgba(0,0,0,0.1)',
+            gap: '8px',
+          },
+          children: [
+            { type: 'button', styles: { backgroundColor: '#f97316', borderRadius: '9999px', color: '#ffffff' } },
+            { type: 'span', styles: { borderRadius: '4px', boxShadow: '0 1px 2px rgba(0,0,0,0.05)' } },
+          ],
+        },
+      ],
+    },
+  },
+  measured_components: [],
+};
+
+describe('normalizeColor', () => {
+  test('expands and lowercases hex, converts rgb(a), rejects non-solid values', () => {
+    expect(normalizeColor('#FFF')).toBe('#ffffff');
+    expect(normalizeColor('#2563EBff')).toBe('#2563eb');
+    expect(normalizeColor('rgb(100, 116, 139)')).toBe('#64748b');
+    expect(normalizeColor('rgba(0,0,0,0.5)')).toBe('#00000080');
+    expect(normalizeColor('linear-gradient(#fff, #000)')).toBeNull();
+    expect(normalizeColor('transparent')).toBeNull();
+  });
+});
+
+describe('tokensFromManifests', () => {
+  const tokens = tokensFromManifests([MANIFEST]);
+
+  test('names colors by role and dedupes after normalisation', () => {
+    expect(tokens.colors).toEqual({
+      background: '#ffffff',
+      surface: '#f8fafc',
+      text: '#0f172a',
+      textMuted: '#64748b',
+      border: '#e2e8f0',
+      primary: '#f97316',
+      secondary: '#2563eb',
+    });
+  });
+
+  test('builds the type scale around the most common size', () => {
+    expect(tokens.fontSizes).toEqual({ sm: '14px', base: '16px', lg: '48px' });
+    expect(tokens.fonts).toEqual({
+      sans: 'Inter, sans-serif',
+      heading: '"Playfair Display", serif',
+    });
+    expect(tokens.fontWeights).toEqual({ heading: 700, bold: 700 });
+  });
+
+  test('orders radii, shadows and spacing by size', () => {
+    expect(tokens.radii).toEqual({ xs: '4px', sm: '12px', full: '9999px' });
+    expect(tokens.shadows).toEqual({
+      xs: '0 1px 2px rgba(0,0,0,0.05)',
+      sm: '0 4px 6px rgba(0,0,0,0.1)',
+    });
+    expect(tokens.spacing).toEqual({ xs: '8px', sm: '16px', md: '24px' });
+  });
+});
+
+describe('token exports', () => {
+  const tokens = tokensFromManifests([MANIFEST]);
+
+  test('CSS custom properties', () => {
+    const css = toCssVariables(tokens);
+
+    expect(css.startsWith(':root {')).toBe(true);
+    expect(css).toContain('  --color-text-muted: #64748b;');
+    expect(css).toContain('  --text-base: 16px;');
+    expect(css).toContain('  --radius-full: 9999px;');
+  });
+
+  test('Tailwind theme.extend references the CSS variables', () => {
+    const extend = toTailwindThemeExtend(tokens);
+
+    expect(extend.colors.primary).toBe('var(--color-primary)');
+    expect(extend.fontFamily.heading).toEqual(['var(--font-heading)']);
+    expect(extend.borderRadius.full).toBe('var(--radius-full)');
+    expect(generateTailwindConfig(tokens)).toContain('"textMuted": "var(--color-text-muted)"');
+    expect(generateTailwindConfig()).toContain('extend: {}');
+  });
+
+  test('W3C design tokens JSON', () => {
+    const json = toStyleDictionary(tokens);
+
+    expect(json.color).toMatchObject({ primary: { $type: 'color', $value: '#f97316' } });
+    expect(json.font).toMatchObject({
+      family: { heading: { $type: 'fontFamily', $value: ['Playfair Display', 'serif'] } },
+      weight: { heading: { $type: 'fontWeight', $value: 700 } },
+    });
+    expect(json.shadow).toMatchObject({
+      sm: {
+        $type: 'shadow',
+        $value: { color: '#0000001a', offsetX: '0px', offsetY: '4px', blur: '6px', spread: '0px' },
+      },
+    });
+  });
+});
+
+describe('tokensFromGlobalStyles', () => {
+  test('maps presets to token values', () => {
+    const tokens = tokensFromGlobalStyles(defaultGlobalStyles);
+
+    expect(tokens.colors.primary).toBe('#6b7280');
+    expect(tokens.fonts).toEqual({ sans: 'Inter, system-ui, sans-serif' });
+    expect(tokens.fontSizes).toMatchObject({ base: '1rem', '4xl': '2.25rem' });
+    expect(tokens.fontWeights).toEqual({ body: 400, heading: 600, bold: 700 });
+    expect(tokens.radii).toEqual({ md: '0.5rem' });
+    expect(tokens.spacing).toMatchObject({ md: '1rem', gap: '1rem', section: '6rem' });
+  });
+});
+
+describe('tokensFromPipelineResult', () => {
+  test("prefers a multi-page build's shared styles over the manifests", () => {
+    const fromManifests = tokensFromPipelineResult({ manifests: [MANIFEST] });
+    expect(fromManifests).toEqual(tokensFromManifests([MANIFEST]));
+
+    const multiPageDesign = { sharedDesign: { globalStyles: defaultGlobalStyles } } as MultiPageDesign;
+    expect(tokensFromPipelineResult({ manifests: [MANIFEST], multiPageDesign })).toEqual(
+      tokensFromGlobalStyles(defaultGlobalStyles)
+    );
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Dream Checkpoint Tests
+ *
+ * An interrupted Dream Mode campaign is saved to IndexedDB (fake-indexeddb
+ * here), found again for the configured repository, and resumed: goals that
+ * were in progress are re-queued and the checkpointed files are remounted
+ * instead of reloading the repository.
+ */
+
+import 'fake-indexeddb/auto';
+
+const mountFiles = jest.fn(async () => undefined);
+const mountRepoSource = jest.fn(async () => {
+  throw new Error('A resumed campaign must not reload the repository');
+});
+
+jest.mock('../src/services/WebContainerService', () => ({
+  getWebContainerService: () => ({ mountFiles, mountRepoSource }),
+}));
+
+import {
+  deleteDreamCheckpoint,
+  dreamCheckpointKey,
+  findDreamCheckpoint,
+  loadDreamCheckpoint,
+  saveDreamCheckpoint,
+} from '../src/services/DreamCheckpointDatabase';
+import { MaintenanceCampaign } from '../src/workflows/MaintenanceCampaign';
+import type { DreamCheckpoint, DreamGoal } from '../src/types/dream';
+
+const SAVED_AT = new Date(2026, 9, 19, 3, 0).getTime();
+
+const goal = (id: string, status: DreamGoal['status']): DreamGoal => ({
+  id,
+  prompt: `Goal ${id}`,
+  status,
+  source: 'user',
+  createdAt: SAVED_AT,
+});
+
+const FILES = [
+  { path: '/src/App.tsx', content: 'export default function App() { return <Header />; }' },
+  { path: '/src/Header.tsx', content: 'export function Header() { return null; }' },
+];
+
+function checkpointState(repoUrl: string): Omit<DreamCheckpoint, 'files'> {
+  return {
+    repoUrl,
+    branch: 'main',
+    profileName: 'REM',
+    phase: 'BUILDING_GOAL',
+    completedSteps: ['load', 'spec_audit', 'discovery', 'temporal_audit'],
+    elapsed: 12 * 60000,
+    goalQueue: [goal('done', 'COMPLETED'), goal('interrupted', 'IN_PROGRESS'), goal('queued', 'PENDING')],
+    crashReports: [],
+    patches: [],
+    discoveryReport: null,
+    fixCount: 1,
+    goalsCompleted: 1,
+    bugsFound: 0,
+    bugsFixed: 0,
+    discoveries: 0,
+    savedAt: SAVED_AT,
+  };
+}
+
+describe('dream checkpoints', () => {
+  const repoKey = dreamCheckpointKey('octo/app') ?? '';
+
+  afterEach(async () => {
+    await deleteDreamCheckpoint(repoKey);
+    jest.clearAllMocks();
+  });
+
+  test('a saved checkpoint is found for the configured repository and keeps its files across state-only saves', async () => {
+    expect(repoKey).not.toBe('');
+    expect(dreamCheckpointKey('https://github.com/octo/app')).toBe(repoKey);
+    expect(dreamCheckpointKey('not a repository')).toBeNull();
+    expect(await findDreamCheckpoint('octo/app')).toBeNull();
+
+    await saveDreamCheckpoint(checkpointState(repoKey), FILES);
+    // Later checkpoints skip the unchanged file set
+    await saveDreamCheckpoint({ ...checkpointState(repoKey), fixCount: 2 });
+
+    const found = await findDreamCheckpoint('https://github.com/octo/app');
+    expect(found).toMatchObject({ repoUrl: repoKey, fixCount: 2, files: FILES });
+    expect(await loadDreamCheckpoint(repoKey)).toEqual(found);
+
+    await deleteDreamCheckpoint(repoKey);
+    expect(await findDreamCheckpoint('octo/app')).toBeNull();
+  });
+
+  test('resuming re-queues in-progress goals and remounts the checkpointed files', async () => {
+    await saveDreamCheckpoint(checkpointState(repoKey), FILES);
+    const checkpoint = await findDreamCheckpoint('octo/app');
+
+    const queues: DreamGoal[][] = [];
+    const logs: string[] = [];
+    const campaign: MaintenanceCampaign = new MaintenanceCampaign({
+      profileName: 'REM',
+      // Queued in the UI since the checkpoint was saved
+      goalQueue: [goal('queued', 'PENDING'), goal('new', 'PENDING')],
+      resumeFrom: checkpoint,
+      onLog: (message) => {
+        logs.push(message);
+        // Stop once the files are back so the test ends after the load phase
+        if (message.includes('Remounting 2 checkpointed files')) campaign.stop();
+      },
+      onPhaseChange: () => undefined,
+      onStatsUpdate: () => undefined,
+      onGoalQueueUpdate: (goals) => queues.push(goals.map((g) => ({ ...g }))),
+      onDiscoveryReport: () => undefined,
+    });
+
+    const log = await campaign.run('octo/app');
+
+    expect(log.stopReason).toBe('user_stopped');
+    expect(logs[0]).toMatch(/Resuming from checkpoint saved .* \(phase: BUILDING_GOAL, 12 min elapsed\)$/);
+    expect(mountFiles).toHaveBeenCalledWith(FILES);
+    expect(mountRepoSource).not.toHaveBeenCalled();
+    expect(queues[0].map((g) => [g.id, g.status])).toEqual([
+      ['done', 'COMPLETED'],
+      ['interrupted', 'PENDING'],
+      ['queued', 'PENDING'],
+      ['new', 'PENDING'],
+    ]);
+
+    // A stopped campaign stays resumable
+    expect(await findDreamCheckpoint('octo/app')).toMatchObject({ files: FILES, phase: 'LOADING' });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Dream Auto-Commit Tests
+ *
+ * Verified Dream Mode patches are pushed as one commit each to a
+ * dream/<date> branch of a local bare repository, and a pull request with the
+ * dream log summary is opened through a mocked GitHub API.
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  buildPatchCommitMessage,
+  createDreamCommitService,
+  dreamBranchName,
+} from '../src/services/DreamCommitService';
+import { createGitPublishService } from '../src/services/gitPublish';
+import type { DreamGoal, DreamLog } from '../src/types/dream';
+import type { HistoryFs } from '../src/types/gitHistory';
+import {
+  GIT_HOST,
+  httpBackendClient,
+  initBareRepo,
+  pushToBareRepo,
+  withPakoDeflate,
+} from './git/httpBackend';
+
+const STARTED_AT = new Date(2026, 9, 19, 2, 30).getTime();
+
+const GOAL: DreamGoal = {
+  id: 'goal_1',
+  prompt: 'Wire the orphaned SettingsPanel into the header',
+  status: 'COMPLETED',
+  source: 'discovery',
+  createdAt: STARTED_AT,
+};
+
+let root: string;
+let bareRepo: string;
+
+function dreamLog(overrides: Partial<DreamLog> = {}): DreamLog {
+  return {
+    id: 'dream_1',
+    startedAt: STARTED_AT,
+    endedAt: STARTED_AT + 25 * 60000,
+    goalsCompleted: 1,
+    bugsFound: 2,
+    bugsFixed: 1,
+    discoveries: 1,
+    crashReports: [],
+    patches: [
+      { file: '/src/App.tsx', before: '', after: '', crashId: 'patch_1', verified: true, appliedAt: STARTED_AT },
+      { file: '/src/Header.tsx', before: '', after: '', goalId: GOAL.id, verified: true, appliedAt: STARTED_AT },
+    ],
+    profileUsed: 'REM',
+    repoUrl: 'octo/app',
+    stopReason: 'all_stable',
+    ...overrides,
+  };
+}
+
+/** GitHub API for an existing octo/app repo served by the bare repository. */
+function mockGitHubApi() {
+  const pulls: Array<Record<string, string>> = [];
+  const json = (status: number, data: unknown) =>
+    ({ ok: status < 300, status, json: async () => data, text: async () => JSON.stringify(data) }) as unknown as Response;
+
+  const fetchMock = jest.fn(async (url: string, init?: RequestInit) => {
+    const route = `${init?.method ?? 'GET'} ${url.replace('https://api.github.com', '')}`;
+    if (route === 'GET /repos/octo/app') {
+      return json(200, {
+        name: 'app',
+        owner: { login: 'octo' },
+        clone_url: `${GIT_HOST}/app.git`,
+        html_url: 'https://github.com/octo/app',
+        default_branch: 'main',
+      });
+    }
+    if (route === 'POST /repos/octo/app/pulls') {
+      const pr = JSON.parse(String(init?.body));
+      pulls.push(pr);
+      return json(201, { number: pulls.length, html_url: `https://github.com/octo/app/pull/${pulls.length}`, title: pr.title });
+    }
+    return json(500, { message: `unexpected ${route}` });
+  });
+
+  return { fetchMock, pulls };
+}
+
+const git = (...args: string[]) =>
+  execFileSync('git', ['--git-dir', bareRepo, ...args], { encoding: 'utf8' }).trim();
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'dream-commit-'));
+  bareRepo = initBareRepo(path.join(root, 'remote', 'app.git'));
+  pushToBareRepo(bareRepo, {
+    'src/App.tsx': 'export default function App() { return <Header />; }\n',
+    'src/Header.tsx': 'export function Header() { return null; }\n',
+  });
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+withPakoDeflate();
+
+describe('DreamCommitService', () => {
+  const createService = (fetchMock: jest.Mock) => {
+    const publishService = createGitPublishService({
+      fs: fs as unknown as HistoryFs,
+      http: httpBackendClient(path.join(root, 'remote')),
+      root: path.join(root, 'work'),
+    });
+    return createDreamCommitService({
+      getPublishService: async () => publishService,
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+  };
+
+  test('pushes one commit per verified patch to dream/<date> and opens a PR with the summary', async () => {
+    const { fetchMock, pulls } = mockGitHubApi();
+    const service = createService(fetchMock);
+    const source = { kind: 'github' as const, repo: 'octo/app', ref: 'main', token: 'ghp_dream' };
+
+    const result = await service.publish(source, dreamLog(), [
+      {
+        message: buildPatchCommitMessage({
+          crash: {
+            error: "TypeError: Cannot read properties of undefined (reading 'map')",
+            stepsToReproduce: ['Open the app', 'Click "Load"'],
+            severity: 'high',
+            file: '/src/App.tsx',
+            line: 1,
+          },
+        }),
+        files: [{ path: '/src/App.tsx', content: 'export default function App() { return <Header items={[]} />; }\n' }],
+      },
+      {
+        message: buildPatchCommitMessage({ goal: GOAL }),
+        files: [{ path: '/src/Header.tsx', content: 'export function Header() { return <SettingsPanel />; }\n' }],
+      },
+    ]);
+
+    expect(result).toEqual({
+      branch: 'dream/2026-10-19',
+      commitOids: [expect.any(String), expect.any(String)],
+      pullRequestUrl: 'https://github.com/octo/app/pull/1',
+    });
+    expect(git('log', '--format=%s', 'main..dream/2026-10-19').split('\n')).toEqual([
+      'Wire the orphaned SettingsPanel into the header',
+      "Fix: TypeError: Cannot read properties of undefined (reading 'map')",
+    ]);
+    expect(git('log', '-1', '--format=%b', 'dream/2026-10-19~1')).toContain('Location: /src/App.tsx:1');
+    expect(pulls[0]).toMatchObject({ head: 'dream/2026-10-19', base: 'main', title: 'Dream Mode: 2 verified patches' });
+    expect(pulls[0].body).toContain('| Bugs fixed | 1 |');
+    expect(pulls[0].body).toContain('- `/src/Header.tsx` — goal');
+
+    // A second cycle the same night continues the branch without a second PR
+    const again = await service.publish(source, dreamLog(), [
+      { message: 'Fix: follow-up', files: [{ path: '/src/App.tsx', content: 'export default () => null;\n' }] },
+    ]);
+    expect(again.pullRequestUrl).toBeNull();
+    expect(git('rev-list', '--count', 'main..dream/2026-10-19')).toBe('3');
+    expect(pulls).toHaveLength(1);
+  });
+
+  test('reports sources it cannot push to instead of throwing', async () => {
+    const service = createService(jest.fn());
+
+    const result = await service.publish({ kind: 'zip', data: new Uint8Array() }, dreamLog(), []);
+
+    expect(result.commitOids).toEqual([]);
+    expect(result.error).toMatch(/zip sources have no remote/);
+    expect(dreamBranchName(STARTED_AT)).toBe(result.branch);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Dream Report Tests
+ *
+ * Markdown and HTML morning reports rendered from a DreamLog.
+ */
+
+import {
+  dreamReportFilename,
+  renderDreamReportHtml,
+  renderDreamReportMarkdown,
+} from '../src/utils/dreamReport';
+import type { DreamLog } from '../src/types/dream';
+
+const STARTED_AT = Date.UTC(2026, 9, 19, 1, 0);
+
+const log: DreamLog = {
+  id: 'dream_1',
+  startedAt: STARTED_AT,
+  endedAt: STARTED_AT + 90 * 60000,
+  goalsCompleted: 1,
+  bugsFound: 1,
+  bugsFixed: 1,
+  discoveries: 1,
+  crashReports: [
+    {
+      id: 'report_1',
+      timestamp: STARTED_AT,
+      duration: 1000,
+      strategy: 'vitest',
+      testsRun: 4,
+      testsPassed: 3,
+      crashes: [
+        {
+          error: "TypeError: Cannot read properties of undefined (reading 'map')",
+          stepsToReproduce: ['Open the app', 'Click <Load>'],
+          severity: 'high',
+          file: '/src/List.tsx',
+          line: 3,
+        },
+      ],
+    },
+  ],
+  patches: [
+    {
+      file: '/src/List.tsx',
+      before: '',
+      after: '',
+      crashId: 'patch_1',
+      verified: true,
+      appliedAt: STARTED_AT + 30 * 60000,
+      commitMessage: "Fix: TypeError: Cannot read properties of undefined (reading 'map')\n\nbody",
+      changes: [
+        {
+          path: '/src/List.tsx',
+          before: 'export function List({ items }) {\n  return (\n    <ul>{items.map(render)}</ul>\n  );\n}\n',
+          after: 'export function List({ items = [] }) {\n  return (\n    <ul>{items.map(render)}</ul>\n  );\n}\n',
+        },
+      ],
+    },
+    {
+      file: '/src/Header.tsx',
+      before: '',
+      after: '',
+      goalId: 'goal_2',
+      verified: true,
+      appliedAt: STARTED_AT + 60 * 60000,
+      revertedAt: STARTED_AT + 70 * 60000,
+      revertReason: 'Regression: Header test crashed',
+      changes: [{ path: '/src/Header.tsx', before: null, after: 'export const Header = () => null;\n' }],
+    },
+  ],
+  profileUsed: 'REM',
+  repoUrl: 'octo/app',
+  stopReason: 'time_limit',
+  goals: [
+    { id: 'goal_1', prompt: 'Wire SettingsPanel', status: 'COMPLETED', source: 'discovery', createdAt: STARTED_AT },
+    { id: 'goal_2', prompt: 'Add a header', status: 'FAILED', source: 'user', createdAt: STARTED_AT, errorMessage: 'Rolled back' },
+  ],
+  discoveryReport: {
+    scannedFiles: 12,
+    timestamp: STARTED_AT,
+    duration: 500,
+    discoveries: [
+      { file: '/src/Active.tsx', inferredPurpose: 'Main view', status: 'ACTIVE', consumers: ['/src/App.tsx'], suggestedAction: '' },
+      { file: '/src/SettingsPanel.tsx', inferredPurpose: 'User settings', status: 'DISCONNECTED', consumers: [], suggestedAction: 'Render it from the header.' },
+    ],
+  },
+  phaseUsage: [
+    { phase: 'LOADING', durationMs: 30 * 60000, visits: 1, fixesUsed: 0 },
+    { phase: 'VERIFYING', durationMs: 60 * 60000, visits: 2, fixesUsed: 2 },
+  ],
+  fixBudget: 10,
+};
+
+describe('dreamReport', () => {
+  test('markdown lists diffs, reproduction steps, goals, phase usage and orphaned features', () => {
+    const markdown = renderDreamReportMarkdown(log);
+
+    expect(markdown).toContain('# Dream report — octo/app — 2026-10-19 01:00 UTC');
+    expect(markdown).toContain('| Fix budget used | 2 / 10 |');
+    expect(markdown).toContain('| Verifying | 1 h 0 min | 67% | 2 | 2 |');
+    expect(markdown).toContain(
+      [
+        '```diff',
+        '--- a/src/List.tsx',
+        '+++ b/src/List.tsx',
+        '@@ -1,4 +1,4 @@',
+        '-export function List({ items }) {',
+        '+export function List({ items = [] }) {',
+      ].join('\n')
+    );
+    expect(markdown).toContain('--- /dev/null\n+++ b/src/Header.tsx\n@@ -0,0 +1,1 @@');
+    expect(markdown).toContain('crash fix, **verified**');
+    expect(markdown).toContain('goal, **rolled back**');
+    expect(markdown).toContain('Steps to reproduce:\n\n1. Open the app\n2. Click <Load>');
+    expect(markdown).toContain('- ✅ Wire SettingsPanel _(discovery)_');
+    expect(markdown).toContain('- ❌ Add a header _(user)_ — Rolled back');
+    expect(markdown).toContain('- `/src/SettingsPanel.tsx` (disconnected) — User settings. Render it from the header.');
+    expect(markdown).not.toContain('/src/Active.tsx');
+  });
+
+  test('html is self-contained and escapes log content', () => {
+    const html = renderDreamReportHtml(log);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).not.toMatch(/<script|<link|src="http/);
+    expect(html).toContain('<li>Click &lt;Load&gt;</li>');
+    expect(html).toContain('<span class="add">+export function List({ items = [] }) {</span>');
+    expect(html).toContain('<span class="badge rolled-back">rolled back</span>');
+    expect(dreamReportFilename(log, 'html')).toBe('dream-report-octo-app-2026-10-19.html');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Export Profile Tests
+ *
+ * ExportService detects the project shape and emits a Vite, Next App Router
+ * or static HTML project with React 19 toolchain versions.
+ */
+
+import JSZip from 'jszip';
+import { getExportService } from '../src/services/ExportService';
+import { exportAppAsZip } from '../src/utils';
+import { componentsToReactCode } from '../src/utils/componentsToReactCode';
+import { CURATED_VERSIONS } from '../src/config/curated-versions';
+import type { AppFile } from '../src/types/railway';
+import type { DesignTokenSet } from '../src/types/designTokens';
+
+const SPA_FILES: AppFile[] = componentsToReactCode([
+  {
+    id: 'hero',
+    type: 'hero',
+    bounds: { top: 0, left: 0, width: 100, height: 50 },
+    style: { backgroundColor: '#0f172a' },
+    content: { text: 'Ship faster', hasIcon: true, iconName: 'rocket' },
+    confidence: 0.9,
+  },
+]);
+
+const NEXT_FILES: AppFile[] = [
+  { path: '/src/app/layout.tsx', content: 'export default function RootLayout({ children }) { return children; }' },
+  { path: '/src/app/page.tsx', content: "import Link from 'next/link';\nexport default function Page() { return <Link href=\"/\">Home</Link>; }" },
+];
+
+const TOKENS: DesignTokenSet = {
+  colors: { primary: '#2563eb' },
+  fonts: {},
+  fontSizes: {},
+  fontWeights: {},
+  lineHeights: {},
+  radii: {},
+  shadows: {},
+  spacing: {},
+};
+
+const service = getExportService();
+const build = (files: AppFile[], profile?: 'vite' | 'next-app' | 'static-html') =>
+  service.buildProjectFiles({ appName: 'Launch Page', files, profile });
+const fileMap = (files: AppFile[]) => new Map(files.map((f) => [f.path, f.content]));
+
+describe('project shape detection', () => {
+  test('builder output is a React SPA that defaults to Vite', () => {
+    const shape = service.detectShape(SPA_FILES);
+
+    expect(shape.kind).toBe('react-spa');
+    expect(shape.appPath).toBe('/src/App.tsx');
+    expect(shape.defaultProfile).toBe('vite');
+  });
+
+  test('an App Router tree only exports as a Next app', () => {
+    const shape = service.detectShape(NEXT_FILES);
+
+    expect(shape.kind).toBe('next-app');
+    expect(shape.supportedProfiles).toEqual(['next-app']);
+    expect(() => build(NEXT_FILES, 'vite')).toThrow('[ExportService]');
+  });
+});
+
+describe('vite profile', () => {
+  const files = fileMap(build(SPA_FILES));
+  const pkg = JSON.parse(files.get('/package.json') ?? '{}');
+
+  test('replaces the preview entry with a Vite entry', () => {
+    expect(files.has('/src/index.tsx')).toBe(false);
+    expect(files.get('/index.html')).toContain('<script type="module" src="/src/main.tsx">');
+    expect(files.get('/src/main.tsx')).toContain("import App from './App';");
+    expect(files.get('/src/main.tsx')).not.toContain('inspector');
+    expect(files.get('/src/components/Hero.tsx')).toContain('data-id="hero"');
+  });
+
+  test('pins React 19 and the Vite toolchain from curated versions', () => {
+    expect(pkg.type).toBe('module');
+    expect(pkg.scripts.build).toBe('vite build');
+    expect(pkg.dependencies.react).toBe(CURATED_VERSIONS.react);
+    expect(pkg.dependencies['lucide-react']).toBe(CURATED_VERSIONS['lucide-react']);
+    expect(pkg.dependencies.next).toBeUndefined();
+    expect(pkg.devDependencies.vite).toBe(CURATED_VERSIONS.vite);
+  });
+
+  test('configs use ES modules and scan src for Tailwind classes', () => {
+    expect(files.get('/tailwind.config.js')).toContain("export default {");
+    expect(files.get('/tailwind.config.js')).toContain("'./src/**/*.{js,ts,jsx,tsx}'");
+    expect(files.get('/postcss.config.js')).toContain('export default {');
+  });
+});
+
+describe('next-app profile', () => {
+  test('wraps a React SPA in an App Router page', () => {
+    const files = fileMap(build(SPA_FILES, 'next-app'));
+    const pkg = JSON.parse(files.get('/package.json') ?? '{}');
+
+    expect(files.get('/src/app/page.tsx')).toContain("import App from '../App';");
+    expect(files.get('/src/app/layout.tsx')).toContain("import './globals.css';");
+    expect(pkg.dependencies.next).toBe(CURATED_VERSIONS.next);
+    expect(pkg.scripts.build).toBe('next build');
+    expect(files.get('/tailwind.config.js')).toContain('module.exports = {');
+  });
+
+  test('keeps an existing App Router tree as-is', () => {
+    const files = fileMap(build(NEXT_FILES));
+
+    expect(files.get('/src/app/page.tsx')).toBe(NEXT_FILES[1].content);
+    expect(JSON.parse(files.get('/package.json') ?? '{}').dependencies.next).toBe(CURATED_VERSIONS.next);
+  });
+});
+
+describe('static-html profile', () => {
+  test('renders a single responsive page', () => {
+    const files = build(SPA_FILES, 'static-html');
+    const html = fileMap(files).get('/index.html') ?? '';
+
+    expect(files.map((f) => f.path)).toEqual(['/index.html', '/README.md']);
+    expect(html).toContain('<title>Launch Page</title>');
+    expect(html).toContain('min-height: 100%;');
+    expect(html).not.toContain('overflow: hidden;');
+  });
+});
+
+describe('design tokens', () => {
+  test('are written as CSS and JSON and imported by the global stylesheet', () => {
+    const files = fileMap(
+      service.buildProjectFiles({ appName: 'Launch Page', files: SPA_FILES, designTokens: TOKENS })
+    );
+
+    expect(files.get('/src/styles/tokens.css')).toContain('--color-primary: #2563eb;');
+    expect(files.get('/src/index.css')?.startsWith("@import './styles/tokens.css';")).toBe(true);
+    expect(files.get('/tailwind.config.js')).toContain('"primary": "var(--color-primary)"');
+    expect(JSON.parse(files.get('/tokens.json') ?? '{}').color.primary.$value).toBe('#2563eb');
+  });
+});
+
+describe('zip export', () => {
+  test('the utils entry point zips the detected profile', async () => {
+    const blob = await exportAppAsZip({ appName: 'Launch Page', files: SPA_FILES });
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    const pkg = JSON.parse((await zip.file('package.json')?.async('string')) ?? '{}');
+
+    expect(Object.keys(zip.files)).toEqual(expect.arrayContaining(['package.json', 'vite.config.ts', 'src/main.tsx']));
+    expect(pkg.name).toBe('launch-page');
+  });
+
+  test('history is asked for the exported tree and rides along as .git', async () => {
+    const gitDirectory = jest.fn(async () => [
+      { path: '.git/HEAD', content: new TextEncoder().encode('ref: refs/heads/main\n') },
+    ]);
+    const blob = await service.exportAppAsZip({ appName: 'Launch Page', files: SPA_FILES, gitDirectory });
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+
+    expect(gitDirectory).toHaveBeenCalledWith(build(SPA_FILES));
+    expect(await zip.file('.git/HEAD')?.async('string')).toBe('ref: refs/heads/main\n');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * File Edit Protocol Tests
+ *
+ * Parsing coder output as a typed edit set and applying it all-or-nothing to
+ * a loaded file tree.
+ */
+
+import { applyFileEdits, describeFileEdits, parseFileEdits } from '../src/utils/fileEdits';
+import type { FileEdit } from '../src/types/autonomy';
+
+const tree = [
+  { path: '/src/App.tsx', content: 'import { Header } from "./Header";\n\nexport default () => <Header />;\n' },
+  { path: '/src/Header.tsx', content: 'export const Header = () => <h1>Hi</h1>;\n' },
+  { path: '/src/legacy.ts', content: 'export {};\n' },
+  { path: '/package.json', content: '{}' },
+];
+
+describe('fileEdits', () => {
+  test('parses an edit set out of fenced output and ignores plain code', () => {
+    const output = 'Here you go:\n```json\n{"edits": [{"op": "delete", "path": "/src/legacy.ts"}]}\n```';
+
+    expect(parseFileEdits(output)).toEqual([{ op: 'delete', path: '/src/legacy.ts' }]);
+    expect(parseFileEdits('export default function App() { return null; }')).toBeNull();
+    expect(() => parseFileEdits('{"edits": [{"op": "patch", "path": "/src/App.tsx"}]}')).toThrow(/Edit 1 is malformed/);
+  });
+
+  test('applies create, patch, rename and delete in order', () => {
+    const edits: FileEdit[] = [
+      { op: 'create', path: '/src/components/Badge.tsx', content: 'export const Badge = () => null;\n' },
+      { op: 'patch', path: '/src/App.tsx', hunks: [{ search: '<Header />', replace: '<Header sticky />' }] },
+      { op: 'rename', path: '/src/Header.tsx', to: '/src/components/Header.tsx' },
+      { op: 'patch', path: '/src/components/Header.tsx', hunks: [{ search: 'Hi', replace: 'Hello' }] },
+      { op: 'delete', path: '/src/legacy.ts' },
+    ];
+
+    const result = applyFileEdits(tree, edits);
+
+    expect(result.files.map((f) => f.path).sort()).toEqual([
+      '/package.json',
+      '/src/App.tsx',
+      '/src/components/Badge.tsx',
+      '/src/components/Header.tsx',
+    ]);
+    expect(result.written.map((f) => f.path).sort()).toEqual([
+      '/src/App.tsx',
+      '/src/components/Badge.tsx',
+      '/src/components/Header.tsx',
+    ]);
+    expect(result.files.find((f) => f.path === '/src/components/Header.tsx')?.content).toContain('Hello');
+    expect(result.removed.sort()).toEqual(['/src/Header.tsx', '/src/legacy.ts']);
+    expect(tree[0].content).toContain('<Header />');
+    expect(describeFileEdits(edits.slice(1, 3))).toBe(
+      'patch /src/App.tsx (1 hunk), rename /src/Header.tsx → /src/components/Header.tsx'
+    );
+  });
+
+  test('rejects the whole set on inexact hunks or paths outside the tree', () => {
+    const apply = (edits: FileEdit[]) => () => applyFileEdits(tree, edits);
+
+    expect(apply([
+      { op: 'delete', path: '/src/legacy.ts' },
+      { op: 'patch', path: '/src/App.tsx', hunks: [{ search: '<Header/>', replace: '' }] },
+    ])).toThrow(/edit 2 \(patch \/src\/App.tsx\): hunk 1 search text does not match the file exactly/);
+    expect(apply([
+      { op: 'patch', path: '/src/App.tsx', hunks: [{ search: 'Header', replace: 'Nav' }] },
+    ])).toThrow(/matches more than once/);
+    expect(apply([{ op: 'create', path: '/src/../../etc/passwd', content: '' }])).toThrow(/not a normalized absolute path/);
+    expect(apply([{ op: 'create', path: '/node_modules/react/index.js', content: '' }])).toThrow(/outside the loaded tree/);
+    expect(apply([{ op: 'replace', path: '/src/Missing.tsx', content: '' }])).toThrow(/no such file/);
+    expect(apply([{ op: 'rename', path: '/src/legacy.ts', to: '/src/App.tsx' }])).toThrow(/already exists/);
+  });
+});
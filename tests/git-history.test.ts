@@ -0,0 +1,163 @@
+/**
+ * Git History Tests
+ *
+ * GitHistoryService records AppFile[] snapshots as commits in a real git
+ * repository, diffs commits into FileChange[] for EnhancedDiffViewer, and
+ * exports the repository as a `.git` directory. Runs against Node's fs in a
+ * temp directory; the browser uses lightning-fs over IndexedDB.
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createGitHistoryService,
+  type GitHistoryServiceInstance,
+  type HistoryFs,
+} from '../src/services/GitHistoryService';
+import { diffLines, toDiffHunks } from '../src/utils/lineDiff';
+import type { AppFile } from '../src/types/railway';
+import type { HistoryCommit, HistoryCommitSource } from '../src/types/gitHistory';
+import { withPakoDeflate } from './git/httpBackend';
+
+const V1: AppFile[] = [
+  { path: '/src/App.tsx', content: 'export default function App() {\n  return <h1>Hello</h1>;\n}\n' },
+  { path: '/src/index.css', content: 'body { margin: 0; }\n' },
+];
+
+const V2: AppFile[] = [
+  { path: '/src/App.tsx', content: 'export default function App() {\n  return <h1>Hello, world</h1>;\n}\n' },
+  { path: '/src/components/Hero.tsx', content: 'export const Hero = () => null;\n' },
+];
+
+let root: string;
+let history: GitHistoryServiceInstance;
+
+withPakoDeflate();
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-history-'));
+  history = createGitHistoryService({ fs: fs as unknown as HistoryFs, root });
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+async function commit(
+  files: AppFile[],
+  message: string,
+  source: HistoryCommitSource = 'pipeline'
+): Promise<HistoryCommit> {
+  const result = await history.commit('p1', files, { message, source });
+  if (!result) throw new Error(`Expected "${message}" to create a commit`);
+  return result;
+}
+
+describe('lineDiff', () => {
+  test('keeps line numbers for both sides and groups changes into hunks', () => {
+    const lines = diffLines('a\nb\nc\nd\n', 'a\nB\nc\nd\ne\n');
+
+    expect(lines.map((l) => `${l.type[0]}${l.content}`)).toEqual(['ua', 'rb', 'aB', 'uc', 'ud', 'ae']);
+    expect(lines[2]).toMatchObject({ number: 2, modifiedNumber: 2 });
+
+    const hunks = toDiffHunks(lines, { contextLines: 0 });
+    expect(hunks.map((h) => [h.type, h.startLine, h.endLine])).toEqual([
+      ['modification', 2, 2],
+      ['addition', 5, 5],
+    ]);
+  });
+});
+
+describe('GitHistoryService', () => {
+  test('records commits with their source and skips unchanged snapshots', async () => {
+    const first = await commit(V1, 'Hero landing page');
+    const second = await commit(V2, 'Make the title friendlier', 'live-edit');
+    const unchanged = await history.commit('p1', V2, { message: 'Again', source: 'repair' });
+
+    expect(unchanged).toBeNull();
+    expect(second.parents).toEqual([first.oid]);
+
+    const log = await history.log('p1');
+    expect(log.map((c) => [c.message, c.source])).toEqual([
+      ['Make the title friendlier', 'live-edit'],
+      ['Hero landing page', 'pipeline'],
+    ]);
+    const files = await history.readFiles('p1', second.oid);
+    expect(files).toEqual(expect.arrayContaining([V2[1]]));
+    expect(files.map((f) => f.path)).not.toContain('/src/index.css');
+  });
+
+  test('diffs two commits into FileChanges', async () => {
+    const first = await commit(V1, 'v1');
+    const second = await commit(V2, 'v2');
+
+    const changes = await history.diff('p1', first.oid, second.oid);
+
+    expect(changes.map((c) => [c.path, c.action, c.category])).toEqual([
+      ['/src/App.tsx', 'modify', 'logic'],
+      ['/src/components/Hero.tsx', 'create', 'logic'],
+      ['/src/index.css', 'delete', 'styling'],
+    ]);
+    expect(changes[0].hunks[0].lines.filter((l) => l.type !== 'unchanged').map((l) => l.content)).toEqual([
+      '  return <h1>Hello</h1>;',
+      '  return <h1>Hello, world</h1>;',
+    ]);
+  });
+
+  test('branches and restores without losing history', async () => {
+    const first = await commit(V1, 'v1');
+    await commit(V2, 'v2');
+
+    const branchFiles = await history.createBranch('p1', 'experiment', first.oid);
+    expect(branchFiles).toEqual(V1);
+    expect((await history.listBranches('p1')).find((b) => b.isCurrent)?.name).toBe('experiment');
+
+    expect(await history.checkout('p1', 'main')).toEqual(expect.arrayContaining(V2));
+
+    const restored = await history.restore('p1', first.oid);
+    expect(restored).toEqual(V1);
+    const log = await history.log('p1');
+    expect(log[0]).toMatchObject({ message: `Restore ${first.shortOid}`, source: 'restore' });
+    expect(log).toHaveLength(3);
+  });
+
+  test('exports the repository as a .git directory', async () => {
+    await commit(V1, 'v1');
+
+    const files = await history.exportGitDirectory('p1');
+    const head = files.find((f) => f.path === '.git/HEAD');
+
+    expect(new TextDecoder().decode(head?.content)).toBe('ref: refs/heads/main\n');
+    expect(files.some((f) => f.path.startsWith('.git/objects/'))).toBe(true);
+    expect(await history.exportGitDirectory('missing')).toEqual([]);
+  });
+
+  test('commits the exported tree on top of history without moving the project', async () => {
+    const v1 = await commit(V1, 'v1');
+    const exported: AppFile[] = [
+      { path: '/src/App.tsx', content: V1[0].content },
+      { path: '/src/main.tsx', content: "import App from './App';\n" },
+      { path: '/package.json', content: '{ "name": "app" }\n' },
+    ];
+
+    const gitDirectory = await history.exportGitDirectory('p1', exported);
+
+    // The unzipped export is a clean checkout whose HEAD builds on the history
+    const out = path.join(root, 'unzipped');
+    for (const file of [...exported, ...gitDirectory]) {
+      const target = path.join(out, file.path.replace(/^\/+/, ''));
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, file.content);
+    }
+    const gitIn = (...args: string[]) => execFileSync('git', args, { cwd: out, encoding: 'utf8' });
+    expect(gitIn('status', '--porcelain')).toBe('');
+    expect(gitIn('log', '--format=%s', 'HEAD~1..HEAD').trim()).toBe('Export project');
+    expect(gitIn('rev-parse', 'HEAD~1').trim()).toBe(v1.oid);
+
+    // The project's own branch and working tree are untouched
+    expect((await history.log('p1')).map((c) => c.oid)).toEqual([v1.oid]);
+    expect(await history.commit('p1', V1, { message: 'Again', source: 'manual' })).toBeNull();
+  });
+});
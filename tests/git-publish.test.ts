@@ -0,0 +1,146 @@
+/**
+ * Git Publish Tests
+ *
+ * GitPublishService pushes generated files to a local bare repository served
+ * by `git http-backend` (run as CGI per request), with GitHubProvider talking
+ * to a mocked REST API for repository creation and pull requests.
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createGitPublishService,
+  GitHubProvider,
+  PlainRemoteProvider,
+} from '../src/services/gitPublish';
+import type { HistoryFs } from '../src/types/gitHistory';
+import { GIT_HOST, httpBackendClient, initBareRepo, withPakoDeflate } from './git/httpBackend';
+
+let root: string;
+let bareRepo: string;
+
+/** Minimal GitHub REST API backed by the bare repo; records pull requests. */
+function mockGitHubApi() {
+  const pulls: Array<Record<string, string>> = [];
+  let exists = false;
+
+  const json = (status: number, data: unknown) =>
+    ({
+      ok: status < 300,
+      status,
+      json: async () => data,
+      text: async () => JSON.stringify(data),
+    }) as unknown as Response;
+
+  const repo = {
+    name: 'landing',
+    owner: { login: 'octo' },
+    clone_url: `${GIT_HOST}/landing.git`,
+    html_url: 'https://github.test/octo/landing',
+    default_branch: 'main',
+  };
+
+  const fetchMock = jest.fn(async (url: string, init?: RequestInit) => {
+    const route = `${init?.method ?? 'GET'} ${url.replace('https://api.github.test', '')}`;
+    if (route === 'GET /user') return json(200, { login: 'octo' });
+    if (route === 'GET /repos/octo/landing') return exists ? json(200, repo) : json(404, {});
+    if (route === 'POST /user/repos') {
+      exists = true;
+      return json(201, { ...repo, default_branch: null });
+    }
+    if (route === 'POST /repos/octo/landing/pulls') {
+      const pr = JSON.parse(String(init?.body));
+      pulls.push(pr);
+      return json(201, { number: pulls.length, html_url: `${repo.html_url}/pull/${pulls.length}`, title: pr.title });
+    }
+    return json(500, { message: `unexpected ${route}` });
+  });
+
+  return { fetchMock, pulls };
+}
+
+const git = (...args: string[]) =>
+  execFileSync('git', ['--git-dir', bareRepo, ...args], { encoding: 'utf8' }).trim();
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-publish-'));
+  bareRepo = initBareRepo(path.join(root, 'remote', 'landing.git'));
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+withPakoDeflate();
+
+describe('GitPublishService', () => {
+  const createService = () =>
+    createGitPublishService({
+      fs: fs as unknown as HistoryFs,
+      http: httpBackendClient(path.join(root, 'remote')),
+      root: path.join(root, 'work'),
+    });
+
+  test('creates the repository, pushes main, then opens a PR for follow-up changes', async () => {
+    const service = createService();
+    const { fetchMock, pulls } = mockGitHubApi();
+    const provider = new GitHubProvider({
+      token: 't0k',
+      apiBaseUrl: 'https://api.github.test',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+    const publish = (content: string) =>
+      service.publish({
+        projectId: 'p1',
+        provider,
+        repository: { name: 'landing' },
+        files: [
+          { path: '/src/App.tsx', content },
+          { path: '/package.json', content: '{}\n' },
+        ],
+        branch: 'builder/update',
+      });
+
+    const first = await publish('export default () => <h1>Hi</h1>;\n');
+    expect(first).toMatchObject({ mode: 'initial', branch: 'main', pullRequest: null });
+    expect(first.repository.created).toBe(true);
+    expect(git('log', '--format=%s', 'main')).toBe('Publish project from AI App Builder');
+    expect(git('show', 'main:src/App.tsx')).toBe('export default () => <h1>Hi</h1>;');
+
+    const second = await publish('export default () => <h1>Hello</h1>;\n');
+    expect(second).toMatchObject({ mode: 'pull-request', branch: 'builder/update', message: 'Update src/App.tsx' });
+    expect(second.pullRequest?.url).toBe('https://github.test/octo/landing/pull/1');
+    expect(pulls[0]).toMatchObject({ head: 'builder/update', base: 'main', title: 'Update src/App.tsx' });
+    expect(git('rev-parse', 'builder/update~1')).toBe(git('rev-parse', 'main'));
+    expect(git('show', 'builder/update:src/App.tsx')).toBe('export default () => <h1>Hello</h1>;');
+
+    const third = await publish('export default () => <h1>Hi</h1>;\n');
+    expect(third).toMatchObject({ mode: 'unchanged', branch: 'builder/update', pullRequest: null });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.github.test/repos/octo/landing',
+      expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer t0k' }) })
+    );
+  });
+
+  test('plain remotes mirror the project, deleting files it no longer has, and skip PRs', async () => {
+    const service = createService();
+    const provider = new PlainRemoteProvider({ url: `${GIT_HOST}/landing.git` });
+    const publish = (files: Array<{ path: string; content: string }>) =>
+      service.publish({ projectId: 'p2', provider, repository: { name: 'landing' }, files, branch: 'next' });
+
+    await publish([
+      { path: '/README.md', content: '# Landing\n' },
+      { path: '/src/old.ts', content: 'export {};\n' },
+    ]);
+    const result = await publish([
+      { path: '/README.md', content: '# Landing\n' },
+      { path: '/src/App.tsx', content: 'export {};\n' },
+    ]);
+
+    expect(result).toMatchObject({ mode: 'pull-request', pullRequest: null, message: 'Update 2 files' });
+    expect(git('ls-tree', '-r', '--name-only', 'next').split('\n')).toEqual(['README.md', 'src/App.tsx']);
+    expect(git('log', '-1', '--format=%b', 'next')).toBe('Added:\n- src/App.tsx\n\nRemoved:\n- src/old.ts');
+  });
+});
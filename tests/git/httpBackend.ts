@@ -0,0 +1,111 @@
+/**
+ * Local Git Remotes for Tests
+ *
+ * An isomorphic-git HttpClient that answers every request by running
+ * `git http-backend` as CGI over bare repositories on disk, so clone, fetch
+ * and push run against real git without a server.
+ *
+ *   const http = httpBackendClient('/tmp/remotes');  // serves /tmp/remotes/<name>.git
+ *   withPakoDeflate();                                 // once per test file
+ */
+
+import { execFileSync, spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { HttpClient } from 'isomorphic-git';
+
+/** Host used in remote URLs; any host works, only the path is served */
+export const GIT_HOST = 'http://git.test';
+
+export function httpBackendClient(projectRoot: string): HttpClient {
+  return {
+    async request({ url, method = 'GET', headers = {}, body }) {
+      const chunks: Uint8Array[] = [];
+      if (body) for await (const chunk of body) chunks.push(chunk);
+      const input = Buffer.concat(chunks);
+      const header = (name: string) =>
+        Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1] ?? '';
+      const { pathname, search } = new URL(url);
+
+      const { stdout } = spawnSync('git', ['http-backend'], {
+        input,
+        env: {
+          ...process.env,
+          GIT_PROJECT_ROOT: projectRoot,
+          GIT_HTTP_EXPORT_ALL: '1',
+          REMOTE_USER: 'tester',
+          REQUEST_METHOD: method,
+          PATH_INFO: pathname,
+          QUERY_STRING: search.slice(1),
+          CONTENT_TYPE: header('content-type'),
+          CONTENT_LENGTH: String(input.length),
+          GIT_PROTOCOL: header('git-protocol'),
+        },
+      });
+
+      const split = stdout.indexOf('\r\n\r\n');
+      const responseHeaders: Record<string, string> = {};
+      for (const line of stdout.subarray(0, split).toString().split('\r\n')) {
+        const [key, ...value] = line.split(':');
+        responseHeaders[key.toLowerCase()] = value.join(':').trim();
+      }
+      const [statusCode, ...statusMessage] = (responseHeaders.status ?? '200 OK').split(' ');
+      const responseBody = new Uint8Array(stdout.subarray(split + 4));
+
+      return {
+        url,
+        method,
+        statusCode: Number(statusCode),
+        statusMessage: statusMessage.join(' '),
+        headers: responseHeaders,
+        body: (async function* () {
+          yield responseBody;
+        })(),
+      };
+    },
+  };
+}
+
+/**
+ * Create a bare repository (branch main) and return its path.
+ */
+export function initBareRepo(repoPath: string): string {
+  execFileSync('git', ['init', '--bare', '--quiet', '--initial-branch=main', repoPath]);
+  return repoPath;
+}
+
+/**
+ * Commit `files` with the git CLI and push them to `main` of a bare repo.
+ */
+export function pushToBareRepo(bareRepo: string, files: Record<string, string>): void {
+  const work = fs.mkdtempSync(path.join(os.tmpdir(), 'git-work-'));
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(work, name)), { recursive: true });
+      fs.writeFileSync(path.join(work, name), content);
+    }
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-C', work, '-c', 'user.name=t', '-c', 'user.email=t@t', ...args]);
+    git('init', '--quiet', '--initial-branch=main');
+    git('add', '--all', '--force');
+    git('commit', '--quiet', '-m', 'init');
+    git('push', '--quiet', bareRepo, 'main');
+  } finally {
+    fs.rmSync(work, { recursive: true, force: true });
+  }
+}
+
+/**
+ * tests/setup.ts replaces Response, which isomorphic-git's CompressionStream
+ * path relies on; without CompressionStream it deflates with pako instead.
+ */
+export function withPakoDeflate(): void {
+  const { CompressionStream } = globalThis;
+  beforeAll(() => {
+    delete (globalThis as { CompressionStream?: unknown }).CompressionStream;
+  });
+  afterAll(() => {
+    globalThis.CompressionStream = CompressionStream;
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Hunk Review Tests
+ *
+ * Proposed files are diffed into FileChange[], hunks are approved or
+ * rejected through reviewReducer, only approved hunks are applied, and
+ * RollbackService keeps pruned, persisted restore points.
+ */
+
+import { applyApprovedChanges, diffFiles } from '../src/utils/hunkReview';
+import { createRollbackService } from '../src/services/RollbackService';
+import { createInitialReviewState, reviewReducer } from '../src/types/review';
+import type { RestorePoint, RestorePointStorage } from '../src/types/review';
+import type { AppFile } from '../src/types/railway';
+
+const lines = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => `line ${from + i}`);
+
+const CURRENT: AppFile[] = [
+  { path: '/src/App.tsx', content: lines(1, 20).join('\n') + '\n' },
+  { path: '/src/old.ts', content: 'export const old = 1;\n' },
+];
+
+const PROPOSED: AppFile[] = [
+  {
+    path: '/src/App.tsx',
+    content: ['line 1', 'line 2 edited', ...lines(3, 16), 'line 17 edited', ...lines(18, 20), 'line 21'].join('\n') + '\n',
+  },
+  { path: '/src/new.ts', content: 'export const added = 2;\n' },
+];
+
+function memoryStorage(): RestorePointStorage & { saved: Map<string, RestorePoint[]> } {
+  const saved = new Map<string, RestorePoint[]>();
+  return {
+    saved,
+    load: async (projectId) => saved.get(projectId) ?? [],
+    save: async (projectId, points) => {
+      saved.set(projectId, points);
+    },
+  };
+}
+
+describe('hunk review', () => {
+  test('applies only approved hunks', () => {
+    const changes = diffFiles(CURRENT, PROPOSED);
+    expect(changes.map((c) => [c.path, c.action, c.hunks.length])).toEqual([
+      ['/src/App.tsx', 'modify', 2],
+      ['/src/new.ts', 'create', 1],
+      ['/src/old.ts', 'delete', 1],
+    ]);
+
+    let state = reviewReducer(createInitialReviewState(), { type: 'SET_CHANGES', payload: changes });
+    expect(state.selectedFilePath).toBe('/src/App.tsx');
+    const [first, second] = changes[0].hunks;
+    state = reviewReducer(state, { type: 'APPROVE_HUNK', payload: { filePath: '/src/App.tsx', hunkId: second.id } });
+    state = reviewReducer(state, { type: 'REJECT_HUNK', payload: { filePath: '/src/App.tsx', hunkId: first.id } });
+    state = reviewReducer(state, { type: 'APPROVE_HUNK', payload: { filePath: '/src/new.ts', hunkId: changes[1].hunks[0].id } });
+
+    // The deletion stays pending, so old.ts is kept
+    expect(applyApprovedChanges(CURRENT, state.changes)).toEqual([
+      { path: '/src/App.tsx', content: ['line 1', ...lines(2, 16), 'line 17 edited', ...lines(18, 20), 'line 21'].join('\n') + '\n' },
+      { path: '/src/old.ts', content: 'export const old = 1;\n' },
+      { path: '/src/new.ts', content: 'export const added = 2;\n' },
+    ]);
+
+    state = reviewReducer(state, { type: 'APPROVE_ALL' });
+    expect(applyApprovedChanges(CURRENT, state.changes)).toEqual([PROPOSED[0], PROPOSED[1]]);
+    state = reviewReducer(state, { type: 'REJECT_ALL' });
+    expect(applyApprovedChanges(CURRENT, state.changes)).toEqual(CURRENT);
+  });
+
+  test('restore points roll back projects and files, pruned to the maximum', async () => {
+    const storage = memoryStorage();
+    const service = createRollbackService({ storage, projectId: 'p1', maxRestorePoints: 2 });
+    await service.load();
+
+    const first = await service.createRestorePoint('v1', CURRENT, { changeDescription: 'first', filesChanged: 2 });
+    const second = await service.createRestorePoint('v2', PROPOSED, { changeDescription: 'second', filesChanged: 2 });
+    expect(await service.rollbackTo(first.id)).toEqual(CURRENT);
+    expect(await service.rollbackFile(second.id, '/src/new.ts')).toEqual(PROPOSED[1]);
+    expect(await service.rollbackFile(second.id, '/src/old.ts')).toBeNull();
+
+    await service.createRestorePoint('v3', [], { changeDescription: 'third', filesChanged: 0 });
+    expect(service.getRestorePoints().map((p) => p.label)).toEqual(['v3', 'v2']);
+    await expect(service.rollbackTo(first.id)).rejects.toThrow('[RollbackService] Restore point not found');
+
+    const reloaded = createRollbackService({ storage, projectId: 'p1' });
+    await reloaded.load();
+    expect(reloaded.getRestorePoints().map((p) => p.label)).toEqual(['v3', 'v2']);
+
+    service.setMaxRestorePoints(1);
+    service.deleteRestorePoint('missing');
+    await Promise.resolve();
+    expect(storage.saved.get('p1')?.map((p) => p.label)).toEqual(['v3']);
+    expect(() => service.setMaxRestorePoints(0)).toThrow('positive integer');
+  });
+});
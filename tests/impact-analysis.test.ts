@@ -0,0 +1,112 @@
+/**
+ * Impact Analysis Tests
+ *
+ * ImpactAnalyzerService traces proposed changes through the project's
+ * dependency graph: affected components and routes, breaking export
+ * changes, per-change risk and the tests or chaos runs to repeat.
+ */
+
+import { createImpactAnalyzer } from '../src/services/ImpactAnalyzerService';
+import { diffFiles } from '../src/utils/hunkReview';
+import type { AppFile } from '../src/types/railway';
+
+const BUTTON = [
+  'interface ButtonProps { label: string; onClick?: () => void }',
+  'export function Button({ label, onClick }: ButtonProps) {',
+  '  return <button onClick={onClick}>{label}</button>;',
+  '}',
+].join('\n');
+
+const PROJECT: AppFile[] = [
+  { path: '/src/components/Button.tsx', content: BUTTON },
+  {
+    path: '/src/lib/format.ts',
+    content: 'export function formatPrice(cents: number): string {\n  return `$${cents / 100}`;\n}\n',
+  },
+  {
+    path: '/src/app/(shop)/cart/page.tsx',
+    content: [
+      "import { Button } from '@/components/Button';",
+      "import { formatPrice } from '@/lib/format';",
+      'export default function CartPage() {',
+      '  return <Button label={formatPrice(100)} onClick={() => history.back()} />;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    path: '/src/app/api/cart/route.ts',
+    content: "import { formatPrice } from '@/lib/format';\nexport async function POST() {\n  return Response.json({ total: formatPrice(1) });\n}\n",
+  },
+  {
+    path: '/src/lib/format.test.ts',
+    content: "import { formatPrice } from './format';\ntest('formats', () => expect(formatPrice(100)).toBe('$1'));\n",
+  },
+  { path: '/src/lib/unused.ts', content: 'export const unused = 1;\n' },
+];
+
+const withFile = (path: string, content: string | null) =>
+  content === null
+    ? PROJECT.filter((f) => f.path !== path)
+    : PROJECT.map((f) => (f.path === path ? { path, content } : f));
+
+describe('impact analysis', () => {
+  test('traces affected components, routes and checks through importers', async () => {
+    const analyzer = createImpactAnalyzer(PROJECT);
+    const changes = diffFiles(
+      PROJECT,
+      withFile('/src/lib/format.ts', 'export function formatPrice(cents: number, currency = "USD"): string {\n  return `${currency} ${cents / 100}`;\n}\n')
+    );
+    const analysis = await analyzer.analyzeChanges(changes);
+
+    expect(analysis.filesAffected.sort()).toEqual([
+      '/src/app/(shop)/cart/page.tsx',
+      '/src/app/api/cart/route.ts',
+      '/src/lib/format.test.ts',
+      '/src/lib/format.ts',
+    ]);
+    expect(analysis.componentsAffected).toEqual(['CartPage']);
+    expect(analysis.routesAffected.sort()).toEqual(['/cart', 'POST /api/cart']);
+    expect(analysis.breakingChanges).toEqual([
+      expect.stringMatching(/^\/src\/lib\/format\.ts: signature of formatPrice changed from \(cents: number\): string to \(cents: number, currency = "USD"\): string \(imported by /),
+    ]);
+    expect(analysis.suggestedTests).toEqual([
+      'Re-run /src/lib/format.test.ts',
+      'Run chaos fuzzing on /src/app/(shop)/cart/page.tsx (1 interactive element(s))',
+      'Exercise POST /api/cart',
+    ]);
+    expect(analysis.overallRisk).toBe('high');
+  });
+
+  test('flags removed props and deleted imports, and rates unimported changes low', async () => {
+    const analyzer = createImpactAnalyzer(PROJECT);
+
+    const props = diffFiles(PROJECT, withFile('/src/components/Button.tsx', BUTTON.replace('label: string;', 'label: string; size: number;')));
+    expect(analyzer.detectBreakingChanges(props)).toEqual([
+      '/src/components/Button.tsx: <Button>: new required prop size (imported by /src/app/(shop)/cart/page.tsx)',
+    ]);
+
+    const deleted = diffFiles(PROJECT, withFile('/src/components/Button.tsx', null));
+    expect(analyzer.detectBreakingChanges(deleted)).toEqual([
+      '/src/components/Button.tsx is deleted but imported by /src/app/(shop)/cart/page.tsx',
+    ]);
+
+    const [unused] = diffFiles(PROJECT, withFile('/src/lib/unused.ts', 'export const unused = 2;\n'));
+    expect(analyzer.assessRisk(unused)).toBe('low');
+    expect(analyzer.detectBreakingChanges([unused])).toEqual([]);
+
+    const packageChange = await analyzer.analyzeChanges(
+      diffFiles(
+        [{ path: '/package.json', content: '{"dependencies":{"react":"^18.0.0","lodash":"^4.0.0"}}' }],
+        [{ path: '/package.json', content: '{"dependencies":{"react":"^19.0.0","zod":"^3.0.0"}}' }]
+      )
+    );
+    expect(packageChange.dependencies).toEqual(['react ^18.0.0 → ^19.0.0', 'zod@^3.0.0 (added)', 'lodash (removed)']);
+    expect(packageChange.overallRisk).toBe('medium');
+
+    expect(analyzer.categorizeChange('<div className="p-4 text-lg">', '/src/App.tsx')).toBe('styling');
+    expect(analyzer.categorizeChange("import { x } from './x';", '/src/App.tsx')).toBe('structure');
+    expect(analyzer.categorizeChange('<p>Welcome back</p>', '/src/App.tsx')).toBe('content');
+    expect(analyzer.categorizeChange('const total = items.reduce(sum, 0);', '/src/App.tsx')).toBe('logic');
+    expect(analyzer.categorizeChange('{}', '/tsconfig.json')).toBe('configuration');
+  });
+});
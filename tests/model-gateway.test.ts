@@ -0,0 +1,156 @@
+/**
+ * Model Gateway Tests
+ *
+ * Tests per-step routing, the deterministic fake provider, the uniform
+ * retry policy, and token accounting — all offline.
+ */
+
+import { ModelGateway, FakeModelProvider, resolveModelRoute } from '../src/services/modelGateway';
+import { withRetry } from '../src/utils/retry';
+import type { ModelProvider, ModelRequest } from '../src/types/modelGateway';
+
+describe('Model Gateway', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('routing', () => {
+    test('uses default routes per step', () => {
+      expect(resolveModelRoute('router').provider).toBe('gemini');
+      expect(resolveModelRoute('architect').provider).toBe('anthropic');
+      expect(resolveModelRoute('omniChat').maxTokens).toBe(2048);
+    });
+
+    test('environment can re-route a single step', () => {
+      process.env.MODEL_ROUTE_LIVE_EDITOR = 'anthropic:claude-test';
+      const route = resolveModelRoute('liveEditor');
+
+      expect(route.provider).toBe('anthropic');
+      expect(route.model).toBe('claude-test');
+      expect(route.temperature).toBe(0.2);
+    });
+
+    test('MODEL_GATEWAY_PROVIDER=fake forces every step offline', () => {
+      process.env.MODEL_GATEWAY_PROVIDER = 'fake';
+      expect(resolveModelRoute('builder').provider).toBe('fake');
+      expect(resolveModelRoute('architect').provider).toBe('fake');
+    });
+
+    test('explicit overrides win over defaults', () => {
+      const route = resolveModelRoute('builder', { builder: { provider: 'fake' } });
+      expect(route.provider).toBe('fake');
+    });
+  });
+
+  describe('fake provider', () => {
+    const fakeGateway = () => {
+      const fake = new FakeModelProvider();
+      const gateway = new ModelGateway({
+        routes: { router: { provider: 'fake' }, builder: { provider: 'fake' } },
+        providers: { fake },
+      });
+      return { fake, gateway };
+    };
+
+    test('returns a parseable router strategy', async () => {
+      const { gateway } = fakeGateway();
+      const text = await gateway.generateText('router', 'Files: 0\nCode Exists: true');
+
+      expect(JSON.parse(text).mode).toBe('EDIT');
+    });
+
+    test('step responses can be overridden and calls are recorded', async () => {
+      const { fake, gateway } = fakeGateway();
+      fake.setResponse('builder', (req) => `// built for ${req.step}`);
+
+      const text = await gateway.generateText('builder', 'make a page');
+
+      expect(text).toBe('// built for builder');
+      expect(fake.calls).toHaveLength(1);
+      expect(fake.calls[0].messages[0].content).toBe('make a page');
+    });
+
+    test('records token usage per step', async () => {
+      const { gateway } = fakeGateway();
+      await gateway.generateText('router', 'abcd'.repeat(10));
+      await gateway.generateText('builder', 'abcd');
+
+      const summary = gateway.usage.summarize();
+      expect(summary.calls).toBe(2);
+      expect(summary.byStep.router?.inputTokens).toBe(10);
+      expect(summary.inputTokens).toBe(11);
+    });
+
+    test('prepareFile inlines data without network access', async () => {
+      const { gateway } = fakeGateway();
+      process.env.MODEL_GATEWAY_PROVIDER = 'fake';
+
+      const part = await gateway.prepareFile('surveyor', {
+        filename: 'a.png',
+        mimeType: 'image/png',
+        base64: 'data:image/png;base64,QUJD',
+      });
+
+      expect(part).toEqual({ inlineData: { mimeType: 'image/png', data: 'QUJD' } });
+    });
+  });
+
+  describe('retry policy', () => {
+    const fastPolicy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5, retryServerErrors: true };
+
+    test('retries rate limits and server errors', async () => {
+      const fn = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+        .mockRejectedValueOnce(Object.assign(new Error('Overloaded'), { status: 529 }))
+        .mockResolvedValue('ok');
+
+      await expect(withRetry(fn, fastPolicy)).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    test('does not retry client errors', async () => {
+      const fn = jest.fn().mockRejectedValue(Object.assign(new Error('Bad request'), { status: 400 }));
+
+      await expect(withRetry(fn, fastPolicy)).rejects.toThrow('Bad request');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    test('server errors are not retried when the policy disables it', async () => {
+      const fn = jest.fn().mockRejectedValue(new Error('503 Service Unavailable'));
+
+      await expect(withRetry(fn, { ...fastPolicy, retryServerErrors: false })).rejects.toThrow();
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    test('gateway applies retry around the provider', async () => {
+      let attempts = 0;
+      const flaky: ModelProvider = {
+        name: 'gemini',
+        async generate(model: string, _request: ModelRequest) {
+          attempts++;
+          if (attempts === 1) throw new Error('500 Internal');
+          return { text: 'done', model, usage: { inputTokens: 1, outputTokens: 1 } };
+        },
+        async prepareFile() {
+          return { text: '' };
+        },
+      };
+      const gateway = new ModelGateway({ providers: { gemini: flaky }, retryPolicy: fastPolicy });
+
+      await expect(gateway.generateText('router', 'x')).resolves.toBe('done');
+      expect(attempts).toBe(2);
+    });
+
+    test('an aborted signal stops before calling the provider', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const fn = jest.fn().mockResolvedValue('never');
+
+      await expect(withRetry(fn, fastPolicy, controller.signal)).rejects.toBeDefined();
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Model Pricing Tests
+ *
+ * Pricing reported token usage per model, and metering Gemini calls the same
+ * way whether they go through the SDK directly or the gateway's provider.
+ */
+
+import { GoogleGenerativeAI, type GenerativeModel } from '@google/generative-ai';
+import { getModelPricing, priceModelCall } from '../src/config/modelPricing';
+import { meterGenerativeModel, subscribeModelCalls } from '../src/services/modelGateway/meter';
+import { GeminiProvider } from '../src/services/modelGateway/providers/gemini';
+import type { ModelCallRecord } from '../src/types/modelGateway';
+
+describe('modelPricing', () => {
+  test('prices calls by the longest matching model prefix, unknown models at the service maximum', () => {
+    expect(getModelPricing('anthropic', 'claude-sonnet-4-5-20250929').model).toBe('claude-sonnet-4');
+    expect(getModelPricing('google', 'models/gemini-3-pro-image-preview').model).toBe('gemini-3-pro-image');
+    expect(getModelPricing('openai', 'gpt-9-omni').model).toBe('gpt-4');
+
+    expect(
+      priceModelCall({ service: 'google', model: 'gemini-3-pro-preview', inputTokens: 500_000, outputTokens: 100_000 })
+    ).toBeCloseTo(2.2);
+    expect(
+      priceModelCall({ service: 'openai', model: 'text-embedding-3-small', inputTokens: 1_000_000, outputTokens: 0 })
+    ).toBeCloseTo(0.02);
+  });
+
+  const thinkingModel = () =>
+    ({
+      model: 'models/gemini-3-flash-preview',
+      generateContent: async () => ({
+        response: {
+          text: () => 'ok',
+          usageMetadata: { promptTokenCount: 1000, candidatesTokenCount: 200, totalTokenCount: 1500 },
+        },
+      }),
+    }) as unknown as GenerativeModel;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('metered Gemini models report usage, counting thinking tokens as output', async () => {
+    const model = thinkingModel();
+
+    const calls: ModelCallRecord[] = [];
+    const unsubscribe = subscribeModelCalls((call) => calls.push(call));
+    const result = await meterGenerativeModel(model).generateContent('hi');
+    unsubscribe();
+    await model.generateContent('not reported');
+
+    expect(result.response.text()).toBe('ok');
+    expect(calls).toEqual([
+      expect.objectContaining({ service: 'google', model: 'gemini-3-flash-preview', inputTokens: 1000, outputTokens: 500 }),
+    ]);
+  });
+
+  test('the gateway Gemini provider counts thinking tokens as output too', async () => {
+    jest.spyOn(GoogleGenerativeAI.prototype, 'getGenerativeModel').mockReturnValue(thinkingModel());
+
+    const response = await new GeminiProvider().generate('gemini-3-flash-preview', {
+      step: 'router',
+      messages: [{ role: 'user', content: 'hi' }],
+      apiKey: 'test-key',
+    });
+
+    expect(response.usage).toEqual({ inputTokens: 1000, outputTokens: 500 });
+  });
+});
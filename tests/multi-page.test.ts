@@ -0,0 +1,158 @@
+/**
+ * Multi-Page Generation Tests
+ *
+ * A multi-page pipeline run analyzes each screenshot and recording into
+ * pages, reconciles their palettes into one theme, merges their navigation,
+ * infers routes and builds a routed app with the recording's transitions —
+ * all against the fake model provider.
+ */
+
+import { configureModelGateway, FakeModelProvider } from '../src/services/modelGateway';
+import { runPipeline } from '../src/services/TitanPipelineService';
+import { mergeNavigation, pageTransitionMotion } from '../src/utils/multiPageDesign';
+import type { PageReference } from '../src/types/layoutDesign';
+import type { ModelRequest } from '../src/types/modelGateway';
+
+const palette = (primary: string, background: string) => ({
+  primary,
+  secondary: '#6366f1',
+  accent: '#f59e0b',
+  background,
+  surface: '#f8fafc',
+  text: '#0f172a',
+  textMuted: '#64748b',
+});
+
+const ANALYST_RESPONSES: Record<string, object> = {
+  'home.png': {
+    pages: [{ name: 'Home', isMain: true, pageRole: 'landing', colorPalette: palette('#3b82f6', '#ffffff'), confidence: 0.9 }],
+    navigation: {
+      items: [
+        { label: 'Home', order: 0, isActive: true },
+        { label: 'Pricing', order: 1 },
+        { label: 'Blog', order: 2 },
+      ],
+      style: 'horizontal',
+      position: 'header',
+      isSticky: true,
+      confidence: 0.9,
+    },
+  },
+  'pricing.png': {
+    pages: [{ name: 'Pricing', pageRole: 'list', colorPalette: palette('#3a80f5', '#0f172a'), confidence: 0.6 }],
+    navigation: {
+      items: [
+        { label: 'Home', order: 0 },
+        { label: 'Pricing', order: 1, isActive: true },
+      ],
+      style: 'horizontal',
+      position: 'header',
+      confidence: 0.6,
+    },
+  },
+  'walkthrough.mp4': {
+    pages: [
+      { name: 'Blog', pageRole: 'list', colorPalette: palette('#3b82f6', '#ffffff'), confidence: 0.7 },
+      { name: 'Blog Post', pageRole: 'detail', colorPalette: palette('#3b82f6', '#ffffff'), confidence: 0.7 },
+    ],
+    navigation: null,
+    transitions: [
+      { startTime: 2, endTime: 2.4, transitionType: 'navigation', confidence: 0.9, startFrameIndex: 60, endFrameIndex: 72 },
+      { startTime: 5, endTime: 5.2, transitionType: 'tab-switch', confidence: 0.3, startFrameIndex: 150, endFrameIndex: 156 },
+    ],
+  },
+};
+
+const requestedFile = (request: ModelRequest) => {
+  const content = request.messages[request.messages.length - 1].content;
+  const text = typeof content === 'string' ? content : content.map((p) => ('text' in p ? p.text : '')).join('\n');
+  return text.match(/Reference file: (\S+)/)?.[1] ?? '';
+};
+
+describe('multi-page generation', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.MODEL_GATEWAY_PROVIDER = 'fake';
+    const fake = new FakeModelProvider({
+      pageAnalyst: (request) => JSON.stringify(ANALYST_RESPONSES[requestedFile(request)]),
+    });
+    configureModelGateway({ providers: { fake } });
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test('builds a routed app with a shared nav, reconciled theme and video transitions', async () => {
+    const result = await runPipeline({
+      files: [
+        { filename: 'home.png', mimeType: 'image/png', base64: 'aG9tZQ==' },
+        { filename: 'pricing.png', mimeType: 'image/png', base64: 'cHJpY2luZw==' },
+        { filename: 'walkthrough.mp4', mimeType: 'video/mp4', base64: 'dmlkZW8=' },
+      ],
+      instructions: 'A SaaS marketing site',
+      currentCode: null,
+      multiPage: true,
+    });
+
+    const design = result.multiPageDesign!;
+    expect(design.inferredRoutes.map((r) => r.path)).toEqual(['/', '/pricing', '/blog', '/blog-post/:id']);
+    expect(design.navigation.items.map((i) => [i.label, i.targetPageSlug])).toEqual([
+      ['Home', 'home'],
+      ['Pricing', 'pricing'],
+      ['Blog', 'blog'],
+    ]);
+
+    // Near-identical primaries collapse into one; the dark pricing page keeps its background
+    expect(design.sharedDesign.globalStyles?.colors.primary).toBe('#3b82f6');
+    expect(design.sharedDesign.globalStyles?.colors.background).toBe('#ffffff');
+    expect(Object.keys(design.pageSpecificOverrides)).toEqual(['page_1']);
+    expect(design.pageSpecificOverrides.page_1.globalStyles?.colors.background).toBe('#0f172a');
+    expect(result.manifests).toHaveLength(2);
+
+    const file = (path: string) => result.files.find((f) => f.path === path)?.content ?? '';
+    expect(result.files.map((f) => f.path)).toEqual(
+      expect.arrayContaining([
+        '/src/App.tsx',
+        '/src/pages/HomePage.tsx',
+        '/src/pages/PricingPage.tsx',
+        '/src/pages/BlogPage.tsx',
+        '/src/pages/BlogPostPage.tsx',
+        '/src/components/Nav.tsx',
+        '/src/router.tsx',
+        '/src/theme.ts',
+        '/src/index.tsx',
+      ])
+    );
+    expect(file('/src/pages/BlogPostPage.tsx')).toContain('export default function BlogPostPage');
+    expect(file('/src/App.tsx')).toContain("{ path: '/blog-post/:id', component: BlogPostPage }");
+    expect(file('/src/App.tsx')).toContain('<AnimatePresence mode="wait">');
+    expect(file('/src/App.tsx')).toContain('transition={{"duration":0.4,"ease":"easeOut"}}');
+    expect(file('/src/components/Nav.tsx')).toContain('"to": "/blog"');
+    expect(file('/src/theme.ts')).toContain('"primary": "#3b82f6"');
+  });
+
+  test('falls back to page order without detected nav, and to instant switches without confident transitions', () => {
+    const page = (name: string, slug: string, pageRole: 'landing' | 'detail'): PageReference => ({
+      id: slug,
+      name,
+      slug,
+      referenceImage: '',
+      order: slug === 'home' ? 0 : 1,
+      status: 'complete',
+      createdAt: '',
+      analysis: { pageRole } as PageReference['analysis'],
+    });
+
+    const navigation = mergeNavigation([], [page('Product', 'product', 'detail'), page('Home', 'home', 'landing')]);
+    expect(navigation.items).toEqual([{ label: 'Home', targetPageSlug: 'home', order: 0 }]);
+    expect(navigation.confidence).toBe(0);
+
+    expect(
+      pageTransitionMotion([
+        { startTime: 0, endTime: 1, transitionType: 'modal', confidence: 0.2, startFrameIndex: 0, endFrameIndex: 30 },
+      ])
+    ).toBeNull();
+  });
+});
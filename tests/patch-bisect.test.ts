@@ -0,0 +1,248 @@
+/**
+ * Patch Bisect Tests
+ *
+ * Rolling back a subset of whole-file Dream Mode patches and bisecting an
+ * ordered patch list for the first one that reproduces a crash. The campaign
+ * runs against an in-memory WebContainer: rejected patches and regressions
+ * are rolled back there too, flaky regressions are not bisected, and a stop
+ * ends the bisect.
+ */
+
+const container = new Map<string, string>();
+const validate = jest.fn();
+const runTests = jest.fn();
+
+jest.mock('../src/services/WebContainerService', () => ({
+  getWebContainerService: () => ({
+    validate,
+    executeShell: jest.fn(),
+    writeFile: async (path: string, content: string) => {
+      container.set(path, content);
+    },
+    removeFile: async (path: string) => {
+      container.delete(path);
+    },
+  }),
+}));
+
+jest.mock('../src/agents/QA_ChaosAgent', () => ({
+  getQAChaosAgent: () => ({ runTests }),
+}));
+
+import { bisectPatches, revertPatches, touchedPaths, withDependents } from '../src/utils/patchBisect';
+import { crashFingerprint } from '../src/utils/crashFingerprint';
+import { MaintenanceCampaign } from '../src/workflows/MaintenanceCampaign';
+import type { AgentTaskResult } from '../src/types/autonomy';
+import type { AppFile } from '../src/types/railway';
+import type { CrashEntry, DreamPatch, DreamPatchChange } from '../src/types/dream';
+
+const patch = (...changes: DreamPatchChange[]) => ({ changes });
+
+// Three patches: App.tsx twice (p1 then p3), and p2 creates a new Button.tsx
+const p1 = patch({ path: '/src/App.tsx', before: 'v0', after: 'v1' });
+const p2 = patch({ path: '/src/Button.tsx', before: null, after: 'button' });
+const p3 = patch({ path: '/src/App.tsx', before: 'v1', after: 'v3' }, { path: '/src/theme.ts', before: 't0', after: 't3' });
+const patched = [
+  { path: '/src/App.tsx', content: 'v3' },
+  { path: '/src/Button.tsx', content: 'button' },
+  { path: '/src/theme.ts', content: 't3' },
+  { path: '/src/index.tsx', content: 'entry' },
+];
+
+describe('patchBisect', () => {
+  test('reverts patches newest first and removes created files', () => {
+    expect(revertPatches(patched, [p2, p3])).toEqual([
+      { path: '/src/App.tsx', content: 'v1' },
+      { path: '/src/theme.ts', content: 't0' },
+      { path: '/src/index.tsx', content: 'entry' },
+    ]);
+    expect(revertPatches(patched, [p1, p2, p3]).find((f) => f.path === '/src/App.tsx')?.content).toBe('v0');
+    expect(touchedPaths([p1, p2, p3])).toEqual(new Set(['/src/App.tsx', '/src/Button.tsx', '/src/theme.ts']));
+  });
+
+  test('a culprit takes later patches to the same files with it', () => {
+    expect(withDependents([p1, p2, p3], 0)).toEqual([p1, p3]);
+    expect(withDependents([p1, p2, p3], 1)).toEqual([p2]);
+  });
+
+  test('bisects to the first failing patch in log2(n) runs', async () => {
+    const tested: number[] = [];
+    const culprit = await bisectPatches(8, async (applied) => {
+      tested.push(applied);
+      return applied >= 6;
+    });
+
+    expect(culprit).toBe(5);
+    expect(tested).toEqual([4, 6, 5]);
+    expect(await bisectPatches(1, async () => true)).toBe(0);
+  });
+
+  test('stops before the next run once stopped', async () => {
+    const tested: number[] = [];
+    const culprit = await bisectPatches(
+      8,
+      async (applied) => {
+        tested.push(applied);
+        return false;
+      },
+      () => tested.length === 1
+    );
+
+    expect(culprit).toBeNull();
+    expect(tested).toEqual([4]);
+  });
+});
+
+/** Private campaign state and steps driven directly by these tests */
+interface CampaignInternals {
+  files: AppFile[];
+  patches: DreamPatch[];
+  bugsFixed: number;
+  regressionSuite: { testCode: string; knownCrashes: Set<string> } | null;
+  autonomyCore: { solveUnknown: () => Promise<AgentTaskResult> };
+  guardAgainstRegressions(): Promise<void>;
+  diagnoseAndPatch(crash: CrashEntry): Promise<void>;
+}
+
+const crash = (error: string, file?: string): CrashEntry => ({
+  error,
+  file,
+  stepsToReproduce: [],
+  severity: 'high',
+  testName: 'clicks every button',
+});
+
+const crashReport = (crashes: CrashEntry[]) => ({
+  id: 'report',
+  crashes,
+  timestamp: 0,
+  duration: 0,
+  strategy: 'vitest' as const,
+  testsRun: 1,
+  testsPassed: crashes.length === 0 ? 1 : 0,
+});
+
+describe('campaign rollback', () => {
+  let campaign: MaintenanceCampaign;
+  let internals: CampaignInternals;
+  const logs: string[] = [];
+
+  /** Start from `files`, mounted in the container, with p1-p3 applied and verified */
+  function setUp(files: AppFile[]) {
+    campaign = new MaintenanceCampaign({
+      profileName: 'REM',
+      goalQueue: [],
+      onLog: (message) => logs.push(message),
+      onPhaseChange: () => undefined,
+      onStatsUpdate: () => undefined,
+      onGoalQueueUpdate: () => undefined,
+      onDiscoveryReport: () => undefined,
+    });
+    internals = campaign as unknown as CampaignInternals;
+    internals.files = files.map((f) => ({ ...f }));
+    internals.patches = [p1, p2, p3].map((p, i) => ({
+      file: p.changes[0].path,
+      before: '',
+      after: '',
+      crashId: `patch_${i + 1}`,
+      verified: true,
+      appliedAt: i,
+      changes: p.changes,
+    }));
+    internals.bugsFixed = 3;
+    internals.regressionSuite = { testCode: 'suite', knownCrashes: new Set() };
+    container.clear();
+    for (const file of files) container.set(file.path, file.content);
+  }
+
+  /** Regression suite that crashes while the container has Button.tsx (p2) */
+  const buttonCrashes = async () =>
+    crashReport(container.has('/src/Button.tsx') ? [crash('Button exploded', '/src/Button.tsx')] : []);
+
+  beforeEach(() => {
+    logs.length = 0;
+    jest.clearAllMocks();
+  });
+
+  test('a rejected patch leaves the container unchanged', async () => {
+    setUp([{ path: '/src/App.tsx', content: 'v0' }]);
+    internals.autonomyCore.solveUnknown = async () => ({
+      success: true,
+      output: 'broken',
+      edits: [
+        { op: 'replace', path: '/src/App.tsx', content: 'broken' },
+        { op: 'create', path: '/src/New.tsx', content: 'new' },
+      ],
+    });
+    validate.mockResolvedValue({ valid: false, errors: [{ message: 'Unexpected token' }] });
+
+    await internals.diagnoseAndPatch(crash('App crashed', '/src/App.tsx'));
+
+    expect(validate).toHaveBeenCalledWith(expect.arrayContaining([{ path: '/src/New.tsx', content: 'new' }]));
+    expect(Object.fromEntries(container)).toEqual({ '/src/App.tsx': 'v0' });
+    expect(internals.files).toEqual([{ path: '/src/App.tsx', content: 'v0' }]);
+    expect(internals.patches[3]).toMatchObject({ file: '/src/App.tsx', verified: false });
+  });
+
+  test('a regression that reproduces is bisected and its patch rolled back in the container', async () => {
+    setUp(patched);
+    runTests.mockImplementation(buttonCrashes);
+
+    await internals.guardAgainstRegressions();
+
+    // Found, confirmed, then two bisect runs
+    expect(runTests).toHaveBeenCalledTimes(4);
+    expect(internals.patches.map((p) => Boolean(p.revertedAt))).toEqual([false, true, false]);
+    expect(internals.bugsFixed).toBe(2);
+    expect(container.has('/src/Button.tsx')).toBe(false);
+    expect(Object.fromEntries(container)).toEqual(
+      Object.fromEntries(internals.files.map((f) => [f.path, f.content]))
+    );
+    expect(logs.some((l) => l.includes('Regression guard: reverted /src/Button.tsx'))).toBe(true);
+  });
+
+  test('a baseline crash whose message changed is still known, not a regression', async () => {
+    setUp(patched);
+    const stackTrace = 'TypeError: x\n    at onClick (/src/Button.tsx:12:5)';
+    const baseline = { ...crash("TypeError: Cannot read properties of undefined (reading 'count')"), stackTrace };
+    internals.regressionSuite = { testCode: 'suite', knownCrashes: new Set([crashFingerprint(baseline)]) };
+    runTests.mockResolvedValue(
+      crashReport([{ ...crash("TypeError: Cannot read properties of null (reading 'total')"), stackTrace }])
+    );
+
+    await internals.guardAgainstRegressions();
+
+    expect(runTests).toHaveBeenCalledTimes(1);
+    expect(internals.patches.some((p) => p.revertedAt)).toBe(false);
+    expect(logs.some((l) => l.includes('Regression guard: no new crashes'))).toBe(true);
+  });
+
+  test('a crash that does not come back on the re-run is not bisected', async () => {
+    setUp(patched);
+    runTests.mockResolvedValueOnce(crashReport([crash('Button exploded', '/src/Button.tsx')]));
+    runTests.mockResolvedValue(crashReport([]));
+
+    await internals.guardAgainstRegressions();
+
+    expect(runTests).toHaveBeenCalledTimes(2);
+    expect(internals.patches.some((p) => p.revertedAt)).toBe(false);
+    expect(internals.bugsFixed).toBe(3);
+    expect(logs.some((l) => l.includes('did not reproduce on a re-run; keeping all patches'))).toBe(true);
+  });
+
+  test('stopping mid-bisect keeps every patch and restores the patched container', async () => {
+    setUp(patched);
+    runTests.mockImplementation(async () => {
+      // Stop is pressed during the first bisect run
+      if (runTests.mock.calls.length === 3) campaign.stop();
+      return buttonCrashes();
+    });
+
+    await internals.guardAgainstRegressions();
+
+    expect(runTests).toHaveBeenCalledTimes(3);
+    expect(internals.patches.some((p) => p.revertedAt)).toBe(false);
+    expect(Object.fromEntries(container)).toEqual(Object.fromEntries(patched.map((f) => [f.path, f.content])));
+    expect(logs.some((l) => l.includes('stopped before the bisect finished'))).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Pipeline Cancellation Tests
+ *
+ * A run registered in the run registry can be cancelled mid-flight: the
+ * pipeline rejects with an AbortError, the registry entry is cleared, and
+ * the signal reaches every long-running step (including the Autonomy Core).
+ */
+
+import { configureModelGateway, FakeModelProvider } from '../src/services/modelGateway';
+import {
+  runPipeline,
+  registerPipelineRun,
+  cancelPipelineRun,
+  releasePipelineRun,
+} from '../src/services/TitanPipelineService';
+import { autonomyCore } from '../src/agents/AutonomyCore';
+
+describe('pipeline cancellation', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.MODEL_GATEWAY_PROVIDER = 'fake';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+  });
+
+  test('cancelling a registered run rejects the pipeline with an AbortError and clears the entry', async () => {
+    const { runId, signal } = registerPipelineRun('cancel-me');
+    const fake = new FakeModelProvider({
+      // The user presses Stop while the router is answering
+      router: () => {
+        expect(cancelPipelineRun(runId)).toBe(true);
+        return JSON.stringify({
+          mode: 'CREATE',
+          base_source: null,
+          file_roles: [],
+          execution_plan: { measure_pixels: [], extract_physics: [], preserve_existing_code: false },
+        });
+      },
+    });
+    configureModelGateway({ providers: { fake } });
+
+    await expect(
+      runPipeline({ files: [], instructions: 'A bakery landing page', currentCode: null }, { signal })
+    ).rejects.toMatchObject({ name: 'AbortError', message: 'Pipeline run cancelled' });
+
+    expect(fake.calls.map((c) => c.step)).toEqual(['router']);
+    expect(cancelPipelineRun(runId)).toBe(false);
+
+    // A finished run is released; a superseded one keeps the newer entry
+    const first = registerPipelineRun('reused');
+    const second = registerPipelineRun('reused');
+    expect(first.signal.aborted).toBe(true);
+    releasePipelineRun('reused', first.signal);
+    // A late disconnect of the first request must not cancel the second
+    expect(cancelPipelineRun('reused', first.signal)).toBe(false);
+    expect(second.signal.aborted).toBe(false);
+    expect(cancelPipelineRun('reused', second.signal)).toBe(true);
+    expect(second.signal.aborted).toBe(true);
+  });
+
+  test('the Autonomy Core receives the run signal and stops before calling a swarm', async () => {
+    const { runId, signal } = registerPipelineRun();
+    const fake = new FakeModelProvider({
+      router: JSON.stringify({
+        mode: 'RESEARCH_AND_BUILD',
+        base_source: null,
+        file_roles: [],
+        execution_plan: { measure_pixels: [], extract_physics: [], preserve_existing_code: false },
+      }),
+    });
+    configureModelGateway({ providers: { fake } });
+
+    // Stop is pressed as the Autonomy Core starts; the real method must notice
+    const solveUnknown = autonomyCore.solveUnknown.bind(autonomyCore);
+    const solve = jest.spyOn(autonomyCore, 'solveUnknown').mockImplementationOnce((goal, runSignal) => {
+      cancelPipelineRun(runId);
+      return solveUnknown(goal, runSignal);
+    });
+    const fabricate = jest.spyOn(
+      (autonomyCore as unknown as { factory: { fabricateSwarm: () => Promise<never> } }).factory,
+      'fabricateSwarm'
+    );
+
+    await expect(
+      runPipeline({ files: [], instructions: 'Build a WebGPU fluid simulator', currentCode: null }, { signal })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+
+    expect(solve).toHaveBeenCalledWith(expect.objectContaining({ description: 'Build a WebGPU fluid simulator' }), signal);
+    expect(fabricate).not.toHaveBeenCalled();
+    releasePipelineRun(runId, signal);
+  });
+});
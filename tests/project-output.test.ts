@@ -0,0 +1,150 @@
+/**
+ * Multi-File Project Output Tests
+ *
+ * componentsToReactCode emits a component tree (sections, theme, barrel,
+ * entry) and the consumers of AppFile[] — the screenshot HTML builder and
+ * the live-edit lookup — handle it.
+ */
+
+import { componentsToReactCode } from '../src/utils/componentsToReactCode';
+import { getReactToHtmlService } from '../src/services/ReactToHtmlService';
+import {
+  findFileByDataId,
+  parseMarkedFiles,
+  serializeProjectCode,
+} from '../src/utils/projectFiles';
+import type { DetectedComponentEnhanced } from '../src/types/layoutDesign';
+
+const component = (
+  overrides: Partial<DetectedComponentEnhanced> & Pick<DetectedComponentEnhanced, 'id' | 'type'>
+): DetectedComponentEnhanced => ({
+  bounds: { top: 0, left: 0, width: 100, height: 10 },
+  style: {},
+  confidence: 0.9,
+  ...overrides,
+});
+
+const COMPONENTS: DetectedComponentEnhanced[] = [
+  component({
+    id: 'site-header',
+    type: 'header',
+    role: 'container',
+    children: ['nav-link'],
+    style: { backgroundColor: '#0f172a', textColor: '#f8fafc' },
+  }),
+  component({
+    id: 'nav-link',
+    type: 'link',
+    parentId: 'site-header',
+    content: { text: 'Pricing', hasIcon: true, iconName: 'arrowRight' },
+    style: { textColor: '#f8fafc' },
+  }),
+  component({
+    id: 'hero',
+    type: 'hero',
+    bounds: { top: 10, left: 0, width: 100, height: 60 },
+    content: { text: 'Ship faster' },
+    style: { backgroundColor: '#1e293b', fontFamily: 'Inter' },
+  }),
+  component({
+    id: 'card-a',
+    type: 'card',
+    bounds: { top: 70, left: 0, width: 50, height: 20 },
+    style: { backgroundColor: '#1E293B', borderRadius: '12px' },
+  }),
+  component({
+    id: 'card-b',
+    type: 'card',
+    bounds: { top: 70, left: 50, width: 50, height: 20 },
+    style: { borderRadius: '12px' },
+  }),
+];
+
+describe('componentsToReactCode', () => {
+  const files = componentsToReactCode(COMPONENTS, { canvasBackground: '#ffffff' });
+  const file = (path: string) => files.find((f) => f.path === path)?.content ?? '';
+
+  test('emits one file per root section plus theme, barrel and entry', () => {
+    expect(files.map((f) => f.path)).toEqual([
+      '/src/App.tsx',
+      '/src/components/Header.tsx',
+      '/src/components/Hero.tsx',
+      '/src/components/Card.tsx',
+      '/src/components/Card2.tsx',
+      '/src/components/index.ts',
+      '/src/theme.ts',
+      '/src/index.tsx',
+    ]);
+    expect(file('/src/components/index.ts')).toContain("export { Card2 } from './Card2';");
+    expect(file('/src/index.tsx')).toContain("import './inspector';");
+  });
+
+  test('App composes the sections from the barrel', () => {
+    const app = file('/src/App.tsx');
+
+    expect(app).toContain("import { Header, Hero, Card, Card2 } from './components';");
+    expect(app).toContain('backgroundColor: theme.canvasBackground');
+    expect(app).toContain('<Card2 />');
+  });
+
+  test('sections reference theme tokens instead of literal colors', () => {
+    const header = file('/src/components/Header.tsx');
+
+    expect(file('/src/theme.ts')).toContain("surface1: '#0f172a'");
+    expect(header).toContain("import { theme } from '../theme';");
+    expect(header).toContain('backgroundColor: theme.colors.surface1');
+    expect(header).toContain('color: theme.colors.text1');
+    expect(header).not.toContain("'#0f172a'");
+    expect(file('/src/components/Hero.tsx')).toContain('fontFamily: theme.fonts.font1');
+  });
+
+  test('dedupes normalised colors and tokenizes radii', () => {
+    const card = file('/src/components/Card.tsx');
+
+    expect(card).toContain('backgroundColor: theme.colors.surface2');
+    expect(card).toContain('borderRadius: theme.radii.radius1');
+    expect(file('/src/components/Card2.tsx')).toContain('borderRadius: theme.radii.radius1');
+    expect(file('/src/theme.ts')).toContain("radius1: '12px'");
+  });
+
+  test('keeps data-ids and per-section icon imports', () => {
+    const header = file('/src/components/Header.tsx');
+
+    expect(header).toContain('data-id="site-header"');
+    expect(header).toContain('data-id="nav-link"');
+    expect(header).toContain("import { ArrowRight } from 'lucide-react';");
+    expect(file('/src/components/Hero.tsx')).not.toContain('lucide-react');
+  });
+
+  test('the data-id lookup resolves to the owning section', () => {
+    expect(findFileByDataId(files, 'nav-link')?.path).toBe('/src/components/Header.tsx');
+    expect(findFileByDataId(files, 'missing')?.path).toBe('/src/App.tsx');
+  });
+
+  test('serialized projects round-trip through file markers', () => {
+    const serialized = serializeProjectCode(files) ?? '';
+    const parsed = parseMarkedFiles(serialized);
+
+    expect(serialized).not.toContain('/src/index.tsx');
+    expect(parsed.map((f) => f.path)).toEqual(files.slice(0, -1).map((f) => f.path));
+  });
+});
+
+describe('ReactToHtmlService with multi-file projects', () => {
+  const html = getReactToHtmlService().buildStandaloneHtml(componentsToReactCode(COMPONENTS));
+
+  test('loads the theme before the sections that read it', () => {
+    expect(html.indexOf('// Module: /src/theme.ts')).toBeGreaterThan(-1);
+    expect(html.indexOf('// Module: /src/theme.ts')).toBeLessThan(
+      html.indexOf('// Module: /src/components/Header.tsx')
+    );
+  });
+
+  test('publishes every export as a global and strips relative imports', () => {
+    expect(html).toContain('window.theme = theme;');
+    expect(html).toContain('window.Hero = Hero;');
+    expect(html).not.toContain("from '../theme'");
+    expect(html).not.toContain("from './components'");
+    expect(html).not.toContain('// Module: /src/components/index.ts');
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Repo Loader Tests
+ *
+ * Every RepoSource (zip, local folder, host archive, git clone) produces the
+ * same AppFile[] / FileSystemTree, filtered by include/exclude globs and
+ * bounded by size limits.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import { getRepoLoaderService } from '../src/services/RepoLoaderService';
+import { parseRepoSource } from '../src/services/repoSources';
+import { matchesAnyGlob } from '../src/utils/glob';
+import type { HistoryFs } from '../src/types/gitHistory';
+import type { DirectoryHandleLike, FileHandleLike } from '../src/types/repoSource';
+import {
+  GIT_HOST,
+  httpBackendClient,
+  initBareRepo,
+  pushToBareRepo,
+  withPakoDeflate,
+} from './git/httpBackend';
+
+const REPO_FILES: Record<string, string> = {
+  'package.json': '{ "name": "app" }\n',
+  'src/App.tsx': 'export default function App() { return null; }\n',
+  'src/styles.css': 'body { margin: 0; }\n',
+  'docs/guide.md': '# Guide\n',
+  'node_modules/react/index.js': 'module.exports = {};\n',
+  'public/logo.png': 'not really a png',
+  '.env.local': 'SECRET=1\n',
+};
+
+const loader = getRepoLoaderService();
+const paths = (files: Array<{ path: string }>) => files.map((f) => f.path).sort();
+
+async function zipOf(files: Record<string, string>, root = ''): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) zip.file(`${root}${name}`, content);
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+/** In-memory File System Access API handle; records which directories were opened. */
+function directoryHandle(files: Record<string, string>, opened: string[], name = 'app', prefix = ''): DirectoryHandleLike {
+  const children = new Map<string, DirectoryHandleLike | FileHandleLike>();
+  for (const [filePath, content] of Object.entries(files)) {
+    const [head, ...rest] = filePath.split('/');
+    if (rest.length === 0) {
+      const bytes = new TextEncoder().encode(content);
+      children.set(head, {
+        kind: 'file',
+        name: head,
+        getFile: async () => ({ size: bytes.length, arrayBuffer: async () => bytes.buffer as ArrayBuffer }),
+      });
+    } else if (!children.has(head)) {
+      const nested = Object.fromEntries(
+        Object.entries(files)
+          .filter(([p]) => p.startsWith(`${head}/`))
+          .map(([p, c]) => [p.slice(head.length + 1), c])
+      );
+      children.set(head, directoryHandle(nested, opened, head, `${prefix}${head}/`));
+    }
+  }
+  return {
+    kind: 'directory',
+    name,
+    async *values() {
+      opened.push(prefix || '/');
+      yield* children.values();
+    },
+  };
+}
+
+describe('glob matching', () => {
+  test('supports *, **, ? and braces with gitignore-style anchoring', () => {
+    expect(matchesAnyGlob('docs/guide.md', ['*.md'])).toBe(true);
+    expect(matchesAnyGlob('src/a/b/App.tsx', ['src/**/*.tsx'])).toBe(true);
+    expect(matchesAnyGlob('lib/App.tsx', ['src/**/*.tsx'])).toBe(false);
+    expect(matchesAnyGlob('src/App.tsx', ['src/*.{ts,tsx}'])).toBe(true);
+    expect(matchesAnyGlob('a/node_modules/x/index.js', ['node_modules'])).toBe(true);
+    expect(matchesAnyGlob('a/src/x.ts', ['/src'])).toBe(false);
+  });
+});
+
+describe('sources', () => {
+  test('an uploaded zip drops its wrapper folder and the default excludes', async () => {
+    const { files, stats } = await loader.loadFromSource({
+      kind: 'zip',
+      data: await zipOf(REPO_FILES, 'app-main/'),
+    });
+
+    expect(paths(files)).toEqual(['/docs/guide.md', '/package.json', '/src/App.tsx', '/src/styles.css']);
+    expect(stats).toMatchObject({ fileCount: 4, skippedCount: 2, truncated: false });
+  });
+
+  test('include/exclude globs and size limits apply to every source', async () => {
+    const data = await zipOf(REPO_FILES);
+
+    const filtered = await loader.loadFromSource(
+      { kind: 'zip', data },
+      { include: ['src/**', 'package.json'], exclude: ['*.css'] }
+    );
+    expect(paths(filtered.files)).toEqual(['/package.json', '/src/App.tsx']);
+
+    const limited = await loader.loadFromSource({ kind: 'zip', data }, { maxFiles: 2 });
+    expect(limited.stats).toMatchObject({ fileCount: 2, truncated: true });
+
+    const small = await loader.loadFromSource({ kind: 'zip', data }, { maxFileSize: 19 });
+    expect(paths(small.files)).toEqual(['/docs/guide.md', '/package.json']);
+  });
+
+  test('a local folder never opens excluded directories', async () => {
+    const opened: string[] = [];
+    const { files, tree } = await loader.loadFromSource({
+      kind: 'directory',
+      handle: directoryHandle(REPO_FILES, opened),
+    });
+
+    expect(paths(files)).toEqual(['/docs/guide.md', '/package.json', '/src/App.tsx', '/src/styles.css']);
+    expect(opened).not.toContain('node_modules/');
+    expect(tree.src).toMatchObject({ directory: { 'App.tsx': { file: { contents: REPO_FILES['src/App.tsx'] } } } });
+  });
+
+  test('GitLab archives are fetched from the project archive endpoint with the token', async () => {
+    const archive = await zipOf({ 'README.md': '# Hi\n' }, 'proj-main-abc123/');
+    const fetchMock = jest.fn(async () => ({
+      ok: true,
+      arrayBuffer: async () => archive.buffer,
+    }));
+    const realFetch = global.fetch;
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    try {
+      const { files } = await loader.loadFromSource(
+        parseRepoSource('https://gitlab.com/group/sub/proj/-/tree/main', { token: 'glpat', ref: 'main' })
+      );
+      expect(paths(files)).toEqual(['/README.md']);
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://gitlab.com/api/v4/projects/group%2Fsub%2Fproj/repository/archive.zip?sha=main',
+        { headers: { 'PRIVATE-TOKEN': 'glpat' } }
+      );
+    } finally {
+      global.fetch = realFetch;
+    }
+  });
+});
+
+describe('git smart-HTTP clone', () => {
+  withPakoDeflate();
+
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-loader-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('clones any remote into the same file list', async () => {
+    pushToBareRepo(initBareRepo(path.join(root, 'remote', 'app.git')), REPO_FILES);
+
+    loader.configureGitTransport({
+      fs: fs as unknown as HistoryFs,
+      http: httpBackendClient(path.join(root, 'remote')),
+      root: path.join(root, 'clones'),
+    });
+    const source = parseRepoSource(`${GIT_HOST}/app.git`);
+    const { files } = await loader.loadFromSource(source, { exclude: ['docs'] });
+
+    expect(source.kind).toBe('git');
+    expect(paths(files)).toEqual(['/package.json', '/src/App.tsx', '/src/styles.css']);
+  });
+});
+
+describe('parseRepoSource', () => {
+  test('maps settings strings to sources', () => {
+    expect(parseRepoSource('facebook/react', { token: 't' })).toEqual({
+      kind: 'github',
+      repo: 'facebook/react',
+      ref: undefined,
+      token: 't',
+    });
+    expect(parseRepoSource('https://github.com/facebook/react.git')).toMatchObject({
+      kind: 'github',
+      repo: 'facebook/react',
+    });
+    expect(parseRepoSource('https://git.example.com/team/app.git', { token: 'pw' })).toMatchObject({
+      kind: 'git',
+      password: 'pw',
+    });
+    expect(() => parseRepoSource('not a repo')).toThrow('[RepoLoader]');
+  });
+});
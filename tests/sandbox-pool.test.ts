@@ -0,0 +1,112 @@
+/**
+ * Sandbox Pool Tests
+ *
+ * Sharding chaos suites, merging shard crash reports, and running shards in
+ * parallel child-process sandboxes.
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SandboxPool } from '../src/services/sandboxPool/SandboxPool';
+import { ChildProcessSandbox } from '../src/services/sandboxPool/childProcessSandbox';
+import { shardTestSuite } from '../src/utils/chaosSharding';
+import { mergeCrashReports } from '../src/utils/crashFingerprint';
+import type { CrashReport } from '../src/types/dream';
+
+const suite = [
+  "import { render } from '@testing-library/react';",
+  "import App from './src/App';",
+  '',
+  'const long = `x${"}".repeat(3)}`;',
+  '',
+  "describe('chaos', () => {",
+  '  beforeEach(() => { render(<App />); });',
+  '',
+  '  // rapid clicks',
+  "  test('clicks', () => {",
+  "    expect('{').toBe('{');",
+  '  });',
+  '',
+  "  test('overflow', () => {});",
+  '',
+  "  it('xss', () => {});",
+  '});',
+  '',
+].join('\n');
+
+function report(id: string, crashes: CrashReport['crashes'], timestamp: number, duration: number): CrashReport {
+  return { id, crashes, timestamp, duration, strategy: 'vitest', testsRun: 2, testsPassed: 2 - crashes.length };
+}
+
+describe('chaos sharding', () => {
+  test('deals the tests of a single describe round-robin and keeps shared code in every shard', () => {
+    const shards = shardTestSuite(suite, 2);
+
+    expect(shards).toHaveLength(2);
+    for (const shard of shards) {
+      expect(shard).toContain("import App from './src/App';");
+      expect(shard).toContain('const long = `x${"}".repeat(3)}`;');
+      expect(shard).toContain('  beforeEach(() => { render(<App />); });');
+      expect(shard.trimEnd().endsWith('});')).toBe(true);
+    }
+    expect(shards[0]).toContain("// rapid clicks\n  test('clicks'");
+    expect(shards[0]).toContain("it('xss'");
+    expect(shards[0]).not.toContain("test('overflow'");
+    expect(shards[1]).toContain("test('overflow'");
+    expect(shards[1]).not.toContain("test('clicks'");
+
+    expect(shardTestSuite(suite, 1)).toEqual([suite]);
+    expect(shardTestSuite("test('unbalanced', () => {", 4)).toHaveLength(1);
+  });
+
+  test('merges shard reports, grouping crashes by fingerprint', () => {
+    const crash = (worker: string, testName: string) => ({
+      error: "TypeError: Cannot read properties of undefined (reading 'map')\n    at List",
+      stackTrace: `TypeError: x\n    at List (/.gremlins/${worker}/src/List.tsx:3:17)\n    at render (/node_modules/react-dom/index.js:10:5)`,
+      stepsToReproduce: [`Test: ${testName}`],
+      severity: 'medium' as const,
+      testName,
+    });
+
+    const merged = mergeCrashReports([
+      report('a', [crash('gremlin-1', 'clicks')], 1000, 500),
+      report('b', [crash('gremlin-2', 'overflow'), { error: 'Other', stepsToReproduce: [], severity: 'low' }], 1100, 900),
+    ]);
+
+    expect(merged.crashes.map((c) => [c.testName ?? c.error, c.occurrences])).toEqual([['clicks', 2], ['Other', 1]]);
+    expect(merged.testsRun).toBe(4);
+    expect(merged.testsPassed).toBe(1);
+    expect(merged.timestamp).toBe(1000);
+    expect(merged.duration).toBe(1000);
+  });
+
+  test('runs shards in parallel child-process sandboxes with their own files', async () => {
+    const projectDir = await mkdtemp(join(tmpdir(), 'sandbox-pool-'));
+    const pool = new SandboxPool({
+      size: 2,
+      createSandbox: (id) => new ChildProcessSandbox(id, { projectDir, baseDir: projectDir }),
+    });
+
+    try {
+      await pool.prepare([{ path: '/src/value.txt', content: 'project' }]);
+      const outputs = await pool.map(['one', 'two', 'three'], async (shard, sandbox) => {
+        await sandbox.writeFile('/shard.txt', shard);
+        const { output, exitCode } = await sandbox.executeShell(process.execPath, [
+          '-e',
+          "const fs = require('fs'); process.stdout.write(fs.readFileSync('shard.txt', 'utf8') + ':' + fs.readFileSync('src/value.txt', 'utf8'))",
+        ]);
+        return `${exitCode} ${output}`;
+      });
+
+      expect(outputs).toEqual(['0 one:project', '0 two:project', '0 three:project']);
+      const sandbox = new ChildProcessSandbox('gremlin-x', { projectDir, baseDir: projectDir });
+      await sandbox.prepare([]);
+      await expect(sandbox.writeFile('/../escape.txt', '')).rejects.toThrow(/outside the sandbox/);
+      await sandbox.dispose();
+    } finally {
+      await pool.dispose();
+      await rm(projectDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Declarative 3D Scene Tests
+ *
+ * 3D scenes are designed as a Scene3DDefinition, validated, and compiled
+ * deterministically to React Three Fiber. Invalid definitions are repaired
+ * from their validation errors; edits start from the project's
+ * /src/scene3d.json.
+ */
+
+import { configureModelGateway, FakeModelProvider } from '../src/services/modelGateway';
+import { assembleCode } from '../src/services/titanPipeline/builder';
+import { compileScene3D, isCompiledSceneFile, SCENE_FILE_PATH } from '../src/utils/scene3dCompiler';
+import { validateScene3D } from '../src/utils/scene3dValidation';
+import { serializeProjectCode } from '../src/utils/projectFiles';
+import type { Scene3DDefinition } from '../src/types/layoutDesign';
+import type { MergeStrategy } from '../src/types/titanPipeline';
+
+const gallery: Scene3DDefinition = {
+  config: { camera: { position: [0, 2, 8], lookAt: [0, 1, 0] }, renderer: { toneMapping: 'ACESFilmic' } },
+  lights: [{ type: 'directional', position: [5, 10, 5], intensity: 1.5, castShadow: true }],
+  objects: [],
+  environment: { background: '#101010', ground: { size: 40 } },
+  multiScene: {
+    scenes: [
+      {
+        id: 'lobby',
+        name: 'Lobby',
+        isInitial: true,
+        scene: {
+          config: {},
+          lights: [],
+          objects: [
+            {
+              id: 'door',
+              type: 'mesh',
+              geometry: { type: 'box', args: [1, 2, 0.1] },
+              material: { type: 'standard', color: '#8b5cf6', map: 'https://cdn.example.com/wood.jpg' },
+              position: [0, 1, -3],
+            },
+          ],
+        },
+      },
+      {
+        id: 'hall',
+        name: 'Sculpture Hall',
+        transition: { type: 'fade', duration: 0.8 },
+        scene: {
+          config: {},
+          lights: [],
+          objects: [
+            {
+              id: 'ball',
+              type: 'mesh',
+              geometry: { type: 'sphere', segments: 48 },
+              position: [0, 4, 0],
+              rigidBody: { type: 'dynamic', colliders: [{ shape: 'ball', args: [0.5], restitution: 0.8 }] },
+            },
+          ],
+          postProcessing: { bloom: { intensity: 1.2 } },
+        },
+      },
+    ],
+    navigationTriggers: [{ sceneId: 'lobby', objectId: 'door', targetSceneId: 'hall' }],
+  },
+};
+
+const strategy: MergeStrategy = {
+  mode: 'CREATE',
+  base_source: null,
+  file_roles: [],
+  execution_plan: { measure_pixels: [], extract_physics: [], preserve_existing_code: false, enable_3d: true },
+};
+
+describe('declarative 3D scenes', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test('validation reports every problem with its path; valid scenes compile deterministically', () => {
+    const invalid = validateScene3D({
+      config: {},
+      lights: [],
+      objects: [
+        { id: 'crate', type: 'mesh', rigidBody: { type: 'dynamic', colliders: [{ shape: 'cuboid', args: [1] }] } },
+        { id: 'crate', type: 'instance', geometry: { type: 'lathe' } },
+      ],
+    });
+    expect(invalid.success).toBe(false);
+    expect(!invalid.success && invalid.errors).toEqual([
+      'objects: duplicate object id(s) crate',
+      'objects[0] (crate): mesh needs a geometry or a modelUrl',
+      'objects[0] (crate).rigidBody.colliders[0]: cuboid collider needs 3 arg(s)',
+      'objects[1] (crate): instance needs an instanceCount',
+      'objects[1] (crate): lathe geometry is not supported; use a primitive or a modelUrl',
+      'lights: the scene has no light source (add lights or an environment preset)',
+    ]);
+    expect(validateScene3D({ config: {}, lights: 'none', objects: [] })).toEqual({
+      success: false,
+      errors: [expect.stringMatching(/^lights: /)],
+    });
+
+    // Scenes inherit the root's light, so the gallery is valid as a whole
+    expect(validateScene3D(gallery)).toEqual({ success: true, scene: gallery });
+
+    const { files, warnings } = compileScene3D(gallery);
+    expect(compileScene3D(gallery).files).toEqual(files);
+    expect(warnings).toEqual([]);
+    expect(files.map((f) => f.path)).toEqual([
+      '/src/App.tsx',
+      '/src/scenes/LobbyScene.tsx',
+      '/src/scenes/SculptureHallScene.tsx',
+      SCENE_FILE_PATH,
+      '/src/index.tsx',
+    ]);
+    expect(files.filter(isCompiledSceneFile).map((f) => f.path)).toEqual([
+      '/src/App.tsx',
+      '/src/scenes/LobbyScene.tsx',
+      '/src/scenes/SculptureHallScene.tsx',
+    ]);
+    const file = (path: string) => files.find((f) => f.path === path)?.content ?? '';
+
+    expect(file('/src/App.tsx')).toContain('gl={{ antialias: true, toneMapping: THREE.ACESFilmicToneMapping }}');
+    expect(file('/src/App.tsx')).toContain('useState("lobby")');
+    expect(file('/src/App.tsx')).toContain('"hall": SculptureHallScene,');
+
+    const lobby = file('/src/scenes/LobbyScene.tsx');
+    expect(lobby).toContain('const textures = useTexture({"t0":"https://cdn.example.com/wood.jpg"});');
+    expect(lobby).toContain('onClick={() => onNavigate("hall")}');
+    expect(lobby).toContain('<directionalLight position={[5,10,5]} intensity={1.5} castShadow shadow-mapSize={[2048,2048]} />');
+    expect(lobby).toContain('<OrbitControls makeDefault target={[0,1,0]} enableDamping dampingFactor={0.05} />');
+    expect(lobby).not.toContain('<Physics');
+
+    const hall = file('/src/scenes/SculptureHallScene.tsx');
+    expect(hall).toContain('<Physics gravity={[0,-9.81,0]}>');
+    expect(hall).toContain('<RigidBody type="dynamic" colliders={false} position={[0,4,0]}>');
+    expect(hall).toContain('<BallCollider args={[0.5]} restitution={0.8} />');
+    expect(hall).toContain('<sphereGeometry args={[0.5,48,48]} />');
+    expect(hall).toContain('<CuboidCollider args={[20,0.1,20]} position={[0,-0.1,0]} />');
+    expect(hall).toContain("import { Bloom, EffectComposer } from '@react-three/postprocessing';");
+    expect(JSON.parse(file(SCENE_FILE_PATH))).toEqual(gallery);
+  });
+
+  test('the builder repairs an invalid definition once, then edits start from the saved definition', async () => {
+    process.env.MODEL_GATEWAY_PROVIDER = 'fake';
+    const fake = new FakeModelProvider({
+      sceneDesigner: (request) => {
+        const repairing = JSON.stringify(request.messages).includes('VALIDATION ERRORS');
+        return JSON.stringify({
+          config: {},
+          lights: repairing ? [{ type: 'ambient', intensity: 0.5 }] : [],
+          objects: [{ id: 'cube', type: 'mesh', geometry: { type: 'box' } }],
+        });
+      },
+    });
+    configureModelGateway({ providers: { fake } });
+
+    const files = await assembleCode(null, [], null, strategy, null, 'A spinning 3D cube', {});
+    const calls = () => fake.calls.filter((c) => c.step === 'sceneDesigner');
+    expect(calls()).toHaveLength(2);
+    expect(JSON.stringify(calls()[1].messages)).toContain('lights: the scene has no light source');
+    expect(fake.calls.some((c) => c.step === 'builder')).toBe(false);
+    expect(files.map((f) => f.path)).toEqual(['/src/App.tsx', '/src/scenes/MainScene.tsx', SCENE_FILE_PATH, '/src/index.tsx']);
+    expect(files[1].content).toContain('<ambientLight intensity={0.5} />');
+
+    // Editing a scene project hands the designer the current definition
+    await assembleCode(null, [], null, strategy, serializeProjectCode(files), 'Make the cube red', {});
+    expect(JSON.stringify(calls()[2].messages)).toContain('CURRENT SCENE (EDIT MODE)');
+    expect(JSON.stringify(calls()[2].messages)).toContain('\\"id\\": \\"cube\\"');
+  });
+});
@@ -3,8 +3,10 @@
  * Runs before all tests
  */
 
-// Mock environment variables
-process.env.ANTHROPIC_API_KEY = 'test-api-key';
+// Mock environment variables (cassette recording needs the real key)
+if (process.env.CASSETTE_MODE !== 'record') {
+  process.env.ANTHROPIC_API_KEY = 'test-api-key';
+}
 Object.defineProperty(process.env, 'NODE_ENV', {
   value: 'test',
   writable: true,